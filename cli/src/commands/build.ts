@@ -2,8 +2,18 @@ import chalk from 'chalk';
 import ora, { type Ora } from 'ora';
 import { createInterface } from 'readline';
 import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, basename, resolve } from 'path';
 import { getApiKey, getApiUrl, getTrialState, hasValidAccess } from '../config.js';
+import { formatApiError, type ApiError } from '../lib/api.js';
+import {
+  parseTemplateVars,
+  renderTemplate,
+  resolveTemplate,
+  resolveTemplateValues,
+  writeTemplate,
+  type RenderedTemplate,
+  type TemplateStack,
+} from '../lib/templates.js';
 
 /**
  * CODEBAKERS BUILD COMMAND
@@ -22,6 +32,8 @@ import { getApiKey, getApiUrl, getTrialState, hasValidAccess } from '../config.j
 interface BuildOptions {
   description?: string;
   output?: string;
+  template?: string; // Lay down this template before the AI build starts
+  var?: string[]; // Template variables as name=value
   verbose?: boolean;
 }
 
@@ -120,6 +132,38 @@ export async function build(options: BuildOptions = {}): Promise<void> {
     }
   }
 
+  // Start from a template: its files go down first and its stack steers the build
+  let stack: TemplateStack | undefined;
+  let templateSteps: RenderedTemplate['postInstall'] = [];
+  if (options.template) {
+    const templateSpinner = ora(`  Loading template ${options.template}...`).start();
+    try {
+      const template = await resolveTemplate(options.template);
+      templateSpinner.stop();
+
+      const provided = { projectName: basename(resolve(outputDir)), ...parseTemplateVars(options.var) };
+      const { values, missing } = resolveTemplateValues(template.manifest, provided);
+      for (const variable of missing) {
+        const answer = await prompt(`  ${variable.description || variable.name}: `);
+        if (!answer) {
+          console.log(chalk.red(`\n  ${variable.name} is required. Pass it with --var ${variable.name}=<value>\n`));
+          process.exit(1);
+        }
+        Object.assign(values, resolveTemplateValues(template.manifest, { ...provided, [variable.name]: answer }).values);
+      }
+
+      const rendered = renderTemplate(template, values);
+      writeTemplate(outputDir, rendered);
+      stack = template.manifest.stack;
+      templateSteps = rendered.postInstall;
+      console.log(chalk.green(`  ✓ ${template.manifest.name}@${template.manifest.version}: ${rendered.files.length} files written`));
+    } catch (error) {
+      templateSpinner.fail('Could not apply template');
+      console.log(chalk.red(`\n  ${formatApiError(error as ApiError)}\n`));
+      process.exit(1);
+    }
+  }
+
   console.log(chalk.green(`\n  Building: "${description}"\n`));
 
   // Create engineering session
@@ -156,6 +200,7 @@ export async function build(options: BuildOptions = {}): Promise<void> {
         projectName: description,
         projectDescription: description,
         source: 'cli',
+        ...(stack && { stack }),
       }),
     });
 
@@ -202,6 +247,14 @@ export async function build(options: BuildOptions = {}): Promise<void> {
     // Step 4: Stream progress and receive files
     await streamBuildProgress(apiUrl, authHeader, sessionId, outputDir, options.verbose);
 
+    if (templateSteps.length > 0) {
+      console.log(chalk.white('  Template setup steps:\n'));
+      for (const step of templateSteps) {
+        console.log(chalk.cyan(`    ${step.run}`) + (step.description ? chalk.gray(`  # ${step.description}`) : ''));
+      }
+      console.log('');
+    }
+
   } catch (error) {
     spinner.fail('Build failed');
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -1,7 +1,8 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { existsSync, readFileSync, readdirSync, statSync, mkdirSync, writeFileSync } from 'fs';
-import { join, relative, resolve, dirname, basename, extname } from 'path';
+import { existsSync, readFileSync, readdirSync, mkdirSync, writeFileSync } from 'fs';
+import { join, relative, dirname, basename } from 'path';
+import { CodeIndex } from '../lib/code-index.js';
 
 interface CoherenceIssue {
   category: 'import' | 'export' | 'type' | 'schema' | 'api' | 'env' | 'circular' | 'dead-code';
@@ -44,258 +45,89 @@ export async function coherence(options: CoherenceOptions = {}): Promise<void> {
     envVarsFound: 0,
   };
 
-  // Helper to extract imports from a file
-  const extractImports = (content: string): Array<{ path: string; names: string[]; line: number }> => {
-    const imports: Array<{ path: string; names: string[]; line: number }> = [];
-    const lines = content.split('\n');
-
-    lines.forEach((line, i) => {
-      // Match: import { X, Y } from 'path'
-      const namedMatch = line.match(/import\s+(type\s+)?{([^}]+)}\s+from\s+['"]([^'"]+)['"]/);
-      if (namedMatch) {
-        const names = namedMatch[2].split(',').map(n => n.trim().split(' as ')[0].trim()).filter(Boolean);
-        imports.push({ path: namedMatch[3], names, line: i + 1 });
-      }
-
-      // Match: import X from 'path'
-      const defaultMatch = line.match(/import\s+(type\s+)?(\w+)\s+from\s+['"]([^'"]+)['"]/);
-      if (defaultMatch && !namedMatch) {
-        imports.push({ path: defaultMatch[3], names: ['default'], line: i + 1 });
-      }
-    });
-
-    return imports;
-  };
+  spinner.text = 'Indexing imports and exports...';
+  const index = CodeIndex.load(cwd);
+  const files = index.listFiles();
+  stats.filesScanned = files.length;
 
-  // Helper to extract exports from a file
-  const extractExports = (content: string): string[] => {
-    const exports: string[] = [];
-
-    // Named exports: export { X, Y }
-    const namedExportMatches = content.matchAll(/export\s+{([^}]+)}/g);
-    for (const match of namedExportMatches) {
-      const names = match[1].split(',').map(n => n.trim().split(' as ').pop()?.trim() || '').filter(Boolean);
-      exports.push(...names);
-    }
-
-    // Direct exports: export const/function/class/type/interface X
-    const directExportMatches = content.matchAll(/export\s+(const|let|var|function|class|type|interface|enum)\s+(\w+)/g);
-    for (const match of directExportMatches) {
-      exports.push(match[2]);
-    }
-
-    // Default export
-    if (content.includes('export default')) {
-      exports.push('default');
-    }
-
-    return exports;
-  };
-
-  // Helper to resolve import path to file
-  const resolveImportPath = (importPath: string, fromFile: string): string | null => {
-    if (!importPath.startsWith('.') && !importPath.startsWith('@/') && !importPath.startsWith('~/')) {
-      return null;
-    }
-
-    let resolvedPath = importPath;
-    if (importPath.startsWith('@/')) {
-      resolvedPath = join(cwd, 'src', importPath.slice(2));
-    } else if (importPath.startsWith('~/')) {
-      resolvedPath = join(cwd, importPath.slice(2));
-    } else {
-      resolvedPath = resolve(dirname(fromFile), importPath);
-    }
-
-    const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
-    for (const ext of extensions) {
-      const fullPath = resolvedPath + ext;
-      if (existsSync(fullPath) && statSync(fullPath).isFile()) {
-        return fullPath;
-      }
-    }
-
-    return null;
-  };
-
-  const searchDirs = ['src', 'app', 'lib', 'components', 'services', 'types', 'utils', 'hooks', 'pages'];
-  const fileExtensions = ['.ts', '.tsx', '.js', '.jsx'];
-
-  // Build export map
-  const exportMap: Map<string, string[]> = new Map();
-  const importGraph: Map<string, string[]> = new Map();
-  const usedExports: Set<string> = new Set();
-
-  // First pass: collect all exports
-  const collectExports = (dir: string) => {
-    if (!existsSync(dir)) return;
-    const entries = readdirSync(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-
-      if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
-        collectExports(fullPath);
-      } else if (entry.isFile() && fileExtensions.some(ext => entry.name.endsWith(ext))) {
-        try {
-          const content = readFileSync(fullPath, 'utf-8');
-          const exports = extractExports(content);
-          exportMap.set(fullPath, exports);
-          stats.exportsFound += exports.length;
-          stats.filesScanned++;
-        } catch {
-          // Skip unreadable files
+  // Check imports
+  spinner.text = 'Checking imports...';
+  for (const file of files) {
+    stats.exportsFound += file.exports.length;
+
+    for (const imp of file.imports) {
+      stats.importsChecked++;
+      if (imp.external) continue;
+
+      if (!imp.resolvedPath) {
+        if (focus === 'all' || focus === 'imports') {
+          issues.push({
+            category: 'import',
+            severity: 'error',
+            file: file.relativePath,
+            line: imp.line,
+            message: `Import target not found: '${imp.specifier}'`,
+            fix: `Create the file or update the import path`,
+            autoFixable: false,
+          });
         }
+        continue;
       }
-    }
-  };
-
-  spinner.text = 'Collecting exports...';
-  for (const dir of searchDirs) {
-    collectExports(join(cwd, dir));
-  }
-
-  // Second pass: check imports
-  const checkImports = (dir: string) => {
-    if (!existsSync(dir)) return;
-    const entries = readdirSync(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
 
-      if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
-        checkImports(fullPath);
-      } else if (entry.isFile() && fileExtensions.some(ext => entry.name.endsWith(ext))) {
-        try {
-          const content = readFileSync(fullPath, 'utf-8');
-          const imports = extractImports(content);
-          const relativePath = relative(cwd, fullPath);
-          const importedFiles: string[] = [];
-
-          for (const imp of imports) {
-            stats.importsChecked++;
-            const resolvedPath = resolveImportPath(imp.path, fullPath);
-
-            if (resolvedPath === null) continue;
-
-            importedFiles.push(resolvedPath);
-
-            if (!existsSync(resolvedPath)) {
-              if (focus === 'all' || focus === 'imports') {
-                issues.push({
-                  category: 'import',
-                  severity: 'error',
-                  file: relativePath,
-                  line: imp.line,
-                  message: `Import target not found: '${imp.path}'`,
-                  fix: `Create the file or update the import path`,
-                  autoFixable: false,
-                });
-              }
-              continue;
-            }
-
-            const targetExports = exportMap.get(resolvedPath) || [];
-
-            for (const name of imp.names) {
-              if (name === '*' || name === 'default') {
-                if (name === 'default' && !targetExports.includes('default')) {
-                  if (focus === 'all' || focus === 'imports') {
-                    issues.push({
-                      category: 'import',
-                      severity: 'error',
-                      file: relativePath,
-                      line: imp.line,
-                      message: `No default export in '${imp.path}'`,
-                      fix: `Add 'export default' or change to named import`,
-                      autoFixable: false,
-                    });
-                  }
-                }
-                continue;
-              }
-
-              usedExports.add(`${resolvedPath}:${name}`);
-
-              if (!targetExports.includes(name)) {
-                if (focus === 'all' || focus === 'imports') {
-                  issues.push({
-                    category: 'export',
-                    severity: 'error',
-                    file: relativePath,
-                    line: imp.line,
-                    message: `'${name}' is not exported from '${imp.path}'`,
-                    fix: `Add 'export { ${name} }' to ${basename(resolvedPath)} or update import`,
-                    autoFixable: false,
-                  });
-                }
-              }
-            }
-          }
-
-          importGraph.set(fullPath, importedFiles);
-        } catch {
-          // Skip unreadable files
+      // Names can only be checked against modules whose exports are known
+      if (!index.getFile(imp.resolvedPath) || !index.hasKnownExports(imp.resolvedPath)) continue;
+      const targetExports = index.getExportNames(imp.resolvedPath);
+
+      for (const { name } of imp.names) {
+        if (name === '*' || targetExports.has(name)) continue;
+        if (focus !== 'all' && focus !== 'imports') continue;
+
+        if (name === 'default') {
+          issues.push({
+            category: 'import',
+            severity: 'error',
+            file: file.relativePath,
+            line: imp.line,
+            message: `No default export in '${imp.specifier}'`,
+            fix: `Add 'export default' or change to named import`,
+            autoFixable: false,
+          });
+        } else {
+          issues.push({
+            category: 'export',
+            severity: 'error',
+            file: file.relativePath,
+            line: imp.line,
+            message: `'${name}' is not exported from '${imp.specifier}'`,
+            fix: `Add 'export { ${name} }' to ${basename(imp.resolvedPath)} or update import`,
+            autoFixable: false,
+          });
         }
       }
     }
-  };
-
-  spinner.text = 'Checking imports...';
-  for (const dir of searchDirs) {
-    checkImports(join(cwd, dir));
   }
 
   // Check for circular dependencies
   if (focus === 'all' || focus === 'circular') {
     spinner.text = 'Detecting circular dependencies...';
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-    const circularPaths: string[][] = [];
-
-    const detectCircular = (file: string, pathStack: string[]) => {
-      if (recursionStack.has(file)) {
-        const cycleStart = pathStack.indexOf(file);
-        if (cycleStart !== -1) {
-          circularPaths.push(pathStack.slice(cycleStart).concat(file));
-        }
-        return;
-      }
 
-      if (visited.has(file)) return;
-
-      visited.add(file);
-      recursionStack.add(file);
-
-      const imports = importGraph.get(file) || [];
-      for (const imported of imports) {
-        detectCircular(imported, [...pathStack, file]);
-      }
-
-      recursionStack.delete(file);
-    };
-
-    for (const file of importGraph.keys()) {
-      detectCircular(file, []);
-    }
-
-    const seenCycles = new Set<string>();
-    for (const cycle of circularPaths) {
-      const cycleKey = cycle.map(f => relative(cwd, f)).sort().join(' -> ');
-      if (!seenCycles.has(cycleKey)) {
-        seenCycles.add(cycleKey);
-        issues.push({
-          category: 'circular',
-          severity: 'warning',
-          file: relative(cwd, cycle[0]),
-          message: `Circular dependency: ${cycle.map(f => basename(f)).join(' → ')}`,
-          fix: 'Break the cycle by extracting shared code to a separate module',
-          autoFixable: false,
-        });
-      }
+    for (const cycle of index.findCycles()) {
+      issues.push({
+        category: 'circular',
+        severity: 'warning',
+        file: relative(cwd, cycle[0]),
+        message: `Circular dependency: ${cycle.map(f => basename(f)).join(' → ')}`,
+        fix: 'Break the cycle by extracting shared code to a separate module',
+        autoFixable: false,
+      });
     }
   }
 
+  index.save();
+
+  const searchDirs = ['src', 'app', 'lib', 'components', 'services', 'types', 'utils', 'hooks', 'pages'];
+  const fileExtensions = ['.ts', '.tsx', '.js', '.jsx'];
+
   // Check environment variables
   if (focus === 'all' || focus === 'env') {
     spinner.text = 'Checking environment variables...';
@@ -1,9 +1,28 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import crypto from 'crypto';
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
 import { createInterface } from 'readline';
-import { getServiceKey, setServiceKey, SERVICE_KEY_LABELS, type ServiceName } from '../config.js';
+import { ENV_VAR_NAMES, getServiceKey, setServiceKey, SERVICE_KEY_LABELS, type ServiceName } from '../config.js';
+import {
+  PROVISION_MANIFEST_FILE,
+  PROVISION_STATE_FILE,
+  applyProvisionPlan,
+  formatProvisionPlan,
+  loadProvisionManifest,
+  loadProvisionState,
+  planDestroy,
+  planProvision,
+  refreshProvisionState,
+  saveProvisionState,
+  type ProvisionPlan,
+  type ProvisionProviders,
+  type ProvisionState,
+  type ResourceSpec,
+  type ResourceState,
+} from '../lib/provisioning.js';
 
 /**
  * Supabase regions - allow user to select closest region
@@ -600,3 +619,354 @@ export function getConfiguredServices(): { github: boolean; supabase: boolean; v
     vercel: !!getServiceKey('vercel'),
   };
 }
+
+// ============================================================
+// Declarative provisioning (codebakers provision plan|apply|destroy)
+// ============================================================
+
+export type ProvisionCommand = 'plan' | 'apply' | 'destroy';
+
+interface ProvisionCommandOptions {
+  manifest?: string;
+  state?: string;
+  yes?: boolean;
+}
+
+class HttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Tokens come from the environment first so CI never needs a prompt
+ */
+function requireToken(service: ServiceName): string {
+  const token = process.env[ENV_VAR_NAMES[service]] || getServiceKey(service);
+  if (!token) {
+    throw new Error(`No ${SERVICE_KEY_LABELS[service]} token. Set ${ENV_VAR_NAMES[service]} or add it with codebakers setup.`);
+  }
+  return token;
+}
+
+async function apiRequest<T>(
+  url: string,
+  token: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: init.method ?? 'GET',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    const message = error.message || error.error?.message || `${init.method ?? 'GET'} ${url} failed (${response.status})`;
+    throw new HttpError(message, response.status);
+  }
+  return response.status === 204 ? (undefined as T) : response.json().catch(() => undefined as T);
+}
+
+async function ignoreNotFound(request: Promise<unknown>): Promise<void> {
+  try {
+    await request;
+  } catch (error) {
+    if (!(error instanceof HttpError && error.status === 404)) throw error;
+  }
+}
+
+async function found(request: Promise<unknown>): Promise<boolean> {
+  try {
+    await request;
+    return true;
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 404) return false;
+    throw error;
+  }
+}
+
+function gh(args: string[]): string {
+  try {
+    return execFileSync('gh', args, { encoding: 'utf-8', stdio: 'pipe' }).trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+function vercelUrl(path: string, spec: { team?: unknown }): string {
+  const team = typeof spec.team === 'string' && spec.team ? `teamId=${encodeURIComponent(spec.team)}` : '';
+  return `https://api.vercel.com${path}${team ? (path.includes('?') ? '&' : '?') + team : ''}`;
+}
+
+/**
+ * Providers backed by the gh CLI and the Supabase and Vercel APIs
+ */
+export function createLiveProviders(): ProvisionProviders {
+  const supabaseApi = 'https://api.supabase.com/v1';
+
+  return {
+    github: {
+      async create(spec) {
+        const fullName = spec.owner ? `${spec.owner}/${spec.name}` : String(spec.name);
+        gh(['repo', 'create', fullName, spec.private ? '--private' : '--public', '--description', String(spec.description ?? '')]);
+        const repo = JSON.parse(gh(['repo', 'view', fullName, '--json', 'nameWithOwner,url']));
+        return { id: repo.nameWithOwner, outputs: { url: repo.url, cloneUrl: `${repo.url}.git` } };
+      },
+      async update(resource, spec) {
+        let id = resource.id;
+        if (spec.name !== resource.spec.name) {
+          // Renaming keeps the history; GitHub redirects the old URL
+          gh(['repo', 'rename', String(spec.name), '--repo', id, '--yes']);
+          id = `${id.split('/')[0]}/${spec.name}`;
+        }
+        gh([
+          'repo', 'edit', id,
+          '--description', String(spec.description ?? ''),
+          '--visibility', spec.private ? 'private' : 'public',
+          '--accept-visibility-change-consequences',
+        ]);
+        if (id !== resource.id) {
+          const repo = JSON.parse(gh(['repo', 'view', id, '--json', 'nameWithOwner,url']));
+          return { id: repo.nameWithOwner, url: repo.url, cloneUrl: `${repo.url}.git` };
+        }
+      },
+      async delete(resource) {
+        try {
+          gh(['repo', 'delete', resource.id, '--yes']);
+        } catch (error) {
+          if (!(error instanceof Error && /not found|could not resolve/i.test(error.message))) throw error;
+        }
+      },
+      async exists(resource) {
+        try {
+          gh(['repo', 'view', resource.id, '--json', 'name']);
+          return true;
+        } catch (error) {
+          if (error instanceof Error && /not found|could not resolve/i.test(error.message)) return false;
+          throw error;
+        }
+      },
+    },
+
+    supabase: {
+      async create(spec) {
+        const token = requireToken('supabase');
+        let organizationId = spec.organizationId as string | undefined;
+        if (!organizationId) {
+          const orgs = await withRetry(() => apiRequest<Array<{ id: string }>>(`${supabaseApi}/organizations`, token));
+          if (!orgs?.length) throw new Error('No organizations found. Create one at supabase.com/dashboard first.');
+          organizationId = orgs[0].id;
+        }
+
+        const dbPassword = generateSecurePassword();
+        const project = await apiRequest<{ id: string }>(`${supabaseApi}/projects`, token, {
+          method: 'POST',
+          body: { name: spec.name, organization_id: organizationId, region: spec.region, plan: 'free', db_pass: dbPassword },
+        });
+
+        // New projects take a minute or two before their API is up
+        let apiUrl = '';
+        for (let attempt = 0; attempt < 60 && !apiUrl; attempt++) {
+          await new Promise(resolve => setTimeout(resolve, 2000));
+          const details = await apiRequest<{ api_url?: string }>(`${supabaseApi}/projects/${project.id}`, token).catch(() => ({ api_url: undefined }));
+          apiUrl = details.api_url ?? '';
+        }
+
+        // The project exists from here on, so a missing key must not lose it from the state
+        const keys = await withRetry(() => apiRequest<Array<{ name: string; api_key: string }>>(`${supabaseApi}/projects/${project.id}/api-keys`, token))
+          .catch(() => []);
+        return {
+          id: project.id,
+          outputs: {
+            projectUrl: `https://supabase.com/dashboard/project/${project.id}`,
+            apiUrl: apiUrl || `https://${project.id}.supabase.co`,
+            anonKey: keys.find((k) => k.name === 'anon')?.api_key ?? '',
+          },
+          secrets: { SUPABASE_DB_PASSWORD: dbPassword },
+        };
+      },
+      async update() {
+        throw new Error('Supabase projects cannot be changed in place');
+      },
+      async delete(resource) {
+        await ignoreNotFound(apiRequest(`${supabaseApi}/projects/${resource.id}`, requireToken('supabase'), { method: 'DELETE' }));
+      },
+      async exists(resource) {
+        return found(apiRequest(`${supabaseApi}/projects/${resource.id}`, requireToken('supabase')));
+      },
+    },
+
+    vercel: {
+      async create(spec) {
+        const body: Record<string, unknown> = { name: spec.name, framework: spec.framework };
+        if (spec.gitRepository) {
+          body.gitRepository = { type: 'github', repo: spec.gitRepository };
+        }
+        const project = await apiRequest<{ id: string; name: string; accountId: string }>(
+          vercelUrl('/v10/projects', spec), requireToken('vercel'), { method: 'POST', body }
+        );
+        return { id: project.id, outputs: { url: `https://vercel.com/${project.accountId}/${project.name}` } };
+      },
+      async update(resource, spec) {
+        const token = requireToken('vercel');
+        await apiRequest(vercelUrl(`/v9/projects/${resource.id}`, spec), token, {
+          method: 'PATCH',
+          body: { framework: spec.framework },
+        });
+        if (spec.gitRepository !== resource.spec.gitRepository) {
+          const link = vercelUrl(`/v9/projects/${resource.id}/link`, spec);
+          await (spec.gitRepository
+            ? apiRequest(link, token, { method: 'POST', body: { type: 'github', repo: spec.gitRepository } })
+            : ignoreNotFound(apiRequest(link, token, { method: 'DELETE' })));
+        }
+      },
+      async delete(resource) {
+        await ignoreNotFound(apiRequest(vercelUrl(`/v9/projects/${resource.id}`, resource.spec), requireToken('vercel'), { method: 'DELETE' }));
+      },
+      async exists(resource) {
+        return found(apiRequest(vercelUrl(`/v9/projects/${resource.id}`, resource.spec), requireToken('vercel')));
+      },
+    },
+
+    'vercel.env': {
+      async create(spec) {
+        const key = String(spec.key);
+        const response = await apiRequest<{ created: { id: string } | Array<{ id: string }> }>(
+          vercelUrl(`/v10/projects/${spec.projectId}/env`, spec), requireToken('vercel'), {
+            method: 'POST',
+            body: { key, value: spec.value, type: key.startsWith('NEXT_PUBLIC_') ? 'plain' : 'encrypted', target: spec.target },
+          }
+        );
+        const created = Array.isArray(response.created) ? response.created[0] : response.created;
+        return { id: created.id };
+      },
+      async update(resource, spec) {
+        await apiRequest(envUrl(resource, spec), requireToken('vercel'), {
+          method: 'PATCH',
+          body: { value: spec.value, target: spec.target },
+        });
+      },
+      async delete(resource) {
+        await ignoreNotFound(apiRequest(envUrl(resource, resource.spec), requireToken('vercel'), { method: 'DELETE' }));
+      },
+      async exists(resource) {
+        return found(apiRequest(vercelUrl(`/v1/projects/${resource.spec.projectId}/env/${resource.id}`, resource.spec), requireToken('vercel')));
+      },
+    },
+  };
+}
+
+function envUrl(resource: ResourceState, spec: ResourceSpec): string {
+  return vercelUrl(`/v9/projects/${resource.spec.projectId}/env/${resource.id}`, spec);
+}
+
+/**
+ * Set variables in .env.local, replacing earlier values for the same names
+ */
+function writeLocalEnv(path: string, vars: Record<string, string>): void {
+  const lines = existsSync(path) ? readFileSync(path, 'utf-8').split('\n') : [];
+  const kept = lines.filter((line) => !Object.keys(vars).some((key) => line.startsWith(`${key}=`)));
+  while (kept.length > 0 && kept[kept.length - 1] === '') kept.pop();
+  const added = Object.entries(vars).map(([key, value]) => `${key}=${value}`);
+  writeFileSync(path, [...kept, ...added].join('\n') + '\n', { mode: 0o600 });
+}
+
+/**
+ * Plan, apply or destroy the resources in codebakers.provision.json.
+ * Never prompts without a TTY: CI runs pass --yes to apply.
+ */
+export async function provision(
+  command: ProvisionCommand,
+  options: ProvisionCommandOptions = {},
+  providers: ProvisionProviders = createLiveProviders()
+): Promise<boolean> {
+  const cwd = process.cwd();
+  const manifestPath = join(cwd, options.manifest ?? PROVISION_MANIFEST_FILE);
+  const statePath = join(cwd, options.state ?? PROVISION_STATE_FILE);
+  const envPath = join(cwd, '.env.local');
+
+  if (!['plan', 'apply', 'destroy'].includes(command)) {
+    console.log(chalk.red(`\n  Unknown provision command "${command}". Use plan, apply or destroy.\n`));
+    return false;
+  }
+
+  const spinner = ora('Checking provisioned resources...').start();
+  let plan: ProvisionPlan;
+  let state: ProvisionState;
+
+  try {
+    state = loadProvisionState(statePath);
+    const gone = await refreshProvisionState(state, providers);
+    if (gone.length > 0 && command !== 'plan') {
+      saveProvisionState(statePath, state);
+    }
+    spinner.stop();
+
+    plan = command === 'destroy' ? planDestroy(state) : planProvision(loadProvisionManifest(manifestPath), state, gone);
+    if (gone.length > 0) {
+      console.log(chalk.yellow(`\n  Deleted outside codebakers: ${gone.join(', ')}.`));
+      console.log(chalk.yellow(command === 'destroy' ? '  They were removed from the state.' : '  Applying recreates them, with new IDs and empty data.'));
+    }
+  } catch (error) {
+    spinner.fail(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+
+  const pending = plan.actions.filter((a) => a.action !== 'none');
+  console.log(chalk.blue(`\n  ${command === 'destroy' ? 'Destroy' : 'Provisioning'} plan\n`));
+  console.log(plan.actions.length > 0 ? formatProvisionPlan(plan).join('\n') : chalk.gray('    Nothing recorded in the state'));
+  console.log('');
+
+  if (pending.length === 0) {
+    console.log(chalk.green('  ✓ Everything is up to date\n'));
+    return true;
+  }
+  if (command === 'plan') {
+    console.log(chalk.gray(`  ${pending.length} change${pending.length === 1 ? '' : 's'}. Run codebakers provision apply to make them.\n`));
+    return true;
+  }
+
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      console.log(chalk.yellow('  Not applied. Run again with --yes to apply without a prompt.\n'));
+      return false;
+    }
+    const warning = plan.destructive ? ' This deletes resources and their data.' : '';
+    const answer = await prompt(`  Apply ${pending.length} change${pending.length === 1 ? '' : 's'}?${warning} (y/N): `);
+    if (answer.toLowerCase() !== 'y') {
+      console.log(chalk.gray('\n  Cancelled - nothing was changed.\n'));
+      return false;
+    }
+  }
+
+  const verbs = { create: 'Creating', update: 'Updating', replace: 'Replacing', delete: 'Deleting', none: '' };
+  const stepSpinner = ora();
+  try {
+    await applyProvisionPlan(plan, state, providers, {
+      save: (next) => saveProvisionState(statePath, next),
+      onSecrets: (address, secrets) => {
+        writeLocalEnv(envPath, secrets);
+        stepSpinner.info(`${address}: saved ${Object.keys(secrets).join(', ')} to ${envPath} (not in the state file)`);
+      },
+      onAction: (action, phase) => {
+        if (phase === 'start') {
+          stepSpinner.start(`${verbs[action.action]} ${action.address}...`);
+        } else {
+          stepSpinner.succeed(`${action.address} ${action.action}d`);
+        }
+      },
+    });
+  } catch (error) {
+    stepSpinner.fail(error instanceof Error ? error.message : String(error));
+    console.log(chalk.gray(`  Finished steps are recorded in ${statePath}. Fix the problem and run apply again.\n`));
+    return false;
+  }
+
+  console.log(chalk.green(`\n  ✓ ${command === 'destroy' ? 'Destroyed' : 'Applied'} ${pending.length} change${pending.length === 1 ? '' : 's'}\n`));
+  return true;
+}
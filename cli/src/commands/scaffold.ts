@@ -4,7 +4,6 @@ import { createInterface } from 'readline';
 import { writeFileSync, mkdirSync, existsSync, readdirSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { execSync } from 'child_process';
-import * as templates from '../templates/nextjs-supabase.js';
 import {
   getApiKey,
   getApiUrl,
@@ -19,6 +18,21 @@ import {
   type SyncResult,
 } from '../config.js';
 import { provisionAll, type ProvisionResult } from './provision.js';
+import { formatApiError, type ApiError } from '../lib/api.js';
+import {
+  DEFAULT_TEMPLATE,
+  parseTemplateVars,
+  renderTemplate,
+  resolveTemplate,
+  resolveTemplateValues,
+  writeTemplate,
+  type ResolvedTemplate,
+} from '../lib/templates.js';
+
+interface ScaffoldOptions {
+  template?: string; // Template name (name@version), or a local template directory
+  var?: string[]; // name=value pairs for template variables
+}
 
 /**
  * Fetch ALL service keys from CodeBakers server
@@ -355,7 +369,7 @@ function displaySyncResults(result: SyncResult): void {
 /**
  * Scaffold a new project with full structure
  */
-export async function scaffold(): Promise<void> {
+export async function scaffold(options: ScaffoldOptions = {}): Promise<void> {
   console.log(chalk.blue(`
   ╔═══════════════════════════════════════════════════════════╗
   ║                                                           ║
@@ -367,6 +381,27 @@ export async function scaffold(): Promise<void> {
   `));
 
   const cwd = process.cwd();
+
+  // Resolve a requested template before asking anything else
+  let template: ResolvedTemplate | null = null;
+  let templateVars: Record<string, string> = {};
+  try {
+    templateVars = parseTemplateVars(options.var);
+    if (options.template) {
+      const templateSpinner = ora(`  Loading template ${options.template}...`).start();
+      try {
+        template = await resolveTemplate(options.template, cwd);
+        templateSpinner.succeed(`Using template ${template.manifest.name}@${template.manifest.version} (${template.source})`);
+      } catch (error) {
+        templateSpinner.fail(`Could not load template ${options.template}`);
+        throw error;
+      }
+    }
+  } catch (error) {
+    console.log(chalk.red(`\n  ${formatApiError(error as ApiError)}\n`));
+    process.exit(1);
+  }
+
   const files = readdirSync(cwd);
   const hasFiles = files.filter(f => !f.startsWith('.')).length > 0;
 
@@ -392,46 +427,52 @@ export async function scaffold(): Promise<void> {
 
   const isBeginnerMode = experienceLevel === '1';
 
-  // Select stack with explanations for beginners
-  console.log(chalk.white('\n  Select your stack:\n'));
+  if (!template) {
+    // Select stack with explanations for beginners
+    console.log(chalk.white('\n  Select your stack:\n'));
 
-  console.log(chalk.gray('    0. ') + chalk.magenta('You Decide') + chalk.gray(' - Let AI pick the best option'));
-  if (isBeginnerMode) {
-    console.log(chalk.gray('    1. ') + chalk.cyan('Next.js + Supabase + Drizzle') + chalk.green(' (Recommended)'));
-    console.log(chalk.gray('       ') + chalk.dim('Next.js = Framework for building websites with React'));
-    console.log(chalk.gray('       ') + chalk.dim('Supabase = Database + user login (like Firebase, but open source)'));
-    console.log(chalk.gray('       ') + chalk.dim('Drizzle = Tool to talk to your database safely'));
-    console.log('');
-    console.log(chalk.gray('    2. ') + chalk.cyan('Next.js + Prisma') + chalk.gray(' (Coming soon)'));
-    console.log(chalk.gray('       ') + chalk.dim('Prisma = Another database tool, more popular but heavier'));
-    console.log('');
-    console.log(chalk.gray('    3. ') + chalk.cyan('Express API') + chalk.gray(' (Coming soon)'));
-    console.log(chalk.gray('       ') + chalk.dim('Express = Lightweight server, good for APIs without a frontend'));
-    console.log('');
-  } else {
-    console.log(chalk.gray('    1. ') + chalk.cyan('Next.js + Supabase + Drizzle') + chalk.green(' (Recommended)'));
-    console.log(chalk.gray('    2. ') + chalk.cyan('Next.js + Prisma') + chalk.gray(' (Coming soon)'));
-    console.log(chalk.gray('    3. ') + chalk.cyan('Express API') + chalk.gray(' (Coming soon)\n'));
-  }
+    console.log(chalk.gray('    0. ') + chalk.magenta('You Decide') + chalk.gray(' - Let AI pick the best option'));
+    if (isBeginnerMode) {
+      console.log(chalk.gray('    1. ') + chalk.cyan('Next.js + Supabase + Drizzle') + chalk.green(' (Recommended)'));
+      console.log(chalk.gray('       ') + chalk.dim('Next.js = Framework for building websites with React'));
+      console.log(chalk.gray('       ') + chalk.dim('Supabase = Database + user login (like Firebase, but open source)'));
+      console.log(chalk.gray('       ') + chalk.dim('Drizzle = Tool to talk to your database safely'));
+      console.log('');
+      console.log(chalk.gray('    2. ') + chalk.cyan('Next.js + Prisma') + chalk.gray(' (Coming soon)'));
+      console.log(chalk.gray('       ') + chalk.dim('Prisma = Another database tool, more popular but heavier'));
+      console.log('');
+      console.log(chalk.gray('    3. ') + chalk.cyan('Express API') + chalk.gray(' (Coming soon)'));
+      console.log(chalk.gray('       ') + chalk.dim('Express = Lightweight server, good for APIs without a frontend'));
+      console.log('');
+    } else {
+      console.log(chalk.gray('    1. ') + chalk.cyan('Next.js + Supabase + Drizzle') + chalk.green(' (Recommended)'));
+      console.log(chalk.gray('    2. ') + chalk.cyan('Next.js + Prisma') + chalk.gray(' (Coming soon)'));
+      console.log(chalk.gray('    3. ') + chalk.cyan('Express API') + chalk.gray(' (Coming soon)\n'));
+    }
 
-  let stackChoice = '';
-  while (!['0', '1', '2', '3'].includes(stackChoice)) {
-    stackChoice = await prompt('  Enter 0, 1, 2, or 3: ');
-  }
+    let stackChoice = '';
+    while (!['0', '1', '2', '3'].includes(stackChoice)) {
+      stackChoice = await prompt('  Enter 0, 1, 2, or 3: ');
+    }
 
-  // "You Decide" defaults to recommended stack
-  if (stackChoice === '0') {
-    console.log(chalk.magenta('  → AI chose: Next.js + Supabase + Drizzle (recommended)\n'));
-    stackChoice = '1';
-  }
+    // "You Decide" defaults to recommended stack
+    if (stackChoice === '0') {
+      console.log(chalk.magenta('  → AI chose: Next.js + Supabase + Drizzle (recommended)\n'));
+      stackChoice = '1';
+    }
 
-  if (stackChoice !== '1') {
-    console.log(chalk.yellow('\n  That stack is coming soon! Using Next.js + Supabase + Drizzle.\n'));
-    stackChoice = '1';
+    if (stackChoice !== '1') {
+      console.log(chalk.yellow('\n  That stack is coming soon! Using Next.js + Supabase + Drizzle.\n'));
+      stackChoice = '1';
+    }
+
+    template = await resolveTemplate(DEFAULT_TEMPLATE, cwd);
   }
 
+  const isDefaultTemplate = template.source === 'builtin' && template.manifest.name === DEFAULT_TEMPLATE;
+
   // Explain what we're about to create for beginners
-  if (isBeginnerMode) {
+  if (isBeginnerMode && isDefaultTemplate) {
     console.log(chalk.blue('\n  ═══════════════════════════════════════════════════════════'));
     console.log(chalk.white.bold('  📚 What we\'re creating:'));
     console.log(chalk.blue('  ═══════════════════════════════════════════════════════════\n'));
@@ -451,85 +492,53 @@ export async function scaffold(): Promise<void> {
   const defaultName = cwd.split(/[\\/]/).pop() || 'my-project';
   const projectName = await prompt(`  Project name (${defaultName}): `) || defaultName;
 
-  console.log(chalk.green(`\n  Creating ${projectName} with Next.js + Supabase + Drizzle...\n`));
+  // Ask for required template variables that --var did not give
+  const resolved = resolveTemplateValues(template.manifest, { ...templateVars, projectName: templateVars.projectName ?? projectName });
+  for (const variable of resolved.missing) {
+    if (!process.stdin.isTTY) {
+      console.log(chalk.red(`\n  Template variable "${variable.name}" is required. Pass --var ${variable.name}=<value>.\n`));
+      process.exit(1);
+    }
+    let answer = '';
+    while (!answer) {
+      answer = await prompt(`  ${variable.description || variable.name}: `);
+    }
+    resolved.values[variable.name] = variable.type === 'boolean' ? ['true', 'yes', 'y', '1'].includes(answer.toLowerCase()) : answer;
+  }
+  const rendered = renderTemplate(template, resolved.values);
+
+  const templateLabel = template.manifest.description || `${template.manifest.name}@${template.manifest.version}`;
+  console.log(chalk.green(`\n  Creating ${projectName} with ${templateLabel}...\n`));
 
   // Create project structure
   const spinner = ora('  Creating project structure...').start();
 
   try {
-    // Create directories
-    const dirs = [
-      'src/app',
-      'src/components',
-      'src/lib/supabase',
-      'src/db',
-      'src/db/migrations',
-      'src/services',
-      'src/types',
-      'public',
-    ];
-
-    for (const dir of dirs) {
-      const dirPath = join(cwd, dir);
-      if (!existsSync(dirPath)) {
-        mkdirSync(dirPath, { recursive: true });
-      }
-    }
-
-    spinner.text = '  Writing configuration files...';
-
-    // Write package.json
-    const packageJson = { ...templates.PACKAGE_JSON, name: projectName };
-    writeFileSync(join(cwd, 'package.json'), JSON.stringify(packageJson, null, 2));
-
-    // Write .env.example
-    writeFileSync(join(cwd, '.env.example'), templates.ENV_EXAMPLE);
-    writeFileSync(join(cwd, '.env.local'), templates.ENV_EXAMPLE);
-
-    // Write config files
-    writeFileSync(join(cwd, 'drizzle.config.ts'), templates.DRIZZLE_CONFIG);
-    writeFileSync(join(cwd, 'tailwind.config.ts'), templates.TAILWIND_CONFIG);
-    writeFileSync(join(cwd, 'postcss.config.mjs'), templates.POSTCSS_CONFIG);
-    writeFileSync(join(cwd, 'tsconfig.json'), JSON.stringify(templates.TSCONFIG, null, 2));
-    writeFileSync(join(cwd, 'next.config.ts'), templates.NEXT_CONFIG);
-    writeFileSync(join(cwd, '.gitignore'), templates.GITIGNORE);
-
-    spinner.text = '  Writing source files...';
-
-    // Write Supabase files
-    writeFileSync(join(cwd, 'src/lib/supabase/server.ts'), templates.SUPABASE_SERVER);
-    writeFileSync(join(cwd, 'src/lib/supabase/client.ts'), templates.SUPABASE_CLIENT);
-    writeFileSync(join(cwd, 'src/lib/supabase/middleware.ts'), templates.SUPABASE_MIDDLEWARE);
-
-    // Write middleware
-    writeFileSync(join(cwd, 'middleware.ts'), templates.MIDDLEWARE);
-
-    // Write database files
-    writeFileSync(join(cwd, 'src/db/schema.ts'), templates.DB_SCHEMA);
-    writeFileSync(join(cwd, 'src/db/index.ts'), templates.DB_INDEX);
-
-    // Write app files
-    writeFileSync(join(cwd, 'src/app/globals.css'), templates.GLOBALS_CSS);
-    writeFileSync(join(cwd, 'src/app/layout.tsx'), templates.LAYOUT_TSX);
-    writeFileSync(join(cwd, 'src/app/page.tsx'), templates.PAGE_TSX);
-
-    // Write utils
-    writeFileSync(join(cwd, 'src/lib/utils.ts'), templates.UTILS_CN);
+    spinner.text = '  Writing project files...';
+    const written = writeTemplate(cwd, rendered);
 
-    spinner.succeed('Project structure created!');
+    spinner.succeed(`Project structure created! (${written.length} files)`);
 
-    // Ask about installing dependencies
-    console.log('');
-    const installDeps = await confirm('  Install dependencies with npm?');
+    // Template post-install steps run only after the user has seen them
+    if (rendered.postInstall.length > 0) {
+      console.log(chalk.white('\n  Setup steps:\n'));
+      for (const step of rendered.postInstall) {
+        console.log(chalk.gray(`    $ ${step.run}`) + (step.description ? chalk.dim(`  (${step.description})`) : ''));
+      }
+      console.log('');
 
-    if (installDeps) {
-      const installSpinner = ora('  Installing dependencies (this may take a minute)...').start();
-      try {
-        execSync('npm install', { cwd, stdio: 'pipe' });
-        installSpinner.succeed('Dependencies installed!');
-      } catch (error) {
-        installSpinner.warn('Could not install dependencies automatically');
-        console.log(chalk.gray('  Run `npm install` manually.\n'));
+      if (await confirm('  Run these setup steps?')) {
+        for (const step of rendered.postInstall) {
+          const stepSpinner = ora(`  ${step.description || step.run} (this may take a minute)...`).start();
+          try {
+            execSync(step.run, { cwd, stdio: 'pipe' });
+            stepSpinner.succeed(step.description || step.run);
+          } catch {
+            stepSpinner.warn(`Could not run \`${step.run}\``);
+            console.log(chalk.gray('  Run it manually, then continue with the remaining steps.\n'));
+            break;
+          }
+        }
       }
     }
 
@@ -768,7 +777,9 @@ You cannot write code without calling this tool first.
     `));
 
     console.log(chalk.white('  What was created:\n'));
-    if (isBeginnerMode) {
+    if (!isDefaultTemplate) {
+      console.log(chalk.gray(`    ${written.length} files from ${template.manifest.name}@${template.manifest.version}`));
+    } else if (isBeginnerMode) {
       console.log(chalk.gray('    src/'));
       console.log(chalk.gray('    ├── app/           ') + chalk.cyan('← Your pages (what users see)'));
       console.log(chalk.gray('    ├── components/    ') + chalk.cyan('← Reusable UI pieces (buttons, forms)'));
@@ -801,7 +812,7 @@ You cannot write code without calling this tool first.
     // Show appropriate next steps based on what was provisioned
     let stepNum = 1;
 
-    if (!provisionResult.supabase) {
+    if (isDefaultTemplate && !provisionResult.supabase) {
       if (isBeginnerMode) {
         console.log(chalk.cyan(`    ${stepNum}. `) + chalk.white('Set up Supabase (free database + login):'));
         console.log(chalk.gray('       Go to https://supabase.com → Create free account → New Project'));
@@ -821,10 +832,12 @@ You cannot write code without calling this tool first.
     }
 
     // CRITICAL: Add db:push step
-    console.log(chalk.cyan(`    ${stepNum}. `) + chalk.white('Push database schema:'));
-    console.log(chalk.gray('       npx drizzle-kit db:push'));
-    console.log('');
-    stepNum++;
+    if (isDefaultTemplate) {
+      console.log(chalk.cyan(`    ${stepNum}. `) + chalk.white('Push database schema:'));
+      console.log(chalk.gray('       npx drizzle-kit db:push'));
+      console.log('');
+      stepNum++;
+    }
 
     console.log(chalk.cyan(`    ${stepNum}. `) + chalk.white('Start your app:'));
     console.log(chalk.gray('       npm run dev'));
@@ -0,0 +1,194 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { execSync } from 'child_process';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { formatApiError, syncProjectData, type ApiError } from '../lib/api.js';
+import {
+  SnapshotEntry,
+  applyRestore,
+  collectSnapshotFiles,
+  formatRestorePlan,
+  getProjectId,
+  getSnapshotAuthHeaders,
+  getSnapshotContents,
+  getSnapshotManifest,
+  hashContent,
+  listSnapshots,
+  normalizeSnapshotPath,
+  planRestore,
+  reportRestoreApplied,
+  uploadSnapshotFiles,
+} from '../lib/snapshots.js';
+
+interface SnapshotOptions {
+  description?: string;
+}
+
+interface RestoreOptions {
+  file?: string[];
+  yes?: boolean;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${question} (y/N): `, (answer) => {
+      rl.close();
+      resolve(answer.trim().toLowerCase() === 'y');
+    });
+  });
+}
+
+function getGitInfo(cwd: string): { gitCommitHash?: string; gitBranch?: string } {
+  try {
+    return {
+      gitCommitHash: execSync('git rev-parse HEAD', { cwd, encoding: 'utf-8', stdio: 'pipe' }).trim(),
+      gitBranch: execSync('git rev-parse --abbrev-ref HEAD', { cwd, encoding: 'utf-8', stdio: 'pipe' }).trim(),
+    };
+  } catch {
+    // Git not available or not a repo
+    return {};
+  }
+}
+
+/**
+ * Local state of specific files, hashed directly so files a whole-tree
+ * snapshot leaves out still compare correctly
+ */
+function hashLocalFiles(cwd: string, paths: string[]): SnapshotEntry[] {
+  return paths
+    .filter((path) => existsSync(join(cwd, path)) && statSync(join(cwd, path)).isFile())
+    .map((path) => {
+      const bytes = readFileSync(join(cwd, path));
+      return { path, hash: hashContent(bytes), size: bytes.length };
+    });
+}
+
+/**
+ * Snapshot the project's files to the server
+ */
+export async function snapshot(name?: string, options: SnapshotOptions = {}): Promise<void> {
+  const cwd = process.cwd();
+  const snapshotName = name || `Snapshot ${new Date().toLocaleString()}`;
+  const spinner = ora('Collecting project files...').start();
+
+  try {
+    const authHeaders = getSnapshotAuthHeaders();
+    const projectId = await getProjectId(cwd, authHeaders);
+
+    spinner.text = 'Uploading changed files...';
+    const files = await uploadSnapshotFiles(cwd, projectId, authHeaders);
+
+    spinner.text = 'Creating snapshot...';
+    const result = await syncProjectData(projectId, {
+      createSnapshot: {
+        snapshotName,
+        snapshotDescription: options.description,
+        ...getGitInfo(cwd),
+        files,
+      },
+    }, authHeaders);
+
+    spinner.succeed(`Snapshot "${snapshotName}" created (${files.length} files)`);
+    console.log(chalk.gray(`\n  ID: ${result.snapshotId}`));
+    console.log(chalk.gray(`  Restore it with: codebakers restore ${result.snapshotId}\n`));
+  } catch (error) {
+    spinner.fail('Snapshot failed');
+    console.log(chalk.red(`\n  ${formatApiError(error as ApiError)}\n`));
+  }
+}
+
+/**
+ * Restore a snapshot to the working tree after showing what would change.
+ * Without a snapshot ID, applies the restore requested from the dashboard.
+ */
+export async function restore(snapshotId?: string, options: RestoreOptions = {}): Promise<void> {
+  const cwd = process.cwd();
+  const spinner = ora('Loading snapshot...').start();
+
+  try {
+    const authHeaders = getSnapshotAuthHeaders();
+    const projectId = await getProjectId(cwd, authHeaders);
+
+    let paths: string[] | null = options.file?.length ? options.file : null;
+    if (!snapshotId) {
+      const { snapshots, pendingRestore } = await listSnapshots(projectId, authHeaders);
+
+      if (!pendingRestore) {
+        spinner.info('No restore requested from the dashboard.');
+        if (snapshots.length > 0) {
+          console.log(chalk.gray('\n  Recent snapshots:'));
+          for (const s of snapshots.slice(0, 10)) {
+            console.log(chalk.gray(`    ${s.id}  ${s.snapshotName} (${s.fileCount ?? 0} files, ${new Date(s.createdAt).toLocaleString()})`));
+          }
+          console.log(chalk.gray('\n  Restore one with: codebakers restore <id>\n'));
+        }
+        return;
+      }
+
+      snapshotId = pendingRestore.snapshotId;
+      paths = pendingRestore.paths;
+    }
+
+    if (paths) {
+      const invalid = paths.filter((p) => !normalizeSnapshotPath(p));
+      if (invalid.length > 0) {
+        spinner.fail(`Invalid file path: ${invalid[0]}`);
+        return;
+      }
+      paths = paths.map((p) => normalizeSnapshotPath(p)!);
+    }
+
+    const { snapshot: target, files } = await getSnapshotManifest(projectId, snapshotId, authHeaders);
+    if (paths) {
+      const inSnapshot = new Set(files.map((f) => f.path));
+      const missing = paths.find((p) => !inSnapshot.has(p));
+      if (missing) {
+        spinner.fail(`${missing} is not in snapshot "${target.snapshotName}"`);
+        return;
+      }
+    }
+
+    const local = paths ? hashLocalFiles(cwd, paths) : collectSnapshotFiles(cwd);
+    const plan = planRestore(files, local, paths);
+
+    if (plan.write.length === 0 && plan.remove.length === 0) {
+      spinner.succeed(`Already matches "${target.snapshotName}" - nothing to restore`);
+      await reportRestoreApplied(projectId, snapshotId, paths, authHeaders);
+      return;
+    }
+
+    const contents = await getSnapshotContents(projectId, snapshotId, plan.write.map((f) => f.path), authHeaders);
+    spinner.stop();
+
+    console.log(chalk.blue(`\n  Restoring "${target.snapshotName}"${paths ? '' : ' (whole project)'}\n`));
+    console.log(formatRestorePlan(cwd, plan, contents).join('\n'));
+    console.log(chalk.gray(`\n  ${plan.write.length} to write, ${plan.remove.length} to delete, ${plan.unchanged} unchanged\n`));
+
+    // Restores overwrite files - never apply one without an explicit yes
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        console.log(chalk.yellow('  Not applied. Run again with --yes to restore without a prompt.\n'));
+        return;
+      }
+      if (!(await confirm('  Apply these changes?'))) {
+        console.log(chalk.gray('\n  Restore cancelled - no files were changed.\n'));
+        return;
+      }
+    }
+
+    applyRestore(cwd, plan, contents);
+    await reportRestoreApplied(projectId, snapshotId, paths, authHeaders);
+
+    console.log(chalk.green(`\n  ✓ Restored "${target.snapshotName}"\n`));
+  } catch (error) {
+    spinner.fail('Restore failed');
+    console.log(chalk.red(`\n  ${formatApiError(error as ApiError)}\n`));
+  }
+}
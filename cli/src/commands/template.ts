@@ -0,0 +1,53 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { resolve } from 'path';
+import { formatApiError, type ApiError } from '../lib/api.js';
+import { listServerTemplates, loadTemplateDir, publishTemplate } from '../lib/templates.js';
+
+export type TemplateCommand = 'list' | 'publish';
+
+/**
+ * List the team's templates, or publish a template directory to the team's
+ * registry so `codebakers scaffold --template <name>` can use it.
+ */
+export async function template(command: TemplateCommand, dir?: string): Promise<boolean> {
+  if (command === 'list') {
+    const spinner = ora('Loading templates...').start();
+    try {
+      const templates = await listServerTemplates();
+      spinner.stop();
+
+      console.log(chalk.blue('\n  Templates\n'));
+      console.log(chalk.cyan('    nextjs-supabase') + chalk.gray(' 1.0.0  Next.js + Supabase + Drizzle (built in)'));
+      for (const t of templates) {
+        const older = t.versions.length > 1 ? chalk.dim(` (also ${t.versions.slice(1, 4).join(', ')})`) : '';
+        console.log(chalk.cyan(`    ${t.name}`) + chalk.gray(` ${t.latestVersion}  ${t.description ?? ''}`) + older);
+      }
+      console.log(chalk.gray('\n  Use one with: codebakers scaffold --template <name>[@version]\n'));
+      return true;
+    } catch (error) {
+      spinner.fail('Could not load templates');
+      console.log(chalk.red(`\n  ${formatApiError(error as ApiError)}\n`));
+      return false;
+    }
+  }
+
+  if (command === 'publish') {
+    const spinner = ora('Reading template...').start();
+    try {
+      const pkg = loadTemplateDir(resolve(dir ?? '.'));
+      spinner.text = `Publishing ${pkg.manifest.name}@${pkg.manifest.version} (${pkg.files.length} files)...`;
+      const published = await publishTemplate(pkg);
+      spinner.succeed(`Published ${published.name}@${published.latestVersion}`);
+      console.log(chalk.gray(`\n  Use it with: codebakers scaffold --template ${published.name}\n`));
+      return true;
+    } catch (error) {
+      spinner.fail('Publish failed');
+      console.log(chalk.red(`\n  ${formatApiError(error as ApiError)}\n`));
+      return false;
+    }
+  }
+
+  console.log(chalk.red(`\n  Unknown template command "${command}". Use list or publish.\n`));
+  return false;
+}
@@ -2,8 +2,15 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { existsSync, writeFileSync, readFileSync, rmSync } from 'fs';
 import { join } from 'path';
+import { createInterface } from 'readline';
 import { getApiKey } from '../config.js';
 import { checkForUpdates, getCliVersion } from '../lib/api.js';
+import {
+  fetchPatternChanges,
+  formatPatternChanges,
+  getInstalledPatternsVersion,
+  setInstalledPatternsVersion,
+} from '../lib/pattern-changes.js';
 
 // Bootstrap files - patterns come from server via MCP
 const CLAUDE_MD_BOOTSTRAP = `# CodeBakers
@@ -34,6 +41,23 @@ The server returns all patterns, rules, and test requirements.
 You cannot write code without calling this tool first.
 `;
 
+async function confirm(question: string): Promise<boolean> {
+  // Nothing to ask in scripts and CI - go ahead
+  if (!process.stdin.isTTY) return true;
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${question} (Y/n): `, (answer) => {
+      rl.close();
+      resolve(answer.trim().toLowerCase() !== 'n');
+    });
+  });
+}
+
 /**
  * Check if project is using server-enforced mode
  */
@@ -141,14 +165,33 @@ export async function upgrade(): Promise<void> {
     console.log(chalk.green('  ✓ Logged in\n'));
   }
 
+  // Show what actually changed in the patterns before applying anything
+  const installedVersion = getInstalledPatternsVersion(cwd);
+  const latest = await fetchPatternChanges(installedVersion);
+
+  if (latest?.changes) {
+    console.log(formatPatternChanges(latest.changes).join('\n') + '\n');
+    if (!(await confirm('  Apply these pattern changes?'))) {
+      console.log(chalk.gray('\n  Upgrade cancelled - your patterns were not changed.\n'));
+      return;
+    }
+  } else if (latest && installedVersion === latest.version) {
+    console.log(chalk.green(`  ✓ Patterns are up to date (v${latest.version})\n`));
+  } else if (latest) {
+    console.log(chalk.gray(`  Latest patterns: v${latest.version} (${latest.moduleCount} modules)\n`));
+  }
+
   // Check if already using server-enforced patterns
   if (isServerEnforced(cwd)) {
     console.log(chalk.green('  ✅ Already using server-enforced patterns!\n'));
     console.log(chalk.gray('  Patterns are fetched from server in real-time.'));
     console.log(chalk.gray('  AI calls discover_patterns before coding - always up to date.\n'));
-    return;
+  } else {
+    // Migrate to server-enforced mode
+    migrateToServerEnforced(cwd);
   }
 
-  // Migrate to server-enforced mode
-  migrateToServerEnforced(cwd);
+  if (latest) {
+    setInstalledPatternsVersion(cwd, latest.version);
+  }
 }
@@ -16,6 +16,9 @@ import { setup } from './commands/setup.js';
 import { scaffold } from './commands/scaffold.js';
 import { generate } from './commands/generate.js';
 import { upgrade } from './commands/upgrade.js';
+import { snapshot, restore } from './commands/snapshot.js';
+import { provision, type ProvisionCommand } from './commands/provision.js';
+import { template, type TemplateCommand } from './commands/template.js';
 import { config } from './commands/config.js';
 import { audit } from './commands/audit.js';
 import { coherence } from './commands/coherence.js';
@@ -71,7 +74,7 @@ async function checkForUpdatesInBackground(): Promise<void> {
 
       // Show blocked version warning first (critical)
       if (updateInfo.isBlocked) {
-        showBlockedVersionWarning(updateInfo.currentVersion, updateInfo.latestVersion);
+        showBlockedVersionWarning(updateInfo.currentVersion, updateInfo.latestVersion, updateInfo.blockReason);
         return;
       }
 
@@ -88,7 +91,7 @@ async function checkForUpdatesInBackground(): Promise<void> {
   }
 }
 
-function showBlockedVersionWarning(currentVersion: string, recommendedVersion: string): void {
+function showBlockedVersionWarning(currentVersion: string, recommendedVersion: string, reason: string | null): void {
   console.log(chalk.red(`
   ╭─────────────────────────────────────────────────────────╮
   │                                                         │
@@ -101,6 +104,9 @@ function showBlockedVersionWarning(currentVersion: string, recommendedVersion: s
   │                                                         │
   ╰─────────────────────────────────────────────────────────╯
   `));
+  if (reason) {
+    console.log(chalk.red(`  ${reason}\n`));
+  }
 }
 
 function showUpdateBanner(currentVersion: string, latestVersion: string, isRecommended: boolean): void {
@@ -204,6 +210,8 @@ function showWelcome(): void {
   console.log(chalk.cyan('    codebakers generate') + chalk.gray('   Generate components, APIs, services'));
   console.log(chalk.cyan('    codebakers upgrade') + chalk.gray('    Check for CLI updates'));
   console.log(chalk.cyan('    codebakers status') + chalk.gray('     Check project status'));
+  console.log(chalk.cyan('    codebakers snapshot') + chalk.gray('   Save your project files as a rollback point'));
+  console.log(chalk.cyan('    codebakers restore') + chalk.gray('    Restore a snapshot after reviewing the diff'));
   console.log(chalk.cyan('    codebakers config') + chalk.gray('     View or modify configuration\n'));
 
   console.log(chalk.white('  Examples:\n'));
@@ -222,7 +230,7 @@ function showWelcome(): void {
 
   console.log(chalk.white('  All Commands:\n'));
   console.log(chalk.gray('    go, extend, billing, build, build-status, setup, scaffold, init'));
-  console.log(chalk.gray('    generate, upgrade, status, audit, coherence, heal, doctor, config, login'));
+  console.log(chalk.gray('    generate, upgrade, snapshot, restore, status, audit, coherence, heal, doctor, config, login'));
   console.log(chalk.gray('    serve, mcp-config, mcp-uninstall\n'));
 
   console.log(chalk.gray('  Run ') + chalk.cyan('codebakers <command> --help') + chalk.gray(' for more info\n'));
@@ -270,10 +278,14 @@ program
   .command('build [description]')
   .description('Build a project from description - AI generates actual files')
   .option('-o, --output <dir>', 'Output directory (default: current directory)')
+  .option('-t, --template <name>', 'Start from a project template (name@version or a local directory)')
+  .option('--var <name=value...>', 'Set template variables')
   .option('-v, --verbose', 'Show detailed progress')
   .action((description, options) => build({
     description,
     output: options.output,
+    template: options.template,
+    var: options.var,
     verbose: options.verbose,
   }));
 
@@ -296,8 +308,18 @@ program
 program
   .command('scaffold')
   .alias('new')
-  .description('Create a new project with full stack scaffolding (Next.js + Supabase + Drizzle)')
-  .action(scaffold);
+  .description('Create a new project from a template (default: Next.js + Supabase + Drizzle)')
+  .option('-t, --template <name>', 'Template name (name@version) from your team, or a local template directory')
+  .option('--var <name=value...>', 'Set template variables')
+  .action((options) => scaffold({ template: options.template, var: options.var }));
+
+program
+  .command('template <action> [dir]')
+  .description('List your team\'s project templates, or publish a template directory (template.json + files/)')
+  .action(async (action: TemplateCommand, dir) => {
+    const ok = await template(action, dir);
+    if (!ok) process.exitCode = 1;
+  });
 
 program
   .command('generate [type] [name]')
@@ -310,6 +332,30 @@ program
   .description('Update patterns to the latest version')
   .action(upgrade);
 
+program
+  .command('snapshot [name]')
+  .description('Save the project files to the server as a rollback point')
+  .option('-d, --description <text>', 'Snapshot description')
+  .action((name, options) => snapshot(name, { description: options.description }));
+
+program
+  .command('restore [snapshotId]')
+  .description('Restore a snapshot (or the restore requested from the dashboard) after showing a diff')
+  .option('-f, --file <path...>', 'Only restore these files')
+  .option('-y, --yes', 'Apply without asking for confirmation')
+  .action((snapshotId, options) => restore(snapshotId, { file: options.file, yes: options.yes }));
+
+program
+  .command('provision <action>')
+  .description('Plan, apply or destroy the GitHub, Supabase and Vercel resources in codebakers.provision.json')
+  .option('-m, --manifest <path>', 'Manifest file (default: codebakers.provision.json)')
+  .option('-s, --state <path>', 'State file (default: .codebakers/provision-state.json)')
+  .option('-y, --yes', 'Apply without asking for confirmation (for CI)')
+  .action(async (action: ProvisionCommand, options) => {
+    const ok = await provision(action, { manifest: options.manifest, state: options.state, yes: options.yes });
+    if (!ok) process.exitCode = 1;
+  });
+
 program
   .command('config [action]')
   .description('View or modify CLI configuration (show, path, keys, clear-keys, set-url, reset)')
@@ -1,4 +1,5 @@
-import { getApiUrl } from '../config.js';
+import { getApiKey, getApiUrl, getTrialState } from '../config.js';
+import { getDeviceFingerprint } from './fingerprint.js';
 
 /**
  * API client utilities for CodeBakers CLI
@@ -153,9 +154,58 @@ export function getCliVersion(): string {
   }
 }
 
+/**
+ * Compare two semantic versions
+ * Returns negative if a < b, positive if a > b, 0 if equal
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((p) => parseInt(p, 10) || 0);
+  const partsB = b.split('.').map((p) => parseInt(p, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * This device's hash - rollouts group clients by team, or by device without one
+ */
+function getDeviceHash(): string | null {
+  const trial = getTrialState();
+  if (trial?.deviceHash) return trial.deviceHash;
+
+  try {
+    return getDeviceFingerprint().deviceHash;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Headers that identify this client to the version endpoints
+ */
+function getClientHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-CLI-Version': getCliVersion(),
+    'X-Node-Version': process.versions.node,
+    'X-Platform': process.platform,
+  };
+
+  const deviceHash = getDeviceHash();
+  if (deviceHash) headers['X-Device-Hash'] = deviceHash;
+
+  const apiKey = getApiKey();
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  return headers;
+}
+
 /**
  * Check if there's a newer version of the CLI available
- * Uses the CodeBakers API for controlled rollouts (only recommends stable, tested versions)
+ * Uses the CodeBakers API for controlled rollouts (only recommends stable, tested versions
+ * rolled out to this client's cohort) and the feature flags it enables
  * Falls back to npm registry if API is unavailable
  */
 export async function checkForUpdates(): Promise<{
@@ -165,6 +215,8 @@ export async function checkForUpdates(): Promise<{
   autoUpdateEnabled: boolean;
   autoUpdateVersion: string | null;
   isBlocked: boolean;
+  blockReason: string | null;
+  features: string[];
 } | null> {
   try {
     const currentVersion = getCliVersion();
@@ -175,29 +227,32 @@ export async function checkForUpdates(): Promise<{
       const response = await fetch(`${apiUrl}/api/cli/version`, {
         headers: {
           'Accept': 'application/json',
-          'X-CLI-Version': currentVersion,
+          ...getClientHeaders(),
         },
       });
 
       if (response.ok) {
         const data = await response.json();
-        const latestVersion = data.stableVersion || data.latestVersion;
-        const autoUpdateVersion = data.autoUpdateVersion;
-        const isBlocked = data.isBlocked === true;
 
-        // Guard against undefined latestVersion
-        if (!latestVersion) {
+        // Guard against servers that predate cohort rollouts
+        if (data.latestVersion === undefined) {
           // Fall through to npm fallback
           throw new Error('No version info from API');
         }
 
+        // Null means nothing newer is rolled out to this client yet
+        const latestVersion: string = data.latestVersion || currentVersion;
+        const features: string[] = Array.isArray(data.features) ? data.features : [];
+
         return {
           currentVersion,
           latestVersion,
-          updateAvailable: latestVersion !== currentVersion,
+          updateAvailable: compareVersions(latestVersion, currentVersion) > 0,
           autoUpdateEnabled: data.autoUpdateEnabled === true,
-          autoUpdateVersion: autoUpdateVersion || null,
-          isBlocked,
+          autoUpdateVersion: data.autoUpdateVersion || null,
+          isBlocked: data.isBlocked === true,
+          blockReason: data.blockReason || null,
+          features,
         };
       }
     } catch {
@@ -221,6 +276,8 @@ export async function checkForUpdates(): Promise<{
       autoUpdateEnabled: false, // npm fallback doesn't have controlled rollout
       autoUpdateVersion: null,
       isBlocked: false,
+      blockReason: null,
+      features: [],
     };
   } catch {
     return null;
@@ -241,14 +298,20 @@ export async function reportCliError(
     const cliVersion = getCliVersion();
 
     // Fire and forget - don't block on error reporting
+    // The key and device hash attribute the error to this client's rollout cohort
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-CLI-Version': cliVersion,
+    };
+    const apiKey = getApiKey();
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
     fetch(`${apiUrl}/api/cli/error-report`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-CLI-Version': cliVersion,
-      },
+      headers,
       body: JSON.stringify({
         cliVersion,
+        deviceHash: getDeviceHash() ?? undefined,
         errorType,
         errorMessage,
         stackTrace: context?.stack,
@@ -379,6 +442,16 @@ export interface ProjectSyncData {
     featureId?: string;
   }>;
 
+  // Hashes of snapshot files - the result lists the ones still to upload
+  checkBlobs?: string[];
+
+  // Snapshot file contents, addressed by the sha256 of their bytes
+  blobs?: Array<{
+    hash: string;
+    content: string;
+    encoding: 'utf8' | 'base64';
+  }>;
+
   // Create snapshot
   createSnapshot?: {
     snapshotName: string;
@@ -389,6 +462,8 @@ export interface ProjectSyncData {
     projectState?: Record<string, unknown>;
     fileTree?: Array<Record<string, unknown>>;
     phaseId?: string;
+    // Manifest of the snapshot's files - their blobs must be uploaded first
+    files?: Array<{ path: string; hash: string; size: number }>;
   };
 }
 
@@ -403,8 +478,11 @@ export interface ProjectSyncResult {
     dependencies: number;
     riskFlags: number;
     resources: number;
+    blobs?: number;
     snapshot: boolean;
   };
+  missingBlobs?: string[];
+  snapshotId?: string;
 }
 
 /**
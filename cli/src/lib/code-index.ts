@@ -0,0 +1,764 @@
+import * as ts from 'typescript';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+
+/**
+ * Compiler-backed index of a project's imports and exports.
+ *
+ * Files are parsed with the TypeScript compiler, so multi-line imports,
+ * re-exports, `export *`, `import x = require()` and dynamic imports are all
+ * seen, and imports are resolved the way tsc resolves them - honouring
+ * tsconfig.json `paths`, `baseUrl` and project references.
+ *
+ * Parsed files are cached on disk (.codebakers/code-index.json) by content
+ * hash, so a refresh only re-parses files that changed. Resolution is redone
+ * on every refresh, since a new file can fix an import in an unchanged one.
+ *
+ * Shared by `codebakers coherence`, the MCP guardian tools and the VS Code
+ * extension (which bundles this file), so they all agree on the import
+ * graph. Keep it free of CLI-only dependencies.
+ */
+
+export type ImportKind = 'import' | 're-export' | 'require' | 'dynamic';
+
+export interface ImportedName {
+  name: string; // Name in the target module: 'default', or '*' for the whole module
+  local: string; // Name bound in this file (the exported name, for re-exports)
+  typeOnly: boolean;
+}
+
+export interface ImportRecord {
+  specifier: string;
+  kind: ImportKind;
+  line: number;
+  names: ImportedName[]; // Empty for side-effect imports, `export *`, require() and import()
+  typeOnly: boolean; // `import type` / `export type`
+  exportAll: boolean; // `export * from`
+}
+
+export interface ResolvedImport extends ImportRecord {
+  resolvedPath: string | null; // Absolute path of a project file, or null
+  external: boolean; // A package, or a bare specifier no path alias covers
+}
+
+export type ExportKind =
+  | 'function'
+  | 'class'
+  | 'variable'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'namespace'
+  | 'default'
+  | 're-export';
+
+export interface ExportRecord {
+  name: string; // 'default' for default exports
+  kind: ExportKind;
+  line: number;
+  typeOnly: boolean;
+  localName?: string; // Declared name of a default export, when it has one
+}
+
+export interface ParsedModule {
+  imports: ImportRecord[];
+  exports: ExportRecord[];
+  commonJs: boolean; // Assigns module.exports / exports.x - exports can't be listed
+}
+
+export interface IndexedFile {
+  path: string; // Absolute
+  relativePath: string; // From the project root, with forward slashes
+  hash: string;
+  imports: ResolvedImport[];
+  exports: ExportRecord[];
+  commonJs: boolean;
+}
+
+export interface CodeIndexOptions {
+  cacheFile?: string | false; // Defaults to .codebakers/code-index.json; false to keep nothing on disk
+}
+
+interface ProjectConfig {
+  configPath: string | null;
+  options: ts.CompilerOptions;
+  fileNames: string[];
+}
+
+interface CacheEntry extends ParsedModule {
+  hash: string;
+  mtimeMs: number;
+  size: number;
+}
+
+// Bump when parseModule's output changes, to discard caches written by older versions
+const CACHE_VERSION = 1;
+
+const SOURCE_FILE = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+const IGNORED_DIRS = new Set(['node_modules', '.next', 'dist', 'build', 'out', 'coverage', '.git', '.codebakers']);
+
+// Used when the project has no tsconfig.json: the aliases Next.js projects use
+const DEFAULT_PATHS = { '@/*': ['src/*'], '~/*': ['*'] };
+
+export function isSourceFile(path: string): boolean {
+  return SOURCE_FILE.test(path) && !path.endsWith('.d.ts');
+}
+
+export function hashSource(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function toPosix(path: string): string {
+  return path.replace(/\\/g, '/');
+}
+
+function scriptKind(fileName: string): ts.ScriptKind {
+  if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.(c|m)?js$/.test(fileName)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return modifiers?.some((m) => m.kind === kind) ?? false;
+}
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+}
+
+function stringArgument(node: ts.CallExpression): string | null {
+  const [arg] = node.arguments;
+  return arg && (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg)) ? arg.text : null;
+}
+
+/**
+ * Imports and exports of one file's source. Doesn't touch the disk, so it
+ * also works on content that hasn't been written yet.
+ */
+export function parseModule(fileName: string, content: string): ParsedModule {
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, false, scriptKind(fileName));
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  const imports: ImportRecord[] = [];
+  const exports: ExportRecord[] = [];
+  let commonJs = false;
+
+  // Kinds of top-level declarations, for `export { name }` lists
+  const localKinds = new Map<string, ExportKind>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) localKinds.set(statement.name.text, 'function');
+    else if (ts.isClassDeclaration(statement) && statement.name) localKinds.set(statement.name.text, 'class');
+    else if (ts.isInterfaceDeclaration(statement)) localKinds.set(statement.name.text, 'interface');
+    else if (ts.isTypeAliasDeclaration(statement)) localKinds.set(statement.name.text, 'type');
+    else if (ts.isEnumDeclaration(statement)) localKinds.set(statement.name.text, 'enum');
+    else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) localKinds.set(statement.name.text, 'namespace');
+    else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        for (const name of bindingNames(declaration.name)) localKinds.set(name, 'variable');
+      }
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    const line = lineOf(statement);
+
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      const typeOnly = clause?.isTypeOnly ?? false;
+      const names: ImportedName[] = [];
+
+      if (clause?.name) names.push({ name: 'default', local: clause.name.text, typeOnly });
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        names.push({ name: '*', local: bindings.name.text, typeOnly });
+      } else if (bindings) {
+        for (const element of bindings.elements) {
+          names.push({
+            name: (element.propertyName ?? element.name).text,
+            local: element.name.text,
+            typeOnly: typeOnly || element.isTypeOnly,
+          });
+        }
+      }
+
+      imports.push({ specifier: statement.moduleSpecifier.text, kind: 'import', line, names, typeOnly, exportAll: false });
+      continue;
+    }
+
+    if (
+      ts.isImportEqualsDeclaration(statement) &&
+      ts.isExternalModuleReference(statement.moduleReference) &&
+      ts.isStringLiteral(statement.moduleReference.expression)
+    ) {
+      const local = statement.name.text;
+      imports.push({
+        specifier: statement.moduleReference.expression.text,
+        kind: 'require',
+        line,
+        names: [{ name: '*', local, typeOnly: statement.isTypeOnly }],
+        typeOnly: statement.isTypeOnly,
+        exportAll: false,
+      });
+      if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        exports.push({ name: local, kind: 'variable', line, typeOnly: statement.isTypeOnly });
+      }
+      continue;
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      const typeOnly = statement.isTypeOnly;
+      const clause = statement.exportClause;
+      const specifier =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : null;
+
+      if (specifier) {
+        const names: ImportedName[] = [];
+        if (clause && ts.isNamespaceExport(clause)) {
+          names.push({ name: '*', local: clause.name.text, typeOnly });
+          exports.push({ name: clause.name.text, kind: 're-export', line, typeOnly });
+        } else if (clause) {
+          for (const element of clause.elements) {
+            const elementTypeOnly = typeOnly || element.isTypeOnly;
+            names.push({ name: (element.propertyName ?? element.name).text, local: element.name.text, typeOnly: elementTypeOnly });
+            exports.push({ name: element.name.text, kind: 're-export', line: lineOf(element), typeOnly: elementTypeOnly });
+          }
+        }
+        imports.push({ specifier, kind: 're-export', line, names, typeOnly, exportAll: !clause });
+      } else if (clause && ts.isNamedExports(clause)) {
+        for (const element of clause.elements) {
+          const kind = localKinds.get((element.propertyName ?? element.name).text) ?? 'variable';
+          exports.push({
+            name: element.name.text,
+            kind,
+            line: lineOf(element),
+            typeOnly: typeOnly || element.isTypeOnly || kind === 'interface' || kind === 'type',
+          });
+        }
+      }
+      continue;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      // `export default x` and `export = x`
+      exports.push({
+        name: 'default',
+        kind: 'default',
+        line,
+        typeOnly: false,
+        localName: ts.isIdentifier(statement.expression) ? statement.expression.text : undefined,
+      });
+      continue;
+    }
+
+    if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) continue;
+
+    if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+      const name = (statement as ts.FunctionDeclaration | ts.ClassDeclaration).name;
+      exports.push({ name: 'default', kind: 'default', line, typeOnly: false, localName: name?.text });
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        for (const name of bindingNames(declaration.name)) {
+          exports.push({ name, kind: 'variable', line: lineOf(declaration), typeOnly: false });
+        }
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isModuleDeclaration(statement)) &&
+      statement.name &&
+      ts.isIdentifier(statement.name)
+    ) {
+      const kind = localKinds.get(statement.name.text) ?? 'variable';
+      exports.push({ name: statement.name.text, kind, line, typeOnly: kind === 'interface' || kind === 'type' });
+    }
+  }
+
+  // require() and import() can appear anywhere
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const specifier = stringArgument(node);
+      const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+      const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+      if (specifier !== null && (isDynamicImport || isRequire)) {
+        imports.push({
+          specifier,
+          kind: isDynamicImport ? 'dynamic' : 'require',
+          line: lineOf(node),
+          names: [],
+          typeOnly: false,
+          exportAll: false,
+        });
+      }
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const target = node.left.getText(sourceFile);
+      if (target === 'module.exports' || target.startsWith('module.exports.') || target.startsWith('exports.')) {
+        commonJs = true;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { imports, exports, commonJs };
+}
+
+function readProjectConfig(configPath: string): ts.ParsedCommandLine | null {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) return null;
+  return ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath), undefined, configPath);
+}
+
+function walkSourceFiles(dir: string, files: string[] = []): string[] {
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name) && !entry.name.startsWith('.')) walkSourceFiles(join(dir, entry.name), files);
+    } else if (entry.isFile() && isSourceFile(entry.name)) {
+      files.push(join(dir, entry.name));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * The root tsconfig.json and every project it references, recursively.
+ * Without a tsconfig, every source file under the root with the default
+ * path aliases.
+ */
+function loadProjectConfigs(root: string): ProjectConfig[] {
+  const rootConfig = ts.findConfigFile(root, ts.sys.fileExists, 'tsconfig.json');
+  if (!rootConfig || relative(root, rootConfig).startsWith('..')) {
+    return [
+      {
+        configPath: null,
+        options: { allowJs: true, jsx: ts.JsxEmit.Preserve, baseUrl: root, paths: DEFAULT_PATHS },
+        fileNames: walkSourceFiles(root),
+      },
+    ];
+  }
+
+  const projects: ProjectConfig[] = [];
+  const seen = new Set<string>();
+  const load = (configPath: string) => {
+    if (seen.has(configPath)) return;
+    seen.add(configPath);
+
+    const parsed = readProjectConfig(configPath);
+    if (!parsed) return;
+    projects.push({ configPath, options: parsed.options, fileNames: parsed.fileNames.map((f) => resolve(f)) });
+
+    for (const reference of parsed.projectReferences ?? []) {
+      load(ts.resolveProjectReferencePath(reference));
+    }
+  };
+  load(resolve(rootConfig));
+
+  return projects;
+}
+
+/**
+ * Files a specifier could name through the project's `paths` aliases, or
+ * null when no alias matches it
+ */
+function pathAliasCandidates(specifier: string, options: ts.CompilerOptions, root: string): string[] | null {
+  if (!options.paths) return null;
+  const base = options.baseUrl ?? (options.pathsBasePath as string | undefined) ?? root;
+
+  for (const [pattern, targets] of Object.entries(options.paths)) {
+    const star = pattern.indexOf('*');
+    let matched: string | null = null;
+    if (star === -1) {
+      if (specifier === pattern) matched = '';
+    } else {
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) {
+        matched = specifier.slice(prefix.length, specifier.length - suffix.length);
+      }
+    }
+    if (matched !== null) {
+      return targets.map((target) => resolve(base, target.replace('*', matched!)));
+    }
+  }
+
+  return null;
+}
+
+export class CodeIndex {
+  readonly root: string;
+  private readonly cacheFile: string | null;
+  private projects: ProjectConfig[] = [];
+  private fileProjects = new Map<string, ProjectConfig>();
+  private resolutionCaches = new Map<ProjectConfig, ts.ModuleResolutionCache>();
+  private files = new Map<string, IndexedFile>();
+  private cache = new Map<string, CacheEntry>(); // By relative path
+  private cacheDirty = false;
+  private importers: Map<string, Set<string>> | null = null;
+
+  private constructor(root: string, options: CodeIndexOptions) {
+    this.root = resolve(root);
+    this.cacheFile =
+      options.cacheFile === false ? null : options.cacheFile ?? join(this.root, '.codebakers', 'code-index.json');
+    this.readCache();
+  }
+
+  /**
+   * Index a project, re-parsing only files that changed since the cache on
+   * disk was written
+   */
+  static load(root: string, options: CodeIndexOptions = {}): CodeIndex {
+    const index = new CodeIndex(root, options);
+    index.refresh();
+    return index;
+  }
+
+  /**
+   * Re-read tsconfig and pick up added, changed and removed files
+   * @returns relative paths of files whose contents changed or were removed
+   */
+  refresh(): { changed: string[]; removed: string[] } {
+    this.projects = loadProjectConfigs(this.root);
+    this.fileProjects.clear();
+    this.resolutionCaches.clear();
+
+    for (const project of this.projects) {
+      for (const fileName of project.fileNames) {
+        if (isSourceFile(fileName) && !this.fileProjects.has(fileName)) this.fileProjects.set(fileName, project);
+      }
+    }
+
+    const changed: string[] = [];
+    const removed: string[] = [];
+
+    // Files indexed on request that aren't part of a tsconfig project are kept while they exist
+    const paths = new Set([...this.fileProjects.keys(), ...this.files.keys()]);
+    for (const path of paths) {
+      const previous = this.files.get(path)?.hash;
+      const file = this.readFromDisk(path);
+      if (!file) {
+        if (this.files.delete(path)) removed.push(toPosix(relative(this.root, path)));
+        continue;
+      }
+      if (file.hash !== previous) changed.push(file.relativePath);
+      this.files.set(path, file);
+    }
+
+    for (const file of this.files.values()) this.resolveImports(file);
+    this.importers = null;
+
+    return { changed, removed };
+  }
+
+  /**
+   * Write parsed files to the cache on disk, if anything changed
+   */
+  save(): void {
+    if (!this.cacheFile || !this.cacheDirty) return;
+
+    const files: Record<string, CacheEntry> = {};
+    for (const file of this.files.values()) {
+      const entry = this.cache.get(file.relativePath);
+      if (entry) files[file.relativePath] = entry;
+    }
+
+    try {
+      mkdirSync(dirname(this.cacheFile), { recursive: true });
+      writeFileSync(this.cacheFile, JSON.stringify({ version: CACHE_VERSION, files }));
+      this.cacheDirty = false;
+    } catch {
+      // The cache only saves time - analysis works without it
+    }
+  }
+
+  /**
+   * Every indexed file
+   */
+  listFiles(): IndexedFile[] {
+    return [...this.files.values()];
+  }
+
+  /**
+   * An indexed file. Source files outside the tsconfig projects are indexed
+   * on first request.
+   */
+  getFile(path: string): IndexedFile | null {
+    const absolute = this.absolute(path);
+    const existing = this.files.get(absolute);
+    if (existing) return existing;
+
+    if (!isSourceFile(absolute)) return null;
+    const file = this.readFromDisk(absolute);
+    if (!file) return null;
+
+    this.resolveImports(file);
+    this.files.set(absolute, file);
+    this.importers = null;
+    return file;
+  }
+
+  /**
+   * Re-index one file, from disk or from content not yet saved
+   */
+  updateFile(path: string, content?: string): IndexedFile | null {
+    const absolute = this.absolute(path);
+    if (content === undefined) {
+      this.files.delete(absolute);
+      return this.getFile(absolute);
+    }
+
+    const parsed = parseModule(absolute, content);
+    const file: IndexedFile = {
+      path: absolute,
+      relativePath: toPosix(relative(this.root, absolute)),
+      hash: hashSource(content),
+      imports: parsed.imports.map((record) => this.resolveRecord(record, absolute)),
+      exports: parsed.exports,
+      commonJs: parsed.commonJs,
+    };
+    this.files.set(absolute, file);
+    this.importers = null;
+    return file;
+  }
+
+  /**
+   * Compiler options of the tsconfig project a file belongs to - the root
+   * project's for files outside every project
+   */
+  getCompilerOptions(path: string): ts.CompilerOptions {
+    const project = this.fileProjects.get(this.absolute(path)) ?? this.projects[0];
+    return project?.options ?? {};
+  }
+
+  /**
+   * Resolve a specifier from a file the way tsc would
+   * @param extraFiles - Files about to be created, treated as existing
+   */
+  resolveImport(
+    specifier: string,
+    fromFile: string,
+    extraFiles?: Set<string>
+  ): { resolvedPath: string | null; external: boolean } {
+    const from = this.absolute(fromFile);
+    const project = this.fileProjects.get(from) ?? this.projects[0];
+    const options = project?.options ?? {};
+
+    const host: ts.ModuleResolutionHost = extraFiles
+      ? { fileExists: (f) => extraFiles.has(resolve(f)) || ts.sys.fileExists(f), readFile: ts.sys.readFile }
+      : ts.sys;
+    // A cache would remember resolutions made against files that don't exist yet
+    const cache = extraFiles || !project ? undefined : this.getResolutionCache(project);
+
+    const { resolvedModule } = ts.resolveModuleName(specifier, from, options, host, cache);
+    if (resolvedModule) {
+      return resolvedModule.isExternalLibraryImport
+        ? { resolvedPath: null, external: true }
+        : { resolvedPath: resolve(resolvedModule.resolvedFileName), external: false };
+    }
+
+    // Not a module tsc resolves (styles, images, JSON) - fine if the file is there
+    const exists = (f: string) => extraFiles?.has(f) || (existsSync(f) && statSync(f).isFile());
+    if (specifier.startsWith('.') || isAbsolute(specifier)) {
+      const target = resolve(dirname(from), specifier);
+      return { resolvedPath: exists(target) ? target : null, external: false };
+    }
+
+    const candidates = pathAliasCandidates(specifier, options, this.root);
+    if (candidates) {
+      return { resolvedPath: candidates.find(exists) ?? null, external: false };
+    }
+
+    return { resolvedPath: null, external: true };
+  }
+
+  /**
+   * Names a file exports, including those it re-exports with `export *`
+   */
+  getExportNames(path: string, seen = new Set<string>()): Set<string> {
+    const file = this.getFile(path);
+    const names = new Set<string>();
+    if (!file || seen.has(file.path)) return names;
+    seen.add(file.path);
+
+    for (const exported of file.exports) names.add(exported.name);
+    for (const record of file.imports) {
+      if (!record.exportAll || !record.resolvedPath) continue;
+      for (const name of this.getExportNames(record.resolvedPath, seen)) {
+        if (name !== 'default') names.add(name);
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Whether a file's exports can be listed - false for CommonJS modules and
+   * files that re-export everything from a package
+   */
+  hasKnownExports(path: string): boolean {
+    const file = this.getFile(path);
+    if (!file || file.commonJs) return false;
+    return file.imports.every((record) => !record.exportAll || record.resolvedPath !== null);
+  }
+
+  /**
+   * Project files a file imports
+   */
+  getDependencies(path: string, options: { includeTypeOnly?: boolean } = {}): string[] {
+    const file = this.getFile(path);
+    if (!file) return [];
+
+    const includeTypeOnly = options.includeTypeOnly ?? true;
+    const dependencies = file.imports
+      .filter((record) => record.resolvedPath && (includeTypeOnly || !record.typeOnly))
+      .map((record) => record.resolvedPath!);
+    return [...new Set(dependencies)];
+  }
+
+  /**
+   * Indexed files that import a file
+   */
+  getImporters(path: string): IndexedFile[] {
+    if (!this.importers) {
+      this.importers = new Map();
+      for (const file of this.files.values()) {
+        for (const dependency of this.getDependencies(file.path)) {
+          if (!this.importers.has(dependency)) this.importers.set(dependency, new Set());
+          this.importers.get(dependency)!.add(file.path);
+        }
+      }
+    }
+
+    return [...(this.importers.get(this.absolute(path)) ?? [])].map((p) => this.files.get(p)!).filter(Boolean);
+  }
+
+  /**
+   * Import cycles between indexed files, each listed once, as absolute paths
+   * ending with the file they started from
+   */
+  findCycles(options: { includeTypeOnly?: boolean } = {}): string[][] {
+    const cycles: string[][] = [];
+    const seenCycles = new Set<string>();
+    const visited = new Set<string>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+
+    const visit = (path: string) => {
+      visited.add(path);
+      stack.push(path);
+      onStack.add(path);
+
+      for (const dependency of this.getDependencies(path, options)) {
+        if (onStack.has(dependency)) {
+          const cycle = stack.slice(stack.indexOf(dependency)).concat(dependency);
+          const key = [...new Set(cycle)].sort().join('\n');
+          if (!seenCycles.has(key)) {
+            seenCycles.add(key);
+            cycles.push(cycle);
+          }
+        } else if (!visited.has(dependency) && this.files.has(dependency)) {
+          visit(dependency);
+        }
+      }
+
+      stack.pop();
+      onStack.delete(path);
+    };
+
+    for (const path of this.files.keys()) {
+      if (!visited.has(path)) visit(path);
+    }
+
+    return cycles;
+  }
+
+  private absolute(path: string): string {
+    return resolve(this.root, path);
+  }
+
+  private getResolutionCache(project: ProjectConfig): ts.ModuleResolutionCache {
+    let cache = this.resolutionCaches.get(project);
+    if (!cache) {
+      cache = ts.createModuleResolutionCache(this.root, (f) => (ts.sys.useCaseSensitiveFileNames ? f : f.toLowerCase()), project.options);
+      this.resolutionCaches.set(project, cache);
+    }
+    return cache;
+  }
+
+  private resolveRecord(record: ImportRecord, fromFile: string): ResolvedImport {
+    return { ...record, ...this.resolveImport(record.specifier, fromFile) };
+  }
+
+  private resolveImports(file: IndexedFile): void {
+    file.imports = file.imports.map((record) => this.resolveRecord(record, file.path));
+  }
+
+  /**
+   * Parse a file, or reuse the cached parse when its size and modification
+   * time - or failing that, its hash - are unchanged
+   */
+  private readFromDisk(path: string): IndexedFile | null {
+    let stats;
+    try {
+      stats = statSync(path);
+    } catch {
+      return null;
+    }
+    if (!stats.isFile()) return null;
+
+    const relativePath = toPosix(relative(this.root, path));
+    let entry = this.cache.get(relativePath);
+
+    if (!entry || entry.mtimeMs !== stats.mtimeMs || entry.size !== stats.size) {
+      let content: string;
+      try {
+        content = readFileSync(path, 'utf-8');
+      } catch {
+        return null;
+      }
+
+      const hash = hashSource(content);
+      entry = entry?.hash === hash ? { ...entry } : { hash, ...parseModule(path, content), mtimeMs: 0, size: 0 };
+      entry.mtimeMs = stats.mtimeMs;
+      entry.size = stats.size;
+      this.cache.set(relativePath, entry);
+      this.cacheDirty = true;
+    }
+
+    return {
+      path,
+      relativePath,
+      hash: entry.hash,
+      imports: entry.imports.map((record) => ({ ...record, resolvedPath: null, external: false })),
+      exports: entry.exports,
+      commonJs: entry.commonJs,
+    };
+  }
+
+  private readCache(): void {
+    if (!this.cacheFile || !existsSync(this.cacheFile)) return;
+
+    try {
+      const data = JSON.parse(readFileSync(this.cacheFile, 'utf-8'));
+      if (data.version !== CACHE_VERSION) return;
+      for (const [relativePath, entry] of Object.entries(data.files as Record<string, CacheEntry>)) {
+        this.cache.set(relativePath, entry);
+      }
+    } catch {
+      // A corrupt cache is rebuilt from scratch
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import chalk from 'chalk';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getApiKey, getApiUrl, getTrialState } from '../config.js';
+
+/**
+ * What changed in the patterns between two content versions.
+ * Keep in sync with the server-side ContentDiff (src/lib/content-diff.ts)
+ */
+export interface PatternChanges {
+  from: string;
+  to: string;
+  modules: Array<{
+    name: string;
+    status: 'added' | 'removed' | 'changed';
+    sections: Array<{
+      heading: string;
+      status: 'added' | 'removed' | 'changed';
+      added: string[];
+      removed: string[];
+      changed: Array<{ before: string; after: string }>;
+      examplesChanged: number;
+    }>;
+  }>;
+  summary: {
+    modulesAdded: number;
+    modulesRemoved: number;
+    modulesChanged: number;
+    rulesAdded: number;
+    rulesRemoved: number;
+    rulesChanged: number;
+  };
+}
+
+export interface PatternVersionCheck {
+  version: string;
+  moduleCount: number;
+  changes: PatternChanges | null;
+}
+
+// Rules shown per section before the rest are summarised
+const MAX_RULES_PER_SECTION = 5;
+
+/**
+ * The patterns version this project last installed or acknowledged.
+ * MCP auto-updates record it in .claude/.version.json, `codebakers upgrade`
+ * in .codebakers.json.
+ */
+export function getInstalledPatternsVersion(cwd: string): string | null {
+  const candidates: Array<[string, string]> = [
+    [join(cwd, '.claude', '.version.json'), 'version'],
+    [join(cwd, '.codebakers.json'), 'patternsVersion'],
+  ];
+
+  for (const [file, field] of candidates) {
+    if (!existsSync(file)) continue;
+    try {
+      const value = JSON.parse(readFileSync(file, 'utf-8'))[field];
+      if (typeof value === 'string' && value) return value;
+    } catch {
+      // Ignore parse errors
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record the patterns version so the next upgrade shows only what changed
+ * after it. Both files are updated so they can't disagree.
+ */
+export function setInstalledPatternsVersion(cwd: string, version: string): void {
+  const files: Array<[string, string]> = [
+    [join(cwd, '.codebakers.json'), 'patternsVersion'],
+    [join(cwd, '.claude', '.version.json'), 'version'],
+  ];
+
+  for (const [file, field] of files) {
+    const exists = existsSync(file);
+    if (!exists && field === 'version') continue; // Only MCP auto-updates create .version.json
+
+    let state: Record<string, unknown> = {};
+    if (exists) {
+      try {
+        state = JSON.parse(readFileSync(file, 'utf-8'));
+      } catch {
+        // Ignore errors
+      }
+    }
+    state[field] = version;
+    writeFileSync(file, JSON.stringify(state, null, 2));
+  }
+}
+
+/**
+ * Fetch the latest patterns version for this account and, given the
+ * installed version, what changed since it
+ */
+export async function fetchPatternChanges(installedVersion: string | null): Promise<PatternVersionCheck | null> {
+  const headers: Record<string, string> = {};
+  const apiKey = getApiKey();
+  const trial = getTrialState();
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  } else if (trial?.trialId) {
+    headers['X-Trial-Id'] = trial.trialId;
+  }
+
+  try {
+    const query = installedVersion ? `?since=${encodeURIComponent(installedVersion)}` : '';
+    const response = await fetch(`${getApiUrl()}/api/content/version${query}`, { headers });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return {
+      version: data.version,
+      moduleCount: data.moduleCount,
+      changes: data.changes ?? null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lines describing the changes for the terminal
+ */
+export function formatPatternChanges(changes: PatternChanges): string[] {
+  const { summary } = changes;
+  const lines = [
+    chalk.cyan(`  Pattern changes v${changes.from} → v${changes.to}`),
+    chalk.gray(
+      `  ${summary.modulesChanged} modules changed, ${summary.modulesAdded} added, ${summary.modulesRemoved} removed · ` +
+      `${summary.rulesAdded} rules added, ${summary.rulesRemoved} removed, ${summary.rulesChanged} reworded`
+    ),
+  ];
+
+  for (const moduleDiff of changes.modules) {
+    lines.push('');
+    if (moduleDiff.status !== 'changed') {
+      const color = moduleDiff.status === 'added' ? chalk.green : chalk.red;
+      lines.push(color(`  ${moduleDiff.status === 'added' ? '+' : '-'} ${moduleDiff.name} (${moduleDiff.status}, ${moduleDiff.sections.length} sections)`));
+      continue;
+    }
+
+    lines.push(chalk.white(`  ~ ${moduleDiff.name}`));
+    for (const section of moduleDiff.sections) {
+      lines.push(chalk.gray(`    ${section.heading || 'Introduction'}${section.status === 'changed' ? '' : ` (${section.status})`}`));
+
+      const entries = [
+        ...section.added.map((rule) => chalk.green(`      + ${rule}`)),
+        ...section.removed.map((rule) => chalk.red(`      - ${rule}`)),
+        ...section.changed.map((rule) => chalk.yellow(`      ~ ${rule.after}`)),
+      ];
+      lines.push(...entries.slice(0, MAX_RULES_PER_SECTION));
+      if (entries.length > MAX_RULES_PER_SECTION) {
+        lines.push(chalk.gray(`      … and ${entries.length - MAX_RULES_PER_SECTION} more`));
+      }
+      if (section.examplesChanged > 0) {
+        lines.push(chalk.gray(`      ${section.examplesChanged} code example${section.examplesChanged === 1 ? '' : 's'} updated`));
+      }
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,477 @@
+import chalk from 'chalk';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+/**
+ * Declarative provisioning for GitHub, Supabase and Vercel.
+ *
+ * The checked-in manifest (codebakers.provision.json) describes the resources
+ * a project wants; the local state file (.codebakers/provision-state.json)
+ * records what was actually created, with its IDs and outputs. Plans diff the
+ * two, so applying twice changes nothing and destroy only ever deletes
+ * resources the state file says we created. State is saved after every
+ * resource, so a failed apply can simply be re-run. Secrets such as the
+ * database password never go into the state: providers hand them to
+ * ApplyOptions.onSecrets, which writes them to .env.local.
+ *
+ * String values in the manifest can reference outputs of other resources,
+ * e.g. "${supabase.apiUrl}". All provider calls go through ProvisionProviders
+ * so the engine can run against fakes.
+ */
+
+export const PROVISION_MANIFEST_FILE = 'codebakers.provision.json';
+export const PROVISION_STATE_FILE = join('.codebakers', 'provision-state.json');
+
+export type ResourceType = 'github' | 'supabase' | 'vercel' | 'vercel.env';
+
+export interface ProvisionManifest {
+  name?: string; // Default name for every resource
+  github?: {
+    name?: string;
+    owner?: string; // Organization to create the repository in
+    private?: boolean;
+    description?: string;
+    allowReplace?: boolean; // Replacing a repository deletes it and its history
+  };
+  supabase?: {
+    name?: string;
+    region?: string;
+    organizationId?: string;
+  };
+  vercel?: {
+    name?: string;
+    team?: string;
+    framework?: string;
+    linkGithub?: boolean; // Defaults to true when the manifest has a github repository
+    env?: Record<string, string>;
+  };
+}
+
+export type ResourceSpec = Record<string, string | boolean | string[] | undefined>;
+
+export interface DesiredResource {
+  address: string; // "github", "supabase", "vercel" or "vercel.env.<KEY>"
+  type: ResourceType;
+  spec: ResourceSpec; // May contain ${address.output} references
+}
+
+export interface ResourceState {
+  address: string;
+  type: ResourceType;
+  id: string;
+  spec: ResourceSpec; // Resolved spec the resource was created or last updated with
+  outputs: Record<string, string>;
+  createdAt: string;
+}
+
+export interface ProvisionState {
+  version: 1;
+  resources: ResourceState[]; // In creation order
+}
+
+export type ProvisionActionKind = 'create' | 'update' | 'replace' | 'delete' | 'none';
+
+export interface ProvisionAction {
+  address: string;
+  type: ResourceType;
+  action: ProvisionActionKind;
+  spec?: ResourceSpec; // Desired spec, still unresolved; absent for deletes
+  changes: string[]; // Spec fields that differ from the state
+  drifted?: boolean; // Recorded in the state but deleted outside this tool
+}
+
+export interface ProvisionPlan {
+  actions: ProvisionAction[];
+  destructive: boolean; // Deletes or replaces something that exists
+}
+
+export interface ProviderResult {
+  id: string;
+  outputs?: Record<string, string>;
+  secrets?: Record<string, string>; // Env var name -> value; never saved in the state
+}
+
+export interface ResourceProvider {
+  create(spec: ResourceSpec): Promise<ProviderResult>;
+  update(resource: ResourceState, spec: ResourceSpec): Promise<Record<string, string> | void>; // An "id" output renames the resource
+  delete(resource: ResourceState): Promise<void>; // Must succeed if the resource is already gone
+  exists(resource: ResourceState): Promise<boolean>;
+}
+
+export type ProvisionProviders = Record<ResourceType, ResourceProvider>;
+
+export interface ApplyOptions {
+  save: (state: ProvisionState) => void;
+  onAction?: (action: ProvisionAction, phase: 'start' | 'done') => void;
+  onSecrets?: (address: string, secrets: Record<string, string>) => void;
+}
+
+// Fields a provider can change in place; any other change replaces the resource
+const UPDATABLE_FIELDS: Record<ResourceType, string[]> = {
+  github: ['name', 'description', 'private'],
+  supabase: [],
+  vercel: ['framework', 'gitRepository'],
+  'vercel.env': ['value', 'target'],
+};
+
+const REFERENCE = /\$\{([A-Za-z0-9_.-]+)\.([A-Za-z0-9_]+)\}/g;
+const ENV_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Read and validate a manifest. Throws with the file path on bad input.
+ */
+export function loadProvisionManifest(path: string): ProvisionManifest {
+  if (!existsSync(path)) {
+    throw new Error(`No provisioning manifest at ${path}`);
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const problem = validateManifest(manifest);
+  if (problem) {
+    throw new Error(`${path}: ${problem}`);
+  }
+  return manifest as ProvisionManifest;
+}
+
+function validateManifest(manifest: unknown): string | null {
+  if (!isObject(manifest)) return 'the manifest must be a JSON object';
+
+  const known = ['$schema', 'name', 'github', 'supabase', 'vercel'];
+  const unknown = Object.keys(manifest).find((key) => !known.includes(key));
+  if (unknown) return `unknown section "${unknown}"`;
+  if (!manifest.github && !manifest.supabase && !manifest.vercel) return 'declare at least one of github, supabase or vercel';
+
+  for (const section of ['github', 'supabase', 'vercel'] as const) {
+    const value = manifest[section];
+    if (value === undefined) continue;
+    if (!isObject(value)) return `${section} must be an object`;
+    if (!value.name && !manifest.name) return `${section}.name is required when there is no top-level name`;
+  }
+
+  const env = isObject(manifest.vercel) ? manifest.vercel.env : undefined;
+  if (env !== undefined) {
+    if (!isObject(env)) return 'vercel.env must map variable names to strings';
+    for (const [key, value] of Object.entries(env)) {
+      if (!ENV_KEY.test(key)) return `vercel.env has an invalid variable name "${key}"`;
+      if (typeof value !== 'string') return `vercel.env.${key} must be a string`;
+      if (value.includes('${supabase.dbPassword}')) {
+        return `vercel.env.${key}: the database password is written to .env.local, not the state, so it cannot be referenced`;
+      }
+    }
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The resources a manifest asks for, in the order they are created.
+ */
+export function desiredResources(manifest: ProvisionManifest): DesiredResource[] {
+  const resources: DesiredResource[] = [];
+
+  if (manifest.github) {
+    const { github } = manifest;
+    resources.push({
+      address: 'github',
+      type: 'github',
+      spec: {
+        name: github.name ?? manifest.name,
+        owner: github.owner,
+        private: github.private ?? true,
+        description: github.description ?? '',
+      },
+    });
+  }
+
+  if (manifest.supabase) {
+    const { supabase } = manifest;
+    resources.push({
+      address: 'supabase',
+      type: 'supabase',
+      spec: {
+        name: supabase.name ?? manifest.name,
+        region: supabase.region ?? 'us-east-1',
+        organizationId: supabase.organizationId,
+      },
+    });
+  }
+
+  if (manifest.vercel) {
+    const { vercel } = manifest;
+    const linkGithub = vercel.linkGithub ?? !!manifest.github;
+    resources.push({
+      address: 'vercel',
+      type: 'vercel',
+      spec: {
+        name: vercel.name ?? manifest.name,
+        team: vercel.team,
+        framework: vercel.framework ?? 'nextjs',
+        gitRepository: linkGithub && manifest.github ? '${github.id}' : undefined,
+      },
+    });
+
+    for (const [key, value] of Object.entries(vercel.env ?? {})) {
+      resources.push({
+        address: `vercel.env.${key}`,
+        type: 'vercel.env',
+        spec: {
+          projectId: '${vercel.id}',
+          team: vercel.team,
+          key,
+          value,
+          target: ['production', 'preview', 'development'],
+        },
+      });
+    }
+  }
+
+  return resources;
+}
+
+export function loadProvisionState(path: string): ProvisionState {
+  if (!existsSync(path)) {
+    return { version: 1, resources: [] };
+  }
+  const state = JSON.parse(readFileSync(path, 'utf-8')) as ProvisionState;
+  if (state.version !== 1 || !Array.isArray(state.resources)) {
+    throw new Error(`${path} is not a provisioning state file`);
+  }
+  return state;
+}
+
+export function saveProvisionState(path: string, state: ProvisionState): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(state, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Substitute ${address.output} references. Unknown references are left in
+ * place and listed, so a plan can show them as known only after apply.
+ */
+export function resolveReferences(
+  spec: ResourceSpec,
+  outputs: (address: string) => Record<string, string> | undefined
+): { spec: ResourceSpec; unresolved: string[] } {
+  const unresolved: string[] = [];
+  const resolveString = (value: string) =>
+    value.replace(REFERENCE, (match, address: string, output: string) => {
+      const value = outputs(address)?.[output];
+      if (value === undefined) {
+        unresolved.push(match);
+        return match;
+      }
+      return value;
+    });
+
+  const resolved: ResourceSpec = {};
+  for (const [field, value] of Object.entries(spec)) {
+    resolved[field] =
+      typeof value === 'string' ? resolveString(value) : Array.isArray(value) ? value.map(resolveString) : value;
+  }
+  return { spec: resolved, unresolved };
+}
+
+function specFieldsWithReferences(spec: ResourceSpec): string[] {
+  return Object.entries(spec)
+    .filter(([, value]) => [value].flat().some((v) => typeof v === 'string' && new RegExp(REFERENCE.source).test(v)))
+    .map(([field]) => field);
+}
+
+function sameValue(a: ResourceSpec[string], b: ResourceSpec[string]): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Diff the manifest against the state. Resources in the state but no longer
+ * in the manifest are deleted, newest first, before anything else runs.
+ * `drifted` lists addresses refreshProvisionState found deleted, so their
+ * re-creation is called out. Throws rather than plan to replace a GitHub
+ * repository unless the manifest allows it.
+ */
+export function planProvision(manifest: ProvisionManifest, state: ProvisionState, drifted: string[] = []): ProvisionPlan {
+  const desired = desiredResources(manifest);
+  const existing = new Map(state.resources.map((r) => [r.address, r]));
+  const wanted = new Set(desired.map((r) => r.address));
+  const rebuilt = new Set<string>(); // Created, replaced or renamed in this plan, so their outputs change
+
+  const actions: ProvisionAction[] = state.resources
+    .filter((r) => !wanted.has(r.address))
+    .reverse()
+    .map((r) => ({ address: r.address, type: r.type, action: 'delete' as const, changes: [] }));
+
+  for (const resource of desired) {
+    const current = existing.get(resource.address);
+    if (!current) {
+      rebuilt.add(resource.address);
+      actions.push({ ...resource, action: 'create', changes: [], ...(drifted.includes(resource.address) && { drifted: true }) });
+      continue;
+    }
+
+    const { spec } = resolveReferences(resource.spec, (address) =>
+      rebuilt.has(address) ? undefined : existing.get(address)?.outputs
+    );
+    const unknown = specFieldsWithReferences(spec);
+    const fields = [...new Set([...Object.keys(spec), ...Object.keys(current.spec)])];
+    const changes = fields.filter((field) => unknown.includes(field) || !sameValue(spec[field], current.spec[field]));
+
+    let action: ProvisionActionKind = 'none';
+    if (changes.length > 0) {
+      action = changes.every((field) => UPDATABLE_FIELDS[resource.type].includes(field)) ? 'update' : 'replace';
+    }
+    if (action === 'replace') {
+      if (resource.type === 'github' && !manifest.github?.allowReplace) {
+        throw new Error(
+          `github: changing ${changes.join(', ')} would delete the repository and its history. ` +
+          'Set github.allowReplace to true to allow it, or change it on GitHub and update the manifest.'
+        );
+      }
+      rebuilt.add(resource.address);
+    }
+    if (action === 'update' && resource.type === 'github' && changes.includes('name')) {
+      rebuilt.add(resource.address); // A rename changes the repository's id
+    }
+    actions.push({ ...resource, action, changes });
+  }
+
+  return {
+    actions,
+    destructive: actions.some((a) => a.action === 'delete' || a.action === 'replace'),
+  };
+}
+
+/**
+ * Delete everything in the state, newest first.
+ */
+export function planDestroy(state: ProvisionState): ProvisionPlan {
+  const actions = [...state.resources]
+    .reverse()
+    .map((r) => ({ address: r.address, type: r.type, action: 'delete' as const, changes: [] }));
+  return { actions, destructive: actions.length > 0 };
+}
+
+/**
+ * Forget resources that were removed outside this tool, so the next plan
+ * recreates them instead of failing to update them. Returns their addresses
+ * for planProvision to flag.
+ */
+export async function refreshProvisionState(state: ProvisionState, providers: ProvisionProviders): Promise<string[]> {
+  const gone: string[] = [];
+  for (const resource of state.resources) {
+    if (!(await providers[resource.type].exists(resource))) {
+      gone.push(resource.address);
+    }
+  }
+  state.resources = state.resources.filter((r) => !gone.includes(r.address));
+  return gone;
+}
+
+/**
+ * Run a plan, saving the state after every resource. Stops at the first
+ * failure; everything done before it stays recorded.
+ */
+export async function applyProvisionPlan(
+  plan: ProvisionPlan,
+  state: ProvisionState,
+  providers: ProvisionProviders,
+  options: ApplyOptions
+): Promise<void> {
+  const outputsOf = (address: string) => state.resources.find((r) => r.address === address)?.outputs;
+  const record = (resource: ResourceState) => {
+    state.resources = [...state.resources.filter((r) => r.address !== resource.address), resource];
+    options.save(state);
+  };
+  const remove = (address: string) => {
+    state.resources = state.resources.filter((r) => r.address !== address);
+    options.save(state);
+  };
+
+  for (const action of plan.actions) {
+    if (action.action === 'none') continue;
+
+    const provider = providers[action.type];
+    const current = state.resources.find((r) => r.address === action.address);
+    options.onAction?.(action, 'start');
+
+    try {
+      if (action.action === 'delete') {
+        if (current) {
+          await provider.delete(current);
+        }
+        remove(action.address);
+        options.onAction?.(action, 'done');
+        continue;
+      }
+
+      const { spec, unresolved } = resolveReferences(action.spec ?? {}, outputsOf);
+      if (unresolved.length > 0) {
+        throw new Error(`unresolved reference ${unresolved[0]}`);
+      }
+
+      if (action.action === 'update' && current) {
+        const outputs = { ...current.outputs, ...((await provider.update(current, spec)) ?? {}) };
+        record({ ...current, id: outputs.id ?? current.id, spec, outputs });
+      } else {
+        if (action.action === 'replace' && current) {
+          await provider.delete(current);
+          remove(action.address);
+        }
+        const created = await provider.create(spec);
+        record({
+          address: action.address,
+          type: action.type,
+          id: created.id,
+          spec,
+          outputs: { ...created.outputs, id: created.id },
+          createdAt: new Date().toISOString(),
+        });
+        if (created.secrets) {
+          options.onSecrets?.(action.address, created.secrets);
+        }
+      }
+      options.onAction?.(action, 'done');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${action.address}: ${message}`);
+    }
+  }
+}
+
+export function formatProvisionPlan(plan: ProvisionPlan): string[] {
+  const lines: string[] = [];
+
+  for (const action of plan.actions) {
+    const changes = action.changes.length > 0 ? chalk.gray(` (${action.changes.join(', ')})`) : '';
+    switch (action.action) {
+      case 'create':
+        lines.push(
+          action.drifted
+            ? chalk.yellow(`  + ${action.address}`) + chalk.yellow(' (deleted outside codebakers - recreate)')
+            : chalk.green(`  + ${action.address}`) + chalk.gray(' (create)')
+        );
+        break;
+      case 'update':
+        lines.push(chalk.yellow(`  ~ ${action.address}`) + changes);
+        break;
+      case 'replace':
+        lines.push(chalk.red(`  ± ${action.address}`) + chalk.gray(' (delete and recreate)') + changes);
+        break;
+      case 'delete':
+        lines.push(chalk.red(`  - ${action.address}`) + chalk.gray(' (delete)'));
+        break;
+      case 'none':
+        lines.push(chalk.gray(`    ${action.address} (up to date)`));
+        break;
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,658 @@
+import * as ts from 'typescript';
+import { relative, resolve } from 'path';
+import { CodeIndex, IndexedFile } from './code-index.js';
+
+/**
+ * Ripple analysis - what a change to a type, function or component touches.
+ *
+ * The entity's declaration is found in the code index, then its references
+ * are found through a TypeScript language service over the whole project.
+ * References are real symbol references: names in strings and comments are
+ * not matched, and uses through aliased imports (`import { User as U }`) and
+ * re-exports are followed.
+ *
+ * Each usage is classified (type position, call site, JSX element or prop,
+ * destructuring, import, re-export), and for a described change the usages
+ * it would actually break are reported with their locations. Type changes
+ * are applied to the declaration in memory and the referencing files are
+ * type-checked again; the errors that appear are the breakages.
+ */
+
+export type RippleChangeType = 'added_field' | 'removed_field' | 'renamed' | 'type_changed' | 'signature_changed' | 'other';
+
+export type UsageKind =
+  | 'declaration'
+  | 'import'
+  | 'export'
+  | 're-export'
+  | 'type'
+  | 'call'
+  | 'jsx'
+  | 'jsx-prop'
+  | 'destructuring'
+  | 'property'
+  | 'value';
+
+export interface RippleLocation {
+  file: string; // From the project root, with forward slashes
+  line: number;
+  column: number;
+  text: string; // The source line, trimmed
+}
+
+export interface RippleUsage extends RippleLocation {
+  kind: UsageKind;
+}
+
+export interface RippleBreakage extends RippleLocation {
+  message: string;
+}
+
+export interface RippleRequest {
+  entityName: string;
+  changeType?: RippleChangeType;
+  memberName?: string; // Field, prop or parameter the change is about
+  newName?: string; // For renames
+  newType?: string; // For type changes, e.g. "number" or "string | null"
+  required?: boolean; // Whether an added field or changed parameter is required
+  filePath?: string; // File declaring the entity, when the name is declared in several
+}
+
+export interface RippleReport {
+  declarations: RippleLocation[];
+  usages: RippleUsage[]; // References to the entity, other than its declaration
+  memberUsages: RippleUsage[]; // References to memberName, other than its declaration
+  breakages: RippleBreakage[];
+  notes: string[];
+}
+
+interface Declaration {
+  sourceFile: ts.SourceFile;
+  name: ts.Identifier;
+  symbol: ts.Symbol;
+  exported: boolean;
+}
+
+interface Reference {
+  sourceFile: ts.SourceFile;
+  node: ts.Identifier;
+}
+
+// Member of the entity the change is about
+type Member =
+  | { kind: 'property'; symbol: ts.Symbol }
+  | { kind: 'parameter'; index: number }
+  | { kind: 'missing' };
+
+const MAX_LINE_LENGTH = 120;
+
+/**
+ * A language service over every file in the index, with the compiler options
+ * of the project declaring the entity
+ * @param overrides - In-memory contents that replace files on disk, by absolute path
+ */
+function createLanguageService(
+  index: CodeIndex,
+  options: ts.CompilerOptions,
+  overrides: Map<string, string> = new Map()
+): ts.LanguageService {
+  const versions = new Map(index.listFiles().map((file) => [file.path, file.hash]));
+  const fileNames = [...versions.keys()];
+
+  const host: ts.LanguageServiceHost = {
+    // JavaScript files reference TypeScript declarations too
+    getCompilationSettings: () => ({ ...options, allowJs: true, noEmit: true }),
+    getScriptFileNames: () => fileNames,
+    getScriptVersion: (fileName) => {
+      const version = versions.get(resolve(fileName)) ?? '0';
+      return overrides.has(resolve(fileName)) ? `${version}:changed` : version;
+    },
+    getScriptSnapshot: (fileName) => {
+      const text = overrides.get(resolve(fileName)) ?? ts.sys.readFile(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => index.root,
+    getDefaultLibFileName: (o) => ts.getDefaultLibFilePath(o),
+    fileExists: ts.sys.fileExists,
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  };
+
+  return ts.createLanguageService(host, ts.createDocumentRegistry());
+}
+
+/**
+ * Names of the top-level declarations in a file
+ */
+function topLevelNames(sourceFile: ts.SourceFile): ts.Identifier[] {
+  const names: ts.Identifier[] = [];
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) names.push(declaration.name);
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isModuleDeclaration(statement)) &&
+      statement.name &&
+      ts.isIdentifier(statement.name)
+    ) {
+      names.push(statement.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Top-level declarations of the entity. Exported declarations win over
+ * file-local ones of the same name.
+ */
+function findDeclarations(program: ts.Program, index: CodeIndex, request: RippleRequest): Declaration[] {
+  const checker = program.getTypeChecker();
+  const files = request.filePath
+    ? [index.getFile(request.filePath)].filter((file): file is IndexedFile => file !== null)
+    : index.listFiles();
+
+  const declarations: Declaration[] = [];
+  for (const file of files) {
+    const sourceFile = program.getSourceFile(file.path);
+    if (!sourceFile) continue;
+
+    for (const name of topLevelNames(sourceFile)) {
+      if (name.text !== request.entityName) continue;
+      const symbol = checker.getSymbolAtLocation(name);
+      // Interface merging and overloads declare one symbol more than once
+      if (!symbol || declarations.some((d) => d.symbol === symbol)) continue;
+
+      const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+      const exported =
+        !!moduleSymbol &&
+        checker.getExportsOfModule(moduleSymbol).some((exp) => {
+          const target = exp.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exp) : exp;
+          return target === symbol;
+        });
+
+      declarations.push({ sourceFile, name, symbol, exported });
+    }
+  }
+
+  return declarations.some((d) => d.exported) ? declarations.filter((d) => d.exported) : declarations;
+}
+
+/**
+ * The identifier at a position
+ */
+function findIdentifier(sourceFile: ts.SourceFile, position: number): ts.Identifier | null {
+  const visit = (node: ts.Node): ts.Identifier | null => {
+    if (position < node.getStart(sourceFile) || position >= node.getEnd()) return null;
+    if (ts.isIdentifier(node)) return node;
+    return ts.forEachChild(node, visit) ?? null;
+  };
+  return visit(sourceFile);
+}
+
+/**
+ * Every reference to the symbol declared at a name, including those made
+ * through aliased imports and re-exports
+ */
+function findReferences(
+  service: ts.LanguageService,
+  program: ts.Program,
+  indexed: Set<string>,
+  name: ts.Identifier
+): Reference[] {
+  const referenced = service.findReferences(name.getSourceFile().fileName, name.getStart()) ?? [];
+  const references: Reference[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of referenced.flatMap((symbol) => symbol.references)) {
+    const key = `${entry.fileName}:${entry.textSpan.start}`;
+    // Files outside the project (node_modules, lib.d.ts) aren't the project's to update
+    if (seen.has(key) || !indexed.has(resolve(entry.fileName))) continue;
+    seen.add(key);
+
+    const sourceFile = program.getSourceFile(entry.fileName);
+    const node = sourceFile && findIdentifier(sourceFile, entry.textSpan.start);
+    if (sourceFile && node) references.push({ sourceFile, node });
+  }
+
+  return references;
+}
+
+function isDeclarationName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isFunctionDeclaration(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isInterfaceDeclaration(parent) ||
+      ts.isTypeAliasDeclaration(parent) ||
+      ts.isEnumDeclaration(parent) ||
+      ts.isModuleDeclaration(parent) ||
+      ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isEnumMember(parent)) &&
+    parent.name === node
+  );
+}
+
+function isSameNode(reference: Reference, name: ts.Node): boolean {
+  return reference.sourceFile === name.getSourceFile() && reference.node.getStart() === name.getStart();
+}
+
+/**
+ * How a reference uses the symbol
+ */
+export function classifyUsage(node: ts.Identifier): UsageKind {
+  const parent = node.parent;
+
+  if (ts.isImportSpecifier(parent) || ts.isImportClause(parent) || ts.isNamespaceImport(parent) || ts.isImportEqualsDeclaration(parent)) {
+    return 'import';
+  }
+  if (ts.isExportSpecifier(parent)) {
+    return parent.parent.parent.moduleSpecifier ? 're-export' : 'export';
+  }
+  if (ts.isExportAssignment(parent)) return 'export';
+  if (isDeclarationName(node)) return 'declaration';
+  if (ts.isBindingElement(parent) && ts.isObjectBindingPattern(parent.parent)) return 'destructuring';
+  if (ts.isJsxAttribute(parent) && parent.name === node) return 'jsx-prop';
+  if ((ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent)) && parent.tagName === node) {
+    return 'jsx';
+  }
+  if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === node) return 'call';
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) {
+    const outer = parent.parent;
+    return (ts.isCallExpression(outer) || ts.isNewExpression(outer)) && outer.expression === parent ? 'call' : 'property';
+  }
+  if (ts.isPropertyAssignment(parent) || ts.isShorthandPropertyAssignment(parent)) return 'property';
+
+  // Qualified names (ns.User) are type positions when the whole name is
+  let outer: ts.Node = node;
+  while (ts.isQualifiedName(outer.parent) || (ts.isPropertyAccessExpression(outer.parent) && outer.parent.expression === outer)) {
+    outer = outer.parent;
+  }
+  if (
+    ts.isTypeReferenceNode(outer.parent) ||
+    ts.isExpressionWithTypeArguments(outer.parent) ||
+    ts.isTypeQueryNode(outer.parent) ||
+    ts.isImportTypeNode(outer.parent)
+  ) {
+    return 'type';
+  }
+
+  return 'value';
+}
+
+function toLocation(index: CodeIndex, sourceFile: ts.SourceFile, node: ts.Node | number): RippleLocation {
+  const position = typeof node === 'number' ? node : node.getStart(sourceFile);
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  const text = sourceFile.text.split(/\r?\n/)[line]?.trim() ?? '';
+  return {
+    file: relative(index.root, sourceFile.fileName).replace(/\\/g, '/'),
+    line: line + 1,
+    column: character + 1,
+    text: text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}...` : text,
+  };
+}
+
+function toUsage(index: CodeIndex, reference: Reference): RippleUsage {
+  return { ...toLocation(index, reference.sourceFile, reference.node), kind: classifyUsage(reference.node) };
+}
+
+/**
+ * The declared type of a type or class entity, or the type of a value entity
+ */
+function entityType(checker: ts.TypeChecker, declaration: Declaration): ts.Type {
+  const { symbol, name } = declaration;
+  return symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Class)
+    ? checker.getDeclaredTypeOfSymbol(symbol)
+    : checker.getTypeOfSymbolAtLocation(symbol, name);
+}
+
+/**
+ * The field, prop or parameter a change names. For functions and components
+ * the name is looked up among the parameters first, then the props (the
+ * first parameter's properties).
+ */
+function findMember(checker: ts.TypeChecker, declaration: Declaration, memberName: string): Member {
+  const type = entityType(checker, declaration);
+  const [signature] = type.getCallSignatures();
+
+  if (signature) {
+    const index = signature.parameters.findIndex((p) => p.name === memberName);
+    if (index !== -1) return { kind: 'parameter', index };
+
+    const [props] = signature.parameters;
+    const prop = props && checker.getTypeOfSymbolAtLocation(props, declaration.name).getProperty(memberName);
+    return prop ? { kind: 'property', symbol: prop } : { kind: 'missing' };
+  }
+
+  const property = type.getProperty(memberName);
+  return property ? { kind: 'property', symbol: property } : { kind: 'missing' };
+}
+
+/**
+ * Whether a type is the entity, or a union containing it
+ */
+function isEntityType(type: ts.Type, symbol: ts.Symbol): boolean {
+  if (type.aliasSymbol === symbol || type.getSymbol() === symbol) return true;
+  return type.isUnion() && type.types.some((t) => isEntityType(t, symbol));
+}
+
+/**
+ * Object literals typed as the entity, and classes implementing it, that
+ * don't provide a member
+ */
+function findMissingMember(
+  checker: ts.TypeChecker,
+  sourceFiles: ts.SourceFile[],
+  symbol: ts.Symbol,
+  memberName: string
+): Array<{ sourceFile: ts.SourceFile; node: ts.Node }> {
+  const missing: Array<{ sourceFile: ts.SourceFile; node: ts.Node }> = [];
+
+  for (const sourceFile of sourceFiles) {
+    const visit = (node: ts.Node) => {
+      if (ts.isObjectLiteralExpression(node)) {
+        const contextual = checker.getContextualType(node);
+        if (contextual && isEntityType(contextual, symbol)) {
+          const provided = node.properties.some((p) =>
+            ts.isSpreadAssignment(p)
+              ? !!checker.getTypeAtLocation(p.expression).getProperty(memberName)
+              : p.name !== undefined && ts.isIdentifier(p.name) && p.name.text === memberName
+          );
+          if (!provided) missing.push({ sourceFile, node });
+        }
+      } else if (ts.isClassLike(node)) {
+        const implementsEntity = node.heritageClauses?.some(
+          (clause) =>
+            clause.token === ts.SyntaxKind.ImplementsKeyword &&
+            clause.types.some((t) => isEntityType(checker.getTypeAtLocation(t), symbol))
+        );
+        if (implementsEntity && !checker.getTypeAtLocation(node).getProperty(memberName)) {
+          missing.push({ sourceFile, node: node.name ?? node });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  return missing;
+}
+
+/**
+ * JSX elements of a component that don't pass a prop. Elements spreading
+ * props may pass it and aren't reported.
+ */
+function findMissingProp(references: Reference[], propName: string): Reference[] {
+  return references.filter(({ node }) => {
+    const element = node.parent;
+    if (!(ts.isJsxOpeningElement(element) || ts.isJsxSelfClosingElement(element)) || element.tagName !== node) return false;
+    return !element.attributes.properties.some(
+      (attr) => ts.isJsxSpreadAttribute(attr) || (ts.isIdentifier(attr.name) && attr.name.text === propName)
+    );
+  });
+}
+
+/**
+ * Calls passing fewer arguments than a parameter's position. Calls spreading
+ * arguments may pass it and aren't reported.
+ */
+function findShortCalls(references: Reference[], parameterIndex: number): Array<{ reference: Reference; count: number }> {
+  const calls: Array<{ reference: Reference; count: number }> = [];
+  for (const reference of references) {
+    const call = reference.node.parent;
+    if (!(ts.isCallExpression(call) || ts.isNewExpression(call)) || call.expression !== reference.node) continue;
+
+    const args = call.arguments ?? [];
+    if (args.length <= parameterIndex && !args.some(ts.isSpreadElement)) {
+      calls.push({ reference, count: args.length });
+    }
+  }
+  return calls;
+}
+
+/**
+ * The type annotation a type change replaces: the member's, or for the
+ * entity itself a type alias's type, a variable's annotation or a function's
+ * return type
+ */
+function changedTypeNode(declaration: Declaration, member: Member | null): ts.TypeNode | undefined {
+  if (member?.kind === 'property') {
+    const node = member.symbol.valueDeclaration ?? member.symbol.declarations?.[0];
+    return node && (ts.isPropertySignature(node) || ts.isPropertyDeclaration(node) || ts.isParameter(node)) ? node.type : undefined;
+  }
+
+  let node: ts.Node = declaration.name.parent;
+  if (ts.isVariableDeclaration(node)) {
+    const initializer = node.initializer;
+    // const Button = (props: ...) => ... - the function is what has parameters
+    if (member?.kind === 'parameter' && initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+      node = initializer;
+    } else {
+      return node.type;
+    }
+  }
+  if (member?.kind === 'parameter') {
+    return ts.isFunctionLike(node) ? node.parameters[member.index]?.type : undefined;
+  }
+  if (ts.isTypeAliasDeclaration(node)) return node.type;
+  return ts.isFunctionLike(node) ? node.type : undefined;
+}
+
+function diagnosticKey(diagnostic: ts.Diagnostic, start: number): string {
+  return `${diagnostic.code}:${start}:${ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')}`;
+}
+
+/**
+ * Type errors that appear in the given files once a type annotation is
+ * replaced with another type
+ */
+function findTypeErrors(
+  index: CodeIndex,
+  options: ts.CompilerOptions,
+  typeNode: ts.TypeNode,
+  newType: string,
+  fileNames: string[]
+): Array<{ sourceFile: ts.SourceFile; start: number; message: string }> {
+  const declaringFile = typeNode.getSourceFile();
+  const start = typeNode.getStart(declaringFile);
+  const end = typeNode.getEnd();
+  const shift = newType.length - (end - start);
+
+  const errorsIn = (service: ts.LanguageService, fileName: string) =>
+    service.getSemanticDiagnostics(fileName).filter((d) => d.start !== undefined && d.category === ts.DiagnosticCategory.Error);
+
+  const before = createLanguageService(index, options);
+  const known = new Set(
+    fileNames.flatMap((fileName) =>
+      errorsIn(before, fileName).map((d) => {
+        // Positions after the replaced type move in the changed file
+        const moved = fileName === declaringFile.fileName && d.start! >= end ? d.start! + shift : d.start!;
+        return `${fileName}:${diagnosticKey(d, moved)}`;
+      })
+    )
+  );
+
+  const overrides = new Map([[resolve(declaringFile.fileName), declaringFile.text.slice(0, start) + newType + declaringFile.text.slice(end)]]);
+  const after = createLanguageService(index, options, overrides);
+  const program = after.getProgram();
+  if (!program) return [];
+
+  const errors: Array<{ sourceFile: ts.SourceFile; start: number; message: string }> = [];
+  for (const fileName of fileNames) {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) continue;
+    for (const diagnostic of errorsIn(after, fileName)) {
+      if (known.has(`${fileName}:${diagnosticKey(diagnostic, diagnostic.start!)}`)) continue;
+      errors.push({ sourceFile, start: diagnostic.start!, message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ') });
+    }
+  }
+  return errors;
+}
+
+/**
+ * References, usages and the breakage a change would cause
+ */
+export function analyzeRipple(index: CodeIndex, request: RippleRequest): RippleReport {
+  const report: RippleReport = { declarations: [], usages: [], memberUsages: [], breakages: [], notes: [] };
+  const { entityName, changeType, memberName, newName, required } = request;
+
+  const indexed = new Set(index.listFiles().map((file) => file.path));
+  // Compile with the options of the project that declares the entity
+  const declaringFile =
+    request.filePath ??
+    index
+      .listFiles()
+      .find((file) => file.exports.some((exp) => exp.kind !== 're-export' && (exp.name === entityName || exp.localName === entityName)))
+      ?.path;
+  const options = index.getCompilerOptions(declaringFile ?? index.root);
+  const service = createLanguageService(index, options);
+  const program = service.getProgram();
+  if (!program) return report;
+
+  const declarations = findDeclarations(program, index, request);
+  if (declarations.length === 0) {
+    report.notes.push(`No top-level declaration of \`${entityName}\` was found in the project.`);
+    return report;
+  }
+  if (declarations.length > 1) {
+    report.notes.push(`\`${entityName}\` is declared in ${declarations.length} files - pass filePath to check one of them.`);
+  }
+
+  const checker = program.getTypeChecker();
+  const breakage = (sourceFile: ts.SourceFile, node: ts.Node | number, message: string) =>
+    report.breakages.push({ ...toLocation(index, sourceFile, node), message });
+
+  for (const declaration of declarations) {
+    report.declarations.push(toLocation(index, declaration.sourceFile, declaration.name));
+
+    const references = findReferences(service, program, indexed, declaration.name).filter(
+      (r) => !isSameNode(r, declaration.name)
+    );
+    report.usages.push(...references.map((r) => toUsage(index, r)));
+
+    const member = memberName ? findMember(checker, declaration, memberName) : null;
+    const isCallable = entityType(checker, declaration).getCallSignatures().length > 0;
+    let memberReferences: Reference[] = [];
+    if (member?.kind === 'property') {
+      const memberDeclaration = member.symbol.declarations?.[0] as (ts.Declaration & { name?: ts.Node }) | undefined;
+      if (memberDeclaration?.name && ts.isIdentifier(memberDeclaration.name)) {
+        const memberDeclarationName = memberDeclaration.name;
+        memberReferences = findReferences(service, program, indexed, memberDeclarationName).filter(
+          (r) => !isSameNode(r, memberDeclarationName)
+        );
+        report.memberUsages.push(...memberReferences.map((r) => toUsage(index, r)));
+      }
+    }
+
+    switch (changeType) {
+      case 'renamed':
+        if (memberName) {
+          if (member?.kind !== 'property') {
+            report.notes.push(`\`${entityName}\` has no field or prop \`${memberName}\`.`);
+            break;
+          }
+          for (const r of memberReferences) {
+            breakage(r.sourceFile, r.node, `Uses \`${memberName}\`${newName ? `, renamed to \`${newName}\`` : ', which was renamed'}`);
+          }
+        } else {
+          // Uses through an alias or a default import keep working; only the name itself breaks
+          for (const r of references) {
+            if (r.node.text !== entityName || (ts.isImportClause(r.node.parent) && r.node.parent.name === r.node)) continue;
+            breakage(r.sourceFile, r.node, `Refers to \`${entityName}\`${newName ? `, renamed to \`${newName}\`` : ', which was renamed'}`);
+          }
+        }
+        break;
+
+      case 'removed_field':
+        if (!memberName) {
+          report.notes.push('Pass memberName to find the uses of the removed field.');
+        } else if (member?.kind !== 'property') {
+          report.notes.push(`\`${entityName}\` has no field or prop \`${memberName}\` - if it is already removed, run tsc to find the remaining uses.`);
+        } else {
+          for (const r of memberReferences) {
+            breakage(r.sourceFile, r.node, `Uses \`${memberName}\`, which is removed from \`${entityName}\``);
+          }
+        }
+        break;
+
+      case 'added_field':
+        if (!memberName || !required) {
+          report.notes.push('An optional field breaks nothing. Pass memberName and required: true to find what must provide a required one.');
+          break;
+        }
+        if (isCallable) {
+          for (const r of findMissingProp(references, memberName)) {
+            breakage(r.sourceFile, r.node, `Renders \`<${entityName}>\` without the required prop \`${memberName}\``);
+          }
+        } else {
+          const files = [...new Set([declaration.sourceFile, ...references.map((r) => r.sourceFile)])];
+          for (const { sourceFile, node } of findMissingMember(checker, files, declaration.symbol, memberName)) {
+            breakage(sourceFile, node, `Creates a \`${entityName}\` without the required field \`${memberName}\``);
+          }
+        }
+        break;
+
+      case 'type_changed': {
+        if (!request.newType) {
+          report.notes.push('Pass newType (the new type, as written in code) to find the uses it breaks.');
+          break;
+        }
+        if (member?.kind === 'missing') {
+          report.notes.push(`\`${entityName}\` has no field, prop or parameter \`${memberName}\`.`);
+          break;
+        }
+        const typeNode = changedTypeNode(declaration, member);
+        if (!typeNode) {
+          report.notes.push(`\`${entityName}${memberName ? `.${memberName}` : ''}\` has no type annotation to change.`);
+          break;
+        }
+
+        const files = [
+          ...new Set([declaration.sourceFile.fileName, ...[...references, ...memberReferences].map((r) => r.sourceFile.fileName)]),
+        ];
+        for (const error of findTypeErrors(index, options, typeNode, request.newType, files)) {
+          breakage(error.sourceFile, error.start, `Fails to type-check as \`${request.newType}\`: ${error.message}`);
+        }
+        break;
+      }
+
+      case 'signature_changed':
+        if (member?.kind === 'parameter' && required) {
+          for (const { reference, count } of findShortCalls(references, member.index)) {
+            breakage(
+              reference.sourceFile,
+              reference.node,
+              `Passes ${count} argument${count === 1 ? '' : 's'} - \`${memberName}\` (argument ${member.index + 1}) becomes required`
+            );
+          }
+        } else if (memberName && required && isCallable && member?.kind !== 'parameter') {
+          for (const r of findMissingProp(references, memberName)) {
+            breakage(r.sourceFile, r.node, `Renders \`<${entityName}>\` without \`${memberName}\`, which becomes required`);
+          }
+        } else {
+          for (const r of references) {
+            const kind = classifyUsage(r.node);
+            if (kind === 'call' || kind === 'jsx') breakage(r.sourceFile, r.node, 'Call site must match the new signature');
+          }
+        }
+        break;
+
+      default:
+        if (member?.kind === 'missing') report.notes.push(`\`${entityName}\` has no field, prop or parameter \`${memberName}\`.`);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,800 @@
+import * as ts from 'typescript';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+/**
+ * Drizzle schema changes that are safe to migrate.
+ *
+ * A change is made to schema.ts through the TypeScript AST (columns are found
+ * as pgTable() properties, not by matching text) and comes with the SQL that
+ * migrates the database to match.
+ *
+ * Every change is classified:
+ * - additive: old and new code both run against the new schema
+ * - backfill-required: existing rows need a value before a constraint holds
+ * - destructive: data is lost or can't be converted back
+ *
+ * Non-additive changes get an expand/contract plan - which migration to
+ * apply, which code to deploy in between. Each update_schema call writes
+ * one migration that is safe to apply with the code of the schema it leaves,
+ * so a required column is added nullable first and made required by a later
+ * call once the deployed code writes it. Destructive changes are only made
+ * when confirmed.
+ */
+
+export type ChangeSafety = 'additive' | 'backfill-required' | 'destructive';
+
+export interface ColumnSpec {
+  key: string; // Property name in schema.ts
+  name: string; // Column name in the database
+  type: string; // Column builder: 'uuid', 'varchar', ... or a pgEnum
+  length?: number; // varchar(n)
+  notNull: boolean;
+  primaryKey: boolean;
+  default?: string; // Default modifier as written: "default(false)", "defaultNow()"
+}
+
+export interface SchemaColumn extends ColumnSpec {
+  node: ts.PropertyAssignment;
+  builder: ts.CallExpression; // The column builder call, without modifiers
+}
+
+export interface SchemaTable {
+  exportName: string;
+  name: string;
+  columns: SchemaColumn[];
+  columnsObject: ts.ObjectLiteralExpression;
+  statement: ts.VariableStatement;
+}
+
+export interface DrizzleSchema {
+  sourceFile: ts.SourceFile;
+  tables: SchemaTable[];
+}
+
+export type SchemaChange =
+  | { action: 'create_table'; table: string; columns: ColumnSpec[] }
+  | { action: 'add_column'; table: string; column: ColumnSpec }
+  | { action: 'drop_column'; table: string; column: string }
+  | { action: 'change_type'; table: string; column: string; type: string; length?: number }
+  | { action: 'set_not_null'; table: string; column: string };
+
+export interface MigrationStep {
+  phase: 'expand' | 'backfill' | 'deploy' | 'contract';
+  description: string;
+  now: boolean; // Part of the migration written by this change
+}
+
+export interface SchemaChangePlan {
+  description: string;
+  safety: ChangeSafety;
+  steps: MigrationStep[];
+  statements: string[]; // The migration written by this change
+  edited: SchemaChange; // The schema edit to make - may be the expand step of the request
+  alternative?: MigrationStep[]; // A slower route that keeps the old column until the new one is in use
+  requiresConfirmation: boolean;
+  needsBackfill: boolean; // Existing rows need a value: pass a backfill SQL expression
+}
+
+export const COLUMN_TYPES: Record<string, string> = {
+  uuid: 'uuid',
+  text: 'text',
+  varchar: 'varchar',
+  boolean: 'boolean',
+  integer: 'integer',
+  smallint: 'smallint',
+  bigint: 'bigint',
+  serial: 'serial',
+  real: 'real',
+  doublePrecision: 'double precision',
+  numeric: 'numeric',
+  timestamp: 'timestamp',
+  date: 'date',
+  json: 'json',
+  jsonb: 'jsonb',
+};
+
+// Words in a request for each column builder
+const TYPE_WORDS: Record<string, string> = {
+  uuid: 'uuid',
+  text: 'text',
+  string: 'text',
+  varchar: 'varchar',
+  boolean: 'boolean',
+  bool: 'boolean',
+  integer: 'integer',
+  int: 'integer',
+  number: 'integer',
+  smallint: 'smallint',
+  bigint: 'bigint',
+  serial: 'serial',
+  real: 'real',
+  float: 'doublePrecision',
+  double: 'doublePrecision',
+  decimal: 'numeric',
+  numeric: 'numeric',
+  timestamp: 'timestamp',
+  datetime: 'timestamp',
+  date: 'date',
+  json: 'json',
+  jsonb: 'jsonb',
+};
+
+// Conversions that keep every value and every reader working
+const WIDENINGS: Record<string, string[]> = {
+  varchar: ['text'],
+  smallint: ['integer', 'bigint'],
+  integer: ['bigint'],
+  real: ['doublePrecision'],
+  json: ['jsonb'],
+};
+
+const PG_CORE = 'drizzle-orm/pg-core';
+
+export function toSnakeCase(str: string): string {
+  return str.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '');
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * A column type from a request's wording, e.g. "varchar", "int", "bool"
+ */
+export function parseColumnType(word: string): string | null {
+  return TYPE_WORDS[word.toLowerCase()] ?? null;
+}
+
+/**
+ * Column type guessed from a field's name and the words describing it
+ */
+function inferColumnType(name: string, description: string): string {
+  const words = description.toLowerCase().split(/[^a-z0-9]+/);
+  for (const word of words) {
+    const type = parseColumnType(word);
+    if (type) return type;
+  }
+
+  if (name.endsWith('Id') || name.endsWith('_id')) return 'uuid';
+  if (/^(is|has|can)[A-Z_]/.test(name)) return 'boolean';
+  if (name.endsWith('At') || name.endsWith('_at') || /date/i.test(name)) return 'timestamp';
+  if (/count|num/i.test(name)) return 'integer';
+  return 'text';
+}
+
+/**
+ * A column as update_schema adds it: ids are random uuid primary keys,
+ * booleans default to false and createdAt/updatedAt default to now
+ */
+function columnSpec(key: string, type: string, options: { length?: number; notNull?: boolean; default?: string } = {}): ColumnSpec {
+  const spec: ColumnSpec = { key, name: toSnakeCase(key), type, notNull: options.notNull ?? false, primaryKey: false };
+  if (options.length) spec.length = options.length;
+
+  if (key === 'id' && type === 'uuid') {
+    spec.primaryKey = true;
+    spec.notNull = true;
+    spec.default = 'defaultRandom()';
+  } else if (options.default !== undefined) {
+    spec.default = `default(${options.default})`;
+  } else if (type === 'boolean') {
+    spec.default = 'default(false)';
+  } else if (type === 'timestamp' && /^(created|updated)(At|_at)$/.test(key)) {
+    spec.default = 'defaultNow()';
+  }
+
+  return spec;
+}
+
+function parseFields(fieldsStr: string): ColumnSpec[] {
+  const fields: ColumnSpec[] = [];
+
+  // Split by "and" or ","
+  const parts = fieldsStr.split(/,|\band\b/).map((s) => s.trim()).filter(Boolean);
+
+  for (const part of parts) {
+    const words = part.split(/\s+/);
+    let name = words[0].replace(/[^a-zA-Z0-9_]/g, '');
+
+    // Skip common filler words
+    if (['a', 'an', 'the', 'field', 'fields', 'column', 'columns', 'with'].includes(name.toLowerCase())) {
+      name = words[1]?.replace(/[^a-zA-Z0-9_]/g, '') || '';
+    }
+
+    if (!name || fields.some((f) => f.key === name)) continue;
+
+    const length = part.match(/\((\d+)\)/);
+    fields.push(columnSpec(name, inferColumnType(name, words.slice(1).join(' ')), {
+      length: length ? Number(length[1]) : undefined,
+      notNull: /\b(required|not null)\b/i.test(part),
+    }));
+  }
+
+  // Add default fields if creating a new table
+  if (!fields.some((f) => f.key === 'id')) {
+    fields.unshift(columnSpec('id', 'uuid'));
+  }
+  if (!fields.some((f) => f.key === 'createdAt' || f.key === 'created_at')) {
+    fields.push(columnSpec('createdAt', 'timestamp'));
+  }
+
+  return fields;
+}
+
+/**
+ * A schema change from a natural language request, or null when the request
+ * isn't one update_schema understands
+ */
+export function parseSchemaRequest(request: string): SchemaChange | null {
+  const text = request.trim();
+  const table = String.raw`(?:the\s+)?(\w+)(?:\s+table)?`;
+  const column = String.raw`(?:the\s+)?(\w+)(?:\s+(?:field|column))?`;
+
+  // "remove the legacyId column from users"
+  const drop = text.match(new RegExp(String.raw`^(?:remove|drop|delete)\s+${column}\s+from\s+${table}$`, 'i'));
+  if (drop) return { action: 'drop_column', table: drop[2], column: drop[1] };
+
+  // "make email in users required"
+  const required = text.match(new RegExp(String.raw`^make\s+${column}\s+(?:in|on|of)\s+${table}\s+(?:required|not\s+null)$`, 'i'));
+  if (required) return { action: 'set_not_null', table: required[2], column: required[1] };
+
+  // "change title in posts to varchar(100)", "change posts.title to text"
+  const newType = String.raw`(?:to|into)\s+(?:an?\s+)?(\w+)\s*(?:\(\s*(\d+)\s*\))?$`;
+  const changeIn = text.match(new RegExp(String.raw`^(?:change|alter|make)\s+${column}\s+(?:in|on|of)\s+${table}\s+${newType}`, 'i'));
+  const changeDotted = text.match(new RegExp(String.raw`^(?:change|alter)\s+(\w+)\.(\w+)\s+${newType}`, 'i'));
+  const change = changeIn
+    ? { column: changeIn[1], table: changeIn[2], type: changeIn[3], length: changeIn[4] }
+    : changeDotted
+      ? { table: changeDotted[1], column: changeDotted[2], type: changeDotted[3], length: changeDotted[4] }
+      : null;
+  if (change) {
+    const type = parseColumnType(change.type);
+    if (!type) return null;
+    return { action: 'change_type', table: change.table, column: change.column, type, length: change.length ? Number(change.length) : undefined };
+  }
+
+  // Create table pattern: "add/create a X table with Y, Z fields"
+  const create = text.match(/^(?:add|create)\s+(?:a\s+|an\s+)?(\w+)\s+table(?:\s+(?:with\s+)?(.+))?$/i);
+  if (create) {
+    return { action: 'create_table', table: create[1], columns: parseFields(create[2] ?? '') };
+  }
+
+  // Add field: "add required status text default 'pending' to orders"
+  const notNull = /\b(required|not\s+null)\b/i.test(text);
+  const defaultValue = text.match(/\bdefault(?:ing)?\s+(?:to\s+)?('[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|true|false)/i)?.[1];
+  const plain = text
+    .replace(/\bdefault(?:ing)?\s+(?:to\s+)?('[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|true|false)/i, '')
+    .replace(/\b(required|not\s+null|optional|nullable)\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const add = plain.match(new RegExp(String.raw`^add\s+(?:an?\s+)?(\w+)\s+(?:(\w+)\s*(?:\(\s*(\d+)\s*\))?\s+)?(?:field\s+|column\s+)?(?:to|on)\s+${table}$`, 'i'));
+  if (add) {
+    const [, key, typeWord, length, tableName] = add;
+    const type = typeWord && !['field', 'column'].includes(typeWord.toLowerCase()) ? parseColumnType(typeWord) : inferColumnType(key, '');
+    if (!type) return null;
+
+    return {
+      action: 'add_column',
+      table: tableName,
+      column: columnSpec(key, type, {
+        length: length ? Number(length) : undefined,
+        notNull,
+        default: defaultValue?.replace(/^"(.*)"$/, "'$1'"),
+      }),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * A column's property in pgTable(), split into its builder call and modifiers
+ */
+function readColumn(property: ts.PropertyAssignment): SchemaColumn | null {
+  const key = ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) ? property.name.text : null;
+  if (!key) return null;
+
+  const modifiers: ts.CallExpression[] = [];
+  let expression: ts.Expression = property.initializer;
+  while (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression)) {
+    modifiers.unshift(expression);
+    expression = expression.expression.expression;
+  }
+  if (!ts.isCallExpression(expression) || !ts.isIdentifier(expression.expression)) return null;
+
+  const builder = expression;
+  const builderName = expression.expression.text;
+  const [first] = builder.arguments;
+  const options = builder.arguments.find(ts.isObjectLiteralExpression);
+  const lengthOption = options?.properties.find(
+    (p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === 'length'
+  );
+
+  const column: SchemaColumn = {
+    key,
+    name: first && ts.isStringLiteralLike(first) ? first.text : key,
+    type: builderName,
+    notNull: false,
+    primaryKey: false,
+    node: property,
+    builder,
+  };
+  if (lengthOption && ts.isNumericLiteral(lengthOption.initializer)) column.length = Number(lengthOption.initializer.text);
+
+  for (const call of modifiers) {
+    const name = (call.expression as ts.PropertyAccessExpression).name.text;
+    if (name === 'notNull') column.notNull = true;
+    if (name === 'primaryKey') {
+      column.primaryKey = true;
+      column.notNull = true;
+    }
+    if (name === 'default' || name === 'defaultNow' || name === 'defaultRandom') {
+      column.default = `${name}(${call.arguments.map((a) => a.getText()).join(', ')})`;
+    }
+  }
+
+  return column;
+}
+
+/**
+ * The pgTable() tables a schema file exports
+ */
+export function readDrizzleSchema(content: string, fileName = 'schema.ts'): DrizzleSchema {
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const tables: SchemaTable[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+
+    for (const declaration of statement.declarationList.declarations) {
+      const init = declaration.initializer;
+      if (!ts.isIdentifier(declaration.name) || !init || !ts.isCallExpression(init)) continue;
+      if (!ts.isIdentifier(init.expression) || init.expression.text !== 'pgTable') continue;
+
+      const [nameArg, columnsArg] = init.arguments;
+      if (!nameArg || !ts.isStringLiteralLike(nameArg) || !columnsArg || !ts.isObjectLiteralExpression(columnsArg)) continue;
+
+      const columns = columnsArg.properties
+        .filter(ts.isPropertyAssignment)
+        .map(readColumn)
+        .filter((c): c is SchemaColumn => c !== null);
+
+      tables.push({ exportName: declaration.name.text, name: nameArg.text, columns, columnsObject: columnsArg, statement });
+    }
+  }
+
+  return { sourceFile, tables };
+}
+
+/**
+ * A table by its export name or its database name
+ */
+export function findTable(schema: DrizzleSchema, name: string): SchemaTable | null {
+  const lower = name.toLowerCase();
+  return (
+    schema.tables.find((t) => t.exportName === name || t.name === name) ??
+    schema.tables.find((t) => t.exportName.toLowerCase() === lower || t.name === toSnakeCase(name)) ??
+    null
+  );
+}
+
+function findColumn(table: SchemaTable, name: string): SchemaColumn | null {
+  return table.columns.find((c) => c.key === name || c.name === name) ?? table.columns.find((c) => c.name === toSnakeCase(name)) ?? null;
+}
+
+function sqlType(type: string, length?: number): string {
+  const base = COLUMN_TYPES[type] ?? type;
+  return type === 'varchar' && length ? `varchar(${length})` : base;
+}
+
+/**
+ * The database default of a default modifier, or null for defaults the
+ * database doesn't know about
+ */
+function defaultSql(modifier: string | undefined): string | null {
+  if (!modifier) return null;
+  if (modifier === 'defaultNow()') return 'now()';
+  if (modifier === 'defaultRandom()') return 'gen_random_uuid()';
+
+  const value = modifier.match(/^default\(([\s\S]*)\)$/)?.[1].trim();
+  if (value === undefined) return null;
+  if (/^(true|false|-?\d+(\.\d+)?)$/.test(value)) return value;
+  const string = value.match(/^(['"`])([\s\S]*)\1$/);
+  if (string) return `'${string[2].replace(/'/g, "''")}'`;
+  const raw = value.match(/^sql`([\s\S]*)`$/);
+  return raw ? raw[1] : null;
+}
+
+function columnSql(column: ColumnSpec, options: { notNull?: boolean } = {}): string {
+  const parts = [quote(column.name), sqlType(column.type, column.length)];
+  if (column.primaryKey) parts.push('PRIMARY KEY');
+  const defaultValue = defaultSql(column.default);
+  if (defaultValue) parts.push(`DEFAULT ${defaultValue}`);
+  if (options.notNull ?? column.notNull) parts.push('NOT NULL');
+  return parts.join(' ');
+}
+
+/**
+ * A column's builder call and modifiers as schema.ts code
+ */
+function builderCode(column: Pick<ColumnSpec, 'name' | 'type' | 'length'>): string {
+  const name = `'${column.name}'`;
+  if (column.type === 'varchar' && column.length) return `varchar(${name}, { length: ${column.length} })`;
+  if (column.type === 'bigint') return `bigint(${name}, { mode: 'number' })`;
+  return `${column.type}(${name})`;
+}
+
+export function columnCode(column: ColumnSpec): string {
+  let code = `${column.key}: ${builderCode(column)}`;
+  if (column.default) code += `.${column.default}`;
+  if (column.primaryKey) code += '.primaryKey()';
+  else if (column.notNull) code += '.notNull()';
+  return code;
+}
+
+function tableCode(exportName: string, columns: ColumnSpec[]): string {
+  return `export const ${exportName} = pgTable('${toSnakeCase(exportName)}', {\n${columns.map((c) => `  ${columnCode(c)},`).join('\n')}\n});`;
+}
+
+function isWidening(from: SchemaColumn, to: { type: string; length?: number }): boolean {
+  if (from.type === to.type) {
+    // varchar(n) -> varchar(m >= n), or unbounded
+    return from.type !== 'varchar' || !to.length || (!!from.length && to.length >= from.length);
+  }
+  return WIDENINGS[from.type]?.includes(to.type) ?? false;
+}
+
+/**
+ * What a change does to the database, whether it is safe, and the migration
+ * that makes it
+ * @param backfill - SQL expression for existing rows, for changes that need one
+ * @throws Error when the change doesn't fit the schema
+ */
+export function planSchemaChange(schema: DrizzleSchema, change: SchemaChange, backfill?: string): SchemaChangePlan {
+  if (change.action === 'create_table') {
+    if (findTable(schema, change.table)) throw new Error(`Table "${change.table}" already exists in the schema`);
+    const name = toSnakeCase(change.table);
+    return {
+      description: `Create "${name}" table with ${change.columns.length} columns`,
+      safety: 'additive',
+      steps: [{ phase: 'expand', description: `Create table "${name}"`, now: true }],
+      statements: [`CREATE TABLE IF NOT EXISTS ${quote(name)} (\n${change.columns.map((c) => `\t${columnSql(c)}`).join(',\n')}\n);`],
+      edited: change,
+      requiresConfirmation: false,
+      needsBackfill: false,
+    };
+  }
+
+  const table = findTable(schema, change.table);
+  if (!table) throw new Error(`Could not find table "${change.table}" in the schema`);
+  const target = quote(table.name);
+
+  if (change.action === 'add_column') {
+    if (findColumn(table, change.column.key)) throw new Error(`Table "${table.name}" already has a "${change.column.key}" column`);
+    const column = change.column;
+    const name = quote(column.name);
+
+    if (!column.notNull || defaultSql(column.default) !== null) {
+      return {
+        description: `Add "${column.name}" to "${table.name}"`,
+        safety: 'additive',
+        steps: [{ phase: 'expand', description: `Add column ${name}${column.notNull ? ' with a default' : ' (nullable)'}`, now: true }],
+        statements: [`ALTER TABLE ${target} ADD COLUMN ${columnSql(column)};`],
+        edited: change,
+        requiresConfirmation: false,
+        needsBackfill: false,
+      };
+    }
+
+    // Old code inserting rows without the column would fail once it is required
+    return {
+      description: `Add required "${column.name}" to "${table.name}"`,
+      safety: 'backfill-required',
+      steps: [
+        { phase: 'expand', description: `Add column ${name} as nullable`, now: true },
+        { phase: 'deploy', description: `Deploy code that writes "${column.key}" on every insert`, now: false },
+        { phase: 'backfill', description: `Fill "${column.name}" on existing rows`, now: false },
+        {
+          phase: 'contract',
+          description: `Make it required: update_schema "make ${column.key} in ${table.exportName} required" with a backfill value`,
+          now: false,
+        },
+      ],
+      statements: [`ALTER TABLE ${target} ADD COLUMN ${columnSql(column, { notNull: false })};`],
+      edited: { ...change, column: { ...column, notNull: false } },
+      requiresConfirmation: false,
+      needsBackfill: false,
+    };
+  }
+
+  const column = findColumn(table, change.column);
+  if (!column) throw new Error(`Table "${table.name}" has no "${change.column}" column`);
+  const name = quote(column.name);
+
+  if (change.action === 'set_not_null') {
+    if (column.notNull) throw new Error(`"${table.name}"."${column.name}" is already required`);
+    return {
+      description: `Make "${column.name}" in "${table.name}" required`,
+      safety: 'backfill-required',
+      steps: [
+        { phase: 'deploy', description: `Code writing "${column.key}" on every insert must already be deployed`, now: false },
+        { phase: 'backfill', description: `Set ${name} to ${backfill ?? '<backfill>'} where it is null`, now: true },
+        { phase: 'contract', description: `Add NOT NULL to ${name}`, now: true },
+      ],
+      statements: backfill
+        ? [
+            `UPDATE ${target} SET ${name} = ${backfill} WHERE ${name} IS NULL;`,
+            `ALTER TABLE ${target} ALTER COLUMN ${name} SET NOT NULL;`,
+          ]
+        : [],
+      edited: change,
+      requiresConfirmation: false,
+      needsBackfill: !backfill,
+    };
+  }
+
+  if (change.action === 'drop_column') {
+    if (column.primaryKey) throw new Error(`"${table.name}"."${column.name}" is the primary key`);
+    return {
+      description: `Drop "${column.name}" from "${table.name}"`,
+      safety: 'destructive',
+      steps: [
+        { phase: 'deploy', description: `Remove every read and write of "${column.key}" (ripple_check finds them) and deploy`, now: false },
+        { phase: 'contract', description: `Drop column ${name} - its data is deleted`, now: true },
+      ],
+      statements: [`ALTER TABLE ${target} DROP COLUMN ${name};`],
+      edited: change,
+      requiresConfirmation: true,
+      needsBackfill: false,
+    };
+  }
+
+  // change_type
+  const type = sqlType(change.type, change.length);
+  if (type === sqlType(column.type, column.length)) throw new Error(`"${table.name}"."${column.name}" is already ${type}`);
+  const alter = `ALTER TABLE ${target} ALTER COLUMN ${name} SET DATA TYPE ${type} USING ${name}::${type};`;
+
+  if (isWidening(column, change)) {
+    return {
+      description: `Widen "${column.name}" in "${table.name}" to ${type}`,
+      safety: 'additive',
+      steps: [{ phase: 'expand', description: `Change ${name} to ${type} - every existing value fits`, now: true }],
+      statements: [alter],
+      edited: change,
+      requiresConfirmation: false,
+      needsBackfill: false,
+    };
+  }
+
+  // Narrowing in place; the plan spells out the zero-downtime route
+  const shadow = quote(`${column.name}_new`);
+  return {
+    description: `Change "${column.name}" in "${table.name}" from ${sqlType(column.type, column.length)} to ${type}`,
+    safety: 'destructive',
+    steps: [
+      { phase: 'deploy', description: `Deploy code that only writes values that fit ${type}`, now: false },
+      { phase: 'contract', description: `Convert ${name} in place - values that don't fit ${type} fail the migration or are truncated`, now: true },
+    ],
+    alternative: [
+      { phase: 'expand', description: `Add ${shadow} ${type} and deploy code writing both columns`, now: false },
+      { phase: 'backfill', description: `Copy ${name}::${type} into ${shadow}, fixing values that don't convert`, now: false },
+      { phase: 'deploy', description: `Deploy code reading ${shadow}`, now: false },
+      { phase: 'contract', description: `Drop ${name} and rename ${shadow} to ${name}`, now: false },
+    ],
+    statements: [alter],
+    edited: change,
+    requiresConfirmation: true,
+    needsBackfill: false,
+  };
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+  let result = content;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+function lineStart(content: string, position: number): number {
+  return content.lastIndexOf('\n', position - 1) + 1;
+}
+
+/**
+ * Adds column builders missing from the drizzle-orm/pg-core import
+ */
+function importEdits(schema: DrizzleSchema, names: string[]): TextEdit[] {
+  const { sourceFile } = schema;
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const pgCore = imports.find((i) => ts.isStringLiteral(i.moduleSpecifier) && i.moduleSpecifier.text === PG_CORE);
+  const bindings = pgCore?.importClause?.namedBindings;
+
+  const imported = new Set(bindings && ts.isNamedImports(bindings) ? bindings.elements.map((e) => e.name.text) : []);
+  const missing = [...new Set(names)].filter((n) => !imported.has(n));
+  if (missing.length === 0) return [];
+
+  if (bindings && ts.isNamedImports(bindings) && bindings.elements.length > 0) {
+    const last = bindings.elements[bindings.elements.length - 1];
+    return [{ start: last.getEnd(), end: last.getEnd(), text: `, ${missing.join(', ')}` }];
+  }
+
+  const after = imports.length > 0 ? imports[imports.length - 1].getEnd() : 0;
+  const statement = `import { ${missing.join(', ')} } from '${PG_CORE}';`;
+  return [{ start: after, end: after, text: after > 0 ? `\n${statement}` : `${statement}\n` }];
+}
+
+/**
+ * Inserts a property at the end of an object literal, in its indentation
+ */
+function appendProperty(content: string, object: ts.ObjectLiteralExpression, code: string): TextEdit {
+  const properties = object.properties;
+  if (properties.length === 0) {
+    const open = object.getStart() + 1;
+    return { start: open, end: open, text: `\n  ${code},\n` };
+  }
+
+  const first = properties[0];
+  const last = properties[properties.length - 1];
+  const firstStart = first.getStart();
+  const indent = content.slice(lineStart(content, firstStart), firstStart);
+  const multiline = /^\s*$/.test(indent);
+
+  if (properties.hasTrailingComma) {
+    const comma = content.indexOf(',', last.getEnd()) + 1;
+    return { start: comma, end: comma, text: multiline ? `\n${indent}${code},` : ` ${code},` };
+  }
+  return { start: last.getEnd(), end: last.getEnd(), text: multiline ? `,\n${indent}${code}` : `, ${code}` };
+}
+
+/**
+ * Removes a property with its comments, comma and line
+ */
+function removeProperty(content: string, property: ts.ObjectLiteralElement): TextEdit {
+  const comments = ts.getLeadingCommentRanges(content, property.getFullStart()) ?? [];
+  let start = comments[0]?.pos ?? property.getStart();
+  const lineBegin = lineStart(content, start);
+  if (/^\s*$/.test(content.slice(lineBegin, start))) start = lineBegin;
+
+  let end = property.getEnd();
+  const comma = content.slice(end).match(/^\s*,/);
+  if (comma) end += comma[0].length;
+  const rest = content.slice(end).match(/^[ \t]*(\/\/[^\n]*)?\r?\n/);
+  if (rest && start === lineBegin) end += rest[0].length;
+
+  return { start, end, text: '' };
+}
+
+/**
+ * schema.ts with a change made
+ */
+export function applySchemaChange(content: string, schema: DrizzleSchema, change: SchemaChange): string {
+  if (change.action === 'create_table') {
+    const lastTable = schema.tables[schema.tables.length - 1]?.statement;
+    const position = lastTable ? lastTable.getEnd() : content.trimEnd().length;
+    return applyEdits(content, [
+      { start: position, end: position, text: `\n\n${tableCode(change.table, change.columns)}` },
+      ...importEdits(schema, ['pgTable', ...change.columns.map((c) => c.type)]),
+    ]);
+  }
+
+  const table = findTable(schema, change.table);
+  if (!table) throw new Error(`Could not find table "${change.table}" in the schema`);
+
+  if (change.action === 'add_column') {
+    return applyEdits(content, [
+      appendProperty(content, table.columnsObject, columnCode(change.column)),
+      ...importEdits(schema, [change.column.type]),
+    ]);
+  }
+
+  const column = findColumn(table, change.column);
+  if (!column) throw new Error(`Table "${table.name}" has no "${change.column}" column`);
+
+  switch (change.action) {
+    case 'drop_column':
+      return applyEdits(content, [removeProperty(content, column.node)]);
+
+    case 'set_not_null': {
+      const end = column.node.initializer.getEnd();
+      return applyEdits(content, [{ start: end, end, text: '.notNull()' }]);
+    }
+
+    case 'change_type':
+      return applyEdits(content, [
+        {
+          start: column.builder.getStart(),
+          end: column.builder.getEnd(),
+          text: builderCode({ name: column.name, type: change.type, length: change.length }),
+        },
+        ...importEdits(schema, [change.type]),
+      ]);
+  }
+}
+
+/**
+ * A migration name from a change, like drizzle-kit's: add-status-to-orders
+ */
+export function migrationName(change: SchemaChange): string {
+  let words: string[];
+  switch (change.action) {
+    case 'create_table':
+      words = ['create', change.table];
+      break;
+    case 'add_column':
+      words = ['add', change.column.key, 'to', change.table];
+      break;
+    case 'drop_column':
+      words = ['drop', change.column, 'from', change.table];
+      break;
+    case 'set_not_null':
+      words = ['require', change.column, 'in', change.table];
+      break;
+    case 'change_type':
+      words = ['change', change.column, 'in', change.table, 'to', change.type];
+  }
+  return words.map((w) => toSnakeCase(w).replace(/_/g, '-')).join('-');
+}
+
+/**
+ * SQL of a migration file, in drizzle-kit's format
+ */
+export function formatMigration(statements: string[]): string {
+  return statements.join('--> statement-breakpoint\n') + '\n';
+}
+
+/**
+ * The migrations folder from drizzle.config's `out`, or drizzle-kit's default
+ */
+export function findMigrationsFolder(cwd: string): string {
+  for (const file of ['drizzle.config.ts', 'drizzle.config.js', 'drizzle.config.mjs', 'drizzle.config.json']) {
+    const path = join(cwd, file);
+    if (!existsSync(path)) continue;
+    const out = readFileSync(path, 'utf-8').match(/["']?out["']?\s*:\s*["'`]([^"'`]+)["'`]/);
+    if (out) return resolve(cwd, out[1]);
+  }
+  return resolve(cwd, 'drizzle');
+}
+
+/**
+ * Write a migration file with the next number, and add it to drizzle-kit's
+ * journal when there is one
+ * @returns the file written
+ */
+export function writeMigration(folder: string, name: string, sql: string): string {
+  mkdirSync(folder, { recursive: true });
+
+  const journalPath = join(folder, 'meta', '_journal.json');
+  const journal = existsSync(journalPath)
+    ? (JSON.parse(readFileSync(journalPath, 'utf-8')) as { entries: Array<{ idx: number; version: string; when: number; tag: string; breakpoints: boolean }> })
+    : null;
+
+  const numbers = readdirSync(folder)
+    .map((f) => f.match(/^(\d+)_.*\.sql$/)?.[1])
+    .filter((n): n is string => n !== undefined)
+    .map(Number);
+  const idx = Math.max(-1, ...numbers, ...(journal?.entries.map((e) => e.idx) ?? [])) + 1;
+  const tag = `${String(idx).padStart(4, '0')}_${name}`;
+
+  const file = join(folder, `${tag}.sql`);
+  writeFileSync(file, sql);
+
+  if (journal) {
+    journal.entries.push({
+      idx,
+      version: journal.entries[journal.entries.length - 1]?.version ?? '7',
+      when: Date.now(),
+      tag,
+      breakpoints: true,
+    });
+    writeFileSync(journalPath, JSON.stringify(journal, null, 2));
+  }
+
+  return file;
+}
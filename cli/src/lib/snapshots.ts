@@ -0,0 +1,517 @@
+import chalk from 'chalk';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { getApiKey, getApiUrl } from '../config.js';
+import { createApiError, createProjectHash, getOrCreateProject, syncProjectData } from './api.js';
+
+/**
+ * Project snapshots with real file contents.
+ *
+ * Files are content-addressed: the server stores each distinct file once per
+ * project, so a snapshot only uploads the files it has never seen. Restores
+ * are planned against the working tree and shown as a diff before any file
+ * is written. Files the project's .gitignore files exclude are left out, and
+ * so are secrets even when git tracks them. Keep the path rules in sync with
+ * the server (src/lib/project-snapshots.ts).
+ */
+
+export interface SnapshotEntry {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+export interface RestoreFile extends SnapshotEntry {
+  status: 'modified' | 'added';
+}
+
+export interface RestorePlan {
+  write: RestoreFile[]; // Files to write from the snapshot
+  remove: string[]; // Files not in the snapshot (whole-tree restores only)
+  unchanged: number;
+}
+
+export interface SnapshotFileContent extends SnapshotEntry {
+  content: string;
+  encoding: 'utf8' | 'base64';
+}
+
+export interface PendingRestore {
+  id: string;
+  snapshotId: string;
+  paths: string[] | null;
+  requestedAt: string;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  snapshotName: string;
+  fileCount: number | null;
+  createdAt: string;
+}
+
+// Matches the server's SNAPSHOT_LIMITS
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Encoded bytes per upload request
+const UPLOAD_BATCH_BYTES = 4 * 1024 * 1024;
+
+// Changed lines shown per file before the rest are summarised
+const MAX_DIFF_LINES = 40;
+
+// Dependencies, build output and caches - restorable from the project itself
+const IGNORED_DIRS = new Set([
+  'node_modules', '.git', '.next', '.nuxt', '.turbo', '.vercel', '.cache',
+  'dist', 'build', 'out', 'coverage',
+]);
+
+// Secrets never leave the machine - checked before .gitignore, so no negation
+// pattern can bring them back
+const SECRET_FILES = [
+  /^\.env(\..*)?$/,
+  /^\.(npmrc|yarnrc\.yml|pypirc|netrc|pgpass|htpasswd)$/,
+  /\.(pem|key|p12|pfx|jks|keystore|gpg)$/,
+  /^id_(rsa|dsa|ecdsa|ed25519)$/,
+  /(^|[-_.])(credentials?|secrets?)([-_.].*)?\.(json|ya?ml|toml)$/i,
+  /^(service[-_]?account|client[-_]secret|gcloud|firebase[-_]adminsdk).*\.json$/i,
+];
+
+// Noise that is never worth restoring
+const IGNORED_FILES = [/\.log$/, /^\.DS_Store$/];
+
+export interface GitignoreRule {
+  base: string; // Directory of the .gitignore, relative to the project ('' for the root)
+  pattern: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * A project-relative path with forward slashes, or null for paths that
+ * could escape the project (absolute, drive letters, "..")
+ */
+export function normalizeSnapshotPath(path: string): string | null {
+  const normalized = path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  if (!normalized || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) return null;
+
+  const segments = normalized.split('/');
+  if (segments.some((s) => s === '' || s === '.' || s === '..')) return null;
+
+  return normalized;
+}
+
+export function hashContent(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Whether a file should be sent as base64 - it has NUL bytes or isn't UTF-8
+ */
+export function isBinary(bytes: Buffer): boolean {
+  if (bytes.subarray(0, 8000).includes(0)) return true;
+  return Buffer.from(bytes.toString('utf-8'), 'utf-8').compare(bytes) !== 0;
+}
+
+export function isSecretFile(path: string): boolean {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return SECRET_FILES.some((pattern) => pattern.test(name));
+}
+
+export function isSnapshotIgnored(path: string): boolean {
+  const segments = path.split('/');
+  if (segments.slice(0, -1).some((s) => IGNORED_DIRS.has(s))) return true;
+  const name = segments[segments.length - 1];
+  return isSecretFile(name) || IGNORED_FILES.some((pattern) => pattern.test(name));
+}
+
+function globToRegExp(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories, a trailing "**" everything below
+      if (glob[i + 2] === '/') {
+        out += '(?:.*/)?';
+        i += 2;
+      } else {
+        out += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      out += '[^/]*';
+    } else if (char === '?') {
+      out += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        out += '\\[';
+      } else {
+        out += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      out += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      out += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return out;
+}
+
+/**
+ * Rules from one .gitignore file (the common subset of gitignore syntax:
+ * comments, "!" negation, "/" anchoring, trailing "/" for directories, "*",
+ * "**", "?" and character classes)
+ * @param base - Directory holding the file, relative to the project
+ */
+export function parseGitignore(content: string, base = ''): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    const prefix = anchored ? '' : '(?:.*/)?';
+    rules.push({ base, pattern: new RegExp(`^${prefix}${globToRegExp(line)}$`), negate, dirOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether .gitignore rules exclude a path. Later rules win, as in git.
+ */
+export function isGitignored(path: string, isDirectory: boolean, rules: GitignoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.base && !path.startsWith(rule.base + '/')) continue;
+
+    const local = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.pattern.test(local)) ignored = !rule.negate;
+  }
+
+  return ignored;
+}
+
+/**
+ * Every file a snapshot of the project holds: everything but dependencies,
+ * build output, secrets, gitignored files and files over 1MB
+ */
+export function collectSnapshotFiles(cwd: string): SnapshotEntry[] {
+  const files: SnapshotEntry[] = [];
+
+  const walk = (dir: string, inherited: GitignoreRule[]) => {
+    const base = relative(cwd, dir).split(sep).join('/');
+    const gitignorePath = join(dir, '.gitignore');
+    const rules = existsSync(gitignorePath)
+      ? [...inherited, ...parseGitignore(readFileSync(gitignorePath, 'utf-8'), base)]
+      : inherited;
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = join(dir, entry.name);
+      const path = relative(cwd, fullPath).split(sep).join('/');
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name) && !isGitignored(path, true, rules)) walk(fullPath, rules);
+        continue;
+      }
+      if (!entry.isFile() || isSnapshotIgnored(path) || isGitignored(path, false, rules)) continue;
+
+      const size = statSync(fullPath).size;
+      if (size > MAX_FILE_BYTES) continue;
+
+      files.push({ path, hash: hashContent(readFileSync(fullPath)), size });
+    }
+  };
+
+  walk(cwd, []);
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * What restoring a snapshot would change in the working tree
+ * @param paths - Files to restore, or null to restore the whole tree (which
+ *   also removes files the snapshot doesn't have)
+ */
+export function planRestore(snapshot: SnapshotEntry[], local: SnapshotEntry[], paths: string[] | null): RestorePlan {
+  const localByPath = new Map(local.map((f) => [f.path, f]));
+  const wanted = paths ? new Set(paths) : null;
+  const plan: RestorePlan = { write: [], remove: [], unchanged: 0 };
+
+  for (const file of snapshot) {
+    if (wanted && !wanted.has(file.path)) continue;
+
+    const current = localByPath.get(file.path);
+    if (!current) {
+      plan.write.push({ ...file, status: 'added' });
+    } else if (current.hash !== file.hash) {
+      plan.write.push({ ...file, status: 'modified' });
+    } else {
+      plan.unchanged++;
+    }
+  }
+
+  if (!wanted) {
+    const inSnapshot = new Set(snapshot.map((f) => f.path));
+    plan.remove = local.filter((f) => !inSnapshot.has(f.path)).map((f) => f.path);
+  }
+
+  return plan;
+}
+
+/**
+ * Changed lines between two versions of a file (longest common subsequence),
+ * marked "+" or "-" with the line number they appear at
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // Too large to compare line by line - report it replaced
+  if (a.length * b.length > 4_000_000) {
+    return [`- ${a.length} lines`, `+ ${b.length} lines`];
+  }
+
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push(`- ${i + 1}: ${a[i]}`);
+      i++;
+    } else {
+      lines.push(`+ ${j + 1}: ${b[j]}`);
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Human-readable diff of a restore: the working tree on the left, the
+ * snapshot on the right
+ */
+export function formatRestorePlan(cwd: string, plan: RestorePlan, contents: SnapshotFileContent[]): string[] {
+  const byPath = new Map(contents.map((f) => [f.path, f]));
+  const lines: string[] = [];
+
+  for (const file of plan.write) {
+    const snapshotFile = byPath.get(file.path);
+
+    if (file.status === 'added') {
+      lines.push(chalk.green(`  + ${file.path}`) + chalk.gray(' (restored)'));
+      continue;
+    }
+
+    lines.push(chalk.yellow(`  ~ ${file.path}`));
+    if (!snapshotFile || snapshotFile.encoding === 'base64') {
+      lines.push(chalk.gray('      binary file'));
+      continue;
+    }
+
+    const changes = diffLines(readFileSync(join(cwd, file.path), 'utf-8'), snapshotFile.content);
+    for (const change of changes.slice(0, MAX_DIFF_LINES)) {
+      lines.push(change.startsWith('+') ? chalk.green(`      ${change}`) : chalk.red(`      ${change}`));
+    }
+    if (changes.length > MAX_DIFF_LINES) {
+      lines.push(chalk.gray(`      … and ${changes.length - MAX_DIFF_LINES} more changed lines`));
+    }
+  }
+
+  for (const path of plan.remove) {
+    lines.push(chalk.red(`  - ${path}`) + chalk.gray(' (not in snapshot, will be deleted)'));
+  }
+
+  return lines;
+}
+
+/**
+ * Write a restore to the working tree. Refuses paths that would land outside
+ * the project.
+ */
+export function applyRestore(cwd: string, plan: RestorePlan, contents: SnapshotFileContent[]): void {
+  const root = resolve(cwd);
+  const target = (path: string) => {
+    const normalized = normalizeSnapshotPath(path);
+    const fullPath = normalized ? resolve(root, normalized) : null;
+    if (!fullPath || !fullPath.startsWith(root + sep)) {
+      throw createApiError(`Refusing to restore ${path} outside the project`, 'INVALID_PATH', []);
+    }
+    return fullPath;
+  };
+
+  const byPath = new Map(contents.map((f) => [f.path, f]));
+  for (const file of plan.write) {
+    const content = byPath.get(file.path);
+    if (!content) throw createApiError(`Missing content for ${file.path}`, 'SNAPSHOT_ERROR', ['Try again']);
+
+    const fullPath = target(file.path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, Buffer.from(content.content, content.encoding));
+  }
+
+  for (const path of plan.remove) {
+    const fullPath = target(path);
+    if (existsSync(fullPath)) unlinkSync(fullPath);
+  }
+}
+
+export function getSnapshotAuthHeaders(): Record<string, string> {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw createApiError('Snapshots need an API key', 'UNAUTHORIZED', ['Run: codebakers setup']);
+  }
+  return { 'Authorization': `Bearer ${apiKey}` };
+}
+
+/**
+ * The server-side project for a directory, created on first use
+ */
+export async function getProjectId(cwd: string, authHeaders: Record<string, string>): Promise<string> {
+  let projectName = basename(cwd);
+  let packageName: string | undefined;
+
+  const packageJsonPath = join(cwd, 'package.json');
+  if (existsSync(packageJsonPath)) {
+    try {
+      const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+      projectName = packageJson.name || projectName;
+      packageName = packageJson.name;
+    } catch {
+      // Ignore parse errors
+    }
+  }
+
+  const { projectId } = await getOrCreateProject(createProjectHash(cwd, packageName), projectName, undefined, undefined, authHeaders);
+  return projectId;
+}
+
+/**
+ * Upload the contents of the project's files the server doesn't have yet
+ * @returns the manifest to create the snapshot with
+ */
+export async function uploadSnapshotFiles(
+  cwd: string,
+  projectId: string,
+  authHeaders: Record<string, string>
+): Promise<SnapshotEntry[]> {
+  const files = collectSnapshotFiles(cwd);
+
+  const { missingBlobs = [] } = await syncProjectData(projectId, { checkBlobs: files.map((f) => f.hash) }, authHeaders);
+  const missing = new Set(missingBlobs);
+
+  let batch: NonNullable<Parameters<typeof syncProjectData>[1]['blobs']> = [];
+  let batchBytes = 0;
+  const flush = async () => {
+    if (batch.length === 0) return;
+    await syncProjectData(projectId, { blobs: batch }, authHeaders);
+    batch = [];
+    batchBytes = 0;
+  };
+
+  for (const file of files) {
+    if (!missing.has(file.hash)) continue;
+    missing.delete(file.hash); // Identical files upload once
+
+    const bytes = readFileSync(join(cwd, file.path));
+    const encoding = isBinary(bytes) ? 'base64' : 'utf8';
+    const content = bytes.toString(encoding);
+
+    if (batchBytes + content.length > UPLOAD_BATCH_BYTES) await flush();
+    batch.push({ hash: file.hash, content, encoding });
+    batchBytes += content.length;
+  }
+  await flush();
+
+  return files;
+}
+
+async function request<T>(path: string, authHeaders: Record<string, string>, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${getApiUrl()}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders, ...init.headers },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw createApiError(
+      error.error || 'Snapshot request failed',
+      'SNAPSHOT_ERROR',
+      ['Check your internet connection', 'Try again in a few moments']
+    );
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export function listSnapshots(projectId: string, authHeaders: Record<string, string>) {
+  return request<{ snapshots: SnapshotSummary[]; pendingRestore: PendingRestore | null }>(
+    `/api/projects/${projectId}/snapshots`,
+    authHeaders
+  );
+}
+
+export function getSnapshotManifest(projectId: string, snapshotId: string, authHeaders: Record<string, string>) {
+  return request<{ snapshot: SnapshotSummary; files: SnapshotEntry[] }>(
+    `/api/projects/${projectId}/snapshots/${snapshotId}`,
+    authHeaders
+  );
+}
+
+export async function getSnapshotContents(
+  projectId: string,
+  snapshotId: string,
+  paths: string[],
+  authHeaders: Record<string, string>
+): Promise<SnapshotFileContent[]> {
+  if (paths.length === 0) return [];
+
+  const { files } = await request<{ files: SnapshotFileContent[] }>(
+    `/api/projects/${projectId}/snapshots/${snapshotId}/files`,
+    authHeaders,
+    { method: 'POST', body: JSON.stringify({ paths }) }
+  );
+  return files;
+}
+
+/**
+ * Tell the server a snapshot was applied, completing the dashboard's request
+ */
+export async function reportRestoreApplied(
+  projectId: string,
+  snapshotId: string,
+  paths: string[] | null,
+  authHeaders: Record<string, string>
+): Promise<void> {
+  await request(`/api/projects/${projectId}/snapshots/${snapshotId}/restore`, authHeaders, {
+    method: 'PATCH',
+    body: JSON.stringify({ paths }),
+  });
+}
@@ -0,0 +1,206 @@
+/**
+ * Template packages: the manifest and file format, and the rules a package
+ * must follow to be published or used.
+ *
+ * A template is a versioned package: a manifest plus the files it writes.
+ * File paths and contents may use {{variable}} placeholders, files can be
+ * made conditional on variables, and the manifest lists the commands to run
+ * once the files are written.
+ *
+ * This file has no imports so the server can use it too
+ * (src/lib/project-templates.ts) - both sides check packages with the same
+ * rules.
+ */
+
+export interface TemplateVariable {
+  name: string;
+  description?: string;
+  type?: 'string' | 'boolean'; // Defaults to string
+  default?: string | boolean;
+  required?: boolean;
+}
+
+export interface TemplatePostInstallStep {
+  run: string;
+  description?: string;
+  when?: string; // Condition on variables, e.g. "useStripe" or "auth == clerk"
+}
+
+export interface TemplateStack {
+  framework?: string;
+  database?: string;
+  orm?: string;
+  auth?: string;
+  ui?: string;
+  payments?: string;
+}
+
+export interface TemplateManifest {
+  name: string;
+  version: string; // Semver
+  description?: string;
+  stack?: TemplateStack; // Tells `codebakers build` what the template is built on
+  variables?: TemplateVariable[];
+  directories?: string[]; // Created even when no file lands in them
+  conditions?: Record<string, string>; // File or directory path -> condition on variables
+  postInstall?: TemplatePostInstallStep[];
+}
+
+export interface TemplateFile {
+  path: string;
+  content: string;
+}
+
+export interface TemplatePackage {
+  manifest: TemplateManifest;
+  files: TemplateFile[];
+}
+
+export const TEMPLATE_LIMITS = {
+  maxFiles: 500,
+  maxFileBytes: 512 * 1024,
+  maxTotalBytes: 5 * 1024 * 1024,
+};
+
+const TEMPLATE_NAME = /^[a-z0-9][a-z0-9-]{0,62}[a-z0-9]$/;
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+export const TEMPLATE_CONDITION = /^\s*(!?)\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:(==|!=)\s*(\S+)\s*)?$/;
+const STACK_KEYS = ['framework', 'database', 'orm', 'auth', 'ui', 'payments'];
+
+export function isTemplateName(name: string): boolean {
+  return TEMPLATE_NAME.test(name);
+}
+
+export function isTemplateVersion(version: string): boolean {
+  return SEMVER.test(version);
+}
+
+/**
+ * Semver ordering; a prerelease sorts before its release
+ */
+export function compareTemplateVersions(a: string, b: string): number {
+  const left = SEMVER.exec(a);
+  const right = SEMVER.exec(b);
+  if (!left || !right) return a.localeCompare(b);
+
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(left[i]) - Number(right[i]);
+    if (diff !== 0) return diff;
+  }
+  if (left[4] === right[4]) return 0;
+  if (!left[4]) return 1;
+  if (!right[4]) return -1;
+  return left[4].localeCompare(right[4], undefined, { numeric: true });
+}
+
+/**
+ * Same rules as snapshot paths: relative, forward slashes, no . or .. segments
+ */
+export function normalizeTemplatePath(path: string): string | null {
+  const normalized = path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  if (!normalized || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) return null;
+
+  const segments = normalized.split('/');
+  if (segments.some((s) => s === '' || s === '.' || s === '..')) return null;
+
+  return normalized;
+}
+
+function conditionProblem(condition: unknown, variables: Set<string>): string | null {
+  if (typeof condition !== 'string') return 'must be a string';
+  const match = TEMPLATE_CONDITION.exec(condition);
+  if (!match) return `"${condition}" is not a condition (use "name", "!name", "name == value" or "name != value")`;
+  if (!variables.has(match[2])) return `uses unknown variable "${match[2]}"`;
+  return null;
+}
+
+/**
+ * The first problem with a package, or null if it can be published
+ */
+export function validateTemplatePackage(value: unknown): string | null {
+  if (!isRecord(value) || !isRecord(value.manifest) || !Array.isArray(value.files)) {
+    return 'A template needs a manifest and a files array';
+  }
+
+  const manifest = value.manifest;
+  if (typeof manifest.name !== 'string' || !isTemplateName(manifest.name)) {
+    return 'Template names are 2-64 lowercase letters, digits and dashes';
+  }
+  if (typeof manifest.version !== 'string' || !isTemplateVersion(manifest.version)) {
+    return 'Template versions must be semver, e.g. 1.0.0';
+  }
+
+  const stack = manifest.stack;
+  if (stack !== undefined) {
+    if (!isRecord(stack)) return 'stack must be an object';
+    const key = Object.keys(stack).find((k) => !STACK_KEYS.includes(k) || typeof stack[k] !== 'string');
+    if (key) return `stack.${key} is not a known string setting`;
+  }
+
+  const variables = new Set<string>();
+  if (manifest.variables !== undefined) {
+    if (!Array.isArray(manifest.variables)) return 'variables must be an array';
+    for (const variable of manifest.variables) {
+      if (!isRecord(variable) || typeof variable.name !== 'string' || !VARIABLE_NAME.test(variable.name)) {
+        return 'Every variable needs a name made of letters, digits and underscores';
+      }
+      if (variables.has(variable.name)) return `Variable "${variable.name}" is declared twice`;
+      if (variable.type !== undefined && variable.type !== 'string' && variable.type !== 'boolean') {
+        return `Variable "${variable.name}" has an unknown type`;
+      }
+      variables.add(variable.name);
+    }
+  }
+
+  if (manifest.conditions !== undefined) {
+    if (!isRecord(manifest.conditions)) return 'conditions must map paths to conditions';
+    for (const [path, condition] of Object.entries(manifest.conditions)) {
+      const problem = conditionProblem(condition, variables);
+      if (problem) return `Condition for ${path} ${problem}`;
+    }
+  }
+
+  if (manifest.postInstall !== undefined) {
+    if (!Array.isArray(manifest.postInstall)) return 'postInstall must be an array';
+    for (const step of manifest.postInstall) {
+      if (!isRecord(step) || typeof step.run !== 'string' || !step.run.trim()) return 'Every postInstall step needs a run command';
+      if (step.when !== undefined) {
+        const problem = conditionProblem(step.when, variables);
+        if (problem) return `postInstall step "${step.run}" ${problem}`;
+      }
+    }
+  }
+
+  if (manifest.directories !== undefined) {
+    if (!Array.isArray(manifest.directories)) return 'directories must be an array';
+    const invalid = manifest.directories.find((d) => typeof d !== 'string' || !normalizeTemplatePath(d));
+    if (invalid !== undefined) return `Invalid directory: ${String(invalid)}`;
+  }
+
+  if (value.files.length === 0) return 'A template needs at least one file';
+  if (value.files.length > TEMPLATE_LIMITS.maxFiles) return `Templates are limited to ${TEMPLATE_LIMITS.maxFiles} files`;
+
+  const seen = new Set<string>();
+  let total = 0;
+  for (const file of value.files) {
+    if (!isRecord(file) || typeof file.path !== 'string' || typeof file.content !== 'string') {
+      return 'Every file needs a path and string content';
+    }
+    const path = normalizeTemplatePath(file.path);
+    if (!path) return `Invalid file path: ${file.path}`;
+    if (seen.has(path)) return `${path} appears twice`;
+    seen.add(path);
+
+    const bytes = Buffer.byteLength(file.content);
+    if (bytes > TEMPLATE_LIMITS.maxFileBytes) return `${path} is larger than ${TEMPLATE_LIMITS.maxFileBytes / 1024} KB`;
+    total += bytes;
+  }
+  if (total > TEMPLATE_LIMITS.maxTotalBytes) return `Templates are limited to ${TEMPLATE_LIMITS.maxTotalBytes / 1024 / 1024} MB`;
+
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,351 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { getApiKey, getApiUrl } from '../config.js';
+import { createApiError } from './api.js';
+import * as nextjsSupabase from '../templates/nextjs-supabase.js';
+import {
+  TEMPLATE_CONDITION,
+  TemplateFile,
+  TemplateManifest,
+  TemplatePackage,
+  TemplatePostInstallStep,
+  TemplateVariable,
+  normalizeTemplatePath,
+  validateTemplatePackage,
+} from './template-package.js';
+
+export type {
+  TemplateVariable,
+  TemplatePostInstallStep,
+  TemplateStack,
+  TemplateManifest,
+  TemplateFile,
+  TemplatePackage,
+} from './template-package.js';
+export { TEMPLATE_LIMITS, normalizeTemplatePath, validateTemplatePackage } from './template-package.js';
+
+/**
+ * Project template registry for `codebakers scaffold`, `codebakers build`
+ * and the MCP scaffold_project tool.
+ *
+ * A template is a versioned package: a manifest (template.json) plus the
+ * files it writes. Paths and contents can use {{variable}} placeholders,
+ * files or whole directories can be conditional on variables, and the
+ * manifest lists post-install commands. Templates come from a local
+ * directory (template.json next to a files/ folder), the built-in list, or
+ * the team's registry on the server, in that order. The package format and
+ * its validation rules are in template-package.ts, shared with the server.
+ */
+
+export interface ResolvedTemplate extends TemplatePackage {
+  source: 'local' | 'builtin' | 'server';
+}
+
+export interface TemplateSummary {
+  name: string;
+  description: string | null;
+  latestVersion: string;
+  versions: string[];
+}
+
+export type TemplateValues = Record<string, string | boolean>;
+
+export interface RenderedTemplate {
+  files: TemplateFile[];
+  directories: string[];
+  postInstall: TemplatePostInstallStep[];
+}
+
+export const DEFAULT_TEMPLATE = 'nextjs-supabase';
+export const TEMPLATE_MANIFEST_FILE = 'template.json';
+const TEMPLATE_FILES_DIR = 'files';
+
+const SHELL_SAFE = /^[A-Za-z0-9_@+=:,./-]+$/;
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+const BUILTIN_TEMPLATES: Record<string, () => TemplatePackage> = {
+  'nextjs-supabase': () => ({
+    manifest: {
+      name: 'nextjs-supabase',
+      version: '1.0.0',
+      description: 'Next.js + Supabase + Drizzle',
+      stack: { framework: 'nextjs', database: 'supabase', orm: 'drizzle', auth: 'supabase', ui: 'shadcn' },
+      variables: [{ name: 'projectName', description: 'Project name (lowercase, no spaces)', required: true }],
+      directories: ['src/components', 'src/db/migrations', 'src/services', 'src/types', 'public'],
+      postInstall: [{ run: 'npm install', description: 'Install dependencies' }],
+    },
+    files: [
+      { path: 'package.json', content: JSON.stringify({ ...nextjsSupabase.PACKAGE_JSON, name: '{{projectName}}' }, null, 2) },
+      { path: '.env.example', content: nextjsSupabase.ENV_EXAMPLE },
+      { path: '.env.local', content: nextjsSupabase.ENV_EXAMPLE },
+      { path: 'drizzle.config.ts', content: nextjsSupabase.DRIZZLE_CONFIG },
+      { path: 'tailwind.config.ts', content: nextjsSupabase.TAILWIND_CONFIG },
+      { path: 'postcss.config.mjs', content: nextjsSupabase.POSTCSS_CONFIG },
+      { path: 'tsconfig.json', content: JSON.stringify(nextjsSupabase.TSCONFIG, null, 2) },
+      { path: 'next.config.ts', content: nextjsSupabase.NEXT_CONFIG },
+      { path: '.gitignore', content: nextjsSupabase.GITIGNORE },
+      { path: 'src/lib/supabase/server.ts', content: nextjsSupabase.SUPABASE_SERVER },
+      { path: 'src/lib/supabase/client.ts', content: nextjsSupabase.SUPABASE_CLIENT },
+      { path: 'src/lib/supabase/middleware.ts', content: nextjsSupabase.SUPABASE_MIDDLEWARE },
+      { path: 'middleware.ts', content: nextjsSupabase.MIDDLEWARE },
+      { path: 'src/db/schema.ts', content: nextjsSupabase.DB_SCHEMA },
+      { path: 'src/db/index.ts', content: nextjsSupabase.DB_INDEX },
+      { path: 'src/app/globals.css', content: nextjsSupabase.GLOBALS_CSS },
+      { path: 'src/app/layout.tsx', content: nextjsSupabase.LAYOUT_TSX },
+      { path: 'src/app/page.tsx', content: nextjsSupabase.PAGE_TSX },
+      { path: 'src/lib/utils.ts', content: nextjsSupabase.UTILS_CN },
+    ],
+  }),
+};
+
+export function isBuiltinTemplate(name: string): boolean {
+  return name in BUILTIN_TEMPLATES;
+}
+
+/**
+ * "name" or "name@1.2.0"
+ */
+export function parseTemplateRef(ref: string): { name: string; version?: string } {
+  const at = ref.lastIndexOf('@');
+  return at > 0 ? { name: ref.slice(0, at), version: ref.slice(at + 1) } : { name: ref };
+}
+
+/**
+ * Read a template directory: template.json and everything under files/
+ */
+export function loadTemplateDir(dir: string): TemplatePackage {
+  const manifestPath = join(dir, TEMPLATE_MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    throw createApiError(`No ${TEMPLATE_MANIFEST_FILE} in ${dir}`, 'INVALID_TEMPLATE', [
+      `Add ${TEMPLATE_MANIFEST_FILE} with at least a name and version`,
+    ]);
+  }
+
+  let manifest: TemplateManifest;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw createApiError(`${manifestPath} is not valid JSON: ${message}`, 'INVALID_TEMPLATE', []);
+  }
+
+  const filesDir = join(dir, TEMPLATE_FILES_DIR);
+  const files: TemplateFile[] = [];
+  const walk = (current: string) => {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const fullPath = join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) walk(fullPath);
+      } else if (entry.isFile()) {
+        files.push({ path: relative(filesDir, fullPath).split(sep).join('/'), content: readFileSync(fullPath, 'utf-8') });
+      }
+    }
+  };
+  if (existsSync(filesDir)) walk(filesDir);
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  const pkg = { manifest, files };
+  const problem = validateTemplatePackage(pkg);
+  if (problem) {
+    throw createApiError(`${dir}: ${problem}`, 'INVALID_TEMPLATE', []);
+  }
+  return pkg;
+}
+
+function authHeaders(): Record<string, string> {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw createApiError('Team templates need an API key', 'UNAUTHORIZED', ['Run: codebakers setup']);
+  }
+  return { 'Authorization': `Bearer ${apiKey}` };
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${getApiUrl()}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...init.headers },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw createApiError(error.error || 'Template request failed', 'TEMPLATE_ERROR', [
+      'List your team\'s templates with: codebakers template list',
+    ]);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export async function listServerTemplates(): Promise<TemplateSummary[]> {
+  const { templates } = await request<{ templates: TemplateSummary[] }>('/api/templates');
+  return templates;
+}
+
+export function fetchServerTemplate(name: string, version?: string): Promise<TemplatePackage> {
+  const query = version ? `?version=${encodeURIComponent(version)}` : '';
+  return request<TemplatePackage>(`/api/templates/${encodeURIComponent(name)}${query}`);
+}
+
+export function publishTemplate(pkg: TemplatePackage): Promise<TemplateSummary> {
+  return request<TemplateSummary>('/api/templates', { method: 'POST', body: JSON.stringify(pkg) });
+}
+
+/**
+ * A local directory, a built-in template, or one from the team's registry
+ */
+export async function resolveTemplate(ref: string, cwd: string = process.cwd()): Promise<ResolvedTemplate> {
+  const localPath = isAbsolute(ref) ? ref : resolve(cwd, ref);
+  const looksLikePath = ref.startsWith('.') || isAbsolute(ref) || ref.includes('/') || ref.includes('\\');
+  if (looksLikePath || existsSync(join(localPath, TEMPLATE_MANIFEST_FILE))) {
+    return { ...loadTemplateDir(localPath), source: 'local' };
+  }
+
+  const { name, version } = parseTemplateRef(ref);
+  const builtin = BUILTIN_TEMPLATES[name];
+  if (builtin && (!version || version === builtin().manifest.version)) {
+    return { ...builtin(), source: 'builtin' };
+  }
+
+  const pkg = await fetchServerTemplate(name, version);
+  const problem = validateTemplatePackage(pkg);
+  if (problem) {
+    throw createApiError(`Template ${ref} from the server is invalid: ${problem}`, 'INVALID_TEMPLATE', []);
+  }
+  return { ...pkg, source: 'server' };
+}
+
+/**
+ * Parse --var key=value options
+ */
+export function parseTemplateVars(pairs: string[] = []): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) {
+      throw createApiError(`Invalid --var "${pair}"`, 'INVALID_TEMPLATE', ['Use --var name=value']);
+    }
+    vars[pair.slice(0, eq).trim()] = pair.slice(eq + 1);
+  }
+  return vars;
+}
+
+/**
+ * Apply defaults and types to the given values. Required variables with no
+ * value and no default come back in `missing` so callers can ask for them.
+ */
+export function resolveTemplateValues(
+  manifest: TemplateManifest,
+  provided: Record<string, string | boolean>
+): { values: TemplateValues; missing: TemplateVariable[] } {
+  const values: TemplateValues = {};
+  const missing: TemplateVariable[] = [];
+
+  for (const variable of manifest.variables ?? []) {
+    const raw = provided[variable.name] ?? variable.default;
+    if (raw === undefined || raw === '') {
+      if (variable.required) missing.push(variable);
+      values[variable.name] = variable.type === 'boolean' ? false : '';
+      continue;
+    }
+
+    if (variable.type === 'boolean') {
+      values[variable.name] = typeof raw === 'boolean' ? raw : ['true', 'yes', 'y', '1'].includes(raw.toLowerCase());
+    } else {
+      values[variable.name] = String(raw);
+    }
+  }
+
+  return { values, missing };
+}
+
+export function evaluateTemplateCondition(condition: string, values: TemplateValues): boolean {
+  const match = TEMPLATE_CONDITION.exec(condition);
+  if (!match) return false;
+
+  const [, negate, name, operator, expected] = match;
+  const value = values[name];
+  let result: boolean;
+  if (operator) {
+    result = operator === '==' ? String(value) === expected : String(value) !== expected;
+  } else {
+    result = typeof value === 'boolean' ? value : !!value && value !== 'false';
+  }
+  return negate ? !result : result;
+}
+
+function substitute(text: string, values: TemplateValues, quote: (value: string) => string = (value) => value): string {
+  return text.replace(PLACEHOLDER, (match, name: string) => (name in values ? quote(String(values[name])) : match));
+}
+
+/**
+ * Quote a variable value for a postInstall command, so a value can never
+ * add commands of its own. Plain words are left alone.
+ */
+export function shellQuote(value: string, platform: NodeJS.Platform = process.platform): string {
+  if (SHELL_SAFE.test(value)) return value;
+  if (platform === 'win32') {
+    // cmd.exe has no escape for these inside quotes
+    if (/["%!\r\n]/.test(value)) {
+      throw createApiError(`Template value ${JSON.stringify(value)} cannot be used in a setup command`, 'INVALID_TEMPLATE', []);
+    }
+    return `"${value}"`;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The files, directories and steps a template produces for these values.
+ * A condition on a directory applies to everything under it.
+ */
+export function renderTemplate(pkg: TemplatePackage, values: TemplateValues): RenderedTemplate {
+  const conditions = Object.entries(pkg.manifest.conditions ?? {});
+  const included = (path: string) =>
+    conditions.every(([prefix, condition]) => {
+      const target = prefix.replace(/\/+$/, '');
+      const applies = path === target || path.startsWith(`${target}/`);
+      return !applies || evaluateTemplateCondition(condition, values);
+    });
+
+  const files = pkg.files
+    .filter((file) => included(file.path))
+    .map((file) => ({ path: substitute(file.path, values), content: substitute(file.content, values) }));
+
+  const directories = (pkg.manifest.directories ?? [])
+    .filter(included)
+    .map((dir) => substitute(dir, values));
+
+  const postInstall = (pkg.manifest.postInstall ?? [])
+    .filter((step) => !step.when || evaluateTemplateCondition(step.when, values))
+    .map((step) => ({ ...step, run: substitute(step.run, values, (value) => shellQuote(value)) }));
+
+  return { files, directories, postInstall };
+}
+
+/**
+ * Write a rendered template into a directory. Refuses paths that a
+ * placeholder turned into something outside it.
+ */
+export function writeTemplate(cwd: string, rendered: RenderedTemplate): string[] {
+  const target = (path: string) => {
+    const normalized = normalizeTemplatePath(path);
+    if (!normalized) {
+      throw createApiError(`Refusing to write ${path} outside the project`, 'INVALID_TEMPLATE', []);
+    }
+    return join(cwd, normalized);
+  };
+
+  for (const dir of rendered.directories) {
+    mkdirSync(target(dir), { recursive: true });
+  }
+
+  const written: string[] = [];
+  for (const file of rendered.files) {
+    const fullPath = target(file.path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, file.content);
+    written.push(file.path);
+  }
+  return written;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { CodeIndex, parseModule } from '../src/lib/code-index';
+
+describe('code index', () => {
+  let testDir: string;
+
+  const write = (path: string, content: string) => {
+    mkdirSync(dirname(join(testDir, path)), { recursive: true });
+    writeFileSync(join(testDir, path), content);
+  };
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `codebakers-code-index-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('parses multi-line imports, re-exports and dynamic imports', () => {
+    const parsed = parseModule('a.ts', [
+      'import Default, {',
+      '  one,',
+      '  two as renamed,',
+      '  type Three,',
+      "} from './lib';",
+      "import type * as types from './types';",
+      "export * from './all';",
+      "export { four as five } from './four';",
+      "const lazy = () => import('./lazy');",
+      'export default function main() {}',
+      'export const [first, second] = [1, 2];',
+      'interface Local {}',
+      'export { Local };',
+    ].join('\n'));
+
+    expect(parsed.imports.map((i) => [i.specifier, i.kind, i.line])).toEqual([
+      ['./lib', 'import', 1],
+      ['./types', 'import', 6],
+      ['./all', 're-export', 7],
+      ['./four', 're-export', 8],
+      ['./lazy', 'dynamic', 9],
+    ]);
+    expect(parsed.imports[0].names).toEqual([
+      { name: 'default', local: 'Default', typeOnly: false },
+      { name: 'one', local: 'one', typeOnly: false },
+      { name: 'two', local: 'renamed', typeOnly: false },
+      { name: 'Three', local: 'Three', typeOnly: true },
+    ]);
+    expect(parsed.imports[2].exportAll).toBe(true);
+    expect(parsed.exports.map((e) => [e.name, e.kind])).toEqual([
+      ['five', 're-export'],
+      ['default', 'default'],
+      ['first', 'variable'],
+      ['second', 'variable'],
+      ['Local', 'interface'],
+    ]);
+    expect(parsed.exports[1].localName).toBe('main');
+  });
+
+  it('resolves tsconfig paths beyond @/ and follows export *', () => {
+    write('tsconfig.json', JSON.stringify({
+      compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'], '#ui/*': ['packages/ui/*'] } },
+      include: ['src', 'packages'],
+    }));
+    write('packages/ui/button.ts', 'export const Button = 1;\n');
+    write('packages/ui/index.ts', "export * from './button';\nexport default 1;\n");
+    write('src/page.ts', "import { Button } from '#ui/index';\nimport { missing } from '@/nowhere';\nimport 'react';\n");
+
+    const index = CodeIndex.load(testDir, { cacheFile: false });
+    const page = index.getFile('src/page.ts')!;
+
+    expect(page.imports[0].resolvedPath).toBe(join(testDir, 'packages/ui/index.ts'));
+    expect(page.imports[1]).toMatchObject({ resolvedPath: null, external: false });
+    expect(page.imports[2]).toMatchObject({ resolvedPath: null, external: true });
+    expect([...index.getExportNames('packages/ui/index.ts')].sort()).toEqual(['Button', 'default']);
+    expect(index.getImporters('packages/ui/index.ts').map((f) => f.relativePath)).toEqual(['src/page.ts']);
+  });
+
+  it('resolves through project references with their own paths', () => {
+    write('tsconfig.json', JSON.stringify({ files: [], references: [{ path: './app' }, { path: './shared' }] }));
+    write('shared/tsconfig.json', JSON.stringify({ compilerOptions: { composite: true }, include: ['**/*.ts'] }));
+    write('shared/util.ts', 'export function util() {}\n');
+    write('app/tsconfig.json', JSON.stringify({
+      compilerOptions: { baseUrl: '.', paths: { '~shared/*': ['../shared/*'] } },
+      include: ['**/*.ts'],
+    }));
+    write('app/main.ts', "import { util } from '~shared/util';\n");
+
+    const index = CodeIndex.load(testDir, { cacheFile: false });
+
+    expect(index.listFiles().map((f) => f.relativePath).sort()).toEqual(['app/main.ts', 'shared/util.ts']);
+    expect(index.getDependencies('app/main.ts')).toEqual([join(testDir, 'shared/util.ts')]);
+  });
+
+  it('only re-parses files whose contents changed', () => {
+    write('src/a.ts', "import { b } from './b';\nexport const a = b;\n");
+    write('src/b.ts', "import { a } from './a';\nexport const b = 1;\n");
+
+    const first = CodeIndex.load(testDir);
+    expect(first.refresh().changed).toEqual([]);
+    first.save();
+    expect(existsSync(join(testDir, '.codebakers', 'code-index.json'))).toBe(true);
+    expect(first.findCycles().map((cycle) => cycle.length)).toEqual([3]);
+
+    write('src/b.ts', 'export const b = 2;\n');
+    write('src/c.ts', 'export const c = 3;\n');
+    const { changed } = first.refresh();
+    const fromCache = CodeIndex.load(testDir);
+
+    expect(changed.sort()).toEqual(['src/b.ts', 'src/c.ts']);
+    expect(first.findCycles()).toEqual([]);
+    expect(fromCache.getFile('src/b.ts')!.imports).toEqual([]);
+    expect(fromCache.getFile('src/a.ts')!.imports[0].resolvedPath).toBe(join(testDir, 'src/b.ts'));
+  });
+});
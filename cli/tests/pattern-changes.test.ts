@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  PatternChanges,
+  formatPatternChanges,
+  getInstalledPatternsVersion,
+  setInstalledPatternsVersion,
+} from '../src/lib/pattern-changes';
+
+const CHANGES: PatternChanges = {
+  from: '15.1',
+  to: '15.2',
+  modules: [
+    {
+      name: '00-core.md',
+      status: 'changed',
+      sections: [
+        {
+          heading: 'CORE > Every Button MUST Have:',
+          status: 'changed',
+          added: ['An accessible label', 'A tooltip', 'A focus ring', 'A keyboard shortcut', 'A test id', 'A size'],
+          removed: ['A disabled state during submission'],
+          changed: [],
+          examplesChanged: 1,
+        },
+      ],
+    },
+    { name: '04-frontend.md', status: 'added', sections: [] },
+  ],
+  summary: { modulesAdded: 1, modulesRemoved: 0, modulesChanged: 1, rulesAdded: 6, rulesRemoved: 1, rulesChanged: 0 },
+};
+
+describe('pattern changes', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `codebakers-pattern-changes-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('formats modules, rules and a summary of what was left out', () => {
+    const output = formatPatternChanges(CHANGES).join('\n');
+
+    expect(output).toContain('v15.1 → v15.2');
+    expect(output).toContain('~ 00-core.md');
+    expect(output).toContain('+ An accessible label');
+    expect(output).toContain('… and 2 more');
+    expect(output).toContain('1 code example updated');
+    expect(output).toContain('+ 04-frontend.md (added');
+  });
+
+  it('reads the installed version from MCP auto-updates first', () => {
+    expect(getInstalledPatternsVersion(testDir)).toBeNull();
+
+    writeFileSync(join(testDir, '.codebakers.json'), JSON.stringify({ patternsVersion: '15.0' }));
+    expect(getInstalledPatternsVersion(testDir)).toBe('15.0');
+
+    mkdirSync(join(testDir, '.claude'));
+    writeFileSync(join(testDir, '.claude', '.version.json'), JSON.stringify({ version: '15.1' }));
+    expect(getInstalledPatternsVersion(testDir)).toBe('15.1');
+  });
+
+  it('records the upgraded version in both files', () => {
+    mkdirSync(join(testDir, '.claude'));
+    writeFileSync(join(testDir, '.claude', '.version.json'), JSON.stringify({ version: '15.1', moduleCount: 40 }));
+
+    setInstalledPatternsVersion(testDir, '15.2');
+
+    expect(JSON.parse(readFileSync(join(testDir, '.codebakers.json'), 'utf-8')).patternsVersion).toBe('15.2');
+    expect(JSON.parse(readFileSync(join(testDir, '.claude', '.version.json'), 'utf-8'))).toEqual({ version: '15.2', moduleCount: 40 });
+    expect(getInstalledPatternsVersion(testDir)).toBe('15.2');
+  });
+});
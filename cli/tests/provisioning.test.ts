@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  applyProvisionPlan,
+  loadProvisionManifest,
+  loadProvisionState,
+  planDestroy,
+  planProvision,
+  refreshProvisionState,
+  saveProvisionState,
+  type ProvisionManifest,
+  type ProvisionProviders,
+  type ProvisionState,
+  type ResourceSpec,
+  type ResourceType,
+} from '../src/lib/provisioning';
+
+interface FakeResource {
+  type: ResourceType;
+  spec: ResourceSpec;
+}
+
+// In-memory stand-ins for GitHub, Supabase and Vercel
+function createFakeProviders() {
+  const resources = new Map<string, FakeResource>();
+  const calls: string[] = [];
+  let nextId = 1;
+  let failOn: string | null = null;
+
+  const provider = (type: ResourceType, outputs: (id: string, spec: ResourceSpec) => Record<string, string> = () => ({})) => ({
+    async create(spec: ResourceSpec) {
+      if (failOn === type) throw new Error('quota exceeded');
+      const id = `${type}-${nextId++}`;
+      resources.set(id, { type, spec });
+      calls.push(`create ${id}`);
+      return { id, outputs: outputs(id, spec), secrets: type === 'supabase' ? { SUPABASE_DB_PASSWORD: `pw-${id}` } : undefined };
+    },
+    async update(resource: { id: string }, spec: ResourceSpec) {
+      resources.set(resource.id, { type, spec });
+      calls.push(`update ${resource.id}`);
+    },
+    async delete(resource: { id: string }) {
+      resources.delete(resource.id);
+      calls.push(`delete ${resource.id}`);
+    },
+    async exists(resource: { id: string }) {
+      return resources.has(resource.id);
+    },
+  });
+
+  const providers: ProvisionProviders = {
+    github: provider('github', (id) => ({ url: `https://github.com/acme/${id}` })),
+    supabase: provider('supabase', (id) => ({ apiUrl: `https://${id}.supabase.co`, anonKey: `anon-${id}` })),
+    vercel: provider('vercel'),
+    'vercel.env': provider('vercel.env'),
+  };
+
+  return { providers, resources, calls, failOn: (type: ResourceType | null) => { failOn = type; } };
+}
+
+const MANIFEST: ProvisionManifest = {
+  name: 'shop',
+  github: { private: true },
+  supabase: { region: 'eu-west-1' },
+  vercel: {
+    env: {
+      NEXT_PUBLIC_SUPABASE_URL: '${supabase.apiUrl}',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: '${supabase.anonKey}',
+    },
+  },
+};
+
+describe('provisioning', () => {
+  let testDir: string;
+  let statePath: string;
+  let fake: ReturnType<typeof createFakeProviders>;
+
+  let secrets: Record<string, string>;
+
+  const apply = async (manifest: ProvisionManifest) => {
+    const state = loadProvisionState(statePath);
+    const gone = await refreshProvisionState(state, fake.providers);
+    const plan = planProvision(manifest, state, gone);
+    await applyProvisionPlan(plan, state, fake.providers, {
+      save: (s) => saveProvisionState(statePath, s),
+      onSecrets: (_address, values) => Object.assign(secrets, values),
+    });
+    return plan;
+  };
+  const summary = (plan: ReturnType<typeof planProvision>) => plan.actions.map((a) => `${a.action} ${a.address}`);
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `codebakers-provision-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    statePath = join(testDir, '.codebakers', 'provision-state.json');
+    fake = createFakeProviders();
+    secrets = {};
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('creates everything once, wiring outputs into later resources', async () => {
+    const plan = await apply(MANIFEST);
+    expect(summary(plan)).toEqual([
+      'create github',
+      'create supabase',
+      'create vercel',
+      'create vercel.env.NEXT_PUBLIC_SUPABASE_URL',
+      'create vercel.env.NEXT_PUBLIC_SUPABASE_ANON_KEY',
+    ]);
+
+    const vercel = [...fake.resources.values()].find((r) => r.type === 'vercel');
+    expect(vercel?.spec).toMatchObject({ name: 'shop', gitRepository: 'github-1' });
+    const env = [...fake.resources.values()].filter((r) => r.type === 'vercel.env').map((r) => [r.spec.key, r.spec.value, r.spec.projectId]);
+    expect(env).toEqual([
+      ['NEXT_PUBLIC_SUPABASE_URL', 'https://supabase-2.supabase.co', 'vercel-3'],
+      ['NEXT_PUBLIC_SUPABASE_ANON_KEY', 'anon-supabase-2', 'vercel-3'],
+    ]);
+
+    // The database password goes to the caller, never into the state file
+    expect(secrets).toEqual({ SUPABASE_DB_PASSWORD: 'pw-supabase-2' });
+    expect(readFileSync(statePath, 'utf-8')).not.toContain('pw-supabase-2');
+
+    const state = JSON.parse(readFileSync(statePath, 'utf-8')) as ProvisionState;
+    expect(state.resources.map((r) => `${r.address}=${r.id}`)).toEqual([
+      'github=github-1',
+      'supabase=supabase-2',
+      'vercel=vercel-3',
+      'vercel.env.NEXT_PUBLIC_SUPABASE_URL=vercel.env-4',
+      'vercel.env.NEXT_PUBLIC_SUPABASE_ANON_KEY=vercel.env-5',
+    ]);
+
+    // Applying again changes nothing
+    fake.calls.length = 0;
+    const again = await apply(MANIFEST);
+    expect(again.actions.every((a) => a.action === 'none')).toBe(true);
+    expect(fake.calls).toEqual([]);
+  });
+
+  it('updates in place where it can and replaces otherwise', async () => {
+    await apply(MANIFEST);
+    fake.calls.length = 0;
+
+    const plan = await apply({
+      ...MANIFEST,
+      github: { private: false },
+      vercel: { env: { ...MANIFEST.vercel!.env, NEXT_PUBLIC_SUPABASE_URL: 'https://db.example.com' } },
+    });
+    expect(plan.destructive).toBe(false);
+    expect(fake.calls).toEqual(['update github-1', 'update vercel.env-4']);
+
+    // A new region needs a new Supabase project, which changes the values that reference it
+    fake.calls.length = 0;
+    const moved = planProvision({ ...MANIFEST, supabase: { region: 'us-east-1' } }, loadProvisionState(statePath));
+    expect(moved.destructive).toBe(true);
+    expect(summary(moved)).toContain('replace supabase');
+    expect(summary(moved)).toContain('update vercel.env.NEXT_PUBLIC_SUPABASE_ANON_KEY');
+  });
+
+  it('renames repositories in place and refuses to replace them', async () => {
+    await apply(MANIFEST);
+
+    // The rename changes the repository id, so the linked Vercel project is relinked rather than rebuilt
+    const renamed = planProvision({ ...MANIFEST, github: { private: true, name: 'store' } }, loadProvisionState(statePath));
+    expect(summary(renamed).slice(0, 3)).toEqual(['update github', 'none supabase', 'update vercel']);
+    expect(renamed.destructive).toBe(false);
+
+    const moved = { ...MANIFEST, github: { private: true, owner: 'other-org' } };
+    expect(() => planProvision(moved, loadProvisionState(statePath))).toThrow('github.allowReplace');
+    const allowed = planProvision({ ...moved, github: { ...moved.github, allowReplace: true } }, loadProvisionState(statePath));
+    expect(summary(allowed)[0]).toBe('replace github');
+  });
+
+  it('deletes resources removed from the manifest', async () => {
+    await apply(MANIFEST);
+    fake.calls.length = 0;
+
+    const plan = await apply({ name: 'shop', github: { private: true }, supabase: { region: 'eu-west-1' }, vercel: {} });
+    expect(summary(plan).slice(0, 2)).toEqual([
+      'delete vercel.env.NEXT_PUBLIC_SUPABASE_ANON_KEY',
+      'delete vercel.env.NEXT_PUBLIC_SUPABASE_URL',
+    ]);
+    expect(fake.calls).toEqual(['delete vercel.env-5', 'delete vercel.env-4']);
+  });
+
+  it('destroys exactly what it created', async () => {
+    const unrelated = await fake.providers.supabase.create({ name: 'someone-else' });
+    await apply(MANIFEST);
+
+    const state = loadProvisionState(statePath);
+    await applyProvisionPlan(planDestroy(state), state, fake.providers, { save: (s) => saveProvisionState(statePath, s) });
+
+    expect([...fake.resources.keys()]).toEqual([unrelated.id]);
+    expect(loadProvisionState(statePath).resources).toEqual([]);
+    expect(planDestroy(loadProvisionState(statePath)).actions).toEqual([]);
+  });
+
+  it('keeps finished steps after a failure and resumes from there', async () => {
+    fake.failOn('vercel');
+    await expect(apply(MANIFEST)).rejects.toThrow('vercel: quota exceeded');
+    expect(loadProvisionState(statePath).resources.map((r) => r.address)).toEqual(['github', 'supabase']);
+
+    fake.failOn(null);
+    fake.calls.length = 0;
+    const plan = await apply(MANIFEST);
+    expect(summary(plan).filter((s) => s.startsWith('create'))).toEqual([
+      'create vercel',
+      'create vercel.env.NEXT_PUBLIC_SUPABASE_URL',
+      'create vercel.env.NEXT_PUBLIC_SUPABASE_ANON_KEY',
+    ]);
+    expect(fake.calls.some((c) => c.includes('github') || c.includes('supabase'))).toBe(false);
+  });
+
+  it('recreates resources deleted outside the tool', async () => {
+    await apply(MANIFEST);
+    fake.resources.delete('github-1');
+
+    const state = loadProvisionState(statePath);
+    const gone = await refreshProvisionState(state, fake.providers);
+    expect(gone).toEqual(['github']);
+    // The project was linked to the old repository, so it is relinked too
+    const plan = planProvision(MANIFEST, state, gone);
+    expect(summary(plan).slice(0, 3)).toEqual(['create github', 'none supabase', 'update vercel']);
+    expect(plan.actions[0].drifted).toBe(true);
+  });
+
+  it('validates the manifest', () => {
+    const path = join(testDir, 'codebakers.provision.json');
+
+    writeFileSync(path, JSON.stringify({ supabase: {} }));
+    expect(() => loadProvisionManifest(path)).toThrow('supabase.name is required');
+    writeFileSync(path, JSON.stringify({ name: 'shop', netlify: {} }));
+    expect(() => loadProvisionManifest(path)).toThrow('unknown section "netlify"');
+    writeFileSync(path, JSON.stringify({ name: 'shop', vercel: { env: { 'BAD-KEY': 'x' } } }));
+    expect(() => loadProvisionManifest(path)).toThrow('invalid variable name');
+    writeFileSync(path, JSON.stringify({ name: 'shop', vercel: { env: { DB: 'postgres://:${supabase.dbPassword}@db' } } }));
+    expect(() => loadProvisionManifest(path)).toThrow('cannot be referenced');
+    writeFileSync(path, JSON.stringify(MANIFEST));
+    expect(loadProvisionManifest(path)).toEqual(MANIFEST);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { CodeIndex } from '../src/lib/code-index';
+import { analyzeRipple } from '../src/lib/ripple';
+
+describe('ripple analysis', () => {
+  let testDir: string;
+  let index: CodeIndex;
+
+  const write = (path: string, content: string) => {
+    mkdirSync(dirname(join(testDir, path)), { recursive: true });
+    writeFileSync(join(testDir, path), content);
+  };
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `codebakers-ripple-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+
+    write('tsconfig.json', JSON.stringify({
+      compilerOptions: { strict: true, jsx: 'preserve', baseUrl: '.', paths: { '@/*': ['src/*'] } },
+      include: ['src'],
+    }));
+    write('src/types.ts', [
+      'export interface User {',
+      '  id: string;',
+      '  email: string;',
+      '}',
+      '// A User in a comment',
+      "export const label = 'User';",
+      "export function createUser(id: string, email = ''): User {",
+      '  return { id, email };',
+      '}',
+    ].join('\n'));
+    write('src/index.ts', "export { User as Account } from './types';\n");
+    write('src/service.ts', [
+      "import { User as U, createUser } from '@/types';",
+      "import type { Account } from './index';",
+      'export function greet(user: U, account: Account) {',
+      '  const { email } = user;',
+      '  return `${email} ${account.email}`;',
+      '}',
+      "const admin: U = { id: '1', email: 'a' };",
+      "createUser('2', 'b');",
+      "createUser('3');",
+    ].join('\n'));
+    write('src/Button.tsx', [
+      'export function Button(props: { label: string }) {',
+      '  return null;',
+      '}',
+    ].join('\n'));
+    write('src/page.tsx', [
+      "import { Button } from './Button';",
+      'export const Page = () => <Button label="x" />;',
+    ].join('\n'));
+
+    index = CodeIndex.load(testDir, { cacheFile: false });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('finds real references and classifies them', () => {
+    const report = analyzeRipple(index, { entityName: 'User' });
+
+    expect(report.declarations).toMatchObject([{ file: 'src/types.ts', line: 1 }]);
+    const usages = report.usages.map((u) => `${u.file}:${u.line}:${u.kind}`);
+    expect(usages).toEqual(expect.arrayContaining([
+      'src/types.ts:7:type',
+      'src/index.ts:1:re-export',
+      'src/service.ts:1:import',
+      'src/service.ts:3:type',
+      'src/service.ts:7:type',
+    ]));
+    // Not the string on line 6 or the comment on line 5
+    expect(report.usages.some((u) => u.file === 'src/types.ts' && (u.line === 5 || u.line === 6))).toBe(false);
+  });
+
+  it('reports only the uses a rename breaks', () => {
+    const report = analyzeRipple(index, { entityName: 'User', changeType: 'renamed', newName: 'Member' });
+
+    // Uses through the U and Account aliases keep working
+    expect(report.breakages.map((b) => `${b.file}:${b.line}`).sort()).toEqual([
+      'src/index.ts:1',
+      'src/service.ts:1',
+      'src/types.ts:7',
+    ]);
+    expect(report.breakages[0].message).toContain('`Member`');
+  });
+
+  it('finds uses of a removed field, including destructuring and shorthand properties', () => {
+    const report = analyzeRipple(index, { entityName: 'User', changeType: 'removed_field', memberName: 'email' });
+
+    expect(report.memberUsages.map((u) => `${u.file}:${u.line}:${u.kind}`).sort()).toEqual([
+      'src/service.ts:4:destructuring',
+      'src/service.ts:5:property',
+      'src/service.ts:7:property',
+      'src/types.ts:8:property',
+    ]);
+    expect(report.breakages).toHaveLength(4);
+  });
+
+  it('finds objects missing a required new field', () => {
+    const report = analyzeRipple(index, { entityName: 'User', changeType: 'added_field', memberName: 'name', required: true });
+
+    expect(report.breakages.map((b) => `${b.file}:${b.line}`).sort()).toEqual(['src/service.ts:7', 'src/types.ts:8']);
+    expect(analyzeRipple(index, { entityName: 'User', changeType: 'added_field', memberName: 'name' }).breakages).toEqual([]);
+  });
+
+  it('finds calls and elements missing a parameter or prop made required', () => {
+    const calls = analyzeRipple(index, { entityName: 'createUser', changeType: 'signature_changed', memberName: 'email', required: true });
+    expect(calls.breakages).toMatchObject([{ file: 'src/service.ts', line: 9 }]);
+    expect(calls.breakages[0].message).toContain('argument 2');
+
+    const elements = analyzeRipple(index, { entityName: 'Button', changeType: 'added_field', memberName: 'size', required: true });
+    expect(elements.usages.map((u) => u.kind)).toEqual(['import', 'jsx']);
+    expect(elements.breakages).toMatchObject([{ file: 'src/page.tsx', line: 2 }]);
+  });
+
+  it('type-checks the uses of a field or parameter whose type changes', () => {
+    const field = analyzeRipple(index, { entityName: 'User', changeType: 'type_changed', memberName: 'id', newType: 'number' });
+    expect(field.breakages.map((b) => `${b.file}:${b.line}`).sort()).toEqual(['src/service.ts:7', 'src/types.ts:8']);
+    expect(field.breakages[0].message).toContain('`number`');
+
+    // Widening to a type every use still accepts breaks nothing
+    expect(analyzeRipple(index, { entityName: 'User', changeType: 'type_changed', memberName: 'id', newType: 'string | number' }).breakages).toEqual([]);
+
+    const parameter = analyzeRipple(index, { entityName: 'createUser', changeType: 'type_changed', memberName: 'id', newType: 'number' });
+    expect(parameter.breakages.map((b) => `${b.file}:${b.line}`).sort()).toEqual(['src/service.ts:8', 'src/service.ts:9', 'src/types.ts:8']);
+
+    expect(analyzeRipple(index, { entityName: 'User', changeType: 'type_changed', memberName: 'id' }).notes[0]).toContain('newType');
+  });
+
+  it('notes entities it cannot find', () => {
+    const report = analyzeRipple(index, { entityName: 'Missing' });
+    expect(report.usages).toEqual([]);
+    expect(report.notes[0]).toContain('No top-level declaration');
+  });
+});
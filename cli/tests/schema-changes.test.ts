@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  applySchemaChange,
+  formatMigration,
+  migrationName,
+  parseSchemaRequest,
+  planSchemaChange,
+  readDrizzleSchema,
+  writeMigration,
+} from '../src/lib/schema-changes';
+
+const SCHEMA = [
+  "import { pgTable, uuid, text, varchar, timestamp } from 'drizzle-orm/pg-core';",
+  '',
+  "export const users = pgTable('users', {",
+  "  id: uuid('id').defaultRandom().primaryKey(),",
+  "  email: varchar('email', { length: 255 }).notNull(),",
+  '  // Kept for the old importer',
+  "  legacyId: text('legacy_id'),",
+  "  createdAt: timestamp('created_at').defaultNow(),",
+  '});',
+  '',
+].join('\n');
+
+describe('schema changes', () => {
+  it('parses requests', () => {
+    expect(parseSchemaRequest('add isArchived boolean to projects table')).toMatchObject({
+      action: 'add_column',
+      table: 'projects',
+      column: { key: 'isArchived', name: 'is_archived', type: 'boolean', default: 'default(false)' },
+    });
+    expect(parseSchemaRequest("add required status varchar(20) default 'pending' to orders")).toMatchObject({
+      action: 'add_column',
+      column: { key: 'status', type: 'varchar', length: 20, notNull: true, default: "default('pending')" },
+    });
+    expect(parseSchemaRequest('remove the legacyId column from users')).toEqual({ action: 'drop_column', table: 'users', column: 'legacyId' });
+    expect(parseSchemaRequest('change users.email to text')).toMatchObject({ action: 'change_type', table: 'users', column: 'email', type: 'text' });
+    expect(parseSchemaRequest('make nickname in users required')).toEqual({ action: 'set_not_null', table: 'users', column: 'nickname' });
+
+    const create = parseSchemaRequest('create a comments table with postId, content and isHidden');
+    expect(create?.action === 'create_table' && create.columns.map((c) => `${c.key}:${c.type}`)).toEqual([
+      'id:uuid',
+      'postId:uuid',
+      'content:text',
+      'isHidden:boolean',
+      'createdAt:timestamp',
+    ]);
+    expect(parseSchemaRequest('make it faster')).toBeNull();
+  });
+
+  it('adds columns through the AST, importing their builders', () => {
+    const schema = readDrizzleSchema(SCHEMA);
+    const change = parseSchemaRequest('add loginCount integer to users')!;
+    const plan = planSchemaChange(schema, change);
+
+    expect(plan.safety).toBe('additive');
+    expect(plan.statements).toEqual(['ALTER TABLE "users" ADD COLUMN "login_count" integer;']);
+
+    const updated = applySchemaChange(SCHEMA, schema, plan.edited);
+    expect(updated).toContain("import { pgTable, uuid, text, varchar, timestamp, integer } from 'drizzle-orm/pg-core';");
+    expect(updated).toContain("  createdAt: timestamp('created_at').defaultNow(),\n  loginCount: integer('login_count'),\n});");
+    expect(readDrizzleSchema(updated).tables[0].columns.map((c) => c.key)).toContain('loginCount');
+  });
+
+  it('adds a required column without a default as nullable first', () => {
+    const schema = readDrizzleSchema(SCHEMA);
+    const plan = planSchemaChange(schema, parseSchemaRequest('add required nickname text to users')!);
+
+    expect(plan.safety).toBe('backfill-required');
+    expect(plan.statements).toEqual(['ALTER TABLE "users" ADD COLUMN "nickname" text;']);
+    expect(plan.steps.map((s) => [s.phase, s.now])).toEqual([
+      ['expand', true],
+      ['deploy', false],
+      ['backfill', false],
+      ['contract', false],
+    ]);
+    expect(applySchemaChange(SCHEMA, schema, plan.edited)).toContain("nickname: text('nickname'),");
+
+    // A default fills existing rows, so nothing needs backfilling
+    const withDefault = planSchemaChange(schema, parseSchemaRequest("add required role text default 'member' to users")!);
+    expect(withDefault.safety).toBe('additive');
+    expect(withDefault.statements).toEqual([`ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'member' NOT NULL;`]);
+  });
+
+  it('needs a backfill value to make a column required', () => {
+    const schema = readDrizzleSchema(SCHEMA);
+    const change = parseSchemaRequest('make legacyId in users required')!;
+
+    expect(planSchemaChange(schema, change)).toMatchObject({ needsBackfill: true, statements: [] });
+    expect(planSchemaChange(schema, change, "''").statements).toEqual([
+      `UPDATE "users" SET "legacy_id" = '' WHERE "legacy_id" IS NULL;`,
+      'ALTER TABLE "users" ALTER COLUMN "legacy_id" SET NOT NULL;',
+    ]);
+    expect(applySchemaChange(SCHEMA, schema, change)).toContain("legacyId: text('legacy_id').notNull(),");
+  });
+
+  it('requires confirmation to drop columns or narrow types', () => {
+    const schema = readDrizzleSchema(SCHEMA);
+
+    const drop = planSchemaChange(schema, parseSchemaRequest('drop legacyId from users')!);
+    expect(drop).toMatchObject({ safety: 'destructive', requiresConfirmation: true });
+    expect(drop.statements).toEqual(['ALTER TABLE "users" DROP COLUMN "legacy_id";']);
+    const dropped = applySchemaChange(SCHEMA, schema, drop.edited);
+    expect(dropped).not.toContain('legacy');
+    expect(dropped).not.toContain('old importer');
+    expect(readDrizzleSchema(dropped).tables[0].columns.map((c) => c.key)).toEqual(['id', 'email', 'createdAt']);
+
+    const widen = planSchemaChange(schema, parseSchemaRequest('change email in users to text')!);
+    expect(widen).toMatchObject({ safety: 'additive', requiresConfirmation: false });
+    expect(applySchemaChange(SCHEMA, schema, widen.edited)).toContain("email: text('email').notNull(),");
+
+    const narrow = planSchemaChange(schema, parseSchemaRequest('change email in users to varchar(100)')!);
+    expect(narrow).toMatchObject({ safety: 'destructive', requiresConfirmation: true });
+    expect(narrow.statements).toEqual(['ALTER TABLE "users" ALTER COLUMN "email" SET DATA TYPE varchar(100) USING "email"::varchar(100);']);
+    expect(narrow.steps.map((s) => s.phase)).toEqual(['deploy', 'contract']);
+    expect(narrow.alternative?.map((s) => s.phase)).toEqual(['expand', 'backfill', 'deploy', 'contract']);
+
+    expect(() => planSchemaChange(schema, parseSchemaRequest('drop id from users')!)).toThrow('primary key');
+    expect(() => planSchemaChange(schema, parseSchemaRequest('drop email from posts')!)).toThrow('Could not find table');
+  });
+
+  it('creates tables after the last one', () => {
+    const schema = readDrizzleSchema(SCHEMA);
+    const change = parseSchemaRequest('create a tags table with name and color')!;
+    const plan = planSchemaChange(schema, change);
+
+    expect(plan.statements[0]).toBe(
+      'CREATE TABLE IF NOT EXISTS "tags" (\n\t"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,\n\t"name" text,\n\t"color" text,\n\t"created_at" timestamp DEFAULT now()\n);'
+    );
+    const updated = applySchemaChange(SCHEMA, schema, change);
+    expect(readDrizzleSchema(updated).tables.map((t) => t.name)).toEqual(['users', 'tags']);
+    expect(migrationName(change)).toBe('create-tags');
+  });
+
+  describe('migration files', () => {
+    let folder: string;
+
+    beforeEach(() => {
+      folder = join(tmpdir(), `codebakers-schema-test-${Date.now()}`);
+      mkdirSync(join(folder, 'meta'), { recursive: true });
+    });
+
+    afterEach(() => {
+      rmSync(folder, { recursive: true, force: true });
+    });
+
+    it('writes the next migration and adds it to the journal', () => {
+      writeFileSync(join(folder, '0000_init.sql'), '');
+      writeFileSync(join(folder, 'meta', '_journal.json'), JSON.stringify({
+        version: '7',
+        dialect: 'postgresql',
+        entries: [{ idx: 0, version: '7', when: 1, tag: '0000_init', breakpoints: true }],
+      }));
+
+      const sql = formatMigration(['ALTER TABLE "a" ADD COLUMN "b" text;', 'ALTER TABLE "a" ADD COLUMN "c" text;']);
+      const file = writeMigration(folder, 'add-b-to-a', sql);
+
+      expect(file).toBe(join(folder, '0001_add-b-to-a.sql'));
+      expect(readFileSync(file, 'utf-8')).toBe('ALTER TABLE "a" ADD COLUMN "b" text;--> statement-breakpoint\nALTER TABLE "a" ADD COLUMN "c" text;\n');
+      const journal = JSON.parse(readFileSync(join(folder, 'meta', '_journal.json'), 'utf-8'));
+      expect(journal.entries[1]).toMatchObject({ idx: 1, version: '7', tag: '0001_add-b-to-a', breakpoints: true });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  applyRestore,
+  collectSnapshotFiles,
+  diffLines,
+  hashContent,
+  isBinary,
+  normalizeSnapshotPath,
+  planRestore,
+} from '../src/lib/snapshots';
+
+function entry(path: string, content: string) {
+  return { path, hash: hashContent(Buffer.from(content)), size: Buffer.byteLength(content) };
+}
+
+describe('snapshots', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `codebakers-snapshots-test-${Date.now()}`);
+    mkdirSync(join(testDir, 'src'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('collects project files but not dependencies, build output or secrets', () => {
+    writeFileSync(join(testDir, 'src', 'index.ts'), 'export {};\n');
+    writeFileSync(join(testDir, '.env.local'), 'SECRET=1');
+    mkdirSync(join(testDir, 'node_modules', 'pkg'), { recursive: true });
+    writeFileSync(join(testDir, 'node_modules', 'pkg', 'index.js'), '');
+    mkdirSync(join(testDir, '.next'));
+    writeFileSync(join(testDir, '.next', 'build.js'), '');
+
+    const files = collectSnapshotFiles(testDir);
+
+    expect(files.map((f) => f.path)).toEqual(['src/index.ts']);
+    expect(files[0].hash).toBe(hashContent(Buffer.from('export {};\n')));
+  });
+
+  it('honours .gitignore files and never collects credentials', () => {
+    writeFileSync(join(testDir, '.gitignore'), '# local\n/tmp/\n*.sqlite\n!keep.sqlite\n.npmrc\n!server.pem\n');
+    writeFileSync(join(testDir, 'src', 'index.ts'), 'export {};\n');
+    writeFileSync(join(testDir, 'src', 'dev.sqlite'), '');
+    writeFileSync(join(testDir, 'src', 'keep.sqlite'), '');
+    mkdirSync(join(testDir, 'tmp'));
+    writeFileSync(join(testDir, 'tmp', 'scratch.ts'), '');
+    mkdirSync(join(testDir, 'src', 'tmp'));
+    writeFileSync(join(testDir, 'src', 'tmp', 'nested.ts'), '');
+    mkdirSync(join(testDir, 'src', 'generated'));
+    writeFileSync(join(testDir, 'src', 'generated', '.gitignore'), '*\n!.gitignore\n');
+    writeFileSync(join(testDir, 'src', 'generated', 'types.ts'), '');
+    for (const secret of ['.npmrc', 'server.pem', 'tls.key', 'id_ed25519', 'gcp-credentials.json', 'service-account.json']) {
+      writeFileSync(join(testDir, secret), 'secret');
+    }
+
+    const files = collectSnapshotFiles(testDir);
+
+    expect(files.map((f) => f.path)).toEqual([
+      '.gitignore',
+      'src/generated/.gitignore',
+      'src/index.ts',
+      'src/keep.sqlite',
+      'src/tmp/nested.ts',
+    ]);
+  });
+
+  it('plans a whole-tree restore with writes and deletions', () => {
+    const snapshot = [entry('a.ts', 'one'), entry('b.ts', 'two'), entry('c.ts', 'three')];
+    const local = [entry('a.ts', 'one'), entry('b.ts', 'changed'), entry('new.ts', 'new')];
+
+    const plan = planRestore(snapshot, local, null);
+
+    expect(plan.write.map((f) => [f.path, f.status])).toEqual([['b.ts', 'modified'], ['c.ts', 'added']]);
+    expect(plan.remove).toEqual(['new.ts']);
+    expect(plan.unchanged).toBe(1);
+  });
+
+  it('leaves other files alone when restoring single files', () => {
+    const snapshot = [entry('a.ts', 'one'), entry('b.ts', 'two')];
+    const local = [entry('a.ts', 'changed'), entry('b.ts', 'changed'), entry('new.ts', 'new')];
+
+    const plan = planRestore(snapshot, local, ['a.ts']);
+
+    expect(plan.write.map((f) => f.path)).toEqual(['a.ts']);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it('refuses paths outside the project', () => {
+    expect(normalizeSnapshotPath('src\\index.ts')).toBe('src/index.ts');
+    expect(normalizeSnapshotPath('../etc/passwd')).toBeNull();
+    expect(normalizeSnapshotPath('/etc/passwd')).toBeNull();
+    expect(normalizeSnapshotPath('C:/Windows')).toBeNull();
+
+    const plan = { write: [{ ...entry('../escape.ts', 'x'), status: 'added' as const }], remove: [], unchanged: 0 };
+    const contents = [{ ...plan.write[0], content: 'x', encoding: 'utf8' as const }];
+    expect(() => applyRestore(testDir, plan, contents)).toThrow();
+  });
+
+  it('writes restored files and deletes the ones not in the snapshot', () => {
+    writeFileSync(join(testDir, 'extra.ts'), 'extra');
+    const plan = {
+      write: [{ ...entry('src/deep/file.ts', 'restored'), status: 'added' as const }],
+      remove: ['extra.ts'],
+      unchanged: 0,
+    };
+
+    applyRestore(testDir, plan, [{ ...plan.write[0], content: 'restored', encoding: 'utf8' }]);
+
+    expect(readFileSync(join(testDir, 'src', 'deep', 'file.ts'), 'utf-8')).toBe('restored');
+    expect(existsSync(join(testDir, 'extra.ts'))).toBe(false);
+  });
+
+  it('diffs lines and detects binary files', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual(['- 2: b', '+ 2: B']);
+    expect(isBinary(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00]))).toBe(true);
+    expect(isBinary(Buffer.from('plain text ✓'))).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import {
+  loadTemplateDir,
+  parseTemplateRef,
+  parseTemplateVars,
+  renderTemplate,
+  resolveTemplate,
+  resolveTemplateValues,
+  shellQuote,
+  validateTemplatePackage,
+  writeTemplate,
+  type TemplateManifest,
+} from '../src/lib/templates';
+
+// Template errors are ApiError objects, not Errors
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+const MANIFEST: TemplateManifest = {
+  name: 'saas-starter',
+  version: '1.2.0',
+  stack: { framework: 'nextjs', payments: 'stripe' },
+  variables: [
+    { name: 'projectName', required: true },
+    { name: 'useStripe', type: 'boolean', default: false },
+    { name: 'auth', default: 'supabase' },
+  ],
+  directories: ['public', 'src/lib/stripe/webhooks'],
+  conditions: {
+    'src/lib/stripe': 'useStripe',
+    'src/lib/clerk.ts': 'auth == clerk',
+  },
+  postInstall: [
+    { run: 'npm install' },
+    { run: 'npx stripe login', when: 'useStripe' },
+  ],
+};
+
+describe('templates', () => {
+  let testDir: string;
+
+  const writeTemplateDir = (manifest: unknown, files: Record<string, string>) => {
+    const dir = join(testDir, 'template');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'template.json'), JSON.stringify(manifest));
+    for (const [path, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(dir, 'files', path)), { recursive: true });
+      writeFileSync(join(dir, 'files', path), content);
+    }
+    return dir;
+  };
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `codebakers-templates-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('loads a template directory', () => {
+    const dir = writeTemplateDir(MANIFEST, {
+      'package.json': '{"name":"{{projectName}}"}',
+      'src/lib/stripe/client.ts': 'export const stripe = 1;',
+      'node_modules/left-pad/index.js': 'ignored',
+    });
+
+    const pkg = loadTemplateDir(dir);
+    expect(pkg.manifest).toEqual(MANIFEST);
+    expect(pkg.files.map((f) => f.path)).toEqual(['package.json', 'src/lib/stripe/client.ts']);
+
+    writeFileSync(join(dir, 'template.json'), JSON.stringify({ ...MANIFEST, version: 'latest' }));
+    expect(thrown(() => loadTemplateDir(dir))).toMatchObject({ error: expect.stringContaining('semver') });
+    expect(thrown(() => loadTemplateDir(testDir))).toMatchObject({ error: expect.stringContaining('No template.json') });
+  });
+
+  it('validates conditions against declared variables', () => {
+    const files = [{ path: 'a.ts', content: '' }];
+    expect(validateTemplatePackage({ manifest: MANIFEST, files })).toBeNull();
+    expect(validateTemplatePackage({ manifest: { ...MANIFEST, conditions: { 'a.ts': 'usePaddle' } }, files }))
+      .toContain('unknown variable "usePaddle"');
+    expect(validateTemplatePackage({ manifest: { ...MANIFEST, conditions: { 'a.ts': 'useStripe &&' } }, files }))
+      .toContain('is not a condition');
+    expect(validateTemplatePackage({ manifest: MANIFEST, files: [{ path: '../a.ts', content: '' }] }))
+      .toBe('Invalid file path: ../a.ts');
+  });
+
+  it('resolves variables with defaults, types and required values', () => {
+    const { values, missing } = resolveTemplateValues(MANIFEST, parseTemplateVars(['useStripe=yes', 'auth=clerk']));
+    expect(values).toEqual({ projectName: '', useStripe: true, auth: 'clerk' });
+    expect(missing.map((v) => v.name)).toEqual(['projectName']);
+
+    expect(resolveTemplateValues(MANIFEST, { projectName: 'shop' })).toEqual({
+      values: { projectName: 'shop', useStripe: false, auth: 'supabase' },
+      missing: [],
+    });
+    expect(parseTemplateVars(['greeting=a=b'])).toEqual({ greeting: 'a=b' });
+    expect(thrown(() => parseTemplateVars(['useStripe']))).toMatchObject({ error: 'Invalid --var "useStripe"' });
+  });
+
+  it('renders conditional files, directories, steps and placeholders', () => {
+    const pkg = {
+      manifest: MANIFEST,
+      files: [
+        { path: 'package.json', content: '{"name":"{{projectName}}","note":"{{ unknown }}"}' },
+        { path: 'src/{{projectName}}.ts', content: 'export {};' },
+        { path: 'src/lib/stripe/client.ts', content: '' },
+        { path: 'src/lib/clerk.ts', content: '' },
+      ],
+    };
+
+    const plain = renderTemplate(pkg, resolveTemplateValues(MANIFEST, { projectName: 'shop' }).values);
+    expect(plain.files.map((f) => f.path)).toEqual(['package.json', 'src/shop.ts']);
+    expect(plain.files[0].content).toBe('{"name":"shop","note":"{{ unknown }}"}');
+    expect(plain.directories).toEqual(['public']);
+    expect(plain.postInstall.map((s) => s.run)).toEqual(['npm install']);
+
+    const full = renderTemplate(pkg, resolveTemplateValues(MANIFEST, { projectName: 'shop', useStripe: true, auth: 'clerk' }).values);
+    expect(full.files.map((f) => f.path)).toEqual(['package.json', 'src/shop.ts', 'src/lib/stripe/client.ts', 'src/lib/clerk.ts']);
+    expect(full.directories).toEqual(['public', 'src/lib/stripe/webhooks']);
+    expect(full.postInstall.map((s) => s.run)).toEqual(['npm install', 'npx stripe login']);
+  });
+
+  it('quotes variable values in setup commands', () => {
+    const pkg = {
+      manifest: { ...MANIFEST, postInstall: [{ run: 'npx create-db {{projectName}}' }] },
+      files: [{ path: 'a.ts', content: '{{projectName}}' }],
+    };
+
+    expect(renderTemplate(pkg, { projectName: 'shop' }).postInstall[0].run).toBe('npx create-db shop');
+    const hostile = renderTemplate(pkg, { projectName: "x'; rm -rf ~" });
+    expect(hostile.postInstall[0].run).toBe(`npx create-db 'x'\\''; rm -rf ~'`);
+    expect(hostile.files[0].content).toBe("x'; rm -rf ~");
+
+    expect(shellQuote('my app', 'win32')).toBe('"my app"');
+    expect(thrown(() => shellQuote('a" & del *', 'win32'))).toMatchObject({ error: expect.stringContaining('cannot be used') });
+  });
+
+  it('writes rendered files and refuses paths outside the project', () => {
+    const out = join(testDir, 'out');
+    const written = writeTemplate(out, {
+      files: [{ path: 'src/index.ts', content: 'export {};' }],
+      directories: ['public'],
+      postInstall: [],
+    });
+    expect(written).toEqual(['src/index.ts']);
+    expect(readFileSync(join(out, 'src/index.ts'), 'utf-8')).toBe('export {};');
+    expect(existsSync(join(out, 'public'))).toBe(true);
+
+    // A placeholder value can turn a safe path into an unsafe one
+    const rendered = renderTemplate(
+      { manifest: MANIFEST, files: [{ path: 'src/{{projectName}}/index.ts', content: '' }] },
+      { projectName: '../../escape' }
+    );
+    expect(thrown(() => writeTemplate(out, rendered))).toMatchObject({ error: expect.stringContaining('outside the project') });
+    expect(existsSync(join(testDir, 'escape'))).toBe(false);
+  });
+
+  it('resolves local directories and the built-in template without the server', async () => {
+    const dir = writeTemplateDir(MANIFEST, { 'package.json': '{}' });
+    await expect(resolveTemplate('./template', testDir)).resolves.toMatchObject({ source: 'local', manifest: { name: 'saas-starter' } });
+    await expect(resolveTemplate(dir)).resolves.toMatchObject({ source: 'local' });
+
+    const builtin = await resolveTemplate('nextjs-supabase@1.0.0', testDir);
+    expect(builtin.source).toBe('builtin');
+    expect(validateTemplatePackage(builtin)).toBeNull();
+    const rendered = renderTemplate(builtin, resolveTemplateValues(builtin.manifest, { projectName: 'shop' }).values);
+    expect(JSON.parse(rendered.files.find((f) => f.path === 'package.json')!.content).name).toBe('shop');
+
+    expect(parseTemplateRef('saas-starter@2.0.0')).toEqual({ name: 'saas-starter', version: '2.0.0' });
+    expect(parseTemplateRef('saas-starter')).toEqual({ name: 'saas-starter' });
+  });
+});
@@ -48,6 +48,16 @@ async function main() {
             return { path: require.resolve('node-fetch'), external: false };
           });
         }
+      },
+      {
+        name: 'shared-typescript',
+        setup(build) {
+          // The code index shared with the CLI (../cli/src/lib/code-index.ts)
+          // bundles this package's typescript, not the CLI's
+          build.onResolve({ filter: /^typescript$/ }, args => {
+            return { path: require.resolve('typescript'), external: false };
+          });
+        }
       }
     ],
   });
@@ -746,9 +746,7 @@ export class CodeBakersClient {
               lastMessage.substring(0, 100), // Use first 100 chars as feature name
               filesModified,
               testsWritten,
-              testsWritten.length > 0, // testsRun
-              tscResult?.passed ?? true, // testsPassed (use TSC as proxy)
-              tscResult?.passed ?? true  // typescriptPassed
+              tscResult
             );
 
             if (gate2Result) {
@@ -1410,9 +1408,7 @@ If any checkbox is NO, fix it before responding.
     featureName: string,
     filesModified: string[],
     testsWritten: string[] = [],
-    testsRun: boolean = false,
-    testsPassed: boolean = false,
-    typescriptPassed: boolean = true
+    tscResult?: TypeScriptCheckResult
   ): Promise<{
     passed: boolean;
     issues: string[];
@@ -1437,9 +1433,10 @@ If any checkbox is NO, fix it before responding.
           featureName,
           filesModified,
           testsWritten,
-          testsRun,
-          testsPassed,
-          typescriptPassed,
+          // The server only accepts reports as evidence; the extension doesn't run tests itself
+          evidence: tscResult?.output !== undefined
+            ? { typescript: { output: tscResult.output, exitCode: tscResult.exitCode ?? 0 } }
+            : {},
         }),
       }, 15000);
 
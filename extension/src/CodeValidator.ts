@@ -4,6 +4,7 @@ import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { FileOperation } from './CodeBakersClient';
+import { CodeIndex, parseModule } from '../../cli/src/lib/code-index';
 
 const execAsync = promisify(exec);
 
@@ -25,6 +26,8 @@ export interface TypeScriptCheckResult {
     code: string;
   }>;
   errorCount: number;
+  output?: string; // Raw compiler output from a full-project check, sent as completion evidence
+  exitCode?: number;
 }
 
 export interface ValidationError {
@@ -67,6 +70,7 @@ export interface ExportInfo {
 export class CodeValidator {
   private workspaceRoot: string | undefined;
   private typeInventory: TypeInventory | null = null;
+  private codeIndex: CodeIndex | null = null;
   private installedPackages: Set<string> = new Set();
 
   constructor() {
@@ -125,107 +129,42 @@ export class CodeValidator {
       exports: new Map()
     };
 
-    // Find all TypeScript files
-    const files = await vscode.workspace.findFiles(
-      '**/*.{ts,tsx}',
-      '**/node_modules/**',
-      200
-    );
-
-    for (const file of files) {
-      try {
-        const content = fs.readFileSync(file.fsPath, 'utf-8');
-        const relativePath = vscode.workspace.asRelativePath(file);
-
-        // Extract types and interfaces
-        this.extractTypes(content, relativePath);
-
-        // Extract exports
-        this.extractExports(content, relativePath);
-      } catch (error) {
-        // Skip files we can't read
+    try {
+      if (this.codeIndex) {
+        this.codeIndex.refresh();
+      } else {
+        this.codeIndex = CodeIndex.load(this.workspaceRoot);
       }
+      this.codeIndex.save();
+    } catch (error) {
+      console.error('CodeValidator: Failed to index project:', error);
+      return;
     }
 
-    console.log(`CodeValidator: Found ${this.typeInventory.types.size} types, ${this.typeInventory.exports.size} files with exports`);
-  }
-
-  /**
-   * Extract type definitions from file content
-   */
-  private extractTypes(content: string, filePath: string): void {
-    if (!this.typeInventory) return;
-
-    // Match interfaces
-    const interfaceRegex = /export\s+interface\s+(\w+)/g;
-    let match;
-    while ((match = interfaceRegex.exec(content)) !== null) {
-      this.typeInventory.types.set(match[1], {
-        name: match[1],
-        file: filePath,
-        kind: 'interface',
-        exported: true
-      });
-    }
-
-    // Match type aliases
-    const typeRegex = /export\s+type\s+(\w+)/g;
-    while ((match = typeRegex.exec(content)) !== null) {
-      this.typeInventory.types.set(match[1], {
-        name: match[1],
-        file: filePath,
-        kind: 'type',
-        exported: true
-      });
-    }
-
-    // Match enums
-    const enumRegex = /export\s+enum\s+(\w+)/g;
-    while ((match = enumRegex.exec(content)) !== null) {
-      this.typeInventory.types.set(match[1], {
-        name: match[1],
-        file: filePath,
-        kind: 'enum',
-        exported: true
-      });
-    }
-  }
-
-  /**
-   * Extract exports from file content
-   */
-  private extractExports(content: string, filePath: string): void {
-    if (!this.typeInventory) return;
-
-    const exports: ExportInfo[] = [];
-
-    // Match exported functions
-    const funcRegex = /export\s+(?:async\s+)?function\s+(\w+)/g;
-    let match;
-    while ((match = funcRegex.exec(content)) !== null) {
-      exports.push({ name: match[1], file: filePath, kind: 'function' });
-    }
-
-    // Match exported consts
-    const constRegex = /export\s+const\s+(\w+)/g;
-    while ((match = constRegex.exec(content)) !== null) {
-      exports.push({ name: match[1], file: filePath, kind: 'const' });
-    }
+    for (const file of this.codeIndex.listFiles()) {
+      const exports: ExportInfo[] = [];
 
-    // Match exported classes
-    const classRegex = /export\s+class\s+(\w+)/g;
-    while ((match = classRegex.exec(content)) !== null) {
-      exports.push({ name: match[1], file: filePath, kind: 'class' });
-    }
+      for (const exp of file.exports) {
+        if (exp.kind === 'interface' || exp.kind === 'type' || exp.kind === 'enum') {
+          this.typeInventory.types.set(exp.name, {
+            name: exp.name,
+            file: file.relativePath,
+            kind: exp.kind,
+            exported: true
+          });
+        } else if (exp.kind === 'function' || exp.kind === 'class' || exp.kind === 'default') {
+          exports.push({ name: exp.name, file: file.relativePath, kind: exp.kind });
+        } else if (exp.kind === 'variable') {
+          exports.push({ name: exp.name, file: file.relativePath, kind: 'const' });
+        }
+      }
 
-    // Match default exports
-    if (/export\s+default/.test(content)) {
-      exports.push({ name: 'default', file: filePath, kind: 'default' });
+      if (exports.length > 0) {
+        this.typeInventory.exports.set(file.relativePath, exports);
+      }
     }
 
-    if (exports.length > 0) {
-      this.typeInventory.exports.set(filePath, exports);
-    }
+    console.log(`CodeValidator: Found ${this.typeInventory.types.size} types, ${this.typeInventory.exports.size} files with exports`);
   }
 
   /**
@@ -243,14 +182,13 @@ export class CodeValidator {
     for (const op of fileOperations) {
       if (!op.content) continue;
 
-      // Extract import statements
-      const importRegex = /import\s+.*?\s+from\s+['"]([^'"./][^'"]*)['"]/g;
-      let match;
-      while ((match = importRegex.exec(op.content)) !== null) {
-        const pkg = match[1].split('/')[0]; // Handle scoped packages
+      for (const imp of parseModule(op.path, op.content).imports) {
+        if (!this.isPackageImport(imp.specifier, op.path)) continue;
+
+        const pkg = imp.specifier.replace(/^node:/, '').split('/')[0]; // Handle scoped packages
         if (pkg.startsWith('@')) {
           // Scoped package like @tanstack/react-query
-          const scopedPkg = match[1].split('/').slice(0, 2).join('/');
+          const scopedPkg = imp.specifier.split('/').slice(0, 2).join('/');
           requiredPackages.add(scopedPkg);
         } else {
           requiredPackages.add(pkg);
@@ -289,11 +227,17 @@ export class CodeValidator {
       suggestions: []
     };
 
+    // Files created in this batch can be imported by the others
+    const root = this.workspaceRoot;
+    const pendingFiles = new Set(
+      root ? fileOperations.filter(op => op.action !== 'delete').map(op => path.resolve(root, op.path)) : []
+    );
+
     for (const op of fileOperations) {
       if (!op.content || op.action === 'delete') continue;
 
       // Check imports resolve
-      const importErrors = this.validateImports(op);
+      const importErrors = this.validateImports(op, pendingFiles);
       result.errors.push(...importErrors);
 
       // Check for type issues
@@ -334,41 +278,43 @@ export class CodeValidator {
   }
 
   /**
-   * Validate that imports can resolve
+   * Validate that imports can resolve, the way tsc resolves them (tsconfig
+   * paths and project references included)
    */
-  private validateImports(op: FileOperation): ValidationError[] {
+  private validateImports(op: FileOperation, pendingFiles: Set<string>): ValidationError[] {
     const errors: ValidationError[] = [];
-    if (!op.content || !this.workspaceRoot) return errors;
-
-    // Match relative imports
-    const relativeImportRegex = /import\s+.*?\s+from\s+['"](\.[^'"]+)['"]/g;
-    let match;
-
-    while ((match = relativeImportRegex.exec(op.content)) !== null) {
-      const importPath = match[1];
-      const opDir = path.dirname(op.path);
-      const resolvedPath = path.join(this.workspaceRoot, opDir, importPath);
-
-      // Check if file exists (try various extensions)
-      const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx'];
-      const exists = extensions.some(ext => {
-        const fullPath = resolvedPath + ext;
-        return fs.existsSync(fullPath);
-      });
+    if (!op.content || !this.workspaceRoot || !this.codeIndex) return errors;
 
-      // Also check if it's being created in this batch
-      const isBeingCreated = importPath.replace(/^\.\//, '').replace(/^\.\.\//, '');
-      // Skip validation for imports that might be to other new files
+    const filePath = path.resolve(this.workspaceRoot, op.path);
 
-      if (!exists) {
-        // This might be a new file being created, so just warn
-        // Don't add as error since we might be creating multiple files
+    for (const imp of parseModule(filePath, op.content).imports) {
+      const { resolvedPath, external } = this.codeIndex.resolveImport(imp.specifier, filePath, pendingFiles);
+
+      // Packages are checked by checkDependencies
+      if (!resolvedPath && !external) {
+        errors.push({
+          file: op.path,
+          line: imp.line,
+          message: `Cannot resolve import '${imp.specifier}'`,
+          type: 'import'
+        });
       }
     }
 
     return errors;
   }
 
+  /**
+   * Whether an import names a package rather than a project file
+   */
+  private isPackageImport(specifier: string, filePath: string): boolean {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) return false;
+    if (!this.codeIndex || !this.workspaceRoot) return true;
+
+    // Path aliases like @/lib/db look like scoped packages
+    return this.codeIndex.resolveImport(specifier, path.resolve(this.workspaceRoot, filePath)).external;
+  }
+
   /**
    * Check for problematic type usage
    */
@@ -560,13 +506,13 @@ export class CodeValidator {
 
     try {
       // Run tsc --noEmit to check for type errors without emitting
-      await execAsync('npx tsc --noEmit', {
+      const { stdout } = await execAsync('npx tsc --noEmit', {
         cwd: this.workspaceRoot,
         timeout: 60000 // 60 second timeout
       });
 
       // If we get here, no errors
-      return { passed: true, errors: [], errorCount: 0 };
+      return { passed: true, errors: [], errorCount: 0, output: stdout, exitCode: 0 };
     } catch (error: any) {
       // Parse TypeScript errors from stdout/stderr
       const output = error.stdout || error.stderr || '';
@@ -575,7 +521,9 @@ export class CodeValidator {
       return {
         passed: false,
         errors,
-        errorCount: errors.length
+        errorCount: errors.length,
+        output,
+        exitCode: typeof error.code === 'number' ? error.code : 1
       };
     }
   }
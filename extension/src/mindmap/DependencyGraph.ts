@@ -21,6 +21,7 @@ import {
   MethodInfo,
   IssueSeverity,
 } from './types';
+import { CodeIndex, IndexedFile } from '../../../cli/src/lib/code-index';
 
 export class DependencyGraph {
   private nodes: Map<string, CodeNode> = new Map();
@@ -28,6 +29,7 @@ export class DependencyGraph {
   private groups: NodeGroup[] = [];
   private projectPath: string;
   private projectName: string;
+  private codeIndex: CodeIndex | null = null;
 
   // File patterns to analyze
   private readonly FILE_PATTERNS = [
@@ -71,6 +73,13 @@ export class DependencyGraph {
 
     console.log(`MindMap: Analyzing project at ${this.projectPath}`);
 
+    // Imports and exports come from the code index shared with the CLI - only changed files are re-parsed
+    if (this.codeIndex?.root === this.projectPath) {
+      this.codeIndex.refresh();
+    } else {
+      this.codeIndex = CodeIndex.load(this.projectPath);
+    }
+
     // Find all relevant files
     const files = await this.findFiles();
     console.log(`MindMap: Found ${files.length} files to analyze`);
@@ -86,6 +95,7 @@ export class DependencyGraph {
 
     // Build edges from import relationships
     this.buildEdges();
+    this.codeIndex.save();
 
     // Auto-group by directory
     this.autoGroupByDirectory();
@@ -150,11 +160,10 @@ export class DependencyGraph {
     const fileNode = this.createFileNode(fileNodeId, relativePath, content);
     this.nodes.set(fileNodeId, fileNode);
 
-    // Extract imports
-    fileNode.imports = this.extractImports(content);
-
-    // Extract exports
-    fileNode.exports = this.extractExports(content);
+    // Imports and exports
+    const indexed = this.codeIndex?.getFile(filePath);
+    fileNode.imports = indexed ? this.toImportInfo(indexed) : [];
+    fileNode.exports = indexed ? this.toExportInfo(indexed) : [];
 
     // Detect node type based on file content and path
     const detectedType = this.detectNodeType(filePath, content);
@@ -285,65 +294,27 @@ export class DependencyGraph {
   }
 
   /**
-   * Extract imports from file content
+   * Imports of an indexed file, one per imported name
    */
-  private extractImports(content: string): ImportInfo[] {
+  private toImportInfo(file: IndexedFile): ImportInfo[] {
     const imports: ImportInfo[] = [];
-    const lines = content.split('\n');
-
-    // Match various import patterns
-    const importPatterns = [
-      // import { a, b } from 'module'
-      /import\s*\{([^}]+)\}\s*from\s*['"]([^'"]+)['"]/g,
-      // import Name from 'module'
-      /import\s+(\w+)\s+from\s*['"]([^'"]+)['"]/g,
-      // import * as Name from 'module'
-      /import\s+\*\s+as\s+(\w+)\s+from\s*['"]([^'"]+)['"]/g,
-      // import type { a } from 'module'
-      /import\s+type\s*\{([^}]+)\}\s*from\s*['"]([^'"]+)['"]/g,
-    ];
 
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-      const line = lines[lineNum];
-
-      // Named imports: import { a, b } from 'module'
-      const namedMatch = line.match(/import\s*\{([^}]+)\}\s*from\s*['"]([^'"]+)['"]/);
-      if (namedMatch) {
-        const names = namedMatch[1].split(',').map((n) => n.trim().split(' as ')[0].trim());
-        const from = namedMatch[2];
-        for (const name of names) {
-          if (name) {
-            imports.push({
-              name,
-              from,
-              type: line.includes('import type') ? 'type' : 'named',
-              line: lineNum + 1,
-            });
-          }
-        }
-        continue;
-      }
+    for (const imp of file.imports) {
+      const resolvedPath = imp.resolvedPath ?? undefined;
 
-      // Default import: import Name from 'module'
-      const defaultMatch = line.match(/import\s+(\w+)\s+from\s*['"]([^'"]+)['"]/);
-      if (defaultMatch && !line.includes('{')) {
-        imports.push({
-          name: defaultMatch[1],
-          from: defaultMatch[2],
-          type: 'default',
-          line: lineNum + 1,
-        });
+      // Side-effect imports, `export *`, require() and import() still connect the files
+      if (imp.names.length === 0) {
+        imports.push({ name: '*', from: imp.specifier, type: 'namespace', line: imp.line, resolvedPath });
         continue;
       }
 
-      // Namespace import: import * as Name from 'module'
-      const namespaceMatch = line.match(/import\s+\*\s+as\s+(\w+)\s+from\s*['"]([^'"]+)['"]/);
-      if (namespaceMatch) {
+      for (const { name, local, typeOnly } of imp.names) {
         imports.push({
-          name: namespaceMatch[1],
-          from: namespaceMatch[2],
-          type: 'namespace',
-          line: lineNum + 1,
+          name: name === 'default' || name === '*' ? local : name,
+          from: imp.specifier,
+          type: typeOnly ? 'type' : name === 'default' ? 'default' : name === '*' ? 'namespace' : 'named',
+          line: imp.line,
+          resolvedPath,
         });
       }
     }
@@ -352,60 +323,14 @@ export class DependencyGraph {
   }
 
   /**
-   * Extract exports from file content
+   * Exports of an indexed file
    */
-  private extractExports(content: string): ExportInfo[] {
-    const exports: ExportInfo[] = [];
-    const lines = content.split('\n');
-
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-      const line = lines[lineNum];
-
-      // export default
-      if (/export\s+default/.test(line)) {
-        const nameMatch = line.match(/export\s+default\s+(?:function\s+|class\s+)?(\w+)/);
-        exports.push({
-          name: nameMatch ? nameMatch[1] : 'default',
-          type: 'default',
-          line: lineNum + 1,
-        });
-        continue;
-      }
-
-      // export interface
-      const interfaceMatch = line.match(/export\s+interface\s+(\w+)/);
-      if (interfaceMatch) {
-        exports.push({
-          name: interfaceMatch[1],
-          type: 'interface',
-          line: lineNum + 1,
-        });
-        continue;
-      }
-
-      // export type
-      const typeMatch = line.match(/export\s+type\s+(\w+)/);
-      if (typeMatch) {
-        exports.push({
-          name: typeMatch[1],
-          type: 'type',
-          line: lineNum + 1,
-        });
-        continue;
-      }
-
-      // export function/const/class
-      const namedMatch = line.match(/export\s+(?:async\s+)?(?:function|const|let|var|class)\s+(\w+)/);
-      if (namedMatch) {
-        exports.push({
-          name: namedMatch[1],
-          type: 'named',
-          line: lineNum + 1,
-        });
-      }
-    }
-
-    return exports;
+  private toExportInfo(file: IndexedFile): ExportInfo[] {
+    return file.exports.map((exp) => ({
+      name: exp.kind === 'default' ? exp.localName ?? 'default' : exp.name,
+      type: exp.kind === 'default' || exp.kind === 'interface' || exp.kind === 'type' ? exp.kind : 'named',
+      line: exp.line,
+    }));
   }
 
   /**
@@ -630,8 +555,10 @@ export class DependencyGraph {
       if (!node.imports) continue;
 
       for (const imp of node.imports) {
-        const targetId = this.resolveImport(imp.from, node.path);
-        if (targetId && this.nodes.has(targetId)) {
+        if (!imp.resolvedPath) continue;
+
+        const targetId = this.pathToId(path.relative(this.projectPath, imp.resolvedPath));
+        if (this.nodes.has(targetId)) {
           const edgeType: EdgeType = imp.type === 'type' ? 'uses_type' : 'imports';
           this.addEdge(nodeId, targetId, edgeType, imp.name);
         }
@@ -639,39 +566,6 @@ export class DependencyGraph {
     }
   }
 
-  /**
-   * Resolve import path to node ID
-   */
-  private resolveImport(importPath: string, fromPath: string): string | null {
-    // Skip external modules
-    if (!importPath.startsWith('.') && !importPath.startsWith('@/')) {
-      return null;
-    }
-
-    let resolvedPath: string;
-
-    if (importPath.startsWith('@/')) {
-      // Alias import
-      resolvedPath = importPath.replace('@/', 'src/');
-    } else {
-      // Relative import
-      const fromDir = path.dirname(fromPath);
-      resolvedPath = path.join(fromDir, importPath);
-    }
-
-    // Try with extensions
-    const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx'];
-    for (const ext of extensions) {
-      const testPath = resolvedPath + ext;
-      const nodeId = this.pathToId(testPath);
-      if (this.nodes.has(nodeId)) {
-        return nodeId;
-      }
-    }
-
-    return null;
-  }
-
   /**
    * Add an edge between two nodes
    */
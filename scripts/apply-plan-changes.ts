@@ -0,0 +1,26 @@
+/**
+ * Apply Plan Changes
+ * Applies scheduled plan changes whose effective date has passed - trims
+ * members and API keys for downgrades and moves the team to the new plan.
+ * Run on a schedule with: npx tsx scripts/apply-plan-changes.ts
+ */
+
+import 'dotenv/config';
+import { PlanChangeService } from '../src/services/plan-change-service';
+
+async function main() {
+  console.log('Applying due plan changes...\n');
+
+  const { applied, failed, waiting } = await PlanChangeService.applyDue();
+
+  console.log(`Applied: ${applied}`);
+  console.log(`Failed: ${failed}`);
+  console.log(`Waiting for PayPal approval: ${waiting}`);
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Applying plan changes failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+/**
+ * Content Rollout Check
+ * Rolls back content releases from the last 72 hours whose teams report
+ * noticeably more module problems or production errors than before the publish.
+ * Run on a schedule with: npx tsx scripts/check-content-rollouts.ts
+ */
+
+import 'dotenv/config';
+import { ContentRolloutService } from '../src/services/content-rollout-service';
+
+async function main() {
+  console.log('Checking content rollouts...\n');
+
+  const rollbacks = await ContentRolloutService.checkForRegressions();
+
+  if (rollbacks.length === 0) {
+    console.log('No regressions found');
+  }
+  for (const rollback of rollbacks) {
+    console.log(`Rolled back ${rollback.version} on ${rollback.channel}: ${rollback.reason}`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Rollout check failed:', error);
+  process.exit(1);
+});
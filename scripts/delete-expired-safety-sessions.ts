@@ -0,0 +1,22 @@
+/**
+ * Delete Expired Safety Sessions
+ * Removes /api/safety sessions past their 7-day TTL, with their history.
+ * Run on a schedule with: npx tsx scripts/delete-expired-safety-sessions.ts
+ */
+
+import 'dotenv/config';
+import { SafetyStateService } from '../src/services/safety-state-service';
+
+async function main() {
+  console.log('Deleting expired safety sessions...\n');
+
+  const deleted = await SafetyStateService.deleteExpired();
+
+  console.log(`Deleted: ${deleted}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Deleting expired safety sessions failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+/**
+ * Billing Reconciliation
+ * Compares Stripe, Square and PayPal subscriptions with teams, applies safe
+ * corrections and leaves the rest for review in admin/subscriptions.
+ * Run on a schedule with: npx tsx scripts/reconcile-billing.ts [--dry-run]
+ */
+
+import 'dotenv/config';
+import { BillingReconciliationService } from '../src/services/billing-reconciliation-service';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`Reconciling billing${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const { run, summary, items } = await BillingReconciliationService.run({ applySafe: !dryRun });
+
+  console.log(`Run ${run.id}: ${summary.teamsChecked} teams checked`);
+  for (const [provider, count] of Object.entries(summary.subscriptionsChecked)) {
+    console.log(`  ${provider}: ${count} subscriptions`);
+  }
+  for (const [provider, message] of Object.entries(summary.providerErrors)) {
+    console.log(`  ${provider}: SKIPPED - ${message}`);
+  }
+
+  console.log(`\nDrift: ${summary.drift} (${summary.applied} corrected, ${summary.pendingReview} for review)`);
+  for (const item of items) {
+    console.log(`  [${item.resolution}] ${item.kind} ${item.provider}:${item.subscriptionId} team=${item.teamId ?? '-'} - ${item.reason}`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Reconciliation failed:', error);
+  process.exit(1);
+});
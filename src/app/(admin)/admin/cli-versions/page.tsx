@@ -77,12 +77,20 @@ interface CliVersion {
   stableAt: string | null;
   deprecatedAt: string | null;
   blockedAt: string | null;
+  haltedAt: string | null;
+  haltReason: string | null;
   createdAt: string;
   updatedAt: string;
   publisher?: {
     name: string | null;
     email: string | null;
   };
+  cohort?: {
+    assigned: number;
+    installs: number;
+    erroringInstalls: number;
+    errorRate: number;
+  };
 }
 
 interface ErrorReport {
@@ -224,7 +232,7 @@ export default function CliVersionsPage() {
     }
   };
 
-  const updateVersion = async (id: string, updates: Partial<CliVersion>) => {
+  const updateVersion = async (id: string, updates: Partial<CliVersion> & { halted?: boolean }) => {
     setIsUpdating(id);
     try {
       const res = await fetch(`/api/admin/cli-versions/${id}`, {
@@ -513,6 +521,21 @@ export default function CliVersionsPage() {
                           </span>
                         )}
 
+                        {/* Halted Rollout */}
+                        {version.haltedAt && (
+                          <Tooltip>
+                            <TooltipTrigger>
+                              <span className="flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-red-900/50 text-red-300 border border-red-700">
+                                <Pause className="h-3 w-3" />
+                                Rollout Halted
+                              </span>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>{version.haltReason || 'Rollout halted'}</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+
                         {/* Breaking Changes Warning */}
                         {version.breakingChanges && (
                           <Tooltip>
@@ -541,6 +564,29 @@ export default function CliVersionsPage() {
                           </div>
                         )}
 
+                        {/* Cohort */}
+                        {version.cohort && (version.cohort.assigned > 0 || version.cohort.installs > 0) && (
+                          <Tooltip>
+                            <TooltipTrigger>
+                              <div className="flex items-center gap-1.5">
+                                <Users className="h-3.5 w-3.5 text-slate-500" />
+                                <span className="text-slate-300 text-xs">
+                                  {version.cohort.assigned} assigned · {version.cohort.installs} running
+                                </span>
+                                <span className={`text-xs font-medium ${version.cohort.errorRate > 0.05 ? 'text-red-400' : 'text-slate-400'}`}>
+                                  {(version.cohort.errorRate * 100).toFixed(1)}% errors
+                                </span>
+                              </div>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>
+                                Last 7 days: installs told to run this version, installs running it, and the share of
+                                those that reported errors ({version.cohort.erroringInstalls})
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+
                         {/* Node Version */}
                         {version.minNodeVersion && (
                           <div className="flex items-center gap-1.5">
@@ -601,6 +647,29 @@ export default function CliVersionsPage() {
                           </Button>
                         )}
 
+                        {/* Halt / Resume Rollout for Stable */}
+                        {version.status === 'stable' && version.isAutoUpdateEnabled && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateVersion(version.id, { halted: !version.haltedAt })}
+                            disabled={isUpdating === version.id}
+                            className="border-slate-600 bg-slate-800 text-slate-200 hover:bg-slate-700 hover:text-white"
+                          >
+                            {version.haltedAt ? (
+                              <>
+                                <Play className="h-4 w-4 mr-1.5" />
+                                Resume Rollout
+                              </>
+                            ) : (
+                              <>
+                                <Pause className="h-4 w-4 mr-1.5" />
+                                Halt Rollout
+                              </>
+                            )}
+                          </Button>
+                        )}
+
                         {/* Promote to Stable for Draft/Testing */}
                         {(version.status === 'draft' || version.status === 'testing') && (
                           <Button
@@ -16,6 +16,9 @@ import {
   File,
   FileCode,
   RefreshCw,
+  Undo2,
+  ShieldAlert,
+  GitCompare,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
@@ -24,6 +27,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import type { ContentDiff } from '@/lib/content-diff';
 import {
   Dialog,
   DialogContent,
@@ -53,6 +57,46 @@ interface ContentVersion {
   totalLines: number;
 }
 
+type ContentChannel = 'stable' | 'beta' | 'canary';
+
+interface ContentRelease {
+  id: string;
+  channel: ContentChannel;
+  version: string;
+  previousVersion: string | null;
+  rolloutPercent: number;
+  status: 'rolling_out' | 'complete' | 'rolled_back' | 'superseded';
+  rollbackReason: string | null;
+  createdAt: string;
+  rolledBackAt: string | null;
+}
+
+interface RolloutOverview {
+  channels: Array<{ channel: ContentChannel; release: ContentRelease | null }>;
+  adoption: Array<{
+    versionId: string;
+    version: string;
+    channels: ContentChannel[];
+    assignedTeams: number;
+    pinnedTeams: number;
+    activeTeams: number;
+    fetches: number;
+  }>;
+  history: ContentRelease[];
+}
+
+interface VersionComparison {
+  from: string;
+  to: ContentVersion;
+}
+
+const releaseStatusStyles: Record<ContentRelease['status'], string> = {
+  rolling_out: 'bg-amber-600',
+  complete: 'bg-green-600',
+  rolled_back: 'bg-red-600',
+  superseded: 'bg-slate-600',
+};
+
 // Helper to count lines
 const countLines = (content: string) => content.split('\n').length;
 
@@ -133,6 +177,15 @@ export default function AdminContentPage() {
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<VersionDetail | null>(null);
   const [expandedModules, setExpandedModules] = useState(false);
+  const [rollouts, setRollouts] = useState<RolloutOverview | null>(null);
+  const [publishTarget, setPublishTarget] = useState<ContentVersion | null>(null);
+  const [publishChannel, setPublishChannel] = useState<ContentChannel>('stable');
+  const [publishPercent, setPublishPercent] = useState('100');
+  const [expandPercent, setExpandPercent] = useState<Record<string, string>>({});
+  const [releaseAction, setReleaseAction] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [diffResult, setDiffResult] = useState<{ diff: ContentDiff; changelog: string } | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
 
   // Form state
   const [newVersion, setNewVersion] = useState('');
@@ -151,8 +204,20 @@ export default function AdminContentPage() {
 
   useEffect(() => {
     fetchVersions();
+    fetchRollouts();
   }, []);
 
+  const fetchRollouts = async () => {
+    try {
+      const response = await fetch('/api/admin/content/rollouts');
+      if (!response.ok) throw new Error('Failed to fetch rollouts');
+      const data = await response.json();
+      setRollouts(data.data);
+    } catch {
+      toast.error('Failed to load rollouts');
+    }
+  };
+
   const fetchVersions = async () => {
     try {
       const response = await fetch('/api/admin/content');
@@ -287,24 +352,129 @@ export default function AdminContentPage() {
     }
   };
 
-  const handlePublish = async (versionId: string) => {
+  const handlePublish = (version: ContentVersion) => {
+    setPublishChannel('stable');
+    setPublishPercent('100');
+    setPublishTarget(version);
+  };
+
+  const handleConfirmPublish = async () => {
+    if (!publishTarget) return;
+
+    const versionId = publishTarget.id;
     setIsPublishing(versionId);
     try {
       const response = await fetch(`/api/admin/content/${versionId}/publish`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel: publishChannel, rolloutPercent: Number(publishPercent) }),
       });
 
-      if (!response.ok) throw new Error('Failed to publish version');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to publish version');
 
-      toast.success('Version published! Users will now receive this content.');
+      toast.success(data.data.message);
+      setPublishTarget(null);
       fetchVersions();
+      fetchRollouts();
     } catch (error) {
-      toast.error('Failed to publish version');
+      toast.error(error instanceof Error ? error.message : 'Failed to publish version');
     } finally {
       setIsPublishing(null);
     }
   };
 
+  const handleCompare = async (from: string, to: ContentVersion) => {
+    setComparison({ from, to });
+    setDiffResult(null);
+    setIsDiffing(true);
+    try {
+      const params = new URLSearchParams({ from, to: to.version });
+      const response = await fetch(`/api/admin/content/diff?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to compare versions');
+
+      setDiffResult(data.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to compare versions');
+    } finally {
+      setIsDiffing(false);
+    }
+  };
+
+  const handleUseChangelog = async () => {
+    if (!comparison || !diffResult) return;
+
+    try {
+      const response = await fetch(`/api/admin/content/${comparison.to.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changelog: diffResult.changelog }),
+      });
+
+      if (!response.ok) throw new Error('Failed to save changelog');
+
+      toast.success(`Changelog for v${comparison.to.version} updated`);
+      setComparison(null);
+      fetchVersions();
+    } catch {
+      toast.error('Failed to save changelog');
+    }
+  };
+
+  const handleReleaseAction = async (release: ContentRelease, action: 'expand' | 'rollback') => {
+    let body: Record<string, unknown>;
+    if (action === 'expand') {
+      body = { action, rolloutPercent: Number(expandPercent[release.id] || 100) };
+    } else {
+      const reason = prompt(`Roll back ${release.version} on ${release.channel}? Teams go back to ${release.previousVersion ?? 'the previous version'}.\n\nReason:`);
+      if (reason === null) return;
+      body = { action, reason: reason || undefined };
+    }
+
+    setReleaseAction(release.id);
+    try {
+      const response = await fetch(`/api/admin/content/rollouts/${release.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update release');
+
+      toast.success(action === 'expand' ? `Rollout widened to ${data.data.release.rolloutPercent}%` : 'Release rolled back');
+      fetchVersions();
+      fetchRollouts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update release');
+    } finally {
+      setReleaseAction(null);
+    }
+  };
+
+  const handleCheckRegressions = async () => {
+    setReleaseAction('check');
+    try {
+      const response = await fetch('/api/admin/content/rollouts', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to check rollouts');
+
+      const { rollbacks } = data.data;
+      if (rollbacks.length === 0) {
+        toast.success('No regressions found');
+      } else {
+        toast.warning(`Rolled back ${rollbacks.map((r: { version: string; channel: string }) => `${r.version} (${r.channel})`).join(', ')}`);
+        fetchVersions();
+        fetchRollouts();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to check rollouts');
+    } finally {
+      setReleaseAction(null);
+    }
+  };
+
   const handleDelete = async (versionId: string) => {
     if (!confirm('Are you sure you want to delete this version?')) return;
 
@@ -453,6 +623,177 @@ export default function AdminContentPage() {
         </Card>
       )}
 
+      {/* Rollouts */}
+      {rollouts && (
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-white">Release Channels</CardTitle>
+                <CardDescription className="text-slate-400">
+                  Staged rollouts per channel. Releases are rolled back automatically when module reports or production errors spike.
+                </CardDescription>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCheckRegressions}
+                disabled={releaseAction === 'check'}
+                className="border-slate-600 bg-slate-800 text-white hover:bg-slate-700"
+              >
+                {releaseAction === 'check' ? (
+                  <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                ) : (
+                  <ShieldAlert className="h-3 w-3 mr-1" />
+                )}
+                Check Now
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              {rollouts.channels.map(({ channel, release }) => (
+                <div key={channel} className="p-4 rounded-lg border border-slate-700 bg-slate-900/50 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-white font-medium capitalize">{channel}</span>
+                    {release && (
+                      <Badge className={releaseStatusStyles[release.status]}>
+                        {release.status.replace('_', ' ')}
+                      </Badge>
+                    )}
+                  </div>
+                  {!release ? (
+                    <p className="text-sm text-slate-500">
+                      {channel === 'stable' ? 'Serving the active version' : 'Following the more stable channels'}
+                    </p>
+                  ) : (
+                    <>
+                      <div className="text-sm text-slate-300">
+                        {release.status === 'rolled_back' ? (
+                          <>Serving {release.previousVersion ?? 'the fallback version'} (rolled back {release.version})</>
+                        ) : (
+                          <>
+                            {release.version} to {release.rolloutPercent}%
+                            {release.rolloutPercent < 100 && release.previousVersion && `, others on ${release.previousVersion}`}
+                          </>
+                        )}
+                      </div>
+                      {release.status === 'rolling_out' && (
+                        <div className="h-2 rounded bg-slate-800 overflow-hidden">
+                          <div className="h-full bg-amber-500" style={{ width: `${release.rolloutPercent}%` }} />
+                        </div>
+                      )}
+                      {release.rollbackReason && (
+                        <p className="text-xs text-red-300">{release.rollbackReason}</p>
+                      )}
+                      {(release.status === 'rolling_out' || release.status === 'complete') && (
+                        <div className="flex items-center gap-2">
+                          {release.status === 'rolling_out' && (
+                            <>
+                              <Input
+                                type="number"
+                                min={release.rolloutPercent + 1}
+                                max={100}
+                                value={expandPercent[release.id] ?? '100'}
+                                onChange={(e) => setExpandPercent({ ...expandPercent, [release.id]: e.target.value })}
+                                className="w-20 h-8 bg-slate-900 border-slate-600 text-white"
+                              />
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleReleaseAction(release, 'expand')}
+                                disabled={releaseAction === release.id}
+                                className="border-green-600 text-green-400 hover:bg-green-900/20"
+                              >
+                                Widen
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleReleaseAction(release, 'rollback')}
+                            disabled={releaseAction === release.id}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                          >
+                            <Undo2 className="h-3 w-3 mr-1" />
+                            Roll Back
+                          </Button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Adoption per version */}
+            {rollouts.adoption.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-white mb-2">Adoption</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-400 border-b border-slate-700">
+                      <th className="py-2 font-normal">Version</th>
+                      <th className="py-2 font-normal">Channels</th>
+                      <th className="py-2 font-normal text-right">Teams</th>
+                      <th className="py-2 font-normal text-right">Pinned</th>
+                      <th className="py-2 font-normal text-right">Active (7d)</th>
+                      <th className="py-2 font-normal text-right">Fetches (7d)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rollouts.adoption.map((row) => (
+                      <tr key={row.versionId} className="border-b border-slate-800 text-slate-300">
+                        <td className="py-2 font-medium text-white">{row.version}</td>
+                        <td className="py-2">
+                          <div className="flex gap-1">
+                            {row.channels.map((channel) => (
+                              <Badge key={channel} variant="outline" className="border-slate-600 text-slate-300 capitalize">
+                                {channel}
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 text-right">{row.assignedTeams.toLocaleString()}</td>
+                        <td className="py-2 text-right">{row.pinnedTeams.toLocaleString()}</td>
+                        <td className="py-2 text-right">{row.activeTeams.toLocaleString()}</td>
+                        <td className="py-2 text-right">{row.fetches.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Recent releases */}
+            {rollouts.history.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-white mb-2">Recent Releases</h4>
+                <div className="space-y-1">
+                  {rollouts.history.map((release) => (
+                    <div key={release.id} className="flex items-center justify-between text-sm text-slate-400">
+                      <span>
+                        <span className="text-white">{release.version}</span> to{' '}
+                        <span className="capitalize">{release.channel}</span>
+                        {release.previousVersion && ` (from ${release.previousVersion})`}
+                        {release.rollbackReason && <span className="text-red-300"> - {release.rollbackReason}</span>}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {new Date(release.createdAt).toLocaleDateString()}
+                        <Badge className={releaseStatusStyles[release.status]}>
+                          {release.status.replace('_', ' ')}
+                        </Badge>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Version History */}
       <Card className="bg-slate-800/50 border-slate-700">
         <CardHeader>
@@ -474,7 +815,7 @@ export default function AdminContentPage() {
             </div>
           ) : (
             <div className="space-y-3">
-              {versions.map((version) => (
+              {versions.map((version, index) => (
                 <div
                   key={version.id}
                   className={`border rounded-lg p-4 ${
@@ -552,7 +893,7 @@ export default function AdminContentPage() {
                       </div>
 
                       {version.changelog && (
-                        <p className="text-sm text-slate-400 mt-2 italic">
+                        <p className="text-sm text-slate-400 mt-2 italic whitespace-pre-line line-clamp-3">
                           {version.changelog}
                         </p>
                       )}
@@ -567,12 +908,23 @@ export default function AdminContentPage() {
                         <Eye className="h-3 w-3 mr-1" />
                         View
                       </Button>
+                      {index < versions.length - 1 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleCompare(versions[index + 1].version, version)}
+                          className="border-slate-600 bg-slate-800 text-white hover:bg-slate-700"
+                        >
+                          <GitCompare className="h-3 w-3 mr-1" />
+                          Changes
+                        </Button>
+                      )}
                       {!version.isActive && (
                         <>
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => handlePublish(version.id)}
+                            onClick={() => handlePublish(version)}
                             disabled={isPublishing === version.id}
                             className="border-green-600 text-green-400 hover:bg-green-900/20"
                           >
@@ -977,6 +1329,171 @@ export default function AdminContentPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Publish Dialog */}
+      <Dialog open={publishTarget !== null} onOpenChange={(open) => !open && setPublishTarget(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">Publish {publishTarget?.version}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Teams outside the rollout keep the version their channel serves now.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label className="text-slate-300">Channel</Label>
+              <select
+                value={publishChannel}
+                onChange={(e) => setPublishChannel(e.target.value as ContentChannel)}
+                className="w-full h-9 rounded-md bg-slate-900 border border-slate-600 text-white px-3 text-sm"
+              >
+                <option value="stable">Stable - every team not on another channel</option>
+                <option value="beta">Beta - beta and canary teams</option>
+                <option value="canary">Canary - canary teams only</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-slate-300">Rollout percentage</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={publishPercent}
+                onChange={(e) => setPublishPercent(e.target.value)}
+                className="bg-slate-900 border-slate-600 text-white"
+              />
+              {publishChannel === 'stable' && publishPercent === '100' && (
+                <p className="text-xs text-slate-400">This also makes it the active version.</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPublishTarget(null)}
+              className="border-slate-600 bg-slate-800 text-white hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirmPublish}
+              disabled={isPublishing !== null}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {isPublishing ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <Rocket className="h-4 w-4 mr-2" />
+              )}
+              Publish
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Compare Versions Dialog */}
+      <Dialog open={comparison !== null} onOpenChange={(open) => !open && setComparison(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-white">Changes in v{comparison?.to.version}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Module by module, compared with
+              <select
+                value={comparison?.from ?? ''}
+                onChange={(e) => comparison && handleCompare(e.target.value, comparison.to)}
+                className="ml-2 h-7 rounded-md bg-slate-900 border border-slate-600 text-white px-2 text-sm"
+              >
+                {versions
+                  .filter((v) => v.id !== comparison?.to.id)
+                  .map((v) => (
+                    <option key={v.id} value={v.version}>v{v.version}</option>
+                  ))}
+              </select>
+            </DialogDescription>
+          </DialogHeader>
+
+          {isDiffing || !diffResult ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
+            </div>
+          ) : diffResult.diff.modules.length === 0 ? (
+            <p className="text-center py-8 text-slate-400">No module changes between these versions</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline" className="border-slate-600 text-slate-300">
+                  {diffResult.diff.summary.modulesChanged} modules changed
+                </Badge>
+                <Badge variant="outline" className="border-green-700 text-green-300">
+                  +{diffResult.diff.summary.modulesAdded} modules
+                </Badge>
+                <Badge variant="outline" className="border-red-700 text-red-300">
+                  -{diffResult.diff.summary.modulesRemoved} modules
+                </Badge>
+                <Badge variant="outline" className="border-slate-600 text-slate-300">
+                  {diffResult.diff.summary.rulesAdded} rules added, {diffResult.diff.summary.rulesRemoved} removed, {diffResult.diff.summary.rulesChanged} reworded
+                </Badge>
+              </div>
+
+              {diffResult.diff.modules.map((module) => (
+                <div key={module.name} className="border border-slate-700 rounded-lg p-3 bg-slate-900/50">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="font-mono text-white">{module.name}</span>
+                    {module.status !== 'changed' && (
+                      <Badge className={module.status === 'added' ? 'bg-green-600' : 'bg-red-600'}>{module.status}</Badge>
+                    )}
+                  </div>
+                  <div className="space-y-3">
+                    {module.sections.map((section) => (
+                      <div key={section.heading} className="text-sm">
+                        <div className="text-slate-300 font-medium">
+                          {section.heading || 'Introduction'}
+                          {section.status !== 'changed' && <span className="text-slate-500"> ({section.status})</span>}
+                        </div>
+                        {section.added.map((rule, i) => (
+                          <div key={`a${i}`} className="text-green-300 pl-3">+ {rule}</div>
+                        ))}
+                        {section.removed.map((rule, i) => (
+                          <div key={`r${i}`} className="text-red-300 pl-3">- {rule}</div>
+                        ))}
+                        {section.changed.map((rule, i) => (
+                          <div key={`c${i}`} className="pl-3">
+                            <div className="text-red-300">- {rule.before}</div>
+                            <div className="text-green-300">+ {rule.after}</div>
+                          </div>
+                        ))}
+                        {section.examplesChanged > 0 && (
+                          <div className="text-slate-500 pl-3">
+                            {section.examplesChanged} code example{section.examplesChanged === 1 ? '' : 's'} updated
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setComparison(null)}
+              className="border-slate-600 bg-slate-800 text-white hover:bg-slate-700"
+            >
+              Close
+            </Button>
+            <Button
+              onClick={handleUseChangelog}
+              disabled={!diffResult || diffResult.diff.modules.length === 0}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Use as Changelog
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* View Version Dialog */}
       <Dialog open={showViewDialog} onOpenChange={setShowViewDialog}>
         <DialogContent className="bg-slate-800 border-slate-700 max-w-3xl max-h-[90vh] overflow-y-auto">
@@ -16,6 +16,7 @@ import {
   ChevronRight,
   AlertTriangle,
   ArrowRight,
+  DollarSign,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -43,6 +44,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
+import { UsageBreakdown, UsageTotals } from '@/lib/engineering-types';
+import { formatCost } from '@/lib/engineering-usage';
 
 interface EngineeringSession {
   id: string;
@@ -77,6 +80,7 @@ interface EngineeringStats {
   averageCompletionTime: number; // minutes
   phaseDistribution: Record<string, number>;
   agentUsage: Record<string, number>;
+  usage: UsageBreakdown & { thisMonth: UsageTotals };
 }
 
 interface Pagination {
@@ -443,6 +447,68 @@ export default function AdminEngineeringPage() {
         </div>
       )}
 
+      {/* Token Usage & Cost */}
+      {stats && (
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white text-sm flex items-center gap-2">
+              <DollarSign className="h-4 w-4 text-emerald-400" />
+              Token Usage &amp; Cost
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              {formatCost(stats.usage.thisMonth.costMicros)} this month &middot;{' '}
+              {formatCost(stats.usage.totals.costMicros)} all time across{' '}
+              {stats.usage.totals.calls.toLocaleString()} AI calls
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-6 md:grid-cols-2">
+              {([
+                ['By Agent', stats.usage.byAgent],
+                ['By Phase', stats.usage.byPhase],
+              ] as const).map(([title, rows]) => (
+                <div key={title}>
+                  <p className="text-xs font-medium text-slate-400 mb-2">{title}</p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-slate-700">
+                        <TableHead className="text-slate-400">Name</TableHead>
+                        <TableHead className="text-slate-400 text-right">Input</TableHead>
+                        <TableHead className="text-slate-400 text-right">Output</TableHead>
+                        <TableHead className="text-slate-400 text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(rows)
+                        .sort(([, a], [, b]) => b.costMicros - a.costMicros)
+                        .map(([name, usage]) => (
+                          <TableRow key={name} className="border-slate-700">
+                            <TableCell className="text-slate-300 capitalize">
+                              {name.replace('_', ' ')}
+                            </TableCell>
+                            <TableCell className="text-right text-slate-300">
+                              {usage.inputTokens.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right text-slate-300">
+                              {usage.outputTokens.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right text-white font-medium">
+                              {formatCost(usage.costMicros)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                  {Object.keys(rows).length === 0 && (
+                    <p className="text-slate-400 text-sm mt-2">No usage recorded yet</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card className="bg-slate-800/50 border-slate-700">
         <CardContent className="py-4">
@@ -14,10 +14,13 @@ import {
   ArrowDownLeft,
   ArrowUpRight,
   TrendingUp,
+  RotateCcw,
+  AlertTriangle,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
 
 interface PaymentEvent {
   id: string;
@@ -28,6 +31,12 @@ interface PaymentEvent {
   currency: string | null;
   plan: string | null;
   metadata: unknown;
+  previousStatus: string | null;
+  subscriptionStatus: string | null;
+  processingStatus: string | null;
+  processingError: string | null;
+  processingAttempts: number | null;
+  eventTimestamp: string | null;
   createdAt: string;
   teamId: string | null;
   teamName: string | null;
@@ -48,6 +57,11 @@ interface ProviderStat {
   count: number;
 }
 
+interface ProcessingStat {
+  status: string | null;
+  count: number;
+}
+
 interface ThirtyDaySummary {
   totalEvents: number;
   totalRevenue: number;
@@ -58,6 +72,7 @@ interface ThirtyDaySummary {
 interface Stats {
   eventTypes: EventTypeStat[];
   providers: ProviderStat[];
+  processing: ProcessingStat[];
   thirtyDaySummary: ThirtyDaySummary;
 }
 
@@ -118,6 +133,16 @@ const getEventColor = (type: string) => {
   return 'bg-slate-500/20 text-slate-400 border-slate-500/30';
 };
 
+const getProcessingColor = (status: string | null) => {
+  if (status === 'failed') {
+    return 'bg-red-500/20 text-red-400 border-red-500/30';
+  }
+  if (status === 'stale') {
+    return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+  }
+  return 'bg-slate-500/20 text-slate-400 border-slate-500/30';
+};
+
 export default function PaymentsHistoryPage() {
   const [data, setData] = useState<PaymentsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -127,9 +152,11 @@ export default function PaymentsHistoryPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedEventType, setSelectedEventType] = useState<string | null>(null);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
+  const [selectedStatus, setSelectedStatus] = useState<string | null>(null);
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [currentPage, setCurrentPage] = useState(0);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
 
   const limit = 25;
 
@@ -143,6 +170,7 @@ export default function PaymentsHistoryPage() {
       if (searchQuery) params.set('search', searchQuery);
       if (selectedEventType) params.set('eventType', selectedEventType);
       if (selectedProvider) params.set('provider', selectedProvider);
+      if (selectedStatus) params.set('status', selectedStatus);
       if (dateFrom) params.set('dateFrom', dateFrom);
       if (dateTo) params.set('dateTo', dateTo);
 
@@ -156,7 +184,7 @@ export default function PaymentsHistoryPage() {
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [currentPage, searchQuery, selectedEventType, selectedProvider, dateFrom, dateTo]);
+  }, [currentPage, searchQuery, selectedEventType, selectedProvider, selectedStatus, dateFrom, dateTo]);
 
   useEffect(() => {
     fetchData();
@@ -168,16 +196,37 @@ export default function PaymentsHistoryPage() {
     fetchData();
   };
 
+  const handleReplay = async (eventId: string) => {
+    setReplayingId(eventId);
+    try {
+      const res = await fetch(`/api/admin/payments/${eventId}/replay`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to replay event');
+      if (json.data.result.status === 'failed') {
+        toast.error(json.data.message);
+      } else {
+        toast.success(json.data.message);
+      }
+      fetchData(true);
+    } catch (error) {
+      console.error('Failed to replay event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to replay event');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
   const clearFilters = () => {
     setSearchQuery('');
     setSelectedEventType(null);
     setSelectedProvider(null);
+    setSelectedStatus(null);
     setDateFrom('');
     setDateTo('');
     setCurrentPage(0);
   };
 
-  const hasActiveFilters = searchQuery || selectedEventType || selectedProvider || dateFrom || dateTo;
+  const hasActiveFilters = searchQuery || selectedEventType || selectedProvider || selectedStatus || dateFrom || dateTo;
 
   if (isLoading) {
     return (
@@ -324,6 +373,23 @@ export default function PaymentsHistoryPage() {
               ))}
             </select>
 
+            {/* Processing Status Filter */}
+            <select
+              value={selectedStatus || ''}
+              onChange={(e) => {
+                setSelectedStatus(e.target.value || null);
+                setCurrentPage(0);
+              }}
+              className="px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-md text-white"
+            >
+              <option value="">All Statuses</option>
+              {data?.stats.processing.filter((p) => p.status).map((p) => (
+                <option key={p.status} value={p.status!}>
+                  {formatEventType(p.status!)} ({p.count})
+                </option>
+              ))}
+            </select>
+
             {/* Date Range */}
             <div className="flex items-center gap-2">
               <Input
@@ -391,7 +457,24 @@ export default function PaymentsHistoryPage() {
                             {event.plan}
                           </span>
                         )}
+                        {event.processingStatus && event.processingStatus !== 'applied' && (
+                          <span className={`px-2 py-0.5 rounded text-xs border ${getProcessingColor(event.processingStatus)}`}>
+                            {formatEventType(event.processingStatus)}
+                          </span>
+                        )}
+                        {event.previousStatus && event.subscriptionStatus && event.previousStatus !== event.subscriptionStatus && (
+                          <span className="text-slate-500 text-xs">
+                            {event.previousStatus} → {event.subscriptionStatus}
+                          </span>
+                        )}
                       </div>
+                      {event.processingError && (
+                        <p className="mt-1 text-xs text-red-400 flex items-center gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          {event.processingError}
+                          {(event.processingAttempts || 0) > 1 && ` (${event.processingAttempts} attempts)`}
+                        </p>
+                      )}
                       <div className="mt-1 text-sm">
                         {event.teamName ? (
                           <span className="text-white">{event.teamName}</span>
@@ -408,6 +491,22 @@ export default function PaymentsHistoryPage() {
                   </div>
 
                   <div className="flex items-center gap-6">
+                    {event.processingStatus !== 'applied' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleReplay(event.id)}
+                        disabled={replayingId === event.id}
+                        className="border-slate-700"
+                      >
+                        {replayingId === event.id ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                        )}
+                        Replay
+                      </Button>
+                    )}
                     <div className="text-right">
                       {event.amount !== null && (
                         <p className={`font-bold ${
@@ -11,7 +11,10 @@ import {
   ChevronLeft,
   ChevronRight,
   X,
+  Scale,
+  Check,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -57,6 +60,42 @@ interface SubscriptionsData {
   filters: Filters;
 }
 
+interface DriftItem {
+  id: string;
+  teamId: string | null;
+  teamName: string | null;
+  provider: string;
+  subscriptionId: string;
+  kind: string;
+  teamStatus: string | null;
+  providerStatus: string | null;
+  teamPlan: string | null;
+  providerPlan: string | null;
+  reason: string;
+  correction: string | null;
+  createdAt: string;
+}
+
+interface ReconciliationData {
+  latestRun: {
+    id: string;
+    status: string;
+    applySafe: boolean;
+    error: string | null;
+    startedAt: string;
+    completedAt: string | null;
+    summary: {
+      teamsChecked: number;
+      drift: number;
+      applied: number;
+      pendingReview: number;
+      providerErrors: Record<string, string>;
+    } | null;
+  } | null;
+  pendingReview: DriftItem[];
+  recentlyApplied: DriftItem[];
+}
+
 const getStatusColor = (status: string | null) => {
   switch (status) {
     case 'active':
@@ -111,6 +150,11 @@ export default function SubscriptionsPage() {
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
 
+  // Reconciliation
+  const [reconciliation, setReconciliation] = useState<ReconciliationData | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
   const limit = 20;
 
   const fetchData = useCallback(async (showRefreshing = false) => {
@@ -137,10 +181,64 @@ export default function SubscriptionsPage() {
     }
   }, [currentPage, searchQuery, selectedStatus, selectedPlan, selectedProvider]);
 
+  const fetchReconciliation = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/subscriptions/reconciliation');
+      if (!res.ok) throw new Error('Failed to fetch reconciliation');
+      const json = await res.json();
+      setReconciliation(json.data);
+    } catch (error) {
+      console.error('Failed to load reconciliation:', error);
+    }
+  }, []);
+
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    fetchReconciliation();
+  }, [fetchReconciliation]);
+
+  const runReconciliation = async (dryRun: boolean) => {
+    setIsReconciling(true);
+    try {
+      const res = await fetch('/api/admin/subscriptions/reconciliation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Reconciliation failed');
+      const summary = json.data.summary;
+      toast.success(`Found ${summary.drift} differences, corrected ${summary.applied}`);
+      await Promise.all([fetchReconciliation(), fetchData()]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Reconciliation failed');
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  const resolveDrift = async (id: string, action: 'apply' | 'resolve' | 'dismiss') => {
+    setResolvingId(id);
+    try {
+      const res = await fetch(`/api/admin/subscriptions/reconciliation/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to update drift item');
+      toast.success(action === 'apply' ? 'Correction applied' : action === 'resolve' ? 'Marked resolved' : 'Dismissed');
+      await Promise.all([fetchReconciliation(), action === 'apply' ? fetchData() : Promise.resolve()]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update drift item');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     setCurrentPage(0);
@@ -192,6 +290,138 @@ export default function SubscriptionsPage() {
         </Button>
       </div>
 
+      {/* Billing Drift */}
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-white flex items-center gap-2">
+                <Scale className="h-5 w-5 text-purple-400" />
+                Billing Drift
+              </CardTitle>
+              <CardDescription className="text-slate-400">
+                {reconciliation?.latestRun
+                  ? `Last run ${new Date(reconciliation.latestRun.startedAt).toLocaleString()} (${reconciliation.latestRun.status})` +
+                    (reconciliation.latestRun.summary
+                      ? ` - ${reconciliation.latestRun.summary.teamsChecked} teams checked, ${reconciliation.latestRun.summary.applied} corrected`
+                      : '')
+                  : 'Provider records have not been reconciled yet'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runReconciliation(true)}
+                disabled={isReconciling}
+                className="border-slate-700"
+              >
+                Dry Run
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => runReconciliation(false)}
+                disabled={isReconciling}
+              >
+                {isReconciling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Reconcile
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {reconciliation?.latestRun?.error && (
+            <p className="text-red-400 text-sm mb-4">{reconciliation.latestRun.error}</p>
+          )}
+          {reconciliation?.latestRun?.summary && Object.entries(reconciliation.latestRun.summary.providerErrors).map(([provider, message]) => (
+            <p key={provider} className="text-yellow-400 text-sm mb-2">
+              <span className="capitalize">{provider}</span> was skipped: {message}
+            </p>
+          ))}
+          {reconciliation && reconciliation.pendingReview.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-3 px-4 text-slate-400 font-medium">Team</th>
+                    <th className="text-left py-3 px-4 text-slate-400 font-medium">Drift</th>
+                    <th className="text-left py-3 px-4 text-slate-400 font-medium">Ours</th>
+                    <th className="text-left py-3 px-4 text-slate-400 font-medium">Provider</th>
+                    <th className="text-right py-3 px-4 text-slate-400 font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.pendingReview.map((item) => (
+                    <tr key={item.id} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                      <td className="py-3 px-4">
+                        <p className="text-white font-medium">{item.teamName || 'No matching team'}</p>
+                        <p className="text-slate-400 text-sm font-mono">
+                          {item.provider} {item.subscriptionId}
+                        </p>
+                      </td>
+                      <td className="py-3 px-4">
+                        <p className="text-white">{item.kind.replace(/_/g, ' ')}</p>
+                        <p className="text-slate-400 text-sm">{item.reason}</p>
+                      </td>
+                      <td className="py-3 px-4 text-slate-300">
+                        {item.teamStatus || '-'}
+                        {item.teamPlan && <span className="text-slate-400"> / {item.teamPlan}</span>}
+                      </td>
+                      <td className="py-3 px-4 text-slate-300">
+                        {item.providerStatus || 'no record'}
+                        {item.providerPlan && <span className="text-slate-400"> / {item.providerPlan}</span>}
+                      </td>
+                      <td className="py-3 px-4 text-right whitespace-nowrap">
+                        {item.correction && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resolveDrift(item.id, 'apply')}
+                            disabled={resolvingId === item.id}
+                            className="border-slate-700 mr-2"
+                          >
+                            Apply
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resolveDrift(item.id, 'resolve')}
+                          disabled={resolvingId === item.id}
+                          className="border-slate-700 mr-2"
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          Resolved
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => resolveDrift(item.id, 'dismiss')}
+                          disabled={resolvingId === item.id}
+                          className="text-slate-400 hover:text-white"
+                        >
+                          Dismiss
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-slate-400 text-center py-4">No drift waiting for review</p>
+          )}
+          {reconciliation && reconciliation.recentlyApplied.length > 0 && (
+            <p className="text-slate-400 text-sm mt-4">
+              Corrected automatically in the last run:{' '}
+              {reconciliation.recentlyApplied
+                .map((item) => `${item.teamName || item.teamId} (${item.kind.replace(/_/g, ' ')})`)
+                .join(', ')}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Filter Stats */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card className="bg-slate-800/50 border-slate-700">
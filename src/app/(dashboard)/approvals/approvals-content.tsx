@@ -0,0 +1,269 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import {
+  ClipboardCheck,
+  CheckCircle,
+  XCircle,
+  Clock,
+  ShieldCheck,
+  ArrowRight,
+  Loader2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ApprovalRule, ApprovalStatus, ApprovalVote } from '@/lib/engineering-types';
+
+interface ApprovalItem {
+  id: string;
+  sessionId: string;
+  projectName: string;
+  phase: string;
+  phaseDisplay: string;
+  status: ApprovalStatus;
+  reason: string | null;
+  requestedBy: string | null;
+  rule: ApprovalRule;
+  votes: ApprovalVote[];
+  hasVoted: boolean;
+  canVoteAsAdmin: boolean;
+  createdAt: Date | null;
+  resolvedAt: Date | null;
+}
+
+interface ApprovalsContentProps {
+  pending: ApprovalItem[];
+  resolved: ApprovalItem[];
+}
+
+function formatRelativeTime(date: Date | null): string {
+  if (!date) return 'Never';
+  const now = new Date();
+  const diff = now.getTime() - new Date(date).getTime();
+  const minutes = Math.floor(diff / (1000 * 60));
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  return `${days}d ago`;
+}
+
+function getStatusBadgeClass(status: ApprovalStatus) {
+  switch (status) {
+    case 'approved':
+      return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
+    case 'rejected':
+      return 'bg-red-500/10 text-red-400 border-red-500/20';
+    case 'cancelled':
+      return 'bg-neutral-500/10 text-neutral-400 border-neutral-500/20';
+    default:
+      return 'bg-amber-500/10 text-amber-400 border-amber-500/20';
+  }
+}
+
+function describeRule(rule: ApprovalRule): string {
+  const approvers = `${rule.minApprovers} approver${rule.minApprovers === 1 ? '' : 's'}`;
+  return rule.requireAdmin ? `${approvers}, one must be a team admin` : approvers;
+}
+
+export function ApprovalsContent({ pending, resolved }: ApprovalsContentProps) {
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-white mb-2 flex items-center gap-3">
+          <ClipboardCheck className="w-8 h-8 text-red-400" />
+          Approvals
+        </h1>
+        <p className="text-neutral-400">
+          Engineering phases waiting for your team&apos;s sign-off
+        </p>
+      </div>
+
+      {/* Pending */}
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Clock className="w-5 h-5 text-amber-400" />
+          Waiting for review
+          <Badge variant="outline" className="ml-1 text-neutral-300 border-neutral-700">
+            {pending.length}
+          </Badge>
+        </h2>
+
+        {pending.length === 0 ? (
+          <Card className="bg-neutral-900/80 border-neutral-800">
+            <CardContent className="pt-10 pb-10 text-center">
+              <CheckCircle className="w-10 h-10 text-neutral-600 mx-auto mb-3" />
+              <p className="text-neutral-400">Nothing to review right now.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          pending.map((approval) => <PendingApprovalCard key={approval.id} approval={approval} />)
+        )}
+      </div>
+
+      {/* Resolved */}
+      {resolved.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-white">Recently decided</h2>
+          <Card className="bg-neutral-900/80 border-neutral-800">
+            <CardContent className="pt-6 divide-y divide-neutral-800">
+              {resolved.map((approval) => (
+                <div key={approval.id} className="flex items-center justify-between py-3 first:pt-0 last:pb-0">
+                  <div className="min-w-0">
+                    <p className="text-white truncate">
+                      {approval.projectName} &middot; {approval.phaseDisplay}
+                    </p>
+                    <p className="text-sm text-neutral-500">
+                      {approval.votes.length} vote{approval.votes.length === 1 ? '' : 's'} &middot;{' '}
+                      {formatRelativeTime(approval.resolvedAt)}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className={getStatusBadgeClass(approval.status)}>
+                    <span className="capitalize">{approval.status}</span>
+                  </Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PendingApprovalCard({ approval }: { approval: ApprovalItem }) {
+  const router = useRouter();
+  const [feedback, setFeedback] = useState('');
+  const [submitting, setSubmitting] = useState<'approve' | 'reject' | null>(null);
+
+  const approvalCount = approval.votes.filter((v) => v.approved).length;
+  const hasAdminApproval = approval.votes.some((v) => v.approved && v.isAdmin);
+
+  const handleVote = async (approved: boolean) => {
+    if (!approved && !feedback.trim()) {
+      toast.error('Please explain what needs to change');
+      return;
+    }
+
+    setSubmitting(approved ? 'approve' : 'reject');
+    try {
+      const response = await fetch(`/api/engineering/approvals/${approval.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approved, feedback: feedback.trim() || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record your decision');
+      }
+
+      if (data.data.status === 'pending') {
+        toast.success('Vote recorded - waiting for more approvers');
+      } else {
+        toast.success(`${approval.phaseDisplay} ${data.data.status}`);
+      }
+      setFeedback('');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record your decision');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <Card className="bg-neutral-900/80 border-neutral-800">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="text-white truncate">{approval.phaseDisplay}</CardTitle>
+            <CardDescription>
+              {approval.projectName} &middot; requested {formatRelativeTime(approval.createdAt)}
+              {approval.requestedBy && <> by <span className="capitalize">{approval.requestedBy}</span></>}
+            </CardDescription>
+          </div>
+          <Link
+            href={`/engineering/${approval.sessionId}`}
+            className="flex items-center gap-1 text-sm text-neutral-400 hover:text-white shrink-0"
+          >
+            View build
+            <ArrowRight className="w-4 h-4" />
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {approval.reason && <p className="text-sm text-neutral-300">{approval.reason}</p>}
+
+        {/* Rule progress */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="outline" className="text-neutral-300 border-neutral-700">
+            {approvalCount}/{approval.rule.minApprovers} approvals
+          </Badge>
+          {approval.rule.requireAdmin && (
+            <Badge
+              variant="outline"
+              className={hasAdminApproval
+                ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                : 'bg-amber-500/10 text-amber-400 border-amber-500/20'}
+            >
+              <ShieldCheck className="w-3 h-3 mr-1" />
+              {hasAdminApproval ? 'Admin approved' : 'Admin approval required'}
+            </Badge>
+          )}
+          <span className="text-neutral-500">Rule: {describeRule(approval.rule)}</span>
+        </div>
+
+        {approval.hasVoted ? (
+          <p className="text-sm text-neutral-400">You&apos;ve already voted on this phase.</p>
+        ) : (
+          <div className="space-y-3">
+            <Textarea
+              placeholder="Feedback (required when requesting changes)"
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              disabled={submitting !== null}
+              className="bg-neutral-900/50 border-neutral-700 text-white placeholder:text-neutral-500"
+            />
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => handleVote(true)}
+                disabled={submitting !== null}
+                className="bg-emerald-600 hover:bg-emerald-700"
+              >
+                {submitting === 'approve' ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                )}
+                Approve{approval.canVoteAsAdmin && approval.rule.requireAdmin ? ' as admin' : ''}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleVote(false)}
+                disabled={submitting !== null}
+                className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+              >
+                {submitting === 'reject' ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <XCircle className="w-4 h-4 mr-2" />
+                )}
+                Request changes
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { DashboardService } from '@/services/dashboard-service';
+import { EngineeringApprovalService } from '@/services/engineering-approval-service';
+import { ApprovalsContent } from './approvals-content';
+
+export default async function ApprovalsPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  // Ensure team exists
+  await DashboardService.ensureTeamExists(user.id, user.email!);
+
+  const approvals = await EngineeringApprovalService.listForUser(user.id);
+
+  const pending = approvals.filter((a) => a.status === 'pending');
+  const resolved = approvals.filter((a) => a.status !== 'pending').slice(0, 20);
+
+  return <ApprovalsContent pending={pending} resolved={resolved} />;
+}
@@ -11,6 +11,7 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
@@ -32,6 +33,53 @@ interface PlanData {
 
 type PaymentProvider = 'stripe' | 'square' | 'paypal';
 
+interface QuotaData {
+  meter: string;
+  label: string;
+  used: number;
+  limit: number | null;
+  percentUsed: number | null;
+  exceeded: boolean;
+}
+
+interface UsageData {
+  plan: string | null;
+  status: string | null;
+  isBeta: boolean;
+  seats: {
+    limit: number | null;
+    members: number;
+    pendingInvites: number;
+    overLimit: boolean;
+  };
+  period: { start: string; end: string };
+  quotas: QuotaData[];
+}
+
+interface PlanChangeData {
+  id: string;
+  fromPlan: string;
+  toPlan: string;
+  direction: 'upgrade' | 'downgrade';
+  status: string;
+  provider: PaymentProvider;
+  effectiveAt: string;
+}
+
+interface PlanChangePreview {
+  fromPlan: string;
+  toPlan: string;
+  direction: 'upgrade' | 'downgrade';
+  provider: PaymentProvider;
+  proration: { amount: number; currency: string; source: 'provider' | 'none' };
+  effectiveAt: string;
+  seats: { current: number; new: number };
+  apiKeyLimit: number;
+  requiresSelection: { members: boolean; apiKeys: boolean };
+  members: Array<{ id: string; email: string | null; fullName: string | null; role: string | null; isOwner: boolean }>;
+  apiKeys: Array<{ id: string; name: string | null; keyPrefix: string; lastUsedAt: string | null }>;
+}
+
 // Fallback plans if API doesn't return data
 const fallbackPlans: PlanData[] = [
   {
@@ -109,6 +157,11 @@ function BillingContent() {
   const [plans, setPlans] = useState<PlanData[]>(fallbackPlans);
   const [showProviderDialog, setShowProviderDialog] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageData | null>(null);
+  const [scheduledChange, setScheduledChange] = useState<PlanChangeData | null>(null);
+  const [planChange, setPlanChange] = useState<PlanChangePreview | null>(null);
+  const [keepMemberIds, setKeepMemberIds] = useState<string[]>([]);
+  const [keepApiKeyIds, setKeepApiKeyIds] = useState<string[]>([]);
   const searchParams = useSearchParams();
   const router = useRouter();
 
@@ -119,6 +172,10 @@ function BillingContent() {
       toast.success(`Subscription activated successfully${provider ? ` via ${provider}` : ''}!`);
     } else if (searchParams.get('canceled') === 'true') {
       toast.info('Checkout was canceled');
+    } else if (searchParams.get('plan_change') === 'approved') {
+      toast.success('Plan change approved');
+    } else if (searchParams.get('plan_change') === 'canceled') {
+      toast.info('Plan change was not approved on PayPal');
     } else if (searchParams.get('error')) {
       toast.error(`Payment error: ${searchParams.get('error')}`);
     }
@@ -152,21 +209,130 @@ function BillingContent() {
 
   const fetchSubscription = async () => {
     try {
-      const response = await fetch('/api/keys');
+      const response = await fetch('/api/billing/usage');
       if (response.ok) {
-        // We'd need a dedicated endpoint for subscription info
-        // For now, just check the keys response
+        const { data } = await response.json();
+        setUsage(data);
+        setIsBeta(data.isBeta);
+        if (data.plan && data.status === 'active') {
+          setCurrentPlan(data.plan);
+          fetchScheduledChange();
+        }
       }
     } catch (error) {
       console.error('Failed to fetch subscription');
     }
   };
 
+  const fetchScheduledChange = async () => {
+    try {
+      const response = await fetch('/api/billing/plan-change');
+      if (response.ok) {
+        const { data } = await response.json();
+        setScheduledChange(data.scheduled);
+      }
+    } catch {
+      console.error('Failed to fetch scheduled plan change');
+    }
+  };
+
   const handleSelectPlan = (planId: string) => {
+    // Subscribers change plan in place; everyone else checks out
+    if (currentPlan && !isBeta) {
+      handlePreviewPlanChange(planId);
+      return;
+    }
+
     // Go directly to PayPal checkout (primary payment method)
     handleCheckout(planId, 'paypal');
   };
 
+  const handlePreviewPlanChange = async (planId: string) => {
+    setIsLoading(planId);
+    try {
+      const response = await fetch(`/api/billing/plan-change?plan=${planId}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to preview plan change');
+      }
+
+      const preview: PlanChangePreview = result.data.preview;
+      const owner = preview.members.filter((m) => m.isOwner);
+      const others = preview.members.filter((m) => !m.isOwner);
+      setKeepMemberIds([...owner, ...others].slice(0, preview.seats.new).map((m) => m.id));
+      setKeepApiKeyIds(preview.apiKeys.slice(0, preview.apiKeyLimit).map((k) => k.id));
+      setPlanChange(preview);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to preview plan change';
+      toast.error(message);
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const handleConfirmPlanChange = async () => {
+    if (!planChange) return;
+
+    setIsLoading('plan-change');
+    try {
+      const response = await fetch('/api/billing/plan-change', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          plan: planChange.toPlan,
+          keepMemberIds: planChange.requiresSelection.members ? keepMemberIds : undefined,
+          keepApiKeyIds: planChange.requiresSelection.apiKeys ? keepApiKeyIds : undefined,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to change plan');
+      }
+
+      const { change, approvalUrl } = result.data;
+      if (approvalUrl) {
+        window.location.href = approvalUrl;
+        return;
+      }
+
+      setPlanChange(null);
+      if (change.status === 'applied') {
+        toast.success(`You're now on ${change.toPlan.toUpperCase()}`);
+      } else {
+        toast.success(`Plan change scheduled for ${new Date(change.effectiveAt).toLocaleDateString()}`);
+      }
+      fetchSubscription();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to change plan';
+      toast.error(message);
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const handleCancelPlanChange = async () => {
+    setIsLoading('cancel-plan-change');
+    try {
+      const response = await fetch('/api/billing/plan-change', { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to cancel plan change');
+      }
+
+      setScheduledChange(null);
+      toast.success('Scheduled plan change canceled');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel plan change';
+      toast.error(message);
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const toggleKept = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((kept) => kept !== id) : [...ids, id];
+
   const handleCheckout = async (planId: string, provider: PaymentProvider) => {
     setIsLoading(planId);
     setShowProviderDialog(false);
@@ -234,6 +400,14 @@ function BillingContent() {
 
   const formatPrice = (cents: number) => `$${(cents / 100).toFixed(0)}`;
 
+  const formatAmount = (cents: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Math.abs(cents) / 100);
+
+  const formatLimit = (quota: QuotaData) =>
+    quota.limit === null
+      ? `${quota.used.toLocaleString()} used (unlimited)`
+      : `${quota.used.toLocaleString()} of ${quota.limit.toLocaleString()}`;
+
   const getPopularPlan = () => {
     const proPlan = plans.find(p => p.plan === 'pro');
     return proPlan?.plan || 'pro';
@@ -254,39 +428,113 @@ function BillingContent() {
           <CardHeader>
             <CardTitle className="text-white">Current Plan</CardTitle>
           </CardHeader>
-          <CardContent className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <Badge className="bg-red-600 text-lg px-4 py-1">
-                {isBeta ? 'Beta' : currentPlan?.toUpperCase()}
-              </Badge>
-              {isBeta && (
-                <span className="text-neutral-400">Free access granted</span>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Badge className="bg-red-600 text-lg px-4 py-1">
+                  {isBeta ? 'Beta' : currentPlan?.toUpperCase()}
+                </Badge>
+                {isBeta && (
+                  <span className="text-neutral-400">Free access granted</span>
+                )}
+              </div>
+              {!isBeta && (
+                <Button
+                  variant="outline"
+                  onClick={handleManageBilling}
+                  disabled={isLoading === 'portal'}
+                  className="border-neutral-700 text-neutral-300"
+                >
+                  {isLoading === 'portal' ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Loading...
+                    </>
+                  ) : (
+                    <>
+                      <CreditCard className="h-4 w-4 mr-2" />
+                      Manage Billing
+                    </>
+                  )}
+                </Button>
               )}
             </div>
-            {!isBeta && (
-              <Button
-                variant="outline"
-                onClick={handleManageBilling}
-                disabled={isLoading === 'portal'}
-                className="border-neutral-700 text-neutral-300"
-              >
-                {isLoading === 'portal' ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Loading...
-                  </>
-                ) : (
-                  <>
-                    <CreditCard className="h-4 w-4 mr-2" />
-                    Manage Billing
-                  </>
+            {scheduledChange && (
+              <div className="flex items-center justify-between rounded border border-amber-600/40 bg-amber-950/30 px-4 py-3">
+                <span className="text-sm text-amber-200">
+                  {scheduledChange.direction === 'downgrade' ? 'Downgrading' : 'Changing'} to{' '}
+                  {scheduledChange.toPlan.toUpperCase()} on {new Date(scheduledChange.effectiveAt).toLocaleDateString()}
+                </span>
+                {scheduledChange.provider !== 'paypal' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCancelPlanChange}
+                    disabled={isLoading === 'cancel-plan-change'}
+                    className="border-neutral-700 text-neutral-300"
+                  >
+                    {isLoading === 'cancel-plan-change' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Cancel Change
+                  </Button>
                 )}
-              </Button>
+              </div>
             )}
           </CardContent>
         </Card>
       )}
 
+      {/* Usage */}
+      {usage && (
+        <Card className="bg-neutral-900/80 border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-white">Usage This Month</CardTitle>
+            <CardDescription>
+              Resets on {new Date(usage.period.end).toLocaleDateString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-neutral-300">Seats</span>
+                <span className={usage.seats.overLimit ? 'text-red-400' : 'text-neutral-400'}>
+                  {usage.seats.members} member{usage.seats.members === 1 ? '' : 's'}
+                  {usage.seats.pendingInvites > 0 && ` + ${usage.seats.pendingInvites} invited`}
+                  {usage.seats.limit !== null && ` of ${usage.seats.limit}`}
+                </span>
+              </div>
+              {usage.seats.overLimit && (
+                <p className="text-xs text-red-400 mt-1">
+                  More members than your plan allows - remove members or upgrade to invite anyone new.
+                </p>
+              )}
+            </div>
+            {usage.quotas.map((quota) => (
+              <div key={quota.meter}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-neutral-300">{quota.label}</span>
+                  <span className={quota.exceeded ? 'text-red-400' : 'text-neutral-400'}>
+                    {formatLimit(quota)}
+                  </span>
+                </div>
+                {quota.percentUsed !== null && (
+                  <div className="h-2 mt-1 rounded bg-neutral-800 overflow-hidden">
+                    <div
+                      className={`h-full ${quota.exceeded ? 'bg-red-500' : quota.percentUsed >= 80 ? 'bg-amber-500' : 'bg-green-500'}`}
+                      style={{ width: `${quota.percentUsed}%` }}
+                    />
+                  </div>
+                )}
+                {quota.exceeded && (
+                  <p className="text-xs text-red-400 mt-1">
+                    Quota reached - upgrade your plan or wait until the next month.
+                  </p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Plans */}
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
         {plans.map((plan) => {
@@ -364,6 +612,8 @@ function BillingContent() {
                       </>
                     ) : currentPlan === plan.plan ? (
                       'Current Plan'
+                    ) : currentPlan && !isBeta ? (
+                      'Change Plan'
                     ) : (
                       'Get Started'
                     )}
@@ -428,6 +678,116 @@ function BillingContent() {
         </DialogContent>
       </Dialog>
 
+      {/* Plan Change Dialog */}
+      <Dialog open={planChange !== null} onOpenChange={(open) => !open && setPlanChange(null)}>
+        <DialogContent className="bg-neutral-900 border-neutral-800 max-h-[85vh] overflow-y-auto">
+          {planChange && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="text-white">
+                  {planChange.direction === 'upgrade' ? 'Upgrade' : 'Downgrade'} to {planChange.toPlan.toUpperCase()}
+                </DialogTitle>
+                <DialogDescription className="text-neutral-400">
+                  {new Date(planChange.effectiveAt) <= new Date()
+                    ? 'Takes effect immediately.'
+                    : `Takes effect on ${new Date(planChange.effectiveAt).toLocaleDateString()}, at the end of your billing period. You keep ${planChange.fromPlan.toUpperCase()} until then.`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 py-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-neutral-300">Due now</span>
+                  <span className="text-white">
+                    {planChange.proration.source === 'none'
+                      ? 'Nothing - the new price starts with your next bill'
+                      : planChange.proration.amount >= 0
+                        ? formatAmount(planChange.proration.amount, planChange.proration.currency)
+                        : `${formatAmount(planChange.proration.amount, planChange.proration.currency)} credit`}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-neutral-300">Seats</span>
+                  <span className="text-white">{planChange.seats.current} → {planChange.seats.new}</span>
+                </div>
+
+                {planChange.requiresSelection.members && (
+                  <div>
+                    <p className="text-neutral-300 mb-2">
+                      Choose up to {planChange.seats.new} member{planChange.seats.new === 1 ? '' : 's'} to keep ({keepMemberIds.length} selected)
+                    </p>
+                    <div className="space-y-1">
+                      {planChange.members.map((member) => (
+                        <label key={member.id} className="flex items-center gap-2 text-neutral-400">
+                          <input
+                            type="checkbox"
+                            checked={keepMemberIds.includes(member.id)}
+                            disabled={member.isOwner}
+                            onChange={() => setKeepMemberIds(toggleKept(keepMemberIds, member.id))}
+                          />
+                          {member.fullName || member.email}
+                          {member.isOwner && <span className="text-xs text-neutral-500">(owner)</span>}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {planChange.requiresSelection.apiKeys && (
+                  <div>
+                    <p className="text-neutral-300 mb-2">
+                      Choose up to {planChange.apiKeyLimit} API key{planChange.apiKeyLimit === 1 ? '' : 's'} to keep ({keepApiKeyIds.length} selected)
+                    </p>
+                    <div className="space-y-1">
+                      {planChange.apiKeys.map((key) => (
+                        <label key={key.id} className="flex items-center gap-2 text-neutral-400">
+                          <input
+                            type="checkbox"
+                            checked={keepApiKeyIds.includes(key.id)}
+                            onChange={() => setKeepApiKeyIds(toggleKept(keepApiKeyIds, key.id))}
+                          />
+                          {key.name} <span className="font-mono text-xs">{key.keyPrefix}…</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {(planChange.requiresSelection.members || planChange.requiresSelection.apiKeys) && (
+                  <p className="text-xs text-neutral-500">
+                    Members you don&apos;t keep lose access and API keys you don&apos;t keep are revoked when the change takes effect.
+                  </p>
+                )}
+                {planChange.provider === 'paypal' && (
+                  <p className="text-xs text-neutral-500">You&apos;ll be sent to PayPal to approve the change.</p>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => setPlanChange(null)}
+                  className="border-neutral-700 text-neutral-300"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConfirmPlanChange}
+                  disabled={
+                    isLoading === 'plan-change' ||
+                    (planChange.requiresSelection.members && keepMemberIds.length > planChange.seats.new) ||
+                    (planChange.requiresSelection.apiKeys && keepApiKeyIds.length > planChange.apiKeyLimit)
+                  }
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  {isLoading === 'plan-change' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {planChange.direction === 'upgrade' ? 'Confirm Upgrade' : 'Schedule Downgrade'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* FAQ */}
       <Card className="bg-neutral-900/80 border-neutral-800">
         <CardHeader>
@@ -455,8 +815,9 @@ function BillingContent() {
               Can I upgrade or downgrade my plan?
             </h4>
             <p className="text-sm text-neutral-400">
-              Yes, you can change your plan at any time. Changes take effect
-              immediately, and we'll prorate any charges.
+              Yes, you can change your plan at any time. Upgrades paid by card
+              take effect immediately and are prorated; downgrades take effect
+              at the end of your billing period.
             </p>
           </div>
         </CardContent>
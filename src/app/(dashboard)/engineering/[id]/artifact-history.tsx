@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import {
+  History,
+  RotateCcw,
+  GitCompare,
+  Loader2,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { DiffLine, toSideBySide } from '@/lib/text-diff';
+
+interface RevisionItem {
+  id: string;
+  artifactName: string;
+  revision: number;
+  author: string;
+  phase: string | null;
+  restoredFrom: number | null;
+  createdAt: string | null;
+  lineCount: number;
+  isCurrent: boolean;
+}
+
+interface RevisionDiff {
+  from: RevisionItem;
+  to: RevisionItem;
+  summary: { added: number; removed: number; unchanged: number };
+  lines: Array<DiffLine | { type: 'skipped'; count: number }>;
+}
+
+const ARTIFACT_LABELS: Record<string, string> = {
+  prd: 'PRD',
+  techSpec: 'Tech Spec',
+  apiDocs: 'API Docs',
+  securityAudit: 'Security Audit',
+  userGuide: 'User Guide',
+  deploymentGuide: 'Deployment Guide',
+};
+
+function formatRelativeTime(date: string | null): string {
+  if (!date) return 'Never';
+  const now = new Date();
+  const diff = now.getTime() - new Date(date).getTime();
+  const minutes = Math.floor(diff / (1000 * 60));
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  return `${days}d ago`;
+}
+
+export function ArtifactHistory({ sessionId }: { sessionId: string }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionItem[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/engineering/sessions/${sessionId}/artifacts`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load artifact history');
+
+      const items: RevisionItem[] = data.data.revisions;
+      setRevisions(items);
+      setSelected((prev) => prev ?? items[0]?.artifactName ?? null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load artifact history');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  const handleToggle = () => {
+    if (!open && revisions === null) loadRevisions();
+    setOpen(!open);
+  };
+
+  const handleCompare = async (name: string, from: number, to: number) => {
+    setDiffLoading(true);
+    try {
+      const res = await fetch(
+        `/api/engineering/sessions/${sessionId}/artifacts/${encodeURIComponent(name)}/diff?from=${from}&to=${to}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load diff');
+      setDiff(data.data.diff);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load diff');
+    } finally {
+      setDiffLoading(false);
+    }
+  };
+
+  const handleRestore = async (name: string, revision: number) => {
+    setRestoring(revision);
+    try {
+      const res = await fetch(`/api/engineering/sessions/${sessionId}/artifacts/${encodeURIComponent(name)}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision, reason: reason.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to restore revision');
+
+      toast.success(`Restored revision ${revision} as r${data.data.revision}`);
+      setReason('');
+      setDiff(null);
+      await loadRevisions();
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const artifactNames = [...new Set((revisions || []).map((r) => r.artifactName))];
+  const timeline = (revisions || [])
+    .filter((r) => r.artifactName === selected)
+    .sort((a, b) => b.revision - a.revision);
+  const current = timeline.find((r) => r.isCurrent);
+
+  return (
+    <Card className="bg-neutral-900/80 border-neutral-800">
+      <CardHeader className="cursor-pointer" onClick={handleToggle}>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg text-white flex items-center gap-2">
+              <History className="w-5 h-5 text-purple-400" />
+              Artifact History
+            </CardTitle>
+            <CardDescription>Every version the agents (or you) have written</CardDescription>
+          </div>
+          {open ? (
+            <ChevronDown className="w-5 h-5 text-neutral-400" />
+          ) : (
+            <ChevronRight className="w-5 h-5 text-neutral-400" />
+          )}
+        </div>
+      </CardHeader>
+      {open && (
+        <CardContent className="space-y-4">
+          {loading && revisions === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 text-neutral-400 animate-spin" />
+            </div>
+          ) : artifactNames.length === 0 ? (
+            <p className="text-sm text-neutral-500">No artifacts have been written yet.</p>
+          ) : (
+            <>
+              {/* Artifact picker */}
+              <div className="flex flex-wrap gap-2">
+                {artifactNames.map((name) => (
+                  <Button
+                    key={name}
+                    size="sm"
+                    variant={name === selected ? 'default' : 'outline'}
+                    onClick={() => {
+                      setSelected(name);
+                      setDiff(null);
+                    }}
+                    className={name === selected ? '' : 'border-neutral-700 text-neutral-300'}
+                  >
+                    {ARTIFACT_LABELS[name] ?? name}
+                  </Button>
+                ))}
+              </div>
+
+              {/* Timeline */}
+              <div className="space-y-2">
+                {timeline.map((rev) => (
+                  <div key={rev.id} className="flex items-center gap-3 p-3 bg-neutral-800/30 rounded-lg">
+                    <Badge variant="outline" className="font-mono text-neutral-300 border-neutral-700">
+                      r{rev.revision}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white">
+                        <span className="capitalize">{rev.author}</span>
+                        {rev.phase && <span className="text-neutral-500"> &middot; {rev.phase}</span>}
+                        {rev.restoredFrom && (
+                          <span className="text-amber-400"> &middot; restored r{rev.restoredFrom}</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-neutral-500">
+                        {rev.lineCount} lines &middot; {formatRelativeTime(rev.createdAt)}
+                      </p>
+                    </div>
+                    {rev.isCurrent ? (
+                      <Badge className="bg-emerald-500/20 text-emerald-400 border-emerald-500/30">Current</Badge>
+                    ) : (
+                      <div className="flex gap-2">
+                        {current && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleCompare(rev.artifactName, rev.revision, current.revision)}
+                            disabled={diffLoading}
+                            className="border-neutral-700 text-neutral-300"
+                          >
+                            <GitCompare className="w-3 h-3 mr-1" />
+                            Compare
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(rev.artifactName, rev.revision)}
+                          disabled={restoring !== null}
+                          className="border-amber-500/30 text-amber-400 hover:bg-amber-500/10"
+                        >
+                          {restoring === rev.revision ? (
+                            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                          ) : (
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                          )}
+                          Restore
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {timeline.length > 1 && (
+                <Input
+                  placeholder="Why restore? (recorded as a decision)"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  disabled={restoring !== null}
+                  className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+                />
+              )}
+
+              {/* Side-by-side diff */}
+              {diff && diff.from.artifactName === selected && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-neutral-400">
+                      r{diff.from.revision} &rarr; r{diff.to.revision}
+                    </span>
+                    <span className="text-xs">
+                      <span className="text-emerald-400">+{diff.summary.added}</span>{' '}
+                      <span className="text-red-400">&minus;{diff.summary.removed}</span>
+                    </span>
+                  </div>
+                  <div className="max-h-96 overflow-auto rounded-lg border border-neutral-800 text-xs font-mono">
+                    <div className="grid grid-cols-2 sticky top-0 bg-neutral-900 text-neutral-400 border-b border-neutral-800">
+                      <div className="px-3 py-1">r{diff.from.revision}</div>
+                      <div className="px-3 py-1 border-l border-neutral-800">r{diff.to.revision}</div>
+                    </div>
+                    {toSideBySide(diff.lines).map((row, index) =>
+                      row.type === 'skipped' ? (
+                        <div key={index} className="px-3 py-1 text-neutral-500 bg-neutral-900/50 text-center">
+                          ⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}
+                        </div>
+                      ) : (
+                        <div key={index} className="grid grid-cols-2">
+                          <div
+                            className={`px-3 whitespace-pre-wrap ${
+                              row.left?.type === 'removed' ? 'bg-red-500/10 text-red-300' : 'text-neutral-400'
+                            }`}
+                          >
+                            {row.left?.text ?? ''}
+                          </div>
+                          <div
+                            className={`px-3 whitespace-pre-wrap border-l border-neutral-800 ${
+                              row.right?.type === 'added' ? 'bg-emerald-500/10 text-emerald-300' : 'text-neutral-400'
+                            }`}
+                          >
+                            {row.right?.text ?? ''}
+                          </div>
+                        </div>
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import {
+  GitBranch,
+  GitCompare,
+  Crown,
+  Archive,
+  Loader2,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArtifactComparison } from '@/lib/engineering-types';
+
+export interface BranchItem {
+  id: string;
+  branchName: string;
+  branchStatus: 'exploring' | 'promoted' | 'archived' | null;
+  forkedAtPhase: string | null;
+  forkedAtPhaseDisplay: string | null;
+  status: string;
+  currentPhaseDisplay: string;
+  progress: number;
+}
+
+interface BranchesPanelProps {
+  sessionId: string;
+  branches: BranchItem[];
+  passedPhases: { phase: string; displayName: string }[];
+  compareWith: string | null;
+  comparison: ArtifactComparison[] | null;
+}
+
+const ARTIFACT_LABELS: Record<string, string> = {
+  prd: 'PRD',
+  techSpec: 'Tech Spec',
+  apiDocs: 'API Docs',
+  securityAudit: 'Security Audit',
+  userGuide: 'User Guide',
+  deploymentGuide: 'Deployment Guide',
+};
+
+function getBranchBadgeClass(status: BranchItem['branchStatus']) {
+  switch (status) {
+    case 'promoted':
+      return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
+    case 'archived':
+      return 'bg-neutral-500/10 text-neutral-400 border-neutral-500/20';
+    default:
+      return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+  }
+}
+
+export function BranchesPanel({ sessionId, branches, passedPhases, compareWith, comparison }: BranchesPanelProps) {
+  const router = useRouter();
+  const [forkPhase, setForkPhase] = useState(passedPhases[passedPhases.length - 1]?.phase ?? '');
+  const [branchName, setBranchName] = useState('');
+  const [busy, setBusy] = useState<'fork' | 'promote' | 'archive' | null>(null);
+
+  const current = branches.find((b) => b.id === sessionId);
+  const other = compareWith ? branches.find((b) => b.id === compareWith) : undefined;
+  const isBranched = branches.length > 1;
+
+  const post = async (action: 'fork' | 'promote' | 'archive', body?: unknown) => {
+    setBusy(action);
+    try {
+      const response = await fetch(`/api/engineering/sessions/${sessionId}/${action}`, {
+        method: 'POST',
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} branch`);
+      }
+      return data.data;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} branch`);
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFork = async () => {
+    if (!forkPhase || !branchName.trim()) {
+      toast.error('Pick a phase and name the branch');
+      return;
+    }
+    const data = await post('fork', { phase: forkPhase, branchName: branchName.trim() });
+    if (data) {
+      toast.success(`Branch "${data.branchName}" created`);
+      router.push(`/engineering/${data.sessionId}?compare=${sessionId}`);
+    }
+  };
+
+  const handlePromote = async () => {
+    const data = await post('promote');
+    if (data) {
+      toast.success(`Promoted - ${data.archived.length} other branch${data.archived.length === 1 ? '' : 'es'} archived`);
+      router.refresh();
+    }
+  };
+
+  const handleArchive = async () => {
+    const data = await post('archive');
+    if (data) {
+      toast.success('Branch archived');
+      router.refresh();
+    }
+  };
+
+  if (!isBranched && passedPhases.length === 0) return null;
+
+  return (
+    <Card className="bg-neutral-900/80 border-neutral-800">
+      <CardHeader>
+        <CardTitle className="text-lg text-white flex items-center gap-2">
+          <GitBranch className="w-5 h-5 text-blue-400" />
+          Branches
+        </CardTitle>
+        <CardDescription>
+          Fork at a passed gate to try an alternative without losing this build
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Branch list */}
+        {isBranched && (
+          <div className="space-y-2">
+            {branches.map((branch) => (
+              <div
+                key={branch.id}
+                className={`flex items-center gap-3 p-3 rounded-lg ${
+                  branch.id === sessionId ? 'bg-blue-500/10 border border-blue-500/20' : 'bg-neutral-800/30'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Link href={`/engineering/${branch.id}`} className="text-sm font-medium text-white hover:underline truncate">
+                      {branch.branchName}
+                    </Link>
+                    <Badge variant="outline" className={getBranchBadgeClass(branch.branchStatus)}>
+                      <span className="capitalize">{branch.branchStatus ?? 'exploring'}</span>
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-neutral-500 mt-0.5">
+                    {branch.forkedAtPhaseDisplay ? `Forked after ${branch.forkedAtPhaseDisplay} · ` : ''}
+                    {branch.currentPhaseDisplay} · {branch.progress}%
+                  </p>
+                </div>
+                {branch.id !== sessionId && (
+                  <Link
+                    href={compareWith === branch.id ? `/engineering/${sessionId}` : `/engineering/${sessionId}?compare=${branch.id}`}
+                    className="flex items-center gap-1 text-xs text-neutral-400 hover:text-white"
+                  >
+                    <GitCompare className="w-3 h-3" />
+                    {compareWith === branch.id ? 'Hide diff' : 'Compare'}
+                  </Link>
+                )}
+              </div>
+            ))}
+
+            {current?.branchStatus !== 'archived' && (
+              <div className="flex gap-2 pt-2">
+                {current?.branchStatus !== 'promoted' && (
+                  <Button
+                    onClick={handlePromote}
+                    disabled={busy !== null}
+                    className="bg-emerald-600 hover:bg-emerald-700"
+                  >
+                    {busy === 'promote' ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Crown className="w-4 h-4 mr-2" />
+                    )}
+                    Promote this branch
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={handleArchive}
+                  disabled={busy !== null}
+                  className="border-neutral-700 text-neutral-300 hover:bg-neutral-800"
+                >
+                  {busy === 'archive' ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Archive className="w-4 h-4 mr-2" />
+                  )}
+                  Archive
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Fork form */}
+        {passedPhases.length > 0 && current?.branchStatus !== 'archived' && (
+          <div className="flex flex-col md:flex-row gap-2">
+            <Select value={forkPhase} onValueChange={setForkPhase}>
+              <SelectTrigger className="bg-neutral-800 border-neutral-700 text-white md:w-56">
+                <SelectValue placeholder="Fork after phase" />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-800 border-neutral-700">
+                {passedPhases.map((p) => (
+                  <SelectItem key={p.phase} value={p.phase}>
+                    After {p.displayName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Branch name, e.g. custom-auth"
+              value={branchName}
+              onChange={(e) => setBranchName(e.target.value)}
+              disabled={busy !== null}
+              className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+            />
+            <Button onClick={handleFork} disabled={busy !== null} className="bg-blue-600 hover:bg-blue-700">
+              {busy === 'fork' ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <GitBranch className="w-4 h-4 mr-2" />
+              )}
+              Fork
+            </Button>
+          </div>
+        )}
+
+        {/* Side-by-side comparison */}
+        {current && other && comparison && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {[current, other].map((branch) => (
+                <div key={branch.id} className="p-3 bg-neutral-800/50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-white truncate">{branch.branchName}</span>
+                    <Badge variant="outline" className={getBranchBadgeClass(branch.branchStatus)}>
+                      <span className="capitalize">{branch.branchStatus ?? 'exploring'}</span>
+                    </Badge>
+                  </div>
+                  <Progress value={branch.progress} className="h-2" />
+                  <p className="text-xs text-neutral-400">
+                    {branch.currentPhaseDisplay} · {branch.progress}% · <span className="capitalize">{branch.status}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {comparison.length === 0 ? (
+              <p className="text-sm text-neutral-500">Neither branch has artifacts yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {comparison.map((artifact) => (
+                  <ArtifactDiff
+                    key={artifact.name}
+                    artifact={artifact}
+                    leftName={current.branchName}
+                    rightName={other.branchName}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ArtifactDiff({
+  artifact,
+  leftName,
+  rightName,
+}: {
+  artifact: ArtifactComparison;
+  leftName: string;
+  rightName: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const label = ARTIFACT_LABELS[artifact.name] ?? artifact.name;
+
+  const summary = (() => {
+    switch (artifact.status) {
+      case 'same':
+        return 'identical';
+      case 'only_left':
+        return `only in ${leftName}`;
+      case 'only_right':
+        return `only in ${rightName}`;
+      default:
+        return `+${artifact.added} −${artifact.removed}`;
+    }
+  })();
+
+  return (
+    <div className="bg-neutral-800/30 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={artifact.lines.length === 0}
+        className="w-full flex items-center justify-between p-3 text-left"
+      >
+        <span className="flex items-center gap-2 text-sm text-white">
+          {artifact.lines.length > 0 && (open ? (
+            <ChevronDown className="w-4 h-4 text-neutral-400" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-neutral-400" />
+          ))}
+          {label}
+        </span>
+        <span className={`text-xs ${artifact.status === 'same' ? 'text-neutral-500' : 'text-amber-400'}`}>
+          {summary}
+        </span>
+      </button>
+      {open && (
+        <pre className="max-h-96 overflow-auto text-xs font-mono border-t border-neutral-800">
+          {artifact.lines.map((line, index) =>
+            line.type === 'skipped' ? (
+              <div key={index} className="px-3 py-1 text-neutral-500 bg-neutral-900/50">
+                ⋯ {line.count} unchanged line{line.count === 1 ? '' : 's'}
+              </div>
+            ) : (
+              <div
+                key={index}
+                className={`px-3 whitespace-pre-wrap ${
+                  line.type === 'added'
+                    ? 'bg-emerald-500/10 text-emerald-300'
+                    : line.type === 'removed'
+                    ? 'bg-red-500/10 text-red-300'
+                    : 'text-neutral-400'
+                }`}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            )
+          )}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -5,14 +5,19 @@ import { SessionDetailContent } from './session-detail-content';
 import { db } from '@/db';
 import { engineeringSessions, engineeringMessages, teamMembers } from '@/db/schema';
 import { eq, inArray, desc } from 'drizzle-orm';
-import { ENGINEERING_PHASES, EngineeringPhase } from '@/lib/engineering-types';
+import { EngineeringPipelineService } from '@/services/engineering-pipeline-service';
+import { EngineeringBranchService } from '@/services/engineering-branch-service';
+import { EngineeringUsageService } from '@/services/engineering-usage-service';
+import { orderPipelinePhases, getPipelinePhase, calculatePipelineProgress } from '@/lib/engineering-pipeline';
 
 interface PageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ compare?: string }>;
 }
 
-export default async function SessionDetailPage({ params }: PageProps) {
+export default async function SessionDetailPage({ params, searchParams }: PageProps) {
   const { id } = await params;
+  const { compare } = await searchParams;
   const supabase = await createClient();
   const {
     data: { user },
@@ -68,31 +73,45 @@ export default async function SessionDetailPage({ params }: PageProps) {
   const artifacts = record.artifacts ? JSON.parse(record.artifacts) : {};
   const dependencyGraph = record.dependencyGraph ? JSON.parse(record.dependencyGraph) : { nodes: [], edges: [] };
 
-  // Calculate progress
-  const phases: EngineeringPhase[] = [
-    'scoping', 'requirements', 'architecture', 'design_review', 'implementation',
-    'code_review', 'testing', 'security_review', 'documentation', 'staging', 'launch'
-  ];
-  const completedPhases = phases.filter((p) => gateStatus[p]?.status === 'passed').length;
-  const progress = Math.round((completedPhases / phases.length) * 100);
+  // Calculate progress against the pipeline this session runs
+  const pipeline = await EngineeringPipelineService.getPipelineForSession(record);
+  const progress = calculatePipelineProgress(pipeline, gateStatus);
 
   // Build phase progress array
-  const phaseProgress = ENGINEERING_PHASES.map((phaseConfig) => {
-    const gate = gateStatus[phaseConfig.phase];
+  const phaseProgress = orderPipelinePhases(pipeline.phases).map((phaseConfig) => {
+    const gate = gateStatus[phaseConfig.id];
     return {
-      phase: phaseConfig.phase,
+      phase: phaseConfig.id,
       displayName: phaseConfig.displayName,
       description: phaseConfig.description,
       agent: phaseConfig.agent,
+      dependsOn: phaseConfig.dependsOn,
       status: (gate?.status || 'pending') as 'pending' | 'in_progress' | 'passed' | 'failed' | 'skipped',
       passedAt: gate?.passedAt || null,
       failedReason: gate?.failedReason || null,
-      isCurrent: record.currentPhase === phaseConfig.phase,
+      isCurrent: record.currentPhase === phaseConfig.id,
     };
   });
 
   // Get current phase config
-  const currentPhaseConfig = ENGINEERING_PHASES.find((p) => p.phase === record.currentPhase);
+  const currentPhaseConfig = getPipelinePhase(pipeline, record.currentPhase || 'scoping');
+
+  // Branches of this project (only the session itself if it was never forked)
+  const branchRecords = record.branchStatus ? await EngineeringBranchService.listBranches(id) : [];
+  const branches = branchRecords.map((branch) => ({
+    ...branch,
+    forkedAtPhaseDisplay: branch.forkedAtPhase
+      ? getPipelinePhase(pipeline, branch.forkedAtPhase)?.displayName || branch.forkedAtPhase
+      : null,
+    currentPhaseDisplay: getPipelinePhase(pipeline, branch.currentPhase)?.displayName || branch.currentPhase,
+  }));
+
+  const compareWith = compare && compare !== id && branches.some((b) => b.id === compare) ? compare : null;
+  const comparison = compareWith ? await EngineeringBranchService.compareBranches(id, compareWith) : null;
+
+  // Token usage and the budgets it counts against
+  const usage = await EngineeringUsageService.getSessionUsage(id);
+  const budget = await EngineeringUsageService.getBudgetStatus(id, usage.totals);
 
   // Transform messages
   const formattedMessages = messages.map((m) => ({
@@ -112,7 +131,7 @@ export default async function SessionDetailPage({ params }: PageProps) {
     projectName: record.projectName,
     projectDescription: record.projectDescription,
     status: record.status as 'active' | 'paused' | 'completed' | 'abandoned',
-    currentPhase: record.currentPhase as EngineeringPhase,
+    currentPhase: record.currentPhase || 'scoping',
     currentPhaseDisplay: currentPhaseConfig?.displayName || record.currentPhase || 'Unknown',
     currentPhaseDescription: currentPhaseConfig?.description || '',
     currentAgent: record.currentAgent || 'orchestrator',
@@ -120,6 +139,13 @@ export default async function SessionDetailPage({ params }: PageProps) {
     progress,
     scope,
     stack,
+    pipeline: {
+      name: pipeline.name,
+      version: pipeline.version,
+      isDefault: pipeline.id === null,
+    },
+    branchName: record.branchName,
+    branchStatus: record.branchStatus,
     phaseProgress,
     artifacts: {
       hasPrd: !!artifacts.prd,
@@ -139,9 +165,20 @@ export default async function SessionDetailPage({ params }: PageProps) {
     totalTokensUsed: record.totalTokensUsed,
     startedAt: record.startedAt,
     pausedAt: record.pausedAt,
+    pausedReason: record.pausedReason,
     completedAt: record.completedAt,
     lastActivityAt: record.lastActivityAt,
   };
 
-  return <SessionDetailContent session={session} messages={formattedMessages} />;
+  return (
+    <SessionDetailContent
+      session={session}
+      messages={formattedMessages}
+      branches={branches}
+      compareWith={compareWith}
+      comparison={comparison}
+      usage={usage}
+      budget={budget}
+    />
+  );
 }
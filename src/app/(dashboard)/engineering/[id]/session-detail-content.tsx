@@ -23,18 +23,23 @@ import {
   Zap,
   Loader2,
   Square,
+  GitBranch,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { EngineeringPhase } from '@/lib/engineering-types';
+import { ArtifactComparison, PipelinePhaseId, UsageBreakdown } from '@/lib/engineering-types';
+import { BranchesPanel, BranchItem } from './branches-panel';
+import { ArtifactHistory } from './artifact-history';
+import { UsagePanel, BudgetStatus } from './usage-panel';
 
 interface PhaseProgress {
   phase: string;
   displayName: string;
   description: string;
   agent: string;
+  dependsOn: string[];
   status: 'pending' | 'in_progress' | 'passed' | 'failed' | 'skipped';
   passedAt: string | null;
   failedReason: string | null;
@@ -58,7 +63,7 @@ interface SessionData {
   projectName: string;
   projectDescription: string | null;
   status: 'active' | 'paused' | 'completed' | 'abandoned';
-  currentPhase: EngineeringPhase;
+  currentPhase: PipelinePhaseId;
   currentPhaseDisplay: string;
   currentPhaseDescription: string;
   currentAgent: string;
@@ -66,6 +71,13 @@ interface SessionData {
   progress: number;
   scope: Record<string, unknown> | null;
   stack: Record<string, unknown> | null;
+  pipeline: {
+    name: string;
+    version: number;
+    isDefault: boolean;
+  };
+  branchName: string | null;
+  branchStatus: 'exploring' | 'promoted' | 'archived' | null;
   phaseProgress: PhaseProgress[];
   artifacts: {
     hasPrd: boolean;
@@ -85,6 +97,7 @@ interface SessionData {
   totalTokensUsed: number | null;
   startedAt: Date | null;
   pausedAt: Date | null;
+  pausedReason: string | null;
   completedAt: Date | null;
   lastActivityAt: Date | null;
 }
@@ -92,6 +105,11 @@ interface SessionData {
 interface SessionDetailContentProps {
   session: SessionData;
   messages: Message[];
+  branches: BranchItem[];
+  compareWith: string | null;
+  comparison: ArtifactComparison[] | null;
+  usage: UsageBreakdown;
+  budget: BudgetStatus;
 }
 
 function formatRelativeTime(date: Date | null): string {
@@ -156,6 +174,23 @@ function getPhaseStatusIcon(status: string, isCurrent: boolean) {
   }
 }
 
+/**
+ * Phases that share the exact same dependencies run side by side
+ */
+function getParallelPhases(phases: PhaseProgress[]): Set<string> {
+  const byDeps = new Map<string, string[]>();
+  for (const phase of phases) {
+    const key = [...phase.dependsOn].sort().join(',');
+    byDeps.set(key, [...(byDeps.get(key) || []), phase.phase]);
+  }
+
+  const parallel = new Set<string>();
+  for (const group of byDeps.values()) {
+    if (group.length > 1) group.forEach((id) => parallel.add(id));
+  }
+  return parallel;
+}
+
 function getAgentIcon(agent: string) {
   switch (agent) {
     case 'pm':
@@ -177,7 +212,15 @@ function getAgentIcon(agent: string) {
   }
 }
 
-export function SessionDetailContent({ session: initialSession, messages: initialMessages }: SessionDetailContentProps) {
+export function SessionDetailContent({
+  session: initialSession,
+  messages: initialMessages,
+  branches,
+  compareWith,
+  comparison,
+  usage,
+  budget,
+}: SessionDetailContentProps) {
   const [session, setSession] = useState(initialSession);
   const [messages, setMessages] = useState(initialMessages);
   const [showMessages, setShowMessages] = useState(false);
@@ -293,8 +336,11 @@ export function SessionDetailContent({ session: initialSession, messages: initia
     session.artifacts.hasDeploymentGuide,
   ].filter(Boolean).length;
 
-  // Can start build if scoping is done and not already running
-  const canStartBuild = !session.isRunning && session.status !== 'completed' && session.currentPhase !== 'scoping';
+  const parallelPhases = getParallelPhases(session.phaseProgress);
+
+  // Can start build if scoping is done and not already running (archived branches are read-only)
+  const canStartBuild = !session.isRunning && session.status !== 'completed' && session.currentPhase !== 'scoping'
+    && session.branchStatus !== 'archived';
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -312,6 +358,12 @@ export function SessionDetailContent({ session: initialSession, messages: initia
         <div>
           <div className="flex items-center gap-3 mb-2">
             <h1 className="text-2xl font-bold text-white">{session.projectName}</h1>
+            {session.branchName && (
+              <Badge variant="outline" className="text-neutral-300 border-neutral-700">
+                <GitBranch className="w-3 h-3 mr-1" />
+                {session.branchName}
+              </Badge>
+            )}
             <Badge variant="outline" className={getStatusBadgeClass(session.status)}>
               {getStatusIcon(session.status)}
               <span className="ml-1 capitalize">{session.status}</span>
@@ -367,7 +419,7 @@ export function SessionDetailContent({ session: initialSession, messages: initia
               )}
             </Button>
           )}
-          {session.status === 'paused' && (
+          {session.status === 'paused' && session.branchStatus !== 'archived' && (
             <Button
               onClick={handleStartBuild}
               disabled={isStarting}
@@ -419,6 +471,17 @@ export function SessionDetailContent({ session: initialSession, messages: initia
               )}
             </div>
 
+            {/* Budget / manual pause reason */}
+            {session.status === 'paused' && session.pausedReason && (
+              <div className="flex items-start gap-2 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+                <Pause className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-sm text-amber-400 font-medium">Paused</p>
+                  <p className="text-sm text-amber-300">{session.pausedReason}</p>
+                </div>
+              </div>
+            )}
+
             {/* Error Display */}
             {session.lastError && (
               <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -437,6 +500,11 @@ export function SessionDetailContent({ session: initialSession, messages: initia
       <Card className="bg-neutral-900/80 border-neutral-800">
         <CardHeader>
           <CardTitle className="text-lg text-white">Phase Progress</CardTitle>
+          {!session.pipeline.isDefault && (
+            <CardDescription>
+              {session.pipeline.name} (v{session.pipeline.version})
+            </CardDescription>
+          )}
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
@@ -460,6 +528,11 @@ export function SessionDetailContent({ session: initialSession, messages: initia
                       {phase.displayName}
                     </span>
                     <span className="text-xs text-neutral-500 capitalize">({phase.agent})</span>
+                    {parallelPhases.has(phase.phase) && (
+                      <Badge variant="outline" className="text-[10px] border-neutral-700 text-neutral-400">
+                        parallel
+                      </Badge>
+                    )}
                   </div>
                   {phase.isCurrent && (
                     <p className="text-xs text-neutral-400 mt-0.5">{phase.description}</p>
@@ -479,6 +552,17 @@ export function SessionDetailContent({ session: initialSession, messages: initia
         </CardContent>
       </Card>
 
+      {/* Branches */}
+      <BranchesPanel
+        sessionId={session.id}
+        branches={branches}
+        passedPhases={session.phaseProgress
+          .filter((p) => p.status === 'passed')
+          .map((p) => ({ phase: p.phase, displayName: p.displayName }))}
+        compareWith={compareWith}
+        comparison={comparison}
+      />
+
       {/* Stats Grid */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card className="bg-neutral-900/80 border-neutral-800">
@@ -517,6 +601,9 @@ export function SessionDetailContent({ session: initialSession, messages: initia
         </Card>
       </div>
 
+      {/* Token usage and budget */}
+      <UsagePanel sessionId={session.id} usage={usage} budget={budget} />
+
       {/* Artifacts */}
       {artifactCount > 0 && (
         <Card className="bg-neutral-900/80 border-neutral-800">
@@ -569,6 +656,9 @@ export function SessionDetailContent({ session: initialSession, messages: initia
         </Card>
       )}
 
+      {/* Artifact revisions */}
+      <ArtifactHistory sessionId={session.id} />
+
       {/* Messages */}
       {allMessages.length > 0 && (
         <Card className="bg-neutral-900/80 border-neutral-800">
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { DollarSign, Loader2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { BudgetLimits, UsageBreakdown, UsageTotals } from '@/lib/engineering-types';
+import { formatCost } from '@/lib/engineering-usage';
+
+export interface BudgetStatus {
+  session: BudgetLimits | null;
+  team: BudgetLimits | null;
+  sessionUsage: UsageTotals;
+  teamUsage: UsageTotals;
+  exceededReason: string | null;
+}
+
+interface UsagePanelProps {
+  sessionId: string;
+  usage: UsageBreakdown;
+  budget: BudgetStatus;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}K`;
+  return String(tokens);
+}
+
+function centsToMicros(cents: number | null | undefined): number | null {
+  return cents == null ? null : cents * 10_000;
+}
+
+function LimitBar({
+  label,
+  used,
+  limit,
+  format,
+}: {
+  label: string;
+  used: number;
+  limit: number | null;
+  format: (value: number) => string;
+}) {
+  if (limit === null) return null;
+  const percent = limit === 0 ? 100 : Math.min(100, Math.round((used / limit) * 100));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-neutral-400">{label}</span>
+        <span className={percent >= 100 ? 'text-red-400' : 'text-neutral-300'}>
+          {format(used)} / {format(limit)}
+        </span>
+      </div>
+      <Progress value={percent} className="h-1.5" />
+    </div>
+  );
+}
+
+function UsageTable({ title, rows }: { title: string; rows: Record<string, UsageTotals> }) {
+  const entries = Object.entries(rows).sort(([, a], [, b]) => b.costMicros - a.costMicros);
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-neutral-400 mb-2">{title}</p>
+      {entries.length === 0 ? (
+        <p className="text-sm text-neutral-500">No AI calls yet</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map(([name, totals]) => (
+            <div key={name} className="flex items-center justify-between text-sm p-2 bg-neutral-800/30 rounded">
+              <span className="text-white capitalize">{name.replace('_', ' ')}</span>
+              <span className="text-neutral-400 text-xs">
+                {formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out ·{' '}
+                <span className="text-white">{formatCost(totals.costMicros)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function UsagePanel({ sessionId, usage, budget }: UsagePanelProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [maxCost, setMaxCost] = useState(
+    budget.session?.maxCostCents != null ? String(budget.session.maxCostCents / 100) : ''
+  );
+  const [maxInput, setMaxInput] = useState(budget.session?.maxInputTokens?.toString() ?? '');
+  const [maxOutput, setMaxOutput] = useState(budget.session?.maxOutputTokens?.toString() ?? '');
+
+  const limits = budget.session;
+  const used = budget.sessionUsage;
+
+  const handleSave = async () => {
+    const toLimit = (value: string, scale = 1) =>
+      value.trim() === '' ? null : Math.round(Number(value) * scale);
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/engineering/sessions/${sessionId}/budget`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          maxCostCents: toLimit(maxCost, 100),
+          maxInputTokens: toLimit(maxInput),
+          maxOutputTokens: toLimit(maxOutput),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save budget');
+
+      toast.success('Budget saved');
+      setEditing(false);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-neutral-900/80 border-neutral-800">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg text-white flex items-center gap-2">
+              <DollarSign className="w-5 h-5 text-emerald-400" />
+              Usage &amp; Budget
+            </CardTitle>
+            <CardDescription>
+              {formatCost(usage.totals.costMicros)} across {usage.totals.calls} AI calls
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setEditing(!editing)}
+            className="border-neutral-700 text-neutral-300"
+          >
+            {editing ? 'Cancel' : limits ? 'Edit budget' : 'Set budget'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {budget.exceededReason && (
+          <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-300">{budget.exceededReason}</p>
+          </div>
+        )}
+
+        {editing ? (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="Max cost ($)"
+              value={maxCost}
+              onChange={(e) => setMaxCost(e.target.value)}
+              className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Max input tokens"
+              value={maxInput}
+              onChange={(e) => setMaxInput(e.target.value)}
+              className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Max output tokens"
+              value={maxOutput}
+              onChange={(e) => setMaxOutput(e.target.value)}
+              className="bg-neutral-800 border-neutral-700 text-white placeholder:text-neutral-500"
+            />
+            <Button onClick={handleSave} disabled={saving} className="bg-emerald-600 hover:bg-emerald-700">
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        ) : (
+          (limits || budget.team) && (
+            <div className="space-y-3">
+              <LimitBar
+                label="Session cost"
+                used={used.costMicros}
+                limit={centsToMicros(limits?.maxCostCents)}
+                format={formatCost}
+              />
+              <LimitBar
+                label="Session input tokens"
+                used={used.inputTokens}
+                limit={limits?.maxInputTokens ?? null}
+                format={formatTokens}
+              />
+              <LimitBar
+                label="Session output tokens"
+                used={used.outputTokens}
+                limit={limits?.maxOutputTokens ?? null}
+                format={formatTokens}
+              />
+              <LimitBar
+                label="Team this month"
+                used={budget.teamUsage.costMicros}
+                limit={centsToMicros(budget.team?.maxCostCents)}
+                format={formatCost}
+              />
+            </div>
+          )
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <UsageTable title="By Agent" rows={usage.byAgent} />
+          <UsageTable title="By Phase" rows={usage.byPhase} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -50,13 +50,10 @@ export default async function EngineeringPage() {
     const artifacts = record.artifacts ? JSON.parse(record.artifacts) : {};
     const scope = record.scope ? JSON.parse(record.scope) : { name: record.projectName };
 
-    // Calculate progress
-    const phases: EngineeringPhase[] = [
-      'scoping', 'requirements', 'architecture', 'design_review', 'implementation',
-      'code_review', 'testing', 'security_review', 'documentation', 'staging', 'launch'
-    ];
+    // Calculate progress (gate status has one entry per phase of the session's pipeline)
+    const phases = Object.keys(gateStatus);
     const completedPhases = phases.filter((p) => gateStatus[p]?.status === 'passed').length;
-    const progress = Math.round((completedPhases / phases.length) * 100);
+    const progress = phases.length > 0 ? Math.round((completedPhases / phases.length) * 100) : 0;
 
     // Get current phase display info
     const currentPhaseConfig = ENGINEERING_PHASES.find((p) => p.phase === record.currentPhase);
@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase/server';
 import { redirect, notFound } from 'next/navigation';
 import { TeamService } from '@/services/team-service';
 import { ProjectTrackingService } from '@/services/project-tracking-service';
+import { ProjectSnapshotService } from '@/services/project-snapshot-service';
 import { ProjectDashboardContent } from './project-dashboard-content';
 import { db, projects } from '@/db';
 import { eq } from 'drizzle-orm';
@@ -47,9 +48,10 @@ export default async function ProjectDetailPage({ params }: Props) {
   }
 
   // Get additional data for visualizations
-  const [fileTree, testRuns] = await Promise.all([
+  const [fileTree, testRuns, { snapshots, pendingRestore }] = await Promise.all([
     ProjectTrackingService.getProjectFileTree(id),
     ProjectTrackingService.getProjectTestRuns(id, 20),
+    ProjectSnapshotService.listSnapshots(id),
   ]);
 
   return (
@@ -57,6 +59,8 @@ export default async function ProjectDetailPage({ params }: Props) {
       dashboard={dashboard}
       fileTree={fileTree}
       testRuns={testRuns}
+      snapshots={snapshots}
+      pendingRestore={pendingRestore}
     />
   );
 }
@@ -9,6 +9,14 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
 import {
   ArrowLeft,
   Clock,
@@ -30,6 +38,10 @@ import {
   History,
   FileText,
   Coins,
+  GitCompare,
+  RotateCcw,
+  Loader2,
+  Globe,
 } from 'lucide-react';
 import type {
   Project,
@@ -38,7 +50,11 @@ import type {
   ProjectTestRun,
   ProjectFile,
   ProjectRiskFlag,
+  ProjectSnapshot,
+  ProjectSnapshotRestore,
 } from '@/db';
+import type { DiffHunk, SnapshotDiff } from '@/lib/project-snapshots';
+import type { StreamedProjectEvent } from '@/services/project-event-stream-service';
 
 interface DashboardData {
   project: Project & { overallProgress: number };
@@ -55,10 +71,20 @@ interface DashboardData {
   };
 }
 
+type PendingRestore = Omit<ProjectSnapshotRestore, 'paths'> & { paths: string[] | null };
+
+interface FileDiff {
+  path: string;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
 interface ProjectDashboardContentProps {
   dashboard: DashboardData;
   fileTree: ProjectFile[];
   testRuns: ProjectTestRun[];
+  snapshots: ProjectSnapshot[];
+  pendingRestore: PendingRestore | null;
 }
 
 const statusConfig = {
@@ -93,29 +119,57 @@ const eventTypeIcons: Record<string, typeof Activity> = {
   risk_flagged: AlertTriangle,
   ai_decision: Zap,
   snapshot_created: History,
+  snapshot_restored: RotateCcw,
   docs_generated: FileText,
 };
 
 export function ProjectDashboardContent({
   dashboard,
   fileTree,
-  testRuns,
+  testRuns: initialTestRuns,
+  snapshots,
+  pendingRestore,
 }: ProjectDashboardContentProps) {
-  const { project, phases, timeline, riskFlags, resources } = dashboard;
+  const { project, phases, resources } = dashboard;
   const status = statusConfig[project.status as keyof typeof statusConfig] || statusConfig.building;
 
-  // Auto-refresh data every 30 seconds when project is active
-  const [lastRefresh, setLastRefresh] = useState(new Date());
+  // Snapshot comparison and restores
+  const [restoreRequest, setRestoreRequest] = useState<PendingRestore | null>(pendingRestore);
+  const [compareFrom, setCompareFrom] = useState(snapshots[1]?.id ?? '');
+  const [compareTo, setCompareTo] = useState(snapshots[0]?.id ?? '');
+  const [comparison, setComparison] = useState<{ from: string; to: string; diff: SnapshotDiff } | null>(null);
+  const [fileDiff, setFileDiff] = useState<FileDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isRequestingRestore, setIsRequestingRestore] = useState(false);
+
+  // Live timeline, test runs and risk flags
+  const [timeline, setTimeline] = useState<ProjectEvent[]>(dashboard.timeline);
+  const [testRuns, setTestRuns] = useState<ProjectTestRun[]>(initialTestRuns);
+  const [riskFlags, setRiskFlags] = useState<ProjectRiskFlag[]>(dashboard.riskFlags);
+  const [isLive, setIsLive] = useState(false);
+  const streamAfter = dashboard.timeline[0]?.id;
 
   useEffect(() => {
-    if (project.status === 'building' || project.status === 'testing') {
-      const interval = setInterval(() => {
-        setLastRefresh(new Date());
-        // In a real app, you'd refetch data here
-      }, 30000);
-      return () => clearInterval(interval);
-    }
-  }, [project.status]);
+    // Start after the newest event the page was rendered with; reconnects resume from Last-Event-ID
+    const query = streamAfter ? `?after=${streamAfter}` : '';
+    const source = new EventSource(`/api/projects/${project.id}/events/stream${query}`);
+
+    source.onopen = () => setIsLive(true);
+    source.onerror = () => setIsLive(false);
+    source.addEventListener('project_event', (message) => {
+      const { testRun, riskFlag, ...event } = JSON.parse((message as MessageEvent).data) as StreamedProjectEvent;
+
+      setTimeline((current) => [event, ...current.filter((e) => e.id !== event.id)].slice(0, 100));
+      if (testRun) {
+        setTestRuns((current) => [testRun, ...current.filter((r) => r.id !== testRun.id)]);
+      }
+      if (riskFlag && !riskFlag.isResolved) {
+        setRiskFlags((current) => [riskFlag, ...current.filter((f) => f.id !== riskFlag.id)]);
+      }
+    });
+
+    return () => source.close();
+  }, [project.id, streamAfter]);
 
   // Calculate test stats
   const totalTests = testRuns.reduce((sum, tr) => sum + (tr.totalTests || 0), 0);
@@ -135,6 +189,102 @@ export function ProjectDashboardContent({
     return `$${dollars.toFixed(4)}`;
   };
 
+  // Format size
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const setEventPublic = async (event: ProjectEvent, isPublic: boolean) => {
+    try {
+      const response = await fetch(`/api/projects/${project.id}/events/${event.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isPublic }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update event');
+      }
+
+      setTimeline((current) => current.map((e) => (e.id === event.id ? { ...e, isPublic } : e)));
+      toast.success(isPublic ? 'Shown on the public progress page' : 'Hidden from the public progress page');
+    } catch {
+      toast.error('Failed to update event');
+    }
+  };
+
+  const snapshotName = (id: string) => snapshots.find(s => s.id === id)?.snapshotName ?? 'snapshot';
+
+  const compareSnapshots = async () => {
+    if (!compareFrom || !compareTo) return;
+
+    setIsComparing(true);
+    setFileDiff(null);
+    try {
+      const response = await fetch(`/api/projects/${project.id}/snapshots/compare?from=${compareFrom}&to=${compareTo}`);
+      if (!response.ok) {
+        throw new Error('Failed to compare snapshots');
+      }
+
+      const result = await response.json();
+      setComparison({ from: compareFrom, to: compareTo, diff: result.data.diff });
+    } catch {
+      toast.error('Failed to compare snapshots');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const showFileDiff = async (path: string) => {
+    if (!comparison) return;
+
+    try {
+      const response = await fetch(
+        `/api/projects/${project.id}/snapshots/compare?from=${comparison.from}&to=${comparison.to}&path=${encodeURIComponent(path)}`
+      );
+      if (!response.ok) {
+        throw new Error('Failed to load file diff');
+      }
+
+      const result = await response.json();
+      setFileDiff(result.data);
+    } catch {
+      toast.error('Failed to load file diff');
+    }
+  };
+
+  /**
+   * Queue a restore for the CLI - the dashboard can't write project files itself
+   * @param paths - Files to restore, or null for the whole tree
+   */
+  const requestRestore = async (snapshotId: string, paths: string[] | null) => {
+    const what = paths ? paths.join(', ') : 'the whole project';
+    if (!confirm(`Restore ${what} to "${snapshotName(snapshotId)}"?\n\nThe CLI shows a diff and asks before changing any files.`)) {
+      return;
+    }
+
+    setIsRequestingRestore(true);
+    try {
+      const response = await fetch(`/api/projects/${project.id}/snapshots/${snapshotId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paths }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to request restore');
+      }
+
+      const result = await response.json();
+      setRestoreRequest(result.data);
+      toast.success('Restore requested. Run `codebakers restore` in the project to apply it.');
+    } catch {
+      toast.error('Failed to request restore');
+    } finally {
+      setIsRequestingRestore(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -199,11 +349,12 @@ export function ProjectDashboardContent({
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="timeline" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="timeline">Timeline</TabsTrigger>
           <TabsTrigger value="phases">Phases</TabsTrigger>
           <TabsTrigger value="tests">Tests</TabsTrigger>
           <TabsTrigger value="files">Files</TabsTrigger>
+          <TabsTrigger value="snapshots">Snapshots</TabsTrigger>
           <TabsTrigger value="risks">Risks</TabsTrigger>
           <TabsTrigger value="resources">Resources</TabsTrigger>
         </TabsList>
@@ -215,6 +366,11 @@ export function ProjectDashboardContent({
               <CardTitle className="flex items-center gap-2">
                 <Activity className="h-5 w-5" />
                 Activity Timeline
+                {isLive && (
+                  <Badge variant="outline" className="ml-2 text-xs text-green-600">
+                    Live
+                  </Badge>
+                )}
               </CardTitle>
               <CardDescription>
                 Real-time feed of everything happening in your project
@@ -270,9 +426,22 @@ export function ProjectDashboardContent({
                                   </Badge>
                                 )}
                               </div>
-                              <span className="text-xs text-muted-foreground whitespace-nowrap">
-                                {new Date(event.createdAt!).toLocaleTimeString()}
-                              </span>
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                  {new Date(event.createdAt!).toLocaleTimeString()}
+                                </span>
+                                {project.isPublicPageEnabled && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className={`h-7 w-7 p-0 ${event.isPublic ? 'text-green-600' : 'text-muted-foreground'}`}
+                                    title={event.isPublic ? 'Hide from public page' : 'Show on public page'}
+                                    onClick={() => setEventPublic(event, !event.isPublic)}
+                                  >
+                                    <Globe className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
                             </div>
                           </div>
                         </div>
@@ -537,6 +706,197 @@ export function ProjectDashboardContent({
           </Card>
         </TabsContent>
 
+        {/* Snapshots Tab */}
+        <TabsContent value="snapshots" className="space-y-4">
+          {restoreRequest && (
+            <Card className="border-yellow-300 bg-yellow-50">
+              <CardContent className="pt-6 flex items-center gap-3">
+                <RotateCcw className="h-5 w-5 text-yellow-600" />
+                <div className="text-sm">
+                  <p className="font-medium">
+                    Restore to &quot;{snapshotName(restoreRequest.snapshotId)}&quot; is waiting for the CLI
+                    {restoreRequest.paths ? ` (${restoreRequest.paths.length} file${restoreRequest.paths.length === 1 ? '' : 's'})` : ' (whole project)'}
+                  </p>
+                  <p className="text-muted-foreground">
+                    Run <code className="bg-muted px-1 rounded">codebakers restore</code> in the project to review the changes and apply them.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Snapshots
+              </CardTitle>
+              <CardDescription>
+                Rollback points with the full contents of your project files
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {snapshots.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">
+                  No snapshots yet. Create one with <code className="bg-muted px-1 rounded">codebakers snapshot</code>.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {snapshots.map((snapshot) => (
+                    <div key={snapshot.id} className="flex items-center justify-between p-3 rounded-lg border">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{snapshot.snapshotName}</p>
+                          {snapshot.isAutomatic && <Badge variant="outline">Automatic</Badge>}
+                          {snapshot.wasRestored && <Badge variant="secondary">Restored</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(snapshot.createdAt!).toLocaleString()}
+                          {' · '}{snapshot.fileCount || 0} files, {formatBytes(snapshot.totalBytes || 0)}
+                          {snapshot.gitCommitHash && <> · <code>{snapshot.gitCommitHash.slice(0, 7)}</code></>}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!snapshot.fileCount || isRequestingRestore}
+                        onClick={() => requestRestore(snapshot.id, null)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {snapshots.length >= 2 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <GitCompare className="h-5 w-5" />
+                  Compare Snapshots
+                </CardTitle>
+                <CardDescription>
+                  See what changed between two snapshots and restore single files
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Select value={compareFrom} onValueChange={setCompareFrom}>
+                    <SelectTrigger className="w-[240px]">
+                      <SelectValue placeholder="From" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {snapshots.map((snapshot) => (
+                        <SelectItem key={snapshot.id} value={snapshot.id}>{snapshot.snapshotName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                  <Select value={compareTo} onValueChange={setCompareTo}>
+                    <SelectTrigger className="w-[240px]">
+                      <SelectValue placeholder="To" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {snapshots.map((snapshot) => (
+                        <SelectItem key={snapshot.id} value={snapshot.id}>{snapshot.snapshotName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={compareSnapshots} disabled={isComparing || !compareFrom || !compareTo}>
+                    {isComparing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Compare
+                  </Button>
+                </div>
+
+                {comparison && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      {comparison.diff.modified.length} modified, {comparison.diff.added.length} added, {comparison.diff.removed.length} removed, {comparison.diff.unchanged} unchanged
+                    </p>
+                    <ScrollArea className="h-[300px] rounded border">
+                      <div className="font-mono text-sm">
+                        {[
+                          ...comparison.diff.modified.map(f => ({ path: f.path, status: 'modified' as const })),
+                          ...comparison.diff.added.map(f => ({ path: f.path, status: 'added' as const })),
+                          ...comparison.diff.removed.map(f => ({ path: f.path, status: 'removed' as const })),
+                        ].map((file) => (
+                          <div
+                            key={file.path}
+                            className={`flex items-center gap-2 px-3 py-1 hover:bg-muted/50 cursor-pointer ${fileDiff?.path === file.path ? 'bg-muted' : ''}`}
+                            onClick={() => showFileDiff(file.path)}
+                          >
+                            <Badge
+                              variant="outline"
+                              className={
+                                file.status === 'added' ? 'text-green-600' :
+                                file.status === 'removed' ? 'text-red-600' :
+                                'text-yellow-600'
+                              }
+                            >
+                              {file.status}
+                            </Badge>
+                            <span className="truncate">{file.path}</span>
+                            {file.status !== 'added' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="ml-auto"
+                                disabled={isRequestingRestore}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  requestRestore(comparison.from, [file.path]);
+                                }}
+                              >
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                                Restore from &quot;{snapshotName(comparison.from)}&quot;
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </div>
+                )}
+
+                {fileDiff && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium font-mono">{fileDiff.path}</p>
+                    {fileDiff.binary ? (
+                      <p className="text-sm text-muted-foreground">Binary file changed</p>
+                    ) : (
+                      <ScrollArea className="h-[400px] rounded border bg-muted/30">
+                        <pre className="text-xs p-3">
+                          {fileDiff.hunks.map((hunk) => (
+                            <div key={`${hunk.oldStart}:${hunk.newStart}`} className="mb-2">
+                              <div className="text-blue-600">@@ -{hunk.oldStart} +{hunk.newStart} @@</div>
+                              {hunk.lines.map((line, i) => (
+                                <div
+                                  key={i}
+                                  className={
+                                    line.type === 'added' ? 'bg-green-100 text-green-800' :
+                                    line.type === 'removed' ? 'bg-red-100 text-red-800' :
+                                    ''
+                                  }
+                                >
+                                  {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} {line.text}
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                        </pre>
+                      </ScrollArea>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
         {/* Risks Tab */}
         <TabsContent value="risks" className="space-y-4">
           <Card>
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Users, Mail, UserPlus, Loader2, Trash2, Clock, X } from 'lucide-react';
+import { Users, Mail, UserPlus, Loader2, Trash2, Clock, X, AlertTriangle } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -76,6 +76,7 @@ export function TeamContent({ team, members, pendingInvites, currentUserId }: Te
   const isOwner = currentUserId === team.ownerId;
   const totalSeatsUsed = members.length + pendingInvites.length;
   const canInvite = totalSeatsUsed < team.seatLimit;
+  const overLimit = members.length > team.seatLimit;
 
   const handleInvite = async () => {
     if (!inviteEmail) {
@@ -93,6 +94,15 @@ export function TeamContent({ team, members, pendingInvites, currentUserId }: Te
 
       const data = await response.json();
 
+      if (response.status === 402 && data.code === 'PLAN_LIMIT_REACHED') {
+        toast.error(data.error, {
+          action: { label: 'View Plans', onClick: () => router.push('/billing') },
+        });
+        setDialogOpen(false);
+        router.refresh();
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data.error || 'Failed to send invitation');
       }
@@ -186,7 +196,10 @@ export function TeamContent({ team, members, pendingInvites, currentUserId }: Te
             <div className="text-2xl font-bold text-white">
               {members.length}
             </div>
-            <p className="text-xs text-neutral-400">of {team.seatLimit} seats used</p>
+            <p className={`text-xs ${overLimit ? 'text-red-400' : 'text-neutral-400'}`}>
+              of {team.seatLimit} seats used
+              {pendingInvites.length > 0 && ` (${pendingInvites.length} more held by pending invitations)`}
+            </p>
           </CardContent>
         </Card>
 
@@ -204,6 +217,20 @@ export function TeamContent({ team, members, pendingInvites, currentUserId }: Te
         </Card>
       </div>
 
+      {/* Over Seat Limit */}
+      {overLimit && (
+        <Card className="bg-red-900/30 border-red-700">
+          <CardContent className="flex items-start gap-3 py-4">
+            <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-neutral-200">
+              Your team has {members.length} members but your plan includes {team.seatLimit} seat
+              {team.seatLimit === 1 ? '' : 's'}. New invitations are blocked until you remove{' '}
+              {members.length - team.seatLimit} member{members.length - team.seatLimit === 1 ? '' : 's'} or upgrade.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Team Members */}
       <Card className="bg-neutral-900/80 border-neutral-800">
         <CardHeader className="flex flex-row items-center justify-between">
@@ -219,6 +246,7 @@ export function TeamContent({ team, members, pendingInvites, currentUserId }: Te
                 <Button
                   className="bg-red-600 hover:bg-red-700"
                   disabled={!canInvite}
+                  title={canInvite ? undefined : `All ${team.seatLimit} seats are taken`}
                 >
                   <UserPlus className="h-4 w-4 mr-2" />
                   Invite Member
@@ -404,7 +432,8 @@ export function TeamContent({ team, members, pendingInvites, currentUserId }: Te
                 Need more seats?
               </h3>
               <p className="text-neutral-300">
-                Upgrade to Team or Agency plan for more team members
+                All {team.seatLimit} seats are taken by members and pending invitations.
+                Upgrade to Team or Agency plan for more team members, or revoke an invitation.
               </p>
             </div>
             <Link href="/billing">
@@ -13,6 +13,7 @@ const updateVersionSchema = z.object({
   breakingChanges: z.string().optional(),
   isAutoUpdateEnabled: z.boolean().optional(),
   rolloutPercent: z.number().min(0).max(100).optional(),
+  halted: z.boolean().optional(), // Stop or resume the rollout
 });
 
 /**
@@ -100,6 +101,13 @@ export async function PATCH(
     if (data.breakingChanges !== undefined) updates.breakingChanges = data.breakingChanges;
     if (data.isAutoUpdateEnabled !== undefined) updates.isAutoUpdateEnabled = data.isAutoUpdateEnabled;
     if (data.rolloutPercent !== undefined) updates.rolloutPercent = data.rolloutPercent;
+    if (data.halted === true && !current.haltedAt) {
+      updates.haltedAt = new Date();
+      updates.haltReason = 'Halted by an admin';
+    } else if (data.halted === false) {
+      updates.haltedAt = null;
+      updates.haltReason = null;
+    }
 
     // Handle status transitions
     if (data.status && data.status !== current.status) {
@@ -117,6 +125,10 @@ export async function PATCH(
           if (data.isAutoUpdateEnabled === undefined) {
             updates.isAutoUpdateEnabled = true;
           }
+          // ...and roll out to everyone unless a percentage was chosen
+          if (data.rolloutPercent === undefined && !current.rolloutPercent) {
+            updates.rolloutPercent = 100;
+          }
           break;
         case 'deprecated':
           updates.deprecatedAt = new Date();
@@ -4,25 +4,11 @@ import { requireAdmin } from '@/lib/auth';
 import { db, cliVersions } from '@/db';
 import { desc, eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { CliVersionService } from '@/services/cli-version-service';
+import { compareVersions } from '@/lib/cli-rollout';
 
 export const dynamic = 'force-dynamic';
 
-/**
- * Compare two semantic version strings (e.g., "3.3.4" vs "3.10.0")
- * Returns negative if a < b, positive if a > b, 0 if equal
- */
-function compareVersions(a: string, b: string): number {
-  const partsA = a.split('.').map(Number);
-  const partsB = b.split('.').map(Number);
-
-  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
-    const numA = partsA[i] || 0;
-    const numB = partsB[i] || 0;
-    if (numA !== numB) return numB - numA; // Descending order (newest first)
-  }
-  return 0;
-}
-
 const createVersionSchema = z.object({
   version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Version must be in format X.Y.Z'),
   npmTag: z.string().default('latest'),
@@ -34,17 +20,20 @@ const createVersionSchema = z.object({
 
 /**
  * GET /api/admin/cli-versions
- * List all CLI versions with their status
+ * List all CLI versions with their status and rollout cohort over the last week
  */
 export async function GET(req: NextRequest) {
   try {
     autoRateLimit(req);
     await requireAdmin();
 
-    const versions = await db.query.cliVersions.findMany();
+    const [versions, cohorts] = await Promise.all([
+      db.query.cliVersions.findMany(),
+      CliVersionService.getCohortOverview(),
+    ]);
 
     // Sort by semantic version (newest first)
-    versions.sort((a, b) => compareVersions(a.version, b.version));
+    versions.sort((a, b) => compareVersions(b.version, a.version));
 
     // Get publisher names
     const publisherIds = versions.map(v => v.publishedBy).filter(Boolean) as string[];
@@ -62,6 +51,7 @@ export async function GET(req: NextRequest) {
         name: publisherMap[v.publishedBy]?.fullName || null,
         email: publisherMap[v.publishedBy]?.email || null,
       } : null,
+      cohort: cohorts[v.version] ?? { assigned: 0, installs: 0, erroringInstalls: 0, errorRate: 0 },
     }));
 
     return successResponse({ versions: versionsWithPublishers });
@@ -1,27 +1,40 @@
 import { NextRequest } from 'next/server';
+import { z } from 'zod';
 import { requireAdmin } from '@/lib/auth';
 import { ContentManagementService } from '@/services/content-management-service';
 import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
 
 export const dynamic = 'force-dynamic';
 
-// POST - Publish a version (make it active)
+const publishSchema = z.object({
+  channel: z.enum(['stable', 'beta', 'canary']).default('stable'),
+  rolloutPercent: z.number().int().min(1).max(100).default(100),
+});
+
+// POST - Publish a version to a release channel (defaults to all stable teams)
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     autoRateLimit(req);
-    await requireAdmin();
+    const session = await requireAdmin();
 
     const { id } = await params;
-    const version = await ContentManagementService.publishVersion(id);
+    const body = await req.json().catch(() => ({}));
+    const { channel, rolloutPercent } = publishSchema.parse(body);
+
+    const version = await ContentManagementService.publishVersion(id, {
+      channel,
+      rolloutPercent,
+      userId: session.user.id,
+    });
 
-    if (!version) {
-      return successResponse({ error: 'Version not found' }, 404);
-    }
+    const message = rolloutPercent === 100
+      ? `Version published to ${channel}`
+      : `Version rolling out to ${rolloutPercent}% of ${channel}`;
 
-    return successResponse({ version, message: 'Version published successfully' });
+    return successResponse({ version, message });
   } catch (error) {
     return handleApiError(error);
   }
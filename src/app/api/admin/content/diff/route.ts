@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { ContentManagementService } from '@/services/content-management-service';
+
+export const dynamic = 'force-dynamic';
+
+const diffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+/**
+ * GET /api/admin/content/diff?from=15.1&to=15.2
+ * Module-by-module diff between two versions and the changelog generated from it
+ */
+export async function GET(req: NextRequest) {
+  try {
+    autoRateLimit(req);
+    await requireAdmin();
+
+    const { from, to } = diffQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+    const result = await ContentManagementService.diffVersions(from, to);
+
+    return successResponse(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { ContentRolloutService } from '@/services/content-rollout-service';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const releaseActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('expand'),
+    rolloutPercent: z.number().int().min(1).max(100),
+  }),
+  z.object({
+    action: z.literal('rollback'),
+    reason: z.string().trim().min(1).max(500).default('Rolled back by an admin'),
+  }),
+]);
+
+/**
+ * POST /api/admin/content/rollouts/[id]
+ * Widen or roll back a release
+ * Body: { action: 'expand', rolloutPercent } | { action: 'rollback', reason? }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const session = await requireAdmin();
+
+    const { id } = await params;
+    const body = await req.json();
+    const input = releaseActionSchema.parse(body);
+
+    const release = input.action === 'expand'
+      ? await ContentRolloutService.setRolloutPercent(id, input.rolloutPercent)
+      : await ContentRolloutService.rollback(id, input.reason, session.user.id);
+
+    return successResponse({ release });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
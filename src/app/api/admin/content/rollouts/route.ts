@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { ContentRolloutService } from '@/services/content-rollout-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/content/rollouts
+ * Current release of each channel, adoption per version and recent releases
+ */
+export async function GET(req: NextRequest) {
+  try {
+    autoRateLimit(req);
+    await requireAdmin();
+
+    const overview = await ContentRolloutService.getOverview();
+
+    return successResponse(overview);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/admin/content/rollouts
+ * Check recent releases for report spikes now and roll back any that regressed
+ */
+export async function POST(req: NextRequest) {
+  try {
+    autoRateLimit(req);
+    await requireAdmin();
+
+    const rollbacks = await ContentRolloutService.checkForRegressions();
+
+    return successResponse({ rollbacks });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
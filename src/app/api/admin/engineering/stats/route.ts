@@ -1,22 +1,26 @@
 import { NextRequest } from 'next/server';
 import { requireAdmin } from '@/lib/auth';
 import { EngineeringOrchestratorService } from '@/services/engineering-orchestrator-service';
+import { EngineeringUsageService } from '@/services/engineering-usage-service';
 import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/admin/engineering/stats
- * Get engineering session statistics
+ * Get engineering session statistics, including token usage and cost
  */
 export async function GET(req: NextRequest) {
   try {
     autoRateLimit(req);
     await requireAdmin();
 
-    const stats = await EngineeringOrchestratorService.getStats();
+    const [stats, usage] = await Promise.all([
+      EngineeringOrchestratorService.getStats(),
+      EngineeringUsageService.getUsageStats(),
+    ]);
 
-    return successResponse({ stats });
+    return successResponse({ stats: { ...stats, usage } });
   } catch (error) {
     return handleApiError(error);
   }
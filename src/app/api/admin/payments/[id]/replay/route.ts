@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { BillingEventService } from '@/services/billing-event-service';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { getRequestId } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/payments/[id]/replay
+ * Re-run a recorded payment event through the billing pipeline
+ * (re-drives failed events; stale events stay stale if newer ones were applied)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    await requireAdmin();
+
+    const { id } = await params;
+    const result = await BillingEventService.replay(id, getRequestId(req.headers));
+
+    return successResponse({
+      message: result.status === 'failed' ? `Replay failed: ${result.error}` : `Event ${result.status}`,
+      result,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
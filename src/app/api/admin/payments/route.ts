@@ -9,7 +9,7 @@ export const dynamic = 'force-dynamic';
 /**
  * GET /api/admin/payments
  * List all payment events with filtering and pagination
- * Query params: eventType, provider, dateFrom, dateTo, search, limit, offset
+ * Query params: eventType, provider, status, dateFrom, dateTo, search, limit, offset
  */
 export async function GET(req: NextRequest) {
   try {
@@ -19,6 +19,7 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const eventType = searchParams.get('eventType');
     const provider = searchParams.get('provider');
+    const status = searchParams.get('status');
     const dateFrom = searchParams.get('dateFrom');
     const dateTo = searchParams.get('dateTo');
     const search = searchParams.get('search');
@@ -36,6 +37,10 @@ export async function GET(req: NextRequest) {
       conditions.push(eq(paymentEvents.provider, provider as 'stripe' | 'paypal' | 'square'));
     }
 
+    if (status) {
+      conditions.push(eq(paymentEvents.processingStatus, status));
+    }
+
     if (dateFrom) {
       conditions.push(gte(paymentEvents.createdAt, new Date(dateFrom)));
     }
@@ -57,6 +62,12 @@ export async function GET(req: NextRequest) {
         currency: paymentEvents.currency,
         plan: paymentEvents.plan,
         metadata: paymentEvents.metadata,
+        previousStatus: paymentEvents.previousStatus,
+        subscriptionStatus: paymentEvents.subscriptionStatus,
+        processingStatus: paymentEvents.processingStatus,
+        processingError: paymentEvents.processingError,
+        processingAttempts: paymentEvents.processingAttempts,
+        eventTimestamp: paymentEvents.eventTimestamp,
         createdAt: paymentEvents.createdAt,
         teamId: paymentEvents.teamId,
         teamName: teams.name,
@@ -113,6 +124,15 @@ export async function GET(req: NextRequest) {
       .from(paymentEvents)
       .groupBy(paymentEvents.provider);
 
+    // Get processing status stats (failed events need re-driving)
+    const processingStats = await db
+      .select({
+        status: paymentEvents.processingStatus,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(paymentEvents)
+      .groupBy(paymentEvents.processingStatus);
+
     // Get recent summary (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -147,6 +167,10 @@ export async function GET(req: NextRequest) {
           provider: p.provider,
           count: p.count,
         })),
+        processing: processingStats.map((p) => ({
+          status: p.status,
+          count: p.count,
+        })),
         thirtyDaySummary: {
           totalEvents: recentSummary[0]?.totalEvents || 0,
           totalRevenue: (recentSummary[0]?.totalRevenue || 0) / 100,
@@ -25,6 +25,10 @@ const upsertPlanSchema = z.object({
   description: z.string().optional(),
   features: z.array(z.string()).optional(),
   seats: z.number().min(1),
+  // Monthly usage quotas (null = unlimited)
+  monthlyPatternFetches: z.number().int().min(0).nullable().optional(),
+  monthlyEngineeringSessions: z.number().int().min(0).nullable().optional(),
+  monthlyTokens: z.number().int().min(0).nullable().optional(),
   priceMonthly: z.number().min(0), // in cents
   priceYearly: z.number().min(0).optional(),
   stripePriceId: z.string().optional(),
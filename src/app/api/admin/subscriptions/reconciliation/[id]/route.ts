@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { BillingReconciliationService } from '@/services/billing-reconciliation-service';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const resolveSchema = z.object({
+  action: z.enum(['apply', 'resolve', 'dismiss']),
+});
+
+/**
+ * POST /api/admin/subscriptions/reconciliation/[id]
+ * Decide on a drift item waiting for review
+ * Body: { action: 'apply' | 'resolve' | 'dismiss' }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const session = await requireAdmin();
+
+    const { id } = await params;
+    const body = await req.json();
+    const { action } = resolveSchema.parse(body);
+
+    const item = await BillingReconciliationService.resolveItem(id, action, session.user.id);
+
+    return successResponse({ item });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
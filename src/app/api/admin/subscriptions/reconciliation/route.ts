@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { BillingReconciliationService } from '@/services/billing-reconciliation-service';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const runSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
+
+/**
+ * GET /api/admin/subscriptions/reconciliation
+ * Latest reconciliation run, drift waiting for review and what the run corrected
+ */
+export async function GET(req: NextRequest) {
+  try {
+    autoRateLimit(req);
+    await requireAdmin();
+
+    const overview = await BillingReconciliationService.getOverview();
+
+    return successResponse(overview);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/admin/subscriptions/reconciliation
+ * Reconcile teams against Stripe, Square and PayPal now
+ * Body: { dryRun?: boolean } - report only, without applying safe corrections
+ */
+export async function POST(req: NextRequest) {
+  try {
+    autoRateLimit(req);
+    const session = await requireAdmin();
+
+    const body = await req.json().catch(() => ({}));
+    const data = runSchema.parse(body);
+
+    const report = await BillingReconciliationService.run({
+      applySafe: !data.dryRun,
+      triggeredBy: session.user.id,
+    });
+
+    return successResponse({ run: report.run, summary: report.summary });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
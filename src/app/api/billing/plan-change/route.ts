@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { TeamService } from '@/services/team-service';
+import { PlanChangeService } from '@/services/plan-change-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError } from '@/lib/errors';
+
+export const dynamic = 'force-dynamic';
+
+const planSchema = z.enum(['pro', 'team', 'agency']);
+
+const changeSchema = z.object({
+  plan: planSchema,
+  keepMemberIds: z.array(z.string().uuid()).optional(),
+  keepApiKeyIds: z.array(z.string().uuid()).optional(),
+});
+
+async function getOwnedTeam(userId: string) {
+  const team = await TeamService.getByOwnerId(userId);
+  if (!team) {
+    throw new NotFoundError('Team');
+  }
+  return team;
+}
+
+/**
+ * GET /api/billing/plan-change
+ * The scheduled plan change, or with ?plan= a preview of changing to that plan
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:billing:plan-change:read', session.user.id);
+
+    const team = await getOwnedTeam(session.user.id);
+    const plan = req.nextUrl.searchParams.get('plan');
+
+    const [scheduled, preview] = await Promise.all([
+      PlanChangeService.getScheduled(team.id),
+      plan ? PlanChangeService.preview(team.id, planSchema.parse(plan)) : null,
+    ]);
+
+    return successResponse({ scheduled, preview });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/billing/plan-change
+ * Change plan. Body: { plan, keepMemberIds?, keepApiKeyIds? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:billing:plan-change', session.user.id);
+
+    const team = await getOwnedTeam(session.user.id);
+    const { plan, keepMemberIds, keepApiKeyIds } = changeSchema.parse(await req.json());
+
+    const result = await PlanChangeService.requestChange(team.id, session.user.id, plan, {
+      keepMemberIds,
+      keepApiKeyIds,
+    });
+
+    return successResponse(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/billing/plan-change
+ * Cancel the scheduled plan change
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:billing:plan-change', session.user.id);
+
+    const team = await getOwnedTeam(session.user.id);
+    const change = await PlanChangeService.cancelScheduled(team.id, session.user.id);
+
+    return successResponse({ change });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
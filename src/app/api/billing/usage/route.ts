@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { TeamService } from '@/services/team-service';
+import { TeamInviteService } from '@/services/team-invite-service';
+import { MeteringService } from '@/services/metering-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError } from '@/lib/errors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/billing/usage
+ * Current plan, seats, and this month's usage against the plan quotas
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:billing:usage', session.user.id);
+
+    const team = await TeamService.getByOwnerId(session.user.id);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const [usage, seats] = await Promise.all([
+      MeteringService.getTeamUsageReport(team.id),
+      TeamInviteService.getSeatUsage(team.id, team.seatLimit),
+    ]);
+
+    return successResponse({
+      plan: team.subscriptionPlan,
+      status: team.subscriptionStatus,
+      isBeta: !!team.betaGrantedAt,
+      seats,
+      period: usage.period,
+      quotas: usage.quotas,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
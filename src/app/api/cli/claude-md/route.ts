@@ -42,7 +42,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Get the CLAUDE.md content
-    const content = await ContentService.getEncodedContent();
+    const content = await ContentService.getEncodedContent({ teamId: team.id });
     const claudeMdContent = content.router || content.claudeMd || '';
 
     if (!claudeMdContent) {
@@ -3,6 +3,7 @@ import { successResponse, handleApiError, autoRateLimit } from '@/lib/api-utils'
 import { db, cliErrorReports, cliVersions } from '@/db';
 import { eq, sql } from 'drizzle-orm';
 import { z } from 'zod';
+import { CliVersionService } from '@/services/cli-version-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -24,7 +25,7 @@ const errorReportSchema = z.object({
  * This is called by the CLI when an error occurs to:
  * 1. Help identify problematic versions
  * 2. Auto-increment error count on versions
- * 3. Alert admins to potential issues
+ * 3. Halt the version's rollout when its error rate spikes
  */
 export async function POST(req: NextRequest) {
   try {
@@ -68,6 +69,8 @@ export async function POST(req: NextRequest) {
       })
       .where(eq(cliVersions.version, data.cliVersion));
 
+    await CliVersionService.checkRollout(data.cliVersion);
+
     return successResponse({ reported: true });
   } catch (error) {
     // Don't fail CLI if error reporting fails
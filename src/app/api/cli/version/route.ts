@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, autoRateLimit } from '@/lib/api-utils';
-import { db, cliVersions } from '@/db';
-import { eq, desc, and } from 'drizzle-orm';
+import { ApiKeyService } from '@/services/api-key-service';
+import { CliVersionService } from '@/services/cli-version-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -10,72 +10,69 @@ export const dynamic = 'force-dynamic';
  * Returns CLI version information for update checking
  *
  * This is called by the CLI/MCP server to:
- * 1. Check if there's a newer stable version available
- * 2. Check if current version is blocked (critical bug)
- * 3. Get the auto-update target version
+ * 1. Check if there's a newer stable version available for this client
+ * 2. Check if current version is blocked (critical bug, or Node.js too old)
+ * 3. Get the auto-update target version and its feature flags
+ *
+ * Rollouts are by cohort: the client's team (from its API key) or, without
+ * one, its device hash (X-Device-Hash).
  */
 export async function GET(req: NextRequest) {
   try {
     autoRateLimit(req);
 
-    // Get the current CLI version from request (if provided)
+    // Get the current CLI version and runtime from request (if provided)
     const currentVersion = req.headers.get('x-cli-version');
+    const nodeVersion = req.headers.get('x-node-version');
+    const deviceHash = req.headers.get('x-device-hash');
+    const platform = req.headers.get('x-platform');
 
-    // Get the stable version (auto-update target)
-    const stableVersion = await db.query.cliVersions.findFirst({
-      where: and(
-        eq(cliVersions.status, 'stable'),
-        eq(cliVersions.isAutoUpdateEnabled, true)
-      ),
-      orderBy: [desc(cliVersions.stableAt)],
-    });
+    // An invalid key is treated as no team rather than an error
+    let teamId: string | null = null;
+    const authHeader = req.headers.get('authorization');
+    if (authHeader?.startsWith('Bearer ')) {
+      const validation = await ApiKeyService.validate(authHeader.slice(7));
+      teamId = validation.team?.id ?? null;
+    }
 
-    // Get the minimum supported version (oldest non-blocked version)
-    const minVersion = await db.query.cliVersions.findFirst({
-      where: and(
-        eq(cliVersions.status, 'stable'),
-      ),
-      orderBy: [cliVersions.createdAt], // Oldest first
+    const { resolved, minVersion, blockReason } = await CliVersionService.resolveForClient({
+      cliVersion: currentVersion,
+      nodeVersion,
+      deviceHash,
+      platform,
+      teamId,
     });
 
-    // Check if current version is blocked
-    let isBlocked = false;
-    let blockReason: string | null = null;
-    if (currentVersion) {
-      const currentVersionRecord = await db.query.cliVersions.findFirst({
-        where: eq(cliVersions.version, currentVersion),
-      });
-      if (currentVersionRecord?.status === 'blocked') {
-        isBlocked = true;
-        blockReason = currentVersionRecord.breakingChanges || 'This version has a critical bug. Please update.';
-      }
-    }
-
     // Fallback to hardcoded values if no database entries exist
-    const latest = stableVersion?.version || '1.1.5';
+    const latest = resolved?.version || '1.1.5';
     const minSupported = minVersion?.version || '1.0.0';
 
     return NextResponse.json({
       // Version info
       latest,
       stable: latest, // Alias for clarity
+      latestVersion: resolved?.version ?? null, // Null when no version is rolled out to this client
       minSupported,
+      minNodeVersion: resolved?.minNodeVersion ?? null,
 
       // Update info
-      changelog: stableVersion?.changelog || 'Bug fixes and improvements.',
+      changelog: resolved?.changelog || 'Bug fixes and improvements.',
       downloadUrl: 'https://www.npmjs.com/package/@codebakers/cli',
       updateCommand: 'npm update -g @codebakers/cli',
 
       // Auto-update control
-      autoUpdateEnabled: stableVersion?.isAutoUpdateEnabled ?? false,
-      autoUpdateVersion: stableVersion?.isAutoUpdateEnabled ? latest : null,
+      autoUpdateEnabled: resolved !== null,
+      autoUpdateVersion: resolved?.version ?? null,
+
+      // Feature flags enabled for the resolved version
+      features: CliVersionService.getFeatures(resolved),
 
-      // Block status (critical bugs)
-      isBlocked,
+      // Block status (critical bugs, unsupported Node.js)
+      isBlocked: blockReason !== null,
       blockReason,
 
       // Timestamps
-      releaseDate: stableVersion?.stableAt?.toISOString() || stableVersion?.publishedAt?.toISOString(),
+      releaseDate: resolved?.stableAt?.toISOString() || resolved?.publishedAt?.toISOString(),
     });
   } catch (error) {
     return handleApiError(error);
@@ -82,8 +82,8 @@ async function handleApiKeyRequest(req: NextRequest, apiKey: string) {
     await TeamService.setFreeTrialProject(team.id, projectId, projectName);
   }
 
-  // Get encoded content
-  const content = await ContentService.getEncodedContent();
+  // Get encoded content for the team's version
+  const content = await ContentService.getEncodedContent({ teamId: team.id });
 
   // Include trial info in response
   const trialStatus = TeamService.getTrialStatus(team);
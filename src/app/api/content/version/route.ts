@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyService } from '@/services/api-key-service';
 import { ContentService } from '@/services/content-service';
 import { autoRateLimit } from '@/lib/api-utils';
 
@@ -8,20 +9,38 @@ export const dynamic = 'force-dynamic';
  * GET /api/content/version
  * Returns the current version and module count without full content
  * This is a lightweight endpoint for version checking
+ *
+ * With an API key the version is the one the key's team is served.
+ * With ?since=<installed version> it also returns what changed since then.
  */
 export async function GET(req: NextRequest) {
   autoRateLimit(req);
 
   try {
-    const content = await ContentService.getEncodedContent();
+    // Authentication is optional here - an invalid key gets the default version
+    let teamId: string | null = null;
+    const authHeader = req.headers.get('authorization');
+    if (authHeader?.startsWith('Bearer ')) {
+      const validation = await ApiKeyService.validate(authHeader.slice(7));
+      teamId = validation.team?.id ?? null;
+    }
+
+    const content = await ContentService.getEncodedContent({ teamId });
 
     // Count modules - only .claude/ modules are the main patterns
     // .cursorrules-modules is a legacy/separate feature
     const claudeModuleCount = Object.keys(content.modules || {}).length;
 
+    const since = req.nextUrl.searchParams.get('since');
+    const changes = since ? await ContentService.getChangesSince(since, { teamId }) : null;
+
     return NextResponse.json({
       version: content.version,
       moduleCount: claudeModuleCount, // Primary module count (.claude/ folder)
+      ...(since && {
+        changes: changes?.diff ?? null,
+        changelog: changes?.changelog ?? null,
+      }),
     });
   } catch (error) {
     console.error('Error fetching version:', error);
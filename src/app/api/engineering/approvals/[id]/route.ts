@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { handleApiError, successResponse, applyRateLimit, rateLimitConfigs, NotFoundError } from '@/lib/api-utils';
+import { approvalVoteSchema } from '@/lib/validations';
+import { EngineeringApprovalService } from '@/services/engineering-approval-service';
+import { EngineeringOrchestratorService } from '@/services/engineering-orchestrator-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/engineering/approvals/[id]
+ * Approve or reject a phase waiting for approval
+ *
+ * Body: { approved: boolean, feedback?: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:approvals:write', session.user.id, rateLimitConfigs.apiWrite);
+
+    const { id } = await params;
+    const body = await req.json();
+    const { approved, feedback } = approvalVoteSchema.parse(body);
+
+    const approval = await EngineeringApprovalService.getById(id);
+    if (!approval) {
+      throw new NotFoundError('Approval');
+    }
+
+    // Team membership is enforced by the orchestrator along with the approval rule
+    const result = await EngineeringOrchestratorService.handleApproval(
+      approval.sessionId,
+      session.user.id,
+      approved,
+      feedback,
+      approval.phase
+    );
+
+    return successResponse({
+      status: result.status,
+      approval: result.approval,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { EngineeringApprovalService } from '@/services/engineering-approval-service';
+import { ApprovalStatus } from '@/lib/engineering-types';
+
+export const dynamic = 'force-dynamic';
+
+const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+/**
+ * GET /api/engineering/approvals
+ * Team-wide approvals inbox for every team the user belongs to
+ *
+ * Query params:
+ * - status: pending (default), approved, rejected, cancelled or all
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:approvals:read', session.user.id);
+
+    const statusParam = req.nextUrl.searchParams.get('status') || 'pending';
+    const status = APPROVAL_STATUSES.find((s) => s === statusParam);
+
+    const approvals = await EngineeringApprovalService.listForUser(session.user.id, status);
+
+    return successResponse({ approvals });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { handleApiError, successResponse, applyRateLimit, rateLimitConfigs } from '@/lib/api-utils';
+import { NotFoundError } from '@/lib/errors';
+import { budgetSchema } from '@/lib/validations';
+import { TeamService } from '@/services/team-service';
+import { EngineeringUsageService } from '@/services/engineering-usage-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/engineering/budget
+ * Get the team's monthly engineering budget
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:budget:read', session.user.id);
+
+    const team = await TeamService.getByOwnerId(session.user.id);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const budget = await EngineeringUsageService.getTeamBudget(team.id);
+
+    return successResponse({ budget });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/engineering/budget
+ * Set the team's monthly token and cost limits across all sessions
+ *
+ * Body: { maxInputTokens?, maxOutputTokens?, maxCostCents? } (null = unlimited)
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:budget:write', session.user.id, rateLimitConfigs.apiWrite);
+
+    const team = await TeamService.getByOwnerId(session.user.id);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const body = await req.json();
+    const limits = budgetSchema.parse(body);
+
+    const budget = await EngineeringUsageService.setBudget(team.id, null, limits);
+
+    return successResponse({ budget });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/engineering/budget
+ * Remove the team's monthly budget
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:budget:write', session.user.id, rateLimitConfigs.apiWrite);
+
+    const team = await TeamService.getByOwnerId(session.user.id);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    await EngineeringUsageService.clearBudget(team.id, null);
+
+    return successResponse({ cleared: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
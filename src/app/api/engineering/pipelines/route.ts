@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { handleApiError, successResponse, applyRateLimit, rateLimitConfigs } from '@/lib/api-utils';
+import { NotFoundError } from '@/lib/errors';
+import { TeamService } from '@/services/team-service';
+import { EngineeringPipelineService } from '@/services/engineering-pipeline-service';
+import { DEFAULT_PIPELINE } from '@/lib/engineering-pipeline';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/engineering/pipelines
+ * Get the team's active phase pipeline and its version history
+ *
+ * Query params:
+ * - projectHash: Optional project to get a project-specific pipeline for
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:pipelines:read', session.user.id);
+
+    const team = await TeamService.getByOwnerId(session.user.id);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const projectHash = req.nextUrl.searchParams.get('projectHash') || undefined;
+
+    const [active, versions] = await Promise.all([
+      EngineeringPipelineService.getActivePipeline(team.id, projectHash),
+      EngineeringPipelineService.listVersions(team.id, projectHash),
+    ]);
+
+    return successResponse({
+      active,
+      isDefault: active.id === null,
+      versions,
+      defaultPipeline: DEFAULT_PIPELINE,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/engineering/pipelines
+ * Save a new pipeline version (validated before it becomes active)
+ *
+ * Body: { name, projectHash?, phases: PipelinePhase[] }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:pipelines:write', session.user.id, rateLimitConfigs.apiWrite);
+
+    const team = await TeamService.getByOwnerId(session.user.id);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const body = await req.json();
+    const pipeline = await EngineeringPipelineService.savePipeline(team.id, body, session.user.id);
+
+    return successResponse({ pipeline }, 201);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/engineering/pipelines
+ * Go back to the built-in pipeline for new sessions (history is kept)
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await requireAuth();
+    applyRateLimit(req, 'api:engineering:pipelines:write', session.user.id, rateLimitConfigs.apiWrite);
+
+    const team = await TeamService.getByOwnerId(session.user.id);
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const projectHash = req.nextUrl.searchParams.get('projectHash') || undefined;
+    await EngineeringPipelineService.resetToDefault(team.id, projectHash);
+
+    return successResponse({ reset: true, pipeline: DEFAULT_PIPELINE });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit, NotFoundError } from '@/lib/api-utils';
+import { approvalRequestSchema } from '@/lib/validations';
+import {
+  EngineeringApprovalService,
+  parseApprovalVotes,
+  getApprovalRuleFromRecord,
+} from '@/services/engineering-approval-service';
+import { EngineeringOrchestratorService } from '@/services/engineering-orchestrator-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/engineering/sessions/[id]/approvals
+ * List approval requests (pending and resolved) for a session
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const records = await EngineeringApprovalService.listForSession(id);
+    const approvals = records.map((approval) => ({
+      id: approval.id,
+      phase: approval.phase,
+      status: approval.status,
+      reason: approval.reason,
+      requestedBy: approval.requestedBy,
+      rule: getApprovalRuleFromRecord(approval),
+      votes: parseApprovalVotes(approval),
+      createdAt: approval.createdAt,
+      resolvedAt: approval.resolvedAt,
+    }));
+
+    return successResponse({ approvals });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/engineering/sessions/[id]/approvals
+ * Ask the team to approve a phase before it can pass
+ *
+ * Body: { reason: string, phase?: string } (defaults to the current phase)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    const body = await req.json();
+    const { reason, phase } = approvalRequestSchema.parse(body);
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const approval = await EngineeringOrchestratorService.requestApproval(id, reason, phase);
+    if (!approval) {
+      throw new NotFoundError('Phase');
+    }
+
+    return successResponse({ approval }, 201);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { artifactDiffSchema } from '@/lib/validations';
+import { EngineeringArtifactService } from '@/services/engineering-artifact-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/engineering/sessions/[id]/artifacts/[name]/diff?from=1&to=3
+ * Line diff between two revisions of an artifact
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; name: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id, name } = await params;
+
+    const { from, to } = artifactDiffSchema.parse({
+      from: req.nextUrl.searchParams.get('from'),
+      to: req.nextUrl.searchParams.get('to'),
+    });
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const diff = await EngineeringArtifactService.diffRevisions(id, name, from, to);
+
+    return successResponse({ diff });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
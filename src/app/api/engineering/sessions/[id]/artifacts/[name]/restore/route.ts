@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { artifactRestoreSchema } from '@/lib/validations';
+import { EngineeringOrchestratorService } from '@/services/engineering-orchestrator-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/engineering/sessions/[id]/artifacts/[name]/restore
+ * Make an earlier revision current again (recorded as a decision)
+ *
+ * Body: { revision: number, reason?: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; name: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id, name } = await params;
+
+    const body = await req.json();
+    const { revision, reason } = artifactRestoreSchema.parse(body);
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const restored = await EngineeringOrchestratorService.restoreArtifact(
+      id,
+      name,
+      revision,
+      authSession.user.id,
+      reason
+    );
+
+    return successResponse({
+      artifactName: restored.artifactName,
+      revision: restored.revision,
+      restoredFrom: restored.restoredFrom,
+    }, 201);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
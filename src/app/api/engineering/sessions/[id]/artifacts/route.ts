@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { EngineeringArtifactService } from '@/services/engineering-artifact-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/engineering/sessions/[id]/artifacts
+ * Revision timeline of the session's artifacts (without content)
+ *
+ * Query: ?artifact=<name> limits the list to one artifact
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const artifact = req.nextUrl.searchParams.get('artifact') || undefined;
+    const revisions = await EngineeringArtifactService.listRevisions(id, artifact);
+
+    return successResponse({ revisions });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
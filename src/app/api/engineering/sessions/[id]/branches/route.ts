@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { EngineeringBranchService } from '@/services/engineering-branch-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/engineering/sessions/[id]/branches
+ * List every branch of the session's project
+ *
+ * Query: ?compare=<sessionId> adds an artifact diff from this session to that branch
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const branches = await EngineeringBranchService.listBranches(id);
+
+    const compareId = req.nextUrl.searchParams.get('compare');
+    const comparison = compareId
+      ? await EngineeringBranchService.compareBranches(id, compareId)
+      : null;
+
+    return successResponse({ branches, comparison });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit, ForbiddenError } from '@/lib/api-utils';
+import { budgetSchema } from '@/lib/validations';
+import { EngineeringUsageService } from '@/services/engineering-usage-service';
+import { EngineeringApprovalService } from '@/services/engineering-approval-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Verify the user is an owner or admin of the session's team
+ * @returns the session's team ID
+ */
+async function verifyBudgetAdmin(sessionId: string, userId: string): Promise<string> {
+  const { teamId, role } = await verifySessionAccess(sessionId, userId);
+  if (!EngineeringApprovalService.isAdminRole(role)) {
+    throw new ForbiddenError('Only team owners and admins can change budgets');
+  }
+  return teamId;
+}
+
+/**
+ * GET /api/engineering/sessions/[id]/budget
+ * Get the session's budget, the team's monthly budget, and usage by agent and phase
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const usage = await EngineeringUsageService.getSessionUsage(id);
+    const budget = await EngineeringUsageService.getBudgetStatus(id, usage.totals);
+
+    return successResponse({ budget, usage });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/engineering/sessions/[id]/budget
+ * Set the session's token and cost limits (team owners and admins only)
+ *
+ * Body: { maxInputTokens?, maxOutputTokens?, maxCostCents? } (null = unlimited)
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    const body = await req.json();
+    const limits = budgetSchema.parse(body);
+
+    const teamId = await verifyBudgetAdmin(id, authSession.user.id);
+
+    await EngineeringUsageService.setBudget(teamId, id, limits);
+    const budget = await EngineeringUsageService.getBudgetStatus(id);
+
+    return successResponse({ budget });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/engineering/sessions/[id]/budget
+ * Remove the session's limits (team owners and admins only).
+ * The team's monthly budget still applies.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    const teamId = await verifyBudgetAdmin(id, authSession.user.id);
+
+    await EngineeringUsageService.clearBudget(teamId, id);
+
+    return successResponse({ cleared: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -5,6 +5,8 @@ import { db } from '@/db';
 import { engineeringSessions, teamMembers } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { runAutoBuild } from '@/services/engineering-agent-service';
+import { nextSessionVersion } from '@/services/engineering-orchestrator-service';
+import { EngineeringUsageService } from '@/services/engineering-usage-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -62,6 +64,19 @@ export async function POST(
       throw new ValidationError('Build is already completed');
     }
 
+    // Archived branches are kept for reference only
+    if (record.branchStatus === 'archived') {
+      throw new ValidationError('Branch is archived');
+    }
+
+    // Don't start a build that would immediately run over budget
+    const budget = await EngineeringUsageService.getBudgetStatus(id);
+    if (budget.exceededReason) {
+      throw new ValidationError(budget.exceededReason === budget.planQuotaReason
+        ? budget.exceededReason
+        : `${budget.exceededReason} - raise the budget to continue`);
+    }
+
     // Start the auto-build in the background (non-blocking)
     // The build will run asynchronously and update the database
     runAutoBuild(id).catch(error => {
@@ -134,6 +149,7 @@ export async function DELETE(
         status: 'paused',
         pausedAt: new Date(),
         lastActivityAt: new Date(),
+        version: nextSessionVersion(),
       })
       .where(eq(engineeringSessions.id, id));
 
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { forkSessionSchema } from '@/lib/validations';
+import { EngineeringBranchService } from '@/services/engineering-branch-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/engineering/sessions/[id]/fork
+ * Fork the session at a passed gate to explore an alternative
+ *
+ * Body: { phase: string, branchName: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    const body = await req.json();
+    const input = forkSessionSchema.parse(body);
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const branch = await EngineeringBranchService.forkSession(id, input);
+
+    return successResponse({
+      sessionId: branch.id,
+      branchName: branch.branchName,
+      forkedAtPhase: branch.forkedAtPhase,
+      parentSessionId: branch.parentSessionId,
+    }, 201);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -4,6 +4,8 @@ import { handleApiError, successResponse, autoRateLimit, NotFoundError, Forbidde
 import { db } from '@/db';
 import { engineeringSessions, engineeringMessages, teamMembers } from '@/db/schema';
 import { eq, desc } from 'drizzle-orm';
+import { EngineeringPipelineService } from '@/services/engineering-pipeline-service';
+import { orderPipelinePhases, calculatePipelineProgress } from '@/lib/engineering-pipeline';
 
 export const dynamic = 'force-dynamic';
 
@@ -56,30 +58,19 @@ export async function GET(
     const artifacts = record.artifacts ? JSON.parse(record.artifacts) : {};
     const generatedFiles = record.generatedFiles ? JSON.parse(record.generatedFiles) : [];
 
-    // Calculate phases progress
-    const phaseOrder = [
-      { phase: 'scoping', displayName: 'Scoping' },
-      { phase: 'requirements', displayName: 'Requirements' },
-      { phase: 'architecture', displayName: 'Architecture' },
-      { phase: 'design_review', displayName: 'Design Review' },
-      { phase: 'implementation', displayName: 'Implementation' },
-      { phase: 'code_review', displayName: 'Code Review' },
-      { phase: 'testing', displayName: 'Testing' },
-      { phase: 'security_review', displayName: 'Security Review' },
-      { phase: 'documentation', displayName: 'Documentation' },
-      { phase: 'staging', displayName: 'Staging' },
-      { phase: 'launch', displayName: 'Launch' },
-    ];
-
-    const phases = phaseOrder.map(p => ({
-      phase: p.phase,
+    // Calculate phases progress from the pipeline this session runs
+    const pipeline = await EngineeringPipelineService.getPipelineForSession(record);
+
+    const phases = orderPipelinePhases(pipeline.phases).map(p => ({
+      phase: p.id,
       displayName: p.displayName,
-      status: gateStatus[p.phase]?.status || 'pending',
-      passedAt: gateStatus[p.phase]?.passedAt || null,
+      dependsOn: p.dependsOn,
+      status: gateStatus[p.id]?.status || 'pending',
+      passedAt: gateStatus[p.id]?.passedAt || null,
     }));
 
     const completedPhases = phases.filter(p => p.status === 'passed').length;
-    const progress = Math.round((completedPhases / phases.length) * 100);
+    const progress = calculatePipelineProgress(pipeline, gateStatus);
 
     // Get recent messages for context
     const messages = await db
@@ -122,6 +113,11 @@ export async function GET(
       currentAgent: record.currentAgent || 'orchestrator',
       isRunning: record.isRunning ?? false,
       progress,
+      pipeline: {
+        id: pipeline.id,
+        name: pipeline.name,
+        version: pipeline.version,
+      },
       phases,
       artifacts: {
         hasPrd: !!artifacts.prd,
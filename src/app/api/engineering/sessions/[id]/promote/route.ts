@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, verifySessionAccess } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit } from '@/lib/api-utils';
+import { EngineeringBranchService } from '@/services/engineering-branch-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/engineering/sessions/[id]/promote
+ * Choose this branch - every other branch of the project is archived
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const authSession = await requireAuth();
+    const { id } = await params;
+
+    await verifySessionAccess(id, authSession.user.id);
+
+    const result = await EngineeringBranchService.promoteBranch(id);
+
+    return successResponse(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -4,7 +4,8 @@ import { handleApiError, successResponse, autoRateLimit, NotFoundError, Forbidde
 import { db } from '@/db';
 import { engineeringSessions, engineeringMessages, teamMembers } from '@/db/schema';
 import { eq, inArray, desc } from 'drizzle-orm';
-import { ENGINEERING_PHASES, EngineeringPhase, AgentRole } from '@/lib/engineering-types';
+import { EngineeringPipelineService } from '@/services/engineering-pipeline-service';
+import { orderPipelinePhases, getPipelinePhase, calculatePipelineProgress } from '@/lib/engineering-pipeline';
 
 export const dynamic = 'force-dynamic';
 
@@ -65,31 +66,28 @@ export async function GET(
     const artifacts = record.artifacts ? JSON.parse(record.artifacts) : {};
     const dependencyGraph = record.dependencyGraph ? JSON.parse(record.dependencyGraph) : { nodes: [], edges: [] };
 
-    // Calculate progress
-    const phases: EngineeringPhase[] = [
-      'scoping', 'requirements', 'architecture', 'design_review', 'implementation',
-      'code_review', 'testing', 'security_review', 'documentation', 'staging', 'launch'
-    ];
-    const completedPhases = phases.filter((p) => gateStatus[p]?.status === 'passed').length;
-    const progress = Math.round((completedPhases / phases.length) * 100);
+    // Calculate progress against the pipeline this session runs
+    const pipeline = await EngineeringPipelineService.getPipelineForSession(record);
+    const progress = calculatePipelineProgress(pipeline, gateStatus);
 
     // Build phase progress array
-    const phaseProgress = ENGINEERING_PHASES.map((phaseConfig) => {
-      const gate = gateStatus[phaseConfig.phase];
+    const phaseProgress = orderPipelinePhases(pipeline.phases).map((phaseConfig) => {
+      const gate = gateStatus[phaseConfig.id];
       return {
-        phase: phaseConfig.phase,
+        phase: phaseConfig.id,
         displayName: phaseConfig.displayName,
         description: phaseConfig.description,
         agent: phaseConfig.agent,
+        dependsOn: phaseConfig.dependsOn,
         status: gate?.status || 'pending',
         passedAt: gate?.passedAt || null,
         failedReason: gate?.failedReason || null,
-        isCurrent: record.currentPhase === phaseConfig.phase,
+        isCurrent: record.currentPhase === phaseConfig.id,
       };
     });
 
     // Get current phase config
-    const currentPhaseConfig = ENGINEERING_PHASES.find((p) => p.phase === record.currentPhase);
+    const currentPhaseConfig = getPipelinePhase(pipeline, record.currentPhase || 'scoping');
 
     // Transform messages
     const formattedMessages = messages.map((m) => ({
@@ -118,6 +116,17 @@ export async function GET(
         progress,
         scope,
         stack,
+        pipeline: {
+          id: pipeline.id,
+          name: pipeline.name,
+          version: pipeline.version,
+        },
+        branch: {
+          parentSessionId: record.parentSessionId,
+          forkedAtPhase: record.forkedAtPhase,
+          name: record.branchName,
+          status: record.branchStatus,
+        },
         phaseProgress,
         artifacts: {
           hasPrd: !!artifacts.prd,
@@ -137,6 +146,7 @@ export async function GET(
         totalTokensUsed: record.totalTokensUsed,
         startedAt: record.startedAt,
         pausedAt: record.pausedAt,
+        pausedReason: record.pausedReason,
         completedAt: record.completedAt,
         lastActivityAt: record.lastActivityAt,
       },
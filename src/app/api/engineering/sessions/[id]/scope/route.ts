@@ -60,26 +60,20 @@ export async function POST(
     // Handle "auto" step for zero-friction builds
     // This auto-completes scoping and moves to requirements phase
     if (stepId === 'auto') {
-      // Mark scoping as complete
-      const gateStatus = record.gateStatus ? JSON.parse(record.gateStatus) : {};
-      gateStatus.scoping = {
-        phase: 'scoping',
-        status: 'passed',
-        passedAt: new Date().toISOString(),
-        approvedBy: 'auto',
-        artifacts: ['scope.json'],
-      };
-
-      // Update session to requirements phase
-      await db
-        .update(engineeringSessions)
-        .set({
-          currentPhase: 'requirements',
-          currentAgent: 'pm',
-          gateStatus: JSON.stringify(gateStatus),
-          lastActivityAt: new Date(),
-        })
-        .where(eq(engineeringSessions.id, id));
+      // Mark scoping as complete and move to requirements phase
+      // (compare-and-swap so a concurrent gate change isn't overwritten)
+      await EngineeringOrchestratorService.updateSession(id, (session) => {
+        session.context.gateStatus.scoping = {
+          phase: 'scoping',
+          status: 'passed',
+          passedAt: new Date(),
+          approvedBy: 'auto',
+          artifacts: ['scope.json'],
+        };
+        session.context.currentPhase = 'requirements';
+        session.context.currentAgent = 'pm';
+        session.context.lastActivityAt = new Date();
+      });
 
       return successResponse({
         nextStep: null,
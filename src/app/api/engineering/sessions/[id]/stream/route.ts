@@ -2,7 +2,9 @@ import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { db } from '@/db';
 import { engineeringSessions, engineeringMessages, teamMembers } from '@/db/schema';
-import { eq, desc, gt } from 'drizzle-orm';
+import { and, asc, eq, desc, gte } from 'drizzle-orm';
+import { EngineeringPipelineService } from '@/services/engineering-pipeline-service';
+import { orderPipelinePhases, calculatePipelineProgress } from '@/lib/engineering-pipeline';
 
 export const dynamic = 'force-dynamic';
 
@@ -11,6 +13,10 @@ export const dynamic = 'force-dynamic';
  * Server-Sent Events stream for real-time build updates
  *
  * ZERO FRICTION: UI automatically updates as build progresses
+ *
+ * State is read from the database, not the orchestrator's in-memory cache, so the
+ * stream works on any instance - not just the one running the build. The session
+ * version is polled and full state is only rebuilt when it changes.
  */
 export async function GET(
   req: NextRequest,
@@ -47,13 +53,15 @@ export async function GET(
 
   // Create SSE stream
   const encoder = new TextEncoder();
-  let lastMessageId: string | null = null;
+  const messageCursor: MessageCursor = { after: null, sentIds: new Set() };
+  let lastVersion: number | null = null;
   let isActive = true;
 
   const stream = new ReadableStream({
     async start(controller) {
       // Send initial state
       const initialData = await getSessionState(id);
+      lastVersion = initialData.version;
       controller.enqueue(encoder.encode(`data: ${JSON.stringify(initialData)}\n\n`));
 
       // Poll for updates every 2 seconds
@@ -64,12 +72,28 @@ export async function GET(
         }
 
         try {
-          const state = await getSessionState(id);
-
           // Get new messages since last check
-          const newMessages = await getNewMessages(id, lastMessageId);
+          const newMessages = await getNewMessages(id, messageCursor);
+
+          // Skip rebuilding state if nothing was written since the last update
+          const [current] = await db
+            .select({ version: engineeringSessions.version })
+            .from(engineeringSessions)
+            .where(eq(engineeringSessions.id, id))
+            .limit(1);
+
+          if (!current) {
+            throw new Error('Session not found');
+          }
+
+          if (current.version === lastVersion && newMessages.length === 0) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+            return;
+          }
+
+          const state = await getSessionState(id);
+          lastVersion = state.version;
           if (newMessages.length > 0) {
-            lastMessageId = newMessages[newMessages.length - 1].id;
             state.newMessages = newMessages;
           }
 
@@ -111,6 +135,7 @@ export async function GET(
 
 interface SessionState {
   id: string;
+  version: number;
   status: string;
   currentPhase: string;
   currentAgent: string;
@@ -152,16 +177,14 @@ async function getSessionState(sessionId: string): Promise<SessionState> {
   const gateStatus = record.gateStatus ? JSON.parse(record.gateStatus) : {};
   const artifacts = record.artifacts ? JSON.parse(record.artifacts) : {};
 
-  // Calculate progress
-  const phases = [
-    'scoping', 'requirements', 'architecture', 'design_review', 'implementation',
-    'code_review', 'testing', 'security_review', 'documentation', 'staging', 'launch'
-  ];
-  const completedPhases = phases.filter(p => gateStatus[p]?.status === 'passed').length;
-  const progress = Math.round((completedPhases / phases.length) * 100);
+  // Calculate progress against the pipeline this session runs
+  const pipeline = await EngineeringPipelineService.getPipelineForSession(record);
+  const phases = orderPipelinePhases(pipeline.phases).map(p => p.id);
+  const progress = calculatePipelineProgress(pipeline, gateStatus);
 
   return {
     id: record.id,
+    version: record.version,
     status: record.status || 'active',
     currentPhase: record.currentPhase || 'scoping',
     currentAgent: record.currentAgent || 'orchestrator',
@@ -183,9 +206,14 @@ async function getSessionState(sessionId: string): Promise<SessionState> {
   };
 }
 
+interface MessageCursor {
+  after: Date | null; // createdAt of the newest message sent so far
+  sentIds: Set<string>; // Messages already sent with that timestamp
+}
+
 async function getNewMessages(
   sessionId: string,
-  afterId: string | null
+  cursor: MessageCursor
 ): Promise<Array<{
   id: string;
   fromAgent: string;
@@ -193,29 +221,42 @@ async function getNewMessages(
   content: string;
   createdAt: Date | null;
 }>> {
-  let query = db
-    .select({
-      id: engineeringMessages.id,
-      fromAgent: engineeringMessages.fromAgent,
-      messageType: engineeringMessages.messageType,
-      content: engineeringMessages.content,
-      createdAt: engineeringMessages.createdAt,
-    })
-    .from(engineeringMessages)
-    .where(eq(engineeringMessages.sessionId, sessionId))
-    .orderBy(desc(engineeringMessages.createdAt))
-    .limit(10);
-
-  const messages = await query;
-
-  // Filter messages after the given ID if provided
-  if (afterId) {
-    const afterIndex = messages.findIndex(m => m.id === afterId);
-    if (afterIndex > 0) {
-      return messages.slice(0, afterIndex).reverse();
+  const columns = {
+    id: engineeringMessages.id,
+    fromAgent: engineeringMessages.fromAgent,
+    messageType: engineeringMessages.messageType,
+    content: engineeringMessages.content,
+    createdAt: engineeringMessages.createdAt,
+  };
+
+  // First poll: only the latest few messages
+  const messages = cursor.after
+    ? await db
+        .select(columns)
+        .from(engineeringMessages)
+        .where(and(eq(engineeringMessages.sessionId, sessionId), gte(engineeringMessages.createdAt, cursor.after)))
+        .orderBy(asc(engineeringMessages.createdAt))
+        .limit(50)
+    : (await db
+        .select(columns)
+        .from(engineeringMessages)
+        .where(eq(engineeringMessages.sessionId, sessionId))
+        .orderBy(desc(engineeringMessages.createdAt))
+        .limit(10)).reverse();
+
+  // Timestamps can tie, so the cursor is inclusive and already-sent ids are dropped
+  const fresh = messages.filter((m) => !cursor.sentIds.has(m.id));
+
+  const newest = fresh[fresh.length - 1]?.createdAt;
+  if (newest) {
+    if (!cursor.after || newest.getTime() !== cursor.after.getTime()) {
+      cursor.sentIds.clear();
+    }
+    cursor.after = newest;
+    for (const m of fresh) {
+      if (m.createdAt?.getTime() === newest.getTime()) cursor.sentIds.add(m.id);
     }
-    return [];
   }
 
-  return messages.reverse();
+  return fresh;
 }
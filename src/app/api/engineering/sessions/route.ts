@@ -4,12 +4,15 @@ import { handleApiError, successResponse, autoRateLimit, ValidationError } from
 import { db } from '@/db';
 import { engineeringSessions, teams, teamMembers } from '@/db/schema';
 import { eq, desc, and, inArray } from 'drizzle-orm';
-import { EngineeringPhase, AgentRole, ENGINEERING_PHASES } from '@/lib/engineering-types';
-import { EngineeringOrchestratorService } from '@/services/engineering-orchestrator-service';
+import { ENGINEERING_PHASES } from '@/lib/engineering-types';
+import { EngineeringOrchestratorService, nextSessionVersion } from '@/services/engineering-orchestrator-service';
+import { MeteringService } from '@/services/metering-service';
 import { createHash } from 'crypto';
 
 export const dynamic = 'force-dynamic';
 
+const STACK_KEYS = ['framework', 'database', 'orm', 'auth', 'ui', 'payments'] as const;
+
 /**
  * GET /api/engineering/sessions
  * Get engineering sessions for the current user's teams
@@ -73,13 +76,10 @@ export async function GET(req: NextRequest) {
       const gateStatus = record.gateStatus ? JSON.parse(record.gateStatus) : {};
       const artifacts = record.artifacts ? JSON.parse(record.artifacts) : {};
 
-      // Calculate progress
-      const phases: EngineeringPhase[] = [
-        'scoping', 'requirements', 'architecture', 'design_review', 'implementation',
-        'code_review', 'testing', 'security_review', 'documentation', 'staging', 'launch'
-      ];
+      // Calculate progress (gate status has one entry per phase of the session's pipeline)
+      const phases = Object.keys(gateStatus);
       const completedPhases = phases.filter((p) => gateStatus[p]?.status === 'passed').length;
-      const progress = Math.round((completedPhases / phases.length) * 100);
+      const progress = phases.length > 0 ? Math.round((completedPhases / phases.length) * 100) : 0;
 
       // Get current phase display info
       const currentPhaseConfig = ENGINEERING_PHASES.find((p) => p.phase === record.currentPhase);
@@ -119,12 +119,25 @@ export async function POST(req: NextRequest) {
     const userId = session.user.id;
 
     const body = await req.json();
-    const { projectName, projectDescription } = body;
+    const { projectName, projectDescription, stack } = body;
 
     if (!projectName || typeof projectName !== 'string') {
       throw new ValidationError('projectName is required');
     }
 
+    // Stack from the project template the CLI scaffolded first, if any
+    const stackOverrides: Record<string, string> = {};
+    if (stack !== undefined) {
+      if (typeof stack !== 'object' || stack === null || Array.isArray(stack)) {
+        throw new ValidationError('stack must be an object');
+      }
+      for (const key of STACK_KEYS) {
+        if (typeof stack[key] === 'string' && stack[key].trim()) {
+          stackOverrides[key] = stack[key].trim();
+        }
+      }
+    }
+
     // Get user's primary team
     const userTeams = await db
       .select({ teamId: teamMembers.teamId })
@@ -137,6 +150,8 @@ export async function POST(req: NextRequest) {
 
     const teamId = userTeams[0].teamId;
 
+    await MeteringService.assertWithinQuota(teamId, 'engineeringSessions');
+
     // Generate project hash from name + timestamp for uniqueness
     const projectHash = createHash('sha256')
       .update(`${projectName}-${teamId}-${Date.now()}`)
@@ -147,14 +162,15 @@ export async function POST(req: NextRequest) {
     const { sessionId, firstStep } = await EngineeringOrchestratorService.startSession(
       teamId,
       projectHash,
-      projectName.trim()
+      projectName.trim(),
+      stackOverrides
     );
 
     // Update description if provided
     if (projectDescription) {
       await db
         .update(engineeringSessions)
-        .set({ projectDescription: projectDescription.trim() })
+        .set({ projectDescription: projectDescription.trim(), version: nextSessionVersion() })
         .where(eq(engineeringSessions.id, sessionId));
     }
 
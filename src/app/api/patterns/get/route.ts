@@ -3,6 +3,8 @@ import { ApiKeyService } from '@/services/api-key-service';
 import { TeamService } from '@/services/team-service';
 import { EnforcementService } from '@/services/enforcement-service';
 import { TrialService } from '@/services/trial-service';
+import { AnalyticsService } from '@/services/analytics-service';
+import { MeteringService } from '@/services/metering-service';
 import { handleApiError, autoRateLimit } from '@/lib/api-utils';
 
 export const dynamic = 'force-dynamic';
@@ -67,11 +69,18 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Maximum 10 patterns per request' }, { status: 400 });
     }
 
+    if (session.teamId) {
+      await MeteringService.assertWithinQuota(session.teamId, 'patternFetches', body.patterns.length);
+    }
+
     // Normalize pattern names
     const patternNames = body.patterns.map((p: string) => (p.endsWith('.md') ? p : `${p}.md`));
 
     // Get patterns
-    const patterns = await EnforcementService.getPatterns(patternNames);
+    const { version, patterns } = await EnforcementService.getPatterns(patternNames, session.teamId ?? undefined);
+    if (session.teamId) {
+      logFetches(session.teamId, patterns, version);
+    }
 
     return NextResponse.json({
       success: true,
@@ -109,7 +118,14 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Maximum 10 patterns per request' }, { status: 400 });
     }
 
-    const patterns = await EnforcementService.getPatterns(patternNames);
+    if (validation.teamId) {
+      await MeteringService.assertWithinQuota(validation.teamId, 'patternFetches', patternNames.length);
+    }
+
+    const { version, patterns } = await EnforcementService.getPatterns(patternNames, validation.teamId);
+    if (validation.teamId) {
+      logFetches(validation.teamId, patterns, version);
+    }
 
     return NextResponse.json({
       success: true,
@@ -124,6 +140,16 @@ export async function GET(req: NextRequest) {
   }
 }
 
+/**
+ * Record fetched patterns for analytics and plan metering (non-blocking)
+ */
+function logFetches(teamId: string, patterns: Array<{ name: string; found: boolean }>, contentVersion: string) {
+  const fetched = patterns.filter((p) => p.found).map((p) => p.name.replace(/\.md$/, ''));
+  AnalyticsService.logPatternFetches(teamId, fetched, undefined, contentVersion).catch((err) => {
+    console.error('Failed to log pattern usage:', err);
+  });
+}
+
 async function validateRequest(req: NextRequest) {
   const authHeader = req.headers.get('authorization');
 
@@ -17,12 +17,10 @@ export async function GET(req: NextRequest) {
     const session = await requireAuth();
     applyRateLimit(req, 'api:patterns:list', session.user.id);
 
-    // Get user's team for pinned version
+    // Get user's team for its pinned version or rollout channel
     const team = await TeamService.getByOwnerId(session.user.id);
 
-    // Use team's pinned version if set, otherwise use latest
-    const pinnedVersion = team?.pinnedPatternVersion;
-    const content = await ContentService.getEncodedContent(pinnedVersion || undefined);
+    const content = await ContentService.getEncodedContent({ teamId: team?.id });
 
     if (!content.modules) {
       throw new NotFoundError('Patterns');
@@ -3,6 +3,7 @@ import { ApiKeyService } from '@/services/api-key-service';
 import { ContentService } from '@/services/content-service';
 import { TeamService } from '@/services/team-service';
 import { AnalyticsService } from '@/services/analytics-service';
+import { MeteringService } from '@/services/metering-service';
 import { handleApiError, autoRateLimit } from '@/lib/api-utils';
 import { deobfuscateContent, isObfuscated } from '@/services/obfuscation-service';
 
@@ -18,9 +19,8 @@ export async function GET(req: NextRequest) {
     const validation = await validateRequest(req);
     if (validation.error) return validation.error;
 
-    // Use team's pinned version if set, otherwise use latest
-    const pinnedVersion = validation.team?.pinnedPatternVersion;
-    const content = await ContentService.getEncodedContent(pinnedVersion || undefined);
+    // Team's pinned version if set, otherwise its channel's rollout
+    const content = await ContentService.getEncodedContent({ teamId: validation.team?.id });
 
     // Return list of available patterns (without content)
     const patterns = Object.keys(content.modules || {}).map(name => ({
@@ -68,9 +68,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Use team's pinned version if set, otherwise use latest
-    const pinnedVersion = validation.team?.pinnedPatternVersion;
-    const content = await ContentService.getEncodedContent(pinnedVersion || undefined);
+    if (validation.team) {
+      await MeteringService.assertWithinQuota(validation.team.id, 'patternFetches', requestedPatterns.length);
+    }
+
+    // Team's pinned version if set, otherwise its channel's rollout
+    const content = await ContentService.getEncodedContent({ teamId: validation.team?.id });
     const result: Record<string, string> = {};
 
     for (const pattern of requestedPatterns) {
@@ -97,7 +100,8 @@ export async function POST(req: NextRequest) {
       AnalyticsService.logPatternFetches(
         validation.team.id,
         fetchedPatterns,
-        validation.apiKeyId
+        validation.apiKeyId,
+        content.version
       ).catch((err) => {
         console.error('Failed to log pattern usage:', err);
       });
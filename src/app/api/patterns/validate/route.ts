@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EnforcementService } from '@/services/enforcement-service';
+import { evaluateCompletionEvidence } from '@/lib/completion-evidence';
 import { handleApiError, autoRateLimit } from '@/lib/api-utils';
 import { db } from '@/db';
 import { patternCompliance, testQualityMetrics, projectMemory } from '@/db/schema';
@@ -13,25 +14,25 @@ export const dynamic = 'force-dynamic';
  * Validates that patterns were followed and tests pass
  * Returns compliance score and test quality metrics
  *
+ * Test results, coverage and the TypeScript check are read from the attached
+ * reports and cross-checked against filesModified/testsWritten. A feature does
+ * not pass without test and tsc evidence. Nothing the client reports about its
+ * own code is scored, since the server can't check it.
+ *
  * Body: {
  *   sessionToken: string,        // Token from discover_patterns
  *   featureName: string,         // Name of the feature completed
  *   featureDescription?: string, // Description of what was built
  *   filesModified?: string[],    // Files that were created/modified
- *   testsWritten?: string[],     // Test files that were written
- *   testsRun?: boolean,          // Whether tests were run
- *   testsPassed?: boolean,       // Whether tests passed
- *   typescriptPassed?: boolean,  // Whether TypeScript compiled
- *   testCoverage?: number,       // Test coverage percentage (0-100)
+ *   testsWritten?: string[],     // Test files that were written (must appear in the test report)
+ *   evidence: {
+ *     junit?: string | string[],            // JUnit XML report(s)
+ *     playwright?: string | object,         // Playwright JSON report
+ *     coverageSummary?: string | object,    // istanbul coverage-summary.json
+ *     lcov?: string,                        // lcov.info
+ *     typescript: { output: string, exitCode: number }, // tsc --noEmit
+ *   },
  *   stackDecisions?: object,     // Stack decisions to save to memory
- *   codeAnalysis?: {             // Client-side code analysis results
- *     hasErrorHandling?: boolean,
- *     hasLoadingStates?: boolean,
- *     hasTypeAnnotations?: boolean,
- *     hasConsoleLog?: boolean,
- *     hasAnyType?: boolean,
- *     linesOfCode?: number,
- *   }
  * }
  */
 export async function POST(req: NextRequest) {
@@ -62,9 +63,7 @@ export async function POST(req: NextRequest) {
       featureDescription: body.featureDescription,
       filesModified: body.filesModified,
       testsWritten: body.testsWritten,
-      testsRun: body.testsRun,
-      testsPassed: body.testsPassed,
-      typescriptPassed: body.typescriptPassed,
+      evidence: body.evidence,
       // Safety system integration
       safetySessionId: body.safetySessionId,
       contextWasLoaded: body.contextWasLoaded,
@@ -76,21 +75,30 @@ export async function POST(req: NextRequest) {
     // Get session for additional processing
     const session = await EnforcementService.getSessionByToken(body.sessionToken);
 
+    // Score from the parsed evidence (already-completed sessions skip the gate)
+    const evidence = result.evidence ?? evaluateCompletionEvidence(body.evidence, {
+      filesModified: body.filesModified,
+      testsWritten: body.testsWritten,
+    });
+    const testsRun = !!evidence.tests && evidence.tests.total - evidence.tests.skipped > 0;
+    const testsPassed = testsRun && evidence.tests!.failed === 0;
+    const testFiles = evidence.tests?.files || [];
+    const testCoverage = evidence.coverage?.percent ?? 0;
+
     // Calculate compliance score
     const complianceResult = calculateComplianceScore({
-      testsRun: body.testsRun,
-      testsPassed: body.testsPassed,
-      typescriptPassed: body.typescriptPassed,
-      codeAnalysis: body.codeAnalysis,
-      testsWritten: body.testsWritten,
+      testsRun,
+      testsPassed,
+      typescriptPassed: evidence.typescript?.passed,
+      testsWritten: testFiles,
       filesModified: body.filesModified,
     });
 
     // Calculate test quality metrics
     const testQuality = calculateTestQuality({
-      testsWritten: body.testsWritten,
-      testsPassed: body.testsPassed,
-      testCoverage: body.testCoverage,
+      testsWritten: testFiles,
+      testsPassed,
+      testCoverage,
     });
 
     // Store compliance and test quality in database
@@ -105,13 +113,16 @@ export async function POST(req: NextRequest) {
           filesAnalyzed: JSON.stringify(body.filesModified || []),
           patternsChecked: session.patternsReturned || '[]',
           testQuality: JSON.stringify(testQuality),
+          evidence: JSON.stringify(evidence),
         });
 
         // Store test quality metrics
         await db.insert(testQualityMetrics).values({
           sessionId: session.id,
           overallScore: testQuality.overallScore,
-          coveragePercent: body.testCoverage || 0,
+          coveragePercent: Math.round(testCoverage),
+          linesTotal: evidence.coverage?.linesTotal ?? null,
+          linesCovered: evidence.coverage?.linesCovered ?? null,
           hasUnitTests: testQuality.hasUnitTests,
           hasIntegrationTests: testQuality.hasIntegrationTests,
           hasE2eTests: testQuality.hasE2eTests,
@@ -119,8 +130,11 @@ export async function POST(req: NextRequest) {
           hasErrorCases: testQuality.hasErrorCases,
           hasBoundaryCases: testQuality.hasBoundaryCases,
           hasEdgeCases: testQuality.hasEdgeCases,
-          testFiles: JSON.stringify(body.testsWritten || []),
-          testCount: (body.testsWritten || []).length,
+          testFiles: JSON.stringify(testFiles),
+          testCount: evidence.tests?.total ?? 0,
+          testsPassed: evidence.tests?.passed ?? null,
+          testsFailed: evidence.tests?.failed ?? null,
+          testsSkipped: evidence.tests?.skipped ?? null,
           missingTests: JSON.stringify(testQuality.missingTests),
           recommendations: JSON.stringify(testQuality.recommendations),
         });
@@ -177,9 +191,30 @@ export async function POST(req: NextRequest) {
           deductions: complianceResult.deductions,
           patternScores: complianceResult.patternScores,
         },
+        evidence: {
+          tests: evidence.tests && {
+            sources: evidence.tests.sources,
+            total: evidence.tests.total,
+            passed: evidence.tests.passed,
+            failed: evidence.tests.failed,
+            skipped: evidence.tests.skipped,
+            files: evidence.tests.files,
+          },
+          coverage: evidence.coverage && {
+            source: evidence.coverage.source,
+            percent: evidence.coverage.percent,
+            linesTotal: evidence.coverage.linesTotal,
+            linesCovered: evidence.coverage.linesCovered,
+          },
+          uncoveredFiles: evidence.uncoveredFiles,
+          typescript: evidence.typescript && {
+            passed: evidence.typescript.passed,
+            errorCount: evidence.typescript.errorCount,
+          },
+        },
         testQuality: {
           overallScore: testQuality.overallScore,
-          coverage: body.testCoverage || 0,
+          coverage: testCoverage,
           hasHappyPath: testQuality.hasHappyPath,
           hasErrorCases: testQuality.hasErrorCases,
           hasBoundaryCases: testQuality.hasBoundaryCases,
@@ -217,14 +252,6 @@ function calculateComplianceScore(params: {
   testsRun?: boolean;
   testsPassed?: boolean;
   typescriptPassed?: boolean;
-  codeAnalysis?: {
-    hasErrorHandling?: boolean;
-    hasLoadingStates?: boolean;
-    hasTypeAnnotations?: boolean;
-    hasConsoleLog?: boolean;
-    hasAnyType?: boolean;
-    linesOfCode?: number;
-  };
   testsWritten?: string[];
   filesModified?: string[];
 }): {
@@ -258,47 +285,6 @@ function calculateComplianceScore(params: {
     patternScores['typescript'] = 100;
   }
 
-  // Code analysis checks
-  if (params.codeAnalysis) {
-    const analysis = params.codeAnalysis;
-
-    // Error handling (-10 points if missing)
-    if (analysis.hasErrorHandling === false) {
-      score -= 10;
-      deductions.push({ rule: 'error-handling', issue: 'Missing error handling', points: 10 });
-      patternScores['error-handling'] = 0;
-    } else {
-      patternScores['error-handling'] = 100;
-    }
-
-    // Loading states (-5 points if missing)
-    if (analysis.hasLoadingStates === false) {
-      score -= 5;
-      deductions.push({ rule: 'loading-states', issue: 'Missing loading states', points: 5 });
-      patternScores['loading-states'] = 0;
-    } else {
-      patternScores['loading-states'] = 100;
-    }
-
-    // Console.log presence (-5 points)
-    if (analysis.hasConsoleLog === true) {
-      score -= 5;
-      deductions.push({ rule: 'no-console-log', issue: 'console.log statements present', points: 5 });
-      patternScores['clean-code'] = 50;
-    } else {
-      patternScores['clean-code'] = 100;
-    }
-
-    // Any type usage (-5 points)
-    if (analysis.hasAnyType === true) {
-      score -= 5;
-      deductions.push({ rule: 'no-any-type', issue: 'Uses `any` type', points: 5 });
-      patternScores['type-safety'] = 50;
-    } else {
-      patternScores['type-safety'] = 100;
-    }
-  }
-
   // Test file coverage check
   const testsWritten = params.testsWritten || [];
   const filesModified = params.filesModified || [];
@@ -464,10 +450,13 @@ export async function GET(req: NextRequest) {
       compliance: compliance ? {
         score: compliance.complianceScore,
         deductions: JSON.parse(compliance.deductions || '[]'),
+        evidence: compliance.evidence ? JSON.parse(compliance.evidence) : null,
       } : null,
       testQuality: testQuality ? {
         overallScore: testQuality.overallScore,
         coverage: testQuality.coveragePercent,
+        testsPassed: testQuality.testsPassed,
+        testsFailed: testQuality.testsFailed,
         hasUnitTests: testQuality.hasUnitTests,
         hasIntegrationTests: testQuality.hasIntegrationTests,
         hasE2eTests: testQuality.hasE2eTests,
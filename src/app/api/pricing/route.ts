@@ -17,6 +17,7 @@ export async function GET(req: NextRequest) {
       description: plan.description,
       features: plan.features,
       seats: plan.seats,
+      quotas: plan.quotas,
       priceMonthly: plan.priceMonthly,
       priceYearly: plan.priceYearly,
       // Indicate which providers are available
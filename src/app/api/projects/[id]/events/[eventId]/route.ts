@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectEventStreamService } from '@/services/project-event-stream-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError, AuthorizationError } from '@/lib/errors';
+import { z } from 'zod';
+import { db, projects } from '@/db';
+import { eq } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+const updateEventSchema = z.object({
+  isPublic: z.boolean(),
+});
+
+async function verifyProjectOwnership(projectId: string, teamId: string) {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  if (project.teamId !== teamId) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+
+  return { project };
+}
+
+/**
+ * PATCH /api/projects/[id]/events/[eventId]
+ * Show or hide an event on the project's public progress page
+ * Supports both API key (CLI) and session (dashboard) auth
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id, eventId } = await params;
+    applyRateLimit(req, 'api:projects:write', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const body = await req.json();
+    const data = updateEventSchema.parse(body);
+
+    const event = await ProjectEventStreamService.setEventPublic(id, eventId, data.isPublic);
+
+    return successResponse({ event });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
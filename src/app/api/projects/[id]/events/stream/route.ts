@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectEventStreamService } from '@/services/project-event-stream-service';
+import { handleApiError, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError, AuthorizationError } from '@/lib/errors';
+import { parseStreamCursor } from '@/lib/project-event-stream';
+import { db, projects } from '@/db';
+import { eq } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+async function verifyProjectOwnership(projectId: string, teamId: string) {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  if (project.teamId !== teamId) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+
+  return { project };
+}
+
+/**
+ * GET /api/projects/[id]/events/stream
+ * Server-Sent Events stream of the project's timeline
+ * Supports both API key (CLI) and session (dashboard) auth
+ *
+ * Query: ?after=<eventId> to start after an event the page already has,
+ * ?types=<type,type> and ?phaseId=<id> to filter. Reconnects resume from
+ * Last-Event-ID. Each message is a `project_event` with the event and the
+ * test run or risk flag it was recorded for.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id } = await params;
+    applyRateLimit(req, 'api:projects:read', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const url = new URL(req.url);
+    const filter = ProjectEventStreamService.parseFilter(url.searchParams);
+    const cursor = parseStreamCursor(req.headers, url.searchParams);
+
+    const stream = ProjectEventStreamService.openStream(id, 'team', {
+      cursor,
+      filter,
+      signal: req.signal,
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
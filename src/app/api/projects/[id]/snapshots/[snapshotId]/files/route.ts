@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectSnapshotService } from '@/services/project-snapshot-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError, AuthorizationError } from '@/lib/errors';
+import { z } from 'zod';
+import { db, projects } from '@/db';
+import { eq } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+const filesSchema = z.object({
+  paths: z.array(z.string()).max(5000).optional(), // Every file when omitted
+});
+
+async function verifyProjectOwnership(projectId: string, teamId: string) {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  if (project.teamId !== teamId) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+
+  return { project };
+}
+
+/**
+ * POST /api/projects/[id]/snapshots/[snapshotId]/files
+ * Contents of files in a snapshot - the CLI fetches the files it restores
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; snapshotId: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id, snapshotId } = await params;
+    applyRateLimit(req, 'api:projects:read', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const { paths } = filesSchema.parse(await req.json());
+    const files = await ProjectSnapshotService.getFileContents(id, snapshotId, paths);
+
+    return successResponse({ files });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectSnapshotService } from '@/services/project-snapshot-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError, AuthorizationError } from '@/lib/errors';
+import { z } from 'zod';
+import { db, projects } from '@/db';
+import { eq } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+const restoreSchema = z.object({
+  paths: z.array(z.string()).min(1).nullable().default(null), // null restores the whole tree
+});
+
+async function verifyProjectOwnership(projectId: string, teamId: string) {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  if (project.teamId !== teamId) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+
+  return { project };
+}
+
+/**
+ * POST /api/projects/[id]/snapshots/[snapshotId]/restore
+ * Request a restore from the dashboard. The CLI picks it up with
+ * `codebakers restore` and applies it after showing a diff.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; snapshotId: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id, snapshotId } = await params;
+    applyRateLimit(req, 'api:projects:write', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const { paths } = restoreSchema.parse(await req.json());
+    const restore = await ProjectSnapshotService.requestRestore(id, snapshotId, paths, auth.userId);
+
+    return successResponse(restore, 201);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/snapshots/[snapshotId]/restore
+ * The CLI reports it applied the snapshot to the working tree
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; snapshotId: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id, snapshotId } = await params;
+    applyRateLimit(req, 'api:projects:write', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const { paths } = restoreSchema.parse(await req.json());
+    const snapshot = await ProjectSnapshotService.completeRestore(id, snapshotId, paths);
+
+    return successResponse(snapshot);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectSnapshotService } from '@/services/project-snapshot-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError, AuthorizationError } from '@/lib/errors';
+import { db, projects } from '@/db';
+import { eq } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+async function verifyProjectOwnership(projectId: string, teamId: string) {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  if (project.teamId !== teamId) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+
+  return { project };
+}
+
+/**
+ * GET /api/projects/[id]/snapshots/[snapshotId]
+ * A snapshot and its manifest (path, hash and size of every file)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; snapshotId: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id, snapshotId } = await params;
+    applyRateLimit(req, 'api:projects:read', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const result = await ProjectSnapshotService.getSnapshot(id, snapshotId);
+
+    return successResponse(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
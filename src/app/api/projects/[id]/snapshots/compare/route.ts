@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectSnapshotService } from '@/services/project-snapshot-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError, AuthorizationError } from '@/lib/errors';
+import { z } from 'zod';
+import { db, projects } from '@/db';
+import { eq } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+const compareSchema = z.object({
+  from: z.string().uuid(),
+  to: z.string().uuid(),
+  path: z.string().optional(),
+});
+
+async function verifyProjectOwnership(projectId: string, teamId: string) {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  if (project.teamId !== teamId) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+
+  return { project };
+}
+
+/**
+ * GET /api/projects/[id]/snapshots/compare?from=<snapshotId>&to=<snapshotId>
+ * Files added, removed and modified between two snapshots
+ * With &path=<file>, the line diff of that file instead
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id } = await params;
+    applyRateLimit(req, 'api:projects:read', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const { from, to, path } = compareSchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+
+    const result = path
+      ? await ProjectSnapshotService.compareFile(id, from, to, path)
+      : await ProjectSnapshotService.compareSnapshots(id, from, to);
+
+    return successResponse(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
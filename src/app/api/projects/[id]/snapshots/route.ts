@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectSnapshotService } from '@/services/project-snapshot-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+import { NotFoundError, AuthorizationError } from '@/lib/errors';
+import { db, projects } from '@/db';
+import { eq } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+async function verifyProjectOwnership(projectId: string, teamId: string) {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  if (project.teamId !== teamId) {
+    throw new AuthorizationError('You do not have access to this project');
+  }
+
+  return { project };
+}
+
+/**
+ * GET /api/projects/[id]/snapshots
+ * List snapshots, newest first, and the restore waiting for the CLI (if any)
+ * Supports both API key (CLI) and session (dashboard) auth
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { id } = await params;
+    applyRateLimit(req, 'api:projects:read', auth.userId);
+
+    await verifyProjectOwnership(id, auth.teamId);
+
+    const result = await ProjectSnapshotService.listSnapshots(id);
+
+    return successResponse(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { requireAuthOrApiKey } from '@/lib/auth';
 import { ProjectTrackingService } from '@/services/project-tracking-service';
+import { ProjectSnapshotService } from '@/services/project-snapshot-service';
 import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
 import { NotFoundError, AuthorizationError } from '@/lib/errors';
 import { z } from 'zod';
@@ -121,6 +122,16 @@ const bulkSyncSchema = z.object({
     featureId: z.string().uuid().optional(),
   })).optional(),
 
+  // Hashes of snapshot files - the response lists the ones still to upload
+  checkBlobs: z.array(z.string()).max(5000).optional(),
+
+  // Snapshot file contents, addressed by the sha256 of their bytes
+  blobs: z.array(z.object({
+    hash: z.string().regex(/^[0-9a-f]{64}$/),
+    content: z.string(),
+    encoding: z.enum(['utf8', 'base64']).default('utf8'),
+  })).optional(),
+
   // Create snapshot
   createSnapshot: z.object({
     snapshotName: z.string(),
@@ -131,6 +142,12 @@ const bulkSyncSchema = z.object({
     projectState: z.record(z.string(), z.unknown()).optional(),
     fileTree: z.array(z.record(z.string(), z.unknown())).optional(),
     phaseId: z.string().uuid().optional(),
+    // Manifest of the snapshot's files - their blobs must be uploaded first
+    files: z.array(z.object({
+      path: z.string(),
+      hash: z.string(),
+      size: z.number().int().min(0),
+    })).optional(),
   }).optional(),
 });
 
@@ -183,6 +200,7 @@ export async function POST(
         dependencies: 0,
         riskFlags: 0,
         resources: 0,
+        blobs: 0,
         snapshot: false,
       },
     };
@@ -351,9 +369,19 @@ export async function POST(
       results.synced = { ...(results.synced as object), resources: data.resources.length };
     }
 
-    // 9. Create snapshot if requested
+    // 9. Store snapshot file contents, then report which are still missing
+    if (data.blobs && data.blobs.length > 0) {
+      const stored = await ProjectSnapshotService.storeBlobs(projectId, data.blobs);
+      results.synced = { ...(results.synced as object), blobs: stored };
+    }
+
+    if (data.checkBlobs) {
+      results.missingBlobs = await ProjectSnapshotService.findMissingBlobs(projectId, data.checkBlobs);
+    }
+
+    // 10. Create snapshot if requested
     if (data.createSnapshot) {
-      await ProjectTrackingService.createSnapshot({
+      const snapshot = await ProjectSnapshotService.createSnapshot({
         projectId,
         phaseId: data.createSnapshot.phaseId,
         snapshotName: data.createSnapshot.snapshotName,
@@ -363,8 +391,9 @@ export async function POST(
         gitBranch: data.createSnapshot.gitBranch,
         projectState: data.createSnapshot.projectState ? JSON.stringify(data.createSnapshot.projectState) : undefined,
         fileTree: data.createSnapshot.fileTree ? JSON.stringify(data.createSnapshot.fileTree) : undefined,
-      });
+      }, data.createSnapshot.files ?? []);
       results.synced = { ...(results.synced as object), snapshot: true };
+      results.snapshotId = snapshot.id;
     }
 
     return successResponse(results);
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { projects } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { applyRateLimit } from '@/lib/api-utils';
+import { RateLimitError } from '@/lib/errors';
+import { parseStreamCursor } from '@/lib/project-event-stream';
+import { ProjectEventStreamService } from '@/services/project-event-stream-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/public/projects/[slug]/events/stream
+ * Server-Sent Events stream for the public progress page
+ *
+ * Only carries events the team marked public, redacted to their type, title
+ * and time. Query: ?after=<eventId> to start after an event the page already
+ * has; reconnects resume from Last-Event-ID.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    applyRateLimit(req, 'api:public:events');
+
+    const [project] = await db
+      .select({ id: projects.id, isPublicPageEnabled: projects.isPublicPageEnabled })
+      .from(projects)
+      .where(eq(projects.publicSlug, slug))
+      .limit(1);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!project.isPublicPageEnabled) {
+      return NextResponse.json(
+        { error: 'This project page is private' },
+        { status: 403 }
+      );
+    }
+
+    const url = new URL(req.url);
+    const stream = ProjectEventStreamService.openStream(project.id, 'public', {
+      cursor: parseStreamCursor(req.headers, url.searchParams),
+      filter: { types: null, phaseId: null },
+      signal: req.signal,
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429 }
+      );
+    }
+
+    console.error('Error streaming public project events:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream project events' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { projects, projectPhases, teams } from '@/db/schema';
 import { eq, and, asc } from 'drizzle-orm';
+import { ProjectEventStreamService } from '@/services/project-event-stream-service';
 
 interface PublicPageSettings {
   showPhases?: boolean;
@@ -129,6 +130,9 @@ export async function GET(
       }));
     }
 
+    // Events the team marked public - the page streams newer ones
+    const events = await ProjectEventStreamService.getPublicEvents(project.id);
+
     // Calculate status display
     const statusDisplay = {
       discovery: { label: 'Getting Started', emoji: '🔍', color: 'purple' },
@@ -151,6 +155,7 @@ export async function GET(
       status: statusDisplay,
       progress: settings.showProgress ? (project.overallProgress || 0) : null,
       phases: settings.showPhases ? phases : null,
+      events,
       stats: {
         filesCreated: project.totalFilesCreated || 0,
         testsRun: project.totalTestsRun || 0,
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, autoRateLimit } from '@/lib/api-utils';
-import { ContextLoaderService, ContextCache } from '@/services/context-loader-service';
-import { ScoperAgentService, ScopingCache } from '@/services/scoper-agent-service';
-import { ScopeLockService, ScopeLockCache } from '@/services/scope-lock-service';
-import { DecisionLogService, DecisionCache } from '@/services/decision-log-service';
-import { AttemptTrackerService, AttemptCache } from '@/services/attempt-tracker-service';
-import { randomUUID } from 'crypto';
+import { getOptionalTeamId } from '@/lib/auth';
+import { ContextLoaderService } from '@/services/context-loader-service';
+import { ScoperAgentService } from '@/services/scoper-agent-service';
+import { ScopeLockService } from '@/services/scope-lock-service';
+import { DecisionLogService } from '@/services/decision-log-service';
+import { AttemptTrackerService } from '@/services/attempt-tracker-service';
+import { SafetyStateService } from '@/services/safety-state-service';
+import { SafetySession } from '@/db/schema';
+import { DecisionConstraint, ScopeAction, ScopeSymbolRule } from '@/lib/safety-types';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,6 +16,10 @@ export const dynamic = 'force-dynamic';
  * POST /api/safety
  * Main safety system endpoint - handles all safety operations
  *
+ * State is stored in Postgres. Authenticated calls tie the session to the
+ * caller's team (and to its project when projectHash matches); sessions are
+ * then only reachable by the same team. Full history: GET /api/safety/sessions/[id]
+ *
  * Body: {
  *   action: 'load_context' | 'clarify_intent' | 'answer_clarification' |
  *           'define_scope' | 'check_action' | 'log_attempt' | 'log_decision' |
@@ -27,6 +34,7 @@ export async function POST(req: NextRequest) {
 
     const body = await req.json();
     const { action } = body;
+    const teamId = await getOptionalTeamId(req);
 
     if (!action || typeof action !== 'string') {
       return NextResponse.json(
@@ -37,28 +45,28 @@ export async function POST(req: NextRequest) {
 
     switch (action) {
       case 'load_context':
-        return handleLoadContext(body);
+        return handleLoadContext(body, teamId);
 
       case 'clarify_intent':
-        return handleClarifyIntent(body);
+        return handleClarifyIntent(body, teamId);
 
       case 'answer_clarification':
-        return handleAnswerClarification(body);
+        return handleAnswerClarification(body, teamId);
 
       case 'define_scope':
-        return handleDefineScope(body);
+        return handleDefineScope(body, teamId);
 
       case 'check_action':
-        return handleCheckAction(body);
+        return handleCheckAction(body, teamId);
 
       case 'log_attempt':
-        return handleLogAttempt(body);
+        return handleLogAttempt(body, teamId);
 
       case 'log_decision':
-        return handleLogDecision(body);
+        return handleLogDecision(body, teamId);
 
       case 'get_status':
-        return handleGetStatus(body);
+        return handleGetStatus(body, teamId);
 
       default:
         return NextResponse.json(
@@ -71,6 +79,25 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Look up the caller's session, or build the 404 response
+ */
+async function findSession(
+  sessionId: string,
+  teamId: string | null
+): Promise<{ session: SafetySession; error?: never } | { session?: never; error: NextResponse }> {
+  const session = await SafetyStateService.getSession(sessionId, teamId);
+  if (!session) {
+    return {
+      error: NextResponse.json(
+        { error: 'Safety session not found or expired. Call load_context first.' },
+        { status: 404 }
+      ),
+    };
+  }
+  return { session };
+}
+
 /**
  * Load project context from .codebakers/ files
  */
@@ -80,9 +107,9 @@ async function handleLoadContext(body: {
   devlog?: string;
   attempts?: string;
   blocked?: string;
-}) {
-  const sessionId = `safety_${randomUUID().slice(0, 8)}`;
-
+  projectHash?: string;
+  projectName?: string;
+}, teamId: string | null) {
   // Load context from provided content strings
   const context = ContextLoaderService.loadContextFromContent({
     stateJson: body.stateJson,
@@ -92,19 +119,21 @@ async function handleLoadContext(body: {
     blockedContent: body.blocked,
   });
 
-  // Cache the context
-  ContextCache.set(sessionId, context);
-
-  // Also cache decisions and attempts for quick lookup
-  DecisionCache.set(sessionId, context.decisions);
-  AttemptCache.clear(sessionId);
-  context.recentAttempts.forEach((a) => AttemptCache.add(sessionId, a));
+  // Persist the context along with its decisions and attempts
+  const session = await SafetyStateService.createSession({
+    context,
+    teamId,
+    projectHash: body.projectHash,
+    projectName: body.projectName,
+  });
 
   const summary = ContextLoaderService.formatContextForPrompt(context);
 
   return NextResponse.json({
     success: true,
-    sessionId,
+    sessionId: session.sessionToken,
+    expiresAt: session.expiresAt,
+    projectId: session.projectId,
     context: {
       hasDecisions: context.decisions.length > 0,
       decisionCount: context.decisions.length,
@@ -126,7 +155,7 @@ async function handleLoadContext(body: {
 async function handleClarifyIntent(body: {
   sessionId: string;
   userInput: string;
-}) {
+}, teamId: string | null) {
   if (!body.sessionId) {
     return NextResponse.json(
       { error: 'sessionId is required. Call load_context first.' },
@@ -141,10 +170,19 @@ async function handleClarifyIntent(body: {
     );
   }
 
+  const { session, error } = await findSession(body.sessionId, teamId);
+  if (error) return error;
+
   const result = await ScoperAgentService.analyzeIntent(body.userInput);
 
-  // Cache the scoping session
-  ScopingCache.create(body.sessionId, body.userInput, result.scores);
+  // Save the scoping session
+  await SafetyStateService.saveScoping(session, {
+    sessionId: body.sessionId,
+    userInput: body.userInput,
+    scores: result.scores,
+    questionsAsked: [],
+    confirmed: false,
+  });
 
   return NextResponse.json({
     success: true,
@@ -171,7 +209,7 @@ async function handleAnswerClarification(body: {
   sessionId: string;
   questionId: string;
   answer: string;
-}) {
+}, teamId: string | null) {
   if (!body.sessionId || !body.questionId || !body.answer) {
     return NextResponse.json(
       { error: 'sessionId, questionId, and answer are required' },
@@ -179,8 +217,11 @@ async function handleAnswerClarification(body: {
     );
   }
 
-  const session = ScopingCache.get(body.sessionId);
-  if (!session) {
+  const { session, error } = await findSession(body.sessionId, teamId);
+  if (error) return error;
+
+  const scoping = SafetyStateService.getScoping(session);
+  if (!scoping) {
     return NextResponse.json(
       { error: 'Session not found. Call clarify_intent first.' },
       { status: 404 }
@@ -188,14 +229,17 @@ async function handleAnswerClarification(body: {
   }
 
   const result = await ScoperAgentService.processAnswer(
-    session.scores,
+    scoping.scores,
     body.questionId,
     body.answer
   );
 
-  // Update cache
-  ScopingCache.updateScores(body.sessionId, result.scores);
-  ScopingCache.addQuestion(body.sessionId, body.questionId);
+  // Save updated scores
+  await SafetyStateService.saveScoping(session, {
+    ...scoping,
+    scores: result.scores,
+    questionsAsked: [...scoping.questionsAsked, body.questionId],
+  });
 
   return NextResponse.json({
     success: true,
@@ -218,8 +262,13 @@ async function handleDefineScope(body: {
   userRequest: string;
   allowedFiles?: string[];
   allowedDirectories?: string[];
+  allowedPatterns?: string[];
   forbiddenFiles?: string[];
-}) {
+  symbolRules?: ScopeSymbolRule[];
+  maxNewFiles?: number;
+  maxModifiedFiles?: number;
+  maxLinesChanged?: number;
+}, teamId: string | null) {
   if (!body.sessionId || !body.userRequest) {
     return NextResponse.json(
       { error: 'sessionId and userRequest are required' },
@@ -227,17 +276,25 @@ async function handleDefineScope(body: {
     );
   }
 
+  const { session, error } = await findSession(body.sessionId, teamId);
+  if (error) return error;
+
   const scopeLock = ScopeLockService.createScopeLock({
     userRequest: body.userRequest,
     inferredScope: {
       allowedFiles: body.allowedFiles,
       allowedDirectories: body.allowedDirectories,
+      allowedPatterns: body.allowedPatterns,
       forbiddenFiles: body.forbiddenFiles,
+      symbolRules: body.symbolRules,
+      maxNewFiles: body.maxNewFiles,
+      maxModifiedFiles: body.maxModifiedFiles,
+      maxLinesChanged: body.maxLinesChanged,
     },
   });
 
-  // Cache the scope lock
-  ScopeLockCache.set(body.sessionId, scopeLock);
+  // Persist the scope lock
+  await SafetyStateService.setScopeLock(session, scopeLock);
 
   return NextResponse.json({
     success: true,
@@ -246,9 +303,12 @@ async function handleDefineScope(body: {
       id: scopeLock.id,
       allowedActions: scopeLock.allowedActions,
       allowedDirectories: scopeLock.allowedDirectories,
+      allowedPatterns: scopeLock.allowedPatterns,
       forbiddenFiles: scopeLock.forbiddenFiles,
+      symbolRules: scopeLock.symbolRules,
       maxNewFiles: scopeLock.maxNewFiles,
       maxModifiedFiles: scopeLock.maxModifiedFiles,
+      maxLinesChanged: scopeLock.maxLinesChanged,
       canDeleteFiles: scopeLock.canDeleteFiles,
       canModifyPackageJson: scopeLock.canModifyPackageJson,
       canModifySchema: scopeLock.canModifySchema,
@@ -266,7 +326,11 @@ async function handleCheckAction(body: {
   actionType: string;
   targetFile: string;
   details?: string;
-}) {
+  symbols?: string[];
+  originalContent?: string;
+  newContent?: string;
+  linesChanged?: number;
+}, teamId: string | null) {
   if (!body.sessionId || !body.actionType || !body.targetFile) {
     return NextResponse.json(
       { error: 'sessionId, actionType, and targetFile are required' },
@@ -274,8 +338,19 @@ async function handleCheckAction(body: {
     );
   }
 
-  const scopeLock = ScopeLockCache.get(body.sessionId);
+  const { session, error } = await findSession(body.sessionId, teamId);
+  if (error) return error;
+
+  const actionType = body.actionType as ScopeAction;
+  const scopeLock = await SafetyStateService.getScopeLock(session);
   if (!scopeLock) {
+    await SafetyStateService.recordActionCheck(session, {
+      actionType,
+      targetFile: body.targetFile,
+      details: body.details,
+      allowed: true,
+      reason: 'No scope lock defined',
+    });
     return NextResponse.json({
       success: true,
       allowed: true,
@@ -285,20 +360,42 @@ async function handleCheckAction(body: {
   }
 
   const result = ScopeLockService.checkAction(scopeLock, {
-    type: body.actionType as Parameters<typeof ScopeLockService.checkAction>[1]['type'],
+    type: actionType,
     targetFile: body.targetFile,
     details: body.details,
+    symbols: body.symbols,
+    originalContent: body.originalContent,
+    newContent: body.newContent,
+    linesChanged: body.linesChanged,
   });
 
   if (result.violation) {
-    ScopeLockCache.addViolation(body.sessionId, result.violation);
+    scopeLock.violations.push(result.violation);
+  } else {
+    ScopeLockService.recordChange(scopeLock, {
+      type: actionType,
+      targetFile: body.targetFile,
+      linesChanged: result.linesChanged,
+    });
   }
+  await SafetyStateService.saveScopeLock(session, scopeLock);
+  await SafetyStateService.recordActionCheck(session, {
+    actionType,
+    targetFile: body.targetFile,
+    details: body.details,
+    allowed: result.allowed,
+    reason: result.reason,
+    rule: result.violation?.rule,
+    scopeLockId: scopeLock.id,
+    linesChanged: result.linesChanged,
+  });
 
   // Also check for contradictions with existing decisions
-  const decisions = DecisionCache.get(body.sessionId);
+  const decisions = await SafetyStateService.getDecisions(session);
   const contradiction = ScopeLockService.checkContradiction(
-    `${body.actionType} on ${body.targetFile}`,
-    decisions
+    [`${body.actionType} on ${body.targetFile}`, body.details].filter(Boolean).join(': '),
+    decisions,
+    body.targetFile
   );
 
   return NextResponse.json({
@@ -310,6 +407,9 @@ async function handleCheckAction(body: {
       severity: contradiction.severity,
       explanation: contradiction.explanation,
       conflictingDecision: contradiction.conflictingDecision.decision,
+      subject: contradiction.subject,
+      suggestion: contradiction.suggestion,
+      affectedFiles: contradiction.affectedFiles,
     } : null,
   });
 }
@@ -325,7 +425,7 @@ async function handleLogAttempt(body: {
   result: 'success' | 'failure' | 'partial';
   errorMessage?: string;
   lessonsLearned?: string;
-}) {
+}, teamId: string | null) {
   if (!body.sessionId || !body.issue || !body.approach || !body.result) {
     return NextResponse.json(
       { error: 'sessionId, issue, approach, and result are required' },
@@ -333,6 +433,9 @@ async function handleLogAttempt(body: {
     );
   }
 
+  const { session, error } = await findSession(body.sessionId, teamId);
+  if (error) return error;
+
   const attempt = AttemptTrackerService.createAttempt({
     issue: body.issue,
     approach: body.approach,
@@ -342,16 +445,16 @@ async function handleLogAttempt(body: {
     lessonsLearned: body.lessonsLearned,
   });
 
-  AttemptCache.add(body.sessionId, attempt);
-
   // Check if this approach was already tried
-  const allAttempts = AttemptCache.get(body.sessionId);
+  const previousAttempts = await SafetyStateService.getAttempts(session);
   const previousCheck = AttemptTrackerService.hasBeenTried(
     body.issue,
     body.approach,
-    allAttempts.slice(0, -1) // Exclude the one we just added
+    previousAttempts
   );
 
+  await SafetyStateService.addAttempt(session, attempt);
+
   return NextResponse.json({
     success: true,
     attemptId: attempt.id,
@@ -375,7 +478,8 @@ async function handleLogDecision(body: {
   alternativesConsidered?: string[];
   impact: 'low' | 'medium' | 'high' | 'critical';
   relatedFiles?: string[];
-}) {
+  constraints?: DecisionConstraint[];
+}, teamId: string | null) {
   if (!body.sessionId || !body.decision || !body.reasoning || !body.impact) {
     return NextResponse.json(
       { error: 'sessionId, decision, reasoning, and impact are required' },
@@ -383,6 +487,9 @@ async function handleLogDecision(body: {
     );
   }
 
+  const { session, error } = await findSession(body.sessionId, teamId);
+  if (error) return error;
+
   const decision = DecisionLogService.createDecision({
     decision: body.decision,
     category: (body.category || 'business-logic') as Parameters<typeof DecisionLogService.createDecision>[0]['category'],
@@ -392,34 +499,43 @@ async function handleLogDecision(body: {
     userApproved: false,
     impact: body.impact,
     relatedFiles: body.relatedFiles,
+    constraints: body.constraints,
   });
 
-  DecisionCache.add(body.sessionId, decision);
-
-  // Check for contradictions
-  const allDecisions = DecisionCache.get(body.sessionId);
+  // A decision that changes a subject retires the earlier one; anything else it contradicts is reported
+  const previousDecisions = await SafetyStateService.getDecisions(session);
+  const superseded = DecisionLogService.findSuperseded(decision, previousDecisions);
+  const retired = new Set(superseded.map((d) => d.id));
   const contradiction = DecisionLogService.checkContradiction(
     body.decision,
-    allDecisions.slice(0, -1) // Exclude the one we just added
+    previousDecisions.filter((d) => !retired.has(d.id))
   );
 
+  await SafetyStateService.addDecision(session, decision);
+  await SafetyStateService.updateDecisions(session, superseded);
+
   return NextResponse.json({
     success: true,
     decisionId: decision.id,
     logged: true,
     hasContradiction: contradiction.hasContradiction,
     contradictionExplanation: contradiction.explanation,
+    contradictionSuggestion: contradiction.suggestion || undefined,
+    constraints: decision.constraints,
+    supersedes: superseded.map((d) => ({ id: d.id, decision: d.decision })),
     markdown: DecisionLogService.formatDecisionForMarkdown(decision),
     message: contradiction.hasContradiction
       ? `Decision logged but contradicts: ${contradiction.conflictingDecision?.decision}`
-      : 'Decision logged successfully.',
+      : superseded.length > 0
+        ? `Decision logged. It replaces: ${superseded.map((d) => d.decision).join('; ')}`
+        : 'Decision logged successfully.',
   });
 }
 
 /**
  * Get current safety status
  */
-async function handleGetStatus(body: { sessionId: string }) {
+async function handleGetStatus(body: { sessionId: string }, teamId: string | null) {
   if (!body.sessionId) {
     return NextResponse.json(
       { error: 'sessionId is required' },
@@ -427,16 +543,21 @@ async function handleGetStatus(body: { sessionId: string }) {
     );
   }
 
-  const context = ContextCache.get(body.sessionId);
-  const scopingSession = ScopingCache.get(body.sessionId);
-  const scopeLock = ScopeLockCache.get(body.sessionId);
-  const decisions = DecisionCache.get(body.sessionId);
-  const attempts = AttemptCache.get(body.sessionId);
+  const { session, error } = await findSession(body.sessionId, teamId);
+  if (error) return error;
+
+  const context = SafetyStateService.getContext(session);
+  const scopingSession = SafetyStateService.getScoping(session);
+  const [scopeLock, decisions, attempts] = await Promise.all([
+    SafetyStateService.getScopeLock(session),
+    SafetyStateService.getDecisions(session),
+    SafetyStateService.getAttempts(session),
+  ]);
 
   const gates = {
     contextLoaded: !!context,
     intentClarified: scopingSession?.confirmed || false,
-    scopeLocked: ScopeLockCache.isActive(body.sessionId),
+    scopeLocked: scopeLock?.isActive ?? false,
   };
 
   const safetyScore = (
@@ -449,6 +570,7 @@ async function handleGetStatus(body: { sessionId: string }) {
   return NextResponse.json({
     success: true,
     sessionId: body.sessionId,
+    expiresAt: session.expiresAt,
     gates,
     safetyScore,
     stats: {
@@ -482,7 +604,7 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    return handleGetStatus({ sessionId });
+    return handleGetStatus({ sessionId }, await getOptionalTeamId(req));
   } catch (error) {
     return handleApiError(error);
   }
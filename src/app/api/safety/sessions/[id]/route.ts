@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { getOptionalTeamId } from '@/lib/auth';
+import { handleApiError, successResponse, autoRateLimit, NotFoundError } from '@/lib/api-utils';
+import { SafetyStateService } from '@/services/safety-state-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/safety/sessions/[id]
+ * Export a safety session's full history for review: loaded context, scoping,
+ * every scope lock, decisions, attempts and check_action verdicts
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    autoRateLimit(req);
+    const { id } = await params;
+    const teamId = await getOptionalTeamId(req);
+
+    const session = await SafetyStateService.getSession(id, teamId);
+    if (!session) {
+      throw new NotFoundError('Safety session');
+    }
+
+    const history = await SafetyStateService.exportSession(session);
+
+    return successResponse({ session: history });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
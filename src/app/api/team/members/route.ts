@@ -21,12 +21,16 @@ export async function GET(req: NextRequest) {
       throw new NotFoundError('Team');
     }
 
-    const members = await TeamInviteService.getTeamMembers(team.id);
+    const [members, seats] = await Promise.all([
+      TeamInviteService.getTeamMembers(team.id),
+      TeamInviteService.getSeatUsage(team.id, team.seatLimit),
+    ]);
 
     return successResponse({
       members,
       seatLimit: team.seatLimit,
       usedSeats: members.length,
+      seats,
     });
   } catch (error) {
     return handleApiError(error);
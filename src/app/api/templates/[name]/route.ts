@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectTemplateService } from '@/services/project-template-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/templates/[name]?version=1.2.0
+ * A template package with its files; the newest version unless one is given
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    const { name } = await params;
+    applyRateLimit(req, 'api:templates:read', auth.userId);
+
+    const version = req.nextUrl.searchParams.get('version') ?? undefined;
+    const template = await ProjectTemplateService.getTemplate(auth.teamId, name, version);
+
+    return successResponse(template);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { requireAuthOrApiKey } from '@/lib/auth';
+import { ProjectTemplateService } from '@/services/project-template-service';
+import { handleApiError, successResponse, applyRateLimit } from '@/lib/api-utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/templates
+ * Templates the team has published, with their versions
+ * Supports both API key (CLI) and session (dashboard) auth
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    applyRateLimit(req, 'api:templates:read', auth.userId);
+
+    const templates = await ProjectTemplateService.listTemplates(auth.teamId);
+
+    return successResponse({ templates });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/templates
+ * Publish a template version ({ manifest, files }) - `codebakers template publish`
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuthOrApiKey(req);
+    applyRateLimit(req, 'api:templates:write', auth.userId);
+
+    const template = await ProjectTemplateService.publishTemplate(auth.teamId, auth.userId, await req.json());
+
+    return successResponse(template, 201);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe, PLANS } from '@/lib/stripe';
-import { TeamService } from '@/services/team-service';
-import { db, teams } from '@/db';
-import { eq } from 'drizzle-orm';
+import { stripe } from '@/lib/stripe';
+import { fromStripeEvent } from '@/lib/billing-events';
+import { BillingEventService } from '@/services/billing-event-service';
+import { getRequestId } from '@/lib/logger';
 import Stripe from 'stripe';
-import { subscriptionPlanSchema } from '@/lib/validations';
 
 export const dynamic = 'force-dynamic';
 
@@ -32,93 +31,24 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
   }
 
-  try {
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const teamId = session.metadata?.teamId;
-        const planResult = subscriptionPlanSchema.safeParse(session.metadata?.plan);
-
-        if (!teamId) {
-          console.error('[Stripe Webhook] Missing teamId in session metadata');
-          break;
-        }
-
-        if (!planResult.success) {
-          console.error('[Stripe Webhook] Invalid plan in session metadata:', session.metadata?.plan);
-          break;
-        }
-
-        const plan = planResult.data;
-        const seatLimit = PLANS[plan].seats;
-
-        await TeamService.updateStripeInfo(teamId, {
-          stripeSubscriptionId: session.subscription as string,
-          subscriptionStatus: 'active',
-          subscriptionPlan: plan,
-          seatLimit,
-        });
-        break;
-      }
-
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId = subscription.customer as string;
-
-        const [team] = await db
-          .select()
-          .from(teams)
-          .where(eq(teams.stripeCustomerId, customerId))
-          .limit(1);
+  const requestId = getRequestId(req.headers);
 
-        if (team) {
-          await TeamService.updateStripeInfo(team.id, {
-            subscriptionStatus: subscription.status,
-          });
-        }
-        break;
-      }
-
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId = subscription.customer as string;
-
-        const [team] = await db
-          .select()
-          .from(teams)
-          .where(eq(teams.stripeCustomerId, customerId))
-          .limit(1);
-
-        if (team) {
-          await TeamService.updateStripeInfo(team.id, {
-            subscriptionStatus: 'canceled',
-            subscriptionPlan: undefined,
-            stripeSubscriptionId: undefined,
-          });
-        }
-        break;
-      }
-
-      case 'invoice.payment_failed': {
-        const invoice = event.data.object as Stripe.Invoice;
-        const customerId = invoice.customer as string;
-
-        const [team] = await db
-          .select()
-          .from(teams)
-          .where(eq(teams.stripeCustomerId, customerId))
-          .limit(1);
+  try {
+    const billingEvent = fromStripeEvent(event);
+    if (!billingEvent) {
+      return NextResponse.json({ received: true });
+    }
 
-        if (team) {
-          await TeamService.updateStripeInfo(team.id, {
-            subscriptionStatus: 'past_due',
-          });
-        }
-        break;
-      }
+    const result = await BillingEventService.ingest(billingEvent, event, requestId);
+    if (result.status === 'failed') {
+      // Let Stripe retry - a redelivery re-drives the failed event
+      return NextResponse.json(
+        { error: 'Webhook handler failed', paymentEventId: result.paymentEventId },
+        { status: 500 }
+      );
     }
 
-    return NextResponse.json({ received: true });
+    return NextResponse.json({ received: true, duplicate: result.duplicate, status: result.status });
   } catch (error) {
     console.error('Webhook error:', error);
     return NextResponse.json(
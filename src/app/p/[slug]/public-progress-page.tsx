@@ -12,6 +12,13 @@ interface Phase {
   order: number;
 }
 
+interface PublicEvent {
+  id: string;
+  eventType: string;
+  title: string;
+  occurredAt: string | null;
+}
+
 interface ProjectData {
   projectName: string;
   description: string | null;
@@ -23,6 +30,7 @@ interface ProjectData {
   };
   progress: number | null;
   phases: Phase[] | null;
+  events: PublicEvent[];
   stats: {
     filesCreated: number;
     testsRun: number;
@@ -55,11 +63,21 @@ const phaseStatusIcons: Record<string, React.ReactNode> = {
   failed: <Circle className="h-5 w-5 text-red-500" />,
 };
 
+function eventIcon(eventType: string): React.ReactNode {
+  if (eventType.startsWith('test_')) return <TestTube2 className="h-4 w-4 text-purple-400" />;
+  if (eventType.startsWith('file_')) return <FileCode className="h-4 w-4 text-blue-400" />;
+  if (eventType.endsWith('_completed')) return <CheckCircle2 className="h-4 w-4 text-emerald-400" />;
+  return <Circle className="h-4 w-4 text-slate-500" />;
+}
+
 export function PublicProgressPage({ slug }: PublicProgressPageProps) {
   const [data, setData] = useState<ProjectData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
+  const [events, setEvents] = useState<PublicEvent[]>([]);
+  // Newest event of the first load - undefined until then, null if there were none
+  const [streamAfter, setStreamAfter] = useState<string | null | undefined>(undefined);
 
   const fetchData = async () => {
     try {
@@ -70,6 +88,8 @@ export function PublicProgressPage({ slug }: PublicProgressPageProps) {
       }
       const projectData = await response.json();
       setData(projectData);
+      setEvents(projectData.events);
+      setStreamAfter((current) => (current === undefined ? projectData.events[0]?.id ?? null : current));
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load project');
@@ -92,6 +112,21 @@ export function PublicProgressPage({ slug }: PublicProgressPageProps) {
     return () => clearInterval(interval);
   }, [slug]);
 
+  // Live feed of events the team publishes while the page is open
+  useEffect(() => {
+    if (streamAfter === undefined) return;
+
+    const query = streamAfter ? `?after=${streamAfter}` : '';
+    const source = new EventSource(`/api/public/projects/${slug}/events/stream${query}`);
+
+    source.addEventListener('project_event', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as PublicEvent;
+      setEvents((current) => [event, ...current.filter((e) => e.id !== event.id)].slice(0, 20));
+    });
+
+    return () => source.close();
+  }, [slug, streamAfter]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
@@ -268,6 +303,29 @@ export function PublicProgressPage({ slug }: PublicProgressPageProps) {
           </div>
         )}
 
+        {/* Recent Updates */}
+        {events.length > 0 && (
+          <div className="bg-slate-800/30 rounded-2xl border border-slate-700/50 overflow-hidden mb-12">
+            <div className="px-6 py-4 border-b border-slate-700/50">
+              <h2 className="text-lg font-semibold text-white">Recent Updates</h2>
+              <p className="text-slate-400 text-sm">Shared by the team as work happens</p>
+            </div>
+            <div className="divide-y divide-slate-700/50">
+              {events.map((event) => (
+                <div key={event.id} className="px-6 py-3 flex items-center gap-4">
+                  <div className="flex-shrink-0">{eventIcon(event.eventType)}</div>
+                  <p className="flex-1 min-w-0 text-slate-300 truncate">{event.title}</p>
+                  {event.occurredAt && (
+                    <span className="flex-shrink-0 text-sm text-slate-500">
+                      {new Date(event.occurredAt).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Timeline Info */}
         <div className="flex flex-wrap items-center justify-center gap-6 text-sm text-slate-500">
           {data.startedAt && (
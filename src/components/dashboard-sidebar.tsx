@@ -16,6 +16,7 @@ import {
   Settings,
   Hammer,
   BookOpen,
+  ClipboardCheck,
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -27,6 +28,7 @@ const navItems = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/quickstart', label: 'Quick Start', icon: Zap },
   { href: '/engineering', label: 'Engineering', icon: Hammer },
+  { href: '/approvals', label: 'Approvals', icon: ClipboardCheck },
   { href: '/help', label: 'Help Center', icon: BookOpen },
   { href: '/account', label: 'Account', icon: UserCircle },
   { href: '/billing', label: 'Billing', icon: CreditCard },
@@ -0,0 +1,23 @@
+CREATE TABLE "engineering_pipelines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"project_hash" text,
+	"name" text NOT NULL,
+	"version" integer NOT NULL,
+	"phases" text NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "engineering_decisions" ALTER COLUMN "phase" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "engineering_gate_history" ALTER COLUMN "phase" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ALTER COLUMN "current_phase" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ALTER COLUMN "current_phase" SET DEFAULT 'scoping';--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD COLUMN "pipeline_id" uuid;--> statement-breakpoint
+ALTER TABLE "engineering_pipelines" ADD CONSTRAINT "engineering_pipelines_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "engineering_pipelines" ADD CONSTRAINT "engineering_pipelines_created_by_profiles_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD CONSTRAINT "engineering_sessions_pipeline_id_engineering_pipelines_id_fk" FOREIGN KEY ("pipeline_id") REFERENCES "public"."engineering_pipelines"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+DROP TYPE "public"."engineering_phase";--> statement-breakpoint
+CREATE UNIQUE INDEX "engineering_pipelines_project_version" ON "engineering_pipelines" USING btree ("team_id","project_hash","version");--> statement-breakpoint
+CREATE UNIQUE INDEX "engineering_pipelines_team_version" ON "engineering_pipelines" USING btree ("team_id","version") WHERE project_hash is null;
\ No newline at end of file
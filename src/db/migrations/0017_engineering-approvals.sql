@@ -0,0 +1,19 @@
+CREATE TYPE "public"."engineering_approval_status" AS ENUM('pending', 'approved', 'rejected', 'cancelled');--> statement-breakpoint
+CREATE TABLE "engineering_approvals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"team_id" uuid NOT NULL,
+	"phase" text NOT NULL,
+	"status" "engineering_approval_status" DEFAULT 'pending' NOT NULL,
+	"reason" text,
+	"requested_by" text,
+	"min_approvers" integer DEFAULT 1 NOT NULL,
+	"require_admin" boolean DEFAULT false NOT NULL,
+	"votes" text,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "engineering_approvals" ADD CONSTRAINT "engineering_approvals_session_id_engineering_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."engineering_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "engineering_approvals" ADD CONSTRAINT "engineering_approvals_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TYPE "public"."engineering_branch_status" AS ENUM('exploring', 'promoted', 'archived');--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD COLUMN "parent_session_id" uuid;--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD COLUMN "forked_at_phase" text;--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD COLUMN "branch_name" text;--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD COLUMN "branch_status" "engineering_branch_status";--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD CONSTRAINT "engineering_sessions_parent_session_id_engineering_sessions_id_fk" FOREIGN KEY ("parent_session_id") REFERENCES "public"."engineering_sessions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "engineering_artifact_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"artifact_name" text NOT NULL,
+	"revision" integer NOT NULL,
+	"content" text NOT NULL,
+	"author" text NOT NULL,
+	"author_user_id" uuid,
+	"phase" text,
+	"restored_from" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "engineering_artifact_revisions" ADD CONSTRAINT "engineering_artifact_revisions_session_id_engineering_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."engineering_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "engineering_artifact_revisions" ADD CONSTRAINT "engineering_artifact_revisions_author_user_id_profiles_id_fk" FOREIGN KEY ("author_user_id") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "engineering_artifact_revisions_number" ON "engineering_artifact_revisions" USING btree ("session_id","artifact_name","revision");
\ No newline at end of file
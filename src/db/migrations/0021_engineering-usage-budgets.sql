@@ -0,0 +1,29 @@
+CREATE TABLE "engineering_budgets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"session_id" uuid,
+	"max_input_tokens" integer,
+	"max_output_tokens" integer,
+	"max_cost_cents" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "engineering_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"team_id" uuid NOT NULL,
+	"agent" "agent_role" NOT NULL,
+	"phase" text NOT NULL,
+	"model" text NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_micros" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "engineering_sessions" ADD COLUMN "paused_reason" text;--> statement-breakpoint
+ALTER TABLE "engineering_budgets" ADD CONSTRAINT "engineering_budgets_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "engineering_budgets" ADD CONSTRAINT "engineering_budgets_session_id_engineering_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."engineering_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "engineering_usage" ADD CONSTRAINT "engineering_usage_session_id_engineering_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."engineering_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "engineering_usage" ADD CONSTRAINT "engineering_usage_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
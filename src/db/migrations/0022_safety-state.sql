@@ -0,0 +1,68 @@
+CREATE TABLE "safety_action_checks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"action_type" text NOT NULL,
+	"target_file" text NOT NULL,
+	"details" text,
+	"allowed" boolean NOT NULL,
+	"reason" text NOT NULL,
+	"rule" text,
+	"scope_lock_id" text,
+	"lines_changed" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "safety_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"attempt_id" text NOT NULL,
+	"issue" text NOT NULL,
+	"approach" text NOT NULL,
+	"result" text NOT NULL,
+	"data" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "safety_decisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"decision_id" text NOT NULL,
+	"decision" text NOT NULL,
+	"category" text NOT NULL,
+	"impact" text NOT NULL,
+	"made_by" text NOT NULL,
+	"data" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "safety_scope_locks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"lock_id" text NOT NULL,
+	"lock" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "safety_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_token" text NOT NULL,
+	"team_id" uuid,
+	"project_id" uuid,
+	"project_hash" text,
+	"project_name" text,
+	"context" text,
+	"scoping" text,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "safety_sessions_session_token_unique" UNIQUE("session_token")
+);
+--> statement-breakpoint
+ALTER TABLE "safety_action_checks" ADD CONSTRAINT "safety_action_checks_session_id_safety_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."safety_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "safety_attempts" ADD CONSTRAINT "safety_attempts_session_id_safety_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."safety_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "safety_decisions" ADD CONSTRAINT "safety_decisions_session_id_safety_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."safety_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "safety_scope_locks" ADD CONSTRAINT "safety_scope_locks_session_id_safety_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."safety_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "safety_sessions" ADD CONSTRAINT "safety_sessions_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "safety_sessions" ADD CONSTRAINT "safety_sessions_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
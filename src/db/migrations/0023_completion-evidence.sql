@@ -0,0 +1,4 @@
+ALTER TABLE "pattern_compliance" ADD COLUMN "evidence" text;--> statement-breakpoint
+ALTER TABLE "test_quality_metrics" ADD COLUMN "tests_passed" integer;--> statement-breakpoint
+ALTER TABLE "test_quality_metrics" ADD COLUMN "tests_failed" integer;--> statement-breakpoint
+ALTER TABLE "test_quality_metrics" ADD COLUMN "tests_skipped" integer;
\ No newline at end of file
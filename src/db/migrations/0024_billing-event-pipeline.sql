@@ -0,0 +1,8 @@
+ALTER TABLE "payment_events" ADD COLUMN "idempotency_key" text;--> statement-breakpoint
+ALTER TABLE "payment_events" ADD COLUMN "previous_status" text;--> statement-breakpoint
+ALTER TABLE "payment_events" ADD COLUMN "subscription_status" text;--> statement-breakpoint
+ALTER TABLE "payment_events" ADD COLUMN "processing_status" text DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE "payment_events" ADD COLUMN "processing_attempts" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "payment_events" ADD COLUMN "processed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_idempotency_key_unique" UNIQUE("idempotency_key");--> statement-breakpoint
+UPDATE "payment_events" SET "processing_status" = CASE WHEN "processed" THEN 'applied' ELSE 'failed' END;
\ No newline at end of file
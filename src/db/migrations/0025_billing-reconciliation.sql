@@ -0,0 +1,35 @@
+CREATE TABLE "billing_drift_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"team_id" uuid,
+	"provider" "payment_provider" NOT NULL,
+	"subscription_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"team_status" text,
+	"provider_status" text,
+	"team_plan" text,
+	"provider_plan" text,
+	"safe" boolean DEFAULT false NOT NULL,
+	"reason" text NOT NULL,
+	"correction" text,
+	"resolution" text DEFAULT 'pending_review' NOT NULL,
+	"resolved_by" uuid,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "billing_reconciliation_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"apply_safe" boolean DEFAULT true NOT NULL,
+	"triggered_by" uuid,
+	"summary" text,
+	"error" text,
+	"started_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "billing_drift_items" ADD CONSTRAINT "billing_drift_items_run_id_billing_reconciliation_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."billing_reconciliation_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "billing_drift_items" ADD CONSTRAINT "billing_drift_items_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "billing_drift_items" ADD CONSTRAINT "billing_drift_items_resolved_by_profiles_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "billing_reconciliation_runs" ADD CONSTRAINT "billing_reconciliation_runs_triggered_by_profiles_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
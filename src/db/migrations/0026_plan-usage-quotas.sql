@@ -0,0 +1,3 @@
+ALTER TABLE "subscription_pricing" ADD COLUMN "monthly_pattern_fetches" integer;--> statement-breakpoint
+ALTER TABLE "subscription_pricing" ADD COLUMN "monthly_engineering_sessions" integer;--> statement-breakpoint
+ALTER TABLE "subscription_pricing" ADD COLUMN "monthly_tokens" integer;
\ No newline at end of file
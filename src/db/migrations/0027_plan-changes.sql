@@ -0,0 +1,23 @@
+CREATE TABLE "plan_changes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"requested_by" uuid,
+	"provider" "payment_provider" NOT NULL,
+	"from_plan" "subscription_plan" NOT NULL,
+	"to_plan" "subscription_plan" NOT NULL,
+	"direction" text NOT NULL,
+	"status" text DEFAULT 'scheduled' NOT NULL,
+	"proration_amount" integer,
+	"currency" text DEFAULT 'USD',
+	"proration_source" text,
+	"keep_member_ids" text,
+	"keep_api_key_ids" text,
+	"effective_at" timestamp NOT NULL,
+	"applied_at" timestamp,
+	"error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "plan_changes" ADD CONSTRAINT "plan_changes_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_changes" ADD CONSTRAINT "plan_changes_requested_by_profiles_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "plan_changes_one_open_per_team" ON "plan_changes" USING btree ("team_id") WHERE status in ('pending', 'scheduled');
\ No newline at end of file
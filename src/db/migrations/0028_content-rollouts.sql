@@ -0,0 +1,20 @@
+CREATE TABLE "content_releases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"channel" text NOT NULL,
+	"version_id" uuid NOT NULL,
+	"previous_version_id" uuid,
+	"rollout_percent" integer DEFAULT 100 NOT NULL,
+	"status" text DEFAULT 'rolling_out' NOT NULL,
+	"rollback_reason" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	"completed_at" timestamp,
+	"rolled_back_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "pattern_usage" ADD COLUMN "content_version" text;--> statement-breakpoint
+ALTER TABLE "teams" ADD COLUMN "content_channel" text DEFAULT 'stable';--> statement-breakpoint
+ALTER TABLE "content_releases" ADD CONSTRAINT "content_releases_version_id_content_versions_id_fk" FOREIGN KEY ("version_id") REFERENCES "public"."content_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "content_releases" ADD CONSTRAINT "content_releases_previous_version_id_content_versions_id_fk" FOREIGN KEY ("previous_version_id") REFERENCES "public"."content_versions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "content_releases" ADD CONSTRAINT "content_releases_created_by_profiles_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "cli_installations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"install_key" text NOT NULL,
+	"team_id" uuid,
+	"device_hash" text,
+	"cli_version" text,
+	"resolved_version" text,
+	"node_version" text,
+	"platform" text,
+	"first_seen_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "cli_installations_install_key_unique" UNIQUE("install_key")
+);
+--> statement-breakpoint
+ALTER TABLE "cli_versions" ADD COLUMN "halted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cli_versions" ADD COLUMN "halt_reason" text;--> statement-breakpoint
+ALTER TABLE "cli_installations" ADD CONSTRAINT "cli_installations_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "cli_versions" SET "rollout_percent" = 100 WHERE "status" = 'stable' AND "is_auto_update_enabled" = true AND coalesce("rollout_percent", 0) = 0;
\ No newline at end of file
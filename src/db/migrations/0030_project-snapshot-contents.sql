@@ -0,0 +1,38 @@
+CREATE TABLE "project_snapshot_blobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"blob_key" text NOT NULL,
+	"hash" text NOT NULL,
+	"content" text NOT NULL,
+	"encoding" text DEFAULT 'utf8' NOT NULL,
+	"size" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "project_snapshot_blobs_blob_key_unique" UNIQUE("blob_key")
+);
+--> statement-breakpoint
+CREATE TABLE "project_snapshot_files" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"snapshot_id" uuid NOT NULL,
+	"file_path" text NOT NULL,
+	"blob_hash" text NOT NULL,
+	"size" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "project_snapshot_restores" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"snapshot_id" uuid NOT NULL,
+	"paths" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"requested_by" uuid,
+	"requested_at" timestamp DEFAULT now(),
+	"applied_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "project_snapshots" ADD COLUMN "file_count" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "project_snapshots" ADD COLUMN "total_bytes" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "project_snapshot_blobs" ADD CONSTRAINT "project_snapshot_blobs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_snapshot_files" ADD CONSTRAINT "project_snapshot_files_snapshot_id_project_snapshots_id_fk" FOREIGN KEY ("snapshot_id") REFERENCES "public"."project_snapshots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_snapshot_restores" ADD CONSTRAINT "project_snapshot_restores_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_snapshot_restores" ADD CONSTRAINT "project_snapshot_restores_snapshot_id_project_snapshots_id_fk" FOREIGN KEY ("snapshot_id") REFERENCES "public"."project_snapshots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_snapshot_restores" ADD CONSTRAINT "project_snapshot_restores_requested_by_profiles_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "project_events" ADD COLUMN "is_public" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "project_events" ADD COLUMN "public_at" timestamp;
\ No newline at end of file
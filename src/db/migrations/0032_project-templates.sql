@@ -0,0 +1,17 @@
+CREATE TABLE "project_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"template_key" text NOT NULL,
+	"name" text NOT NULL,
+	"version" text NOT NULL,
+	"description" text,
+	"manifest" text NOT NULL,
+	"files" text NOT NULL,
+	"size" integer NOT NULL,
+	"published_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "project_templates_template_key_unique" UNIQUE("template_key")
+);
+--> statement-breakpoint
+ALTER TABLE "project_templates" ADD CONSTRAINT "project_templates_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_templates" ADD CONSTRAINT "project_templates_published_by_profiles_id_fk" FOREIGN KEY ("published_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
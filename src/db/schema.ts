@@ -1,5 +1,5 @@
-import { pgTable, uuid, text, timestamp, boolean, integer, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, uuid, text, timestamp, boolean, integer, pgEnum, uniqueIndex, AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 export const subscriptionPlanEnum = pgEnum('subscription_plan', ['beta', 'pro', 'team', 'agency', 'enterprise']);
 export const paymentProviderEnum = pgEnum('payment_provider', ['stripe', 'square', 'paypal']);
@@ -62,6 +62,7 @@ export const teams = pgTable('teams', {
 
   // Pattern versioning - allow teams to pin to a specific version
   pinnedPatternVersion: text('pinned_pattern_version'),
+  contentChannel: text('content_channel').default('stable'), // stable, beta, canary
 
   // Service API keys for auto-provisioning (JSON: { github, supabase, vercel })
   serviceKeys: text('service_keys'),
@@ -114,6 +115,22 @@ export const contentVersions = pgTable('content_versions', {
   publishedAt: timestamp('published_at'),
 });
 
+// Content Releases - Staged rollouts of content versions per channel
+export const contentReleases = pgTable('content_releases', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  channel: text('channel').notNull(), // stable, beta, canary
+  versionId: uuid('version_id').references(() => contentVersions.id, { onDelete: 'cascade' }).notNull(),
+  previousVersionId: uuid('previous_version_id').references(() => contentVersions.id, { onDelete: 'set null' }), // Served to teams outside the rollout
+  rolloutPercent: integer('rollout_percent').notNull().default(100),
+  status: text('status').notNull().default('rolling_out'), // rolling_out, complete, rolled_back, superseded
+  rollbackReason: text('rollback_reason'),
+  createdBy: uuid('created_by').references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  completedAt: timestamp('completed_at'),
+  rolledBackAt: timestamp('rolled_back_at'),
+});
+
 // Subscription Pricing - admin-configurable pricing for each plan/provider
 export const subscriptionPricing = pgTable('subscription_pricing', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -125,6 +142,11 @@ export const subscriptionPricing = pgTable('subscription_pricing', {
   features: text('features'), // JSON array of feature strings
   seats: integer('seats').notNull().default(1),
 
+  // Monthly usage quotas (null = unlimited)
+  monthlyPatternFetches: integer('monthly_pattern_fetches'),
+  monthlyEngineeringSessions: integer('monthly_engineering_sessions'),
+  monthlyTokens: integer('monthly_tokens'), // Engineering input + output tokens
+
   // Pricing in cents (e.g., 4900 = $49.00)
   priceMonthly: integer('price_monthly').notNull(),
   priceYearly: integer('price_yearly'), // Optional yearly price
@@ -227,6 +249,7 @@ export const patternUsage = pgTable('pattern_usage', {
   teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }).notNull(),
   apiKeyId: uuid('api_key_id').references(() => apiKeys.id, { onDelete: 'set null' }),
   patternName: text('pattern_name').notNull(),
+  contentVersion: text('content_version'), // Version served, for rollout adoption
   fetchedAt: timestamp('fetched_at').defaultNow().notNull(),
 });
 
@@ -425,6 +448,8 @@ export const cliVersions = pgTable('cli_versions', {
   // Rollout control
   rolloutPercent: integer('rollout_percent').default(0), // 0-100, for gradual rollout
   isAutoUpdateEnabled: boolean('is_auto_update_enabled').default(false), // Can MCP auto-update to this?
+  haltedAt: timestamp('halted_at'), // Rollout stopped (automatically on an error spike, or by an admin)
+  haltReason: text('halt_reason'),
 
   // Admin metadata
   publishedBy: uuid('published_by').references(() => profiles.id, { onDelete: 'set null' }),
@@ -475,6 +500,25 @@ export const cliErrorReports = pgTable('cli_error_reports', {
 export type CliErrorReport = typeof cliErrorReports.$inferSelect;
 export type NewCliErrorReport = typeof cliErrorReports.$inferInsert;
 
+// CLI Installations - one row per device (or team, for clients without a device hash), updated on every version check
+export const cliInstallations = pgTable('cli_installations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  installKey: text('install_key').notNull().unique(), // "device:<hash>", or "team:<id>" without a device
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'set null' }),
+  deviceHash: text('device_hash'),
+
+  cliVersion: text('cli_version'), // Version the client is running
+  resolvedVersion: text('resolved_version'), // Version it was told to run
+  nodeVersion: text('node_version'),
+  platform: text('platform'),
+
+  firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
+  lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+});
+
+export type CliInstallation = typeof cliInstallations.$inferSelect;
+export type NewCliInstallation = typeof cliInstallations.$inferInsert;
+
 // ============================================
 // PROJECT TRACKING - Agency-Style Build Dashboard
 // ============================================
@@ -648,6 +692,10 @@ export const projectEvents = pgTable('project_events', {
   riskLevel: riskLevelEnum('risk_level'),
   riskReason: text('risk_reason'),
 
+  // Public progress page - only events the team marks public are shown there
+  isPublic: boolean('is_public').default(false).notNull(),
+  publicAt: timestamp('public_at'), // When it was marked public; orders the public feed
+
   // Timestamps
   createdAt: timestamp('created_at').defaultNow(),
 });
@@ -758,6 +806,10 @@ export const projectSnapshots = pgTable('project_snapshots', {
   projectState: text('project_state'), // JSON of .codebakers.json at this point
   fileTree: text('file_tree'), // JSON of file tree structure
 
+  // File contents (in projectSnapshotFiles)
+  fileCount: integer('file_count').default(0),
+  totalBytes: integer('total_bytes').default(0),
+
   // Restored tracking
   wasRestored: boolean('was_restored').default(false),
   restoredAt: timestamp('restored_at'),
@@ -765,6 +817,56 @@ export const projectSnapshots = pgTable('project_snapshots', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+// Project Snapshot Blobs - File contents, stored once per project however many snapshots share them
+export const projectSnapshotBlobs = pgTable('project_snapshot_blobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  blobKey: text('blob_key').notNull().unique(), // `${projectId}:${hash}`
+  hash: text('hash').notNull(), // sha256 of the raw bytes
+
+  content: text('content').notNull(),
+  encoding: text('encoding').notNull().default('utf8'), // utf8, base64 (binary files)
+  size: integer('size').notNull(), // Bytes
+
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Project Snapshot Files - Which blob each path held in a snapshot
+export const projectSnapshotFiles = pgTable('project_snapshot_files', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  snapshotId: uuid('snapshot_id').references(() => projectSnapshots.id, { onDelete: 'cascade' }).notNull(),
+  filePath: text('file_path').notNull(), // Relative to the project root, forward slashes
+  blobHash: text('blob_hash').notNull(),
+  size: integer('size').notNull(),
+});
+
+// Project Snapshot Restores - Restores requested from the dashboard, applied by the CLI
+export const projectSnapshotRestores = pgTable('project_snapshot_restores', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  snapshotId: uuid('snapshot_id').references(() => projectSnapshots.id, { onDelete: 'cascade' }).notNull(),
+  paths: text('paths'), // JSON array of files to restore, null for the whole tree
+  status: text('status').notNull().default('pending'), // pending, applied, cancelled
+  requestedBy: uuid('requested_by').references(() => profiles.id, { onDelete: 'set null' }),
+  requestedAt: timestamp('requested_at').defaultNow(),
+  appliedAt: timestamp('applied_at'),
+});
+
+// Project Templates - Team-published starter packages for `codebakers scaffold --template` (each version is immutable)
+export const projectTemplates = pgTable('project_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }).notNull(),
+  templateKey: text('template_key').notNull().unique(), // teamId:name@version
+  name: text('name').notNull(),
+  version: text('version').notNull(), // Semver
+  description: text('description'),
+  manifest: text('manifest').notNull(), // JSON: TemplateManifest
+  files: text('files').notNull(), // JSON: TemplateFile[]
+  size: integer('size').notNull(), // Total bytes of file contents
+  publishedBy: uuid('published_by').references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
 // Project Docs - Auto-generated documentation
 export const projectDocs = pgTable('project_docs', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -907,6 +1009,7 @@ export type ProjectFeature = typeof projectFeatures.$inferSelect;
 export type NewProjectFeature = typeof projectFeatures.$inferInsert;
 export type ProjectEvent = typeof projectEvents.$inferSelect;
 export type NewProjectEvent = typeof projectEvents.$inferInsert;
+export type ProjectEventType = (typeof eventTypeEnum.enumValues)[number];
 export type ProjectTestRun = typeof projectTestRuns.$inferSelect;
 export type NewProjectTestRun = typeof projectTestRuns.$inferInsert;
 export type ProjectFile = typeof projectFiles.$inferSelect;
@@ -915,6 +1018,15 @@ export type ProjectDependency = typeof projectDependencies.$inferSelect;
 export type NewProjectDependency = typeof projectDependencies.$inferInsert;
 export type ProjectSnapshot = typeof projectSnapshots.$inferSelect;
 export type NewProjectSnapshot = typeof projectSnapshots.$inferInsert;
+export type ProjectSnapshotBlob = typeof projectSnapshotBlobs.$inferSelect;
+export type NewProjectSnapshotBlob = typeof projectSnapshotBlobs.$inferInsert;
+export type ProjectSnapshotFile = typeof projectSnapshotFiles.$inferSelect;
+export type NewProjectSnapshotFile = typeof projectSnapshotFiles.$inferInsert;
+export type ProjectSnapshotRestore = typeof projectSnapshotRestores.$inferSelect;
+export type NewProjectSnapshotRestore = typeof projectSnapshotRestores.$inferInsert;
+export type ProjectSnapshotRestoreStatus = 'pending' | 'applied' | 'cancelled';
+export type ProjectTemplate = typeof projectTemplates.$inferSelect;
+export type NewProjectTemplate = typeof projectTemplates.$inferInsert;
 export type ProjectDoc = typeof projectDocs.$inferSelect;
 export type NewProjectDoc = typeof projectDocs.$inferInsert;
 export type ProjectResource = typeof projectResources.$inferSelect;
@@ -1064,6 +1176,142 @@ export type PatternValidation = typeof patternValidations.$inferSelect;
 export type NewPatternValidation = typeof patternValidations.$inferInsert;
 export type EnforcementSessionStatus = 'active' | 'completed' | 'failed' | 'expired';
 
+// ============================================
+// SAFETY SYSTEM - Durable /api/safety state
+// ============================================
+
+// Safety Sessions - One load_context session and everything gathered for it
+export const safetySessions = pgTable('safety_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionToken: text('session_token').notNull().unique(), // safety_<64 hex> - what clients send as sessionId
+
+  // Who it belongs to (null for anonymous callers)
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'set null' }),
+  projectHash: text('project_hash'),
+  projectName: text('project_name'),
+
+  // Gate state
+  context: text('context'), // JSON: ProjectContext loaded from .codebakers/ files
+  scoping: text('scoping'), // JSON: ScopingSession from clarify_intent
+
+  // Timing
+  expiresAt: timestamp('expires_at').notNull(), // Pushed back on every write
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Safety Scope Locks - Every define_scope call; only the latest is active
+export const safetyScopeLocks = pgTable('safety_scope_locks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => safetySessions.id, { onDelete: 'cascade' }).notNull(),
+
+  lockId: text('lock_id').notNull(), // ScopeLock.id
+  lock: text('lock').notNull(), // JSON: ScopeLock, including changes and violations
+  isActive: boolean('is_active').default(true).notNull(),
+
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Safety Decisions - Decisions loaded from DECISIONS.md or logged during the session
+export const safetyDecisions = pgTable('safety_decisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => safetySessions.id, { onDelete: 'cascade' }).notNull(),
+
+  decisionId: text('decision_id').notNull(), // Decision.id
+  decision: text('decision').notNull(),
+  category: text('category').notNull(),
+  impact: text('impact').notNull(),
+  madeBy: text('made_by').notNull(), // 'user' | 'ai'
+  data: text('data').notNull(), // JSON: full Decision
+
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Safety Attempts - What was tried and how it went
+export const safetyAttempts = pgTable('safety_attempts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => safetySessions.id, { onDelete: 'cascade' }).notNull(),
+
+  attemptId: text('attempt_id').notNull(), // Attempt.id
+  issue: text('issue').notNull(),
+  approach: text('approach').notNull(),
+  result: text('result').notNull(), // 'success' | 'failure' | 'partial'
+  data: text('data').notNull(), // JSON: full Attempt
+
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Safety Action Checks - Every check_action call and its verdict
+export const safetyActionChecks = pgTable('safety_action_checks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => safetySessions.id, { onDelete: 'cascade' }).notNull(),
+
+  actionType: text('action_type').notNull(),
+  targetFile: text('target_file').notNull(),
+  details: text('details'),
+  allowed: boolean('allowed').notNull(),
+  reason: text('reason').notNull(),
+  rule: text('rule'), // JSON: { type, value } of the scope rule that blocked it
+  scopeLockId: text('scope_lock_id'), // Lock in force when checked, null if none
+  linesChanged: integer('lines_changed'),
+
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Relations for safety system
+export const safetySessionsRelations = relations(safetySessions, ({ one, many }) => ({
+  team: one(teams, {
+    fields: [safetySessions.teamId],
+    references: [teams.id],
+  }),
+  project: one(projects, {
+    fields: [safetySessions.projectId],
+    references: [projects.id],
+  }),
+  scopeLocks: many(safetyScopeLocks),
+  decisions: many(safetyDecisions),
+  attempts: many(safetyAttempts),
+  actionChecks: many(safetyActionChecks),
+}));
+
+export const safetyScopeLocksRelations = relations(safetyScopeLocks, ({ one }) => ({
+  session: one(safetySessions, {
+    fields: [safetyScopeLocks.sessionId],
+    references: [safetySessions.id],
+  }),
+}));
+
+export const safetyDecisionsRelations = relations(safetyDecisions, ({ one }) => ({
+  session: one(safetySessions, {
+    fields: [safetyDecisions.sessionId],
+    references: [safetySessions.id],
+  }),
+}));
+
+export const safetyAttemptsRelations = relations(safetyAttempts, ({ one }) => ({
+  session: one(safetySessions, {
+    fields: [safetyAttempts.sessionId],
+    references: [safetySessions.id],
+  }),
+}));
+
+export const safetyActionChecksRelations = relations(safetyActionChecks, ({ one }) => ({
+  session: one(safetySessions, {
+    fields: [safetyActionChecks.sessionId],
+    references: [safetySessions.id],
+  }),
+}));
+
+// Types for safety system
+export type SafetySession = typeof safetySessions.$inferSelect;
+export type NewSafetySession = typeof safetySessions.$inferInsert;
+export type SafetyScopeLock = typeof safetyScopeLocks.$inferSelect;
+export type SafetyDecision = typeof safetyDecisions.$inferSelect;
+export type SafetyAttempt = typeof safetyAttempts.$inferSelect;
+export type SafetyActionCheck = typeof safetyActionChecks.$inferSelect;
+
 // ============================================
 // v6.1 ENHANCEMENTS - Quality & Consistency
 // ============================================
@@ -1178,6 +1426,9 @@ export const patternCompliance = pgTable('pattern_compliance', {
   // Test quality metrics
   testQuality: text('test_quality'), // JSON: { exists, coverage, hasHappyPath, hasErrorCases, hasBoundary }
 
+  // Parsed test/coverage/tsc reports the score was based on
+  evidence: text('evidence'), // JSON: EvidenceReport
+
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -1282,6 +1533,11 @@ export const testQualityMetrics = pgTable('test_quality_metrics', {
   testFiles: text('test_files'), // JSON array of test file paths
   testCount: integer('test_count').default(0),
 
+  // Results from the attached test report
+  testsPassed: integer('tests_passed'),
+  testsFailed: integer('tests_failed'),
+  testsSkipped: integer('tests_skipped'),
+
   // Recommendations
   missingTests: text('missing_tests'), // JSON array: ["error case for invalid input", "boundary test for max length"]
   recommendations: text('recommendations'), // JSON array of suggestions
@@ -1357,21 +1613,6 @@ export const engineeringSessionStatusEnum = pgEnum('engineering_session_status',
   'abandoned',  // User abandoned or session expired
 ]);
 
-// Engineering Phase enum (matches EngineeringPhase type)
-export const engineeringPhaseEnum = pgEnum('engineering_phase', [
-  'scoping',
-  'requirements',
-  'architecture',
-  'design_review',
-  'implementation',
-  'code_review',
-  'testing',
-  'security_review',
-  'documentation',
-  'staging',
-  'launch',
-]);
-
 // Agent Role enum
 export const agentRoleEnum = pgEnum('agent_role', [
   'orchestrator',
@@ -1393,6 +1634,21 @@ export const gateStatusEnum = pgEnum('gate_status', [
   'skipped',
 ]);
 
+// Engineering Approval Status enum
+export const engineeringApprovalStatusEnum = pgEnum('engineering_approval_status', [
+  'pending',    // Waiting for sign-off
+  'approved',   // Approval rule satisfied, gate passed
+  'rejected',   // Sent back to the agent for revision
+  'cancelled',  // Session ended before a decision
+]);
+
+// Engineering Branch Status enum (only set on sessions that have been forked)
+export const engineeringBranchStatusEnum = pgEnum('engineering_branch_status', [
+  'exploring',  // Alternative still being evaluated
+  'promoted',   // Chosen branch
+  'archived',   // Not chosen - kept for reference
+]);
+
 // Engineering Sessions - Main session tracking for AI builds
 export const engineeringSessions = pgTable('engineering_sessions', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -1405,10 +1661,22 @@ export const engineeringSessions = pgTable('engineering_sessions', {
 
   // Current state
   status: engineeringSessionStatusEnum('status').default('active'),
-  currentPhase: engineeringPhaseEnum('current_phase').default('scoping'),
+  currentPhase: text('current_phase').default('scoping'), // Pipeline phase id (built-in EngineeringPhase or team-defined)
   currentAgent: agentRoleEnum('current_agent').default('orchestrator'),
   isRunning: boolean('is_running').default(true),
 
+  // Optimistic concurrency - bumped on every write, updates compare-and-swap on it
+  version: integer('version').default(0).notNull(),
+
+  // Branching - "what-if" forks of a session taken at a passed gate
+  parentSessionId: uuid('parent_session_id').references((): AnyPgColumn => engineeringSessions.id, { onDelete: 'set null' }),
+  forkedAtPhase: text('forked_at_phase'), // Pipeline phase id the fork was taken after
+  branchName: text('branch_name'),
+  branchStatus: engineeringBranchStatusEnum('branch_status'),
+
+  // Pipeline version this session runs (null = built-in default pipeline)
+  pipelineId: uuid('pipeline_id').references(() => engineeringPipelines.id, { onDelete: 'set null' }),
+
   // Scope from wizard (JSON)
   scope: text('scope'), // JSON: ProjectScope
 
@@ -1438,6 +1706,7 @@ export const engineeringSessions = pgTable('engineering_sessions', {
   // Timestamps
   startedAt: timestamp('started_at').defaultNow(),
   pausedAt: timestamp('paused_at'),
+  pausedReason: text('paused_reason'), // Why the session stopped (e.g. budget reached)
   completedAt: timestamp('completed_at'),
   lastActivityAt: timestamp('last_activity_at').defaultNow(),
   createdAt: timestamp('created_at').defaultNow(),
@@ -1469,7 +1738,7 @@ export const engineeringDecisions = pgTable('engineering_decisions', {
 
   // Decision context
   agent: agentRoleEnum('agent').notNull(),
-  phase: engineeringPhaseEnum('phase').notNull(),
+  phase: text('phase').notNull(), // Pipeline phase id
 
   // Decision details
   decision: text('decision').notNull(), // What was decided
@@ -1489,7 +1758,7 @@ export const engineeringGateHistory = pgTable('engineering_gate_history', {
   sessionId: uuid('session_id').references(() => engineeringSessions.id, { onDelete: 'cascade' }).notNull(),
 
   // Gate details
-  phase: engineeringPhaseEnum('phase').notNull(),
+  phase: text('phase').notNull(), // Pipeline phase id
   previousStatus: gateStatusEnum('previous_status'),
   newStatus: gateStatusEnum('new_status').notNull(),
 
@@ -1504,15 +1773,140 @@ export const engineeringGateHistory = pgTable('engineering_gate_history', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+// Engineering Pipelines - Team-defined phase pipelines (each save is a new immutable version)
+export const engineeringPipelines = pgTable('engineering_pipelines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }).notNull(),
+  projectHash: text('project_hash'), // null = team-wide default
+
+  // Definition
+  name: text('name').notNull(),
+  version: integer('version').notNull(),
+  phases: text('phases').notNull(), // JSON: PipelinePhase[]
+
+  // Only one active version per team/project
+  isActive: boolean('is_active').default(true),
+
+  // Audit
+  createdBy: uuid('created_by').references(() => profiles.id, { onDelete: 'set null' }),
+
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  // One row per version in each scope; team-wide pipelines have no project hash
+  uniqueIndex('engineering_pipelines_project_version').on(table.teamId, table.projectHash, table.version),
+  uniqueIndex('engineering_pipelines_team_version').on(table.teamId, table.version).where(sql`project_hash is null`),
+]);
+
+// Engineering Approvals - Durable phase approval requests (team-wide inbox)
+export const engineeringApprovals = pgTable('engineering_approvals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => engineeringSessions.id, { onDelete: 'cascade' }).notNull(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }).notNull(),
+
+  // What needs sign-off
+  phase: text('phase').notNull(), // Pipeline phase id
+  status: engineeringApprovalStatusEnum('status').default('pending').notNull(),
+  reason: text('reason'),
+  requestedBy: text('requested_by'), // Agent role that asked for approval
+
+  // Rule snapshot (taken from the pipeline phase when requested)
+  minApprovers: integer('min_approvers').default(1).notNull(),
+  requireAdmin: boolean('require_admin').default(false).notNull(),
+
+  // Votes cast so far (JSON)
+  votes: text('votes'), // JSON: [{ userId, approved, isAdmin, feedback, votedAt }]
+
+  // Resolution
+  resolvedAt: timestamp('resolved_at'),
+
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Engineering Artifact Revisions - Immutable history of every artifact write
+export const engineeringArtifactRevisions = pgTable('engineering_artifact_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => engineeringSessions.id, { onDelete: 'cascade' }).notNull(),
+
+  // Which artifact and which version of it
+  artifactName: text('artifact_name').notNull(), // prd, techSpec, ... or a custom artifact name
+  revision: integer('revision').notNull(), // 1, 2, 3... per session + artifact
+  content: text('content').notNull(),
+
+  // Who wrote it
+  author: text('author').notNull(), // Agent role, or 'user'
+  authorUserId: uuid('author_user_id').references(() => profiles.id, { onDelete: 'set null' }),
+  phase: text('phase'), // Pipeline phase id the artifact was written in
+  restoredFrom: integer('restored_from'), // Revision this one restores (user restores only)
+
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  // Two writers can never end up with the same revision number
+  uniqueIndex('engineering_artifact_revisions_number').on(table.sessionId, table.artifactName, table.revision),
+]);
+
+// Engineering Usage - Tokens and cost of every AI call, per agent and phase
+export const engineeringUsage = pgTable('engineering_usage', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => engineeringSessions.id, { onDelete: 'cascade' }).notNull(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }).notNull(),
+
+  // Who spent it
+  agent: agentRoleEnum('agent').notNull(),
+  phase: text('phase').notNull(), // Pipeline phase id
+  model: text('model').notNull(),
+
+  // What it cost
+  inputTokens: integer('input_tokens').default(0).notNull(),
+  outputTokens: integer('output_tokens').default(0).notNull(),
+  costMicros: integer('cost_micros').default(0).notNull(), // USD millionths
+
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Engineering Budgets - Spending limits for a team (per calendar month) or a single session
+export const engineeringBudgets = pgTable('engineering_budgets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }).notNull(),
+  sessionId: uuid('session_id').references(() => engineeringSessions.id, { onDelete: 'cascade' }), // null = team-wide
+
+  // Limits (null = unlimited)
+  maxInputTokens: integer('max_input_tokens'),
+  maxOutputTokens: integer('max_output_tokens'),
+  maxCostCents: integer('max_cost_cents'),
+
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // Relations for engineering tables
 export const engineeringSessionsRelations = relations(engineeringSessions, ({ one, many }) => ({
   team: one(teams, {
     fields: [engineeringSessions.teamId],
     references: [teams.id],
   }),
+  pipeline: one(engineeringPipelines, {
+    fields: [engineeringSessions.pipelineId],
+    references: [engineeringPipelines.id],
+  }),
+  parent: one(engineeringSessions, {
+    fields: [engineeringSessions.parentSessionId],
+    references: [engineeringSessions.id],
+    relationName: 'branches',
+  }),
+  branches: many(engineeringSessions, { relationName: 'branches' }),
   messages: many(engineeringMessages),
   decisions: many(engineeringDecisions),
+  artifactRevisions: many(engineeringArtifactRevisions),
+  usage: many(engineeringUsage),
+  budgets: many(engineeringBudgets),
   gateHistory: many(engineeringGateHistory),
+  approvals: many(engineeringApprovals),
 }));
 
 export const engineeringMessagesRelations = relations(engineeringMessages, ({ one }) => ({
@@ -1536,6 +1930,54 @@ export const engineeringGateHistoryRelations = relations(engineeringGateHistory,
   }),
 }));
 
+export const engineeringArtifactRevisionsRelations = relations(engineeringArtifactRevisions, ({ one }) => ({
+  session: one(engineeringSessions, {
+    fields: [engineeringArtifactRevisions.sessionId],
+    references: [engineeringSessions.id],
+  }),
+}));
+
+export const engineeringUsageRelations = relations(engineeringUsage, ({ one }) => ({
+  session: one(engineeringSessions, {
+    fields: [engineeringUsage.sessionId],
+    references: [engineeringSessions.id],
+  }),
+  team: one(teams, {
+    fields: [engineeringUsage.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export const engineeringBudgetsRelations = relations(engineeringBudgets, ({ one }) => ({
+  team: one(teams, {
+    fields: [engineeringBudgets.teamId],
+    references: [teams.id],
+  }),
+  session: one(engineeringSessions, {
+    fields: [engineeringBudgets.sessionId],
+    references: [engineeringSessions.id],
+  }),
+}));
+
+export const engineeringApprovalsRelations = relations(engineeringApprovals, ({ one }) => ({
+  session: one(engineeringSessions, {
+    fields: [engineeringApprovals.sessionId],
+    references: [engineeringSessions.id],
+  }),
+  team: one(teams, {
+    fields: [engineeringApprovals.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export const engineeringPipelinesRelations = relations(engineeringPipelines, ({ one, many }) => ({
+  team: one(teams, {
+    fields: [engineeringPipelines.teamId],
+    references: [teams.id],
+  }),
+  sessions: many(engineeringSessions),
+}));
+
 // Types for engineering tables
 export type EngineeringSession = typeof engineeringSessions.$inferSelect;
 export type NewEngineeringSession = typeof engineeringSessions.$inferInsert;
@@ -1545,7 +1987,18 @@ export type EngineeringDecision = typeof engineeringDecisions.$inferSelect;
 export type NewEngineeringDecision = typeof engineeringDecisions.$inferInsert;
 export type EngineeringGateHistory = typeof engineeringGateHistory.$inferSelect;
 export type NewEngineeringGateHistory = typeof engineeringGateHistory.$inferInsert;
+export type EngineeringPipeline = typeof engineeringPipelines.$inferSelect;
+export type NewEngineeringPipeline = typeof engineeringPipelines.$inferInsert;
+export type EngineeringApproval = typeof engineeringApprovals.$inferSelect;
+export type NewEngineeringApproval = typeof engineeringApprovals.$inferInsert;
+export type EngineeringArtifactRevision = typeof engineeringArtifactRevisions.$inferSelect;
+export type NewEngineeringArtifactRevision = typeof engineeringArtifactRevisions.$inferInsert;
+export type EngineeringUsage = typeof engineeringUsage.$inferSelect;
+export type NewEngineeringUsage = typeof engineeringUsage.$inferInsert;
+export type EngineeringBudget = typeof engineeringBudgets.$inferSelect;
+export type NewEngineeringBudget = typeof engineeringBudgets.$inferInsert;
 export type EngineeringSessionStatus = 'active' | 'paused' | 'completed' | 'abandoned';
+export type EngineeringBranchStatus = 'exploring' | 'promoted' | 'archived';
 export type EngineeringPhaseType = 'scoping' | 'requirements' | 'architecture' | 'design_review' | 'implementation' | 'code_review' | 'testing' | 'security_review' | 'documentation' | 'staging' | 'launch';
 export type AgentRoleType = 'orchestrator' | 'pm' | 'architect' | 'engineer' | 'qa' | 'security' | 'documentation' | 'devops';
 export type GateStatusType = 'pending' | 'in_progress' | 'passed' | 'failed' | 'skipped';
@@ -1580,6 +2033,7 @@ export const paymentEvents = pgTable('payment_events', {
   eventType: paymentEventTypeEnum('event_type').notNull(),
   provider: paymentProviderEnum('provider').notNull(),
   providerEventId: text('provider_event_id'), // Stripe/PayPal/Square event ID
+  idempotencyKey: text('idempotency_key').unique(), // `${provider}:${providerEventId}` - redeliveries collapse onto one row
 
   // Associated entities
   teamId: uuid('team_id').references(() => teams.id, { onDelete: 'set null' }),
@@ -1602,15 +2056,84 @@ export const paymentEvents = pgTable('payment_events', {
   metadata: text('metadata'), // JSON: Additional event data
   rawEvent: text('raw_event'), // JSON: Full webhook payload for debugging
 
+  // Subscription state machine result
+  previousStatus: text('previous_status'),
+  subscriptionStatus: text('subscription_status'),
+
   // Processing status
   processed: boolean('processed').default(true),
+  processingStatus: text('processing_status').default('pending'), // pending, applied, stale, failed
   processingError: text('processing_error'),
+  processingAttempts: integer('processing_attempts').default(0),
+  processedAt: timestamp('processed_at'),
 
   // Timestamps
   eventTimestamp: timestamp('event_timestamp'), // When the event occurred (from provider)
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+// Billing Reconciliation Runs - Periodic comparison of provider subscriptions with teams
+export const billingReconciliationRuns = pgTable('billing_reconciliation_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  status: text('status').notNull().default('running'), // running, completed, failed
+  applySafe: boolean('apply_safe').notNull().default(true), // false = report only
+  triggeredBy: uuid('triggered_by').references(() => profiles.id, { onDelete: 'set null' }), // null = scheduled/script
+  summary: text('summary'), // JSON: counts by provider, kind and resolution
+  error: text('error'),
+  startedAt: timestamp('started_at').defaultNow(),
+  completedAt: timestamp('completed_at'),
+});
+
+// Billing Drift Items - One difference found by a reconciliation run
+export const billingDriftItems = pgTable('billing_drift_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  runId: uuid('run_id').references(() => billingReconciliationRuns.id, { onDelete: 'cascade' }).notNull(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }),
+  provider: paymentProviderEnum('provider').notNull(),
+  subscriptionId: text('subscription_id').notNull(),
+  kind: text('kind').notNull(), // status_mismatch, unlinked_subscription, duplicate_subscription, unknown_subscription, missing_subscription, plan_mismatch
+  teamStatus: text('team_status'),
+  providerStatus: text('provider_status'),
+  teamPlan: text('team_plan'),
+  providerPlan: text('provider_plan'),
+  safe: boolean('safe').notNull().default(false),
+  reason: text('reason').notNull(),
+  correction: text('correction'), // JSON: DriftCorrection, null when there is nothing to apply automatically
+  resolution: text('resolution').notNull().default('pending_review'), // applied, pending_review, resolved, dismissed, superseded
+  resolvedBy: uuid('resolved_by').references(() => profiles.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp('resolved_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Plan Changes - Upgrades and downgrades of a team's subscription plan
+export const planChanges = pgTable('plan_changes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  teamId: uuid('team_id').references(() => teams.id, { onDelete: 'cascade' }).notNull(),
+  requestedBy: uuid('requested_by').references(() => profiles.id, { onDelete: 'set null' }),
+  provider: paymentProviderEnum('provider').notNull(),
+  fromPlan: subscriptionPlanEnum('from_plan').notNull(),
+  toPlan: subscriptionPlanEnum('to_plan').notNull(),
+  direction: text('direction').notNull(), // upgrade, downgrade
+  status: text('status').notNull().default('scheduled'), // pending (provider being switched), scheduled, applied, canceled, failed
+
+  // Proration quoted when the change was requested (cents; negative = credit)
+  prorationAmount: integer('proration_amount'),
+  currency: text('currency').default('USD'),
+  prorationSource: text('proration_source'), // provider, none (Square and PayPal don't prorate)
+
+  // What survives a downgrade (JSON arrays of team_members / api_keys IDs; null = keep all)
+  keepMemberIds: text('keep_member_ids'),
+  keepApiKeyIds: text('keep_api_key_ids'),
+
+  effectiveAt: timestamp('effective_at').notNull(),
+  appliedAt: timestamp('applied_at'),
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  // One open change per team, so a double submit can't switch the provider twice
+  uniqueIndex('plan_changes_one_open_per_team').on(table.teamId).where(sql`status in ('pending', 'scheduled')`),
+]);
+
 // Admin Settings - System configuration
 export const adminSettings = pgTable('admin_settings', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -1669,6 +2192,43 @@ export const paymentEventsRelations = relations(paymentEvents, ({ one }) => ({
   }),
 }));
 
+export const billingReconciliationRunsRelations = relations(billingReconciliationRuns, ({ many }) => ({
+  items: many(billingDriftItems),
+}));
+
+export const billingDriftItemsRelations = relations(billingDriftItems, ({ one }) => ({
+  run: one(billingReconciliationRuns, {
+    fields: [billingDriftItems.runId],
+    references: [billingReconciliationRuns.id],
+  }),
+  team: one(teams, {
+    fields: [billingDriftItems.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export const contentReleasesRelations = relations(contentReleases, ({ one }) => ({
+  version: one(contentVersions, {
+    fields: [contentReleases.versionId],
+    references: [contentVersions.id],
+  }),
+  creator: one(profiles, {
+    fields: [contentReleases.createdBy],
+    references: [profiles.id],
+  }),
+}));
+
+export const planChangesRelations = relations(planChanges, ({ one }) => ({
+  team: one(teams, {
+    fields: [planChanges.teamId],
+    references: [teams.id],
+  }),
+  requester: one(profiles, {
+    fields: [planChanges.requestedBy],
+    references: [profiles.id],
+  }),
+}));
+
 // Relations for audit logs
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(profiles, {
@@ -1685,3 +2245,14 @@ export type NewAdminSetting = typeof adminSettings.$inferInsert;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
 export type PaymentEventType = 'subscription_created' | 'subscription_activated' | 'subscription_updated' | 'subscription_cancelled' | 'subscription_expired' | 'subscription_suspended' | 'payment_completed' | 'payment_failed' | 'payment_refunded' | 'invoice_created' | 'invoice_paid' | 'trial_started' | 'trial_converted' | 'trial_expired';
+export type PaymentProcessingStatus = 'pending' | 'applied' | 'stale' | 'failed';
+export type BillingReconciliationRun = typeof billingReconciliationRuns.$inferSelect;
+export type BillingDriftItem = typeof billingDriftItems.$inferSelect;
+export type NewBillingDriftItem = typeof billingDriftItems.$inferInsert;
+export type DriftResolution = 'applied' | 'pending_review' | 'resolved' | 'dismissed' | 'superseded';
+export type PlanChange = typeof planChanges.$inferSelect;
+export type NewPlanChange = typeof planChanges.$inferInsert;
+export type PlanChangeStatus = 'scheduled' | 'applied' | 'canceled' | 'failed';
+export type ContentRelease = typeof contentReleases.$inferSelect;
+export type NewContentRelease = typeof contentReleases.$inferInsert;
+export type ContentReleaseStatus = 'rolling_out' | 'complete' | 'rolled_back' | 'superseded';
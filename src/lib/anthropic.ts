@@ -1,9 +1,14 @@
 // Lazy Anthropic client that only initializes at runtime
 // This prevents build-time errors when ANTHROPIC_API_KEY is not available
 
+import { ModelRequest, createRecorder, createReplayer, getReplayMode, loadCassette } from './model-replay';
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let anthropicClient: any = null;
 
+// Record/replay sender, created once per cassette (see lib/model-replay)
+let replaySender: { key: string; send: (request: ModelRequest) => Promise<unknown> } | null = null;
+
 export async function getAnthropicClient() {
   if (!anthropicClient) {
     if (!process.env.ANTHROPIC_API_KEY) {
@@ -16,12 +21,36 @@ export async function getAnthropicClient() {
   return anthropicClient;
 }
 
-export async function createMessage(params: {
-  model: string;
-  max_tokens: number;
-  system: string;
-  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
-}) {
+async function sendLive(params: ModelRequest) {
   const client = await getAnthropicClient();
   return client.messages.create(params);
 }
+
+function getReplaySender() {
+  const mode = getReplayMode();
+  if (mode === 'off') return null;
+
+  const cassettePath = process.env.ANTHROPIC_CASSETTE;
+  if (!cassettePath) {
+    throw new Error(`ANTHROPIC_CASSETTE is required when ANTHROPIC_REPLAY=${mode}`);
+  }
+
+  const key = `${mode}:${cassettePath}`;
+  if (replaySender?.key !== key) {
+    replaySender = {
+      key,
+      send: mode === 'record'
+        ? createRecorder(cassettePath, sendLive)
+        : createReplayer(loadCassette(cassettePath), cassettePath),
+    };
+  }
+  return replaySender.send;
+}
+
+export async function createMessage(params: ModelRequest) {
+  const replay = getReplaySender();
+  if (replay) {
+    return replay(params);
+  }
+  return sendLive(params);
+}
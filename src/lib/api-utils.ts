@@ -1,6 +1,6 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { ZodError } from 'zod';
-import { AppError, ValidationError, RateLimitError } from './errors';
+import { AppError, ValidationError, RateLimitError, PlanLimitError } from './errors';
 import {
   checkRateLimit,
   getRateLimitKey,
@@ -74,6 +74,20 @@ export function handleApiError(error: unknown, requestId?: string): NextResponse
     );
   }
 
+  // Handle plan limits - the client needs the numbers to offer an upgrade
+  if (error instanceof PlanLimitError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: error.code,
+        limit: error.limit,
+        used: error.used,
+        upgradeUrl: 'https://www.codebakers.ai/dashboard/billing',
+      },
+      { status: error.statusCode }
+    );
+  }
+
   // Handle known app errors
   if (error instanceof AppError) {
     return NextResponse.json(
@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
-import { db, profiles } from '@/db';
-import { eq } from 'drizzle-orm';
-import { AuthenticationError, AuthorizationError } from '@/lib/errors';
+import { db, profiles, teamMembers, engineeringSessions } from '@/db';
+import { and, eq } from 'drizzle-orm';
+import { AuthenticationError, AuthorizationError, NotFoundError } from '@/lib/errors';
 import { ApiKeyService } from '@/services/api-key-service';
 import { NextRequest } from 'next/server';
 
@@ -39,6 +39,37 @@ export async function requireAdmin() {
   return session;
 }
 
+/**
+ * Verify the user belongs to an engineering session's team
+ * @returns the session's team ID and the user's role in it
+ */
+export async function verifySessionAccess(
+  sessionId: string,
+  userId: string
+): Promise<{ teamId: string; role: string }> {
+  const [record] = await db
+    .select({ teamId: engineeringSessions.teamId })
+    .from(engineeringSessions)
+    .where(eq(engineeringSessions.id, sessionId))
+    .limit(1);
+
+  if (!record) {
+    throw new NotFoundError('Session');
+  }
+
+  const [membership] = await db
+    .select({ role: teamMembers.role })
+    .from(teamMembers)
+    .where(and(eq(teamMembers.teamId, record.teamId), eq(teamMembers.userId, userId)))
+    .limit(1);
+
+  if (!membership) {
+    throw new AuthorizationError('Access denied to this session');
+  }
+
+  return { teamId: record.teamId, role: membership.role || 'member' };
+}
+
 /**
  * VS Code extension token payload structure
  */
@@ -168,3 +199,23 @@ export async function requireAuthOrApiKey(req: NextRequest): Promise<{
     authMethod: 'session',
   };
 }
+
+/**
+ * Team of the caller for endpoints that also serve anonymous callers.
+ * Credentials are checked like requireAuthOrApiKey (invalid ones still throw);
+ * without any, a dashboard session is used if present, otherwise null.
+ */
+export async function getOptionalTeamId(req: NextRequest): Promise<string | null> {
+  const hasCredentials = req.headers.has('authorization') || req.nextUrl.searchParams.has('token');
+  if (hasCredentials) {
+    const { teamId } = await requireAuthOrApiKey(req);
+    return teamId;
+  }
+
+  const session = await getServerSession();
+  if (!session) return null;
+
+  const { TeamService } = await import('@/services/team-service');
+  const team = await TeamService.getByOwnerId(session.user.id);
+  return team?.id || null;
+}
@@ -0,0 +1,391 @@
+/**
+ * BILLING EVENTS
+ *
+ * One normalized model for subscription and payment webhooks from Stripe,
+ * Square and PayPal. Each provider adapter translates its payload into a
+ * BillingEvent; the subscription state machine decides what that event does to
+ * a team's subscription status regardless of which provider sent it.
+ *
+ * Everything here is pure - recording, ordering and applying events happens in
+ * BillingEventService.
+ */
+
+import type Stripe from 'stripe';
+import type { PaymentEventType } from '@/db/schema';
+import { subscriptionPlanSchema } from './validations';
+
+export type BillingProvider = 'stripe' | 'square' | 'paypal';
+export type BillingPlan = 'beta' | 'pro' | 'team' | 'agency' | 'enterprise';
+
+export type SubscriptionState = 'inactive' | 'pending' | 'trialing' | 'active' | 'past_due' | 'canceled';
+
+export interface BillingEvent {
+  provider: BillingProvider;
+  providerEventId: string;
+  idempotencyKey: string;
+  type: PaymentEventType;
+  occurredAt: Date; // Provider timestamp, used for ordering
+  teamId?: string; // When the provider echoes our team ID back (checkout metadata, custom_id)
+  customerId?: string;
+  subscriptionId?: string;
+  invoiceId?: string;
+  status?: SubscriptionState; // Status the provider reports, if the event carries one
+  plan?: BillingPlan;
+  providerPlanId?: string; // Provider's plan/price ID when the event doesn't name our plan
+  amount?: number; // In cents
+  currency?: string;
+  subscriberEmail?: string;
+}
+
+export function billingIdempotencyKey(provider: BillingProvider, providerEventId: string): string {
+  return `${provider}:${providerEventId}`;
+}
+
+// =============================================================================
+// STATE MACHINE
+// =============================================================================
+
+const PROVIDER_STATUSES: Record<string, SubscriptionState> = {
+  // Stripe
+  active: 'active',
+  trialing: 'trialing',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  paused: 'past_due',
+  incomplete: 'pending',
+  incomplete_expired: 'canceled',
+  canceled: 'canceled',
+  // Square
+  pending: 'pending',
+  deactivated: 'canceled',
+  // PayPal
+  approval_pending: 'pending',
+  approved: 'pending',
+  suspended: 'past_due',
+  cancelled: 'canceled',
+  expired: 'canceled',
+  // Ours
+  inactive: 'inactive',
+};
+
+/**
+ * Map a provider's subscription status (any casing) to our state.
+ * Unknown statuses return null rather than guessing.
+ */
+export function normalizeSubscriptionStatus(status: string | null | undefined): SubscriptionState | null {
+  if (!status) return null;
+  return PROVIDER_STATUSES[status.toLowerCase()] ?? null;
+}
+
+export interface SubscriptionTransition {
+  from: SubscriptionState;
+  to: SubscriptionState;
+  changed: boolean;
+}
+
+/**
+ * The state an event moves a subscription to.
+ *
+ * - A canceled subscription only comes back through a new activation; late
+ *   payment or update events for it are ignored.
+ * - Payment failures only demote subscriptions that were in good standing.
+ * - A successful payment settles a pending or past-due subscription.
+ * - Refunds and invoice creation don't change the subscription.
+ */
+export function transitionSubscription(
+  current: SubscriptionState,
+  event: Pick<BillingEvent, 'type' | 'status'>
+): SubscriptionTransition {
+  const to = (next: SubscriptionState): SubscriptionTransition => ({ from: current, to: next, changed: next !== current });
+
+  switch (event.type) {
+    case 'subscription_activated':
+    case 'trial_converted':
+      return to('active');
+
+    case 'subscription_created':
+      if (current === 'active' || current === 'past_due') return to(current);
+      return to(event.status ?? 'pending');
+
+    case 'trial_started':
+      return to(current === 'active' ? current : 'trialing');
+
+    case 'subscription_updated':
+      if (current === 'canceled' || !event.status) return to(current);
+      return to(event.status);
+
+    case 'subscription_cancelled':
+    case 'subscription_expired':
+    case 'trial_expired':
+      return to('canceled');
+
+    case 'subscription_suspended':
+      return to(current === 'canceled' ? current : 'past_due');
+
+    case 'payment_failed':
+      return to(current === 'active' || current === 'trialing' ? 'past_due' : current);
+
+    case 'payment_completed':
+    case 'invoice_paid':
+      return to(current === 'past_due' || current === 'pending' ? 'active' : current);
+
+    default:
+      return to(current);
+  }
+}
+
+/**
+ * Whether an event is older than one already applied to the same team.
+ * Events with the same timestamp are applied in arrival order.
+ */
+export function isStaleEvent(occurredAt: Date, lastAppliedAt: Date | null): boolean {
+  return lastAppliedAt !== null && occurredAt.getTime() < lastAppliedAt.getTime();
+}
+
+// Events that start a subscription, and so may replace the team's current one
+export const STARTS_SUBSCRIPTION = new Set<PaymentEventType>(['subscription_created', 'subscription_activated', 'trial_converted']);
+
+export interface TeamSubscriptionRefs {
+  paymentProvider: BillingProvider | null;
+  stripeSubscriptionId: string | null;
+  squareSubscriptionId: string | null;
+  paypalSubscriptionId: string | null;
+}
+
+export function currentSubscriptionId(team: TeamSubscriptionRefs, provider: BillingProvider): string | null {
+  if (provider === 'stripe') return team.stripeSubscriptionId;
+  if (provider === 'square') return team.squareSubscriptionId;
+  return team.paypalSubscriptionId;
+}
+
+/**
+ * Whether an event is for a subscription the team has since replaced - an
+ * older one after a resubscribe, or any from a provider the team moved away
+ * from. Those must not touch the current subscription.
+ */
+export function isForReplacedSubscription(
+  team: TeamSubscriptionRefs,
+  event: Pick<BillingEvent, 'type' | 'provider' | 'subscriptionId'>
+): boolean {
+  if (STARTS_SUBSCRIPTION.has(event.type)) return false;
+  if (team.paymentProvider && team.paymentProvider !== event.provider) return true;
+  if (!event.subscriptionId) return false;
+
+  const current = currentSubscriptionId(team, event.provider);
+  return !!current && current !== event.subscriptionId;
+}
+
+// A pending event this old was abandoned mid-processing (crash, timeout)
+export const PENDING_REDRIVE_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a redelivered event should be processed again: failed events always,
+ * pending events once whoever was processing them has clearly given up
+ */
+export function shouldRedrive(
+  processingStatus: string | null,
+  recordedAt: Date | null,
+  now: Date = new Date()
+): boolean {
+  if (processingStatus === 'failed') return true;
+  if (processingStatus !== 'pending') return false;
+  return !recordedAt || now.getTime() - recordedAt.getTime() >= PENDING_REDRIVE_AFTER_MS;
+}
+
+// =============================================================================
+// ADAPTERS
+// =============================================================================
+
+function parsePlan(value: unknown): BillingPlan | undefined {
+  const result = subscriptionPlanSchema.safeParse(value);
+  return result.success ? result.data : undefined;
+}
+
+function stripeId(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * Translate a verified Stripe event. Returns null for event types we don't handle.
+ */
+export function fromStripeEvent(event: Stripe.Event): BillingEvent | null {
+  const base = {
+    provider: 'stripe' as const,
+    providerEventId: event.id,
+    idempotencyKey: billingIdempotencyKey('stripe', event.id),
+    occurredAt: new Date(event.created * 1000),
+  };
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object;
+      return {
+        ...base,
+        type: 'subscription_activated',
+        teamId: session.metadata?.teamId,
+        plan: parsePlan(session.metadata?.plan),
+        customerId: stripeId(session.customer),
+        subscriptionId: stripeId(session.subscription),
+        amount: session.amount_total ?? undefined,
+        currency: session.currency?.toUpperCase(),
+        subscriberEmail: session.customer_details?.email ?? undefined,
+      };
+    }
+
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object;
+      return {
+        ...base,
+        type: event.type === 'customer.subscription.deleted' ? 'subscription_cancelled' : 'subscription_updated',
+        customerId: stripeId(subscription.customer),
+        subscriptionId: subscription.id,
+        status: normalizeSubscriptionStatus(subscription.status) ?? undefined,
+        plan: parsePlan(subscription.metadata?.plan),
+      };
+    }
+
+    case 'invoice.paid':
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object;
+      const failed = event.type === 'invoice.payment_failed';
+      return {
+        ...base,
+        type: failed ? 'payment_failed' : 'invoice_paid',
+        customerId: stripeId(invoice.customer),
+        invoiceId: invoice.id,
+        amount: failed ? invoice.amount_due : invoice.amount_paid,
+        currency: invoice.currency?.toUpperCase(),
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+export interface SquareSubscription {
+  id: string;
+  customer_id: string;
+  plan_variation_id?: string;
+  status: string;
+  canceled_date?: string;
+}
+
+export interface SquareWebhookEvent {
+  merchant_id: string;
+  type: string;
+  event_id: string;
+  created_at: string;
+  data: {
+    type: string;
+    id: string;
+    object: {
+      subscription?: SquareSubscription;
+    };
+  };
+}
+
+const SQUARE_EVENT_TYPES: Record<string, PaymentEventType> = {
+  'subscription.created': 'subscription_created',
+  'subscription.updated': 'subscription_updated',
+  'subscription.canceled': 'subscription_cancelled',
+  'invoice.payment_made': 'invoice_paid',
+  'invoice.payment_failed': 'payment_failed',
+};
+
+/**
+ * Translate a verified Square event. Returns null for event types we don't handle.
+ */
+export function fromSquareEvent(event: SquareWebhookEvent): BillingEvent | null {
+  const type = SQUARE_EVENT_TYPES[event.type];
+  if (!type) return null;
+
+  const subscription = event.data?.object?.subscription;
+  return {
+    provider: 'square',
+    providerEventId: event.event_id,
+    idempotencyKey: billingIdempotencyKey('square', event.event_id),
+    type,
+    occurredAt: new Date(event.created_at),
+    customerId: subscription?.customer_id,
+    subscriptionId: subscription?.id,
+    status: normalizeSubscriptionStatus(subscription?.status) ?? undefined,
+    providerPlanId: subscription?.plan_variation_id,
+  };
+}
+
+export interface PayPalResource {
+  id: string;
+  status?: string;
+  custom_id?: string; // Our teamId
+  plan_id?: string;
+  billing_agreement_id?: string; // Subscription a sale belongs to
+  amount?: { total?: string; currency?: string };
+  subscriber?: {
+    email_address?: string;
+  };
+}
+
+export interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource_type: string;
+  resource: PayPalResource;
+  summary: string;
+  create_time: string;
+}
+
+const PAYPAL_EVENT_TYPES: Record<string, PaymentEventType> = {
+  'BILLING.SUBSCRIPTION.CREATED': 'subscription_created',
+  'BILLING.SUBSCRIPTION.ACTIVATED': 'subscription_activated',
+  'BILLING.SUBSCRIPTION.UPDATED': 'subscription_updated',
+  'BILLING.SUBSCRIPTION.CANCELLED': 'subscription_cancelled',
+  'BILLING.SUBSCRIPTION.EXPIRED': 'subscription_expired',
+  'BILLING.SUBSCRIPTION.SUSPENDED': 'subscription_suspended',
+  'PAYMENT.SALE.COMPLETED': 'payment_completed',
+  'PAYMENT.SALE.DENIED': 'payment_failed',
+  'PAYMENT.SALE.REFUNDED': 'payment_refunded',
+};
+
+/**
+ * Translate a PayPal event. Returns null for event types we don't handle.
+ */
+export function fromPayPalEvent(event: PayPalWebhookEvent): BillingEvent | null {
+  const type = PAYPAL_EVENT_TYPES[event.event_type];
+  if (!type) return null;
+
+  const resource = event.resource || { id: '' };
+  const isSale = event.event_type.startsWith('PAYMENT.SALE.');
+  const total = resource.amount?.total ? Math.round(parseFloat(resource.amount.total) * 100) : undefined;
+
+  return {
+    provider: 'paypal',
+    providerEventId: event.id,
+    idempotencyKey: billingIdempotencyKey('paypal', event.id),
+    type,
+    occurredAt: new Date(event.create_time),
+    teamId: resource.custom_id,
+    subscriptionId: isSale ? resource.billing_agreement_id : resource.id,
+    status: isSale ? undefined : normalizeSubscriptionStatus(resource.status) ?? undefined,
+    providerPlanId: resource.plan_id,
+    amount: Number.isFinite(total) ? total : undefined,
+    currency: resource.amount?.currency,
+    subscriberEmail: resource.subscriber?.email_address,
+  };
+}
+
+/**
+ * Re-translate a stored raw payload (used when replaying an event)
+ */
+export function fromProviderPayload(provider: BillingProvider, payload: unknown): BillingEvent | null {
+  switch (provider) {
+    case 'stripe':
+      return fromStripeEvent(payload as Stripe.Event);
+    case 'square':
+      return fromSquareEvent(payload as SquareWebhookEvent);
+    case 'paypal':
+      return fromPayPalEvent(payload as PayPalWebhookEvent);
+  }
+}
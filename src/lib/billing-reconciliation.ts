@@ -0,0 +1,228 @@
+/**
+ * BILLING RECONCILIATION
+ *
+ * Compares what Stripe, Square and PayPal say about subscriptions with what the
+ * teams table says, and classifies every difference. A difference is "safe" to
+ * correct automatically only when the provider subscription is the one the
+ * team already references (or the team references none) and nothing else about
+ * the team's billing is in doubt; everything else goes to an admin for review.
+ *
+ * Provider access goes through BillingProviderClient so the comparison can run
+ * against in-memory fakes.
+ */
+
+import type { Team } from '@/db/schema';
+import { BillingPlan, BillingProvider, SubscriptionState, normalizeSubscriptionStatus } from './billing-events';
+
+export interface ProviderSubscription {
+  provider: BillingProvider;
+  subscriptionId: string;
+  customerId: string | null;
+  teamId: string | null; // When the provider stores our team ID (PayPal custom_id, Stripe metadata)
+  status: SubscriptionState | null; // null when the provider status is unknown to us
+  providerStatus: string;
+  providerPlanId: string | null;
+}
+
+export interface BillingProviderClient {
+  provider: BillingProvider;
+  /** Page through every subscription. Providers without a list API leave this out. */
+  listSubscriptions?: (cursor: string | null) => Promise<{ subscriptions: ProviderSubscription[]; nextCursor: string | null }>;
+  /** Look up one subscription; null if the provider has no record of it */
+  getSubscription: (subscriptionId: string) => Promise<ProviderSubscription | null>;
+}
+
+export type TeamBillingRecord = Pick<Team,
+  | 'id'
+  | 'name'
+  | 'paymentProvider'
+  | 'subscriptionStatus'
+  | 'subscriptionPlan'
+  | 'stripeCustomerId'
+  | 'stripeSubscriptionId'
+  | 'squareCustomerId'
+  | 'squareSubscriptionId'
+  | 'paypalSubscriptionId'
+>;
+
+export type DriftKind =
+  | 'status_mismatch' // Team status differs from the provider's
+  | 'unlinked_subscription' // A live provider subscription for the team that the team doesn't reference
+  | 'duplicate_subscription' // A second live subscription for a team that already has one
+  | 'unknown_subscription' // A live provider subscription that matches no team
+  | 'missing_subscription' // The team references a subscription the provider has no record of
+  | 'plan_mismatch'; // Team plan differs from the plan the provider bills
+
+export interface DriftCorrection {
+  subscriptionStatus?: SubscriptionState;
+  subscriptionId?: string;
+}
+
+export interface DriftItem {
+  kind: DriftKind;
+  provider: BillingProvider;
+  subscriptionId: string;
+  teamId: string | null;
+  teamStatus: string | null;
+  providerStatus: string | null;
+  teamPlan: string | null;
+  providerPlan: BillingPlan | null;
+  safe: boolean;
+  reason: string;
+  correction: DriftCorrection | null;
+}
+
+export interface DriftInput {
+  teams: TeamBillingRecord[];
+  subscriptions: ProviderSubscription[];
+  missing: Array<{ provider: BillingProvider; subscriptionId: string; teamId: string }>;
+  teamsWithFailedEvents: Set<string>;
+  planForProviderPlanId: (providerPlanId: string) => BillingPlan | undefined;
+}
+
+const LIVE_STATES = new Set<SubscriptionState>(['active', 'trialing', 'past_due', 'pending']);
+
+function teamState(team: TeamBillingRecord): SubscriptionState {
+  return normalizeSubscriptionStatus(team.subscriptionStatus) ?? 'inactive';
+}
+
+export function isLiveSubscription(status: SubscriptionState | null): boolean {
+  return status !== null && LIVE_STATES.has(status);
+}
+
+export function teamSubscriptionId(team: TeamBillingRecord, provider: BillingProvider): string | null {
+  if (provider === 'stripe') return team.stripeSubscriptionId;
+  if (provider === 'square') return team.squareSubscriptionId;
+  return team.paypalSubscriptionId;
+}
+
+function teamCustomerId(team: TeamBillingRecord, provider: BillingProvider): string | null {
+  if (provider === 'stripe') return team.stripeCustomerId;
+  if (provider === 'square') return team.squareCustomerId;
+  return null;
+}
+
+/**
+ * Every difference between provider subscriptions and the teams table
+ */
+export function findBillingDrift(input: DriftInput): DriftItem[] {
+  const bySubscription = new Map<string, TeamBillingRecord>();
+  const byCustomer = new Map<string, TeamBillingRecord>();
+  const byId = new Map<string, TeamBillingRecord>();
+
+  for (const team of input.teams) {
+    byId.set(team.id, team);
+    for (const provider of ['stripe', 'square', 'paypal'] as const) {
+      const subscriptionId = teamSubscriptionId(team, provider);
+      const customerId = teamCustomerId(team, provider);
+      if (subscriptionId) bySubscription.set(`${provider}:${subscriptionId}`, team);
+      if (customerId) byCustomer.set(`${provider}:${customerId}`, team);
+    }
+  }
+
+  const items: DriftItem[] = [];
+
+  for (const subscription of input.subscriptions) {
+    const { provider, subscriptionId, status } = subscription;
+    const providerPlan = subscription.providerPlanId
+      ? input.planForProviderPlanId(subscription.providerPlanId) ?? null
+      : null;
+    const item = (team: TeamBillingRecord | null, kind: DriftKind, safe: boolean, reason: string, correction: DriftCorrection | null): DriftItem => ({
+      kind,
+      provider,
+      subscriptionId,
+      teamId: team?.id ?? null,
+      teamStatus: team?.subscriptionStatus ?? null,
+      providerStatus: status,
+      teamPlan: team?.subscriptionPlan ?? null,
+      providerPlan,
+      safe,
+      reason,
+      correction,
+    });
+
+    const linked = bySubscription.get(`${provider}:${subscriptionId}`);
+    const owner = linked
+      ?? (subscription.customerId ? byCustomer.get(`${provider}:${subscription.customerId}`) : undefined)
+      ?? (subscription.teamId ? byId.get(subscription.teamId) : undefined)
+      ?? null;
+
+    if (!owner) {
+      if (isLiveSubscription(status)) {
+        items.push(item(null, 'unknown_subscription', false, `Live ${provider} subscription matches no team`, null));
+      }
+      continue;
+    }
+
+    const hasFailedEvents = input.teamsWithFailedEvents.has(owner.id);
+    const blocked = hasFailedEvents ? 'Team has failed billing events - replay them first' : null;
+
+    if (!linked) {
+      // Old, ended subscriptions of a customer are expected
+      if (!isLiveSubscription(status)) continue;
+
+      if (teamSubscriptionId(owner, provider)) {
+        items.push(item(owner, 'duplicate_subscription', false, `Team already references ${provider} subscription ${teamSubscriptionId(owner, provider)}`, null));
+      } else if (owner.paymentProvider && owner.paymentProvider !== provider && isLiveSubscription(teamState(owner))) {
+        items.push(item(owner, 'duplicate_subscription', false, `Team already has a live ${owner.paymentProvider} subscription`, null));
+      } else {
+        items.push(item(owner, 'unlinked_subscription', !blocked, blocked ?? 'Team references no subscription with this provider', {
+          subscriptionId,
+          subscriptionStatus: status!,
+        }));
+      }
+      continue;
+    }
+
+    if (status && teamState(owner) !== status) {
+      const otherProvider = owner.paymentProvider && owner.paymentProvider !== provider;
+      const reason = blocked ?? (otherProvider ? `Team is billed through ${owner.paymentProvider}` : `Provider reports ${subscription.providerStatus}`);
+      items.push(item(owner, 'status_mismatch', !blocked && !otherProvider, reason, { subscriptionStatus: status }));
+    }
+
+    if (providerPlan && owner.subscriptionPlan && providerPlan !== owner.subscriptionPlan && isLiveSubscription(status)) {
+      items.push(item(owner, 'plan_mismatch', false, 'Plan changes affect seats and proration', null));
+    }
+  }
+
+  for (const { provider, subscriptionId, teamId } of input.missing) {
+    const team = byId.get(teamId) ?? null;
+    items.push({
+      kind: 'missing_subscription',
+      provider,
+      subscriptionId,
+      teamId,
+      teamStatus: team?.subscriptionStatus ?? null,
+      providerStatus: null,
+      teamPlan: team?.subscriptionPlan ?? null,
+      providerPlan: null,
+      safe: false,
+      reason: `${provider} has no record of this subscription`,
+      correction: null,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * A provider client backed by a fixed list, for tests and offline runs
+ */
+export function createInMemoryBillingClient(
+  provider: BillingProvider,
+  subscriptions: Array<Omit<ProviderSubscription, 'provider'>>,
+  options: { pageSize?: number; listable?: boolean } = {}
+): BillingProviderClient {
+  const records = subscriptions.map((subscription) => ({ ...subscription, provider }));
+  const pageSize = options.pageSize ?? 100;
+
+  return {
+    provider,
+    listSubscriptions: options.listable === false ? undefined : async (cursor) => {
+      const start = cursor ? Number(cursor) : 0;
+      const end = start + pageSize;
+      return { subscriptions: records.slice(start, end), nextCursor: end < records.length ? String(end) : null };
+    },
+    getSubscription: async (subscriptionId) => records.find((record) => record.subscriptionId === subscriptionId) ?? null,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * CLI ROLLOUTS
+ *
+ * Which CLI version a client is told to run. Stable versions with auto-update
+ * enabled roll out to a percentage of clients; a client's cohort is fixed by
+ * its team (or its device when it has no team), so every machine of a team
+ * moves together. Rollouts halt when the new version's error rate spikes.
+ *
+ * Everything here is pure - installs and error reports are counted by
+ * CliVersionService.
+ */
+
+import { createHash } from 'crypto';
+
+export interface CliClient {
+  teamId?: string | null;
+  deviceHash?: string | null;
+  nodeVersion?: string | null;
+}
+
+export interface RolloutCandidate {
+  version: string;
+  status: string | null;
+  isAutoUpdateEnabled: boolean | null;
+  rolloutPercent: number | null;
+  minNodeVersion: string | null;
+  haltedAt: Date | null;
+}
+
+/**
+ * Compare two semantic versions ("3.3.4" vs "3.10.0")
+ * @returns negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.replace(/^v/, '').split('.').map((p) => parseInt(p, 10) || 0);
+  const partsB = b.replace(/^v/, '').split('.').map((p) => parseInt(p, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Whether a Node.js version meets a minimum ("18", "18.17", "v20.11.1")
+ * Unknown versions are given the benefit of the doubt.
+ */
+export function meetsNodeVersion(nodeVersion: string | null | undefined, minNodeVersion: string | null | undefined): boolean {
+  if (!nodeVersion || !minNodeVersion) return true;
+  return compareVersions(nodeVersion, minNodeVersion) >= 0;
+}
+
+/**
+ * The key a client's cohort is derived from: its team, or its device
+ */
+export function getCohortKey(client: CliClient): string | null {
+  if (client.teamId) return `team:${client.teamId}`;
+  if (client.deviceHash) return `device:${client.deviceHash}`;
+  return null;
+}
+
+/**
+ * The key a client's install is tracked by: its device, or its team
+ */
+export function getInstallKey(client: CliClient): string | null {
+  if (client.deviceHash) return `device:${client.deviceHash}`;
+  if (client.teamId) return `team:${client.teamId}`;
+  return null;
+}
+
+/**
+ * A client's stable position (0-99) in a version's rollout. Raising the
+ * percentage only ever adds clients.
+ */
+export function cohortBucket(version: string, cohortKey: string): number {
+  return createHash('sha256').update(`${version}:${cohortKey}`).digest().readUInt32BE(0) % 100;
+}
+
+/**
+ * Whether a client is in a version's rollout. Anonymous clients only get a
+ * version once it reaches everyone.
+ */
+export function isInCliRollout(version: Pick<RolloutCandidate, 'version' | 'rolloutPercent'>, cohortKey: string | null): boolean {
+  const percent = version.rolloutPercent ?? 0;
+  if (percent >= 100) return true;
+  if (!cohortKey || percent <= 0) return false;
+  return cohortBucket(version.version, cohortKey) < percent;
+}
+
+/**
+ * The newest version a client should run: a stable, auto-update enabled,
+ * un-halted version whose rollout includes it and whose Node.js requirement it
+ * meets
+ */
+export function resolveCliVersion<T extends RolloutCandidate>(versions: T[], client: CliClient): T | null {
+  const cohortKey = getCohortKey(client);
+
+  const candidates = versions
+    .filter((v) => v.status === 'stable' && v.isAutoUpdateEnabled && !v.haltedAt)
+    .sort((a, b) => compareVersions(b.version, a.version));
+
+  return candidates.find((v) => isInCliRollout(v, cohortKey) && meetsNodeVersion(client.nodeVersion, v.minNodeVersion)) ?? null;
+}
+
+/**
+ * Feature flags of a version. Stored as a JSON array, though older rows hold
+ * a bulleted list.
+ */
+export function parseFeatureFlags(features: string | null | undefined): string[] {
+  if (!features?.trim()) return [];
+
+  try {
+    const parsed = JSON.parse(features);
+    if (Array.isArray(parsed)) return parsed.filter((f): f is string => typeof f === 'string');
+  } catch {
+    // Not JSON - fall through to a list
+  }
+
+  return features
+    .split(/[\n,]/)
+    .map((f) => f.replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean);
+}
+
+export interface CohortStats {
+  installs: number; // Installs that checked in on the version during the window
+  erroringInstalls: number; // Installs that reported an error on it
+}
+
+export const HALT_THRESHOLDS = {
+  minInstalls: 10, // Too few clients on a version to judge it
+  minErroringInstalls: 3,
+  maxErrorRate: 0.05, // Halt above 5% of clients reporting errors...
+  baselineMultiplier: 2, // ...when that is also at least double the current version's rate
+  watchHours: 72, // How long after going stable a version is watched
+};
+
+export function errorRate(stats: CohortStats): number {
+  return stats.installs > 0 ? stats.erroringInstalls / stats.installs : 0;
+}
+
+/**
+ * Whether a version's error rate passed the halt threshold
+ * @param baseline - Stats of the version clients outside the rollout run
+ * @returns the reason to halt, or null
+ */
+export function getHaltReason(
+  stats: CohortStats,
+  baseline: CohortStats | null,
+  thresholds: Omit<typeof HALT_THRESHOLDS, 'watchHours'> = HALT_THRESHOLDS
+): string | null {
+  if (stats.installs < thresholds.minInstalls || stats.erroringInstalls < thresholds.minErroringInstalls) return null;
+
+  const rate = errorRate(stats);
+  const baselineRate = baseline ? errorRate(baseline) : 0;
+  if (rate <= thresholds.maxErrorRate || rate < baselineRate * thresholds.baselineMultiplier) return null;
+
+  const percent = (r: number) => `${(r * 100).toFixed(1)}%`;
+  return `${percent(rate)} of clients reported errors (${stats.erroringInstalls} of ${stats.installs})` +
+    (baseline ? `, against ${percent(baselineRate)} on the previous version` : '');
+}
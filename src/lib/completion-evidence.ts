@@ -0,0 +1,550 @@
+/**
+ * COMPLETION EVIDENCE
+ *
+ * Parsers for the machine-readable output of a test run, coverage tool and
+ * TypeScript check, plus the cross-checks the completion gate (validate_complete)
+ * runs on them. The gate trusts these reports rather than what the client
+ * says about itself, so every report is also checked for internal consistency
+ * and against the files the client claims to have changed.
+ */
+
+export interface CompletionEvidence {
+  junit?: string | string[]; // JUnit XML report(s)
+  playwright?: string | PlaywrightReport; // `playwright test --reporter=json` output
+  coverageSummary?: string | IstanbulCoverageSummary; // istanbul coverage/coverage-summary.json
+  lcov?: string; // coverage/lcov.info
+  typescript?: { output: string; exitCode: number }; // `tsc --noEmit` stdout/stderr and exit code
+}
+
+export interface EvidenceIssue {
+  type: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface TestEvidence {
+  sources: Array<'junit' | 'playwright'>;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  files: string[]; // Test files that appear in the report
+  failures: Array<{ name: string; file?: string; message?: string }>;
+}
+
+export interface CoverageEvidence {
+  source: 'istanbul' | 'lcov';
+  linesTotal: number;
+  linesCovered: number;
+  percent: number;
+  files: Array<{ file: string; linesTotal: number; linesCovered: number; percent: number }>;
+}
+
+export interface TypeScriptEvidence {
+  passed: boolean;
+  exitCode: number;
+  errorCount: number;
+  errors: Array<{ file: string | null; line: number | null; code: string; message: string }>;
+}
+
+export interface EvidenceReport {
+  tests: TestEvidence | null;
+  coverage: CoverageEvidence | null;
+  typescript: TypeScriptEvidence | null;
+  uncoveredFiles: string[]; // Modified source files missing from the coverage report
+  issues: EvidenceIssue[];
+}
+
+// Subsets of the report formats we read
+export interface PlaywrightReport {
+  suites?: PlaywrightSuite[];
+  stats?: { expected?: number; unexpected?: number; flaky?: number; skipped?: number };
+}
+
+interface PlaywrightSuite {
+  title?: string;
+  file?: string;
+  specs?: Array<{
+    title: string;
+    file?: string;
+    tests?: Array<{
+      status?: 'expected' | 'unexpected' | 'flaky' | 'skipped';
+      results?: Array<{ error?: { message?: string } }>;
+    }>;
+  }>;
+  suites?: PlaywrightSuite[];
+}
+
+interface CoverageCounts {
+  total: number;
+  covered: number;
+  pct?: number | string;
+}
+
+export type IstanbulCoverageSummary = Record<string, { lines: CoverageCounts }>;
+
+class EvidenceParseError extends Error {}
+
+// =============================================================================
+// PATHS
+// =============================================================================
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Reports use absolute or config-relative paths; treat two paths as the same
+ * file when one is a path suffix of the other
+ */
+export function isSameFile(a: string, b: string): boolean {
+  const left = normalizePath(a);
+  const right = normalizePath(b);
+  return left === right || left.endsWith(`/${right}`) || right.endsWith(`/${left}`);
+}
+
+const SOURCE_FILE = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const TEST_FILE = /(\.(test|spec)\.|\/__tests__\/|(^|\/)e2e\/)/;
+
+function isSourceFile(path: string): boolean {
+  return SOURCE_FILE.test(path) && !TEST_FILE.test(path) && !path.endsWith('.d.ts');
+}
+
+// =============================================================================
+// JUNIT
+// =============================================================================
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = value.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]);
+  }
+  return attributes;
+}
+
+function looksLikePath(value: string | undefined): value is string {
+  return !!value && /[/\\]/.test(value) && SOURCE_FILE.test(value);
+}
+
+/**
+ * Parse a JUnit XML report (Vitest, Jest via jest-junit, Playwright, pytest...)
+ */
+export function parseJUnit(xml: string): TestEvidence {
+  if (!/<testsuites?\b/.test(xml)) {
+    throw new EvidenceParseError('JUnit report has no <testsuite> element');
+  }
+
+  const evidence: TestEvidence = { sources: ['junit'], total: 0, passed: 0, failed: 0, skipped: 0, files: [], failures: [] };
+  const files = new Set<string>();
+  const suites: Array<Record<string, string>> = [];
+  const tag = /<(testsuite|testcase)\b([^>]*?)(\/?)>|<\/testsuite>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(xml)) !== null) {
+    const [whole, element, attributeSource, selfClosing] = match;
+    if (whole === '</testsuite>') {
+      suites.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeSource);
+    if (element === 'testsuite') {
+      if (!selfClosing) suites.push(attributes);
+      continue;
+    }
+
+    let body = '';
+    if (!selfClosing) {
+      const end = xml.indexOf('</testcase>', tag.lastIndex);
+      body = xml.slice(tag.lastIndex, end === -1 ? undefined : end);
+      if (end !== -1) tag.lastIndex = end + '</testcase>'.length;
+    }
+
+    const suite = suites[suites.length - 1] || {};
+    const file = [attributes.file, suite.file, attributes.classname, suite.name].find(looksLikePath);
+    if (file) files.add(normalizePath(file));
+
+    evidence.total++;
+    if (/<(failure|error)\b/.test(body)) {
+      evidence.failed++;
+      const failure = body.match(/<(?:failure|error)\b([^>]*)>/);
+      evidence.failures.push({
+        name: attributes.name || 'unnamed test',
+        file,
+        message: failure ? parseAttributes(failure[1]).message : undefined,
+      });
+    } else if (/<skipped\b/.test(body)) {
+      evidence.skipped++;
+    } else {
+      evidence.passed++;
+    }
+  }
+
+  evidence.files = [...files];
+  return evidence;
+}
+
+// =============================================================================
+// PLAYWRIGHT
+// =============================================================================
+
+/**
+ * Parse a Playwright JSON report and check its stats block against the tests it lists
+ */
+export function parsePlaywrightReport(input: string | PlaywrightReport): { tests: TestEvidence; issues: EvidenceIssue[] } {
+  let report: PlaywrightReport;
+  try {
+    report = typeof input === 'string' ? JSON.parse(input) as PlaywrightReport : input;
+  } catch {
+    throw new EvidenceParseError('Playwright report is not valid JSON');
+  }
+  if (!Array.isArray(report.suites)) {
+    throw new EvidenceParseError('Playwright report has no suites');
+  }
+
+  const tests: TestEvidence = { sources: ['playwright'], total: 0, passed: 0, failed: 0, skipped: 0, files: [], failures: [] };
+  const files = new Set<string>();
+  let flaky = 0;
+
+  const visit = (suite: PlaywrightSuite, file?: string) => {
+    const suiteFile = suite.file || file;
+    for (const spec of suite.specs || []) {
+      const specFile = spec.file || suiteFile;
+      if (specFile) files.add(normalizePath(specFile));
+
+      for (const test of spec.tests || []) {
+        tests.total++;
+        if (test.status === 'skipped') {
+          tests.skipped++;
+        } else if (test.status === 'unexpected') {
+          tests.failed++;
+          const error = test.results?.find((result) => result.error)?.error;
+          tests.failures.push({ name: spec.title, file: specFile, message: error?.message });
+        } else {
+          if (test.status === 'flaky') flaky++;
+          tests.passed++;
+        }
+      }
+    }
+    for (const child of suite.suites || []) visit(child, suiteFile);
+  };
+  report.suites.forEach((suite) => visit(suite));
+  tests.files = [...files];
+
+  const issues: EvidenceIssue[] = [];
+  const stats = report.stats;
+  if (stats) {
+    const expected = (stats.expected || 0) + (stats.flaky || 0);
+    if (expected !== tests.passed || (stats.unexpected || 0) !== tests.failed || (stats.skipped || 0) !== tests.skipped) {
+      issues.push({
+        type: 'TEST_REPORT_INCONSISTENT',
+        message: `Playwright stats (${expected} passed, ${stats.unexpected || 0} failed, ${stats.skipped || 0} skipped) ` +
+          `do not match the tests in the report (${tests.passed} passed, ${tests.failed} failed, ${tests.skipped} skipped).`,
+        severity: 'error',
+      });
+    }
+  }
+  if (flaky > 0) {
+    issues.push({ type: 'FLAKY_TESTS', message: `${flaky} test(s) only passed on retry.`, severity: 'warning' });
+  }
+
+  return { tests, issues };
+}
+
+function mergeTestEvidence(reports: TestEvidence[]): TestEvidence | null {
+  if (reports.length === 0) return null;
+  return reports.reduce((merged, report) => ({
+    sources: [...new Set([...merged.sources, ...report.sources])],
+    total: merged.total + report.total,
+    passed: merged.passed + report.passed,
+    failed: merged.failed + report.failed,
+    skipped: merged.skipped + report.skipped,
+    files: [...new Set([...merged.files, ...report.files])],
+    failures: [...merged.failures, ...report.failures],
+  }));
+}
+
+// =============================================================================
+// COVERAGE
+// =============================================================================
+
+function percentOf(covered: number, total: number): number {
+  return total === 0 ? 100 : Math.round((covered / total) * 1000) / 10;
+}
+
+/**
+ * Parse an istanbul coverage-summary.json and check its total against its files
+ */
+export function parseCoverageSummary(input: string | IstanbulCoverageSummary): { coverage: CoverageEvidence; issues: EvidenceIssue[] } {
+  let summary: IstanbulCoverageSummary;
+  try {
+    summary = typeof input === 'string' ? JSON.parse(input) as IstanbulCoverageSummary : input;
+  } catch {
+    throw new EvidenceParseError('Coverage summary is not valid JSON');
+  }
+  if (!summary.total?.lines) {
+    throw new EvidenceParseError('Coverage summary has no total.lines');
+  }
+
+  const files = Object.entries(summary)
+    .filter(([file, entry]) => file !== 'total' && entry?.lines)
+    .map(([file, entry]) => ({
+      file: normalizePath(file),
+      linesTotal: entry.lines.total,
+      linesCovered: entry.lines.covered,
+      percent: percentOf(entry.lines.covered, entry.lines.total),
+    }));
+
+  const { total, covered } = summary.total.lines;
+  const issues: EvidenceIssue[] = [];
+  const fileTotal = files.reduce((sum, file) => sum + file.linesTotal, 0);
+  const fileCovered = files.reduce((sum, file) => sum + file.linesCovered, 0);
+  if (files.length > 0 && (fileTotal !== total || fileCovered !== covered)) {
+    issues.push({
+      type: 'COVERAGE_INCONSISTENT',
+      message: `Coverage total (${covered}/${total} lines) does not match the sum of its files (${fileCovered}/${fileTotal}).`,
+      severity: 'error',
+    });
+  }
+
+  return {
+    coverage: { source: 'istanbul', linesTotal: total, linesCovered: covered, percent: percentOf(covered, total), files },
+    issues,
+  };
+}
+
+/**
+ * Parse an lcov tracefile
+ */
+export function parseLcov(lcov: string): CoverageEvidence {
+  const files: CoverageEvidence['files'] = [];
+
+  for (const record of lcov.split('end_of_record')) {
+    const file = record.match(/^SF:(.+)$/m)?.[1]?.trim();
+    if (!file) continue;
+
+    const lineHits = [...record.matchAll(/^DA:\d+,(\d+)/gm)].map((hit) => Number(hit[1]));
+    const linesFound = record.match(/^LF:(\d+)/m);
+    const linesHit = record.match(/^LH:(\d+)/m);
+    const linesTotal = linesFound ? Number(linesFound[1]) : lineHits.length;
+    const linesCovered = linesHit ? Number(linesHit[1]) : lineHits.filter((hits) => hits > 0).length;
+
+    files.push({ file: normalizePath(file), linesTotal, linesCovered, percent: percentOf(linesCovered, linesTotal) });
+  }
+
+  if (files.length === 0) {
+    throw new EvidenceParseError('lcov report has no SF: records');
+  }
+
+  const linesTotal = files.reduce((sum, file) => sum + file.linesTotal, 0);
+  const linesCovered = files.reduce((sum, file) => sum + file.linesCovered, 0);
+  return { source: 'lcov', linesTotal, linesCovered, percent: percentOf(linesCovered, linesTotal), files };
+}
+
+// =============================================================================
+// TYPESCRIPT
+// =============================================================================
+
+// `src/a.ts(10,5): error TS2339: ...` or, with --pretty, `src/a.ts:10:5 - error TS2339: ...`
+const TSC_LOCATED_ERROR = /^(.+?)(?:\((\d+),\d+\)|:(\d+):\d+)\s*[:-]\s*error (TS\d+): (.+)$/;
+const TSC_GLOBAL_ERROR = /^error (TS\d+): (.+)$/;
+const TSC_SUMMARY = /^Found (\d+) errors?/m;
+
+/**
+ * Parse `tsc --noEmit` output and check it agrees with the exit code
+ */
+export function parseTscOutput(output: string, exitCode: number): { typescript: TypeScriptEvidence; issues: EvidenceIssue[] } {
+  const clean = output.replace(/\u001b\[[0-9;]*m/g, '');
+  const errors: TypeScriptEvidence['errors'] = [];
+
+  for (const line of clean.split('\n').map((l) => l.trim())) {
+    const located = line.match(TSC_LOCATED_ERROR);
+    if (located) {
+      errors.push({
+        file: normalizePath(located[1]),
+        line: Number(located[2] || located[3]),
+        code: located[4],
+        message: located[5],
+      });
+      continue;
+    }
+    const global = line.match(TSC_GLOBAL_ERROR);
+    if (global) errors.push({ file: null, line: null, code: global[1], message: global[2] });
+  }
+
+  const issues: EvidenceIssue[] = [];
+  const summary = clean.match(TSC_SUMMARY);
+  if (exitCode === 0 && errors.length > 0) {
+    issues.push({
+      type: 'TYPESCRIPT_OUTPUT_INCONSISTENT',
+      message: `tsc exited with code 0 but its output contains ${errors.length} error(s).`,
+      severity: 'error',
+    });
+  } else if (exitCode !== 0 && errors.length === 0) {
+    issues.push({
+      type: 'TYPESCRIPT_OUTPUT_INCONSISTENT',
+      message: `tsc exited with code ${exitCode} but its output has no diagnostics. Send the full stdout and stderr.`,
+      severity: 'error',
+    });
+  } else if (summary && Number(summary[1]) !== errors.length) {
+    issues.push({
+      type: 'TYPESCRIPT_OUTPUT_INCONSISTENT',
+      message: `tsc reported ${summary[1]} error(s) but the output lists ${errors.length}. Send the complete output.`,
+      severity: 'error',
+    });
+  }
+
+  return {
+    typescript: { passed: exitCode === 0 && errors.length === 0, exitCode, errorCount: errors.length, errors },
+    issues,
+  };
+}
+
+// =============================================================================
+// GATE
+// =============================================================================
+
+function parseSafely<T>(label: string, issues: EvidenceIssue[], parse: () => T): T | null {
+  try {
+    return parse();
+  } catch (error) {
+    issues.push({
+      type: 'EVIDENCE_UNREADABLE',
+      message: `${label}: ${error instanceof Error ? error.message : 'could not be parsed'}`,
+      severity: 'error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Parse all evidence and cross-check it against the files the client says it
+ * changed. Missing test or TypeScript evidence, failures and inconsistencies
+ * are errors; missing coverage is a warning.
+ */
+export function evaluateCompletionEvidence(
+  evidence: CompletionEvidence | undefined,
+  claims: { filesModified?: string[]; testsWritten?: string[] } = {}
+): EvidenceReport {
+  const issues: EvidenceIssue[] = [];
+  const filesModified = claims.filesModified || [];
+  const testsWritten = claims.testsWritten || [];
+
+  // Tests
+  const junitReports = evidence?.junit === undefined ? [] : [evidence.junit].flat();
+  const testReports = junitReports
+    .map((xml, i) => parseSafely(`JUnit report ${i + 1}`, issues, () => parseJUnit(xml)))
+    .filter((report): report is TestEvidence => report !== null);
+  if (evidence?.playwright !== undefined) {
+    const playwright = parseSafely('Playwright report', issues, () => parsePlaywrightReport(evidence.playwright!));
+    if (playwright) {
+      testReports.push(playwright.tests);
+      issues.push(...playwright.issues);
+    }
+  }
+  const tests = mergeTestEvidence(testReports);
+
+  if (!tests) {
+    issues.push({
+      type: 'MISSING_TEST_EVIDENCE',
+      message: 'No test report was attached. Send the JUnit XML or Playwright JSON report from the test run.',
+      severity: 'error',
+    });
+  } else {
+    if (tests.total - tests.skipped === 0) {
+      issues.push({ type: 'NO_TESTS_EXECUTED', message: 'The test report contains no executed tests.', severity: 'error' });
+    }
+    if (tests.failed > 0) {
+      const names = tests.failures.slice(0, 3).map((failure) => failure.name).join(', ');
+      issues.push({
+        type: 'TESTS_FAILED',
+        message: `${tests.failed} test(s) failed: ${names}${tests.failures.length > 3 ? ', ...' : ''}`,
+        severity: 'error',
+      });
+    }
+
+    const notRun = testsWritten.filter((file) => !tests.files.some((ran) => isSameFile(ran, file)));
+    if (notRun.length > 0 && tests.files.length === 0) {
+      issues.push({
+        type: 'TEST_FILES_UNVERIFIED',
+        message: 'The test report does not name test files, so testsWritten could not be checked.',
+        severity: 'warning',
+      });
+    } else if (notRun.length > 0) {
+      issues.push({
+        type: 'TEST_FILES_NOT_RUN',
+        message: `Test files listed in testsWritten do not appear in the test report: ${notRun.join(', ')}`,
+        severity: 'error',
+      });
+    }
+  }
+
+  // TypeScript
+  let typescript: TypeScriptEvidence | null = null;
+  if (evidence?.typescript) {
+    const { output, exitCode } = evidence.typescript;
+    const parsed = parseTscOutput(output || '', exitCode);
+    typescript = parsed.typescript;
+    issues.push(...parsed.issues);
+
+    if (typescript.errorCount > 0) {
+      const inModified = typescript.errors.filter((error) =>
+        error.file && filesModified.some((file) => isSameFile(error.file!, file))
+      ).length;
+      issues.push({
+        type: 'TYPESCRIPT_ERROR',
+        message: `tsc reported ${typescript.errorCount} error(s)` +
+          (inModified > 0 ? `, ${inModified} in modified files` : '') +
+          `. First: ${typescript.errors[0].file ?? ''}${typescript.errors[0].line ? `:${typescript.errors[0].line}` : ''} ${typescript.errors[0].code} ${typescript.errors[0].message}`,
+        severity: 'error',
+      });
+    }
+  } else {
+    issues.push({
+      type: 'MISSING_TYPESCRIPT_EVIDENCE',
+      message: 'No TypeScript check output was attached. Send the output and exit code of `tsc --noEmit`.',
+      severity: 'error',
+    });
+  }
+
+  // Coverage
+  let coverage: CoverageEvidence | null = null;
+  if (evidence?.coverageSummary !== undefined) {
+    const parsed = parseSafely('Coverage summary', issues, () => parseCoverageSummary(evidence.coverageSummary!));
+    if (parsed) {
+      coverage = parsed.coverage;
+      issues.push(...parsed.issues);
+    }
+  } else if (evidence?.lcov !== undefined) {
+    coverage = parseSafely('lcov report', issues, () => parseLcov(evidence.lcov!));
+  }
+
+  const sourceFiles = filesModified.filter(isSourceFile);
+  const uncoveredFiles = coverage
+    ? sourceFiles.filter((file) => !coverage!.files.some((entry) => isSameFile(entry.file, file)))
+    : [];
+
+  if (!coverage) {
+    issues.push({
+      type: 'MISSING_COVERAGE_EVIDENCE',
+      message: 'No coverage report was attached (coverage-summary.json or lcov.info).',
+      severity: 'warning',
+    });
+  } else if (sourceFiles.length > 0 && uncoveredFiles.length === sourceFiles.length) {
+    issues.push({
+      type: 'COVERAGE_INCONSISTENT',
+      message: 'The coverage report includes none of the modified source files. Was it generated for this change?',
+      severity: 'error',
+    });
+  } else if (uncoveredFiles.length > 0) {
+    issues.push({
+      type: 'COVERAGE_MISSING_FILES',
+      message: `Modified files with no coverage: ${uncoveredFiles.join(', ')}`,
+      severity: 'warning',
+    });
+  }
+
+  return { tests, coverage, typescript, uncoveredFiles, issues };
+}
@@ -0,0 +1,306 @@
+/**
+ * CONTENT DIFF
+ *
+ * Compares the pattern modules of two content versions module by module and
+ * section by section. Sections are keyed by their heading path, and the rules
+ * in a section are its lines of prose and list items - code examples are only
+ * counted, since a changed example is rarely worth listing line by line.
+ *
+ * Everything here is pure - versions are loaded by ContentManagementService.
+ */
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export interface ChangedRule {
+  before: string;
+  after: string;
+}
+
+export interface SectionDiff {
+  heading: string; // Heading path, e.g. "PART 1 > MANDATORY PATTERNS > Every Button MUST Have:"
+  status: DiffStatus;
+  added: string[];
+  removed: string[];
+  changed: ChangedRule[];
+  examplesChanged: number;
+}
+
+export interface ModuleDiff {
+  name: string;
+  status: DiffStatus;
+  sections: SectionDiff[];
+}
+
+export interface ContentDiff {
+  from: string;
+  to: string;
+  modules: ModuleDiff[];
+  summary: {
+    modulesAdded: number;
+    modulesRemoved: number;
+    modulesChanged: number;
+    rulesAdded: number;
+    rulesRemoved: number;
+    rulesChanged: number;
+  };
+}
+
+interface Section {
+  heading: string;
+  rules: string[];
+  examples: string[];
+}
+
+// Rules at least this similar (by shared words) are reported as one changed rule
+const CHANGED_RULE_SIMILARITY = 0.5;
+
+/**
+ * Split a markdown module into sections. Headings inside code fences (shell
+ * comments, for instance) don't start a section.
+ */
+export function parseSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  const headingPath: string[] = [];
+  const seen = new Map<string, number>();
+  let current: Section = { heading: '', rules: [], examples: [] };
+  let example: string[] | null = null;
+
+  for (const rawLine of markdown.split('\n')) {
+    const line = rawLine.trimEnd();
+
+    if (line.trimStart().startsWith('```')) {
+      if (example) {
+        current.examples.push(example.join('\n'));
+        example = null;
+      } else {
+        example = [];
+      }
+      continue;
+    }
+
+    if (example) {
+      example.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      sections.push(current);
+
+      const depth = heading[1].length;
+      headingPath.length = Math.min(headingPath.length, depth - 1);
+      headingPath[depth - 1] = heading[2].trim();
+
+      // Duplicate headings in one module get a suffix so they stay distinct
+      const key = headingPath.filter(Boolean).join(' > ');
+      const count = (seen.get(key) ?? 0) + 1;
+      seen.set(key, count);
+
+      current = { heading: count > 1 ? `${key} (${count})` : key, rules: [], examples: [] };
+      continue;
+    }
+
+    const rule = normalizeRule(line);
+    if (rule) current.rules.push(rule);
+  }
+
+  // An unclosed fence still counts as an example
+  if (example) current.examples.push(example.join('\n'));
+  sections.push(current);
+
+  return sections.filter((s) => s.heading || s.rules.length > 0 || s.examples.length > 0);
+}
+
+function normalizeRule(line: string): string | null {
+  const text = line
+    .trim()
+    .replace(/^([-*+]|\d+[.)]|→|□|☐)\s+/, '')
+    .replace(/\s+/g, ' ');
+
+  if (!text || /^([-*_=])\1{2,}$/.test(text)) return null; // Blank lines and horizontal rules
+  return text;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+}
+
+function similarity(a: string, b: string): number {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+
+  let shared = 0;
+  for (const w of wa) if (wb.has(w)) shared++;
+  return shared / (wa.size + wb.size - shared);
+}
+
+/** Items of `a` not in `b`, respecting duplicates */
+function difference(a: string[], b: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const item of b) remaining.set(item, (remaining.get(item) ?? 0) + 1);
+
+  return a.filter((item) => {
+    const count = remaining.get(item) ?? 0;
+    if (count === 0) return true;
+    remaining.set(item, count - 1);
+    return false;
+  });
+}
+
+/**
+ * Rules added, removed and reworded between two lists. A removed rule is
+ * paired with the most similar added one when they share enough words.
+ */
+export function diffRules(before: string[], after: string[]): Pick<SectionDiff, 'added' | 'removed' | 'changed'> {
+  const added = difference(after, before);
+  const removed: string[] = [];
+  const changed: ChangedRule[] = [];
+
+  for (const rule of difference(before, after)) {
+    let best = -1;
+    let bestScore = CHANGED_RULE_SIMILARITY;
+    added.forEach((candidate, i) => {
+      const score = similarity(rule, candidate);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+
+    if (best >= 0) {
+      changed.push({ before: rule, after: added[best] });
+      added.splice(best, 1);
+    } else {
+      removed.push(rule);
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+function diffSections(before: Section[], after: Section[]): SectionDiff[] {
+  const beforeByHeading = new Map(before.map((s) => [s.heading, s]));
+  const afterHeadings = new Set(after.map((s) => s.heading));
+  const diffs: SectionDiff[] = [];
+
+  for (const section of after) {
+    const previous = beforeByHeading.get(section.heading);
+    if (!previous) {
+      diffs.push({
+        heading: section.heading,
+        status: 'added',
+        added: section.rules,
+        removed: [],
+        changed: [],
+        examplesChanged: section.examples.length,
+      });
+      continue;
+    }
+
+    const rules = diffRules(previous.rules, section.rules);
+    const examplesChanged = Math.max(
+      difference(section.examples, previous.examples).length,
+      difference(previous.examples, section.examples).length
+    );
+
+    if (rules.added.length || rules.removed.length || rules.changed.length || examplesChanged) {
+      diffs.push({ heading: section.heading, status: 'changed', ...rules, examplesChanged });
+    }
+  }
+
+  for (const section of before) {
+    if (afterHeadings.has(section.heading)) continue;
+    diffs.push({
+      heading: section.heading,
+      status: 'removed',
+      added: [],
+      removed: section.rules,
+      changed: [],
+      examplesChanged: section.examples.length,
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Compare one module between two versions
+ * @returns null when the module is unchanged
+ */
+export function diffModule(name: string, before: string | undefined, after: string | undefined): ModuleDiff | null {
+  if (before === after) return null;
+
+  const status: DiffStatus = before === undefined ? 'added' : after === undefined ? 'removed' : 'changed';
+  const sections = diffSections(parseSections(before ?? ''), parseSections(after ?? ''));
+
+  // Whitespace-only edits leave nothing to report
+  if (status === 'changed' && sections.length === 0) return null;
+
+  return { name, status, sections };
+}
+
+/**
+ * Compare the modules of two versions
+ */
+export function diffContent(
+  from: { version: string; modules: Record<string, string> },
+  to: { version: string; modules: Record<string, string> }
+): ContentDiff {
+  const names = [...new Set([...Object.keys(from.modules), ...Object.keys(to.modules)])].sort();
+  const modules = names
+    .map((name) => diffModule(name, from.modules[name], to.modules[name]))
+    .filter((m): m is ModuleDiff => m !== null);
+
+  const sections = modules.flatMap((m) => m.sections);
+
+  return {
+    from: from.version,
+    to: to.version,
+    modules,
+    summary: {
+      modulesAdded: modules.filter((m) => m.status === 'added').length,
+      modulesRemoved: modules.filter((m) => m.status === 'removed').length,
+      modulesChanged: modules.filter((m) => m.status === 'changed').length,
+      rulesAdded: sections.reduce((sum, s) => sum + s.added.length, 0),
+      rulesRemoved: sections.reduce((sum, s) => sum + s.removed.length, 0),
+      rulesChanged: sections.reduce((sum, s) => sum + s.changed.length, 0),
+    },
+  };
+}
+
+/**
+ * Render a diff as a markdown changelog
+ */
+export function renderChangelog(diff: ContentDiff): string {
+  const { summary } = diff;
+  const lines = [
+    `## ${diff.from} → ${diff.to}`,
+    '',
+    `${summary.modulesChanged} modules changed, ${summary.modulesAdded} added, ${summary.modulesRemoved} removed. ` +
+      `${summary.rulesAdded} rules added, ${summary.rulesRemoved} removed, ${summary.rulesChanged} reworded.`,
+  ];
+
+  for (const moduleDiff of diff.modules) {
+    lines.push('', `### ${moduleDiff.name}${moduleDiff.status === 'changed' ? '' : ` (${moduleDiff.status})`}`);
+
+    // New and removed modules are summarised rather than listed rule by rule
+    if (moduleDiff.status !== 'changed') {
+      const rules = moduleDiff.sections.reduce((sum, s) => sum + s.added.length + s.removed.length, 0);
+      lines.push('', `${moduleDiff.sections.length} sections, ${rules} rules`);
+      continue;
+    }
+
+    for (const section of moduleDiff.sections) {
+      lines.push('', `**${section.heading || 'Introduction'}**${section.status === 'changed' ? '' : ` (${section.status})`}`);
+      for (const rule of section.added) lines.push(`- Added: ${rule}`);
+      for (const rule of section.removed) lines.push(`- Removed: ${rule}`);
+      for (const rule of section.changed) lines.push(`- Changed: ${rule.before} → ${rule.after}`);
+      if (section.examplesChanged > 0) {
+        lines.push(`- ${section.examplesChanged} code example${section.examplesChanged === 1 ? '' : 's'} updated`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,125 @@
+/**
+ * CONTENT ROLLOUTS
+ *
+ * Which content version a team is served. Versions are released to a channel
+ * (stable, beta, canary) for a percentage of its teams; the rest keep the
+ * version the channel served before. Teams on a less stable channel follow the
+ * more stable channels when their own has no release.
+ *
+ * Everything here is pure - releases are stored and rolled back by
+ * ContentRolloutService.
+ */
+
+import { createHash } from 'crypto';
+
+export type ContentChannel = 'stable' | 'beta' | 'canary';
+
+export const CONTENT_CHANNELS: ContentChannel[] = ['stable', 'beta', 'canary'];
+
+// Channels a team on each channel can be served from, in order of preference
+const CHANNEL_FALLBACK: Record<ContentChannel, ContentChannel[]> = {
+  canary: ['canary', 'beta', 'stable'],
+  beta: ['beta', 'stable'],
+  stable: ['stable'],
+};
+
+export interface ChannelRelease {
+  id: string;
+  channel: string;
+  versionId: string;
+  previousVersionId: string | null;
+  rolloutPercent: number;
+}
+
+export function parseContentChannel(value: string | null | undefined): ContentChannel {
+  return CONTENT_CHANNELS.includes(value as ContentChannel) ? (value as ContentChannel) : 'stable';
+}
+
+/**
+ * Channels that a new release on `channel` replaces. Publishing to a more
+ * stable channel brings the less stable ones back in line with it.
+ */
+export function channelsSupersededBy(channel: ContentChannel): ContentChannel[] {
+  return CONTENT_CHANNELS.slice(CONTENT_CHANNELS.indexOf(channel));
+}
+
+/**
+ * A team's stable position (0-99) in a release's rollout. Raising the
+ * percentage only ever adds teams.
+ */
+export function rolloutBucket(releaseId: string, teamId: string): number {
+  return createHash('sha256').update(`${releaseId}:${teamId}`).digest().readUInt32BE(0) % 100;
+}
+
+/**
+ * Whether a team gets a release's version. Requests without a team only get
+ * it once the rollout is complete.
+ */
+export function isInRollout(release: Pick<ChannelRelease, 'id' | 'rolloutPercent'>, teamId: string | null): boolean {
+  if (release.rolloutPercent >= 100) return true;
+  if (!teamId) return false;
+  return rolloutBucket(release.id, teamId) < release.rolloutPercent;
+}
+
+/**
+ * The content version a team is served
+ * @param releases - The current release of each channel
+ * @param activeVersionId - The version served when no channel has a release
+ */
+export function resolveContentVersionId(params: {
+  channel: ContentChannel;
+  teamId: string | null;
+  releases: ChannelRelease[];
+  activeVersionId: string | null;
+}): string | null {
+  for (const channel of CHANNEL_FALLBACK[params.channel]) {
+    const release = params.releases.find((r) => r.channel === channel);
+    if (!release) continue;
+
+    if (isInRollout(release, params.teamId)) return release.versionId;
+    if (release.previousVersionId) return release.previousVersionId;
+  }
+
+  return params.activeVersionId;
+}
+
+export interface ReportWindow {
+  moduleReports: number;
+  productionFeedback: number;
+  hours: number;
+}
+
+export const ROLLBACK_THRESHOLDS = {
+  minEvents: 5, // Fewer reports than this after a publish is never a spike
+  multiplier: 2, // Reports per hour must at least double
+  watchHours: 72, // How long after a publish releases are watched
+  baselineHours: 7 * 24,
+};
+
+/**
+ * Whether reports from teams on a release spiked compared with the same
+ * teams before it
+ * @returns the reason to roll back, or null
+ */
+export function detectRegression(
+  before: ReportWindow,
+  after: ReportWindow,
+  thresholds: Pick<typeof ROLLBACK_THRESHOLDS, 'minEvents' | 'multiplier'> = ROLLBACK_THRESHOLDS
+): string | null {
+  if (after.hours <= 0 || before.hours <= 0) return null;
+
+  const kinds = [
+    { label: 'Module reports', before: before.moduleReports, after: after.moduleReports },
+    { label: 'Production errors', before: before.productionFeedback, after: after.productionFeedback },
+  ];
+
+  for (const kind of kinds) {
+    const beforePerDay = (kind.before / before.hours) * 24;
+    const afterPerDay = (kind.after / after.hours) * 24;
+    if (kind.after >= thresholds.minEvents && afterPerDay > beforePerDay * thresholds.multiplier) {
+      return `${kind.label} rose from ${beforePerDay.toFixed(1)}/day to ${afterPerDay.toFixed(1)}/day after publish`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,123 @@
+/**
+ * DECISION SUBJECTS
+ *
+ * Vocabulary for the typed part of the decision log: which values exist for
+ * each subject and the words/files that mean them. Used to read constraints out
+ * of free-text decisions and proposed actions so they can be compared.
+ */
+
+import { DecisionConstraint, DecisionSubject } from './safety-types';
+
+interface SubjectValue {
+  value: string;
+  aliases: RegExp[];
+  files?: RegExp[]; // Touching one of these files implies this value
+}
+
+export const SUBJECT_LABELS: Record<DecisionSubject, string> = {
+  'storage-location': 'storage location',
+  'auth-provider': 'auth provider',
+  orm: 'ORM',
+  'state-library': 'state library',
+  'deployment-target': 'deployment target',
+};
+
+export const DECISION_SUBJECTS: Record<DecisionSubject, SubjectValue[]> = {
+  'storage-location': [
+    { value: 'server', aliases: [/\bserver[- ]side\b/, /\bon the server\b/, /\bstays? server\b/] },
+    {
+      value: 'client',
+      aliases: [/\blocal ?storage\b/, /\bindexeddb\b/, /\bsession ?storage\b/, /\bclient[- ]side\b/, /\bin the browser\b/],
+    },
+  ],
+  'auth-provider': [
+    { value: 'supabase', aliases: [/\bsupabase auth\b/], files: [/(^|\/)supabase\/(auth|middleware)/] },
+    { value: 'clerk', aliases: [/\bclerk\b/], files: [/@clerk\//] },
+    { value: 'next-auth', aliases: [/\bnext-?auth\b/, /\bauth\.js\b/], files: [/\[\.\.\.nextauth\]/] },
+    { value: 'auth0', aliases: [/\bauth0\b/] },
+    { value: 'firebase', aliases: [/\bfirebase auth\b/] },
+    { value: 'lucia', aliases: [/\blucia\b/] },
+  ],
+  orm: [
+    { value: 'drizzle', aliases: [/\bdrizzle\b/], files: [/(^|\/)drizzle\.config\.ts$/] },
+    { value: 'prisma', aliases: [/\bprisma\b/], files: [/(^|\/)prisma\/schema\.prisma$/] },
+    { value: 'typeorm', aliases: [/\btypeorm\b/] },
+    { value: 'sequelize', aliases: [/\bsequelize\b/] },
+    { value: 'kysely', aliases: [/\bkysely\b/] },
+    { value: 'mongoose', aliases: [/\bmongoose\b/] },
+  ],
+  'state-library': [
+    { value: 'zustand', aliases: [/\bzustand\b/] },
+    { value: 'redux', aliases: [/\bredux\b/] },
+    { value: 'jotai', aliases: [/\bjotai\b/] },
+    { value: 'recoil', aliases: [/\brecoil\b/] },
+    { value: 'mobx', aliases: [/\bmobx\b/] },
+    { value: 'react-context', aliases: [/\breact context\b/, /\bcontext api\b/] },
+  ],
+  'deployment-target': [
+    { value: 'vercel', aliases: [/\bvercel\b/], files: [/(^|\/)vercel\.json$/] },
+    { value: 'netlify', aliases: [/\bnetlify\b/], files: [/(^|\/)netlify\.toml$/] },
+    { value: 'aws', aliases: [/\baws\b/, /\bamplify\b/] },
+    { value: 'fly', aliases: [/\bfly\.io\b/], files: [/(^|\/)fly\.toml$/] },
+    { value: 'railway', aliases: [/\brailway\b/] },
+    { value: 'render', aliases: [/\brender\.com\b/], files: [/(^|\/)render\.yaml$/] },
+    { value: 'cloudflare', aliases: [/\bcloudflare\b/], files: [/(^|\/)wrangler\.toml$/] },
+  ],
+};
+
+// "replace X with", "instead of X", "migrate away from X" - X is being dropped
+const MOVING_AWAY = /\b(?:replac(?:e|ing)|instead of|(?:away|migrat(?:e|ing)|switch(?:ing)?|mov(?:e|ing)) from|remov(?:e|ing)|drop(?:ping)?|get rid of)\s+(?:the\s+)?([a-z0-9.\-]+(?:\s+[a-z0-9.\-]+)?)/g;
+
+export interface MentionedValues {
+  subject: DecisionSubject;
+  uses: string[]; // Values the text adopts
+  dropping: string[]; // Values the text moves away from
+}
+
+function matchValues(text: string, subject: DecisionSubject): string[] {
+  return DECISION_SUBJECTS[subject]
+    .filter((candidate) => candidate.aliases.some((alias) => alias.test(text)))
+    .map((candidate) => candidate.value);
+}
+
+/**
+ * Values each subject is given in a piece of text (and optionally a file path)
+ */
+export function findMentionedValues(text: string, filePath?: string): MentionedValues[] {
+  const lower = text.toLowerCase();
+  const droppedPhrases = [...lower.matchAll(MOVING_AWAY)].map((match) => match[1]);
+  const mentions: MentionedValues[] = [];
+
+  for (const subject of Object.keys(DECISION_SUBJECTS) as DecisionSubject[]) {
+    const mentioned = new Set(matchValues(lower, subject));
+
+    if (filePath) {
+      for (const candidate of DECISION_SUBJECTS[subject]) {
+        if (candidate.files?.some((pattern) => pattern.test(filePath))) mentioned.add(candidate.value);
+      }
+    }
+    if (mentioned.size === 0) continue;
+
+    const dropping = [...mentioned].filter((value) =>
+      droppedPhrases.some((phrase) => matchValues(phrase, subject).includes(value))
+    );
+
+    mentions.push({
+      subject,
+      uses: [...mentioned].filter((value) => !dropping.includes(value)),
+      dropping,
+    });
+  }
+
+  return mentions;
+}
+
+/**
+ * Constraints a free-text decision implies ("Use Drizzle ORM" -> orm = drizzle).
+ * Subjects with more than one candidate value are left out as ambiguous.
+ */
+export function extractDecisionConstraints(text: string): DecisionConstraint[] {
+  return findMentionedValues(text)
+    .filter((mention) => mention.uses.length === 1)
+    .map((mention) => ({ subject: mention.subject, value: mention.uses[0] }));
+}
@@ -0,0 +1,51 @@
+/**
+ * ENGINEERING ARTIFACTS
+ *
+ * Artifacts live in two places on a project context: built-in slots (prd,
+ * techSpec, ...) and `custom`, keyed by the artifact name a team-defined
+ * phase produces. These helpers address both by a single flat name.
+ */
+
+import { ArtifactType, ProjectContext } from './engineering-types';
+
+export const BUILT_IN_ARTIFACTS: ArtifactType[] = [
+  'prd',
+  'techSpec',
+  'apiDocs',
+  'securityAudit',
+  'userGuide',
+  'deploymentGuide',
+];
+
+export function isBuiltInArtifact(name: string): name is ArtifactType {
+  return (BUILT_IN_ARTIFACTS as string[]).includes(name);
+}
+
+export function readArtifact(artifacts: ProjectContext['artifacts'], name: string): string | undefined {
+  return isBuiltInArtifact(name) ? artifacts[name] : artifacts.custom?.[name];
+}
+
+/**
+ * Copy of `artifacts` with one artifact replaced
+ */
+export function writeArtifact(
+  artifacts: ProjectContext['artifacts'],
+  name: string,
+  content: string
+): ProjectContext['artifacts'] {
+  if (isBuiltInArtifact(name)) {
+    return { ...artifacts, [name]: content };
+  }
+  return { ...artifacts, custom: { ...artifacts.custom, [name]: content } };
+}
+
+/**
+ * Artifacts as a flat name -> content map (custom artifacts by their own name)
+ */
+export function flattenArtifacts(artifacts: ProjectContext['artifacts']): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [name, value] of Object.entries(artifacts)) {
+    if (name !== 'custom' && typeof value === 'string') flat[name] = value;
+  }
+  return { ...flat, ...(artifacts.custom || {}) };
+}
@@ -0,0 +1,120 @@
+/**
+ * ENGINEERING BRANCHES
+ *
+ * A session can be forked at any passed gate to explore an alternative
+ * (e.g. Supabase auth vs custom auth) without losing the original.
+ * The fork keeps everything produced up to and including that gate;
+ * later phases start over in the child.
+ *
+ * These helpers are pure so they can be shared by services, API routes and pages.
+ */
+
+import {
+  ArtifactComparison,
+  DependencyGraph,
+  GateStatus,
+  PipelineDefinition,
+  PipelinePhaseId,
+  ProjectContext,
+} from './engineering-types';
+import { getUpstreamPhases, initializePipelineGateStatus } from './engineering-pipeline';
+import { flattenArtifacts } from './engineering-artifacts';
+import { collapseUnchanged, diffLines, summarizeDiff } from './text-diff';
+
+type ForkableState = Pick<ProjectContext, 'gateStatus' | 'artifacts' | 'dependencyGraph'>;
+
+/**
+ * The fork phase plus everything upstream of it - the work a fork keeps
+ */
+export function getForkedPhases(pipeline: PipelineDefinition, phaseId: PipelinePhaseId): PipelinePhaseId[] {
+  return [...getUpstreamPhases(pipeline.phases, phaseId).map((p) => p.id), phaseId];
+}
+
+/**
+ * Copy the state a child branch starts from.
+ * Gates, artifacts and graph nodes produced after the fork point are left out.
+ */
+export function forkProjectState(
+  pipeline: PipelineDefinition,
+  state: ForkableState,
+  phaseId: PipelinePhaseId
+): ForkableState & { keptPhases: PipelinePhaseId[] } {
+  const keptPhases = getForkedPhases(pipeline, phaseId);
+
+  const gateStatus: Record<PipelinePhaseId, GateStatus> = initializePipelineGateStatus(pipeline);
+  const keptArtifacts = new Set<string>();
+  for (const id of keptPhases) {
+    const gate = state.gateStatus[id];
+    if (!gate) continue;
+    gateStatus[id] = { ...gate };
+    gate.artifacts?.forEach((name) => keptArtifacts.add(name));
+  }
+
+  const artifacts: ProjectContext['artifacts'] = {};
+  for (const [name, value] of Object.entries(state.artifacts)) {
+    if (name === 'custom' || typeof value !== 'string') continue;
+    if (keptArtifacts.has(name)) {
+      artifacts[name as Exclude<keyof ProjectContext['artifacts'], 'custom'>] = value;
+    }
+  }
+  for (const [name, value] of Object.entries(state.artifacts.custom || {})) {
+    if (keptArtifacts.has(name)) {
+      artifacts.custom = { ...artifacts.custom, [name]: value };
+    }
+  }
+
+  // Graph nodes created after the fork gate passed belong to later phases
+  const forkedAt = state.gateStatus[phaseId]?.passedAt;
+  const cutoff = forkedAt ? new Date(forkedAt).getTime() : Infinity;
+  const nodes = state.dependencyGraph.nodes.filter((n) => new Date(n.createdAt).getTime() <= cutoff);
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const dependencyGraph: DependencyGraph = {
+    nodes,
+    edges: state.dependencyGraph.edges.filter((e) => nodeIds.has(e.sourceId) && nodeIds.has(e.targetId)),
+  };
+
+  return { gateStatus, artifacts, dependencyGraph, keptPhases };
+}
+
+/**
+ * Line diff of every artifact between two branches
+ */
+export function compareArtifacts(
+  left: ProjectContext['artifacts'],
+  right: ProjectContext['artifacts']
+): ArtifactComparison[] {
+  const leftFlat = flattenArtifacts(left);
+  const rightFlat = flattenArtifacts(right);
+  const names = [...new Set([...Object.keys(leftFlat), ...Object.keys(rightFlat)])].sort();
+
+  return names.map((name) => {
+    const before = leftFlat[name];
+    const after = rightFlat[name];
+
+    if (before === undefined || after === undefined) {
+      const content = before ?? after ?? '';
+      const lineCount = content ? content.split('\n').length : 0;
+      return {
+        name,
+        status: before === undefined ? 'only_right' : 'only_left',
+        added: before === undefined ? lineCount : 0,
+        removed: after === undefined ? lineCount : 0,
+        lines: [],
+      };
+    }
+
+    if (before === after) {
+      return { name, status: 'same', added: 0, removed: 0, lines: [] };
+    }
+
+    const lines = diffLines(before, after);
+    const summary = summarizeDiff(lines);
+    return {
+      name,
+      status: 'changed',
+      added: summary.added,
+      removed: summary.removed,
+      lines: collapseUnchanged(lines),
+    };
+  });
+}
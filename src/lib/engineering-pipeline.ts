@@ -0,0 +1,300 @@
+/**
+ * ENGINEERING PIPELINES
+ *
+ * Teams can replace the built-in phase order with their own pipeline:
+ * add phases, drop ones they never use, and declare parallel branches.
+ * A pipeline is a DAG - each phase lists the phases it depends on, and every
+ * phase whose dependencies have passed (or been skipped) is ready to run.
+ *
+ * These helpers are pure so they can be shared by services, API routes and pages.
+ */
+
+import { z } from 'zod';
+import {
+  ENGINEERING_PHASES,
+  AGENT_CONFIGS,
+  AgentRole,
+  ApprovalRule,
+  ApprovalStatus,
+  ApprovalVote,
+  EngineeringPhase,
+  GateStatus,
+  PipelineDefinition,
+  PipelinePhase,
+  PipelinePhaseId,
+} from './engineering-types';
+
+// =============================================================================
+// DEFAULT PIPELINE
+// =============================================================================
+
+/**
+ * The built-in pipeline - ENGINEERING_PHASES run one after another
+ */
+export const DEFAULT_PIPELINE: PipelineDefinition = {
+  id: null,
+  name: 'CodeBakers Default',
+  version: 1,
+  phases: ENGINEERING_PHASES.map((config, index) => {
+    const { phase, ...rest } = config;
+    return {
+      ...rest,
+      id: phase,
+      basePhase: phase,
+      dependsOn: index === 0 ? [] : [ENGINEERING_PHASES[index - 1].phase],
+    };
+  }),
+};
+
+// Scoping is driven by the wizard, so every pipeline must start with it
+export const PIPELINE_ROOT_PHASE: EngineeringPhase = 'scoping';
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const agentRoles = Object.keys(AGENT_CONFIGS) as [AgentRole, ...AgentRole[]];
+const builtInPhases = ENGINEERING_PHASES.map((p) => p.phase) as [EngineeringPhase, ...EngineeringPhase[]];
+
+export const pipelinePhaseSchema = z.object({
+  id: z.string().min(1).max(50).regex(/^[a-z][a-z0-9_-]*$/, 'Phase id must be a lowercase slug'),
+  displayName: z.string().min(1).max(100),
+  description: z.string().max(500).default(''),
+  agent: z.enum(agentRoles),
+  basePhase: z.enum(builtInPhases).optional(),
+  requiresApproval: z.boolean().default(false),
+  canSkip: z.boolean().default(false),
+  producesArtifacts: z.array(z.string().min(1).max(100)).default([]),
+  inputsRequired: z.array(z.string().min(1).max(100)).default([]),
+  dependsOn: z.array(z.string().min(1)).default([]),
+  instructions: z.string().max(4000).optional(),
+  approvalRule: z
+    .object({
+      minApprovers: z.number().int().min(1).max(10),
+      requireAdmin: z.boolean().default(false),
+    })
+    .optional(),
+});
+
+export const pipelineDefinitionSchema = z.object({
+  name: z.string().min(1, 'Pipeline name is required').max(100),
+  projectHash: z.string().min(1).optional(),
+  phases: z.array(pipelinePhaseSchema).min(1, 'Pipeline needs at least one phase').max(50),
+});
+
+export type PipelineDefinitionInput = z.infer<typeof pipelineDefinitionSchema>;
+
+/**
+ * Structural checks that a schema can't express.
+ * Returns a map of problems keyed by phase id ('pipeline' for global issues).
+ */
+export function validatePipelinePhases(phases: PipelinePhase[]): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  const addError = (key: string, message: string) => {
+    if (!errors[key]) errors[key] = [];
+    errors[key].push(message);
+  };
+
+  const ids = new Set<string>();
+  for (const phase of phases) {
+    if (ids.has(phase.id)) addError(phase.id, `Duplicate phase id "${phase.id}"`);
+    ids.add(phase.id);
+  }
+
+  const root = phases.find((p) => p.id === PIPELINE_ROOT_PHASE);
+  if (!root) {
+    addError('pipeline', `Pipeline must include the "${PIPELINE_ROOT_PHASE}" phase`);
+  } else if (root.dependsOn.length > 0) {
+    addError(root.id, `"${PIPELINE_ROOT_PHASE}" cannot depend on other phases`);
+  }
+
+  for (const phase of phases) {
+    for (const dep of phase.dependsOn) {
+      if (dep === phase.id) addError(phase.id, 'Phase cannot depend on itself');
+      else if (!ids.has(dep)) addError(phase.id, `Unknown dependency "${dep}"`);
+    }
+    if (phase.id !== PIPELINE_ROOT_PHASE && phase.dependsOn.length === 0) {
+      addError(phase.id, `Phase must depend on at least one phase (start from "${PIPELINE_ROOT_PHASE}")`);
+    }
+    if (ids.has(phase.id) && builtInPhases.includes(phase.id as EngineeringPhase) && phase.basePhase && phase.basePhase !== phase.id) {
+      addError(phase.id, `Built-in phase "${phase.id}" cannot reuse "${phase.basePhase}" behavior`);
+    }
+  }
+
+  // Cycles make the pipeline impossible to finish
+  if (Object.keys(errors).length === 0 && orderPipelinePhases(phases).length !== phases.length) {
+    addError('pipeline', 'Pipeline contains a dependency cycle');
+  }
+
+  // Every required input must be produced by a phase that runs earlier on the same branch
+  if (Object.keys(errors).length === 0) {
+    for (const phase of phases) {
+      const upstream = getUpstreamPhases(phases, phase.id);
+      for (const input of phase.inputsRequired) {
+        const producedUpstream = upstream.some((p) => p.producesArtifacts.includes(input));
+        if (!producedUpstream) {
+          addError(phase.id, `Required input "${input}" is not produced by any upstream phase`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+// =============================================================================
+// GRAPH HELPERS
+// =============================================================================
+
+/**
+ * Topological order of phases (stable with respect to definition order).
+ * Phases caught in a cycle are left out.
+ */
+export function orderPipelinePhases(phases: PipelinePhase[]): PipelinePhase[] {
+  const ordered: PipelinePhase[] = [];
+  const placed = new Set<PipelinePhaseId>();
+  let progressed = true;
+
+  while (progressed && ordered.length < phases.length) {
+    progressed = false;
+    for (const phase of phases) {
+      if (placed.has(phase.id)) continue;
+      if (phase.dependsOn.every((dep) => placed.has(dep))) {
+        ordered.push(phase);
+        placed.add(phase.id);
+        progressed = true;
+      }
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * All phases that must finish before the given phase can start
+ */
+export function getUpstreamPhases(phases: PipelinePhase[], phaseId: PipelinePhaseId): PipelinePhase[] {
+  const byId = new Map(phases.map((p) => [p.id, p]));
+  const visited = new Set<PipelinePhaseId>();
+  const queue = [...(byId.get(phaseId)?.dependsOn || [])];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    queue.push(...(byId.get(id)?.dependsOn || []));
+  }
+
+  return phases.filter((p) => visited.has(p.id));
+}
+
+export function getPipelinePhase(
+  pipeline: PipelineDefinition,
+  phaseId: PipelinePhaseId
+): PipelinePhase | undefined {
+  return pipeline.phases.find((p) => p.id === phaseId);
+}
+
+function isGateDone(gate: GateStatus | undefined): boolean {
+  return gate?.status === 'passed' || gate?.status === 'skipped';
+}
+
+/**
+ * Phases that haven't started yet and whose dependencies are all done
+ */
+export function getReadyPhases(
+  pipeline: PipelineDefinition,
+  gateStatus: Record<PipelinePhaseId, GateStatus>
+): PipelinePhase[] {
+  return orderPipelinePhases(pipeline.phases).filter((phase) => {
+    const status = gateStatus[phase.id]?.status || 'pending';
+    if (status !== 'pending') return false;
+    return phase.dependsOn.every((dep) => isGateDone(gateStatus[dep]));
+  });
+}
+
+/**
+ * Phases currently being worked on (several when branches run in parallel)
+ */
+export function getActivePhases(
+  pipeline: PipelineDefinition,
+  gateStatus: Record<PipelinePhaseId, GateStatus>
+): PipelinePhase[] {
+  return orderPipelinePhases(pipeline.phases).filter(
+    (phase) => gateStatus[phase.id]?.status === 'in_progress'
+  );
+}
+
+export function isPipelineComplete(
+  pipeline: PipelineDefinition,
+  gateStatus: Record<PipelinePhaseId, GateStatus>
+): boolean {
+  return pipeline.phases.every((phase) => isGateDone(gateStatus[phase.id]));
+}
+
+/**
+ * Percentage of pipeline phases that have passed
+ */
+export function calculatePipelineProgress(
+  pipeline: PipelineDefinition,
+  gateStatus: Record<PipelinePhaseId, GateStatus>
+): number {
+  if (pipeline.phases.length === 0) return 0;
+  const passed = pipeline.phases.filter((p) => gateStatus[p.id]?.status === 'passed').length;
+  return Math.round((passed / pipeline.phases.length) * 100);
+}
+
+/**
+ * Fresh gate status for every phase in the pipeline
+ */
+export function initializePipelineGateStatus(pipeline: PipelineDefinition): Record<PipelinePhaseId, GateStatus> {
+  const status: Record<PipelinePhaseId, GateStatus> = {};
+  for (const phase of orderPipelinePhases(pipeline.phases)) {
+    status[phase.id] = {
+      phase: phase.id,
+      status: 'pending',
+    };
+  }
+  return status;
+}
+
+// =============================================================================
+// APPROVAL RULES
+// =============================================================================
+
+// Phases without an explicit rule need a single sign-off from anyone on the team
+export const DEFAULT_APPROVAL_RULE: ApprovalRule = {
+  minApprovers: 1,
+  requireAdmin: false,
+};
+
+export function getApprovalRule(phase: PipelinePhase | undefined): ApprovalRule {
+  return phase?.approvalRule ?? DEFAULT_APPROVAL_RULE;
+}
+
+/**
+ * Decide an approval request from its votes.
+ * A single rejection sends the phase back; otherwise it stays pending
+ * until enough approvals (including an admin, if required) are in.
+ */
+export function evaluateApprovalVotes(rule: ApprovalRule, votes: ApprovalVote[]): ApprovalStatus {
+  if (votes.some((v) => !v.approved)) return 'rejected';
+
+  const approvals = votes.filter((v) => v.approved);
+  if (approvals.length < rule.minApprovers) return 'pending';
+  if (rule.requireAdmin && !approvals.some((v) => v.isAdmin)) return 'pending';
+
+  return 'approved';
+}
+
+/**
+ * Human readable summary of what an approval request still needs
+ */
+export function describeApprovalProgress(rule: ApprovalRule, votes: ApprovalVote[]): string {
+  const approvals = votes.filter((v) => v.approved);
+  const parts = [`${approvals.length}/${rule.minApprovers} approvals`];
+  if (rule.requireAdmin) {
+    parts.push(approvals.some((v) => v.isAdmin) ? 'admin approved' : 'admin approval needed');
+  }
+  return parts.join(', ');
+}
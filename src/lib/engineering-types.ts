@@ -76,9 +76,9 @@ export interface ProjectContext {
   };
 
   // Current state
-  currentPhase: EngineeringPhase;
+  currentPhase: PipelinePhaseId;
   currentAgent: AgentRole;
-  gateStatus: Record<EngineeringPhase, GateStatus>;
+  gateStatus: Record<PipelinePhaseId, GateStatus>;
 
   // Accumulated artifacts
   artifacts: {
@@ -88,6 +88,7 @@ export interface ProjectContext {
     securityAudit?: string; // Security Audit Report
     userGuide?: string; // User Guide
     deploymentGuide?: string; // Deployment Guide
+    custom?: Record<string, string>; // Outputs of team-defined pipeline phases, keyed by artifact name
   };
 
   // Dependency graph
@@ -101,6 +102,11 @@ export interface ProjectContext {
   lastActivityAt: Date;
 }
 
+/**
+ * Named (built-in) artifact slots on a project context
+ */
+export type ArtifactType = Exclude<keyof ProjectContext['artifacts'], 'custom'>;
+
 // =============================================================================
 // ENGINEERING PHASES
 // =============================================================================
@@ -118,8 +124,14 @@ export type EngineeringPhase =
   | 'staging' // Pre-production verification
   | 'launch'; // Final deployment
 
+/**
+ * Phase identifier within a pipeline.
+ * Built-in phases use their EngineeringPhase name; team-defined phases use any slug.
+ */
+export type PipelinePhaseId = string;
+
 export interface GateStatus {
-  phase: EngineeringPhase;
+  phase: PipelinePhaseId;
   status: 'pending' | 'in_progress' | 'passed' | 'failed' | 'skipped';
   passedAt?: Date;
   failedReason?: string;
@@ -254,6 +266,96 @@ export const ENGINEERING_PHASES: PhaseConfig[] = [
   },
 ];
 
+// =============================================================================
+// PHASE PIPELINES
+// =============================================================================
+
+/**
+ * A phase inside a team-defined pipeline.
+ * Phases whose dependencies are all passed (or skipped) run in parallel.
+ */
+export interface PipelinePhase extends Omit<PhaseConfig, 'phase'> {
+  id: PipelinePhaseId;
+  basePhase?: EngineeringPhase; // Built-in phase whose agent behavior this phase reuses
+  dependsOn: PipelinePhaseId[]; // Phases that must pass before this one starts
+  instructions?: string; // Extra guidance given to the agent for custom phases
+  approvalRule?: ApprovalRule; // Who must sign off when requiresApproval is set
+}
+
+/**
+ * Versioned pipeline definition stored against a team (optionally per project)
+ */
+export interface PipelineDefinition {
+  id: string | null; // null for the built-in default pipeline
+  name: string;
+  version: number;
+  phases: PipelinePhase[];
+}
+
+// =============================================================================
+// APPROVALS
+// =============================================================================
+
+/**
+ * Sign-off rule for a phase gate, e.g. "2 approvers, one must be a team admin"
+ */
+export interface ApprovalRule {
+  minApprovers: number;
+  requireAdmin: boolean; // At least one approver must be a team owner or admin
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface ApprovalVote {
+  userId: string;
+  approved: boolean;
+  isAdmin: boolean;
+  feedback?: string;
+  votedAt: Date;
+}
+
+// =============================================================================
+// BRANCHES
+// =============================================================================
+
+/**
+ * How one artifact differs between two branches of a session
+ */
+export interface ArtifactComparison {
+  name: string; // prd, techSpec, ... or a custom artifact name
+  status: 'same' | 'changed' | 'only_left' | 'only_right';
+  added: number;
+  removed: number;
+  lines: Array<{ type: 'equal' | 'added' | 'removed'; text: string } | { type: 'skipped'; count: number }>;
+}
+
+// =============================================================================
+// BUDGETS
+// =============================================================================
+
+/**
+ * Spending limits for a session (lifetime) or a team (calendar month).
+ * null means unlimited.
+ */
+export interface BudgetLimits {
+  maxInputTokens: number | null;
+  maxOutputTokens: number | null;
+  maxCostCents: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costMicros: number; // USD millionths
+}
+
+export interface UsageBreakdown {
+  totals: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byPhase: Record<string, UsageTotals>;
+}
+
 // =============================================================================
 // AGENT SYSTEM
 // =============================================================================
@@ -1462,7 +1564,7 @@ export interface AgentDecision {
   id: string;
   timestamp: Date;
   agent: AgentRole;
-  phase: EngineeringPhase;
+  phase: PipelinePhaseId;
   decision: string; // What was decided
   reasoning: string; // Why this decision
   alternatives: string[]; // What else was considered
@@ -1546,7 +1648,8 @@ export interface GeneratedDocument {
 export interface EngineeringProgress {
   projectId: string;
   projectName: string;
-  currentPhase: EngineeringPhase;
+  currentPhase: PipelinePhaseId;
+  activePhases: PipelinePhaseId[]; // More than one when parallel branches are running
   overallProgress: number; // 0-100
   phases: PhaseProgress[];
   activeAgents: AgentRole[];
@@ -1556,8 +1659,9 @@ export interface EngineeringProgress {
 }
 
 export interface PhaseProgress {
-  phase: EngineeringPhase;
+  phase: PipelinePhaseId;
   displayName: string;
+  dependsOn: PipelinePhaseId[];
   status: 'pending' | 'in_progress' | 'passed' | 'failed' | 'skipped';
   progress: number; // 0-100
   startedAt?: Date;
@@ -0,0 +1,66 @@
+/**
+ * ENGINEERING USAGE
+ *
+ * Token pricing and budget checks for engineering sessions.
+ * Pure functions so the same rules apply in services, routes and pages.
+ */
+
+import { BudgetLimits, UsageTotals } from './engineering-types';
+
+interface ModelPricing {
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number; // USD per million output tokens
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-opus-4-20250514': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+};
+
+// Unknown models are priced like Sonnet so they never look free
+const FALLBACK_PRICING = MODEL_PRICING['claude-sonnet-4-20250514'];
+
+export const EMPTY_USAGE: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costMicros: 0 };
+
+/**
+ * Cost of one call in USD millionths (1 token at $3/M = 3 micros)
+ */
+export function calculateCostMicros(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING[model] ?? FALLBACK_PRICING;
+  return Math.ceil(inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion);
+}
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    calls: a.calls + b.calls,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costMicros: a.costMicros + b.costMicros,
+  };
+}
+
+export function formatCost(costMicros: number): string {
+  return `$${(costMicros / 1_000_000).toFixed(2)}`;
+}
+
+/**
+ * Which limit (if any) the usage has reached
+ * @returns a reason suitable for showing to the user, or null if within budget
+ */
+export function getBudgetExceededReason(
+  limits: BudgetLimits,
+  usage: UsageTotals,
+  label: string
+): string | null {
+  if (limits.maxCostCents !== null && usage.costMicros >= limits.maxCostCents * 10_000) {
+    return `${label} cost budget of ${formatCost(limits.maxCostCents * 10_000)} reached (${formatCost(usage.costMicros)} spent)`;
+  }
+  if (limits.maxInputTokens !== null && usage.inputTokens >= limits.maxInputTokens) {
+    return `${label} input token budget of ${limits.maxInputTokens.toLocaleString('en-US')} reached`;
+  }
+  if (limits.maxOutputTokens !== null && usage.outputTokens >= limits.maxOutputTokens) {
+    return `${label} output token budget of ${limits.maxOutputTokens.toLocaleString('en-US')} reached`;
+  }
+  return null;
+}
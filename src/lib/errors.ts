@@ -73,6 +73,31 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * Concurrent modification error (409)
+ * The record changed after it was read, so the write was rejected
+ */
+export class ConcurrencyError extends AppError {
+  constructor(message: string = 'Resource was modified by another request') {
+    super(message, 'CONCURRENCY_CONFLICT', 409);
+  }
+}
+
+/**
+ * Plan limit error (402)
+ * A seat limit or monthly usage quota of the team's plan has been reached
+ */
+export class PlanLimitError extends AppError {
+  public readonly limit: number;
+  public readonly used: number;
+
+  constructor(message: string, limit: number, used: number) {
+    super(message, 'PLAN_LIMIT_REACHED', 402);
+    this.limit = limit;
+    this.used = used;
+  }
+}
+
 /**
  * Rate limit error (429)
  */
@@ -0,0 +1,98 @@
+/**
+ * USAGE METERING
+ *
+ * Plan quotas for what a team consumes each calendar month - pattern fetches,
+ * engineering sessions and engineering tokens - and seat limits. Quotas come
+ * from subscription_pricing; null means unlimited.
+ *
+ * Everything here is pure - counting usage and enforcing quotas happens in
+ * MeteringService and TeamInviteService.
+ */
+
+export type UsageMeter = 'patternFetches' | 'engineeringSessions' | 'tokens';
+
+export type PlanQuotas = Record<UsageMeter, number | null>;
+export type MeteredUsage = Record<UsageMeter, number>;
+
+export interface QuotaStatus {
+  meter: UsageMeter;
+  label: string;
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  percentUsed: number | null;
+  exceeded: boolean;
+}
+
+export const USAGE_METERS: UsageMeter[] = ['patternFetches', 'engineeringSessions', 'tokens'];
+
+export const METER_LABELS: Record<UsageMeter, string> = {
+  patternFetches: 'Pattern fetches',
+  engineeringSessions: 'Engineering sessions',
+  tokens: 'Engineering tokens',
+};
+
+export const UNLIMITED_QUOTAS: PlanQuotas = { patternFetches: null, engineeringSessions: null, tokens: null };
+
+/**
+ * The calendar month containing the date
+ */
+export function usagePeriod(date: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(date.getFullYear(), date.getMonth(), 1),
+    end: new Date(date.getFullYear(), date.getMonth() + 1, 1),
+  };
+}
+
+export function getQuotaStatus(quotas: PlanQuotas, usage: MeteredUsage): QuotaStatus[] {
+  return USAGE_METERS.map((meter) => {
+    const limit = quotas[meter];
+    const used = usage[meter];
+    return {
+      meter,
+      label: METER_LABELS[meter],
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      percentUsed: limit === null ? null : limit === 0 ? 100 : Math.min(100, Math.round((used / limit) * 100)),
+      exceeded: limit !== null && used >= limit,
+    };
+  });
+}
+
+/**
+ * Whether consuming `amount` more of a meter would go over the plan quota
+ * @returns a reason suitable for showing to the user, or null if allowed
+ */
+export function getQuotaExceededReason(
+  quotas: PlanQuotas,
+  usage: MeteredUsage,
+  meter: UsageMeter,
+  amount: number = 1
+): string | null {
+  const limit = quotas[meter];
+  if (limit === null || usage[meter] + amount <= limit) return null;
+
+  return `Monthly ${METER_LABELS[meter].toLowerCase()} quota of ${limit.toLocaleString('en-US')} reached ` +
+    `(${usage[meter].toLocaleString('en-US')} used) - upgrade your plan or wait for the next billing month`;
+}
+
+/**
+ * Whether the team can take on `adding` more people
+ * @param pendingInvites - Outstanding invites already hold a seat
+ * @returns a reason suitable for showing to the user, or null if allowed
+ */
+export function getSeatLimitReason(
+  seatLimit: number | null,
+  members: number,
+  pendingInvites: number,
+  adding: number = 1
+): string | null {
+  if (!seatLimit || members + pendingInvites + adding <= seatLimit) return null;
+
+  const taken = pendingInvites > 0
+    ? `${members} members and ${pendingInvites} pending invites`
+    : `${members} members`;
+  return `Your plan includes ${seatLimit} seat${seatLimit === 1 ? '' : 's'} and you have ${taken}. ` +
+    'Upgrade your plan or revoke an invite to add more people.';
+}
@@ -0,0 +1,126 @@
+/**
+ * MODEL REPLAY
+ *
+ * Record/replay for Anthropic calls. In record mode every request/response
+ * pair is written to a cassette (a JSON fixture); in replay mode responses come
+ * from the cassette instead of the network, so the agent pipeline runs the
+ * same way every time and needs no API key.
+ *
+ * Enabled through the environment, outside production only:
+ *   ANTHROPIC_REPLAY=record|replay
+ *   ANTHROPIC_CASSETTE=tests/fixtures/cassettes/my-build.json
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+export type ReplayMode = 'off' | 'record' | 'replay';
+
+export interface ModelRequest {
+  model: string;
+  max_tokens: number;
+  system: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export interface CassetteEntry {
+  fingerprint: string;
+  request: ModelRequest;
+  response: unknown;
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+type SendRequest = (request: ModelRequest) => Promise<unknown>;
+
+// Values that change between runs of the same build (session IDs, timestamps)
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>'],
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g, '<timestamp>'],
+];
+
+function normalize(text: string): string {
+  return VOLATILE_PATTERNS.reduce((result, [pattern, placeholder]) => result.replace(pattern, placeholder), text);
+}
+
+export function getReplayMode(): ReplayMode {
+  // A stray env var must never make production serve recorded responses
+  if (process.env.NODE_ENV === 'production') return 'off';
+
+  const mode = process.env.ANTHROPIC_REPLAY;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+/**
+ * Stable key for a request. IDs and timestamps are masked so a replayed build
+ * (with a new session ID) still finds the responses recorded for the original.
+ */
+export function fingerprintRequest(request: ModelRequest): string {
+  const canonical = JSON.stringify({
+    model: request.model,
+    max_tokens: request.max_tokens,
+    system: normalize(request.system),
+    messages: request.messages.map((m) => ({ role: m.role, content: normalize(m.content) })),
+  });
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+export function loadCassette(path: string): Cassette {
+  if (!existsSync(path)) {
+    return { version: 1, entries: [] };
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as Cassette;
+}
+
+export function saveCassette(path: string, cassette: Cassette): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(cassette, null, 2) + '\n');
+}
+
+/**
+ * Wrap a live sender so every call is appended to the cassette on disk
+ */
+export function createRecorder(path: string, send: SendRequest): SendRequest {
+  const cassette = loadCassette(path);
+
+  return async (request) => {
+    const response = await send(request);
+    cassette.entries.push({
+      fingerprint: fingerprintRequest(request),
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+    saveCassette(path, cassette);
+    return response;
+  };
+}
+
+/**
+ * Answer requests from a cassette. Identical requests get their recorded
+ * responses in order, so retries replay the same way they were recorded.
+ */
+export function createReplayer(cassette: Cassette, source = 'cassette'): SendRequest {
+  const used = new Set<number>();
+
+  return async (request) => {
+    const fingerprint = fingerprintRequest(request);
+    const index = cassette.entries.findIndex((entry, i) => !used.has(i) && entry.fingerprint === fingerprint);
+
+    if (index === -1) {
+      throw new Error(
+        `No recorded response for ${request.model} request ${fingerprint} in ${source} - ` +
+        'record it again with ANTHROPIC_REPLAY=record'
+      );
+    }
+
+    used.add(index);
+    // Callers may mutate what they get back; the cassette must stay intact
+    return structuredClone(cassette.entries[index].response);
+  };
+}
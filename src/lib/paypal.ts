@@ -145,23 +145,123 @@ export async function createPayPalSubscription(params: {
   }
 }
 
+interface PayPalSubscriptionDetails {
+  id: string;
+  status: string;
+  custom_id?: string;
+  plan_id?: string;
+  start_time?: string;
+  billing_info?: {
+    next_billing_time?: string;
+    last_payment?: { time?: string };
+  };
+}
+
+async function fetchPayPalSubscription(subscriptionId: string): Promise<Response> {
+  const accessToken = await getPayPalAccessToken();
+
+  return fetch(
+    `${getPayPalBaseUrl()}/v1/billing/subscriptions/${subscriptionId}`,
+    {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+    }
+  );
+}
+
 /**
  * Get PayPal subscription details
  */
 export async function getPayPalSubscription(
   subscriptionId: string
-): Promise<{ id: string; status: string; custom_id?: string }> {
+): Promise<PayPalSubscriptionDetails> {
+  try {
+    const response = await fetchPayPalSubscription(subscriptionId);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.message || errorData.error_description || `HTTP ${response.status}`
+      );
+    }
+
+    return response.json();
+  } catch (error) {
+    console.error('[PayPal] Failed to get subscription:', error);
+    if (error instanceof ExternalServiceError) throw error;
+    throw new ExternalServiceError(
+      'PayPal',
+      error instanceof Error ? error.message : 'Failed to get subscription'
+    );
+  }
+}
+
+/**
+ * Get PayPal subscription details, or null if PayPal has no record of it
+ * (PayPal has no API to list subscriptions, so reconciliation looks them up one by one)
+ */
+export async function findPayPalSubscription(
+  subscriptionId: string
+): Promise<PayPalSubscriptionDetails | null> {
+  try {
+    const response = await fetchPayPalSubscription(subscriptionId);
+    if (response.status === 404) return null;
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.message || errorData.error_description || `HTTP ${response.status}`
+      );
+    }
+
+    return response.json();
+  } catch (error) {
+    console.error('[PayPal] Failed to find subscription:', error);
+    if (error instanceof ExternalServiceError) throw error;
+    throw new ExternalServiceError(
+      'PayPal',
+      error instanceof Error ? error.message : 'Failed to get subscription'
+    );
+  }
+}
+
+/**
+ * Move a subscription to another plan. PayPal needs the subscriber to approve
+ * the revision, so this returns the link to send them to.
+ * @param effectiveTime - When the new plan starts (defaults to now)
+ */
+export async function revisePayPalSubscription(params: {
+  subscriptionId: string;
+  planId: string;
+  returnUrl: string;
+  cancelUrl: string;
+  effectiveTime?: Date;
+}): Promise<{ approvalUrl: string | null }> {
   try {
     const accessToken = await getPayPalAccessToken();
 
     const response = await fetch(
-      `${getPayPalBaseUrl()}/v1/billing/subscriptions/${subscriptionId}`,
+      `${getPayPalBaseUrl()}/v1/billing/subscriptions/${params.subscriptionId}/revise`,
       {
-        method: 'GET',
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
+        body: JSON.stringify({
+          plan_id: params.planId,
+          effective_time: params.effectiveTime?.toISOString(),
+          application_context: {
+            brand_name: 'CodeBakers',
+            locale: 'en-US',
+            shipping_preference: 'NO_SHIPPING',
+            return_url: params.returnUrl,
+            cancel_url: params.cancelUrl,
+          },
+        }),
       }
     );
 
@@ -172,13 +272,14 @@ export async function getPayPalSubscription(
       );
     }
 
-    return response.json();
+    const data: { links?: Array<{ rel: string; href: string }> } = await response.json();
+    return { approvalUrl: data.links?.find((link) => link.rel === 'approve')?.href || null };
   } catch (error) {
-    console.error('[PayPal] Failed to get subscription:', error);
+    console.error('[PayPal] Failed to revise subscription:', error);
     if (error instanceof ExternalServiceError) throw error;
     throw new ExternalServiceError(
       'PayPal',
-      error instanceof Error ? error.message : 'Failed to get subscription'
+      error instanceof Error ? error.message : 'Failed to change subscription plan'
     );
   }
 }
@@ -0,0 +1,94 @@
+/**
+ * PLAN CHANGES
+ *
+ * Rules for moving a team between plans. Downgrades wait for the end of the
+ * billing period, and when the smaller plan has fewer seats the team chooses
+ * which members and API keys stay.
+ *
+ * Everything here is pure - provider calls and applying changes happen in
+ * PlanChangeService.
+ */
+
+import type { BillingPlan } from './billing-events';
+
+export type PlanChangeDirection = 'upgrade' | 'downgrade' | 'none';
+
+/** Plans a team can move between on its own (enterprise is set up by sales) */
+export type ChangeablePlan = 'pro' | 'team' | 'agency';
+
+const PLAN_ORDER: BillingPlan[] = ['beta', 'pro', 'team', 'agency', 'enterprise'];
+
+export function getPlanChangeDirection(from: BillingPlan, to: BillingPlan): PlanChangeDirection {
+  const diff = PLAN_ORDER.indexOf(to) - PLAN_ORDER.indexOf(from);
+  return diff > 0 ? 'upgrade' : diff < 0 ? 'downgrade' : 'none';
+}
+
+/**
+ * A plan allows one active API key per seat
+ */
+export function apiKeyLimit(seats: number): number {
+  return seats;
+}
+
+export interface DowngradeSelection {
+  keepMemberIds?: string[];
+  keepApiKeyIds?: string[];
+}
+
+export interface DowngradeCandidates {
+  seats: number; // Seats on the new plan
+  ownerMemberId: string | null;
+  memberIds: string[]; // Earliest joined first
+  activeApiKeyIds: string[]; // Most recently used first
+}
+
+/**
+ * Problems with the members and keys a team picked to keep. A selection is
+ * only required for what doesn't fit the new plan.
+ */
+export function validateDowngradeSelection(candidates: DowngradeCandidates, selection: DowngradeSelection): string[] {
+  const errors: string[] = [];
+  const keyLimit = apiKeyLimit(candidates.seats);
+
+  if (candidates.memberIds.length > candidates.seats) {
+    const keep = selection.keepMemberIds;
+    if (!keep) {
+      errors.push(`The new plan has ${candidates.seats} seat${candidates.seats === 1 ? '' : 's'} - choose which of your ${candidates.memberIds.length} members to keep`);
+    } else {
+      if (keep.some((id) => !candidates.memberIds.includes(id))) errors.push('Some selected members are not on this team');
+      if (candidates.ownerMemberId && !keep.includes(candidates.ownerMemberId)) errors.push('The team owner must be kept');
+      if (new Set(keep).size > candidates.seats) errors.push(`Keep at most ${candidates.seats} member${candidates.seats === 1 ? '' : 's'}`);
+    }
+  }
+
+  if (candidates.activeApiKeyIds.length > keyLimit) {
+    const keep = selection.keepApiKeyIds;
+    if (!keep) {
+      errors.push(`The new plan allows ${keyLimit} API key${keyLimit === 1 ? '' : 's'} - choose which of your ${candidates.activeApiKeyIds.length} keys to keep`);
+    } else {
+      if (keep.some((id) => !candidates.activeApiKeyIds.includes(id))) errors.push('Some selected API keys are not active keys of this team');
+      if (new Set(keep).size > keyLimit) errors.push(`Keep at most ${keyLimit} API key${keyLimit === 1 ? '' : 's'}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Which candidates survive a limit. Without a selection (or when things
+ * changed since it was made) the required ones and then the first candidates
+ * in order are kept.
+ */
+export function selectSurvivors(
+  candidates: string[],
+  limit: number,
+  selected: string[] | null,
+  required: string[] = []
+): { keep: string[]; remove: string[] } {
+  if (candidates.length <= limit) return { keep: candidates, remove: [] };
+
+  const preferred = [...required, ...(selected ?? candidates)];
+  const keep = [...new Set(preferred.filter((id) => candidates.includes(id)))].slice(0, limit);
+
+  return { keep, remove: candidates.filter((id) => !keep.includes(id)) };
+}
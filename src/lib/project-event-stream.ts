@@ -0,0 +1,127 @@
+/**
+ * PROJECT EVENT STREAM
+ *
+ * Project events are pushed to the dashboard and the public progress page as
+ * server-sent events. Each message carries the event's ID, so a browser that
+ * reconnects sends it back as Last-Event-ID and resumes where it stopped.
+ * Streams can be narrowed to some event types and to one phase.
+ *
+ * The public feed only carries events the team marked public, stripped down
+ * to their type, title and time.
+ *
+ * Everything here is pure - events are polled and streamed by
+ * ProjectEventStreamService.
+ */
+
+import type { ProjectEvent, ProjectEventType } from '@/db/schema';
+
+export type EventFeed = 'team' | 'public';
+
+export interface EventStreamFilter {
+  types: ProjectEventType[] | null; // null for every type
+  phaseId: string | null;
+}
+
+export interface PublicProjectEvent {
+  id: string;
+  eventType: ProjectEventType;
+  title: string;
+  occurredAt: Date | null;
+}
+
+export const EVENT_STREAM_SETTINGS = {
+  pollIntervalMs: 2000,
+  // Events per message - a client that falls behind catches up in batches
+  batchSize: 50,
+  // Events this recent may still have concurrent inserts committing before them
+  settleMs: 1000,
+  heartbeatMs: 15_000,
+  // Serverless functions time out; the browser reconnects with Last-Event-ID
+  maxConnectionMs: 5 * 60_000,
+  retryMs: 3000,
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Event type and phase filters from a stream URL:
+ * ?types=test_passed,test_failed&phaseId=<uuid>
+ * @returns the filter, and the parameters that were invalid if any
+ */
+export function parseEventStreamFilter(
+  params: URLSearchParams,
+  knownTypes: readonly ProjectEventType[]
+): { filter: EventStreamFilter; errors: Record<string, string[]> } {
+  const errors: Record<string, string[]> = {};
+
+  const requested = [...new Set((params.get('types') ?? '').split(',').map((t) => t.trim()).filter(Boolean))];
+  const unknown = requested.filter((t) => !knownTypes.includes(t as ProjectEventType));
+  if (unknown.length > 0) errors.types = unknown;
+
+  const phaseId = params.get('phaseId') || null;
+  if (phaseId && !UUID_PATTERN.test(phaseId)) errors.phaseId = [phaseId];
+
+  return {
+    filter: {
+      types: requested.length > 0 ? (requested as ProjectEventType[]) : null,
+      phaseId,
+    },
+    errors,
+  };
+}
+
+/**
+ * The event to resume after: Last-Event-ID when the browser reconnects,
+ * otherwise ?after= from the page's first connection. Null to start from
+ * the newest event.
+ */
+export function parseStreamCursor(headers: Headers, params: URLSearchParams): string | null {
+  const cursor = headers.get('last-event-id') || params.get('after');
+  return cursor && UUID_PATTERN.test(cursor) ? cursor : null;
+}
+
+/**
+ * One server-sent event. Data is JSON on a single line, so it never needs
+ * splitting across data: fields.
+ */
+export function formatSseEvent(id: string, event: string, data: unknown): string {
+  return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export function formatSseComment(comment: string): string {
+  return `: ${comment}\n\n`;
+}
+
+export function formatSseRetry(ms: number): string {
+  return `retry: ${ms}\n\n`;
+}
+
+/**
+ * What a public page may show of an event - no descriptions, files, data,
+ * phases or risk details
+ */
+export function redactPublicEvent(event: ProjectEvent): PublicProjectEvent {
+  return {
+    id: event.id,
+    eventType: event.eventType,
+    title: event.eventTitle,
+    occurredAt: event.createdAt,
+  };
+}
+
+/**
+ * IDs of the test run or risk flag an event was recorded for
+ */
+export function getEventRecordIds(event: ProjectEvent): { testRunId: string | null; riskFlagId: string | null } {
+  let data: Record<string, unknown> = {};
+  try {
+    data = event.eventData ? JSON.parse(event.eventData) : {};
+  } catch {
+    // Event data is free-form from the CLI; unparseable data links nothing
+  }
+
+  return {
+    testRunId: typeof data.testRunId === 'string' ? data.testRunId : null,
+    riskFlagId: typeof data.riskFlagId === 'string' ? data.riskFlagId : null,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * PROJECT SNAPSHOTS
+ *
+ * Snapshots are content-addressed: a snapshot is a manifest of paths and the
+ * sha256 of each file's bytes, and the bytes are stored once per project as a
+ * blob however many snapshots share them. Comparing two snapshots only needs
+ * their manifests; a line diff is computed for a single file on request.
+ *
+ * Everything here is pure - blobs and manifests are stored by
+ * ProjectSnapshotService. The CLI keeps its own copy of the path rules
+ * (cli/src/lib/snapshots.ts), since it must refuse the same paths on restore.
+ */
+
+import { createHash } from 'crypto';
+
+export type BlobEncoding = 'utf8' | 'base64';
+
+export interface SnapshotEntry {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+export interface ModifiedEntry {
+  path: string;
+  before: SnapshotEntry;
+  after: SnapshotEntry;
+}
+
+export interface SnapshotDiff {
+  added: SnapshotEntry[];
+  removed: SnapshotEntry[];
+  modified: ModifiedEntry[];
+  unchanged: number;
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number; // 1-based
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export const SNAPSHOT_LIMITS = {
+  maxFileBytes: 1024 * 1024, // Larger files (builds, media) are left out by the CLI
+  maxFiles: 5000,
+};
+
+// Lines of unchanged context kept around each change
+const HUNK_CONTEXT = 3;
+
+// Past this many line comparisons the file is shown as replaced wholesale
+const MAX_LINE_DIFF_CELLS = 4_000_000;
+
+/**
+ * sha256 of a file's raw bytes, hex encoded
+ */
+export function hashBlob(bytes: Buffer | string): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+export function isBlobHash(hash: string): boolean {
+  return /^[0-9a-f]{64}$/.test(hash);
+}
+
+export function decodeBlob(content: string, encoding: BlobEncoding): Buffer {
+  return Buffer.from(content, encoding);
+}
+
+/**
+ * A project-relative path with forward slashes, or null for paths that
+ * could escape the project (absolute, drive letters, "..")
+ */
+export function normalizeSnapshotPath(path: string): string | null {
+  const normalized = path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  if (!normalized || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) return null;
+
+  const segments = normalized.split('/');
+  if (segments.some((s) => s === '' || s === '.' || s === '..')) return null;
+
+  return normalized;
+}
+
+/**
+ * Files added, removed and modified between two manifests
+ */
+export function diffManifests(from: SnapshotEntry[], to: SnapshotEntry[]): SnapshotDiff {
+  const before = new Map(from.map((entry) => [entry.path, entry]));
+  const afterPaths = new Set(to.map((entry) => entry.path));
+  const diff: SnapshotDiff = { added: [], removed: [], modified: [], unchanged: 0 };
+
+  for (const entry of to) {
+    const previous = before.get(entry.path);
+    if (!previous) {
+      diff.added.push(entry);
+    } else if (previous.hash !== entry.hash) {
+      diff.modified.push({ path: entry.path, before: previous, after: entry });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const entry of from) {
+    if (!afterPaths.has(entry.path)) diff.removed.push(entry);
+  }
+
+  const byPath = (a: { path: string }, b: { path: string }) => a.path.localeCompare(b.path);
+  diff.added.sort(byPath);
+  diff.removed.sort(byPath);
+  diff.modified.sort(byPath);
+
+  return diff;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop(); // Trailing newline
+  return lines;
+}
+
+/**
+ * Every line of both texts in order, marked as kept, added or removed
+ * (longest common subsequence)
+ */
+function compareLines(before: string[], after: string[]): DiffLine[] {
+  // Shared prefix and suffix don't need the table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const head: DiffLine[] = before.slice(0, start).map((text) => ({ type: 'context', text }));
+  const tail: DiffLine[] = before.slice(endBefore).map((text) => ({ type: 'context', text }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  if (a.length * b.length > MAX_LINE_DIFF_CELLS) {
+    return [
+      ...head,
+      ...a.map((text): DiffLine => ({ type: 'removed', text })),
+      ...b.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = LCS of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      middle.push({ type: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      middle.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      middle.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Line diff of two versions of a file, grouped into hunks with a few lines of
+ * context around each change
+ */
+export function diffLines(before: string, after: string): DiffHunk[] {
+  const lines = compareLines(splitLines(before), splitLines(after));
+  const hunks: DiffHunk[] = [];
+
+  let current: DiffHunk | null = null;
+  let oldLine = 1;
+  let newLine = 1;
+  let lastChange = -Infinity;
+
+  lines.forEach((line, index) => {
+    if (line.type !== 'context') {
+      if (!current || index - lastChange > HUNK_CONTEXT * 2) {
+        // Start a hunk with the context before this change
+        const contextStart = Math.max(index - HUNK_CONTEXT, lastChange + HUNK_CONTEXT + 1, 0);
+        const context = lines.slice(contextStart, index);
+        current = { oldStart: oldLine - context.length, newStart: newLine - context.length, lines: [...context] };
+        hunks.push(current);
+      } else {
+        // Close the gap since the previous change in the same hunk
+        current.lines.push(...lines.slice(lastChange + HUNK_CONTEXT + 1, index));
+      }
+      current.lines.push(line);
+      lastChange = index;
+    } else if (current && index - lastChange <= HUNK_CONTEXT) {
+      current.lines.push(line);
+    }
+
+    if (line.type !== 'added') oldLine++;
+    if (line.type !== 'removed') newLine++;
+  });
+
+  return hunks;
+}
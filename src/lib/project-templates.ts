@@ -0,0 +1,27 @@
+/**
+ * PROJECT TEMPLATES
+ *
+ * A template is a versioned package: a manifest plus the files it writes.
+ * Teams publish their own templates; every published version is immutable.
+ *
+ * The package format and its validation rules are shared with the CLI, which
+ * checks templates with the same rules before using or publishing them.
+ * Packages are stored by ProjectTemplateService.
+ */
+
+export type {
+  TemplateVariable,
+  TemplatePostInstallStep,
+  TemplateStack,
+  TemplateManifest,
+  TemplateFile,
+  TemplatePackage,
+} from '../../cli/src/lib/template-package';
+export {
+  TEMPLATE_LIMITS,
+  isTemplateName,
+  isTemplateVersion,
+  compareTemplateVersions,
+  normalizeTemplatePath,
+  validateTemplatePackage,
+} from '../../cli/src/lib/template-package';
@@ -81,11 +81,31 @@ export interface Decision {
   reversible: boolean;
   impact: 'low' | 'medium' | 'high' | 'critical';
 
+  // Typed choices this decision locks in (checked by check_action)
+  constraints?: DecisionConstraint[];
+  supersededBy?: string; // Id of the newer decision that replaced this one
+
   // Related artifacts
   relatedFiles: string[];
   relatedDecisions: string[];
 }
 
+/**
+ * What a decision can constrain, so contradictions are found by comparing
+ * values instead of matching words
+ */
+export type DecisionSubject =
+  | 'storage-location'  // Where data/content lives (server vs client)
+  | 'auth-provider'     // Supabase Auth, Clerk, NextAuth...
+  | 'orm'               // Drizzle, Prisma...
+  | 'state-library'     // Zustand, Redux...
+  | 'deployment-target'; // Vercel, Netlify, AWS...
+
+export interface DecisionConstraint {
+  subject: DecisionSubject;
+  value: string;
+}
+
 export type DecisionCategory =
   | 'architecture'      // Core system design
   | 'tech-stack'        // Technology choices
@@ -139,6 +159,11 @@ export interface Contradiction {
   severity: 'warning' | 'error' | 'critical';
   explanation: string;
   resolution: ContradictionResolution;
+
+  // Set when the conflict was found on a typed subject rather than free text
+  subject?: DecisionSubject;
+  suggestion: string;
+  affectedFiles: string[];
 }
 
 export type ContradictionResolution =
@@ -165,22 +190,58 @@ export interface ScopeLock {
   allowedDirectories: string[]; // Directories that can be touched
   allowedActions: ScopeAction[];
 
+  allowedPatterns: string[];    // Globs; `!pattern` excludes, the last match wins
+  symbolRules: ScopeSymbolRule[]; // Files where only named symbols may change
+
   // Forbidden actions
-  forbiddenFiles: string[];     // Files that must NOT be touched
-  forbiddenPatterns: string[];  // Regex patterns to block
+  forbiddenFiles: string[];     // Files (or globs) that must NOT be touched
+  forbiddenPatterns: string[];  // Path fragments (or globs) to block
 
   // Scope boundaries
   maxNewFiles: number;
   maxModifiedFiles: number;
+  maxLinesChanged: number | null;
   canDeleteFiles: boolean;
   canModifyPackageJson: boolean;
   canModifySchema: boolean;
 
   // Status
   isActive: boolean;
+  changes: ScopeChanges;
   violations: ScopeViolation[];
 }
 
+/**
+ * Limit edits in matching files to named symbols,
+ * e.g. { file: 'team-invite-service.ts', symbols: ['createInvite'] }
+ */
+export interface ScopeSymbolRule {
+  file: string; // File name, path or glob
+  symbols: string[]; // `createInvite`, `TeamInviteService` or `TeamInviteService.createInvite`
+}
+
+/**
+ * What has been approved under the lock so far (counted against the caps)
+ */
+export interface ScopeChanges {
+  createdFiles: string[];
+  modifiedFiles: string[];
+  linesChanged: number;
+}
+
+export type ScopeRuleType =
+  | 'forbidden-pattern'
+  | 'forbidden-file'
+  | 'delete-files'
+  | 'dependencies'
+  | 'schema'
+  | 'action-type'
+  | 'allowed-paths'
+  | 'symbols'
+  | 'max-new-files'
+  | 'max-modified-files'
+  | 'max-lines';
+
 export type ScopeAction =
   | 'create-file'
   | 'modify-file'
@@ -196,6 +257,7 @@ export interface ScopeViolation {
   targetFile: string;
   reason: string;
   blocked: boolean;
+  rule: { type: ScopeRuleType; value: string }; // The rule that matched
 }
 
 // =============================================================================
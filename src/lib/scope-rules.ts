@@ -0,0 +1,266 @@
+/**
+ * SCOPE RULES
+ *
+ * Matching helpers for scope locks: glob patterns (with `!` negations) for
+ * paths, and declaration lookup so edits can be limited to named symbols in a
+ * file.
+ *
+ * Files are parsed with the TypeScript compiler API, so strings, comments,
+ * regex literals and JSX can't confuse which top-level declaration (or class
+ * member) a line belongs to.
+ */
+
+import * as ts from 'typescript';
+import { diffLines } from './text-diff';
+
+export interface CodeSymbol {
+  name: string; // `createInvite` or `TeamInviteService.createInvite`
+  kind: 'function' | 'class' | 'variable' | 'type' | 'member';
+  startLine: number; // 0-based, inclusive
+  endLine: number;
+}
+
+export interface SymbolChanges {
+  symbols: string[]; // Declarations whose lines were added, removed or edited
+  outsideSymbols: boolean; // Something other than imports changed outside any declaration
+  linesChanged: number;
+}
+
+// =============================================================================
+// GLOBS
+// =============================================================================
+
+const GLOB_CHARS = /[*?{}[\]]/;
+
+export function isGlob(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern) || pattern.startsWith('!');
+}
+
+/**
+ * Convert a glob to a RegExp. Supports `**`, `*`, `?`, `{a,b}` and `[abc]`.
+ * A trailing slash matches everything under the directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob.endsWith('/') ? `${glob}**` : glob;
+  let regex = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '*') {
+      if (source[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        const slash = source[i + 2] === '/';
+        regex += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const close = source.indexOf('}', i);
+      if (close === -1) {
+        regex += '\\{';
+        continue;
+      }
+      const options = source.slice(i + 1, close).split(',').map((option) => option.replace(/[.+^$()|\\]/g, '\\$&'));
+      regex += `(?:${options.join('|')})`;
+      i = close;
+    } else if (char === '[') {
+      const close = source.indexOf(']', i);
+      if (close === -1) {
+        regex += '\\[';
+        continue;
+      }
+      regex += source.slice(i, close + 1);
+      i = close;
+    } else {
+      regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+  return globToRegExp(normalizePath(glob)).test(normalizePath(path));
+}
+
+export function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Evaluate an ordered list of patterns; the last one that matches wins, so
+ * `['src/**', '!src/db/**']` allows src except src/db.
+ * @returns the deciding pattern, or null if none matched
+ */
+export function matchPathRules(path: string, patterns: string[]): { allowed: boolean; rule: string } | null {
+  let result: { allowed: boolean; rule: string } | null = null;
+
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    if (matchesGlob(path, negated ? pattern.slice(1) : pattern)) {
+      result = { allowed: !negated, rule: pattern };
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// SYMBOLS
+// =============================================================================
+
+function parse(content: string, fileName: string): ts.SourceFile {
+  return ts.createSourceFile(fileName, content.replace(/\r\n/g, '\n'), ts.ScriptTarget.Latest, true);
+}
+
+function lineOf(file: ts.SourceFile, position: number): number {
+  return file.getLineAndCharacterOfPosition(position).line;
+}
+
+/**
+ * First line of a declaration: its doc comment, decorators and any comments
+ * directly above it (no blank line in between) belong to it
+ */
+function declarationStart(file: ts.SourceFile, node: ts.Node): number {
+  const text = file.getFullText();
+  let start = node.getStart(file, true);
+
+  const comments = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+  for (let i = comments.length - 1; i >= 0; i--) {
+    if (comments[i].pos >= start) continue;
+    if ((text.slice(comments[i].end, start).match(/\n/g) ?? []).length > 1) break;
+    start = comments[i].pos;
+  }
+
+  return lineOf(file, start);
+}
+
+function symbolFor(file: ts.SourceFile, node: ts.Node, name: string, kind: CodeSymbol['kind']): CodeSymbol {
+  return { name, kind, startLine: declarationStart(file, node), endLine: lineOf(file, node.getEnd()) };
+}
+
+function memberName(member: ts.ClassElement, file: ts.SourceFile): string | null {
+  if (ts.isConstructorDeclaration(member)) return 'constructor';
+  if (!member.name) return null;
+  if (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name)) return member.name.text;
+  if (ts.isStringLiteral(member.name) || ts.isNumericLiteral(member.name)) return member.name.text;
+  return member.name.getText(file);
+}
+
+/**
+ * Top-level declarations and class members in a TypeScript/JavaScript file
+ * @param fileName - Decides how the file is parsed (.ts, .tsx, .js, ...)
+ */
+export function findSymbols(content: string, fileName = 'file.ts'): CodeSymbol[] {
+  const file = parse(content, fileName);
+  const symbols: CodeSymbol[] = [];
+
+  for (const statement of file.statements) {
+    if (ts.isFunctionDeclaration(statement)) {
+      symbols.push(symbolFor(file, statement, statement.name?.text ?? 'default', 'function'));
+    } else if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      symbols.push(symbolFor(file, statement, statement.name.text, 'type'));
+    } else if (ts.isVariableStatement(statement)) {
+      // `const a = 1, b = 2` is one statement; each name covers all of it
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          symbols.push(symbolFor(file, statement, declaration.name.text, 'variable'));
+        }
+      }
+    } else if (ts.isClassDeclaration(statement)) {
+      const className = statement.name?.text ?? 'default';
+      symbols.push(symbolFor(file, statement, className, 'class'));
+
+      for (const member of statement.members) {
+        const name = memberName(member, file);
+        if (name && !ts.isSemicolonClassElement(member)) {
+          symbols.push(symbolFor(file, member, `${className}.${name}`, 'member'));
+        }
+      }
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Lines that belong to import/re-export statements (including multi-line ones)
+ */
+function findImportLines(file: ts.SourceFile): Set<number> {
+  const importLines = new Set<number>();
+
+  for (const statement of file.statements) {
+    const isImport = ts.isImportDeclaration(statement)
+      || ts.isImportEqualsDeclaration(statement)
+      || ts.isExportDeclaration(statement);
+    if (!isImport) continue;
+
+    for (let line = lineOf(file, statement.getStart(file)); line <= lineOf(file, statement.getEnd()); line++) {
+      importLines.add(line);
+    }
+  }
+
+  return importLines;
+}
+
+/**
+ * Innermost symbol containing a line
+ */
+function symbolAt(symbols: CodeSymbol[], line: number): CodeSymbol | null {
+  let found: CodeSymbol | null = null;
+  for (const symbol of symbols) {
+    if (line >= symbol.startLine && line <= symbol.endLine) {
+      if (!found || symbol.startLine >= found.startLine) found = symbol;
+    }
+  }
+  return found;
+}
+
+/**
+ * Which declarations an edit touches, from the file before and after
+ * @param fileName - Decides how the file is parsed (.ts, .tsx, .js, ...)
+ */
+export function findChangedSymbols(before: string, after: string, fileName = 'file.ts'): SymbolChanges {
+  const beforeSymbols = findSymbols(before, fileName);
+  const afterSymbols = findSymbols(after, fileName);
+  const beforeImports = findImportLines(parse(before, fileName));
+  const afterImports = findImportLines(parse(after, fileName));
+  const touched = new Set<string>();
+  let outsideSymbols = false;
+  let linesChanged = 0;
+  let beforeLine = 0;
+  let afterLine = 0;
+
+  for (const line of diffLines(before, after)) {
+    if (line.type === 'equal') {
+      beforeLine++;
+      afterLine++;
+      continue;
+    }
+
+    linesChanged++;
+    const [symbols, imports, index] = line.type === 'removed'
+      ? [beforeSymbols, beforeImports, beforeLine++]
+      : [afterSymbols, afterImports, afterLine++];
+
+    const symbol = symbolAt(symbols, index);
+    if (symbol) touched.add(symbol.name);
+    else if (!imports.has(index) && line.text.trim() !== '') outsideSymbols = true;
+  }
+
+  return { symbols: [...touched], outsideSymbols, linesChanged };
+}
+
+/**
+ * Whether a touched symbol is covered by an allowed name.
+ * `createInvite` allows the function or any class member with that name;
+ * `TeamInviteService` allows the whole class.
+ */
+export function isSymbolAllowed(symbol: string, allowed: string[]): boolean {
+  return allowed.some((name) =>
+    symbol === name || symbol.startsWith(`${name}.`) || symbol.endsWith(`.${name}`)
+  );
+}
@@ -139,7 +139,7 @@ export async function cancelSquareSubscription(
  */
 export async function getSquareSubscription(
   subscriptionId: string
-): Promise<{ id: string; status?: string; customerId?: string } | null> {
+): Promise<{ id: string; status?: string; customerId?: string; planVariationId?: string; chargedThroughDate?: string } | null> {
   if (!process.env.SQUARE_ACCESS_TOKEN) {
     throw new ExternalServiceError('Square', 'Square is not configured');
   }
@@ -157,6 +157,8 @@ export async function getSquareSubscription(
       id: response.subscription.id,
       status: response.subscription.status,
       customerId: response.subscription.customerId,
+      planVariationId: response.subscription.planVariationId,
+      chargedThroughDate: response.subscription.chargedThroughDate,
     };
   } catch (error) {
     console.error('[Square] Failed to get subscription:', error);
@@ -167,6 +169,76 @@ export async function getSquareSubscription(
   }
 }
 
+/**
+ * Switch a subscription to another plan variation. Square makes the switch on
+ * the next billing date and doesn't prorate.
+ */
+export async function swapSquareSubscriptionPlan(
+  subscriptionId: string,
+  planVariationId: string
+): Promise<{ id: string; chargedThroughDate?: string }> {
+  if (!process.env.SQUARE_ACCESS_TOKEN) {
+    throw new ExternalServiceError('Square', 'Square is not configured');
+  }
+
+  try {
+    const response = await square.subscriptions.swapPlan({
+      subscriptionId,
+      newPlanVariationId: planVariationId,
+    });
+
+    return {
+      id: response.subscription?.id || subscriptionId,
+      chargedThroughDate: response.subscription?.chargedThroughDate,
+    };
+  } catch (error) {
+    console.error('[Square] Failed to swap subscription plan:', error);
+    throw new ExternalServiceError(
+      'Square',
+      error instanceof Error ? error.message : 'Failed to change subscription plan'
+    );
+  }
+}
+
+/**
+ * One page of subscriptions at our location, for reconciliation
+ * @param cursor - Cursor returned with the previous page
+ */
+export async function listSquareSubscriptions(cursor?: string): Promise<{
+  subscriptions: Array<{ id: string; status?: string; customerId?: string; planVariationId?: string }>;
+  nextCursor: string | null;
+}> {
+  if (!process.env.SQUARE_ACCESS_TOKEN || !SQUARE_LOCATION_ID) {
+    throw new ExternalServiceError('Square', 'Square is not configured');
+  }
+
+  try {
+    const response = await square.subscriptions.search({
+      cursor,
+      limit: 100,
+      query: { filter: { locationIds: [SQUARE_LOCATION_ID] } },
+    });
+
+    return {
+      subscriptions: (response.subscriptions || [])
+        .filter((subscription) => subscription.id)
+        .map((subscription) => ({
+          id: subscription.id!,
+          status: subscription.status,
+          customerId: subscription.customerId,
+          planVariationId: subscription.planVariationId,
+        })),
+      nextCursor: response.cursor || null,
+    };
+  } catch (error) {
+    console.error('[Square] Failed to list subscriptions:', error);
+    throw new ExternalServiceError(
+      'Square',
+      error instanceof Error ? error.message : 'Failed to list subscriptions'
+    );
+  }
+}
+
 /**
  * Verify Square webhook signature
  * @see https://developer.squareup.com/docs/webhooks/step3validate
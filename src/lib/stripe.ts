@@ -45,3 +45,87 @@ export const PLANS = {
 } as const;
 
 export type PlanType = keyof typeof PLANS;
+
+/**
+ * One page of subscriptions in every status, for reconciliation
+ * @param startingAfter - ID of the last subscription on the previous page
+ */
+export async function listStripeSubscriptions(
+  startingAfter?: string
+): Promise<{ subscriptions: Stripe.Subscription[]; nextCursor: string | null }> {
+  const page = await stripe.subscriptions.list({
+    status: 'all',
+    limit: 100,
+    ...(startingAfter ? { starting_after: startingAfter } : {}),
+  });
+
+  const last = page.data[page.data.length - 1];
+  return { subscriptions: page.data, nextCursor: page.has_more && last ? last.id : null };
+}
+
+/**
+ * Get a subscription, or null if Stripe has no record of it
+ */
+export async function getStripeSubscription(subscriptionId: string): Promise<Stripe.Subscription | null> {
+  try {
+    return await stripe.subscriptions.retrieve(subscriptionId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Preview what moving a subscription to another price costs right now
+ * @param prorationDate - Unix time to prorate from; pass the same value to changeStripeSubscriptionPrice
+ * @returns the prorated amount in cents (negative = credit)
+ */
+export async function previewStripePriceChange(
+  subscription: Stripe.Subscription,
+  newPriceId: string,
+  prorationDate: number
+): Promise<{ amount: number; currency: string }> {
+  const preview = await stripe.invoices.createPreview({
+    customer: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+    subscription: subscription.id,
+    subscription_details: {
+      items: [{ id: subscription.items.data[0].id, price: newPriceId }],
+      proration_behavior: 'create_prorations',
+      proration_date: prorationDate,
+    },
+  });
+
+  const amount = preview.lines.data
+    .filter((line) => line.parent?.subscription_item_details?.proration)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  return { amount, currency: preview.currency.toUpperCase() };
+}
+
+/**
+ * Move a subscription to another price
+ * @param prorationDate - Invoice the prorated difference as of this time; omit to switch without proration
+ */
+export async function changeStripeSubscriptionPrice(
+  subscription: Stripe.Subscription,
+  newPriceId: string,
+  plan: string,
+  prorationDate?: number,
+  idempotencyKey?: string
+): Promise<Stripe.Subscription> {
+  return stripe.subscriptions.update(subscription.id, {
+    items: [{ id: subscription.items.data[0].id, price: newPriceId }],
+    proration_behavior: prorationDate ? 'always_invoice' : 'none',
+    ...(prorationDate ? { proration_date: prorationDate } : {}),
+    metadata: { ...subscription.metadata, plan },
+  }, idempotencyKey ? { idempotencyKey } : undefined);
+}
+
+/**
+ * Record which plan a subscription is on, so later webhooks carry it
+ */
+export async function setStripeSubscriptionPlan(subscriptionId: string, plan: string): Promise<void> {
+  await stripe.subscriptions.update(subscriptionId, { metadata: { plan } });
+}
@@ -0,0 +1,172 @@
+/**
+ * TEXT DIFF
+ *
+ * Line-based diff for comparing generated documents (artifacts, modules).
+ * Uses a longest-common-subsequence table; very large inputs fall back to a
+ * coarse prefix/suffix diff so a request can't blow up memory.
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Above this many LCS cells the middle section is reported as replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Diff two texts line by line (`before` -> `after`)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Common prefix and suffix are cheap and usually most of the document
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    result.push(...midA.map((text): DiffLine => ({ type: 'removed', text })));
+    result.push(...midB.map((text): DiffLine => ({ type: 'added', text })));
+  } else {
+    result.push(...lcsDiff(midA, midB));
+  }
+
+  result.push(...a.slice(endA).map((text): DiffLine => ({ type: 'equal', text })));
+  return result;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      result.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+}
+
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, unchanged: 0 };
+  for (const line of lines) {
+    if (line.type === 'added') summary.added++;
+    else if (line.type === 'removed') summary.removed++;
+    else summary.unchanged++;
+  }
+  return summary;
+}
+
+/**
+ * Keep only changed lines plus a few lines of context around them
+ */
+export function collapseUnchanged(lines: DiffLine[], context: number = 3): Array<DiffLine | { type: 'skipped'; count: number }> {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const result: Array<DiffLine | { type: 'skipped'; count: number }> = [];
+  let skipped = 0;
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) result.push({ type: 'skipped', count: skipped });
+      skipped = 0;
+      result.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) result.push({ type: 'skipped', count: skipped });
+
+  return result;
+}
+
+export type SideBySideRow =
+  | { type: 'skipped'; count: number }
+  | { type: 'line'; left: DiffLine | null; right: DiffLine | null };
+
+/**
+ * Pair up a (collapsed) diff into left/right rows.
+ * Removed lines are matched with the added lines that replace them.
+ */
+export function toSideBySide(lines: Array<DiffLine | { type: 'skipped'; count: number }>): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ type: 'line', left: removed[k] ?? null, right: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      // A removal after additions starts a new change block
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push(line.type === 'skipped' ? line : { type: 'line', left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -47,6 +47,42 @@ export const suspendSchema = z.object({
 export const updateLimitsSchema = z.object({
   freeDownloadsLimit: z.number().int().min(0).max(1000).optional(),
   seatLimit: z.number().int().min(1).max(100).optional(),
+  contentChannel: z.enum(['stable', 'beta', 'canary']).optional(),
+});
+
+// Engineering approval schemas
+export const approvalVoteSchema = z.object({
+  approved: z.boolean(),
+  feedback: z.string().max(2000, 'Feedback is too long').optional(),
+});
+
+export const approvalRequestSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(2000, 'Reason is too long'),
+  phase: z.string().min(1).optional(),
+});
+
+export const forkSessionSchema = z.object({
+  phase: z.string().min(1, 'Phase is required'),
+  branchName: z.string().trim().min(1, 'Branch name is required').max(100, 'Branch name is too long'),
+});
+
+export const artifactDiffSchema = z.object({
+  from: z.coerce.number().int().min(1, 'from must be a revision number'),
+  to: z.coerce.number().int().min(1, 'to must be a revision number'),
+});
+
+export const artifactRestoreSchema = z.object({
+  revision: z.number().int().min(1),
+  reason: z.string().max(2000, 'Reason is too long').optional(),
+});
+
+// A missing or null limit means unlimited
+const budgetLimit = z.number().int().min(0).nullable().default(null);
+
+export const budgetSchema = z.object({
+  maxInputTokens: budgetLimit,
+  maxOutputTokens: budgetLimit,
+  maxCostCents: budgetLimit,
 });
 
 // Types
@@ -58,3 +94,9 @@ export type CheckoutInput = z.infer<typeof checkoutSchema>;
 export type SetBetaInput = z.infer<typeof setBetaSchema>;
 export type SuspendInput = z.infer<typeof suspendSchema>;
 export type UpdateLimitsInput = z.infer<typeof updateLimitsSchema>;
+export type ApprovalVoteInput = z.infer<typeof approvalVoteSchema>;
+export type ApprovalRequestInput = z.infer<typeof approvalRequestSchema>;
+export type ForkSessionInput = z.infer<typeof forkSessionSchema>;
+export type ArtifactDiffInput = z.infer<typeof artifactDiffSchema>;
+export type ArtifactRestoreInput = z.infer<typeof artifactRestoreSchema>;
+export type BudgetInput = z.infer<typeof budgetSchema>;
@@ -18,7 +18,7 @@ import { DecisionLogService, DecisionTemplates } from '@/services/decision-log-s
 import { AttemptTrackerService, AttemptCache } from '@/services/attempt-tracker-service';
 import { ScopeLockService, ScopeLockCache } from '@/services/scope-lock-service';
 import { ScoperAgentService, ScopingCache } from '@/services/scoper-agent-service';
-import { SafetyState, GateStatus, Decision, Attempt } from '@/lib/safety-types';
+import { SafetyState, DecisionConstraint, ScopeAction } from '@/lib/safety-types';
 
 // =============================================================================
 // SAFETY STATE MANAGEMENT
@@ -289,6 +289,10 @@ Call this BEFORE making any significant change.`,
     action: z.string().describe('Description of what you\'re about to do'),
     targetFile: z.string().optional().describe('File being modified (if applicable)'),
     actionType: z.enum(['create-file', 'modify-file', 'delete-file', 'add-dependency', 'remove-dependency', 'run-command', 'modify-config']).optional(),
+    symbols: z.array(z.string()).optional().describe('Functions, classes or members being edited'),
+    originalContent: z.string().optional().describe('File content before the edit (to detect touched symbols)'),
+    newContent: z.string().optional().describe('File content after the edit'),
+    linesChanged: z.number().optional().describe('Lines added or removed by the edit'),
   }),
 
   handler: async (input: {
@@ -296,13 +300,18 @@ Call this BEFORE making any significant change.`,
     action: string;
     targetFile?: string;
     actionType?: string;
+    symbols?: string[];
+    originalContent?: string;
+    newContent?: string;
+    linesChanged?: number;
   }) => {
     const state = safetyStateCache.get(input.sessionId);
 
     // Check for contradictions
     const contradiction = ScopeLockService.checkContradiction(
       input.action,
-      state?.decisions || []
+      state?.decisions || [],
+      input.targetFile
     );
 
     if (contradiction) {
@@ -317,6 +326,9 @@ Call this BEFORE making any significant change.`,
         },
         explanation: contradiction.explanation,
         severity: contradiction.severity,
+        subject: contradiction.subject,
+        suggestion: contradiction.suggestion,
+        affectedFiles: contradiction.affectedFiles,
         options: [
           'Cancel this action',
           'Ask user to override the decision',
@@ -331,6 +343,10 @@ Call this BEFORE making any significant change.`,
       const scopeCheck = ScopeLockService.checkAction(scopeLock, {
         type: input.actionType as any,
         targetFile: input.targetFile,
+        symbols: input.symbols,
+        originalContent: input.originalContent,
+        newContent: input.newContent,
+        linesChanged: input.linesChanged,
       });
 
       if (!scopeCheck.allowed) {
@@ -344,6 +360,7 @@ Call this BEFORE making any significant change.`,
           blocked: true,
           reason: 'SCOPE VIOLATION',
           explanation: scopeCheck.reason,
+          rule: scopeCheck.violation?.rule,
           scopeLock: ScopeLockService.formatForDisplay(scopeLock),
           options: [
             'Stay within scope',
@@ -351,6 +368,12 @@ Call this BEFORE making any significant change.`,
           ],
         };
       }
+
+      ScopeLockCache.recordChange(input.sessionId, {
+        type: input.actionType as ScopeAction,
+        targetFile: input.targetFile,
+        linesChanged: scopeCheck.linesChanged,
+      });
     }
 
     // Check if approach was already tried
@@ -501,6 +524,10 @@ Decisions are checked before future actions to prevent contradictions.`,
     reversible: z.boolean().optional().describe('Can this be changed later?'),
     relatedFiles: z.array(z.string()).optional().describe('Files affected by this decision'),
     userApproved: z.boolean().optional().describe('Did the user explicitly approve this?'),
+    constraints: z.array(z.object({
+      subject: z.enum(['storage-location', 'auth-provider', 'orm', 'state-library', 'deployment-target']),
+      value: z.string().describe('Chosen value, e.g. "drizzle", "clerk", "vercel", "server"'),
+    })).optional().describe('Typed choices this decision locks in (inferred from the decision text if omitted)'),
   }),
 
   handler: async (input: {
@@ -513,6 +540,7 @@ Decisions are checked before future actions to prevent contradictions.`,
     reversible?: boolean;
     relatedFiles?: string[];
     userApproved?: boolean;
+    constraints?: DecisionConstraint[];
   }) => {
     const decision = DecisionLogService.createDecision({
       decision: input.decision,
@@ -524,12 +552,17 @@ Decisions are checked before future actions to prevent contradictions.`,
       reversible: input.reversible,
       impact: input.impact,
       relatedFiles: input.relatedFiles,
+      constraints: input.constraints,
     });
 
-    // Update safety state
+    // Update safety state, retiring decisions this one replaces
     const state = safetyStateCache.get(input.sessionId);
+    const superseded = state ? DecisionLogService.findSuperseded(decision, state.decisions) : [];
     if (state) {
-      state.decisions.push(decision);
+      state.decisions = [
+        ...state.decisions.map((d) => superseded.find((s) => s.id === d.id) ?? d),
+        decision,
+      ];
     }
 
     return {
@@ -537,6 +570,9 @@ Decisions are checked before future actions to prevent contradictions.`,
       decisionId: decision.id,
       message: `Decision logged: ${input.decision}`,
       markdown: DecisionLogService.formatDecisionForMarkdown(decision),
+      supersedes: superseded.length > 0
+        ? superseded.map((d) => ({ id: d.id, decision: d.decision, markdown: DecisionLogService.formatDecisionForMarkdown(d) }))
+        : undefined,
       reminder: input.impact === 'critical' || input.impact === 'high'
         ? 'This is a high-impact decision. Future actions will be checked against it.'
         : undefined,
@@ -559,20 +595,38 @@ Prevents scope creep by blocking out-of-scope modifications.`,
     sessionId: z.string().describe('Session ID'),
     userRequest: z.string().describe('The original user request'),
     allowedDirectories: z.array(z.string()).optional().describe('Directories that can be modified'),
-    forbiddenFiles: z.array(z.string()).optional().describe('Files that should not be touched'),
+    allowedPatterns: z.array(z.string()).optional().describe('Globs that can be modified, in order; prefix with ! to exclude (e.g. ["src/**", "!src/db/**"])'),
+    forbiddenFiles: z.array(z.string()).optional().describe('Files or globs that should not be touched'),
+    symbolRules: z.array(z.object({
+      file: z.string().describe('File path or glob'),
+      symbols: z.array(z.string()).describe('Only these functions, classes or members may change'),
+    })).optional().describe('Restrict edits in a file to named symbols'),
+    maxNewFiles: z.number().optional().describe('Maximum files to create'),
+    maxModifiedFiles: z.number().optional().describe('Maximum files to modify'),
+    maxLinesChanged: z.number().optional().describe('Maximum lines changed across the task'),
   }),
 
   handler: async (input: {
     sessionId: string;
     userRequest: string;
     allowedDirectories?: string[];
+    allowedPatterns?: string[];
     forbiddenFiles?: string[];
+    symbolRules?: Array<{ file: string; symbols: string[] }>;
+    maxNewFiles?: number;
+    maxModifiedFiles?: number;
+    maxLinesChanged?: number;
   }) => {
     const scopeLock = ScopeLockService.createScopeLock({
       userRequest: input.userRequest,
       inferredScope: {
         allowedDirectories: input.allowedDirectories,
+        allowedPatterns: input.allowedPatterns,
         forbiddenFiles: input.forbiddenFiles,
+        symbolRules: input.symbolRules,
+        maxNewFiles: input.maxNewFiles,
+        maxModifiedFiles: input.maxModifiedFiles,
+        maxLinesChanged: input.maxLinesChanged,
       },
     });
 
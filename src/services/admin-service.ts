@@ -211,7 +211,7 @@ export class AdminService {
 
   static async updateTeamLimits(
     userId: string,
-    data: { freeDownloadsLimit?: number; seatLimit?: number }
+    data: { freeDownloadsLimit?: number; seatLimit?: number; contentChannel?: 'stable' | 'beta' | 'canary' }
   ) {
     const [team] = await db
       .select()
@@ -31,11 +31,13 @@ export class AnalyticsService {
 
   /**
    * Log multiple pattern fetches at once
+   * @param contentVersion - Version served, for rollout adoption
    */
   static async logPatternFetches(
     teamId: string,
     patternNames: string[],
-    apiKeyId?: string
+    apiKeyId?: string,
+    contentVersion?: string
   ): Promise<void> {
     if (patternNames.length === 0) return;
 
@@ -43,6 +45,7 @@ export class AnalyticsService {
       teamId,
       patternName,
       apiKeyId: apiKeyId || null,
+      contentVersion: contentVersion || null,
     }));
 
     await db.insert(patternUsage).values(values);
@@ -0,0 +1,311 @@
+/**
+ * BILLING EVENT SERVICE
+ *
+ * The single pipeline behind the Stripe, Square and PayPal webhooks. Every
+ * provider event is recorded in payment_events under an idempotency key, then
+ * applied to the team through the subscription state machine:
+ *
+ * - Redeliveries of an event that was already handled are acknowledged and
+ *   ignored; redeliveries of a failed event, or of one abandoned mid-processing,
+ *   try it again.
+ * - Events for one team are applied one at a time under a lock on the team
+ *   row. Events older (by provider timestamp) than one already applied to the
+ *   team are recorded as stale instead of rolling the subscription back.
+ * - Admins can replay any recorded event from its stored payload.
+ */
+
+import { db, paymentEvents, PaymentEvent, PaymentProcessingStatus, Team, teams } from '@/db';
+import { and, eq, ne, sql } from 'drizzle-orm';
+import {
+  BillingEvent,
+  BillingPlan,
+  STARTS_SUBSCRIPTION,
+  SubscriptionTransition,
+  currentSubscriptionId,
+  fromProviderPayload,
+  isForReplacedSubscription,
+  isStaleEvent,
+  normalizeSubscriptionStatus,
+  shouldRedrive,
+  transitionSubscription,
+} from '@/lib/billing-events';
+import { PLANS } from '@/lib/stripe';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { TeamService } from './team-service';
+import { PricingService } from './pricing-service';
+import { TrialService } from './trial-service';
+
+export interface BillingEventResult {
+  paymentEventId: string;
+  status: PaymentProcessingStatus;
+  duplicate: boolean;
+  teamId: string | null;
+  transition?: SubscriptionTransition;
+  error?: string;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class BillingEventService {
+  /**
+   * Record a verified provider event and apply it
+   * @param rawEvent - The provider's payload, kept so the event can be replayed
+   */
+  static async ingest(event: BillingEvent, rawEvent: unknown, requestId: string): Promise<BillingEventResult> {
+    const [inserted] = await db.insert(paymentEvents).values({
+      eventType: event.type,
+      provider: event.provider,
+      providerEventId: event.providerEventId,
+      idempotencyKey: event.idempotencyKey,
+      amount: event.amount ?? null,
+      currency: event.currency || 'USD',
+      plan: event.plan ?? null,
+      subscriptionId: event.subscriptionId ?? null,
+      invoiceId: event.invoiceId ?? null,
+      customerId: event.customerId ?? null,
+      metadata: JSON.stringify(event),
+      rawEvent: JSON.stringify(rawEvent),
+      processed: false,
+      processingStatus: 'pending',
+      eventTimestamp: event.occurredAt,
+    }).onConflictDoNothing({ target: paymentEvents.idempotencyKey }).returning();
+
+    if (inserted) {
+      return { ...await this.process(inserted, event, requestId), duplicate: false };
+    }
+
+    const existing = await db.query.paymentEvents.findFirst({
+      where: eq(paymentEvents.idempotencyKey, event.idempotencyKey),
+    });
+    if (!existing) {
+      throw new Error(`Payment event ${event.idempotencyKey} was neither inserted nor found`);
+    }
+
+    if (shouldRedrive(existing.processingStatus, existing.createdAt)) {
+      return { ...await this.process(existing, event, requestId), duplicate: true };
+    }
+
+    logger.info('Billing: Duplicate event ignored', { requestId, idempotencyKey: event.idempotencyKey });
+    return {
+      paymentEventId: existing.id,
+      status: (existing.processingStatus || 'applied') as PaymentProcessingStatus,
+      duplicate: true,
+      teamId: existing.teamId,
+    };
+  }
+
+  /**
+   * Run a recorded event through the pipeline again, re-translating its stored
+   * payload so adapter fixes apply to old events
+   */
+  static async replay(paymentEventId: string, requestId: string): Promise<BillingEventResult> {
+    const row = await db.query.paymentEvents.findFirst({
+      where: eq(paymentEvents.id, paymentEventId),
+    });
+    if (!row) throw new NotFoundError('Payment event');
+    if (!row.rawEvent) throw new ValidationError('Payment event has no stored payload to replay');
+
+    const event = fromProviderPayload(row.provider, JSON.parse(row.rawEvent));
+    if (!event) throw new ValidationError(`This ${row.provider} event type is not handled`);
+
+    logger.info('Billing: Replaying event', { requestId, paymentEventId, idempotencyKey: row.idempotencyKey });
+    return { ...await this.process(row, event, requestId), duplicate: false };
+  }
+
+  /**
+   * Apply an event to its team and record the outcome on the event row.
+   * Failures are recorded (not thrown) so the caller can decide whether the
+   * provider should retry.
+   */
+  private static async process(row: PaymentEvent, event: BillingEvent, requestId: string): Promise<BillingEventResult> {
+    const processingAttempts = (row.processingAttempts || 0) + 1;
+    let teamId: string | null = null;
+
+    try {
+      const resolved = await this.resolveTeam(event);
+      if (!resolved) {
+        throw new Error(`No team found for ${event.provider} event ${event.providerEventId}`);
+      }
+      teamId = resolved.id;
+
+      const eventPlan = await this.resolvePlan(event);
+      if (event.type === 'subscription_activated' && !eventPlan) {
+        throw new Error(`Cannot map ${event.provider} plan ${event.providerPlanId ?? '(none)'} to a CodeBakers plan`);
+      }
+      const seatLimit = eventPlan ? await this.seatsFor(eventPlan) : undefined;
+
+      // Holding the team row until the update commits stops two events for the
+      // same team from both passing the staleness check
+      const outcome = await db.transaction(async (tx) => {
+        const [team] = await tx.select().from(teams).where(eq(teams.id, resolved.id)).for('update');
+        if (!team) {
+          throw new Error(`Team ${resolved.id} was deleted before ${event.provider} event ${event.providerEventId} was applied`);
+        }
+
+        // Another delivery of this event finished while we waited for the lock
+        const [current] = await tx
+          .select({ processingStatus: paymentEvents.processingStatus, processingAttempts: paymentEvents.processingAttempts })
+          .from(paymentEvents)
+          .where(eq(paymentEvents.id, row.id))
+          .for('update');
+        if (current && (current.processingAttempts || 0) !== (row.processingAttempts || 0)) {
+          return { kind: 'handled' as const, status: (current.processingStatus || 'applied') as PaymentProcessingStatus };
+        }
+
+        const lastAppliedAt = await this.lastAppliedAt(tx, team.id, row.id);
+        if (isStaleEvent(event.occurredAt, lastAppliedAt)) {
+          await this.finish(row.id, { teamId: team.id, processingStatus: 'stale', processingAttempts }, tx);
+          return { kind: 'stale' as const };
+        }
+
+        const currentStatus = normalizeSubscriptionStatus(team.subscriptionStatus) ?? 'inactive';
+        const replaced = isForReplacedSubscription(team, event);
+        const transition = replaced
+          ? { from: currentStatus, to: currentStatus, changed: false }
+          : transitionSubscription(currentStatus, event);
+        const plan = replaced || transition.to === 'canceled' ? undefined : eventPlan;
+
+        await this.applyToTeam(tx, team, event, transition, plan, seatLimit);
+        await this.finish(row.id, {
+          teamId: team.id,
+          processingStatus: 'applied',
+          processingAttempts,
+          previousStatus: transition.from,
+          subscriptionStatus: transition.to,
+          plan: plan ?? row.plan,
+          previousPlan: plan && plan !== team.subscriptionPlan ? team.subscriptionPlan : null,
+        }, tx);
+        return { kind: 'applied' as const, transition, plan };
+      });
+
+      if (outcome.kind === 'handled') {
+        logger.info('Billing: Event already handled by a concurrent delivery', { requestId, teamId, idempotencyKey: event.idempotencyKey });
+        return { paymentEventId: row.id, status: outcome.status, duplicate: true, teamId };
+      }
+
+      if (outcome.kind === 'stale') {
+        logger.info('Billing: Stale event skipped', { requestId, teamId, idempotencyKey: event.idempotencyKey });
+        return { paymentEventId: row.id, status: 'stale', duplicate: false, teamId };
+      }
+
+      const { transition, plan } = outcome;
+      if (STARTS_SUBSCRIPTION.has(event.type) && event.subscriberEmail) {
+        const convertedTrial = await TrialService.markAsConverted(resolved.id, { email: event.subscriberEmail });
+        if (convertedTrial) {
+          logger.billingEvent('Trial converted to paid', resolved.id, requestId, { trialId: convertedTrial.id, plan });
+        }
+      }
+
+      logger.billingEvent(`${event.type} (${transition.from} -> ${transition.to})`, resolved.id, requestId, {
+        provider: event.provider,
+        providerEventId: event.providerEventId,
+      });
+      return { paymentEventId: row.id, status: 'applied', duplicate: false, teamId, transition };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.finish(row.id, { teamId, processingStatus: 'failed', processingAttempts, processingError: message });
+      logger.error('Billing: Event processing failed', { requestId, idempotencyKey: event.idempotencyKey }, error instanceof Error ? error : undefined);
+      return { paymentEventId: row.id, status: 'failed', duplicate: false, teamId, error: message };
+    }
+  }
+
+  private static async resolveTeam(event: BillingEvent): Promise<Team | undefined> {
+    if (event.teamId) {
+      return TeamService.getById(event.teamId);
+    }
+
+    switch (event.provider) {
+      case 'stripe':
+        return event.customerId ? TeamService.getByStripeCustomerId(event.customerId) : undefined;
+      case 'square':
+        return event.customerId ? TeamService.getBySquareCustomerId(event.customerId) : undefined;
+      case 'paypal':
+        return event.subscriptionId ? TeamService.getByPayPalSubscriptionId(event.subscriptionId) : undefined;
+    }
+  }
+
+  /**
+   * Provider timestamp of the newest event already applied to the team
+   */
+  private static async lastAppliedAt(tx: Tx, teamId: string, excludeId: string): Promise<Date | null> {
+    const [row] = await tx
+      .select({ latest: sql<Date | null>`max(${paymentEvents.eventTimestamp})` })
+      .from(paymentEvents)
+      .where(and(
+        eq(paymentEvents.teamId, teamId),
+        eq(paymentEvents.processingStatus, 'applied'),
+        ne(paymentEvents.id, excludeId)
+      ));
+
+    return row?.latest ? new Date(row.latest) : null;
+  }
+
+  private static async resolvePlan(event: BillingEvent): Promise<BillingPlan | undefined> {
+    if (event.plan) return event.plan;
+    if (!event.providerPlanId) return undefined;
+
+    const plans = await PricingService.getAllPlans();
+    const match = plans.find((p) =>
+      [p.stripePriceId, p.stripeYearlyPriceId, p.squarePlanId, p.squareYearlyPlanId, p.paypalPlanId, p.paypalYearlyPlanId]
+        .includes(event.providerPlanId!)
+    );
+    return match?.plan;
+  }
+
+  private static async seatsFor(plan: BillingPlan): Promise<number> {
+    const plans = await PricingService.getAllPlans();
+    return plans.find((p) => p.plan === plan)?.seats ?? PLANS[plan].seats;
+  }
+
+  private static async applyToTeam(
+    tx: Tx,
+    team: Team,
+    event: BillingEvent,
+    transition: SubscriptionTransition,
+    plan: BillingPlan | undefined,
+    seatLimit: number | undefined
+  ): Promise<void> {
+    const data = {
+      subscriptionStatus: transition.to,
+      ...(plan ? { subscriptionPlan: plan, seatLimit } : {}),
+      updatedAt: new Date(),
+    };
+    // Only a new subscription may replace the stored subscription ID
+    const linksSubscription = !currentSubscriptionId(team, event.provider) && !isForReplacedSubscription(team, event);
+    const subscriptionId = STARTS_SUBSCRIPTION.has(event.type) || linksSubscription
+      ? event.subscriptionId
+      : undefined;
+
+    // Same fields as TeamService.update*Info, written inside the locking transaction
+    const providerFields = event.provider === 'stripe'
+      ? { stripeCustomerId: team.stripeCustomerId ? undefined : event.customerId, stripeSubscriptionId: subscriptionId }
+      : event.provider === 'square'
+        ? { squareSubscriptionId: subscriptionId }
+        : { paypalSubscriptionId: subscriptionId };
+
+    // A late event from a provider the team left must not switch it back
+    const paymentProvider = STARTS_SUBSCRIPTION.has(event.type) || !team.paymentProvider ? event.provider : undefined;
+
+    await tx.update(teams)
+      .set({ ...data, ...providerFields, paymentProvider })
+      .where(eq(teams.id, team.id));
+  }
+
+  private static async finish(
+    id: string,
+    data: Partial<Pick<PaymentEvent,
+      'teamId' | 'processingError' | 'previousStatus' | 'subscriptionStatus' | 'plan' | 'previousPlan'
+    >> & { processingStatus: PaymentProcessingStatus; processingAttempts: number },
+    executor: Tx | typeof db = db
+  ): Promise<void> {
+    await executor.update(paymentEvents)
+      .set({
+        processingError: null,
+        ...data,
+        processed: data.processingStatus !== 'failed',
+        processedAt: new Date(),
+      })
+      .where(eq(paymentEvents.id, id));
+  }
+}
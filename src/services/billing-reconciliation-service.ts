@@ -0,0 +1,478 @@
+/**
+ * BILLING RECONCILIATION SERVICE
+ *
+ * Pages through every provider's subscriptions, compares them with teams and
+ * payment events, and stores the differences as a drift report. Safe
+ * corrections are applied right away (and recorded as payment events stamped
+ * with the time the provider was read, so webhooks older than that are treated
+ * as stale and newer ones still apply); the rest wait in admin/subscriptions
+ * for review. Applying a reviewed item reads the provider and the team again
+ * first.
+ */
+
+import {
+  db,
+  teams,
+  paymentEvents,
+  billingReconciliationRuns,
+  billingDriftItems,
+  BillingReconciliationRun,
+  BillingDriftItem,
+  DriftResolution,
+} from '@/db';
+import { and, desc, eq, gt, isNotNull, ne, or } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import { BillingPlan, BillingProvider, normalizeSubscriptionStatus } from '@/lib/billing-events';
+import {
+  BillingProviderClient,
+  DriftCorrection,
+  DriftItem,
+  ProviderSubscription,
+  TeamBillingRecord,
+  findBillingDrift,
+  teamSubscriptionId,
+} from '@/lib/billing-reconciliation';
+import { getStripeSubscription, listStripeSubscriptions } from '@/lib/stripe';
+import { getSquareSubscription, listSquareSubscriptions } from '@/lib/square';
+import { findPayPalSubscription } from '@/lib/paypal';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { TeamService } from './team-service';
+import { PricingService } from './pricing-service';
+
+// Safety net against a provider that never stops returning cursors
+const MAX_PAGES_PER_PROVIDER = 500;
+
+export interface ReconciliationSummary {
+  teamsChecked: number;
+  subscriptionsChecked: Partial<Record<BillingProvider, number>>;
+  providerErrors: Partial<Record<BillingProvider, string>>;
+  drift: number;
+  applied: number;
+  pendingReview: number;
+  byKind: Record<string, number>;
+}
+
+export interface ReconciliationReport {
+  run: BillingReconciliationRun;
+  summary: ReconciliationSummary;
+  items: BillingDriftItem[];
+}
+
+function fromStripeSubscription(subscription: Stripe.Subscription): ProviderSubscription {
+  return {
+    provider: 'stripe',
+    subscriptionId: subscription.id,
+    customerId: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+    teamId: subscription.metadata?.teamId || null,
+    status: normalizeSubscriptionStatus(subscription.status),
+    providerStatus: subscription.status,
+    providerPlanId: subscription.items.data[0]?.price.id ?? null,
+  };
+}
+
+function fromSquareSubscription(subscription: { id: string; status?: string; customerId?: string; planVariationId?: string }): ProviderSubscription {
+  return {
+    provider: 'square',
+    subscriptionId: subscription.id,
+    customerId: subscription.customerId || null,
+    teamId: null,
+    status: normalizeSubscriptionStatus(subscription.status),
+    providerStatus: subscription.status || 'unknown',
+    providerPlanId: subscription.planVariationId || null,
+  };
+}
+
+/**
+ * Clients for every provider that is configured in this environment
+ */
+export function getBillingProviderClients(): BillingProviderClient[] {
+  const clients: BillingProviderClient[] = [];
+
+  if (process.env.STRIPE_SECRET_KEY) {
+    clients.push({
+      provider: 'stripe',
+      listSubscriptions: async (cursor) => {
+        const page = await listStripeSubscriptions(cursor || undefined);
+        return { subscriptions: page.subscriptions.map(fromStripeSubscription), nextCursor: page.nextCursor };
+      },
+      getSubscription: async (subscriptionId) => {
+        const subscription = await getStripeSubscription(subscriptionId);
+        return subscription ? fromStripeSubscription(subscription) : null;
+      },
+    });
+  }
+
+  if (process.env.SQUARE_ACCESS_TOKEN) {
+    clients.push({
+      provider: 'square',
+      listSubscriptions: async (cursor) => {
+        const page = await listSquareSubscriptions(cursor || undefined);
+        return { subscriptions: page.subscriptions.map(fromSquareSubscription), nextCursor: page.nextCursor };
+      },
+      getSubscription: async (subscriptionId) => {
+        const subscription = await getSquareSubscription(subscriptionId);
+        return subscription ? fromSquareSubscription(subscription) : null;
+      },
+    });
+  }
+
+  if (process.env.PAYPAL_CLIENT_ID) {
+    clients.push({
+      provider: 'paypal',
+      getSubscription: async (subscriptionId) => {
+        const subscription = await findPayPalSubscription(subscriptionId);
+        if (!subscription) return null;
+        return {
+          provider: 'paypal',
+          subscriptionId: subscription.id,
+          customerId: null,
+          teamId: subscription.custom_id || null,
+          status: normalizeSubscriptionStatus(subscription.status),
+          providerStatus: subscription.status,
+          providerPlanId: subscription.plan_id || null,
+        };
+      },
+    });
+  }
+
+  return clients;
+}
+
+export class BillingReconciliationService {
+  /**
+   * Run a reconciliation pass
+   * @param options.clients - Provider clients (defaults to the configured real providers)
+   * @param options.applySafe - Apply safe corrections; false produces a report only
+   */
+  static async run(options: {
+    clients?: BillingProviderClient[];
+    applySafe?: boolean;
+    triggeredBy?: string | null;
+  } = {}): Promise<ReconciliationReport> {
+    const clients = options.clients ?? getBillingProviderClients();
+    const applySafe = options.applySafe ?? true;
+
+    const [run] = await db.insert(billingReconciliationRuns).values({
+      applySafe,
+      triggeredBy: options.triggeredBy || null,
+    }).returning();
+
+    try {
+      const teamRecords = await db.select().from(teams).where(or(
+        isNotNull(teams.stripeCustomerId),
+        isNotNull(teams.stripeSubscriptionId),
+        isNotNull(teams.squareCustomerId),
+        isNotNull(teams.squareSubscriptionId),
+        isNotNull(teams.paypalSubscriptionId)
+      ));
+
+      const summary: ReconciliationSummary = {
+        teamsChecked: teamRecords.length,
+        subscriptionsChecked: {},
+        providerErrors: {},
+        drift: 0,
+        applied: 0,
+        pendingReview: 0,
+        byKind: {},
+      };
+
+      // Provider state is read after this point, so corrections based on it are
+      // no newer than this
+      const observedAt = new Date();
+      const subscriptions: ProviderSubscription[] = [];
+      const missing: Array<{ provider: BillingProvider; subscriptionId: string; teamId: string }> = [];
+
+      for (const client of clients) {
+        try {
+          const found = await this.collect(client, teamRecords, missing);
+          subscriptions.push(...found);
+          summary.subscriptionsChecked[client.provider] = found.length;
+        } catch (error) {
+          // Skip the provider rather than report everything it holds as missing
+          summary.providerErrors[client.provider] = error instanceof Error ? error.message : 'Unknown error';
+          logger.error(`Billing reconciliation: ${client.provider} failed`, { runId: run.id }, error instanceof Error ? error : undefined);
+        }
+      }
+
+      const failedEvents = await db
+        .selectDistinct({ teamId: paymentEvents.teamId })
+        .from(paymentEvents)
+        .where(and(eq(paymentEvents.processingStatus, 'failed'), isNotNull(paymentEvents.teamId)));
+
+      const planIds = await this.providerPlanIds();
+      const drift = findBillingDrift({
+        teams: teamRecords,
+        subscriptions,
+        missing,
+        teamsWithFailedEvents: new Set(failedEvents.map((row) => row.teamId!)),
+        planForProviderPlanId: (providerPlanId) => planIds.get(providerPlanId),
+      });
+
+      // A new report replaces the open items of earlier runs
+      await db.update(billingDriftItems)
+        .set({ resolution: 'superseded' })
+        .where(and(eq(billingDriftItems.resolution, 'pending_review'), ne(billingDriftItems.runId, run.id)));
+
+      const items: BillingDriftItem[] = [];
+
+      for (const found of drift) {
+        let [item] = await db.insert(billingDriftItems).values(this.toRow(run.id, found)).returning();
+
+        // Left for review when a webhook has updated the team since the provider was read
+        if (found.safe && applySafe && found.correction && found.teamId
+          && await this.applyCorrection(item, found.correction, observedAt)) {
+          [item] = await db.update(billingDriftItems)
+            .set({ resolution: 'applied', resolvedAt: new Date() })
+            .where(eq(billingDriftItems.id, item.id))
+            .returning();
+        }
+
+        items.push(item);
+        summary.byKind[item.kind] = (summary.byKind[item.kind] || 0) + 1;
+        if (item.resolution === 'applied') summary.applied++;
+        else summary.pendingReview++;
+      }
+      summary.drift = items.length;
+
+      const [completed] = await db.update(billingReconciliationRuns)
+        .set({ status: 'completed', summary: JSON.stringify(summary), completedAt: new Date() })
+        .where(eq(billingReconciliationRuns.id, run.id))
+        .returning();
+
+      logger.info('Billing reconciliation completed', { runId: run.id, drift: summary.drift, applied: summary.applied });
+      return { run: completed, summary, items };
+    } catch (error) {
+      await db.update(billingReconciliationRuns)
+        .set({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error', completedAt: new Date() })
+        .where(eq(billingReconciliationRuns.id, run.id));
+      throw error;
+    }
+  }
+
+  /**
+   * Latest run with its open review items and what it corrected
+   */
+  static async getOverview(): Promise<{
+    latestRun: (Omit<BillingReconciliationRun, 'summary'> & { summary: ReconciliationSummary | null }) | null;
+    pendingReview: Array<BillingDriftItem & { teamName: string | null }>;
+    recentlyApplied: Array<BillingDriftItem & { teamName: string | null }>;
+  }> {
+    const latestRun = await db.query.billingReconciliationRuns.findFirst({
+      orderBy: [desc(billingReconciliationRuns.startedAt)],
+    });
+
+    const withTeam = (resolution: DriftResolution, runId?: string) => db
+      .select({ item: billingDriftItems, teamName: teams.name })
+      .from(billingDriftItems)
+      .leftJoin(teams, eq(billingDriftItems.teamId, teams.id))
+      .where(runId
+        ? and(eq(billingDriftItems.resolution, resolution), eq(billingDriftItems.runId, runId))
+        : eq(billingDriftItems.resolution, resolution))
+      .orderBy(desc(billingDriftItems.createdAt))
+      .limit(200);
+
+    const [pending, applied] = await Promise.all([
+      withTeam('pending_review'),
+      latestRun ? withTeam('applied', latestRun.id) : Promise.resolve([]),
+    ]);
+
+    return {
+      latestRun: latestRun
+        ? { ...latestRun, summary: latestRun.summary ? JSON.parse(latestRun.summary) as ReconciliationSummary : null }
+        : null,
+      pendingReview: pending.map((row) => ({ ...row.item, teamName: row.teamName })),
+      recentlyApplied: applied.map((row) => ({ ...row.item, teamName: row.teamName })),
+    };
+  }
+
+  /**
+   * Admin decision on a drift item waiting for review
+   * - apply: re-check the provider and the team, then apply the correction
+   * - resolve: fixed by hand
+   * - dismiss: not a real problem
+   * @param options.clients - Provider clients (defaults to the configured real providers)
+   */
+  static async resolveItem(
+    itemId: string,
+    action: 'apply' | 'resolve' | 'dismiss',
+    adminId: string,
+    options: { clients?: BillingProviderClient[] } = {}
+  ): Promise<BillingDriftItem> {
+    const item = await db.query.billingDriftItems.findFirst({
+      where: eq(billingDriftItems.id, itemId),
+    });
+    if (!item) throw new NotFoundError('Drift item');
+    if (item.resolution !== 'pending_review') {
+      throw new ConflictError(`Drift item is already ${item.resolution.replace('_', ' ')}`);
+    }
+
+    if (action === 'apply') {
+      if (!item.correction || !item.teamId) {
+        throw new ValidationError('This drift has no automatic correction - fix it by hand, then mark it resolved');
+      }
+      const { correction, observedAt } = await this.recheck(item, options.clients ?? getBillingProviderClients());
+      if (!await this.applyCorrection(item, correction, observedAt)) {
+        throw new ConflictError('A newer billing event has updated this team - run reconciliation again');
+      }
+    }
+
+    const resolution: DriftResolution = action === 'apply' ? 'applied' : action === 'resolve' ? 'resolved' : 'dismissed';
+    const [updated] = await db.update(billingDriftItems)
+      .set({ resolution, resolvedBy: adminId, resolvedAt: new Date() })
+      .where(eq(billingDriftItems.id, itemId))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Every provider subscription worth comparing: the full listing where the
+   * provider has one, plus direct lookups for subscriptions teams reference
+   * that the listing didn't include
+   */
+  private static async collect(
+    client: BillingProviderClient,
+    teamRecords: TeamBillingRecord[],
+    missing: Array<{ provider: BillingProvider; subscriptionId: string; teamId: string }>
+  ): Promise<ProviderSubscription[]> {
+    const found = new Map<string, ProviderSubscription>();
+
+    if (client.listSubscriptions) {
+      let cursor: string | null = null;
+      for (let page = 0; page < MAX_PAGES_PER_PROVIDER; page++) {
+        const result = await client.listSubscriptions(cursor);
+        for (const subscription of result.subscriptions) found.set(subscription.subscriptionId, subscription);
+        cursor = result.nextCursor;
+        if (!cursor) break;
+      }
+    }
+
+    for (const team of teamRecords) {
+      const subscriptionId = teamSubscriptionId(team, client.provider);
+      if (!subscriptionId || found.has(subscriptionId)) continue;
+
+      const subscription = await client.getSubscription(subscriptionId);
+      if (subscription) found.set(subscriptionId, subscription);
+      else missing.push({ provider: client.provider, subscriptionId, teamId: team.id });
+    }
+
+    return [...found.values()];
+  }
+
+  private static async providerPlanIds(): Promise<Map<string, BillingPlan>> {
+    const plans = await PricingService.getAllPlans();
+    const ids = new Map<string, BillingPlan>();
+    for (const plan of plans) {
+      for (const id of [plan.stripePriceId, plan.stripeYearlyPriceId, plan.squarePlanId, plan.squareYearlyPlanId, plan.paypalPlanId, plan.paypalYearlyPlanId]) {
+        if (id) ids.set(id, plan.plan);
+      }
+    }
+    return ids;
+  }
+
+  private static toRow(runId: string, drift: DriftItem) {
+    return {
+      runId,
+      teamId: drift.teamId,
+      provider: drift.provider,
+      subscriptionId: drift.subscriptionId,
+      kind: drift.kind,
+      teamStatus: drift.teamStatus,
+      providerStatus: drift.providerStatus,
+      teamPlan: drift.teamPlan,
+      providerPlan: drift.providerPlan,
+      safe: drift.safe,
+      reason: drift.reason,
+      correction: drift.correction ? JSON.stringify(drift.correction) : null,
+    };
+  }
+
+  /**
+   * The correction a drift item needs now. The report may be hours old, so the
+   * provider subscription and the team are read again and compared afresh.
+   */
+  private static async recheck(
+    item: BillingDriftItem,
+    clients: BillingProviderClient[]
+  ): Promise<{ correction: DriftCorrection; observedAt: Date }> {
+    const client = clients.find((candidate) => candidate.provider === item.provider);
+    if (!client) {
+      throw new ValidationError(`${item.provider} is not configured here, so this drift cannot be re-checked`);
+    }
+
+    const observedAt = new Date();
+    const subscription = await client.getSubscription(item.subscriptionId);
+    const team = await TeamService.getById(item.teamId!);
+    if (!team) throw new NotFoundError('Team');
+
+    const planIds = await this.providerPlanIds();
+    const current = findBillingDrift({
+      teams: [team],
+      subscriptions: subscription ? [subscription] : [],
+      missing: subscription ? [] : [{ provider: item.provider, subscriptionId: item.subscriptionId, teamId: team.id }],
+      teamsWithFailedEvents: new Set(),
+      planForProviderPlanId: (providerPlanId) => planIds.get(providerPlanId),
+    }).find((found) => found.kind === item.kind && found.subscriptionId === item.subscriptionId);
+
+    if (!current?.correction) {
+      throw new ConflictError('The team and provider no longer differ this way - dismiss this item or run reconciliation again');
+    }
+    return { correction: current.correction, observedAt };
+  }
+
+  /**
+   * Update the team and record the correction as an applied payment event,
+   * under the same team row lock BillingEventService applies webhooks with.
+   * Returns false, changing nothing, when an event newer than the provider
+   * observation has already been applied.
+   */
+  private static async applyCorrection(item: BillingDriftItem, correction: DriftCorrection, observedAt: Date): Promise<boolean> {
+    const provider = item.provider;
+
+    return db.transaction(async (tx) => {
+      const [team] = await tx.select().from(teams).where(eq(teams.id, item.teamId!)).for('update');
+      if (!team) throw new NotFoundError('Team');
+
+      const [newer] = await tx
+        .select({ id: paymentEvents.id })
+        .from(paymentEvents)
+        .where(and(
+          eq(paymentEvents.teamId, team.id),
+          eq(paymentEvents.processingStatus, 'applied'),
+          gt(paymentEvents.eventTimestamp, observedAt)
+        ))
+        .limit(1);
+      if (newer) return false;
+
+      // Same fields as TeamService.update*Info, written inside the locking transaction
+      const providerFields = provider === 'stripe'
+        ? { stripeSubscriptionId: correction.subscriptionId }
+        : provider === 'square'
+          ? { squareSubscriptionId: correction.subscriptionId }
+          : { paypalSubscriptionId: correction.subscriptionId };
+
+      await tx.update(teams)
+        .set({ subscriptionStatus: correction.subscriptionStatus, ...providerFields, paymentProvider: provider, updatedAt: new Date() })
+        .where(eq(teams.id, team.id));
+
+      await tx.insert(paymentEvents).values({
+        eventType: 'subscription_updated',
+        provider,
+        providerEventId: `reconciliation:${item.runId}`,
+        idempotencyKey: `${provider}:reconciliation:${item.id}`,
+        teamId: team.id,
+        subscriptionId: correction.subscriptionId ?? teamSubscriptionId(team, provider),
+        previousStatus: team.subscriptionStatus,
+        subscriptionStatus: correction.subscriptionStatus ?? team.subscriptionStatus,
+        metadata: JSON.stringify({ source: 'reconciliation', runId: item.runId, driftItemId: item.id, kind: item.kind }),
+        processed: true,
+        processingStatus: 'applied',
+        processingAttempts: 1,
+        processedAt: new Date(),
+        eventTimestamp: observedAt,
+      });
+      return true;
+    });
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * CLI VERSION SERVICE
+ *
+ * Resolves which CLI version each client should run, records the installs
+ * that check in, and halts rollouts whose error rate spikes. Rollout rules
+ * live in @/lib/cli-rollout.
+ */
+
+import { db, cliVersions, cliInstallations, cliErrorReports } from '@/db';
+import type { CliVersion } from '@/db/schema';
+import { and, eq, gte, isNotNull, sql } from 'drizzle-orm';
+import { NotFoundError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import {
+  CliClient,
+  CohortStats,
+  HALT_THRESHOLDS,
+  compareVersions,
+  errorRate,
+  getHaltReason,
+  getInstallKey,
+  meetsNodeVersion,
+  parseFeatureFlags,
+  resolveCliVersion,
+} from '@/lib/cli-rollout';
+
+export interface CliVersionCheck extends CliClient {
+  cliVersion?: string | null;
+  platform?: string | null;
+}
+
+export interface CohortOverview {
+  assigned: number; // Installs told to run the version
+  installs: number; // Installs running it
+  erroringInstalls: number;
+  errorRate: number;
+}
+
+// Error reports keyed the same way as installs
+const errorInstallKey = sql<string>`coalesce('device:' || ${cliErrorReports.deviceHash}, 'team:' || ${cliErrorReports.teamId})`;
+
+export class CliVersionService {
+  /**
+   * The version a client should run and whether the version it runs now is
+   * blocked. Records the client's install.
+   */
+  static async resolveForClient(client: CliVersionCheck) {
+    const versions = await db.query.cliVersions.findMany();
+    const resolved = resolveCliVersion(versions, client);
+    const current = client.cliVersion ? versions.find((v) => v.version === client.cliVersion) : undefined;
+
+    // Oldest stable version still supported
+    const minVersion = versions
+      .filter((v) => v.status === 'stable')
+      .sort((a, b) => compareVersions(a.version, b.version))[0];
+
+    let blockReason: string | null = null;
+    if (current?.status === 'blocked') {
+      blockReason = current.breakingChanges || 'This version has a critical bug. Please update.';
+    } else if (current && !meetsNodeVersion(client.nodeVersion, current.minNodeVersion)) {
+      blockReason = `CLI v${current.version} requires Node.js ${current.minNodeVersion} or newer (you have ${client.nodeVersion}).`;
+    }
+
+    await this.recordInstall(client, resolved?.version ?? null);
+
+    return { resolved: resolved ?? null, minVersion: minVersion ?? null, blockReason };
+  }
+
+  /**
+   * Feature flags enabled for a version
+   */
+  static getFeatures(version: Pick<CliVersion, 'features'> | null): string[] {
+    return version ? parseFeatureFlags(version.features) : [];
+  }
+
+  /**
+   * Remember which version an install runs and was told to run
+   */
+  static async recordInstall(client: CliVersionCheck, resolvedVersion: string | null): Promise<void> {
+    const installKey = getInstallKey(client);
+    if (!installKey) return;
+
+    const values = {
+      teamId: client.teamId ?? null,
+      deviceHash: client.deviceHash ?? null,
+      cliVersion: client.cliVersion ?? null,
+      resolvedVersion,
+      nodeVersion: client.nodeVersion ?? null,
+      platform: client.platform ?? null,
+      lastSeenAt: new Date(),
+    };
+
+    await db
+      .insert(cliInstallations)
+      .values({ installKey, ...values })
+      .onConflictDoUpdate({ target: cliInstallations.installKey, set: values });
+  }
+
+  /**
+   * Installs running a version since a date, and how many of them reported errors
+   */
+  static async getCohortStats(version: string, since: Date): Promise<CohortStats> {
+    const [[installs], [errors]] = await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(cliInstallations)
+        .where(and(eq(cliInstallations.cliVersion, version), gte(cliInstallations.lastSeenAt, since))),
+      db
+        .select({ count: sql<number>`count(distinct ${errorInstallKey})::int` })
+        .from(cliErrorReports)
+        .where(and(eq(cliErrorReports.cliVersion, version), gte(cliErrorReports.createdAt, since))),
+    ]);
+
+    const installCount = installs?.count ?? 0;
+    return { installs: installCount, erroringInstalls: Math.min(errors?.count ?? 0, installCount) };
+  }
+
+  /**
+   * Halt a version's rollout if its error rate passed the threshold.
+   * Versions are watched for a few days after going stable.
+   * @returns the reason it was halted, or null
+   */
+  static async checkRollout(version: string, now: Date = new Date()): Promise<string | null> {
+    const versions = await db.query.cliVersions.findMany();
+    const target = versions.find((v) => v.version === version);
+    if (!target || target.status !== 'stable' || !target.isAutoUpdateEnabled || target.haltedAt || !target.stableAt) {
+      return null;
+    }
+
+    const watchedUntil = target.stableAt.getTime() + HALT_THRESHOLDS.watchHours * 60 * 60 * 1000;
+    if (now.getTime() > watchedUntil) return null;
+
+    // Clients outside the rollout run the newest fully rolled out version before it
+    const baselineVersion = versions
+      .filter((v) => v.status === 'stable' && (v.rolloutPercent ?? 0) >= 100 && compareVersions(v.version, version) < 0)
+      .sort((a, b) => compareVersions(b.version, a.version))[0];
+
+    const [stats, baseline] = await Promise.all([
+      this.getCohortStats(version, target.stableAt),
+      baselineVersion ? this.getCohortStats(baselineVersion.version, target.stableAt) : null,
+    ]);
+
+    const reason = getHaltReason(stats, baseline);
+    if (!reason) return null;
+
+    await this.halt(target.id, `Automatic halt: ${reason}`);
+    logger.warn('CLI rollout halted', { version, ...stats, errorRate: errorRate(stats) });
+
+    return reason;
+  }
+
+  /**
+   * Stop a rollout - clients outside it keep their version and no new
+   * clients are moved to it
+   */
+  static async halt(versionId: string, reason: string) {
+    const [updated] = await db
+      .update(cliVersions)
+      .set({ haltedAt: new Date(), haltReason: reason, updatedAt: new Date() })
+      .where(eq(cliVersions.id, versionId))
+      .returning();
+
+    if (!updated) throw new NotFoundError('CLI version');
+    return updated;
+  }
+
+  /**
+   * Cohort size and error rate of every version over the last week
+   */
+  static async getCohortOverview(): Promise<Record<string, CohortOverview>> {
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const [assigned, running, erroring] = await Promise.all([
+      db
+        .select({ version: cliInstallations.resolvedVersion, count: sql<number>`count(*)::int` })
+        .from(cliInstallations)
+        .where(and(isNotNull(cliInstallations.resolvedVersion), gte(cliInstallations.lastSeenAt, since)))
+        .groupBy(cliInstallations.resolvedVersion),
+      db
+        .select({ version: cliInstallations.cliVersion, count: sql<number>`count(*)::int` })
+        .from(cliInstallations)
+        .where(and(isNotNull(cliInstallations.cliVersion), gte(cliInstallations.lastSeenAt, since)))
+        .groupBy(cliInstallations.cliVersion),
+      db
+        .select({ version: cliErrorReports.cliVersion, count: sql<number>`count(distinct ${errorInstallKey})::int` })
+        .from(cliErrorReports)
+        .where(gte(cliErrorReports.createdAt, since))
+        .groupBy(cliErrorReports.cliVersion),
+    ]);
+
+    const overview: Record<string, CohortOverview> = {};
+    const entry = (version: string) =>
+      (overview[version] ??= { assigned: 0, installs: 0, erroringInstalls: 0, errorRate: 0 });
+
+    for (const row of assigned) if (row.version) entry(row.version).assigned = row.count;
+    for (const row of running) if (row.version) entry(row.version).installs = row.count;
+    for (const row of erroring) entry(row.version).erroringInstalls = row.count;
+
+    for (const stats of Object.values(overview)) {
+      stats.erroringInstalls = Math.min(stats.erroringInstalls, stats.installs);
+      stats.errorRate = errorRate(stats);
+    }
+
+    return overview;
+  }
+}
@@ -1,5 +1,9 @@
 import { db, contentVersions, profiles } from '@/db';
 import { eq, desc } from 'drizzle-orm';
+import type { ContentChannel } from '@/lib/content-rollout';
+import { ContentDiff, diffContent, renderChangelog } from '@/lib/content-diff';
+import { NotFoundError } from '@/lib/errors';
+import { ContentRolloutService } from './content-rollout-service';
 
 interface ContentUpload {
   version: string;
@@ -58,25 +62,22 @@ export class ContentManagementService {
   }
 
   /**
-   * Publish a version (make it active, deactivate others)
+   * Publish a version to a release channel. Defaults to every stable team at
+   * once (which also makes it the active version).
    */
-  static async publishVersion(versionId: string) {
-    // Deactivate all versions
-    await db
-      .update(contentVersions)
-      .set({ isActive: false });
+  static async publishVersion(
+    versionId: string,
+    options: { channel?: ContentChannel; rolloutPercent?: number; userId?: string | null } = {}
+  ) {
+    const release = await ContentRolloutService.createRelease(versionId, options);
 
-    // Activate the selected version
     const [version] = await db
-      .update(contentVersions)
-      .set({
-        isActive: true,
-        publishedAt: new Date(),
-      })
+      .select()
+      .from(contentVersions)
       .where(eq(contentVersions.id, versionId))
-      .returning();
+      .limit(1);
 
-    return version;
+    return { ...version, release };
   }
 
   /**
@@ -192,6 +193,10 @@ export class ContentManagementService {
       throw new Error('Cannot delete active version');
     }
 
+    if (await ContentRolloutService.isVersionInUse(versionId)) {
+      throw new Error('Cannot delete a version that a release channel is serving');
+    }
+
     await db
       .delete(contentVersions)
       .where(eq(contentVersions.id, versionId));
@@ -218,6 +223,25 @@ export class ContentManagementService {
     };
   }
 
+  /**
+   * Compare the modules of two versions (by version string, e.g. "15.1" and "15.2")
+   */
+  static async diffVersions(fromVersion: string, toVersion: string): Promise<{ diff: ContentDiff; changelog: string }> {
+    const [from, to] = await Promise.all([
+      this.getVersionByString(fromVersion),
+      this.getVersionByString(toVersion),
+    ]);
+    if (!from) throw new NotFoundError(`Version ${fromVersion}`);
+    if (!to) throw new NotFoundError(`Version ${toVersion}`);
+
+    const diff = diffContent(
+      { version: from.version, modules: from.modulesContent },
+      { version: to.version, modules: to.modulesContent }
+    );
+
+    return { diff, changelog: renderChangelog(diff) };
+  }
+
   /**
    * List available versions for version picker
    */
@@ -0,0 +1,497 @@
+/**
+ * CONTENT ROLLOUT SERVICE
+ *
+ * Releases content versions to channels (stable, beta, canary) for a
+ * percentage of teams, resolves which version each team is served, and rolls
+ * a release back when module reports or production errors from its teams
+ * spike after the publish.
+ *
+ * A stable release at 100% also becomes the active version, so code that
+ * reads contentVersions.isActive keeps working.
+ *
+ * Regressions are checked by scripts/check-content-rollouts.ts.
+ */
+
+import {
+  db,
+  teams,
+  contentVersions,
+  contentReleases,
+  moduleReports,
+  productionFeedback,
+  patternUsage,
+  ContentRelease,
+} from '@/db';
+import { and, desc, eq, gte, inArray, isNotNull, ne, or, sql } from 'drizzle-orm';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import {
+  CONTENT_CHANNELS,
+  ChannelRelease,
+  ContentChannel,
+  ROLLBACK_THRESHOLDS,
+  channelsSupersededBy,
+  detectRegression,
+  parseContentChannel,
+  resolveContentVersionId,
+} from '@/lib/content-rollout';
+
+// Releases that still decide what teams are served
+const CURRENT_STATUSES = ['rolling_out', 'complete', 'rolled_back'];
+
+interface ReleaseState {
+  releases: ChannelRelease[];
+  activeVersionId: string | null;
+  timestamp: number;
+}
+
+let releaseCache: ReleaseState | null = null;
+const RELEASE_CACHE_TTL = 30 * 1000; // 30 seconds
+
+export type ReleaseWithVersions = ContentRelease & { version: string; previousVersion: string | null };
+
+export interface VersionAdoption {
+  versionId: string;
+  version: string;
+  channels: ContentChannel[]; // Channels whose current release serves it
+  assignedTeams: number; // Teams resolved to it (including pinned)
+  pinnedTeams: number;
+  activeTeams: number; // Teams that fetched it in the last 7 days
+  fetches: number;
+}
+
+export interface ContentRolloutOverview {
+  channels: Array<{ channel: ContentChannel; release: ReleaseWithVersions | null }>;
+  adoption: VersionAdoption[];
+  history: ReleaseWithVersions[];
+}
+
+export interface RegressionRollback {
+  releaseId: string;
+  channel: string;
+  version: string;
+  reason: string;
+}
+
+export class ContentRolloutService {
+  static invalidateCache() {
+    releaseCache = null;
+  }
+
+  /**
+   * The current release of each channel and the active version
+   */
+  static async getReleaseState(): Promise<ReleaseState> {
+    if (releaseCache && Date.now() - releaseCache.timestamp < RELEASE_CACHE_TTL) {
+      return releaseCache;
+    }
+
+    const [rows, [active]] = await Promise.all([
+      db
+        .select({
+          id: contentReleases.id,
+          channel: contentReleases.channel,
+          versionId: contentReleases.versionId,
+          previousVersionId: contentReleases.previousVersionId,
+          rolloutPercent: contentReleases.rolloutPercent,
+        })
+        .from(contentReleases)
+        .where(inArray(contentReleases.status, CURRENT_STATUSES))
+        .orderBy(desc(contentReleases.createdAt)),
+      db
+        .select({ id: contentVersions.id })
+        .from(contentVersions)
+        .where(eq(contentVersions.isActive, true))
+        .limit(1),
+    ]);
+
+    // Publishing supersedes the previous release, but be safe and keep the newest
+    const releases = CONTENT_CHANNELS
+      .map((channel) => rows.find((row) => row.channel === channel))
+      .filter((row): row is ChannelRelease => !!row);
+
+    releaseCache = { releases, activeVersionId: active?.id ?? null, timestamp: Date.now() };
+    return releaseCache;
+  }
+
+  /**
+   * The content version ID a team is served (ignores pins)
+   */
+  static async resolveVersionId(team: { id: string; contentChannel: string | null } | null): Promise<string | null> {
+    const { releases, activeVersionId } = await this.getReleaseState();
+    return resolveContentVersionId({
+      channel: parseContentChannel(team?.contentChannel),
+      teamId: team?.id ?? null,
+      releases,
+      activeVersionId,
+    });
+  }
+
+  /**
+   * Release a version to a channel. Teams outside the rollout keep the version
+   * the channel serves now.
+   */
+  static async createRelease(
+    versionId: string,
+    options: { channel?: ContentChannel; rolloutPercent?: number; userId?: string | null } = {}
+  ): Promise<ContentRelease> {
+    const channel = options.channel ?? 'stable';
+    const rolloutPercent = options.rolloutPercent ?? 100;
+    if (!Number.isInteger(rolloutPercent) || rolloutPercent < 1 || rolloutPercent > 100) {
+      throw new ValidationError('Rollout percentage must be between 1 and 100');
+    }
+
+    const [version] = await db
+      .select({ id: contentVersions.id })
+      .from(contentVersions)
+      .where(eq(contentVersions.id, versionId))
+      .limit(1);
+    if (!version) throw new NotFoundError('Content version');
+
+    this.invalidateCache();
+    const { releases, activeVersionId } = await this.getReleaseState();
+    const previousVersionId = resolveContentVersionId({ channel, teamId: null, releases, activeVersionId });
+    if (previousVersionId === versionId && rolloutPercent === 100) {
+      throw new ConflictError(`This version is already live on ${channel}`);
+    }
+
+    const now = new Date();
+    const release = await db.transaction(async (tx) => {
+      await tx
+        .update(contentReleases)
+        .set({ status: 'superseded', updatedAt: now })
+        .where(and(
+          inArray(contentReleases.channel, channelsSupersededBy(channel)),
+          inArray(contentReleases.status, CURRENT_STATUSES)
+        ));
+
+      const [created] = await tx
+        .insert(contentReleases)
+        .values({
+          channel,
+          versionId,
+          // Kept even when it's this version, so a rollback never falls through to another channel
+          previousVersionId,
+          rolloutPercent,
+          status: rolloutPercent === 100 ? 'complete' : 'rolling_out',
+          createdBy: options.userId ?? null,
+          completedAt: rolloutPercent === 100 ? now : null,
+        })
+        .returning();
+
+      await tx
+        .update(contentVersions)
+        .set({ publishedAt: now })
+        .where(eq(contentVersions.id, versionId));
+
+      if (channel === 'stable' && rolloutPercent === 100) {
+        await this.activate(tx, versionId);
+      }
+
+      return created;
+    });
+
+    this.invalidateCache();
+    logger.info('Content release created', { releaseId: release.id, channel, versionId, rolloutPercent });
+    return release;
+  }
+
+  /**
+   * Widen a rollout. Shrinking isn't supported - roll back instead.
+   */
+  static async setRolloutPercent(releaseId: string, rolloutPercent: number): Promise<ContentRelease> {
+    const release = await this.getRelease(releaseId);
+    if (release.status !== 'rolling_out') {
+      throw new ValidationError(`Only releases that are rolling out can be widened (this one is ${release.status.replace('_', ' ')})`);
+    }
+    if (!Number.isInteger(rolloutPercent) || rolloutPercent <= release.rolloutPercent || rolloutPercent > 100) {
+      throw new ValidationError(`Rollout percentage must be between ${release.rolloutPercent + 1} and 100`);
+    }
+
+    const now = new Date();
+    const complete = rolloutPercent === 100;
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(contentReleases)
+        .set({
+          rolloutPercent,
+          status: complete ? 'complete' : 'rolling_out',
+          completedAt: complete ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(contentReleases.id, releaseId))
+        .returning();
+
+      if (complete && release.channel === 'stable') {
+        await this.activate(tx, release.versionId);
+      }
+
+      return row;
+    });
+
+    this.invalidateCache();
+    return updated;
+  }
+
+  /**
+   * Serve every team on the channel the release's previousVersionId - the
+   * version the channel served outside rollouts when it was published. Teams
+   * that were in an earlier partial rollout on the channel get that version
+   * too, not the one the earlier rollout gave them.
+   * @param userId - null for automatic rollbacks
+   */
+  static async rollback(releaseId: string, reason: string, userId: string | null = null): Promise<ContentRelease> {
+    const release = await this.getRelease(releaseId);
+    if (release.status !== 'rolling_out' && release.status !== 'complete') {
+      throw new ValidationError(`This release is already ${release.status.replace('_', ' ')}`);
+    }
+
+    const now = new Date();
+    const rolledBack = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(contentReleases)
+        .set({ status: 'rolled_back', rolloutPercent: 0, rollbackReason: reason, rolledBackAt: now, updatedAt: now })
+        .where(eq(contentReleases.id, releaseId))
+        .returning();
+
+      if (release.channel === 'stable' && release.previousVersionId) {
+        await this.activate(tx, release.previousVersionId);
+      }
+
+      return row;
+    });
+
+    this.invalidateCache();
+    logger.warn('Content release rolled back', { releaseId, channel: release.channel, reason, userId: userId ?? 'automatic' });
+    return rolledBack;
+  }
+
+  /**
+   * Roll back recent releases whose teams report noticeably more problems
+   * than they did before the publish
+   */
+  static async checkForRegressions(now: Date = new Date()): Promise<RegressionRollback[]> {
+    const watchStart = new Date(now.getTime() - ROLLBACK_THRESHOLDS.watchHours * 60 * 60 * 1000);
+    const watched = await db
+      .select()
+      .from(contentReleases)
+      .where(and(
+        inArray(contentReleases.status, ['rolling_out', 'complete']),
+        gte(contentReleases.createdAt, watchStart)
+      ));
+
+    const rollbacks: RegressionRollback[] = [];
+    if (watched.length === 0) return rollbacks;
+
+    const { releases, activeVersionId } = await this.getReleaseState();
+
+    for (const release of watched) {
+      const start = release.createdAt;
+      const baselineStart = new Date(start.getTime() - ROLLBACK_THRESHOLDS.baselineHours * 60 * 60 * 1000);
+
+      const [reports, feedback] = await Promise.all([
+        db
+          .select({
+            teamId: moduleReports.teamId,
+            before: sql<number>`count(*) filter (where ${moduleReports.createdAt} < ${start})::int`,
+            after: sql<number>`count(*) filter (where ${moduleReports.createdAt} >= ${start})::int`,
+          })
+          .from(moduleReports)
+          .where(and(isNotNull(moduleReports.teamId), gte(moduleReports.createdAt, baselineStart)))
+          .groupBy(moduleReports.teamId),
+        db
+          .select({
+            teamId: productionFeedback.teamId,
+            before: sql<number>`count(*) filter (where ${productionFeedback.firstSeenAt} < ${start})::int`,
+            after: sql<number>`count(*) filter (where ${productionFeedback.firstSeenAt} >= ${start})::int`,
+          })
+          .from(productionFeedback)
+          .where(and(isNotNull(productionFeedback.teamId), gte(productionFeedback.firstSeenAt, baselineStart)))
+          .groupBy(productionFeedback.teamId),
+      ]);
+
+      const reportingTeamIds = [...new Set([...reports, ...feedback].map((row) => row.teamId!))];
+      if (reportingTeamIds.length === 0) continue;
+
+      // Only teams served this release count
+      const cohort = new Set(
+        (await db
+          .select({ id: teams.id, contentChannel: teams.contentChannel, pinnedPatternVersion: teams.pinnedPatternVersion })
+          .from(teams)
+          .where(inArray(teams.id, reportingTeamIds)))
+          .filter((team) => !team.pinnedPatternVersion && resolveContentVersionId({
+            channel: parseContentChannel(team.contentChannel),
+            teamId: team.id,
+            releases,
+            activeVersionId,
+          }) === release.versionId)
+          .map((team) => team.id)
+      );
+
+      const sum = (rows: Array<{ teamId: string | null; before: number; after: number }>, key: 'before' | 'after') =>
+        rows.filter((row) => cohort.has(row.teamId!)).reduce((total, row) => total + row[key], 0);
+
+      const reason = detectRegression(
+        {
+          moduleReports: sum(reports, 'before'),
+          productionFeedback: sum(feedback, 'before'),
+          hours: ROLLBACK_THRESHOLDS.baselineHours,
+        },
+        {
+          moduleReports: sum(reports, 'after'),
+          productionFeedback: sum(feedback, 'after'),
+          hours: (now.getTime() - start.getTime()) / (60 * 60 * 1000),
+        }
+      );
+      if (!reason) continue;
+
+      await this.rollback(release.id, `Automatic rollback: ${reason}`);
+      const [version] = await db
+        .select({ version: contentVersions.version })
+        .from(contentVersions)
+        .where(eq(contentVersions.id, release.versionId))
+        .limit(1);
+
+      rollbacks.push({ releaseId: release.id, channel: release.channel, version: version?.version ?? release.versionId, reason });
+    }
+
+    return rollbacks;
+  }
+
+  /**
+   * Channel status, adoption per version and recent releases (admin/content)
+   */
+  static async getOverview(): Promise<ContentRolloutOverview> {
+    const adoptionSince = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const [versions, history, teamRows, usage, state] = await Promise.all([
+      db.select({ id: contentVersions.id, version: contentVersions.version }).from(contentVersions),
+      db.select().from(contentReleases).orderBy(desc(contentReleases.createdAt)).limit(20),
+      db
+        .select({ id: teams.id, contentChannel: teams.contentChannel, pinnedPatternVersion: teams.pinnedPatternVersion })
+        .from(teams),
+      db
+        .select({
+          version: patternUsage.contentVersion,
+          activeTeams: sql<number>`count(distinct ${patternUsage.teamId})::int`,
+          fetches: sql<number>`count(*)::int`,
+        })
+        .from(patternUsage)
+        .where(and(isNotNull(patternUsage.contentVersion), gte(patternUsage.fetchedAt, adoptionSince)))
+        .groupBy(patternUsage.contentVersion),
+      this.getReleaseState(),
+    ]);
+
+    const versionById = new Map(versions.map((v) => [v.id, v.version]));
+    const idByVersion = new Map(versions.map((v) => [v.version, v.id]));
+    const withVersions = (release: ContentRelease): ReleaseWithVersions => ({
+      ...release,
+      version: versionById.get(release.versionId) ?? 'unknown',
+      previousVersion: release.previousVersionId ? versionById.get(release.previousVersionId) ?? null : null,
+    });
+
+    const adoption = new Map<string, VersionAdoption>();
+    const entry = (versionId: string): VersionAdoption => {
+      let row = adoption.get(versionId);
+      if (!row) {
+        row = {
+          versionId,
+          version: versionById.get(versionId) ?? 'unknown',
+          channels: [],
+          assignedTeams: 0,
+          pinnedTeams: 0,
+          activeTeams: 0,
+          fetches: 0,
+        };
+        adoption.set(versionId, row);
+      }
+      return row;
+    };
+
+    for (const team of teamRows) {
+      const pinnedId = team.pinnedPatternVersion ? idByVersion.get(team.pinnedPatternVersion) : undefined;
+      const versionId = pinnedId ?? resolveContentVersionId({
+        channel: parseContentChannel(team.contentChannel),
+        teamId: team.id,
+        releases: state.releases,
+        activeVersionId: state.activeVersionId,
+      });
+      if (!versionId) continue;
+
+      const row = entry(versionId);
+      row.assignedTeams++;
+      if (pinnedId) row.pinnedTeams++;
+    }
+
+    for (const row of usage) {
+      const versionId = row.version ? idByVersion.get(row.version) : undefined;
+      if (!versionId) continue;
+      entry(versionId).activeTeams += row.activeTeams;
+      entry(versionId).fetches += row.fetches;
+    }
+
+    for (const release of state.releases) {
+      entry(release.versionId).channels.push(release.channel as ContentChannel);
+    }
+
+    const current = state.releases.length > 0
+      ? await db.select().from(contentReleases).where(inArray(contentReleases.id, state.releases.map((r) => r.id)))
+      : [];
+
+    return {
+      channels: CONTENT_CHANNELS.map((channel) => {
+        const release = current.find((r) => r.channel === channel);
+        return { channel, release: release ? withVersions(release) : null };
+      }),
+      adoption: [...adoption.values()].sort((a, b) => b.assignedTeams - a.assignedTeams),
+      history: history.map(withVersions),
+    };
+  }
+
+  /**
+   * Whether a version is served by, or is the fallback of, a current release
+   */
+  static async isVersionInUse(versionId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: contentReleases.id })
+      .from(contentReleases)
+      .where(and(
+        inArray(contentReleases.status, CURRENT_STATUSES),
+        or(eq(contentReleases.versionId, versionId), eq(contentReleases.previousVersionId, versionId))
+      ))
+      .limit(1);
+
+    return !!row;
+  }
+
+  // ==========================================
+  // PRIVATE
+  // ==========================================
+
+  private static async getRelease(releaseId: string): Promise<ContentRelease> {
+    const [release] = await db
+      .select()
+      .from(contentReleases)
+      .where(eq(contentReleases.id, releaseId))
+      .limit(1);
+
+    if (!release) throw new NotFoundError('Content release');
+    return release;
+  }
+
+  /**
+   * Make a version the active one (what callers without a channel see)
+   */
+  private static async activate(tx: Parameters<Parameters<typeof db.transaction>[0]>[0], versionId: string) {
+    await tx
+      .update(contentVersions)
+      .set({ isActive: false })
+      .where(ne(contentVersions.id, versionId));
+
+    await tx
+      .update(contentVersions)
+      .set({ isActive: true })
+      .where(eq(contentVersions.id, versionId));
+  }
+}
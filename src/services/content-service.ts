@@ -1,7 +1,11 @@
 import { readFileSync, readdirSync, existsSync } from 'fs';
 import { join } from 'path';
+import { eq } from 'drizzle-orm';
+import { db, teams } from '@/db';
 import { ContentManagementService } from './content-management-service';
+import { ContentRolloutService } from './content-rollout-service';
 import { deobfuscateContent } from './obfuscation-service';
+import { ContentDiff, diffContent, renderChangelog } from '@/lib/content-diff';
 
 const CONTENT_DIR = join(process.cwd(), 'src', 'content');
 
@@ -9,7 +13,13 @@ const CONTENT_DIR = join(process.cwd(), 'src', 'content');
 export { deobfuscateContent as decodeContent };
 export const encodeContent = (content: string) => content; // No-op, keep plain text
 
-// Cache for encoded content (avoids re-obfuscating on every request)
+// What to fetch content for
+export interface ContentTarget {
+  teamId?: string | null; // Resolve the team's pin, channel and rollout cohort
+  version?: string; // A specific version string (e.g., "15.2")
+}
+
+// Cache for encoded content per version (avoids re-obfuscating on every request)
 interface CachedContent {
   data: {
     version: string;
@@ -20,43 +30,62 @@ interface CachedContent {
     cursorModules: Record<string, string>;
   };
   timestamp: number;
-  versionId: string;
 }
 
-let contentCache: CachedContent | null = null;
+const contentCache = new Map<string, CachedContent>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+// Diffs between an installed version and the one a team is served, keyed "from:to"
+const changesCache = new Map<string, { data: { diff: ContentDiff; changelog: string }; timestamp: number }>();
+
 export class ContentService {
   /**
    * Invalidate the content cache (call when content is updated)
    */
   static invalidateCache() {
-    contentCache = null;
+    contentCache.clear();
+    changesCache.clear();
+    ContentRolloutService.invalidateCache();
   }
 
   /**
    * Get encoded content - prioritizes database version, falls back to filesystem
-   * Uses in-memory caching to avoid re-obfuscating on every request
-   * @param version Optional specific version string to fetch (e.g., "15.2")
+   * Without a version, serves the team's pinned version or whatever its channel's
+   * rollout gives it; requests without a team get the channel-less default.
+   * Uses in-memory caching per version to avoid re-obfuscating on every request
    */
-  static async getEncodedContent(version?: string) {
-    // Try database first - get specific version if requested, otherwise active
-    const dbVersion = version
-      ? await ContentManagementService.getVersionByString(version)
-      : await ContentManagementService.getActiveVersion();
+  static async getEncodedContent(target: ContentTarget = {}) {
+    let version = target.version;
+    let team: { id: string; contentChannel: string | null } | null = null;
+
+    if (!version && target.teamId) {
+      const [row] = await db
+        .select({ id: teams.id, contentChannel: teams.contentChannel, pinnedPatternVersion: teams.pinnedPatternVersion })
+        .from(teams)
+        .where(eq(teams.id, target.teamId))
+        .limit(1);
+
+      team = row ?? null;
+      version = row?.pinnedPatternVersion ?? undefined;
+    }
 
-    if (dbVersion) {
-      // Check cache - only for active version (non-specific requests)
-      if (!version && contentCache) {
-        const cacheValid =
-          contentCache.versionId === dbVersion.id &&
-          Date.now() - contentCache.timestamp < CACHE_TTL;
-
-        if (cacheValid) {
-          return contentCache.data;
-        }
-      }
+    // Specific and pinned versions by version string, otherwise by rollout
+    let versionId: string | null = null;
+    let dbVersion = version ? await ContentManagementService.getVersionByString(version) : null;
+    if (!dbVersion && !target.version) {
+      versionId = await ContentRolloutService.resolveVersionId(team);
+    }
+
+    const cached = contentCache.get(dbVersion?.id ?? versionId ?? '');
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.data;
+    }
+
+    if (!dbVersion && versionId) {
+      dbVersion = await ContentManagementService.getVersion(versionId);
+    }
 
+    if (dbVersion) {
       // Modules are now served as plain text (no encoding)
       // This allows AI to read them directly without MCP decoding
       const modules: Record<string, string> = (dbVersion.modulesContent as Record<string, string>) || {};
@@ -74,14 +103,8 @@ export class ContentService {
         cursorModules,
       };
 
-      // Cache for future requests (only for active version)
-      if (!version) {
-        contentCache = {
-          data: result,
-          timestamp: Date.now(),
-          versionId: dbVersion.id,
-        };
-      }
+      // Cache for future requests
+      contentCache.set(dbVersion.id, { data: result, timestamp: Date.now() });
 
       return result;
     }
@@ -90,6 +113,34 @@ export class ContentService {
     return this.getEncodedContentFromFilesystem();
   }
 
+  /**
+   * What changed in the modules between an installed version and the one the
+   * target is served now
+   * @returns null when already up to date or the installed version is unknown
+   */
+  static async getChangesSince(installedVersion: string, target: ContentTarget = {}) {
+    const content = await this.getEncodedContent(target);
+    if (content.version === installedVersion) return null;
+
+    const key = `${installedVersion}:${content.version}`;
+    const cached = changesCache.get(key);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return cached.data;
+    }
+
+    const installed = await ContentManagementService.getVersionByString(installedVersion);
+    if (!installed) return null;
+
+    const diff = diffContent(
+      { version: installed.version, modules: installed.modulesContent },
+      { version: content.version, modules: content.modules }
+    );
+    const data = { diff, changelog: renderChangelog(diff) };
+    changesCache.set(key, { data, timestamp: Date.now() });
+
+    return data;
+  }
+
   /**
    * Get raw content - prioritizes database version, falls back to filesystem
    */
@@ -314,6 +314,7 @@ export class ContextLoaderService {
           impact: this.extractImpact(bodyLines),
           relatedFiles: this.extractList(bodyLines, 'Related files'),
           relatedDecisions: [],
+          supersededBy: this.extractField(bodyLines, 'Superseded by'),
         };
 
         decisions.push(decision);
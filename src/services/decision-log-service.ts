@@ -9,7 +9,17 @@
  */
 
 import { createHash, randomUUID } from 'crypto';
-import { Decision, DecisionCategory } from '@/lib/safety-types';
+import { Decision, DecisionCategory, DecisionConstraint, DecisionSubject } from '@/lib/safety-types';
+import { SUBJECT_LABELS, extractDecisionConstraints, findMentionedValues } from '@/lib/decision-subjects';
+
+export interface ContradictionCheck {
+  hasContradiction: boolean;
+  conflictingDecision: Decision | null;
+  explanation: string;
+  subject?: DecisionSubject;
+  suggestion: string;
+  affectedFiles: string[];
+}
 
 // =============================================================================
 // DECISION LOG SERVICE
@@ -29,6 +39,7 @@ export class DecisionLogService {
     reversible?: boolean;
     impact: 'low' | 'medium' | 'high' | 'critical';
     relatedFiles?: string[];
+    constraints?: DecisionConstraint[];
   }): Decision {
     const decision: Decision = {
       id: randomUUID().slice(0, 8),
@@ -41,6 +52,8 @@ export class DecisionLogService {
       userApproved: params.userApproved ?? (params.madeBy === 'user'),
       reversible: params.reversible ?? true,
       impact: params.impact,
+      // Untyped decisions still get constraints if the text names a known value
+      constraints: params.constraints ?? extractDecisionConstraints(params.decision),
       relatedFiles: params.relatedFiles || [],
       relatedDecisions: [],
     };
@@ -48,6 +61,27 @@ export class DecisionLogService {
     return decision;
   }
 
+  /**
+   * Earlier decisions a new one replaces: reversible, still active, and every
+   * subject they constrain is given a different value by the new decision.
+   * Returned as copies marked supersededBy; irreversible decisions are never
+   * replaced this way, so contradicting them is still flagged.
+   */
+  static findSuperseded(decision: Decision, previous: Decision[]): Decision[] {
+    const chosen = new Map((decision.constraints || []).map((c) => [c.subject, c.value]));
+    if (chosen.size === 0) return [];
+
+    return previous
+      .filter((d) =>
+        !d.supersededBy &&
+        d.reversible &&
+        (d.constraints || []).length > 0 &&
+        (d.constraints || []).every((c) => chosen.has(c.subject)) &&
+        (d.constraints || []).some((c) => chosen.get(c.subject) !== c.value)
+      )
+      .map((d) => ({ ...d, supersededBy: decision.id }));
+  }
+
   /**
    * Format a decision for writing to DECISIONS.md
    */
@@ -59,11 +93,20 @@ export class DecisionLogService {
       `**Impact:** ${decision.impact}`,
       `**Reversible:** ${decision.reversible ? 'Yes' : 'No'}`,
       `**Made by:** ${decision.madeBy}${decision.userApproved ? ' (user approved)' : ''}`,
+      ...(decision.supersededBy ? [`**Superseded by:** ${decision.supersededBy}`] : []),
       '',
       `**Reasoning:** ${decision.reasoning}`,
       '',
     ];
 
+    if (decision.constraints && decision.constraints.length > 0) {
+      lines.push('**Constrains:**');
+      decision.constraints.forEach(c => {
+        lines.push(`- ${SUBJECT_LABELS[c.subject]}: ${c.value}`);
+      });
+      lines.push('');
+    }
+
     if (decision.alternativesConsidered.length > 0) {
       lines.push('**Alternatives considered:**');
       decision.alternativesConsidered.forEach(alt => {
@@ -109,29 +152,42 @@ This file tracks all significant decisions made during development.
   }
 
   /**
-   * Check if a proposed action contradicts an existing decision
+   * Check if a proposed action contradicts an existing decision.
+   * Typed constraints are compared first; the keyword patterns below cover
+   * what the typed subjects don't.
    */
   static checkContradiction(
     proposedAction: string,
-    existingDecisions: Decision[]
-  ): {
-    hasContradiction: boolean;
-    conflictingDecision: Decision | null;
-    explanation: string;
-  } {
+    existingDecisions: Decision[],
+    options: { targetFile?: string } = {}
+  ): ContradictionCheck {
+    const active = existingDecisions.filter((d) => !d.supersededBy);
+    const structured = this.checkConstraints(proposedAction, active, options.targetFile);
+    if (structured) {
+      return structured;
+    }
+
     const actionLower = proposedAction.toLowerCase();
 
     // Check for common contradiction patterns
-    for (const decision of existingDecisions) {
+    for (const decision of active) {
       const decisionLower = decision.decision.toLowerCase();
       const reasoningLower = decision.reasoning.toLowerCase();
 
-      // Pattern: Action says "local" but decision says "server-side"
-      if (actionLower.includes('local') && decisionLower.includes('server-side')) {
+      const typedSubjects = new Set((decision.constraints || []).map((c) => c.subject));
+
+      // Pattern: Action says "local" but decision says "server-side" (superseded by a typed storage location)
+      if (
+        !typedSubjects.has('storage-location') &&
+        actionLower.includes('local') &&
+        decisionLower.includes('server-side')
+      ) {
         return {
           hasContradiction: true,
           conflictingDecision: decision,
           explanation: `Action involves local storage/processing, but decision "${decision.decision}" requires server-side approach.`,
+          suggestion: 'Keep this server-side, or ask the user to revisit the decision first.',
+          affectedFiles: this.getAffectedFiles(decision, options.targetFile),
         };
       }
 
@@ -144,6 +200,8 @@ This file tracks all significant decisions made during development.
           hasContradiction: true,
           conflictingDecision: decision,
           explanation: `Action would embed/ship content, but decision "${decision.decision}" prohibits this.`,
+          suggestion: 'Load the content from the server at runtime instead of shipping it.',
+          affectedFiles: this.getAffectedFiles(decision, options.targetFile),
         };
       }
 
@@ -156,11 +214,13 @@ This file tracks all significant decisions made during development.
           hasContradiction: true,
           conflictingDecision: decision,
           explanation: `Action would modify something covered by irreversible decision "${decision.decision}".`,
+          suggestion: 'Find an approach that leaves this decision intact - it is marked irreversible.',
+          affectedFiles: this.getAffectedFiles(decision, options.targetFile),
         };
       }
 
-      // Pattern: Action uses different technology than decided
-      if (decision.category === 'tech-stack') {
+      // Pattern: Action uses different technology than decided (typed decisions were compared above)
+      if (decision.category === 'tech-stack' && typedSubjects.size === 0) {
         const techKeywords = this.extractTechKeywords(decisionLower);
         const actionTech = this.extractTechKeywords(actionLower);
 
@@ -171,6 +231,8 @@ This file tracks all significant decisions made during development.
               hasContradiction: true,
               conflictingDecision: decision,
               explanation: `Action uses ${actionChoice} but decision specifies ${decidedTech} for ${category}.`,
+              suggestion: `Use ${decidedTech} instead of ${actionChoice}.`,
+              affectedFiles: this.getAffectedFiles(decision, options.targetFile),
             };
           }
         }
@@ -181,6 +243,8 @@ This file tracks all significant decisions made during development.
       hasContradiction: false,
       conflictingDecision: null,
       explanation: '',
+      suggestion: '',
+      affectedFiles: [],
     };
   }
 
@@ -223,7 +287,8 @@ This file tracks all significant decisions made during development.
   /**
    * Format decisions for AI prompt injection
    */
-  static formatForPrompt(decisions: Decision[]): string {
+  static formatForPrompt(allDecisions: Decision[]): string {
+    const decisions = allDecisions.filter((d) => !d.supersededBy);
     if (decisions.length === 0) {
       return '';
     }
@@ -263,6 +328,85 @@ This file tracks all significant decisions made during development.
   // PRIVATE HELPERS
   // =============================================================================
 
+  /**
+   * Compare the values an action adopts (or drops) with each decision's typed
+   * constraints. Only the newest decision on a subject counts, even if the
+   * older one was never marked superseded.
+   */
+  private static checkConstraints(
+    proposedAction: string,
+    decisions: Decision[],
+    targetFile?: string
+  ): ContradictionCheck | null {
+    const mentions = findMentionedValues(proposedAction, targetFile);
+    if (mentions.length === 0) return null;
+
+    const newest = this.newestPerSubject(decisions);
+
+    for (const decision of decisions) {
+      for (const constraint of decision.constraints || []) {
+        if (newest.get(constraint.subject) !== decision) continue;
+        const mention = mentions.find((m) => m.subject === constraint.subject);
+        if (!mention) continue;
+
+        const label = SUBJECT_LABELS[constraint.subject];
+        const other = mention.uses.find((value) => value !== constraint.value);
+        const dropsDecided = mention.dropping.includes(constraint.value);
+        if (!other && !dropsDecided) continue;
+
+        const explanation = other
+          ? `Action uses ${other} as the ${label}, but decision "${decision.decision}" chose ${constraint.value}.`
+          : `Action moves away from ${constraint.value} as the ${label}, which decision "${decision.decision}" chose.`;
+
+        const suggestion = decision.reversible
+          ? `Keep ${constraint.value} as the ${label}, or log a new decision replacing "${decision.decision}" (with the user's approval) before switching.`
+          : `Keep ${constraint.value} as the ${label} - "${decision.decision}" is irreversible, so changing it needs the user to override it explicitly.`;
+
+        return {
+          hasContradiction: true,
+          conflictingDecision: decision,
+          explanation,
+          subject: constraint.subject,
+          suggestion,
+          affectedFiles: this.getAffectedFiles(decision, targetFile),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The latest decision constraining each subject. Timestamps are dates, so
+   * same-day decisions fall back to list order (later wins); an irreversible
+   * decision is never outranked by a reversible one.
+   */
+  private static newestPerSubject(decisions: Decision[]): Map<DecisionSubject, Decision> {
+    const newest = new Map<DecisionSubject, Decision>();
+    for (const decision of decisions) {
+      for (const constraint of decision.constraints || []) {
+        const current = newest.get(constraint.subject);
+        const outranked = current && !current.reversible && decision.reversible;
+        if (!current || (!outranked && decision.timestamp >= current.timestamp)) {
+          newest.set(constraint.subject, decision);
+        }
+      }
+    }
+    return newest;
+  }
+
+  /**
+   * Related files of a decision the action touches - all of them if no file is targeted
+   */
+  private static getAffectedFiles(decision: Decision, targetFile?: string): string[] {
+    if (!targetFile) return decision.relatedFiles;
+
+    const touched = decision.relatedFiles.filter((file) =>
+      file === targetFile || (file.endsWith('/') && targetFile.startsWith(file))
+    );
+    return touched.length > 0 ? touched : decision.relatedFiles;
+  }
+
   private static actionAffectsDecision(action: string, decision: string): boolean {
     // Extract key nouns from both
     const actionWords: string[] = action.match(/\b[a-z]{4,}\b/g) || [];
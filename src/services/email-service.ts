@@ -620,4 +620,134 @@ ${ctaButton('Go to Dashboard', `${APP_URL}/dashboard`)}
       html: baseTemplate(content),
     });
   }
+
+  /**
+   * Confirm a plan change - applied now, or scheduled for the end of the period
+   */
+  static async sendPlanChangeConfirmation(
+    email: string,
+    change: {
+      fromPlan: string;
+      toPlan: string;
+      scheduled: boolean;
+      effectiveAt: Date;
+      prorationAmount: number | null; // cents; null when the provider doesn't prorate
+      currency: string;
+    }
+  ) {
+    const billingUrl = `${APP_URL}/billing`;
+    const effectiveDate = change.effectiveAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+    const amount = change.prorationAmount
+      ? new Intl.NumberFormat('en-US', { style: 'currency', currency: change.currency }).format(Math.abs(change.prorationAmount) / 100)
+      : null;
+    const proration = amount
+      ? change.prorationAmount! > 0
+        ? `A prorated charge of ${amount} for the rest of this billing period has been invoiced.`
+        : `A prorated credit of ${amount} will be applied to your next invoice.`
+      : null;
+    const summary = change.scheduled
+      ? `Your plan will change from ${change.fromPlan} to ${change.toPlan} on ${effectiveDate}. You keep everything in ${change.fromPlan} until then.`
+      : `Your plan has changed from ${change.fromPlan} to ${change.toPlan}.`;
+
+    const content = `
+<h1 style="margin: 0 0 16px 0; font-size: 28px; font-weight: bold; color: #ffffff; text-align: center;">
+  ${change.scheduled ? `Moving to ${change.toPlan} on ${effectiveDate}` : `You're now on ${change.toPlan}`}
+</h1>
+
+<p style="margin: 0 0 32px 0; font-size: 16px; line-height: 1.6; color: #a3a3a3; text-align: center;">
+  ${summary}
+</p>
+${proration ? `
+<p style="margin: -16px 0 32px 0; font-size: 14px; line-height: 1.6; color: #a3a3a3; text-align: center;">
+  ${proration}
+</p>
+` : ''}
+${ctaButton('Manage Billing', billingUrl)}
+    `.trim();
+
+    return this.send({
+      to: email,
+      subject: change.scheduled
+        ? `Plan change to ${change.toPlan} scheduled - CodeBakers`
+        : `You're now on ${change.toPlan} - CodeBakers`,
+      html: baseTemplate(content),
+      text: `${summary}${proration ? `\n\n${proration}` : ''}\n\nManage your subscription: ${billingUrl}`,
+    });
+  }
+
+  /**
+   * Ask a team member to review an engineering phase
+   */
+  static async sendApprovalRequest(
+    email: string,
+    projectName: string,
+    phaseName: string,
+    reason: string,
+    requirement: string
+  ) {
+    const inboxUrl = `${APP_URL}/approvals`;
+
+    const content = `
+<h1 style="margin: 0 0 16px 0; font-size: 28px; font-weight: bold; color: #ffffff; text-align: center;">
+  Approval needed: ${phaseName}
+</h1>
+
+<p style="margin: 0 0 16px 0; font-size: 16px; line-height: 1.6; color: #a3a3a3; text-align: center;">
+  The <strong style="color: #ffffff;">${phaseName}</strong> phase of <strong style="color: #ffffff;">${projectName}</strong> is waiting for your review.
+</p>
+
+<p style="margin: 0 0 32px 0; font-size: 14px; line-height: 1.6; color: #a3a3a3; text-align: center;">
+  ${reason}
+</p>
+
+${ctaButton('Open Approvals', inboxUrl)}
+
+<p style="margin: 32px 0 0 0; font-size: 14px; color: #525252; text-align: center;">
+  This phase needs ${requirement} before the build can continue.
+</p>
+    `.trim();
+
+    return this.send({
+      to: email,
+      subject: `Approval needed: ${phaseName} for ${projectName}`,
+      html: baseTemplate(content),
+      text: `The ${phaseName} phase of ${projectName} is waiting for your review.\n\n${reason}\n\nThis phase needs ${requirement}.\n\nReview it here: ${inboxUrl}`,
+    });
+  }
+
+  /**
+   * Let the team know an approval request was decided
+   */
+  static async sendApprovalResolved(
+    email: string,
+    projectName: string,
+    phaseName: string,
+    approved: boolean,
+    feedback?: string
+  ) {
+    const inboxUrl = `${APP_URL}/approvals`;
+    const outcome = approved ? 'approved' : 'sent back for revision';
+
+    const content = `
+<h1 style="margin: 0 0 16px 0; font-size: 28px; font-weight: bold; color: #ffffff; text-align: center;">
+  ${phaseName} ${approved ? 'approved' : 'needs changes'}
+</h1>
+
+<p style="margin: 0 0 32px 0; font-size: 16px; line-height: 1.6; color: #a3a3a3; text-align: center;">
+  The <strong style="color: #ffffff;">${phaseName}</strong> phase of <strong style="color: #ffffff;">${projectName}</strong> was ${outcome}.
+</p>
+${feedback ? `
+<p style="margin: 0 0 32px 0; font-size: 14px; line-height: 1.6; color: #a3a3a3; text-align: center;">
+  &ldquo;${feedback}&rdquo;
+</p>
+` : ''}
+${ctaButton('View Approvals', inboxUrl)}
+    `.trim();
+
+    return this.send({
+      to: email,
+      subject: `${phaseName} ${outcome} - ${projectName}`,
+      html: baseTemplate(content),
+    });
+  }
 }
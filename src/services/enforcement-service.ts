@@ -13,6 +13,8 @@ import { ContextLoaderService } from './context-loader-service';
 import { DecisionLogService } from './decision-log-service';
 import { AttemptTrackerService } from './attempt-tracker-service';
 import { ScopeLockService } from './scope-lock-service';
+import { SafetyStateService } from './safety-state-service';
+import { CompletionEvidence, EvidenceReport, evaluateCompletionEvidence } from '@/lib/completion-evidence';
 
 // Session expiry: 2 hours
 const SESSION_EXPIRY_MS = 2 * 60 * 60 * 1000;
@@ -209,9 +211,7 @@ export interface ValidateCompleteInput {
   featureDescription?: string;
   filesModified?: string[];
   testsWritten?: string[];
-  testsRun?: boolean;
-  testsPassed?: boolean;
-  typescriptPassed?: boolean;
+  evidence?: CompletionEvidence; // Test, coverage and tsc reports - the gate does not trust self-reported results
   // Safety system integration
   safetySessionId?: string; // For tracking safety state
   contextWasLoaded?: boolean; // Whether load_context was called
@@ -232,6 +232,7 @@ export interface ValidateCompleteResult {
   }>;
   sessionCompleted: boolean;
   message: string;
+  evidence?: EvidenceReport; // Parsed evidence (absent when the session was already completed)
   // Safety system additions
   safetyScore?: number; // 0-100 based on gates followed
   safetyGatesFollowed?: string[];
@@ -277,7 +278,8 @@ export class EnforcementService {
     let failedApproaches: string[] = [];
 
     if (input.sessionId) {
-      const cachedContext = ContextLoaderService.getCachedContext(input.sessionId);
+      const safetySession = await SafetyStateService.getSession(input.sessionId, auth.teamId || null);
+      const cachedContext = safetySession ? SafetyStateService.getContext(safetySession) : null;
       if (cachedContext) {
         // Include relevant decisions
         const decisions = DecisionLogService.getRelevantDecisions(
@@ -312,7 +314,7 @@ export class EnforcementService {
     }
 
     // Get content from database
-    const content = await ContentService.getEncodedContent();
+    const content = await ContentService.getEncodedContent({ teamId: auth.teamId });
     const modules = content.modules || {};
 
     // Build patterns array with content
@@ -540,32 +542,17 @@ export class EnforcementService {
     // STANDARD VALIDATION CHECKS
     // =========================================================================
 
-    // Check if tests were run
-    if (!input.testsRun) {
-      issues.push({
-        type: 'TESTS_NOT_RUN',
-        message: 'Tests must be run before completing a feature. Run npm test.',
-        severity: 'error',
-      });
-    }
-
-    // Check if tests passed
-    if (input.testsRun && !input.testsPassed) {
-      issues.push({
-        type: 'TESTS_FAILED',
-        message: 'Tests are failing. Fix all test failures before completing.',
-        severity: 'error',
-      });
-    }
+    // Test results, coverage and the TypeScript check come from the attached
+    // reports, cross-checked against filesModified/testsWritten
+    const evidence = evaluateCompletionEvidence(input.evidence, {
+      filesModified: input.filesModified,
+      testsWritten: input.testsWritten,
+    });
+    issues.push(...evidence.issues);
 
-    // Check if TypeScript compiled
-    if (input.typescriptPassed === false) {
-      issues.push({
-        type: 'TYPESCRIPT_ERROR',
-        message: 'TypeScript has compilation errors. Run npx tsc --noEmit to see errors.',
-        severity: 'error',
-      });
-    }
+    const testsRun = !!evidence.tests && evidence.tests.total - evidence.tests.skipped > 0;
+    const testsPassed = testsRun && evidence.tests!.failed === 0;
+    const typescriptPassed = evidence.typescript ? evidence.typescript.passed : null;
 
     // Check if tests were written (warning only)
     if (!input.testsWritten || input.testsWritten.length === 0) {
@@ -626,7 +613,11 @@ export class EnforcementService {
     let attemptLogged = false;
     let decisionLogged = false;
 
-    if (input.safetySessionId) {
+    const safetySession = input.safetySessionId
+      ? await SafetyStateService.getSession(input.safetySessionId, session.teamId)
+      : null;
+
+    if (safetySession) {
       // Log the attempt
       const attempt = AttemptTrackerService.createAttempt({
         issue: session.task || input.featureName,
@@ -639,9 +630,7 @@ export class EnforcementService {
           : undefined,
       });
 
-      // Add to cache for this session
-      const { AttemptCache } = await import('./attempt-tracker-service');
-      AttemptCache.add(input.safetySessionId, attempt);
+      await SafetyStateService.addAttempt(safetySession, attempt);
       attemptLogged = true;
 
       // Log the decision if successful
@@ -656,8 +645,7 @@ export class EnforcementService {
           impact: 'medium',
         });
 
-        const { DecisionCache } = await import('./decision-log-service');
-        DecisionCache.add(input.safetySessionId, decision);
+        await SafetyStateService.addDecision(safetySession, decision);
         decisionLogged = true;
       }
     }
@@ -674,9 +662,9 @@ export class EnforcementService {
         endGateAt: new Date(),
         validationPassed: passed,
         validationIssues: JSON.stringify(issues),
-        testsRun: input.testsRun || false,
-        testsPassed: input.testsPassed || false,
-        typescriptPassed: input.typescriptPassed ?? null,
+        testsRun,
+        testsPassed,
+        typescriptPassed,
         status: newStatus,
         updatedAt: new Date(),
       })
@@ -693,8 +681,8 @@ export class EnforcementService {
       issues: JSON.stringify(issues),
       startGateVerified: session.startGatePassed,
       testsExist: (input.testsWritten?.length || 0) > 0,
-      testsPass: input.testsPassed || false,
-      typescriptCompiles: input.typescriptPassed ?? null,
+      testsPass: testsPassed,
+      typescriptCompiles: typescriptPassed,
       responseTimeMs: Date.now() - startTime,
     });
 
@@ -722,6 +710,7 @@ export class EnforcementService {
       issues,
       sessionCompleted: passed,
       message,
+      evidence,
       safetyScore,
       safetyGatesFollowed,
       safetyGatesSkipped,
@@ -732,18 +721,23 @@ export class EnforcementService {
 
   /**
    * Get patterns by name (for /api/patterns/get endpoint)
+   * @param teamId - Serve the team's version rather than the default
    */
   static async getPatterns(
-    patternNames: string[]
-  ): Promise<Array<{ name: string; content: string; found: boolean }>> {
-    const content = await ContentService.getEncodedContent();
+    patternNames: string[],
+    teamId?: string
+  ): Promise<{ version: string; patterns: Array<{ name: string; content: string; found: boolean }> }> {
+    const content = await ContentService.getEncodedContent({ teamId });
     const modules = content.modules || {};
 
-    return patternNames.map((name) => ({
-      name,
-      content: modules[name] || '',
-      found: !!modules[name],
-    }));
+    return {
+      version: content.version,
+      patterns: patternNames.map((name) => ({
+        name,
+        content: modules[name] || '',
+        found: !!modules[name],
+      })),
+    };
   }
 
   /**
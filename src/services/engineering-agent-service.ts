@@ -10,6 +10,10 @@
  * 2. AI generates detailed scope from description
  * 3. Each phase executes automatically
  * 4. User watches progress, no action required
+ *
+ * Everything a build reads or writes besides the model goes through an
+ * AutoBuildStore, so a build can run offline against an in-memory store with
+ * model responses replayed from a cassette (see lib/model-replay).
  */
 
 import { createMessage } from '@/lib/anthropic';
@@ -18,16 +22,75 @@ import {
   ProjectContext,
   EngineeringPhase,
   AgentRole,
-  ENGINEERING_PHASES,
   AGENT_CONFIGS,
+  ArtifactType,
+  PipelineDefinition,
+  PipelinePhase,
+  PipelinePhaseId,
+  GateStatus,
+  BudgetLimits,
+  UsageTotals,
 } from '@/lib/engineering-types';
-import { EngineeringOrchestratorService } from './engineering-orchestrator-service';
+import { getPipelinePhase, orderPipelinePhases, PIPELINE_ROOT_PHASE } from '@/lib/engineering-pipeline';
+import { writeArtifact } from '@/lib/engineering-artifacts';
+import { addUsage, calculateCostMicros, EMPTY_USAGE, getBudgetExceededReason } from '@/lib/engineering-usage';
+import { EngineeringOrchestratorService, nextSessionVersion } from './engineering-orchestrator-service';
 import { ContentService } from './content-service';
+import { EngineeringUsageService, UsageRecordInput } from './engineering-usage-service';
 import { db } from '@/db';
-import { engineeringSessions, engineeringMessages } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { engineeringSessions, engineeringMessages, NewEngineeringSession } from '@/db/schema';
+import { eq, sql } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
 
+// Model used by every engineering agent (priced in lib/engineering-usage)
+const AGENT_MODEL = 'claude-sonnet-4-20250514';
+
+// =============================================================================
+// BUILD STORE
+// =============================================================================
+
+/**
+ * The parts of a session a build reads
+ */
+export interface AutoBuildSession {
+  context: ProjectContext;
+  pipeline: PipelineDefinition;
+  isRunning: boolean;
+}
+
+export type AutoBuildColumns = Pick<NewEngineeringSession,
+  'isRunning' | 'status' | 'pausedReason' | 'currentPhase' | 'currentAgent' | 'lastActivityAt' | 'completedAt' | 'scope'
+>;
+
+export interface AutoBuildStore {
+  getSession(sessionId: string): Promise<AutoBuildSession | null>;
+  updateSession(sessionId: string, columns: Partial<AutoBuildColumns>): Promise<void>;
+  /** Count a failure against the session, stopping it if the whole build failed */
+  recordError(sessionId: string, error: string, stopRunning: boolean): Promise<void>;
+  updateGate(sessionId: string, phaseId: PipelinePhaseId, gate: GateStatus): Promise<void>;
+  storeArtifact(sessionId: string, name: string, content: string, author: { role: AgentRole; phase: PipelinePhaseId }): Promise<void>;
+  getGeneratedFiles(sessionId: string): Promise<GeneratedFile[]>;
+  saveGeneratedFiles(sessionId: string, files: GeneratedFile[]): Promise<void>;
+  logMessage(
+    sessionId: string,
+    fromAgent: string,
+    toAgent: string,
+    messageType: string,
+    content: string,
+    metadata?: Record<string, unknown>
+  ): Promise<void>;
+  /** Why the session or team budget stops the build, or null to carry on */
+  getBudgetExceededReason(sessionId: string): Promise<string | null>;
+  pause(sessionId: string, reason: string): Promise<void>;
+  recordUsage(sessionId: string, teamId: string, usage: UsageRecordInput): Promise<void>;
+  loadPatterns(context: ProjectContext): Promise<string>;
+}
+
+export interface AutoBuildOptions {
+  store?: AutoBuildStore; // Defaults to the database
+  phaseDelayMs?: number; // Pause between phases to stay within rate limits
+}
+
 // =============================================================================
 // PATTERN LOADING (Server-side only - patterns never shipped to user)
 // =============================================================================
@@ -280,10 +343,12 @@ Output production-ready configurations.
  */
 async function executePhase(
   sessionId: string,
-  phase: EngineeringPhase,
-  context: ProjectContext
+  phase: PipelinePhaseId,
+  context: ProjectContext,
+  pipeline: PipelineDefinition,
+  store: AutoBuildStore = databaseBuildStore
 ): Promise<{ success: boolean; artifact?: string; error?: string }> {
-  const phaseConfig = ENGINEERING_PHASES.find(p => p.phase === phase);
+  const phaseConfig = getPipelinePhase(pipeline, phase);
   if (!phaseConfig) return { success: false, error: 'Unknown phase' };
 
   const agentConfig = AGENT_CONFIGS[phaseConfig.agent];
@@ -295,16 +360,27 @@ async function executePhase(
 
   try {
     // Log start
-    await logMessage(sessionId, phaseConfig.agent, 'orchestrator', 'status',
+    await store.logMessage(sessionId, phaseConfig.agent, 'orchestrator', 'status',
       `Starting ${phaseConfig.displayName} phase...`);
 
     // Build the prompt
     let userPrompt = promptFn(context);
 
+    // Team-defined phases reuse an agent's prompt but need their own goal
+    if (!phaseConfig.basePhase || phaseConfig.instructions) {
+      userPrompt = `${userPrompt}
+
+## CURRENT PHASE: ${phaseConfig.displayName}
+${phaseConfig.description}
+${phaseConfig.instructions || ''}
+${phaseConfig.producesArtifacts.length > 0 ? `Expected output: ${phaseConfig.producesArtifacts.join(', ')}` : ''}
+`;
+    }
+
     // For engineer phase, inject actual CodeBakers patterns from server
     // Patterns are used for generation but NEVER shipped to user
     if (phaseConfig.agent === 'engineer') {
-      const patterns = await loadRelevantPatterns(context);
+      const patterns = await store.loadPatterns(context);
       userPrompt = `${userPrompt}
 
 ## CODEBAKERS PATTERNS (Follow these EXACTLY - server-enforced)
@@ -324,7 +400,7 @@ Respond with high-quality, production-ready output. Be thorough but concise.`;
 
     // Call AI
     const response = await createMessage({
-      model: 'claude-sonnet-4-20250514',
+      model: AGENT_MODEL,
       max_tokens: 8000,
       system: systemPrompt,
       messages: [{ role: 'user', content: userPrompt }],
@@ -339,22 +415,23 @@ Respond with high-quality, production-ready output. Be thorough but concise.`;
     const artifact = content.text;
 
     // Log completion
-    await logMessage(sessionId, phaseConfig.agent, 'orchestrator', 'artifact',
+    await store.logMessage(sessionId, phaseConfig.agent, 'orchestrator', 'artifact',
       `Completed ${phaseConfig.displayName}`, { artifactLength: artifact.length });
 
-    // Update token usage
-    await db.update(engineeringSessions)
-      .set({
-        totalApiCalls: (await getApiCalls(sessionId)) + 1,
-        totalTokensUsed: (await getTokensUsed(sessionId)) + (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0),
-      })
-      .where(eq(engineeringSessions.id, sessionId));
+    // Record token usage against the session and team budgets
+    await store.recordUsage(sessionId, context.teamId, {
+      agent: phaseConfig.agent,
+      phase,
+      model: AGENT_MODEL,
+      inputTokens: response.usage?.input_tokens || 0,
+      outputTokens: response.usage?.output_tokens || 0,
+    });
 
     return { success: true, artifact };
 
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-    await logMessage(sessionId, phaseConfig.agent, 'orchestrator', 'error',
+    await store.logMessage(sessionId, phaseConfig.agent, 'orchestrator', 'error',
       `Error in ${phaseConfig.displayName}: ${errorMsg}`);
     return { success: false, error: errorMsg };
   }
@@ -362,16 +439,24 @@ Respond with high-quality, production-ready output. Be thorough but concise.`;
 
 /**
  * Map phase to artifact type
+ * Team-defined phases map through the built-in phase they are based on.
  */
-function getArtifactType(phase: EngineeringPhase): keyof ProjectContext['artifacts'] | null {
-  const mapping: Partial<Record<EngineeringPhase, keyof ProjectContext['artifacts']>> = {
+function getArtifactType(phase: PipelinePhase): ArtifactType | null {
+  const mapping: Partial<Record<EngineeringPhase, ArtifactType>> = {
     requirements: 'prd',
     architecture: 'techSpec',
     implementation: 'techSpec', // Append to tech spec
     documentation: 'userGuide',
     security_review: 'securityAudit',
   };
-  return mapping[phase] || null;
+  return phase.basePhase ? mapping[phase.basePhase] || null : null;
+}
+
+/**
+ * Name under which a team-defined phase's output is stored in artifacts.custom
+ */
+function getCustomArtifactName(phase: PipelinePhase): string {
+  return phase.producesArtifacts[0] || `${phase.id}.md`;
 }
 
 // =============================================================================
@@ -388,15 +473,16 @@ function getArtifactType(phase: EngineeringPhase): keyof ProjectContext['artifac
  * 3. Parse AI output to extract actual code files
  * 4. Store all files in database for CLI to download
  */
-export async function runAutoBuild(sessionId: string): Promise<void> {
+export async function runAutoBuild(sessionId: string, options: AutoBuildOptions = {}): Promise<void> {
+  const store = options.store ?? databaseBuildStore;
+  const phaseDelayMs = options.phaseDelayMs ?? 1000;
+
   // Mark session as running
-  await db.update(engineeringSessions)
-    .set({ isRunning: true, status: 'active' })
-    .where(eq(engineeringSessions.id, sessionId));
+  await store.updateSession(sessionId, { isRunning: true, status: 'active', pausedReason: null });
 
   try {
     // Load session
-    const session = await EngineeringOrchestratorService.getSession(sessionId);
+    const session = await store.getSession(sessionId);
     if (!session) throw new Error('Session not found');
 
     let context = session.context;
@@ -404,154 +490,175 @@ export async function runAutoBuild(sessionId: string): Promise<void> {
 
     // Auto-infer scope from description if minimal input
     if (!context.scope.description && context.scope.name) {
-      context = await autoInferScope(sessionId, context);
+      if (await stopIfOverBudget(sessionId, store)) return;
+      context = await autoInferScope(sessionId, context, store);
     }
 
     // Step 1: Generate base project files (v6.0 bootstrap - patterns stay server-side)
-    await logMessage(sessionId, 'orchestrator', 'all', 'status',
+    await store.logMessage(sessionId, 'orchestrator', 'all', 'status',
       'Generating base project structure (patterns enforced server-side via MCP)...');
 
+    const pipeline = session.pipeline;
+    const phases = orderPipelinePhases(pipeline.phases)
+      .filter(p => p.id !== PIPELINE_ROOT_PHASE); // Skip scoping, already done
+
+    // Code from an implementation phase that already passed (e.g. carried over
+    // from a parent branch) is kept rather than regenerated
+    const implementationPassed = phases.some(p =>
+      (p.basePhase ?? p.id) === 'implementation' && context.gateStatus[p.id]?.status === 'passed');
+
     const baseFiles = generateBaseFiles(context.scope.name);
-    allFiles = [...baseFiles];
-    await saveGeneratedFiles(sessionId, allFiles);
+    const keptFiles = implementationPassed
+      ? (await store.getGeneratedFiles(sessionId)).filter(f => !baseFiles.some(b => b.path === f.path))
+      : [];
+    allFiles = [...baseFiles, ...keptFiles];
+    await store.saveGeneratedFiles(sessionId, allFiles);
 
-    await logMessage(sessionId, 'orchestrator', 'all', 'status',
+    await store.logMessage(sessionId, 'orchestrator', 'all', 'status',
       `Generated ${baseFiles.length} base files (v6.0 bootstrap, configs)`);
 
-    // Step 2: Execute each phase in order
-    const phases = ENGINEERING_PHASES.filter(p => p.phase !== 'scoping'); // Skip scoping, already done
-
+    // Step 2: Execute each phase of the session's pipeline in dependency order
+    // Parallel branches run one after another here to stay within rate limits
     for (const phaseConfig of phases) {
+      // Phases that already passed (resumed builds, forked branches) aren't re-run
+      if (context.gateStatus[phaseConfig.id]?.status === 'passed') continue;
+
       // Check if session was paused
-      const currentSession = await EngineeringOrchestratorService.getSession(sessionId);
+      const currentSession = await store.getSession(sessionId);
       if (!currentSession?.isRunning) {
-        await logMessage(sessionId, 'orchestrator', 'all', 'status', 'Build paused');
+        await store.logMessage(sessionId, 'orchestrator', 'all', 'status', 'Build paused');
         return;
       }
 
+      // Hard stop before the next AI call once a budget is used up
+      if (await stopIfOverBudget(sessionId, store)) return;
+
       // Update current phase
-      await db.update(engineeringSessions)
-        .set({
-          currentPhase: phaseConfig.phase,
-          currentAgent: phaseConfig.agent,
-          lastActivityAt: new Date(),
-        })
-        .where(eq(engineeringSessions.id, sessionId));
+      await store.updateSession(sessionId, {
+        currentPhase: phaseConfig.id,
+        currentAgent: phaseConfig.agent,
+        lastActivityAt: new Date(),
+      });
 
       // Mark phase as in progress
       const gateStatus = context.gateStatus;
-      gateStatus[phaseConfig.phase] = {
-        phase: phaseConfig.phase,
+      gateStatus[phaseConfig.id] = {
+        phase: phaseConfig.id,
         status: 'in_progress',
       };
-      await updateGateStatus(sessionId, gateStatus);
+      await store.updateGate(sessionId, phaseConfig.id, gateStatus[phaseConfig.id]);
 
       // Execute phase
-      const result = await executePhase(sessionId, phaseConfig.phase, context);
+      const result = await executePhase(sessionId, phaseConfig.id, context, pipeline, store);
 
       if (result.success && result.artifact) {
         // Store artifact
-        const artifactType = getArtifactType(phaseConfig.phase);
-        if (artifactType) {
-          context.artifacts[artifactType] = result.artifact;
-          await updateArtifacts(sessionId, context.artifacts);
+        const artifactType = getArtifactType(phaseConfig);
+        const artifactName = artifactType ?? (phaseConfig.basePhase ? null : getCustomArtifactName(phaseConfig));
+        if (artifactName) {
+          await store.storeArtifact(sessionId, artifactName, result.artifact, {
+            role: phaseConfig.agent,
+            phase: phaseConfig.id,
+          });
         }
 
         // For implementation phase, parse the AI response to extract files
-        if (phaseConfig.phase === 'implementation' && result.artifact) {
+        if ((phaseConfig.basePhase ?? phaseConfig.id) === 'implementation' && result.artifact) {
           const codeFiles = parseFilesFromResponse(result.artifact);
           if (codeFiles.length > 0) {
             allFiles = [...allFiles, ...codeFiles];
-            await saveGeneratedFiles(sessionId, allFiles);
+            await store.saveGeneratedFiles(sessionId, allFiles);
 
-            await logMessage(sessionId, 'engineer', 'orchestrator', 'status',
+            await store.logMessage(sessionId, 'engineer', 'orchestrator', 'status',
               `Generated ${codeFiles.length} code files`);
           }
         }
 
         // Mark phase as passed
-        gateStatus[phaseConfig.phase] = {
-          phase: phaseConfig.phase,
+        gateStatus[phaseConfig.id] = {
+          phase: phaseConfig.id,
           status: 'passed',
           passedAt: new Date(),
           approvedBy: 'auto',
-          artifacts: artifactType ? [artifactType] : [],
+          artifacts: artifactType
+            ? [artifactType]
+            : phaseConfig.basePhase ? [] : [getCustomArtifactName(phaseConfig)],
         };
-        await updateGateStatus(sessionId, gateStatus);
+        await store.updateGate(sessionId, phaseConfig.id, gateStatus[phaseConfig.id]);
 
         // Reload context with new artifacts
-        const updatedSession = await EngineeringOrchestratorService.getSession(sessionId);
+        const updatedSession = await store.getSession(sessionId);
         if (updatedSession) context = updatedSession.context;
 
       } else {
         // Mark phase as failed
-        gateStatus[phaseConfig.phase] = {
-          phase: phaseConfig.phase,
+        gateStatus[phaseConfig.id] = {
+          phase: phaseConfig.id,
           status: 'failed',
           failedReason: result.error || 'Unknown error',
         };
-        await updateGateStatus(sessionId, gateStatus);
+        await store.updateGate(sessionId, phaseConfig.id, gateStatus[phaseConfig.id]);
 
         // Update session with error
-        await db.update(engineeringSessions)
-          .set({
-            lastError: result.error,
-            errorCount: (await getErrorCount(sessionId)) + 1,
-          })
-          .where(eq(engineeringSessions.id, sessionId));
+        await store.recordError(sessionId, result.error || 'Unknown error', false);
 
         // Continue to next phase despite error (best effort)
-        await logMessage(sessionId, 'orchestrator', 'all', 'status',
+        await store.logMessage(sessionId, 'orchestrator', 'all', 'status',
           `Phase ${phaseConfig.displayName} had issues, continuing...`);
       }
 
       // Small delay between phases to avoid rate limits
-      await sleep(1000);
+      await sleep(phaseDelayMs);
     }
 
     // Mark build as complete
-    await db.update(engineeringSessions)
-      .set({
-        status: 'completed',
-        isRunning: false,
-        completedAt: new Date(),
-        lastActivityAt: new Date(),
-      })
-      .where(eq(engineeringSessions.id, sessionId));
+    await store.updateSession(sessionId, {
+      status: 'completed',
+      isRunning: false,
+      completedAt: new Date(),
+      lastActivityAt: new Date(),
+    });
 
-    await logMessage(sessionId, 'orchestrator', 'all', 'status',
+    await store.logMessage(sessionId, 'orchestrator', 'all', 'status',
       `Build complete! Generated ${allFiles.length} files total.`);
 
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
 
-    await db.update(engineeringSessions)
-      .set({
-        lastError: errorMsg,
-        errorCount: (await getErrorCount(sessionId)) + 1,
-        isRunning: false,
-      })
-      .where(eq(engineeringSessions.id, sessionId));
+    await store.recordError(sessionId, errorMsg, true);
 
-    await logMessage(sessionId, 'orchestrator', 'all', 'error',
+    await store.logMessage(sessionId, 'orchestrator', 'all', 'error',
       `Build failed: ${errorMsg}`);
   }
 }
 
+/**
+ * Pause the build if the session or team budget has been reached
+ * @returns true if the build was stopped
+ */
+async function stopIfOverBudget(sessionId: string, store: AutoBuildStore): Promise<boolean> {
+  const exceededReason = await store.getBudgetExceededReason(sessionId);
+  if (!exceededReason) return false;
+
+  await store.pause(sessionId, exceededReason);
+  return true;
+}
+
 /**
  * Auto-infer project scope from name/description using AI
  * This enables zero-friction: user just types what they want
  */
 async function autoInferScope(
   sessionId: string,
-  context: ProjectContext
+  context: ProjectContext,
+  store: AutoBuildStore = databaseBuildStore
 ): Promise<ProjectContext> {
-  await logMessage(sessionId, 'orchestrator', 'pm', 'status',
+  await store.logMessage(sessionId, 'orchestrator', 'pm', 'status',
     'Analyzing project requirements...');
 
   try {
     const response = await createMessage({
-      model: 'claude-sonnet-4-20250514',
+      model: AGENT_MODEL,
       max_tokens: 2000,
       system: `You are a product analyst. Given a project name/description, infer the likely scope.
 Output ONLY a JSON object with these fields (no markdown, no explanation):
@@ -573,6 +680,14 @@ Output ONLY a JSON object with these fields (no markdown, no explanation):
       }],
     });
 
+    await store.recordUsage(sessionId, context.teamId, {
+      agent: 'orchestrator',
+      phase: PIPELINE_ROOT_PHASE,
+      model: AGENT_MODEL,
+      inputTokens: response.usage?.input_tokens || 0,
+      outputTokens: response.usage?.output_tokens || 0,
+    });
+
     const content = response.content[0];
     if (content.type === 'text') {
       // Parse JSON from response
@@ -596,19 +711,17 @@ Output ONLY a JSON object with these fields (no markdown, no explanation):
         };
 
         // Persist updated scope
-        await db.update(engineeringSessions)
-          .set({ scope: JSON.stringify(updatedScope) })
-          .where(eq(engineeringSessions.id, sessionId));
+        await store.updateSession(sessionId, { scope: JSON.stringify(updatedScope) });
 
         context.scope = updatedScope;
 
-        await logMessage(sessionId, 'orchestrator', 'pm', 'status',
+        await store.logMessage(sessionId, 'orchestrator', 'pm', 'status',
           `Scope inferred: ${updatedScope.targetAudience} app with ${updatedScope.platforms.join('/')} platform(s)`);
       }
     }
-  } catch (error) {
+  } catch {
     // Non-fatal - continue with defaults
-    await logMessage(sessionId, 'orchestrator', 'pm', 'status',
+    await store.logMessage(sessionId, 'orchestrator', 'pm', 'status',
       'Using default scope (inference skipped)');
   }
 
@@ -619,7 +732,7 @@ Output ONLY a JSON object with these fields (no markdown, no explanation):
 // FILE GENERATION
 // =============================================================================
 
-interface GeneratedFile {
+export interface GeneratedFile {
   id: string;
   path: string;
   content: string;
@@ -986,7 +1099,7 @@ export default function RootLayout({
  */
 async function saveGeneratedFiles(sessionId: string, files: GeneratedFile[]): Promise<void> {
   await db.update(engineeringSessions)
-    .set({ generatedFiles: JSON.stringify(files) })
+    .set({ generatedFiles: JSON.stringify(files), version: nextSessionVersion() })
     .where(eq(engineeringSessions.id, sessionId));
 }
 
@@ -1028,47 +1141,133 @@ async function logMessage(
   });
 }
 
+/**
+ * Save one phase's gate through the orchestrator so gates passed elsewhere aren't overwritten
+ */
 async function updateGateStatus(
   sessionId: string,
-  gateStatus: ProjectContext['gateStatus']
+  phaseId: PipelinePhaseId,
+  gate: GateStatus
 ): Promise<void> {
-  await db.update(engineeringSessions)
-    .set({ gateStatus: JSON.stringify(gateStatus) })
-    .where(eq(engineeringSessions.id, sessionId));
+  await EngineeringOrchestratorService.updateSession(sessionId, (session) => {
+    session.context.gateStatus[phaseId] = gate;
+  });
 }
 
-async function updateArtifacts(
-  sessionId: string,
-  artifacts: ProjectContext['artifacts']
-): Promise<void> {
-  await db.update(engineeringSessions)
-    .set({ artifacts: JSON.stringify(artifacts) })
-    .where(eq(engineeringSessions.id, sessionId));
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function getApiCalls(sessionId: string): Promise<number> {
-  const [record] = await db.select({ totalApiCalls: engineeringSessions.totalApiCalls })
-    .from(engineeringSessions)
-    .where(eq(engineeringSessions.id, sessionId));
-  return record?.totalApiCalls || 0;
-}
+// Where builds read and write unless a caller supplies its own store
+const databaseBuildStore: AutoBuildStore = {
+  getSession: (sessionId) => EngineeringOrchestratorService.getSession(sessionId),
+  updateSession: async (sessionId, columns) => {
+    await db.update(engineeringSessions)
+      .set({ ...columns, version: nextSessionVersion() })
+      .where(eq(engineeringSessions.id, sessionId));
+  },
+  recordError: async (sessionId, error, stopRunning) => {
+    await db.update(engineeringSessions)
+      .set({
+        lastError: error,
+        errorCount: sql`${engineeringSessions.errorCount} + 1`,
+        ...(stopRunning ? { isRunning: false } : {}),
+        version: nextSessionVersion(),
+      })
+      .where(eq(engineeringSessions.id, sessionId));
+  },
+  updateGate: updateGateStatus,
+  storeArtifact: async (sessionId, name, content, author) => {
+    await EngineeringOrchestratorService.storeArtifact(sessionId, name, content, author);
+  },
+  getGeneratedFiles,
+  saveGeneratedFiles,
+  logMessage,
+  getBudgetExceededReason: async (sessionId) => (await EngineeringUsageService.getBudgetStatus(sessionId)).exceededReason,
+  pause: async (sessionId, reason) => {
+    await EngineeringOrchestratorService.pauseSession(sessionId, reason);
+  },
+  recordUsage: (sessionId, teamId, usage) => EngineeringUsageService.recordUsage(sessionId, teamId, usage),
+  loadPatterns: loadRelevantPatterns,
+};
 
-async function getTokensUsed(sessionId: string): Promise<number> {
-  const [record] = await db.select({ totalTokensUsed: engineeringSessions.totalTokensUsed })
-    .from(engineeringSessions)
-    .where(eq(engineeringSessions.id, sessionId));
-  return record?.totalTokensUsed || 0;
+export interface InMemoryBuild {
+  store: AutoBuildStore;
+  session: AutoBuildSession & {
+    status: string;
+    pausedReason: string | null;
+    errorCount: number;
+    lastError: string | null;
+  };
+  startedPhases: PipelinePhaseId[]; // In the order the build entered them
+  files: GeneratedFile[];
+  usage: UsageTotals;
+  messages: string[];
 }
 
-async function getErrorCount(sessionId: string): Promise<number> {
-  const [record] = await db.select({ errorCount: engineeringSessions.errorCount })
-    .from(engineeringSessions)
-    .where(eq(engineeringSessions.id, sessionId));
-  return record?.errorCount || 0;
-}
+/**
+ * A build store held in memory, for tests and offline runs. Pattern modules
+ * are not loaded, so the engineer prompt carries none.
+ * @param budget - Session budget checked before every model call
+ */
+export function createInMemoryBuildStore(session: AutoBuildSession, budget: BudgetLimits | null = null): InMemoryBuild {
+  const state: InMemoryBuild['session'] = {
+    ...structuredClone(session),
+    status: 'active',
+    pausedReason: null,
+    errorCount: 0,
+    lastError: null,
+  };
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+  const store: AutoBuildStore = {
+    getSession: async () => structuredClone(state),
+    updateSession: async (_sessionId, columns) => {
+      if (columns.isRunning !== undefined) state.isRunning = !!columns.isRunning;
+      if (columns.status) state.status = columns.status;
+      if (columns.pausedReason !== undefined) state.pausedReason = columns.pausedReason;
+      if (columns.scope) state.context.scope = JSON.parse(columns.scope);
+      if (columns.currentPhase) {
+        state.context.currentPhase = columns.currentPhase;
+        build.startedPhases.push(columns.currentPhase);
+      }
+    },
+    recordError: async (_sessionId, error, stopRunning) => {
+      state.errorCount++;
+      state.lastError = error;
+      if (stopRunning) state.isRunning = false;
+    },
+    updateGate: async (_sessionId, phaseId, gate) => {
+      state.context.gateStatus[phaseId] = structuredClone(gate);
+    },
+    storeArtifact: async (_sessionId, name, content) => {
+      state.context.artifacts = writeArtifact(state.context.artifacts, name, content);
+    },
+    getGeneratedFiles: async () => structuredClone(build.files),
+    saveGeneratedFiles: async (_sessionId, files) => {
+      build.files = structuredClone(files);
+    },
+    logMessage: async (_sessionId, fromAgent, toAgent, _messageType, content) => {
+      build.messages.push(`${fromAgent} -> ${toAgent}: ${content}`);
+    },
+    getBudgetExceededReason: async () => budget ? getBudgetExceededReason(budget, build.usage, 'Session') : null,
+    pause: async (_sessionId, reason) => {
+      state.isRunning = false;
+      state.status = 'paused';
+      state.pausedReason = reason;
+    },
+    recordUsage: async (_sessionId, _teamId, usage) => {
+      build.usage = addUsage(build.usage, {
+        calls: 1,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costMicros: calculateCostMicros(usage.model, usage.inputTokens, usage.outputTokens),
+      });
+    },
+    loadPatterns: async () => '',
+  };
+
+  const build: InMemoryBuild = { store, session: state, startedPhases: [], files: [], usage: EMPTY_USAGE, messages: [] };
+  return build;
 }
 
 // =============================================================================
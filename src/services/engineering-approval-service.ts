@@ -0,0 +1,319 @@
+/**
+ * ENGINEERING APPROVAL SERVICE
+ *
+ * Durable storage for phase approval requests. Requests survive restarts and
+ * show up in the team-wide approvals inbox until their rule is satisfied
+ * (or a reviewer rejects the phase).
+ */
+
+import { db } from '@/db';
+import {
+  engineeringApprovals,
+  engineeringSessions,
+  teamMembers,
+  profiles,
+  EngineeringApproval,
+} from '@/db/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { ConflictError } from '@/lib/errors';
+import {
+  ApprovalRule,
+  ApprovalStatus,
+  ApprovalVote,
+  PipelinePhaseId,
+} from '@/lib/engineering-types';
+import { evaluateApprovalVotes, getPipelinePhase } from '@/lib/engineering-pipeline';
+import { EngineeringPipelineService } from './engineering-pipeline-service';
+import { EmailService } from './email-service';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Team roles that count as "admin" for approval rules
+const ADMIN_ROLES = ['owner', 'admin'];
+
+export function parseApprovalVotes(approval: Pick<EngineeringApproval, 'votes'>): ApprovalVote[] {
+  return approval.votes ? JSON.parse(approval.votes) : [];
+}
+
+export function getApprovalRuleFromRecord(
+  approval: Pick<EngineeringApproval, 'minApprovers' | 'requireAdmin'>
+): ApprovalRule {
+  return { minApprovers: approval.minApprovers, requireAdmin: approval.requireAdmin };
+}
+
+export class EngineeringApprovalService {
+  /**
+   * Get a user's role in a team (null if they aren't a member)
+   */
+  static async getTeamRole(teamId: string, userId: string): Promise<string | null> {
+    const [membership] = await db
+      .select({ role: teamMembers.role })
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)))
+      .limit(1);
+
+    if (!membership) return null;
+    return membership.role || 'member';
+  }
+
+  static isAdminRole(role: string | null): boolean {
+    return role !== null && ADMIN_ROLES.includes(role);
+  }
+
+  /**
+   * Open an approval request for a phase.
+   * Returns the existing request if the phase is already waiting for approval.
+   */
+  static async createRequest(params: {
+    sessionId: string;
+    teamId: string;
+    phase: PipelinePhaseId;
+    reason: string;
+    requestedBy: string;
+    rule: ApprovalRule;
+  }): Promise<{ approval: EngineeringApproval; created: boolean }> {
+    const existing = await this.getPendingForPhase(params.sessionId, params.phase);
+    if (existing) return { approval: existing, created: false };
+
+    const [approval] = await db
+      .insert(engineeringApprovals)
+      .values({
+        sessionId: params.sessionId,
+        teamId: params.teamId,
+        phase: params.phase,
+        reason: params.reason,
+        requestedBy: params.requestedBy,
+        minApprovers: params.rule.minApprovers,
+        requireAdmin: params.rule.requireAdmin,
+        votes: JSON.stringify([]),
+      })
+      .returning();
+
+    return { approval, created: true };
+  }
+
+  static async getById(approvalId: string): Promise<EngineeringApproval | null> {
+    const [approval] = await db
+      .select()
+      .from(engineeringApprovals)
+      .where(eq(engineeringApprovals.id, approvalId))
+      .limit(1);
+
+    return approval || null;
+  }
+
+  static async getPendingForPhase(
+    sessionId: string,
+    phase: PipelinePhaseId
+  ): Promise<EngineeringApproval | null> {
+    const [approval] = await db
+      .select()
+      .from(engineeringApprovals)
+      .where(
+        and(
+          eq(engineeringApprovals.sessionId, sessionId),
+          eq(engineeringApprovals.phase, phase),
+          eq(engineeringApprovals.status, 'pending')
+        )
+      )
+      .limit(1);
+
+    return approval || null;
+  }
+
+  static async getPendingForSession(sessionId: string): Promise<EngineeringApproval[]> {
+    return db
+      .select()
+      .from(engineeringApprovals)
+      .where(and(eq(engineeringApprovals.sessionId, sessionId), eq(engineeringApprovals.status, 'pending')))
+      .orderBy(engineeringApprovals.createdAt);
+  }
+
+  static async listForSession(sessionId: string): Promise<EngineeringApproval[]> {
+    return db
+      .select()
+      .from(engineeringApprovals)
+      .where(eq(engineeringApprovals.sessionId, sessionId))
+      .orderBy(desc(engineeringApprovals.createdAt));
+  }
+
+  /**
+   * Approvals inbox for every team the user belongs to
+   */
+  static async listForUser(userId: string, status?: ApprovalStatus) {
+    const memberships = await db
+      .select({ teamId: teamMembers.teamId, role: teamMembers.role })
+      .from(teamMembers)
+      .where(eq(teamMembers.userId, userId));
+
+    const teamIds = memberships.map((m) => m.teamId).filter((id): id is string => id !== null);
+    if (teamIds.length === 0) return [];
+
+    const conditions = [inArray(engineeringApprovals.teamId, teamIds)];
+    if (status) conditions.push(eq(engineeringApprovals.status, status));
+
+    const rows = await db
+      .select({
+        approval: engineeringApprovals,
+        projectName: engineeringSessions.projectName,
+        pipelineId: engineeringSessions.pipelineId,
+      })
+      .from(engineeringApprovals)
+      .innerJoin(engineeringSessions, eq(engineeringApprovals.sessionId, engineeringSessions.id))
+      .where(and(...conditions))
+      .orderBy(desc(engineeringApprovals.createdAt))
+      .limit(100);
+
+    // Resolve phase names against each session's pinned pipeline (one lookup per version)
+    const pipelineIds = [...new Set(rows.map((r) => r.pipelineId))];
+    const pipelines = new Map(
+      await Promise.all(
+        pipelineIds.map(async (id) => [id, await EngineeringPipelineService.getPipeline(id)] as const)
+      )
+    );
+
+    return rows.map(({ approval, projectName, pipelineId }) => {
+      const votes = parseApprovalVotes(approval);
+      const role = memberships.find((m) => m.teamId === approval.teamId)?.role || 'member';
+      const phaseConfig = getPipelinePhase(pipelines.get(pipelineId)!, approval.phase);
+
+      return {
+        id: approval.id,
+        sessionId: approval.sessionId,
+        teamId: approval.teamId,
+        projectName,
+        phase: approval.phase,
+        phaseDisplay: phaseConfig?.displayName || approval.phase,
+        status: approval.status,
+        reason: approval.reason,
+        requestedBy: approval.requestedBy,
+        rule: getApprovalRuleFromRecord(approval),
+        votes,
+        hasVoted: votes.some((v) => v.userId === userId),
+        canVoteAsAdmin: this.isAdminRole(role),
+        createdAt: approval.createdAt,
+        resolvedAt: approval.resolvedAt,
+      };
+    });
+  }
+
+  /**
+   * Add a vote and re-evaluate the request against its rule, inside the
+   * caller's transaction. The row is locked while the vote is appended so
+   * concurrent votes can't overwrite each other.
+   */
+  static async recordVote(
+    approval: EngineeringApproval,
+    vote: ApprovalVote,
+    tx: Tx
+  ): Promise<{ approval: EngineeringApproval; status: ApprovalStatus }> {
+    const [current] = await tx
+      .select()
+      .from(engineeringApprovals)
+      .where(eq(engineeringApprovals.id, approval.id))
+      .for('update');
+
+    if (!current || current.status !== 'pending') {
+      throw new ConflictError('This approval request has already been resolved');
+    }
+
+    const existing = parseApprovalVotes(current);
+    if (existing.some((v) => v.userId === vote.userId)) {
+      throw new ConflictError('You have already voted on this approval');
+    }
+
+    const votes = [...existing, vote];
+    const status = evaluateApprovalVotes(getApprovalRuleFromRecord(current), votes);
+
+    const [updated] = await tx
+      .update(engineeringApprovals)
+      .set({
+        votes: JSON.stringify(votes),
+        status,
+        resolvedAt: status === 'pending' ? null : new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(engineeringApprovals.id, approval.id))
+      .returning();
+
+    return { approval: updated, status };
+  }
+
+  /**
+   * Close any open requests when a session ends
+   */
+  static async cancelForSession(sessionId: string): Promise<void> {
+    await db
+      .update(engineeringApprovals)
+      .set({ status: 'cancelled', resolvedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(engineeringApprovals.sessionId, sessionId), eq(engineeringApprovals.status, 'pending')));
+  }
+
+  // ========================================
+  // NOTIFICATIONS
+  // ========================================
+
+  private static async getTeamEmails(teamId: string): Promise<string[]> {
+    const members = await db
+      .select({ email: profiles.email })
+      .from(teamMembers)
+      .innerJoin(profiles, eq(teamMembers.userId, profiles.id))
+      .where(eq(teamMembers.teamId, teamId));
+
+    return members.map((m) => m.email);
+  }
+
+  /**
+   * Email the team that a phase is waiting for review.
+   * Failures are logged and never block the build.
+   */
+  static async notifyRequested(
+    approval: EngineeringApproval,
+    projectName: string,
+    phaseName: string
+  ): Promise<void> {
+    try {
+      const rule = getApprovalRuleFromRecord(approval);
+      const requirement = rule.requireAdmin
+        ? `${rule.minApprovers} approval${rule.minApprovers === 1 ? '' : 's'} including a team admin`
+        : `${rule.minApprovers} approval${rule.minApprovers === 1 ? '' : 's'}`;
+
+      const emails = await this.getTeamEmails(approval.teamId);
+      await Promise.all(
+        emails.map((email) =>
+          EmailService.sendApprovalRequest(email, projectName, phaseName, approval.reason || '', requirement)
+        )
+      );
+    } catch (error) {
+      logger.error('EngineeringApprovalService: Failed to send approval request emails', {
+        approvalId: approval.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Email the team once a request is approved or rejected
+   */
+  static async notifyResolved(
+    approval: EngineeringApproval,
+    projectName: string,
+    phaseName: string,
+    feedback?: string
+  ): Promise<void> {
+    try {
+      const emails = await this.getTeamEmails(approval.teamId);
+      await Promise.all(
+        emails.map((email) =>
+          EmailService.sendApprovalResolved(email, projectName, phaseName, approval.status === 'approved', feedback)
+        )
+      );
+    } catch (error) {
+      logger.error('EngineeringApprovalService: Failed to send approval result emails', {
+        approvalId: approval.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * ENGINEERING ARTIFACT SERVICE
+ *
+ * Immutable revision history for session artifacts (PRD, tech spec, custom
+ * phase outputs). Every write appends a revision; nothing is overwritten, so
+ * any two versions can be diffed and an earlier one restored.
+ */
+
+import { db } from '@/db';
+import {
+  engineeringArtifactRevisions,
+  EngineeringArtifactRevision,
+} from '@/db/schema';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { NotFoundError } from '@/lib/errors';
+import { AgentRole, PipelinePhaseId } from '@/lib/engineering-types';
+import { collapseUnchanged, diffLines, summarizeDiff, DiffLine, DiffSummary } from '@/lib/text-diff';
+
+export interface ArtifactRevisionInput {
+  name: string;
+  content: string;
+  author: AgentRole | 'user';
+  authorUserId?: string;
+  phase?: PipelinePhaseId;
+  restoredFrom?: number;
+}
+
+export type ArtifactRevisionSummary = Omit<EngineeringArtifactRevision, 'content'> & {
+  lineCount: number;
+  isCurrent: boolean;
+};
+
+export interface ArtifactRevisionDiff {
+  artifactName: string;
+  from: ArtifactRevisionSummary;
+  to: ArtifactRevisionSummary;
+  summary: DiffSummary;
+  lines: Array<DiffLine | { type: 'skipped'; count: number }>;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function countLines(content: string): number {
+  return content ? content.split('\n').length : 0;
+}
+
+export class EngineeringArtifactService {
+  /**
+   * Append a revision. Writes identical to the latest revision are skipped.
+   * Run it in the transaction that writes the session row: the row lock keeps
+   * writers to one session numbering revisions one at a time.
+   * @returns the new revision, or the latest one if nothing changed
+   */
+  static async recordRevision(
+    sessionId: string,
+    input: ArtifactRevisionInput,
+    executor: Tx | typeof db = db
+  ): Promise<EngineeringArtifactRevision> {
+    const latest = await this.getLatestRevision(sessionId, input.name, executor);
+    if (latest && latest.content === input.content && input.restoredFrom === undefined) {
+      return latest;
+    }
+
+    // A writer that doesn't hold the session row lock fails on the unique index
+    // rather than reusing a number
+    const [revision] = await executor.insert(engineeringArtifactRevisions).values({
+      sessionId,
+      artifactName: input.name,
+      revision: sql`(
+        select coalesce(max(${engineeringArtifactRevisions.revision}), 0) + 1
+        from ${engineeringArtifactRevisions}
+        where ${engineeringArtifactRevisions.sessionId} = ${sessionId}
+          and ${engineeringArtifactRevisions.artifactName} = ${input.name}
+      )`,
+      content: input.content,
+      author: input.author,
+      authorUserId: input.authorUserId,
+      phase: input.phase,
+      restoredFrom: input.restoredFrom,
+    }).returning();
+
+    return revision;
+  }
+
+  static async getLatestRevision(
+    sessionId: string,
+    name: string,
+    executor: Tx | typeof db = db
+  ): Promise<EngineeringArtifactRevision | null> {
+    const [revision] = await executor
+      .select()
+      .from(engineeringArtifactRevisions)
+      .where(and(
+        eq(engineeringArtifactRevisions.sessionId, sessionId),
+        eq(engineeringArtifactRevisions.artifactName, name)
+      ))
+      .orderBy(desc(engineeringArtifactRevisions.revision))
+      .limit(1);
+
+    return revision || null;
+  }
+
+  static async getRevision(sessionId: string, name: string, revision: number): Promise<EngineeringArtifactRevision> {
+    const [record] = await db
+      .select()
+      .from(engineeringArtifactRevisions)
+      .where(and(
+        eq(engineeringArtifactRevisions.sessionId, sessionId),
+        eq(engineeringArtifactRevisions.artifactName, name),
+        eq(engineeringArtifactRevisions.revision, revision)
+      ))
+      .limit(1);
+
+    if (!record) {
+      throw new NotFoundError(`Revision ${revision} of ${name}`);
+    }
+    return record;
+  }
+
+  /**
+   * Revision timeline (without content), oldest first.
+   * Pass a name to list a single artifact's history.
+   */
+  static async listRevisions(sessionId: string, name?: string): Promise<ArtifactRevisionSummary[]> {
+    const records = await db
+      .select()
+      .from(engineeringArtifactRevisions)
+      .where(name
+        ? and(eq(engineeringArtifactRevisions.sessionId, sessionId), eq(engineeringArtifactRevisions.artifactName, name))
+        : eq(engineeringArtifactRevisions.sessionId, sessionId))
+      .orderBy(asc(engineeringArtifactRevisions.artifactName), asc(engineeringArtifactRevisions.revision));
+
+    const latest = new Map<string, number>();
+    for (const record of records) {
+      latest.set(record.artifactName, Math.max(latest.get(record.artifactName) ?? 0, record.revision));
+    }
+
+    return records.map((record) => summarizeRevision(record, latest.get(record.artifactName) === record.revision));
+  }
+
+  /**
+   * Line diff between two revisions of the same artifact (`from` -> `to`)
+   */
+  static async diffRevisions(
+    sessionId: string,
+    name: string,
+    from: number,
+    to: number
+  ): Promise<ArtifactRevisionDiff> {
+    const [before, after, latest] = await Promise.all([
+      this.getRevision(sessionId, name, from),
+      this.getRevision(sessionId, name, to),
+      this.getLatestRevision(sessionId, name),
+    ]);
+
+    const lines = diffLines(before.content, after.content);
+
+    return {
+      artifactName: name,
+      from: summarizeRevision(before, latest?.revision === before.revision),
+      to: summarizeRevision(after, latest?.revision === after.revision),
+      summary: summarizeDiff(lines),
+      lines: collapseUnchanged(lines),
+    };
+  }
+}
+
+function summarizeRevision(record: EngineeringArtifactRevision, isCurrent: boolean): ArtifactRevisionSummary {
+  const { content, ...rest } = record;
+  return { ...rest, lineCount: countLines(content), isCurrent };
+}
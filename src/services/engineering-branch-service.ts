@@ -0,0 +1,342 @@
+/**
+ * ENGINEERING BRANCH SERVICE
+ *
+ * "What-if" explorations of an engineering session. A session is forked at a
+ * passed gate into a child that keeps everything decided up to that point,
+ * both branches run independently, and the team promotes the one it prefers.
+ */
+
+import { db } from '@/db';
+import {
+  engineeringSessions,
+  engineeringDecisions,
+  engineeringArtifactRevisions,
+  EngineeringSession,
+  EngineeringBranchStatus,
+  EngineeringSessionStatus,
+} from '@/db/schema';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { ArtifactComparison, PipelinePhaseId, ProjectContext } from '@/lib/engineering-types';
+import { calculatePipelineProgress, getPipelinePhase } from '@/lib/engineering-pipeline';
+import { forkProjectState, compareArtifacts } from '@/lib/engineering-branches';
+import { flattenArtifacts } from '@/lib/engineering-artifacts';
+import { EngineeringOrchestratorService, nextSessionVersion } from './engineering-orchestrator-service';
+import { EngineeringPipelineService } from './engineering-pipeline-service';
+import { EngineeringApprovalService } from './engineering-approval-service';
+
+// Name given to the original session the first time it is forked
+const ROOT_BRANCH_NAME = 'main';
+
+// Guards the parent walk against a corrupted (cyclic) chain
+const MAX_BRANCH_DEPTH = 50;
+
+export interface BranchSummary {
+  id: string;
+  parentSessionId: string | null;
+  branchName: string;
+  branchStatus: EngineeringBranchStatus | null;
+  forkedAtPhase: string | null;
+  status: EngineeringSessionStatus;
+  currentPhase: string;
+  isRunning: boolean;
+  progress: number;
+  startedAt: Date | null;
+  lastActivityAt: Date | null;
+}
+
+export class EngineeringBranchService {
+  /**
+   * Fork a session at a passed gate.
+   * The child starts paused at the fork phase; running a build continues from there.
+   */
+  static async forkSession(
+    sessionId: string,
+    input: { phase: PipelinePhaseId; branchName: string }
+  ): Promise<EngineeringSession> {
+    const source = await EngineeringOrchestratorService.getSession(sessionId);
+    if (!source) {
+      throw new NotFoundError('Session');
+    }
+
+    const phaseConfig = getPipelinePhase(source.pipeline, input.phase);
+    if (!phaseConfig) {
+      throw new ValidationError(`Unknown phase "${input.phase}"`);
+    }
+    if (source.context.gateStatus[input.phase]?.status !== 'passed') {
+      throw new ValidationError(`Can only fork at a passed gate - ${phaseConfig.displayName} has not passed`);
+    }
+
+    const [record] = await db
+      .select()
+      .from(engineeringSessions)
+      .where(eq(engineeringSessions.id, sessionId))
+      .limit(1);
+
+    if (!record) {
+      throw new NotFoundError('Session');
+    }
+    if (record.branchStatus === 'archived') {
+      throw new ValidationError('Cannot fork an archived branch');
+    }
+
+    const forked = forkProjectState(source.pipeline, source.context, input.phase);
+
+    // Generated code only belongs to the child if implementation is behind the fork point
+    const keepsImplementation = forked.keptPhases.some((id) => {
+      const phase = getPipelinePhase(source.pipeline, id);
+      return (phase?.basePhase ?? id) === 'implementation';
+    });
+
+    return db.transaction(async (tx) => {
+      const [child] = await tx.insert(engineeringSessions).values({
+        teamId: record.teamId,
+        projectHash: record.projectHash,
+        projectName: record.projectName,
+        projectDescription: record.projectDescription,
+        status: 'paused',
+        currentPhase: input.phase,
+        currentAgent: phaseConfig.agent,
+        isRunning: false,
+        pipelineId: record.pipelineId,
+        parentSessionId: sessionId,
+        forkedAtPhase: input.phase,
+        branchName: input.branchName,
+        branchStatus: 'exploring',
+        scope: JSON.stringify(source.context.scope),
+        stack: JSON.stringify(source.context.stack),
+        gateStatus: JSON.stringify(forked.gateStatus),
+        artifacts: JSON.stringify(forked.artifacts),
+        dependencyGraph: JSON.stringify(forked.dependencyGraph),
+        generatedFiles: keepsImplementation ? record.generatedFiles : null,
+        startedAt: new Date(),
+        pausedAt: new Date(),
+        lastActivityAt: new Date(),
+      }).returning();
+
+      // Decisions made up to the fork point still apply to the child
+      const decisions = await tx
+        .select()
+        .from(engineeringDecisions)
+        .where(and(
+          eq(engineeringDecisions.sessionId, sessionId),
+          inArray(engineeringDecisions.phase, forked.keptPhases)
+        ));
+
+      if (decisions.length > 0) {
+        await tx.insert(engineeringDecisions).values(
+          decisions.map((decision) => ({
+            sessionId: child.id,
+            agent: decision.agent,
+            phase: decision.phase,
+            decision: decision.decision,
+            reasoning: decision.reasoning,
+            alternatives: decision.alternatives,
+            confidence: decision.confidence,
+            reversible: decision.reversible,
+            impact: decision.impact,
+            createdAt: decision.createdAt,
+          }))
+        );
+      }
+
+      // Artifact history comes along so restores and diffs work in the child too
+      const keptArtifacts = Object.keys(flattenArtifacts(forked.artifacts));
+      if (keptArtifacts.length > 0) {
+        const revisions = await tx
+          .select()
+          .from(engineeringArtifactRevisions)
+          .where(and(
+            eq(engineeringArtifactRevisions.sessionId, sessionId),
+            inArray(engineeringArtifactRevisions.artifactName, keptArtifacts)
+          ));
+
+        if (revisions.length > 0) {
+          await tx.insert(engineeringArtifactRevisions).values(
+            revisions.map((revision) => ({
+              sessionId: child.id,
+              artifactName: revision.artifactName,
+              revision: revision.revision,
+              content: revision.content,
+              author: revision.author,
+              authorUserId: revision.authorUserId,
+              phase: revision.phase,
+              restoredFrom: revision.restoredFrom,
+              createdAt: revision.createdAt,
+            }))
+          );
+        }
+      }
+
+      if (!record.branchStatus) {
+        await tx.update(engineeringSessions)
+          .set({
+            branchName: record.branchName ?? ROOT_BRANCH_NAME,
+            branchStatus: 'exploring',
+            updatedAt: new Date(),
+            version: nextSessionVersion(),
+          })
+          .where(eq(engineeringSessions.id, sessionId));
+      }
+
+      return child;
+    });
+  }
+
+  /**
+   * Every session in the same branch tree, root first
+   */
+  static async getBranchFamily(sessionId: string): Promise<EngineeringSession[]> {
+    let [current] = await db
+      .select()
+      .from(engineeringSessions)
+      .where(eq(engineeringSessions.id, sessionId))
+      .limit(1);
+
+    if (!current) {
+      throw new NotFoundError('Session');
+    }
+
+    for (let depth = 0; current.parentSessionId && depth < MAX_BRANCH_DEPTH; depth++) {
+      const [parent] = await db
+        .select()
+        .from(engineeringSessions)
+        .where(eq(engineeringSessions.id, current.parentSessionId))
+        .limit(1);
+      if (!parent) break;
+      current = parent;
+    }
+
+    const family: EngineeringSession[] = [current];
+    const seen = new Set([current.id]);
+    let frontier = [current.id];
+
+    while (frontier.length > 0) {
+      const children = await db
+        .select()
+        .from(engineeringSessions)
+        .where(inArray(engineeringSessions.parentSessionId, frontier));
+
+      frontier = [];
+      for (const child of children) {
+        if (seen.has(child.id)) continue;
+        seen.add(child.id);
+        family.push(child);
+        frontier.push(child.id);
+      }
+    }
+
+    return family;
+  }
+
+  /**
+   * Branch tree summaries for display
+   */
+  static async listBranches(sessionId: string): Promise<BranchSummary[]> {
+    const family = await this.getBranchFamily(sessionId);
+
+    return Promise.all(family.map(async (record) => {
+      const pipeline = await EngineeringPipelineService.getPipelineForSession(record);
+      const gateStatus = record.gateStatus ? JSON.parse(record.gateStatus) : {};
+
+      return {
+        id: record.id,
+        parentSessionId: record.parentSessionId,
+        branchName: record.branchName ?? ROOT_BRANCH_NAME,
+        branchStatus: record.branchStatus,
+        forkedAtPhase: record.forkedAtPhase,
+        status: record.status ?? 'active',
+        currentPhase: record.currentPhase || 'scoping',
+        isRunning: record.isRunning ?? false,
+        progress: calculatePipelineProgress(pipeline, gateStatus),
+        startedAt: record.startedAt,
+        lastActivityAt: record.lastActivityAt,
+      };
+    }));
+  }
+
+  /**
+   * Artifact-by-artifact diff between two branches of the same tree
+   */
+  static async compareBranches(leftId: string, rightId: string): Promise<ArtifactComparison[]> {
+    const family = await this.getBranchFamily(leftId);
+    const left = family.find((s) => s.id === leftId);
+    const right = family.find((s) => s.id === rightId);
+
+    if (!left) {
+      throw new NotFoundError('Session');
+    }
+    if (!right) {
+      throw new ValidationError('Sessions are not branches of the same project');
+    }
+
+    const parseArtifacts = (record: EngineeringSession): ProjectContext['artifacts'] =>
+      record.artifacts ? JSON.parse(record.artifacts) : {};
+
+    return compareArtifacts(parseArtifacts(left), parseArtifacts(right));
+  }
+
+  /**
+   * Make a branch the chosen one; every other branch in the tree is archived
+   */
+  static async promoteBranch(sessionId: string): Promise<{ promoted: string; archived: string[] }> {
+    const family = await this.getBranchFamily(sessionId);
+    if (family.length < 2) {
+      throw new ValidationError('Session has no branches to choose between');
+    }
+
+    const others = family.filter((s) => s.id !== sessionId).map((s) => s.id);
+
+    await db.transaction(async (tx) => {
+      await tx.update(engineeringSessions)
+        .set({ branchStatus: 'promoted', updatedAt: new Date(), version: nextSessionVersion() })
+        .where(eq(engineeringSessions.id, sessionId));
+
+      await tx.update(engineeringSessions)
+        .set({
+          branchStatus: 'archived',
+          isRunning: false,
+          updatedAt: new Date(),
+          version: nextSessionVersion(),
+        })
+        .where(and(
+          inArray(engineeringSessions.id, others),
+          ne(engineeringSessions.branchStatus, 'archived')
+        ));
+    });
+
+    // Archived branches can't pass gates any more
+    await Promise.all(others.map((id) => EngineeringApprovalService.cancelForSession(id)));
+
+    return { promoted: sessionId, archived: others };
+  }
+
+  /**
+   * Set a single branch aside without promoting another
+   */
+  static async archiveBranch(sessionId: string): Promise<void> {
+    const [record] = await db
+      .select({ id: engineeringSessions.id, branchStatus: engineeringSessions.branchStatus })
+      .from(engineeringSessions)
+      .where(eq(engineeringSessions.id, sessionId))
+      .limit(1);
+
+    if (!record) {
+      throw new NotFoundError('Session');
+    }
+    if (!record.branchStatus) {
+      throw new ValidationError('Only branched sessions can be archived');
+    }
+
+    await db.update(engineeringSessions)
+      .set({
+        branchStatus: 'archived',
+        isRunning: false,
+        updatedAt: new Date(),
+        version: nextSessionVersion(),
+      })
+      .where(eq(engineeringSessions.id, sessionId));
+
+    await EngineeringApprovalService.cancelForSession(sessionId);
+  }
+}
@@ -14,8 +14,6 @@ import { randomUUID } from 'crypto';
 import {
   ProjectContext,
   ProjectScope,
-  EngineeringPhase,
-  GateStatus,
   AgentRole,
   AgentMessage,
   AgentDecision,
@@ -29,8 +27,36 @@ import {
   ScopingStep,
   EngineeringProgress,
   PhaseProgress,
+  PipelineDefinition,
+  PipelinePhase,
+  PipelinePhaseId,
+  ArtifactType,
+  ApprovalStatus,
+  ApprovalVote,
 } from '@/lib/engineering-types';
+import {
+  getPipelinePhase,
+  getReadyPhases,
+  getActivePhases,
+  isPipelineComplete,
+  calculatePipelineProgress,
+  initializePipelineGateStatus,
+  orderPipelinePhases,
+  getApprovalRule,
+  describeApprovalProgress,
+  evaluateApprovalVotes,
+} from '@/lib/engineering-pipeline';
+import { readArtifact, writeArtifact } from '@/lib/engineering-artifacts';
 import { ProjectTrackingService } from './project-tracking-service';
+import { EngineeringPipelineService } from './engineering-pipeline-service';
+import {
+  EngineeringApprovalService,
+  parseApprovalVotes,
+  getApprovalRuleFromRecord,
+} from './engineering-approval-service';
+import { EngineeringArtifactService } from './engineering-artifact-service';
+import { AppError, NotFoundError, AuthorizationError, ConflictError, ConcurrencyError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
 import { db } from '@/db';
 import {
   engineeringSessions,
@@ -39,6 +65,8 @@ import {
   engineeringGateHistory,
   EngineeringSession,
   NewEngineeringSession,
+  EngineeringApproval,
+  EngineeringArtifactRevision,
 } from '@/db/schema';
 import { eq, desc, and, gte, sql, count } from 'drizzle-orm';
 
@@ -48,15 +76,32 @@ import { eq, desc, and, gte, sql, count } from 'drizzle-orm';
 
 interface OrchestratorState {
   context: ProjectContext;
+  pipeline: PipelineDefinition; // Pipeline version this session is pinned to
   messages: AgentMessage[];
   isRunning: boolean;
   currentAgent: AgentRole;
-  pendingApprovals: string[]; // Phase names waiting for user approval
+  pendingApprovals: PipelinePhaseId[]; // Phases waiting for approval (persisted in engineering_approvals)
+  version: number; // engineering_sessions.version this state was loaded at
 }
 
-// In-memory cache for active sessions (database is source of truth)
+// In-memory cache for active sessions (database is source of truth).
+// Entries are checked against the row version before use, so a write from
+// another instance invalidates them.
 const sessionCache = new Map<string, OrchestratorState>();
 
+// How many times a conflicting update is re-applied to fresh state before giving up
+const MAX_UPDATE_ATTEMPTS = 3;
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * SQL for bumping the session version on writes that bypass the orchestrator
+ * (column-only updates), so cached copies on other instances are invalidated
+ */
+export function nextSessionVersion() {
+  return sql`${engineeringSessions.version} + 1`;
+}
+
 // =============================================================================
 // DATABASE HELPERS
 // =============================================================================
@@ -64,7 +109,12 @@ const sessionCache = new Map<string, OrchestratorState>();
 /**
  * Convert database record to OrchestratorState
  */
-function dbToState(record: EngineeringSession, messages: AgentMessage[] = []): OrchestratorState {
+function dbToState(
+  record: EngineeringSession,
+  pipeline: PipelineDefinition,
+  messages: AgentMessage[] = [],
+  pendingApprovals: PipelinePhaseId[] = []
+): OrchestratorState {
   const scope: ProjectScope = record.scope
     ? JSON.parse(record.scope)
     : {
@@ -92,7 +142,7 @@ function dbToState(record: EngineeringSession, messages: AgentMessage[] = []): O
 
   const gateStatus = record.gateStatus
     ? JSON.parse(record.gateStatus)
-    : EngineeringOrchestratorService['initializeGateStatus']();
+    : initializePipelineGateStatus(pipeline);
 
   const artifacts = record.artifacts ? JSON.parse(record.artifacts) : {};
   const dependencyGraph = record.dependencyGraph ? JSON.parse(record.dependencyGraph) : { nodes: [], edges: [] };
@@ -103,7 +153,7 @@ function dbToState(record: EngineeringSession, messages: AgentMessage[] = []): O
     projectHash: record.projectHash,
     scope,
     stack,
-    currentPhase: record.currentPhase as EngineeringPhase,
+    currentPhase: record.currentPhase || 'scoping',
     currentAgent: record.currentAgent as AgentRole,
     gateStatus,
     artifacts,
@@ -115,10 +165,12 @@ function dbToState(record: EngineeringSession, messages: AgentMessage[] = []): O
 
   return {
     context,
+    pipeline,
     messages,
     isRunning: record.isRunning ?? true,
     currentAgent: record.currentAgent as AgentRole,
-    pendingApprovals: [], // TODO: Could persist this
+    pendingApprovals, // Loaded from engineering_approvals
+    version: record.version,
   };
 }
 
@@ -140,6 +192,13 @@ function stateToDbUpdate(state: OrchestratorState): Partial<NewEngineeringSessio
   };
 }
 
+/**
+ * Serialized persistent fields, used to skip writes for no-op updates
+ */
+function snapshotState(state: OrchestratorState): string {
+  return JSON.stringify({ ...stateToDbUpdate(state), updatedAt: undefined });
+}
+
 // =============================================================================
 // MAIN ORCHESTRATOR SERVICE
 // =============================================================================
@@ -156,7 +215,8 @@ export class EngineeringOrchestratorService {
   static async startSession(
     teamId: string,
     projectHash: string,
-    projectName: string
+    projectName: string,
+    stackOverrides: Partial<ProjectContext['stack']> = {}
   ): Promise<{ sessionId: string; firstStep: ScopingStep }> {
     const scope: ProjectScope = {
       name: projectName,
@@ -184,15 +244,19 @@ export class EngineeringOrchestratorService {
       launchTimeline: 'flexible',
     };
 
-    const stack = {
+    // A project template (codebakers build --template) fixes parts of the stack up front
+    const stack: ProjectContext['stack'] = {
       framework: 'nextjs',
       database: 'supabase',
       orm: 'drizzle',
       auth: 'supabase',
       ui: 'shadcn',
+      ...stackOverrides,
     };
 
-    const gateStatus = this.initializeGateStatus();
+    // Pin the team's current pipeline so later edits don't affect this build
+    const pipeline = await EngineeringPipelineService.getActivePipeline(teamId, projectHash);
+    const gateStatus = initializePipelineGateStatus(pipeline);
 
     // Insert into database
     const [dbRecord] = await db.insert(engineeringSessions).values({
@@ -204,6 +268,7 @@ export class EngineeringOrchestratorService {
       currentPhase: 'scoping',
       currentAgent: 'orchestrator',
       isRunning: true,
+      pipelineId: pipeline.id,
       scope: JSON.stringify(scope),
       stack: JSON.stringify(stack),
       gateStatus: JSON.stringify(gateStatus),
@@ -235,10 +300,12 @@ export class EngineeringOrchestratorService {
     // Store in cache
     sessionCache.set(sessionId, {
       context,
+      pipeline,
       messages: [],
       isRunning: true,
       currentAgent: 'orchestrator',
       pendingApprovals: [],
+      version: dbRecord.version,
     });
 
     // Create project in database (existing project tracking)
@@ -258,12 +325,23 @@ export class EngineeringOrchestratorService {
 
   /**
    * Resume an existing session
-   * Checks cache first, then loads from database
+   * Checks cache first, then loads from database.
+   * Returns a copy - use updateSession to change and save it.
    */
   static async getSession(sessionId: string): Promise<OrchestratorState | null> {
-    // Check cache first
+    // Use the cached copy only if no other instance has written since it was loaded
     const cached = sessionCache.get(sessionId);
-    if (cached) return cached;
+    if (cached) {
+      const [current] = await db
+        .select({ version: engineeringSessions.version })
+        .from(engineeringSessions)
+        .where(eq(engineeringSessions.id, sessionId))
+        .limit(1);
+
+      if (current?.version === cached.version) return structuredClone(cached);
+      sessionCache.delete(sessionId);
+      if (!current) return null;
+    }
 
     // Load from database
     const [record] = await db
@@ -291,15 +369,20 @@ export class EngineeringOrchestratorService {
       metadata: m.metadata ? JSON.parse(m.metadata) : undefined,
     }));
 
+    // Pending approvals are stored durably so they survive restarts
+    const pendingApprovals = await EngineeringApprovalService.getPendingForSession(sessionId);
+
     // Convert to state and cache
-    const state = dbToState(record, messages);
+    const pipeline = await EngineeringPipelineService.getPipelineForSession(record);
+    const state = dbToState(record, pipeline, messages, pendingApprovals.map((a) => a.phase));
     sessionCache.set(sessionId, state);
 
-    return state;
+    return structuredClone(state);
   }
 
   /**
-   * Get session synchronously from cache only (for methods that don't need async)
+   * Get session synchronously from cache only (for methods that don't need async).
+   * May be stale if another instance has written since; use getSession to validate.
    */
   static getSessionFromCache(sessionId: string): OrchestratorState | null {
     return sessionCache.get(sessionId) || null;
@@ -309,84 +392,36 @@ export class EngineeringOrchestratorService {
    * Pause an active session
    * @returns success status and message
    */
-  static async pauseSession(sessionId: string): Promise<{ success: boolean; message: string }> {
-    const session = sessionCache.get(sessionId);
+  static async pauseSession(sessionId: string, reason?: string): Promise<{ success: boolean; message: string }> {
+    let toAgent: string = 'orchestrator';
 
-    // If not in cache, check database
-    if (!session) {
-      const [record] = await db
-        .select()
-        .from(engineeringSessions)
-        .where(eq(engineeringSessions.id, sessionId))
-        .limit(1);
-
-      if (!record) {
-        return { success: false, message: 'Session not found' };
-      }
-
-      if (!record.isRunning) {
+    const result = await this.updateSession(sessionId, (session, columns) => {
+      if (!session.isRunning) {
         return { success: false, message: 'Session is not running' };
       }
 
-      // Update database directly
-      await db
-        .update(engineeringSessions)
-        .set({
-          isRunning: false,
-          status: 'paused',
-          pausedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(engineeringSessions.id, sessionId));
+      session.isRunning = false;
+      toAgent = session.currentAgent;
+      Object.assign(columns, { status: 'paused', pausedAt: new Date(), pausedReason: reason ?? null });
 
-      // Add message to database
+      return { success: true, message: 'Session paused successfully' };
+    });
+
+    if (!result) {
+      return { success: false, message: 'Session not found' };
+    }
+
+    if (result.success) {
       await db.insert(engineeringMessages).values({
         sessionId,
         fromAgent: 'orchestrator',
-        toAgent: record.currentAgent || 'orchestrator',
+        toAgent,
         messageType: 'request',
-        content: 'Session paused by admin',
+        content: reason ? `Session paused: ${reason}` : 'Session paused by admin',
       });
-
-      return { success: true, message: 'Session paused successfully' };
-    }
-
-    if (!session.isRunning) {
-      return { success: false, message: 'Session is not running' };
     }
 
-    // Update cache
-    session.isRunning = false;
-    const newMessage: AgentMessage = {
-      id: randomUUID(),
-      fromAgent: 'orchestrator',
-      toAgent: session.currentAgent,
-      messageType: 'request',
-      content: 'Session paused by admin',
-      timestamp: new Date(),
-    };
-    session.messages.push(newMessage);
-
-    // Persist to database
-    await db
-      .update(engineeringSessions)
-      .set({
-        isRunning: false,
-        status: 'paused',
-        pausedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(engineeringSessions.id, sessionId));
-
-    await db.insert(engineeringMessages).values({
-      sessionId,
-      fromAgent: newMessage.fromAgent,
-      toAgent: newMessage.toAgent,
-      messageType: newMessage.messageType,
-      content: newMessage.content,
-    });
-
-    return { success: true, message: 'Session paused successfully' };
+    return result;
   }
 
   /**
@@ -394,83 +429,35 @@ export class EngineeringOrchestratorService {
    * @returns success status and message
    */
   static async resumeSession(sessionId: string): Promise<{ success: boolean; message: string }> {
-    const session = sessionCache.get(sessionId);
-
-    // If not in cache, check database
-    if (!session) {
-      const [record] = await db
-        .select()
-        .from(engineeringSessions)
-        .where(eq(engineeringSessions.id, sessionId))
-        .limit(1);
+    let toAgent: string = 'orchestrator';
 
-      if (!record) {
-        return { success: false, message: 'Session not found' };
-      }
-
-      if (record.isRunning) {
+    const result = await this.updateSession(sessionId, (session, columns) => {
+      if (session.isRunning) {
         return { success: false, message: 'Session is already running' };
       }
 
-      // Update database directly
-      await db
-        .update(engineeringSessions)
-        .set({
-          isRunning: true,
-          status: 'active',
-          pausedAt: null,
-          updatedAt: new Date(),
-        })
-        .where(eq(engineeringSessions.id, sessionId));
+      session.isRunning = true;
+      toAgent = session.currentAgent;
+      Object.assign(columns, { status: 'active', pausedAt: null, pausedReason: null });
+
+      return { success: true, message: 'Session resumed successfully' };
+    });
+
+    if (!result) {
+      return { success: false, message: 'Session not found' };
+    }
 
-      // Add message to database
+    if (result.success) {
       await db.insert(engineeringMessages).values({
         sessionId,
         fromAgent: 'orchestrator',
-        toAgent: record.currentAgent || 'orchestrator',
+        toAgent,
         messageType: 'request',
         content: 'Session resumed by admin',
       });
-
-      return { success: true, message: 'Session resumed successfully' };
-    }
-
-    if (session.isRunning) {
-      return { success: false, message: 'Session is already running' };
     }
 
-    // Update cache
-    session.isRunning = true;
-    const newMessage: AgentMessage = {
-      id: randomUUID(),
-      fromAgent: 'orchestrator',
-      toAgent: session.currentAgent,
-      messageType: 'request',
-      content: 'Session resumed by admin',
-      timestamp: new Date(),
-    };
-    session.messages.push(newMessage);
-
-    // Persist to database
-    await db
-      .update(engineeringSessions)
-      .set({
-        isRunning: true,
-        status: 'active',
-        pausedAt: null,
-        updatedAt: new Date(),
-      })
-      .where(eq(engineeringSessions.id, sessionId));
-
-    await db.insert(engineeringMessages).values({
-      sessionId,
-      fromAgent: newMessage.fromAgent,
-      toAgent: newMessage.toAgent,
-      messageType: newMessage.messageType,
-      content: newMessage.content,
-    });
-
-    return { success: true, message: 'Session resumed successfully' };
+    return result;
   }
 
   /**
@@ -478,92 +465,40 @@ export class EngineeringOrchestratorService {
    * @returns success status and message
    */
   static async cancelSession(sessionId: string, reason?: string): Promise<{ success: boolean; message: string }> {
-    const session = sessionCache.get(sessionId);
     const cancelMessage = `Session cancelled by admin${reason ? `: ${reason}` : ''}`;
-
-    // If not in cache, update database directly
-    if (!session) {
-      const [record] = await db
-        .select()
-        .from(engineeringSessions)
-        .where(eq(engineeringSessions.id, sessionId))
-        .limit(1);
-
-      if (!record) {
-        return { success: false, message: 'Session not found' };
+    let toAgent: string = 'orchestrator';
+
+    const result = await this.updateSession(sessionId, (session, columns) => {
+      // Mark current phase as failed
+      const currentPhase = session.context.currentPhase;
+      if (session.context.gateStatus[currentPhase]) {
+        session.context.gateStatus[currentPhase].status = 'failed';
+        session.context.gateStatus[currentPhase].failedReason = reason || 'Cancelled by admin';
       }
 
-      // Update gate status
-      const gateStatus = record.gateStatus ? JSON.parse(record.gateStatus) : {};
-      if (gateStatus[record.currentPhase || 'scoping']) {
-        gateStatus[record.currentPhase || 'scoping'].status = 'failed';
-        gateStatus[record.currentPhase || 'scoping'].failedReason = reason || 'Cancelled by admin';
-      }
-
-      // Update database
-      await db
-        .update(engineeringSessions)
-        .set({
-          isRunning: false,
-          status: 'abandoned',
-          gateStatus: JSON.stringify(gateStatus),
-          lastError: reason || 'Cancelled by admin',
-          updatedAt: new Date(),
-        })
-        .where(eq(engineeringSessions.id, sessionId));
-
-      // Add message
-      await db.insert(engineeringMessages).values({
-        sessionId,
-        fromAgent: 'orchestrator',
-        toAgent: record.currentAgent || 'orchestrator',
-        messageType: 'request',
-        content: cancelMessage,
-      });
+      session.isRunning = false;
+      session.pendingApprovals = [];
+      toAgent = session.currentAgent;
+      Object.assign(columns, { status: 'abandoned', lastError: reason || 'Cancelled by admin' });
 
       return { success: true, message: 'Session cancelled successfully' };
-    }
-
-    // Update cache
-    session.isRunning = false;
-    const newMessage: AgentMessage = {
-      id: randomUUID(),
-      fromAgent: 'orchestrator',
-      toAgent: session.currentAgent,
-      messageType: 'request',
-      content: cancelMessage,
-      timestamp: new Date(),
-    };
-    session.messages.push(newMessage);
+    });
 
-    // Mark current phase as failed
-    const currentPhase = session.context.currentPhase;
-    if (session.context.gateStatus[currentPhase]) {
-      session.context.gateStatus[currentPhase].status = 'failed';
-      session.context.gateStatus[currentPhase].failedReason = reason || 'Cancelled by admin';
+    if (!result) {
+      return { success: false, message: 'Session not found' };
     }
 
-    // Persist to database
-    await db
-      .update(engineeringSessions)
-      .set({
-        isRunning: false,
-        status: 'abandoned',
-        gateStatus: JSON.stringify(session.context.gateStatus),
-        lastError: reason || 'Cancelled by admin',
-        updatedAt: new Date(),
-      })
-      .where(eq(engineeringSessions.id, sessionId));
-
     await db.insert(engineeringMessages).values({
       sessionId,
-      fromAgent: newMessage.fromAgent,
-      toAgent: newMessage.toAgent,
-      messageType: newMessage.messageType,
-      content: newMessage.content,
+      fromAgent: 'orchestrator',
+      toAgent,
+      messageType: 'request',
+      content: cancelMessage,
     });
 
-    return { success: true, message: 'Session cancelled successfully' };
+    await EngineeringApprovalService.cancelForSession(sessionId);
+
+    return result;
   }
 
   /**
@@ -574,10 +509,7 @@ export class EngineeringOrchestratorService {
     if (!session) return null;
 
     // Check if all phases are complete
-    const allPhasesComplete = ENGINEERING_PHASES.every(
-      (p) => session.context.gateStatus[p.phase]?.status === 'passed'
-    );
-    if (allPhasesComplete) return 'completed';
+    if (isPipelineComplete(session.pipeline, session.context.gateStatus)) return 'completed';
 
     // Check if cancelled/abandoned
     const currentGate = session.context.gateStatus[session.context.currentPhase];
@@ -596,14 +528,15 @@ export class EngineeringOrchestratorService {
     const session = sessionCache.get(sessionId);
     if (!session) return null;
 
-    const { context, messages, pendingApprovals } = session;
+    const { context, pipeline, messages, pendingApprovals } = session;
 
     // Calculate phase progress
-    const phases: PhaseProgress[] = ENGINEERING_PHASES.map((phase) => {
-      const gate = context.gateStatus[phase.phase];
+    const phases: PhaseProgress[] = orderPipelinePhases(pipeline.phases).map((phase) => {
+      const gate = context.gateStatus[phase.id];
       return {
-        phase: phase.phase,
+        phase: phase.id,
         displayName: phase.displayName,
+        dependsOn: phase.dependsOn,
         status: gate?.status || 'pending',
         progress: gate?.status === 'passed' ? 100 : gate?.status === 'in_progress' ? 50 : 0,
         startedAt: undefined, // Would come from events
@@ -613,8 +546,8 @@ export class EngineeringOrchestratorService {
     });
 
     // Calculate overall progress
-    const completedPhases = phases.filter((p) => p.status === 'passed').length;
-    const overallProgress = Math.round((completedPhases / phases.length) * 100);
+    const overallProgress = calculatePipelineProgress(pipeline, context.gateStatus);
+    const activePhases = getActivePhases(pipeline, context.gateStatus);
 
     // Get blockers
     const blockers: string[] = [];
@@ -623,7 +556,7 @@ export class EngineeringOrchestratorService {
     }
 
     // Determine next action
-    const currentPhaseConfig = ENGINEERING_PHASES.find((p) => p.phase === context.currentPhase);
+    const currentPhaseConfig = getPipelinePhase(pipeline, context.currentPhase);
     const nextAction = currentPhaseConfig
       ? `${currentPhaseConfig.displayName}: ${currentPhaseConfig.description}`
       : 'Continue building';
@@ -632,9 +565,12 @@ export class EngineeringOrchestratorService {
       projectId: context.id,
       projectName: context.scope.name,
       currentPhase: context.currentPhase,
+      activePhases: activePhases.map((p) => p.id),
       overallProgress,
       phases,
-      activeAgents: [context.currentAgent],
+      activeAgents: activePhases.length > 0
+        ? [...new Set(activePhases.map((p) => p.agent))]
+        : [context.currentAgent],
       recentActivity: messages.slice(-10),
       blockers,
       nextAction,
@@ -654,89 +590,79 @@ export class EngineeringOrchestratorService {
     stepId: string,
     answer: unknown
   ): Promise<{ nextStep: ScopingStep | null; scopeComplete: boolean }> {
-    // Load from cache or database
-    const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
-
-    const { context } = session;
-
-    // Update scope based on answer
-    this.updateScopeFromAnswer(context.scope, stepId, answer);
-    context.lastActivityAt = new Date();
-
-    // Find current step index
-    const currentIndex = SCOPING_WIZARD_STEPS.findIndex((s) => s.id === stepId);
-
-    // Find next applicable step (considering dependencies)
-    let nextStep: ScopingStep | null = null;
-    for (let i = currentIndex + 1; i < SCOPING_WIZARD_STEPS.length; i++) {
-      const step = SCOPING_WIZARD_STEPS[i];
-
-      // Check dependencies
-      if (step.dependsOn) {
-        const depAnswer = this.getScopeValue(context.scope, step.dependsOn.stepId);
-        if (depAnswer !== step.dependsOn.value) {
-          continue; // Skip this step
+    const result = await this.updateSession(sessionId, (session) => {
+      const { context } = session;
+
+      // Update scope based on answer
+      this.updateScopeFromAnswer(context.scope, stepId, answer);
+      context.lastActivityAt = new Date();
+
+      // Find current step index
+      const currentIndex = SCOPING_WIZARD_STEPS.findIndex((s) => s.id === stepId);
+
+      // Find next applicable step (considering dependencies)
+      let nextStep: ScopingStep | null = null;
+      for (let i = currentIndex + 1; i < SCOPING_WIZARD_STEPS.length; i++) {
+        const step = SCOPING_WIZARD_STEPS[i];
+
+        // Check dependencies
+        if (step.dependsOn) {
+          const depAnswer = this.getScopeValue(context.scope, step.dependsOn.stepId);
+          if (depAnswer !== step.dependsOn.value) {
+            continue; // Skip this step
+          }
         }
-      }
-
-      nextStep = step;
-      break;
-    }
-
-    // If no next step, scoping is complete
-    if (!nextStep) {
-      // Infer additional scope values
-      this.inferScopeDefaults(context.scope);
-
-      // Mark scoping gate as passed
-      context.gateStatus.scoping = {
-        phase: 'scoping',
-        status: 'passed',
-        passedAt: new Date(),
-        approvedBy: 'auto',
-        artifacts: ['scope.json'],
-      };
 
-      // Move to requirements phase
-      context.currentPhase = 'requirements';
-      context.currentAgent = 'pm';
-
-      // Record decision
-      context.decisions.push({
-        id: randomUUID(),
-        timestamp: new Date(),
-        agent: 'orchestrator',
-        phase: 'scoping',
-        decision: 'Project scope defined',
-        reasoning: `Scope completed with: ${context.scope.platforms.join(', ')} platforms, ${context.scope.targetAudience} audience`,
-        alternatives: [],
-        confidence: 100,
-        reversible: true,
-        impact: 'high',
-      });
+        nextStep = step;
+        break;
+      }
 
-      // Persist to database
-      await this.persistSession(sessionId);
+      // If no next step, scoping is complete
+      if (!nextStep) {
+        // Infer additional scope values
+        this.inferScopeDefaults(context.scope);
+
+        // Mark scoping gate as passed
+        context.gateStatus.scoping = {
+          phase: 'scoping',
+          status: 'passed',
+          passedAt: new Date(),
+          approvedBy: 'auto',
+          artifacts: ['scope.json'],
+        };
 
-      return { nextStep: null, scopeComplete: true };
-    }
+        // Move to whichever phases the pipeline runs after scoping
+        this.startPhases(session, getReadyPhases(session.pipeline, context.gateStatus));
+
+        // Record decision
+        context.decisions.push({
+          id: randomUUID(),
+          timestamp: new Date(),
+          agent: 'orchestrator',
+          phase: 'scoping',
+          decision: 'Project scope defined',
+          reasoning: `Scope completed with: ${context.scope.platforms.join(', ')} platforms, ${context.scope.targetAudience} audience`,
+          alternatives: [],
+          confidence: 100,
+          reversible: true,
+          impact: 'high',
+        });
+
+        return { nextStep: null, scopeComplete: true };
+      }
 
-    // Persist scope update to database
-    await this.persistSession(sessionId);
+      return { nextStep, scopeComplete: false };
+    });
 
-    return { nextStep, scopeComplete: false };
+    if (!result) throw new Error('Session not found');
+    return result;
   }
 
   /**
    * Get completed scope
    */
   static async getScope(sessionId: string): Promise<ProjectScope | null> {
-    // Try cache first
-    const cached = sessionCache.get(sessionId);
-    if (cached) return cached.context.scope;
-
-    // Load from database
+    // Read from the database - a cached copy may be stale if another instance answered
     const [record] = await db
       .select({ scope: engineeringSessions.scope })
       .from(engineeringSessions)
@@ -753,160 +679,248 @@ export class EngineeringOrchestratorService {
 
   /**
    * Advance to next phase (if current phase gate is passed)
+   * When the pipeline branches, every phase that becomes ready starts in parallel.
    */
   static async advancePhase(sessionId: string): Promise<{
     success: boolean;
-    newPhase?: EngineeringPhase;
+    newPhase?: PipelinePhaseId;
+    startedPhases?: PipelinePhaseId[];
     reason?: string;
   }> {
-    // Load from cache or database
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, reason: 'Session not found' };
+    const result = await this.updateSession(sessionId, (session) => {
+      const { context, pipeline } = session;
+      const currentPhaseConfig = getPipelinePhase(pipeline, context.currentPhase);
+      if (!currentPhaseConfig) return { success: false, reason: 'Invalid current phase' };
+
+      // Check if current phase gate is passed
+      const currentGate = context.gateStatus[context.currentPhase];
+      if (currentGate?.status !== 'passed') {
+        return { success: false, reason: `Current phase "${currentPhaseConfig.displayName}" not yet complete` };
+      }
 
-    const { context } = session;
-    const currentPhaseConfig = ENGINEERING_PHASES.find((p) => p.phase === context.currentPhase);
-    if (!currentPhaseConfig) return { success: false, reason: 'Invalid current phase' };
+      const readyPhases = getReadyPhases(pipeline, context.gateStatus);
 
-    // Check if current phase gate is passed
-    const currentGate = context.gateStatus[context.currentPhase];
-    if (currentGate?.status !== 'passed') {
-      return { success: false, reason: `Current phase "${currentPhaseConfig.displayName}" not yet complete` };
-    }
+      if (readyPhases.length === 0) {
+        // A parallel branch may still be running - focus on it instead
+        const activePhases = getActivePhases(pipeline, context.gateStatus);
+        if (activePhases.length > 0) {
+          context.currentPhase = activePhases[0].id;
+          context.currentAgent = activePhases[0].agent;
+          context.lastActivityAt = new Date();
+          return { success: true, newPhase: activePhases[0].id, startedPhases: [] };
+        }
 
-    // Find next phase
-    const currentIndex = ENGINEERING_PHASES.findIndex((p) => p.phase === context.currentPhase);
-    if (currentIndex >= ENGINEERING_PHASES.length - 1) {
-      return { success: false, reason: 'Already at final phase' };
-    }
+        if (isPipelineComplete(pipeline, context.gateStatus)) {
+          return { success: false, reason: 'Already at final phase' };
+        }
 
-    const nextPhaseConfig = ENGINEERING_PHASES[currentIndex + 1];
+        return { success: false, reason: 'No phase is ready - waiting on failed or pending dependencies' };
+      }
 
-    // Check if required inputs exist
-    for (const input of nextPhaseConfig.inputsRequired) {
-      if (!this.hasArtifact(context, input)) {
-        return { success: false, reason: `Missing required artifact: ${input}` };
+      // Check if required inputs exist
+      const startable: PipelinePhase[] = [];
+      let missingReason: string | undefined;
+      for (const phase of readyPhases) {
+        const missing = phase.inputsRequired.find((input) => !this.hasArtifact(context, input, pipeline));
+        if (missing) {
+          missingReason = missingReason || `Missing required artifact: ${missing}`;
+        } else {
+          startable.push(phase);
+        }
       }
-    }
 
-    // Advance to next phase
-    context.currentPhase = nextPhaseConfig.phase;
-    context.currentAgent = nextPhaseConfig.agent;
-    context.gateStatus[nextPhaseConfig.phase] = {
-      phase: nextPhaseConfig.phase,
-      status: 'in_progress',
-    };
-    context.lastActivityAt = new Date();
+      if (startable.length === 0) {
+        return { success: false, reason: missingReason };
+      }
 
-    // Record agent message
-    this.addMessage(session, {
-      fromAgent: 'orchestrator',
-      toAgent: nextPhaseConfig.agent,
-      messageType: 'handoff',
-      content: `Starting ${nextPhaseConfig.displayName} phase. ${nextPhaseConfig.description}`,
-    });
+      // Advance to next phase(s)
+      this.startPhases(session, startable);
 
-    // Persist to database
-    await this.persistSession(sessionId);
+      return {
+        success: true,
+        newPhase: startable[0].id,
+        startedPhases: startable.map((p) => p.id),
+      };
+    });
 
-    return { success: true, newPhase: nextPhaseConfig.phase };
+    return result ?? { success: false, reason: 'Session not found' };
   }
 
   /**
-   * Pass the current phase gate
+   * Pass a phase gate (defaults to the current phase; pass phaseId for a parallel branch)
    */
   static async passGate(
     sessionId: string,
     artifacts: string[] = [],
-    approvedBy: 'user' | 'auto' = 'auto'
+    approvedBy: 'user' | 'auto' = 'auto',
+    phaseId?: PipelinePhaseId
   ): Promise<boolean> {
-    // Load from cache or database
-    const session = await this.getSession(sessionId);
-    if (!session) return false;
+    const result = await this.updateSession(sessionId, (session) =>
+      this.markGatePassed(session, phaseId || session.context.currentPhase, artifacts, approvedBy)
+    );
 
-    const { context } = session;
+    return result ?? false;
+  }
 
-    context.gateStatus[context.currentPhase] = {
-      phase: context.currentPhase,
-      status: 'passed',
-      passedAt: new Date(),
-      approvedBy,
-      artifacts,
-    };
+  /**
+   * Request team approval for a phase (defaults to the current phase).
+   * The request is stored durably and the team is notified by email.
+   */
+  static async requestApproval(
+    sessionId: string,
+    reason: string,
+    phaseId?: PipelinePhaseId
+  ): Promise<EngineeringApproval | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) return null;
 
-    context.lastActivityAt = new Date();
+    const { context, pipeline } = session;
+    const phase = phaseId || context.currentPhase;
+    const phaseConfig = getPipelinePhase(pipeline, phase);
+    if (!phaseConfig) return null;
 
-    // Record decision
-    const phaseConfig = ENGINEERING_PHASES.find((p) => p.phase === context.currentPhase);
-    context.decisions.push({
-      id: randomUUID(),
-      timestamp: new Date(),
-      agent: context.currentAgent,
-      phase: context.currentPhase,
-      decision: `${phaseConfig?.displayName || context.currentPhase} phase completed`,
-      reasoning: `Gate passed with ${artifacts.length} artifacts`,
-      alternatives: [],
-      confidence: 100,
-      reversible: false,
-      impact: 'medium',
+    const { approval, created } = await EngineeringApprovalService.createRequest({
+      sessionId,
+      teamId: context.teamId,
+      phase,
+      reason,
+      requestedBy: phaseConfig.agent,
+      rule: getApprovalRule(phaseConfig),
     });
 
-    // Persist to database
-    await this.persistSession(sessionId);
+    if (!created) return approval;
 
-    return true;
-  }
+    await this.updateSession(sessionId, (draft) => {
+      if (!draft.pendingApprovals.includes(phase)) {
+        draft.pendingApprovals.push(phase);
+      }
 
-  /**
-   * Request user approval for current phase
-   */
-  static async requestApproval(sessionId: string, reason: string): Promise<void> {
-    const session = sessionCache.get(sessionId);
-    if (!session) return;
+      this.addMessage(draft, {
+        fromAgent: phaseConfig.agent,
+        toAgent: 'user',
+        messageType: 'approval',
+        content: reason,
+        metadata: { approvalId: approval.id, phase },
+      });
+    });
 
-    session.pendingApprovals.push(session.context.currentPhase);
+    await EngineeringApprovalService.notifyRequested(approval, context.scope.name, phaseConfig.displayName);
 
-    this.addMessage(session, {
-      fromAgent: session.context.currentAgent,
-      toAgent: 'user',
-      messageType: 'approval',
-      content: reason,
-    });
+    return approval;
   }
 
   /**
-   * User approves or rejects current phase
+   * A team member approves or rejects a phase waiting for approval.
+   * The gate only passes once the phase's approval rule is satisfied;
+   * a single rejection sends the phase back to its agent.
+   * @throws NotFoundError if the session or pending request doesn't exist
+   * @throws AuthorizationError if the user isn't on the session's team
+   * @throws ConflictError if the user already voted or the request was resolved meanwhile
    */
   static async handleApproval(
     sessionId: string,
+    userId: string,
     approved: boolean,
-    feedback?: string
-  ): Promise<void> {
-    const session = sessionCache.get(sessionId);
-    if (!session) return;
+    feedback?: string,
+    phaseId?: PipelinePhaseId
+  ): Promise<{ status: ApprovalStatus; approval: EngineeringApproval }> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new NotFoundError('Session');
 
-    const { context } = session;
+    const { context, pipeline } = session;
+    const phase = phaseId || context.currentPhase;
+    const phaseConfig = getPipelinePhase(pipeline, phase);
+
+    const pending = await EngineeringApprovalService.getPendingForPhase(sessionId, phase);
+    if (!pending) throw new NotFoundError('Pending approval');
+
+    const role = await EngineeringApprovalService.getTeamRole(context.teamId, userId);
+    if (!role) throw new AuthorizationError('Only team members can approve this phase');
+
+    if (parseApprovalVotes(pending).some((v) => v.userId === userId)) {
+      throw new ConflictError('You have already voted on this approval');
+    }
+
+    const vote: ApprovalVote = {
+      userId,
+      approved,
+      isAdmin: EngineeringApprovalService.isAdminRole(role),
+      feedback,
+      votedAt: new Date(),
+    };
+
+    // The vote, the gate change and its history commit together. The outcome is
+    // worked out from the request as read, then re-checked under its row lock;
+    // if other votes changed it in between, the whole update is retried.
+    const outcome = await this.updateSession(
+      sessionId,
+      async (draft) => {
+        const latest = await EngineeringApprovalService.getPendingForPhase(sessionId, phase);
+        if (!latest) throw new NotFoundError('Pending approval');
+
+        const status = evaluateApprovalVotes(getApprovalRuleFromRecord(latest), [...parseApprovalVotes(latest), vote]);
+        const previousStatus = draft.context.gateStatus[phase]?.status || 'pending';
+
+        if (status === 'approved') {
+          this.markGatePassed(draft, phase, draft.context.gateStatus[phase]?.artifacts || [], 'user');
+        }
+
+        if (status !== 'pending') {
+          draft.pendingApprovals = draft.pendingApprovals.filter((p) => p !== phase);
+        }
+
+        if (status === 'rejected') {
+          draft.context.gateStatus[phase] = {
+            phase,
+            status: 'failed',
+            failedReason: feedback || 'Rejected by user',
+          };
+
+          this.addMessage(draft, {
+            fromAgent: 'user',
+            toAgent: phaseConfig?.agent || draft.context.currentAgent,
+            messageType: 'rejection',
+            content: feedback || 'Please revise',
+          });
+        }
 
-    // Remove from pending
-    session.pendingApprovals = session.pendingApprovals.filter(
-      (p) => p !== context.currentPhase
+        return {
+          approval: latest,
+          status,
+          previousStatus,
+          newStatus: draft.context.gateStatus[phase]?.status || previousStatus,
+        };
+      },
+      async (tx, result) => {
+        const recorded = await EngineeringApprovalService.recordVote(result.approval, vote, tx);
+        if (recorded.status !== result.status) {
+          throw new ConcurrencyError('Approval votes changed while this vote was applied');
+        }
+        result.approval = recorded.approval;
+
+        // Record who voted, even when the rule isn't satisfied yet
+        await tx.insert(engineeringGateHistory).values({
+          sessionId,
+          phase,
+          previousStatus: result.previousStatus,
+          newStatus: result.newStatus,
+          triggeredBy: userId,
+          reason: approved
+            ? `Approved${vote.isAdmin ? ' (admin)' : ''} - ${describeApprovalProgress(getApprovalRuleFromRecord(recorded.approval), parseApprovalVotes(recorded.approval))}`
+            : `Rejected: ${feedback || 'Please revise'}`,
+        });
+      }
     );
+    if (!outcome) throw new NotFoundError('Session');
 
-    if (approved) {
-      await this.passGate(sessionId, [], 'user');
-    } else {
-      context.gateStatus[context.currentPhase] = {
-        phase: context.currentPhase,
-        status: 'failed',
-        failedReason: feedback || 'Rejected by user',
-      };
+    const { approval, status } = outcome;
+    const displayName = phaseConfig?.displayName || phase;
 
-      this.addMessage(session, {
-        fromAgent: 'user',
-        toAgent: context.currentAgent,
-        messageType: 'rejection',
-        content: feedback || 'Please revise',
-      });
+    if (status !== 'pending') {
+      await EngineeringApprovalService.notifyResolved(approval, context.scope.name, displayName, feedback);
     }
+
+    return { status, approval };
   }
 
   // ========================================
@@ -915,45 +929,45 @@ export class EngineeringOrchestratorService {
 
   /**
    * Add a node to the dependency graph
+   * @returns the node added, or null if the session doesn't exist
    */
-  static addDependencyNode(
+  static async addDependencyNode(
     sessionId: string,
     node: Omit<DependencyNode, 'id' | 'createdAt' | 'modifiedAt'>
-  ): DependencyNode | null {
-    const session = sessionCache.get(sessionId);
-    if (!session) return null;
-
-    const newNode: DependencyNode = {
-      id: randomUUID(),
-      ...node,
-      createdAt: new Date(),
-      modifiedAt: new Date(),
-    };
+  ): Promise<DependencyNode | null> {
+    return this.updateSession(sessionId, (session) => {
+      const newNode: DependencyNode = {
+        id: randomUUID(),
+        ...node,
+        createdAt: new Date(),
+        modifiedAt: new Date(),
+      };
 
-    session.context.dependencyGraph.nodes.push(newNode);
-    session.context.lastActivityAt = new Date();
+      session.context.dependencyGraph.nodes.push(newNode);
+      session.context.lastActivityAt = new Date();
 
-    return newNode;
+      return newNode;
+    });
   }
 
   /**
    * Add an edge to the dependency graph
+   * @returns the edge added, or null if the session doesn't exist
    */
-  static addDependencyEdge(
+  static async addDependencyEdge(
     sessionId: string,
     edge: Omit<DependencyEdge, 'id' | 'createdAt'>
-  ): DependencyEdge | null {
-    const session = sessionCache.get(sessionId);
-    if (!session) return null;
-
-    const newEdge: DependencyEdge = {
-      id: randomUUID(),
-      ...edge,
-      createdAt: new Date(),
-    };
+  ): Promise<DependencyEdge | null> {
+    return this.updateSession(sessionId, (session) => {
+      const newEdge: DependencyEdge = {
+        id: randomUUID(),
+        ...edge,
+        createdAt: new Date(),
+      };
 
-    session.context.dependencyGraph.edges.push(newEdge);
-    return newEdge;
+      session.context.dependencyGraph.edges.push(newEdge);
+      return newEdge;
+    });
   }
 
   /**
@@ -1041,19 +1055,39 @@ export class EngineeringOrchestratorService {
 
   /**
    * Record a decision made by an agent
+   * Also saved to engineering_decisions, since session state doesn't persist decisions
+   * @returns the decision recorded, or null if the session doesn't exist
    */
-  static recordDecision(
+  static async recordDecision(
     sessionId: string,
     decision: Omit<AgentDecision, 'id' | 'timestamp'>
-  ): void {
-    const session = sessionCache.get(sessionId);
-    if (!session) return;
+  ): Promise<AgentDecision | null> {
+    return this.updateSession(
+      sessionId,
+      (session) => {
+        const recorded: AgentDecision = {
+          id: randomUUID(),
+          timestamp: new Date(),
+          ...decision,
+        };
 
-    session.context.decisions.push({
-      id: randomUUID(),
-      timestamp: new Date(),
-      ...decision,
-    });
+        session.context.decisions.push(recorded);
+        return recorded;
+      },
+      async (executor) => {
+        await executor.insert(engineeringDecisions).values({
+          sessionId,
+          agent: decision.agent,
+          phase: decision.phase,
+          decision: decision.decision,
+          reasoning: decision.reasoning,
+          alternatives: JSON.stringify(decision.alternatives),
+          confidence: decision.confidence,
+          reversible: decision.reversible,
+          impact: decision.impact,
+        });
+      }
+    );
   }
 
   /**
@@ -1077,18 +1111,41 @@ export class EngineeringOrchestratorService {
   // ========================================
 
   /**
-   * Store an artifact (PRD, tech spec, etc.)
+   * Store an artifact (PRD, tech spec, or a custom phase output by name).
+   * Every write is kept as an immutable revision, saved in the same
+   * transaction as the session.
+   * @returns the revision written, or null if the session doesn't exist
    */
-  static storeArtifact(
+  static async storeArtifact(
     sessionId: string,
-    artifactType: keyof ProjectContext['artifacts'],
-    content: string
-  ): void {
-    const session = sessionCache.get(sessionId);
-    if (!session) return;
+    name: ArtifactType | string,
+    content: string,
+    author: { role?: AgentRole | 'user'; userId?: string; phase?: PipelinePhaseId; restoredFrom?: number } = {}
+  ): Promise<EngineeringArtifactRevision | null> {
+    const written = await this.updateSession(
+      sessionId,
+      (session) => {
+        session.context.artifacts = writeArtifact(session.context.artifacts, name, content);
+        session.context.lastActivityAt = new Date();
+        return {
+          role: author.role ?? session.context.currentAgent,
+          phase: author.phase ?? session.context.currentPhase,
+          revision: null as EngineeringArtifactRevision | null,
+        };
+      },
+      async (executor, result) => {
+        result.revision = await EngineeringArtifactService.recordRevision(sessionId, {
+          name,
+          content,
+          author: result.role,
+          authorUserId: author.userId,
+          phase: result.phase,
+          restoredFrom: author.restoredFrom,
+        }, executor);
+      }
+    );
 
-    session.context.artifacts[artifactType] = content;
-    session.context.lastActivityAt = new Date();
+    return written?.revision ?? null;
   }
 
   /**
@@ -1096,10 +1153,59 @@ export class EngineeringOrchestratorService {
    */
   static getArtifact(
     sessionId: string,
-    artifactType: keyof ProjectContext['artifacts']
+    name: ArtifactType | string
   ): string | undefined {
     const session = sessionCache.get(sessionId);
-    return session?.context.artifacts[artifactType];
+    return session ? readArtifact(session.context.artifacts, name) : undefined;
+  }
+
+  /**
+   * Put an earlier revision back as the current artifact.
+   * The restore is itself a new revision and is recorded as a user decision.
+   * @throws NotFoundError if the session or revision doesn't exist
+   * @throws ValidationError if that revision is already current
+   */
+  static async restoreArtifact(
+    sessionId: string,
+    name: string,
+    revision: number,
+    userId: string,
+    reason?: string
+  ): Promise<EngineeringArtifactRevision> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    const target = await EngineeringArtifactService.getRevision(sessionId, name, revision);
+    if (readArtifact(session.context.artifacts, name) === target.content) {
+      throw new ValidationError(`Revision ${revision} of ${name} is already current`);
+    }
+
+    const restored = await this.storeArtifact(sessionId, name, target.content, {
+      role: 'user',
+      userId,
+      phase: target.phase ?? undefined,
+      restoredFrom: revision,
+    });
+    if (!restored) {
+      throw new NotFoundError('Session');
+    }
+
+    const decision = {
+      agent: 'orchestrator' as const,
+      phase: target.phase ?? session.context.currentPhase,
+      decision: `Restored ${name} to revision ${revision}`,
+      reasoning: reason || `Revision ${revision} was preferred over the later versions`,
+      alternatives: [`Keep the current revision of ${name}`],
+      confidence: 100,
+      reversible: true,
+      impact: 'medium' as const,
+    };
+
+    await this.recordDecision(sessionId, decision);
+
+    return restored;
   }
 
   // ========================================
@@ -1116,7 +1222,7 @@ export class EngineeringOrchestratorService {
 
     const { context } = session;
     const agentConfig = AGENT_CONFIGS[context.currentAgent];
-    const phaseConfig = ENGINEERING_PHASES.find((p) => p.phase === context.currentPhase);
+    const phaseConfig = getPipelinePhase(session.pipeline, context.currentPhase);
 
     return `
 # CodeBakers Engineering System - ${agentConfig.displayName}
@@ -1149,6 +1255,7 @@ ${Object.entries(context.scope.compliance).filter(([, v]) => v).map(([k]) => `-
 - **UI:** ${context.stack.ui}
 ${context.stack.payments ? `- **Payments:** ${context.stack.payments}` : ''}
 
+${phaseConfig?.instructions ? `## Phase Instructions\n\n${phaseConfig.instructions}\n` : ''}
 ## Your Focus Areas
 
 ${agentConfig.focusAreas.map((f) => `- ${f}`).join('\n')}
@@ -1171,15 +1278,72 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
   // PRIVATE HELPERS
   // ========================================
 
-  private static initializeGateStatus(): Record<EngineeringPhase, GateStatus> {
-    const status: Partial<Record<EngineeringPhase, GateStatus>> = {};
-    for (const phase of ENGINEERING_PHASES) {
-      status[phase.phase] = {
-        phase: phase.phase,
-        status: 'pending',
+  /**
+   * Mark a phase's gate as passed and record the decision
+   * @returns false if the phase isn't in the session's pipeline
+   */
+  private static markGatePassed(
+    session: OrchestratorState,
+    phase: PipelinePhaseId,
+    artifacts: string[],
+    approvedBy: 'user' | 'auto'
+  ): boolean {
+    const { context, pipeline } = session;
+    const phaseConfig = getPipelinePhase(pipeline, phase);
+    if (!phaseConfig) return false;
+
+    context.gateStatus[phase] = {
+      phase,
+      status: 'passed',
+      passedAt: new Date(),
+      approvedBy,
+      artifacts,
+    };
+
+    context.lastActivityAt = new Date();
+
+    // Record decision
+    context.decisions.push({
+      id: randomUUID(),
+      timestamp: new Date(),
+      agent: phaseConfig.agent,
+      phase,
+      decision: `${phaseConfig.displayName} phase completed`,
+      reasoning: `Gate passed with ${artifacts.length} artifacts`,
+      alternatives: [],
+      confidence: 100,
+      reversible: false,
+      impact: 'medium',
+    });
+
+    return true;
+  }
+
+  /**
+   * Mark phases as in progress and hand off to their agents.
+   * The first phase becomes the session's current phase.
+   */
+  private static startPhases(session: OrchestratorState, phases: PipelinePhase[]): void {
+    if (phases.length === 0) return;
+
+    const { context } = session;
+    for (const phase of phases) {
+      context.gateStatus[phase.id] = {
+        phase: phase.id,
+        status: 'in_progress',
       };
+
+      this.addMessage(session, {
+        fromAgent: 'orchestrator',
+        toAgent: phase.agent,
+        messageType: 'handoff',
+        content: `Starting ${phase.displayName} phase. ${phase.description}`,
+      });
     }
-    return status as Record<EngineeringPhase, GateStatus>;
+
+    context.currentPhase = phases[0].id;
+    context.currentAgent = phases[0].agent;
+    context.lastActivityAt = new Date();
   }
 
   private static updateScopeFromAnswer(scope: ProjectScope, stepId: string, answer: unknown): void {
@@ -1287,7 +1451,11 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
     }
   }
 
-  private static hasArtifact(context: ProjectContext, artifactName: string): boolean {
+  private static hasArtifact(
+    context: ProjectContext,
+    artifactName: string,
+    pipeline: PipelineDefinition
+  ): boolean {
     // Check for known artifact types
     if (artifactName === 'scope.json') return context.gateStatus.scoping?.status === 'passed';
     if (artifactName === 'prd.md') return !!context.artifacts.prd;
@@ -1296,7 +1464,11 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
     if (artifactName === 'test-report.md') return true; // Would check actual tests
     if (artifactName === 'deployment-report.md') return true; // Would check deployment status
 
-    return false;
+    // Team-defined artifacts exist once a phase producing them has passed
+    if (context.artifacts.custom?.[artifactName]) return true;
+    return pipeline.phases.some(
+      (p) => p.producesArtifacts.includes(artifactName) && context.gateStatus[p.id]?.status === 'passed'
+    );
   }
 
   private static addMessage(
@@ -1320,7 +1492,7 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
    */
   static async getAllSessions(options?: {
     status?: 'active' | 'paused' | 'completed' | 'abandoned';
-    phase?: EngineeringPhase;
+    phase?: PipelinePhaseId;
     page?: number;
     limit?: number;
   }): Promise<{
@@ -1329,14 +1501,14 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
       teamId: string;
       projectHash: string;
       projectName: string;
-      currentPhase: EngineeringPhase;
+      currentPhase: PipelinePhaseId;
       currentAgent: AgentRole;
       status: 'active' | 'paused' | 'completed' | 'abandoned';
       startedAt: Date;
       lastActivityAt: Date;
       completedAt: Date | null;
       phaseHistory: Array<{
-        phase: EngineeringPhase;
+        phase: PipelinePhaseId;
         startedAt: Date;
         completedAt: Date | null;
         agent: AgentRole;
@@ -1386,20 +1558,15 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
       const dependencyGraph = record.dependencyGraph ? JSON.parse(record.dependencyGraph) : { nodes: [] };
       const scope = record.scope ? JSON.parse(record.scope) : { name: record.projectName };
 
-      // Build phase history from gate statuses
+      // Build phase history from gate statuses (keys follow the session's pipeline order)
       const phaseHistory: Array<{
-        phase: EngineeringPhase;
+        phase: PipelinePhaseId;
         startedAt: Date;
         completedAt: Date | null;
         agent: AgentRole;
       }> = [];
 
-      const phases: EngineeringPhase[] = [
-        'scoping', 'requirements', 'architecture', 'design_review', 'implementation',
-        'code_review', 'testing', 'security_review', 'documentation', 'staging', 'launch'
-      ];
-
-      for (const p of phases) {
+      for (const p of Object.keys(gateStatus)) {
         const gate = gateStatus[p];
         if (gate) {
           phaseHistory.push({
@@ -1425,7 +1592,7 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
         teamId: record.teamId,
         projectHash: record.projectHash,
         projectName: scope.name || record.projectName,
-        currentPhase: record.currentPhase as EngineeringPhase,
+        currentPhase: record.currentPhase || 'scoping',
         currentAgent: record.currentAgent as AgentRole,
         status: record.status as 'active' | 'paused' | 'completed' | 'abandoned',
         startedAt: record.startedAt || new Date(),
@@ -1534,10 +1701,104 @@ ${context.decisions.slice(-5).map((d) => `- [${d.agent}] ${d.decision}`).join('\
     const session = sessionCache.get(sessionId);
     if (!session) return;
 
-    await db
-      .update(engineeringSessions)
-      .set(stateToDbUpdate(session))
-      .where(eq(engineeringSessions.id, sessionId));
+    await this.saveSession(sessionId, session);
+  }
+
+  /**
+   * Apply a change to a session and save it with compare-and-swap.
+   * The mutator works on a copy; if another instance saved the session first,
+   * the change is re-applied to fresh state (up to MAX_UPDATE_ATTEMPTS times).
+   * Extra columns (status, pausedAt, ...) can be set through `columns`.
+   * Mutations that change nothing are not written.
+   * Messages added through addMessage and the rows `persist` writes are saved
+   * in the same transaction as the session.
+   * @returns the mutator's result, or null if the session doesn't exist
+   * @throws ConcurrencyError if the session keeps changing underneath us
+   */
+  static async updateSession<T>(
+    sessionId: string,
+    mutate: (session: OrchestratorState, columns: Partial<NewEngineeringSession>) => T | Promise<T>,
+    persist?: (tx: Tx, result: T) => Promise<void>
+  ): Promise<T | null> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.getSession(sessionId);
+      if (!current) return null;
+
+      const draft = structuredClone(current);
+      const columns: Partial<NewEngineeringSession> = {};
+      const result = await mutate(draft, columns);
+
+      // Messages the mutator added are written with the session, so every instance sees them
+      const added = draft.messages.slice(current.messages.length);
+      const persistAll = async (tx: Tx) => {
+        if (added.length > 0) {
+          await tx.insert(engineeringMessages).values(added.map((m) => ({
+            id: m.id,
+            sessionId,
+            fromAgent: m.fromAgent,
+            toAgent: m.toAgent,
+            messageType: m.messageType,
+            content: m.content,
+            metadata: m.metadata ? JSON.stringify(m.metadata) : null,
+            createdAt: m.timestamp,
+          })));
+        }
+        await persist?.(tx, result);
+      };
+
+      const unchanged = snapshotState(draft) === snapshotState(current) &&
+        Object.keys(columns).length === 0 && added.length === 0;
+
+      try {
+        if (unchanged) {
+          // Nothing persistent changed - keep cache-only changes (approvals) without a session write
+          if (persist) await db.transaction((tx) => persistAll(tx));
+          sessionCache.set(sessionId, draft);
+        } else {
+          await this.saveSession(sessionId, draft, columns, persistAll);
+        }
+        return result;
+      } catch (error) {
+        const isConflict = error instanceof AppError && error.code === 'CONCURRENCY_CONFLICT';
+        if (!isConflict || attempt >= MAX_UPDATE_ATTEMPTS) throw error;
+
+        logger.warn('Engineering session update conflicted, retrying', { sessionId, attempt });
+      }
+    }
+  }
+
+  /**
+   * Write state only if the row is still at the version it was loaded at
+   * @throws ConcurrencyError if another write happened first
+   */
+  private static async saveSession(
+    sessionId: string,
+    state: OrchestratorState,
+    columns: Partial<NewEngineeringSession> = {},
+    persist?: (tx: Tx) => Promise<void>
+  ): Promise<void> {
+    const saved = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(engineeringSessions)
+        .set({
+          ...stateToDbUpdate(state),
+          ...columns,
+          version: state.version + 1,
+        })
+        .where(and(eq(engineeringSessions.id, sessionId), eq(engineeringSessions.version, state.version)))
+        .returning({ version: engineeringSessions.version });
+
+      if (row) await persist?.(tx);
+      return row;
+    });
+
+    if (!saved) {
+      sessionCache.delete(sessionId);
+      throw new ConcurrencyError('Engineering session was modified by another request');
+    }
+
+    state.version = saved.version;
+    sessionCache.set(sessionId, state);
   }
 
   /**
@@ -0,0 +1,168 @@
+/**
+ * ENGINEERING PIPELINE SERVICE
+ *
+ * Stores team-defined phase pipelines. Every save creates a new immutable
+ * version; sessions pin the version they started with so editing a pipeline
+ * never changes the phases of a build that is already running.
+ */
+
+import { db } from '@/db';
+import { engineeringPipelines, EngineeringPipeline, EngineeringSession, teams } from '@/db/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { ValidationError } from '@/lib/errors';
+import { PipelineDefinition, PipelinePhase } from '@/lib/engineering-types';
+import {
+  DEFAULT_PIPELINE,
+  PipelineDefinitionInput,
+  pipelineDefinitionSchema,
+  validatePipelinePhases,
+} from '@/lib/engineering-pipeline';
+
+function recordToDefinition(record: EngineeringPipeline): PipelineDefinition {
+  return {
+    id: record.id,
+    name: record.name,
+    version: record.version,
+    phases: JSON.parse(record.phases) as PipelinePhase[],
+  };
+}
+
+function scopeCondition(teamId: string, projectHash?: string | null) {
+  return and(
+    eq(engineeringPipelines.teamId, teamId),
+    projectHash ? eq(engineeringPipelines.projectHash, projectHash) : isNull(engineeringPipelines.projectHash)
+  );
+}
+
+export class EngineeringPipelineService {
+  /**
+   * Get the pipeline a new session should use.
+   * Project-specific pipelines win over the team default, which wins over the built-in one.
+   */
+  static async getActivePipeline(teamId: string, projectHash?: string): Promise<PipelineDefinition> {
+    if (projectHash) {
+      const [projectPipeline] = await db
+        .select()
+        .from(engineeringPipelines)
+        .where(and(scopeCondition(teamId, projectHash), eq(engineeringPipelines.isActive, true)))
+        .orderBy(desc(engineeringPipelines.version))
+        .limit(1);
+
+      if (projectPipeline) return recordToDefinition(projectPipeline);
+    }
+
+    const [teamPipeline] = await db
+      .select()
+      .from(engineeringPipelines)
+      .where(and(scopeCondition(teamId), eq(engineeringPipelines.isActive, true)))
+      .orderBy(desc(engineeringPipelines.version))
+      .limit(1);
+
+    return teamPipeline ? recordToDefinition(teamPipeline) : DEFAULT_PIPELINE;
+  }
+
+  /**
+   * Get a specific pipeline version (falls back to the built-in pipeline)
+   */
+  static async getPipeline(pipelineId: string | null): Promise<PipelineDefinition> {
+    if (!pipelineId) return DEFAULT_PIPELINE;
+
+    const [record] = await db
+      .select()
+      .from(engineeringPipelines)
+      .where(eq(engineeringPipelines.id, pipelineId))
+      .limit(1);
+
+    return record ? recordToDefinition(record) : DEFAULT_PIPELINE;
+  }
+
+  /**
+   * Get the pipeline version a session is pinned to
+   */
+  static async getPipelineForSession(session: Pick<EngineeringSession, 'pipelineId'>): Promise<PipelineDefinition> {
+    return this.getPipeline(session.pipelineId);
+  }
+
+  /**
+   * List all versions for a team (newest first)
+   */
+  static async listVersions(teamId: string, projectHash?: string) {
+    const records = await db
+      .select()
+      .from(engineeringPipelines)
+      .where(scopeCondition(teamId, projectHash))
+      .orderBy(desc(engineeringPipelines.version));
+
+    return records.map((record) => ({
+      ...recordToDefinition(record),
+      projectHash: record.projectHash,
+      isActive: record.isActive ?? false,
+      createdBy: record.createdBy,
+      createdAt: record.createdAt,
+    }));
+  }
+
+  /**
+   * Validate and save a new pipeline version, making it the active one
+   * @throws ValidationError if the definition is malformed or not a valid DAG
+   */
+  static async savePipeline(
+    teamId: string,
+    input: unknown,
+    createdBy?: string
+  ): Promise<PipelineDefinition> {
+    const parsed: PipelineDefinitionInput = pipelineDefinitionSchema.parse(input);
+    const phases: PipelinePhase[] = parsed.phases;
+
+    const errors = validatePipelinePhases(phases);
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Invalid pipeline definition', errors);
+    }
+
+    const projectHash = parsed.projectHash ?? null;
+
+    const record = await db.transaction(async (tx) => {
+      // Saves for a team run one at a time, even when the scope has no versions yet
+      await tx.select({ id: teams.id }).from(teams).where(eq(teams.id, teamId)).for('update');
+
+      await tx
+        .update(engineeringPipelines)
+        .set({ isActive: false })
+        .where(scopeCondition(teamId, projectHash));
+
+      const [latest] = await tx
+        .select({ version: engineeringPipelines.version })
+        .from(engineeringPipelines)
+        .where(scopeCondition(teamId, projectHash))
+        .orderBy(desc(engineeringPipelines.version))
+        .limit(1);
+
+      const [inserted] = await tx
+        .insert(engineeringPipelines)
+        .values({
+          teamId,
+          projectHash,
+          name: parsed.name,
+          version: (latest?.version ?? 0) + 1,
+          phases: JSON.stringify(phases),
+          isActive: true,
+          createdBy,
+        })
+        .returning();
+
+      return inserted;
+    });
+
+    return recordToDefinition(record);
+  }
+
+  /**
+   * Deactivate custom pipelines so new sessions use the built-in default again
+   */
+  static async resetToDefault(teamId: string, projectHash?: string): Promise<void> {
+    await db
+      .update(engineeringPipelines)
+      .set({ isActive: false })
+      .where(scopeCondition(teamId, projectHash));
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * ENGINEERING USAGE SERVICE
+ *
+ * Records the tokens and cost of every AI call an engineering session makes,
+ * and enforces session and team budgets so a build stops instead of
+ * silently spending more.
+ */
+
+import { db } from '@/db';
+import {
+  engineeringUsage,
+  engineeringBudgets,
+  engineeringSessions,
+  EngineeringBudget,
+} from '@/db/schema';
+import { and, eq, gte, isNull, sql } from 'drizzle-orm';
+import { NotFoundError } from '@/lib/errors';
+import {
+  AgentRole,
+  BudgetLimits,
+  PipelinePhaseId,
+  UsageBreakdown,
+  UsageTotals,
+} from '@/lib/engineering-types';
+import {
+  EMPTY_USAGE,
+  addUsage,
+  calculateCostMicros,
+  getBudgetExceededReason,
+} from '@/lib/engineering-usage';
+import { nextSessionVersion } from './engineering-orchestrator-service';
+import { MeteringService } from './metering-service';
+
+export interface UsageRecordInput {
+  agent: AgentRole;
+  phase: PipelinePhaseId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface SessionBudgetStatus {
+  session: BudgetLimits | null;
+  team: BudgetLimits | null;
+  sessionUsage: UsageTotals;
+  teamUsage: UsageTotals; // Current calendar month
+  planQuotaReason: string | null; // Monthly token quota of the team's plan
+  exceededReason: string | null;
+}
+
+// Aggregate columns shared by every usage query
+const usageTotalsSelect = {
+  calls: sql<number>`count(*)::int`,
+  inputTokens: sql<number>`coalesce(sum(${engineeringUsage.inputTokens}), 0)::float8`,
+  outputTokens: sql<number>`coalesce(sum(${engineeringUsage.outputTokens}), 0)::float8`,
+  costMicros: sql<number>`coalesce(sum(${engineeringUsage.costMicros}), 0)::float8`,
+};
+
+function toLimits(budget: EngineeringBudget | undefined): BudgetLimits | null {
+  if (!budget) return null;
+  return {
+    maxInputTokens: budget.maxInputTokens,
+    maxOutputTokens: budget.maxOutputTokens,
+    maxCostCents: budget.maxCostCents,
+  };
+}
+
+// Monthly budgets reset at midnight UTC on the 1st, whatever the server's timezone
+function startOfMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Roll (agent, phase) rows up into totals, per agent and per phase
+ */
+function toBreakdown(rows: Array<UsageTotals & { agent: string; phase: string }>): UsageBreakdown {
+  const breakdown: UsageBreakdown = { totals: EMPTY_USAGE, byAgent: {}, byPhase: {} };
+  for (const row of rows) {
+    const totals: UsageTotals = {
+      calls: row.calls,
+      inputTokens: row.inputTokens,
+      outputTokens: row.outputTokens,
+      costMicros: row.costMicros,
+    };
+    breakdown.totals = addUsage(breakdown.totals, totals);
+    breakdown.byAgent[row.agent] = addUsage(breakdown.byAgent[row.agent] ?? EMPTY_USAGE, totals);
+    breakdown.byPhase[row.phase] = addUsage(breakdown.byPhase[row.phase] ?? EMPTY_USAGE, totals);
+  }
+  return breakdown;
+}
+
+export class EngineeringUsageService {
+  // ========================================
+  // RECORDING
+  // ========================================
+
+  /**
+   * Record one AI call and add it to the session's running totals
+   */
+  static async recordUsage(sessionId: string, teamId: string, input: UsageRecordInput): Promise<void> {
+    const costMicros = calculateCostMicros(input.model, input.inputTokens, input.outputTokens);
+
+    await db.insert(engineeringUsage).values({
+      sessionId,
+      teamId,
+      agent: input.agent,
+      phase: input.phase,
+      model: input.model,
+      inputTokens: input.inputTokens,
+      outputTokens: input.outputTokens,
+      costMicros,
+    });
+
+    // Increment in SQL so concurrent phases on other instances don't overwrite each other
+    await db.update(engineeringSessions)
+      .set({
+        totalApiCalls: sql`${engineeringSessions.totalApiCalls} + 1`,
+        totalTokensUsed: sql`${engineeringSessions.totalTokensUsed} + ${input.inputTokens + input.outputTokens}`,
+        version: nextSessionVersion(),
+      })
+      .where(eq(engineeringSessions.id, sessionId));
+  }
+
+  // ========================================
+  // REPORTING
+  // ========================================
+
+  /**
+   * Session usage split by agent role and by phase
+   */
+  static async getSessionUsage(sessionId: string): Promise<UsageBreakdown> {
+    const rows = await db
+      .select({
+        agent: engineeringUsage.agent,
+        phase: engineeringUsage.phase,
+        ...usageTotalsSelect,
+      })
+      .from(engineeringUsage)
+      .where(eq(engineeringUsage.sessionId, sessionId))
+      .groupBy(engineeringUsage.agent, engineeringUsage.phase);
+
+    return toBreakdown(rows);
+  }
+
+  /**
+   * Usage across every team (admin stats)
+   */
+  static async getUsageStats(): Promise<UsageBreakdown & { thisMonth: UsageTotals }> {
+    const rows = await db
+      .select({
+        agent: engineeringUsage.agent,
+        phase: engineeringUsage.phase,
+        ...usageTotalsSelect,
+      })
+      .from(engineeringUsage)
+      .groupBy(engineeringUsage.agent, engineeringUsage.phase);
+
+    const [thisMonth] = await db
+      .select(usageTotalsSelect)
+      .from(engineeringUsage)
+      .where(gte(engineeringUsage.createdAt, startOfMonth()));
+
+    return { ...toBreakdown(rows), thisMonth: thisMonth ?? EMPTY_USAGE };
+  }
+
+  private static async getTeamMonthUsage(teamId: string): Promise<UsageTotals> {
+    const [usage] = await db
+      .select(usageTotalsSelect)
+      .from(engineeringUsage)
+      .where(and(eq(engineeringUsage.teamId, teamId), gte(engineeringUsage.createdAt, startOfMonth())));
+
+    return usage ?? EMPTY_USAGE;
+  }
+
+  // ========================================
+  // BUDGETS
+  // ========================================
+
+  static async getTeamBudget(teamId: string): Promise<BudgetLimits | null> {
+    const [budget] = await db
+      .select()
+      .from(engineeringBudgets)
+      .where(and(eq(engineeringBudgets.teamId, teamId), isNull(engineeringBudgets.sessionId)))
+      .limit(1);
+
+    return toLimits(budget);
+  }
+
+  static async getSessionBudget(sessionId: string): Promise<BudgetLimits | null> {
+    const [budget] = await db
+      .select()
+      .from(engineeringBudgets)
+      .where(eq(engineeringBudgets.sessionId, sessionId))
+      .limit(1);
+
+    return toLimits(budget);
+  }
+
+  /**
+   * Set (or replace) the team's monthly budget, or a session's budget when sessionId is given
+   */
+  static async setBudget(teamId: string, sessionId: string | null, limits: BudgetLimits): Promise<BudgetLimits> {
+    const scope = sessionId
+      ? eq(engineeringBudgets.sessionId, sessionId)
+      : and(eq(engineeringBudgets.teamId, teamId), isNull(engineeringBudgets.sessionId));
+
+    const [existing] = await db
+      .select({ id: engineeringBudgets.id })
+      .from(engineeringBudgets)
+      .where(scope)
+      .limit(1);
+
+    if (existing) {
+      await db.update(engineeringBudgets)
+        .set({ ...limits, updatedAt: new Date() })
+        .where(eq(engineeringBudgets.id, existing.id));
+    } else {
+      await db.insert(engineeringBudgets).values({ teamId, sessionId, ...limits });
+    }
+
+    return limits;
+  }
+
+  static async clearBudget(teamId: string, sessionId: string | null): Promise<void> {
+    await db.delete(engineeringBudgets).where(sessionId
+      ? eq(engineeringBudgets.sessionId, sessionId)
+      : and(eq(engineeringBudgets.teamId, teamId), isNull(engineeringBudgets.sessionId)));
+  }
+
+  /**
+   * Budgets, usage against them, and the reason to stop if any limit is reached
+   * @param sessionUsage - The session's usage totals, when the caller already has them
+   */
+  static async getBudgetStatus(sessionId: string, sessionUsage?: UsageTotals): Promise<SessionBudgetStatus> {
+    const [record] = await db
+      .select({ teamId: engineeringSessions.teamId })
+      .from(engineeringSessions)
+      .where(eq(engineeringSessions.id, sessionId))
+      .limit(1);
+
+    if (!record) {
+      throw new NotFoundError('Session');
+    }
+
+    const [sessionBudget, teamBudget, sessionTotals, teamUsage, planQuotaReason] = await Promise.all([
+      this.getSessionBudget(sessionId),
+      this.getTeamBudget(record.teamId),
+      sessionUsage ?? this.getSessionUsage(sessionId).then((usage) => usage.totals),
+      this.getTeamMonthUsage(record.teamId),
+      MeteringService.getExceededReason(record.teamId, 'tokens'),
+    ]);
+
+    const exceededReason =
+      (sessionBudget && getBudgetExceededReason(sessionBudget, sessionTotals, 'Session')) ||
+      (teamBudget && getBudgetExceededReason(teamBudget, teamUsage, 'Monthly team')) ||
+      planQuotaReason;
+
+    return {
+      session: sessionBudget,
+      team: teamBudget,
+      sessionUsage: sessionTotals,
+      teamUsage,
+      planQuotaReason,
+      exceededReason,
+    };
+  }
+}
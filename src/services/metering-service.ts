@@ -0,0 +1,120 @@
+/**
+ * METERING SERVICE
+ *
+ * Per-team monthly usage of pattern fetches, engineering sessions and
+ * engineering tokens, measured against the quotas of the team's plan.
+ * Usage is counted from the tables that already record it (pattern_usage,
+ * engineering_sessions, engineering_usage), so there is nothing extra to keep
+ * in sync.
+ */
+
+import { db, teams, patternUsage, engineeringSessions, engineeringUsage, subscriptionPricing } from '@/db';
+import { and, eq, gte, lt, sql } from 'drizzle-orm';
+import { NotFoundError, PlanLimitError } from '@/lib/errors';
+import {
+  MeteredUsage,
+  PlanQuotas,
+  QuotaStatus,
+  UNLIMITED_QUOTAS,
+  UsageMeter,
+  getQuotaExceededReason,
+  getQuotaStatus,
+  usagePeriod,
+} from '@/lib/metering';
+
+export interface TeamUsageReport {
+  plan: string | null;
+  period: { start: Date; end: Date };
+  quotas: QuotaStatus[];
+}
+
+export class MeteringService {
+  /**
+   * Quotas of the team's plan. Teams without a plan row (beta, trial,
+   * custom enterprise) are unlimited.
+   */
+  static async getQuotas(teamId: string): Promise<PlanQuotas> {
+    const [row] = await db
+      .select({
+        patternFetches: subscriptionPricing.monthlyPatternFetches,
+        engineeringSessions: subscriptionPricing.monthlyEngineeringSessions,
+        tokens: subscriptionPricing.monthlyTokens,
+      })
+      .from(teams)
+      .innerJoin(subscriptionPricing, eq(subscriptionPricing.plan, teams.subscriptionPlan))
+      .where(eq(teams.id, teamId))
+      .limit(1);
+
+    return row ?? UNLIMITED_QUOTAS;
+  }
+
+  /**
+   * What the team has used in the month containing `date`
+   */
+  static async getUsage(teamId: string, date: Date = new Date()): Promise<MeteredUsage> {
+    const { start, end } = usagePeriod(date);
+
+    const [[fetches], [sessions], [tokens]] = await Promise.all([
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(patternUsage)
+        .where(and(eq(patternUsage.teamId, teamId), gte(patternUsage.fetchedAt, start), lt(patternUsage.fetchedAt, end))),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(engineeringSessions)
+        .where(and(eq(engineeringSessions.teamId, teamId), gte(engineeringSessions.startedAt, start), lt(engineeringSessions.startedAt, end))),
+      db
+        .select({ total: sql<number>`coalesce(sum(${engineeringUsage.inputTokens} + ${engineeringUsage.outputTokens}), 0)::float8` })
+        .from(engineeringUsage)
+        .where(and(eq(engineeringUsage.teamId, teamId), gte(engineeringUsage.createdAt, start), lt(engineeringUsage.createdAt, end))),
+    ]);
+
+    return {
+      patternFetches: fetches?.count ?? 0,
+      engineeringSessions: sessions?.count ?? 0,
+      tokens: tokens?.total ?? 0,
+    };
+  }
+
+  /**
+   * Usage against every quota for the current month (billing page)
+   */
+  static async getTeamUsageReport(teamId: string): Promise<TeamUsageReport> {
+    const team = await db.query.teams.findFirst({ where: eq(teams.id, teamId) });
+    if (!team) throw new NotFoundError('Team');
+
+    const [quotas, usage] = await Promise.all([this.getQuotas(teamId), this.getUsage(teamId)]);
+
+    return {
+      plan: team.subscriptionPlan,
+      period: usagePeriod(),
+      quotas: getQuotaStatus(quotas, usage),
+    };
+  }
+
+  /**
+   * The reason the team can't consume `amount` more of a meter this month, or null
+   */
+  static async getExceededReason(teamId: string, meter: UsageMeter, amount: number = 1): Promise<string | null> {
+    const quotas = await this.getQuotas(teamId);
+    if (quotas[meter] === null) return null;
+
+    const usage = await this.getUsage(teamId);
+    return getQuotaExceededReason(quotas, usage, meter, amount);
+  }
+
+  /**
+   * Throw PlanLimitError if consuming `amount` more would go over the quota
+   */
+  static async assertWithinQuota(teamId: string, meter: UsageMeter, amount: number = 1): Promise<void> {
+    const quotas = await this.getQuotas(teamId);
+    const limit = quotas[meter];
+    if (limit === null) return;
+
+    const usage = await this.getUsage(teamId);
+    const reason = getQuotaExceededReason(quotas, usage, meter, amount);
+    if (reason) {
+      throw new PlanLimitError(reason, limit, usage[meter]);
+    }
+  }
+}
@@ -0,0 +1,631 @@
+/**
+ * PLAN CHANGE SERVICE
+ *
+ * Moves a team between paid plans through the provider it pays with.
+ *
+ * - Stripe upgrades switch right away and invoice the prorated difference.
+ * - Square and PayPal don't prorate. Their changes, and every downgrade, are
+ *   scheduled for the end of the billing period.
+ * - The provider is switched when the change is requested, so the next
+ *   invoice has the new price. The team keeps its current plan until the
+ *   change is applied.
+ * - The change is recorded as `pending` before the provider is touched. A
+ *   unique index allows one pending or scheduled change per team, so a double
+ *   submit can't switch the provider (or invoice a proration) twice.
+ * - Applying a downgrade removes the members and revokes the API keys the team
+ *   didn't choose to keep.
+ *
+ * Due changes are applied by scripts/apply-plan-changes.ts.
+ */
+
+import {
+  db,
+  teams,
+  teamMembers,
+  teamInvites,
+  apiKeys,
+  profiles,
+  auditLogs,
+  planChanges,
+  PlanChange,
+  Team,
+  PaymentProvider,
+} from '@/db';
+import { and, asc, desc, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import {
+  PLANS,
+  changeStripeSubscriptionPrice,
+  getStripeSubscription,
+  previewStripePriceChange,
+  setStripeSubscriptionPlan,
+} from '@/lib/stripe';
+import { getSquareSubscription, swapSquareSubscriptionPlan } from '@/lib/square';
+import { getPayPalSubscription, revisePayPalSubscription } from '@/lib/paypal';
+import {
+  ChangeablePlan,
+  PlanChangeDirection,
+  apiKeyLimit,
+  getPlanChangeDirection,
+  selectSurvivors,
+  validateDowngradeSelection,
+  DowngradeSelection,
+} from '@/lib/plan-change';
+import { PricingService, PlanDetails } from './pricing-service';
+import { EmailService } from './email-service';
+
+// How long an upgrade may wait for the subscriber to approve it on PayPal
+const PAYPAL_APPROVAL_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A change still pending after this was interrupted mid-request
+const PENDING_TIMEOUT_MS = 60 * 60 * 1000;
+
+export interface PlanChangeMember {
+  id: string;
+  userId: string | null;
+  email: string | null;
+  fullName: string | null;
+  role: string | null;
+  isOwner: boolean;
+}
+
+export interface PlanChangeApiKey {
+  id: string;
+  name: string | null;
+  keyPrefix: string;
+  lastUsedAt: Date | null;
+}
+
+export interface PlanChangePreview {
+  fromPlan: ChangeablePlan;
+  toPlan: ChangeablePlan;
+  direction: PlanChangeDirection;
+  provider: PaymentProvider;
+  proration: { amount: number; currency: string; source: 'provider' | 'none' };
+  effectiveAt: Date;
+  seats: { current: number; new: number };
+  apiKeyLimit: number;
+  requiresSelection: { members: boolean; apiKeys: boolean };
+  members: PlanChangeMember[];
+  apiKeys: PlanChangeApiKey[];
+}
+
+export interface PlanChangeResult {
+  change: PlanChange;
+  approvalUrl: string | null; // PayPal changes wait for the subscriber to approve them
+}
+
+interface ProviderSubscriptionState {
+  provider: PaymentProvider;
+  subscriptionId: string;
+  periodEnd: Date;
+  stripeSubscription: Stripe.Subscription | null;
+}
+
+export class PlanChangeService {
+  /**
+   * What moving to `toPlan` would cost and when it would take effect
+   */
+  static async preview(teamId: string, toPlan: ChangeablePlan): Promise<PlanChangePreview> {
+    const team = await this.getSubscribedTeam(teamId);
+    const fromPlan = team.subscriptionPlan as ChangeablePlan;
+    const direction = getPlanChangeDirection(fromPlan, toPlan);
+    if (direction === 'none') {
+      throw new ValidationError(`You're already on the ${PLANS[toPlan].name} plan`);
+    }
+
+    const target = await this.getPlanDetails(toPlan);
+    const state = await this.getProviderState(team);
+    const providerPlanId = this.providerPlanId(target, state.provider);
+
+    const now = new Date();
+    let proration: PlanChangePreview['proration'] = { amount: 0, currency: 'USD', source: 'none' };
+    if (direction === 'upgrade' && state.stripeSubscription) {
+      const preview = await previewStripePriceChange(state.stripeSubscription, providerPlanId, Math.floor(now.getTime() / 1000));
+      proration = { ...preview, source: 'provider' };
+    }
+
+    const [members, keys] = await Promise.all([this.getMembers(team), this.getActiveApiKeys(teamId)]);
+
+    return {
+      fromPlan,
+      toPlan,
+      direction,
+      provider: state.provider,
+      proration,
+      effectiveAt: this.effectiveAt(direction, state, now),
+      seats: { current: team.seatLimit ?? PLANS[fromPlan].seats, new: target.seats },
+      apiKeyLimit: apiKeyLimit(target.seats),
+      requiresSelection: {
+        members: direction === 'downgrade' && members.length > target.seats,
+        apiKeys: direction === 'downgrade' && keys.length > apiKeyLimit(target.seats),
+      },
+      members,
+      apiKeys: keys,
+    };
+  }
+
+  /**
+   * Change the team's plan. Downgrades need `selection` when the team has
+   * more members or API keys than the new plan allows.
+   */
+  static async requestChange(
+    teamId: string,
+    userId: string,
+    toPlan: ChangeablePlan,
+    selection: DowngradeSelection = {}
+  ): Promise<PlanChangeResult> {
+    const scheduled = await this.getScheduled(teamId);
+    if (scheduled) {
+      throw new ConflictError(`A change to the ${PLANS[scheduled.toPlan].name} plan is already scheduled - cancel it first`);
+    }
+
+    const team = await this.getSubscribedTeam(teamId);
+    const fromPlan = team.subscriptionPlan as ChangeablePlan;
+    const direction = getPlanChangeDirection(fromPlan, toPlan);
+    if (direction === 'none') {
+      throw new ValidationError(`You're already on the ${PLANS[toPlan].name} plan`);
+    }
+
+    const target = await this.getPlanDetails(toPlan);
+    const state = await this.getProviderState(team);
+    const providerPlanId = this.providerPlanId(target, state.provider);
+
+    let keepMemberIds: string[] | null = null;
+    let keepApiKeyIds: string[] | null = null;
+    if (direction === 'downgrade') {
+      const [members, keys] = await Promise.all([this.getMembers(team), this.getActiveApiKeys(teamId)]);
+      const errors = validateDowngradeSelection({
+        seats: target.seats,
+        ownerMemberId: members.find((m) => m.isOwner)?.id ?? null,
+        memberIds: members.map((m) => m.id),
+        activeApiKeyIds: keys.map((k) => k.id),
+      }, selection);
+      if (errors.length > 0) {
+        throw new ValidationError(errors[0], { selection: errors });
+      }
+
+      if (members.length > target.seats) keepMemberIds = selection.keepMemberIds ?? null;
+      if (keys.length > apiKeyLimit(target.seats)) keepApiKeyIds = selection.keepApiKeyIds ?? null;
+    }
+
+    const now = new Date();
+    const effectiveAt = this.effectiveAt(direction, state, now);
+    const appliesNow = state.provider === 'stripe' && direction === 'upgrade';
+
+    // Claim the team's one open change before the provider is touched
+    const [pending] = await db
+      .insert(planChanges)
+      .values({
+        teamId,
+        requestedBy: userId,
+        provider: state.provider,
+        fromPlan,
+        toPlan,
+        direction,
+        status: 'pending',
+        keepMemberIds: keepMemberIds ? JSON.stringify(keepMemberIds) : null,
+        keepApiKeyIds: keepApiKeyIds ? JSON.stringify(keepApiKeyIds) : null,
+        effectiveAt,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!pending) {
+      throw new ConflictError('Another plan change for this team is in progress or scheduled - cancel it first');
+    }
+
+    let proration: PlanChangePreview['proration'] = { amount: 0, currency: 'USD', source: 'none' };
+    let approvalUrl: string | null = null;
+
+    try {
+      switch (state.provider) {
+        case 'stripe': {
+          const subscription = state.stripeSubscription!;
+          if (direction === 'upgrade') {
+            const prorationDate = Math.floor(now.getTime() / 1000);
+            const preview = await previewStripePriceChange(subscription, providerPlanId, prorationDate);
+            await changeStripeSubscriptionPrice(subscription, providerPlanId, toPlan, prorationDate, `plan-change-${pending.id}`);
+            proration = { ...preview, source: 'provider' };
+          } else {
+            // The new price starts with the next invoice; the plan stays until then
+            await changeStripeSubscriptionPrice(subscription, providerPlanId, fromPlan, undefined, `plan-change-${pending.id}`);
+          }
+          break;
+        }
+        case 'square':
+          await swapSquareSubscriptionPlan(state.subscriptionId, providerPlanId);
+          break;
+        case 'paypal': {
+          const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+          const revision = await revisePayPalSubscription({
+            subscriptionId: state.subscriptionId,
+            planId: providerPlanId,
+            returnUrl: `${appUrl}/billing?plan_change=approved`,
+            cancelUrl: `${appUrl}/billing?plan_change=canceled`,
+            effectiveTime: direction === 'downgrade' ? effectiveAt : undefined,
+          });
+          approvalUrl = revision.approvalUrl;
+          break;
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await db
+        .update(planChanges)
+        .set({ status: 'failed', error: message })
+        .where(eq(planChanges.id, pending.id));
+      throw error;
+    }
+
+    const [change] = await db
+      .update(planChanges)
+      .set({
+        status: appliesNow ? 'applied' : 'scheduled',
+        prorationAmount: proration.amount,
+        currency: proration.currency,
+        prorationSource: proration.source,
+        appliedAt: appliesNow ? now : null,
+      })
+      .where(eq(planChanges.id, pending.id))
+      .returning();
+
+    if (appliesNow) {
+      await this.setTeamPlan(teamId, toPlan, target.seats);
+    }
+
+    await this.audit(change, userId, appliesNow ? 'subscription.plan_changed' : 'subscription.plan_change_scheduled');
+    await this.notify(change);
+
+    logger.info('Plan change requested', { teamId, fromPlan, toPlan, direction, status: change.status });
+
+    return { change, approvalUrl };
+  }
+
+  /**
+   * Cancel a scheduled change and switch the provider back to the current plan
+   */
+  static async cancelScheduled(teamId: string, userId: string): Promise<PlanChange> {
+    const change = await this.getScheduled(teamId);
+    if (!change) throw new NotFoundError('Scheduled plan change');
+
+    if (change.provider === 'paypal') {
+      throw new ValidationError('PayPal plan changes can\'t be undone once requested - contact support@codebakers.dev');
+    }
+
+    const team = await this.getSubscribedTeam(teamId);
+    const current = await this.getPlanDetails(change.fromPlan as ChangeablePlan);
+    const state = await this.getProviderState(team);
+    const providerPlanId = this.providerPlanId(current, state.provider);
+
+    if (state.provider === 'stripe') {
+      await changeStripeSubscriptionPrice(state.stripeSubscription!, providerPlanId, change.fromPlan);
+    } else {
+      await swapSquareSubscriptionPlan(state.subscriptionId, providerPlanId);
+    }
+
+    const [canceled] = await db
+      .update(planChanges)
+      .set({ status: 'canceled' })
+      .where(and(eq(planChanges.id, change.id), eq(planChanges.status, 'scheduled')))
+      .returning();
+
+    if (!canceled) {
+      throw new ConflictError('The plan change was applied before it could be canceled');
+    }
+
+    await this.audit(canceled, userId, 'subscription.plan_change_canceled');
+    return canceled;
+  }
+
+  /**
+   * The team's scheduled change, if any
+   */
+  static async getScheduled(teamId: string): Promise<PlanChange | null> {
+    const [change] = await db
+      .select()
+      .from(planChanges)
+      .where(and(eq(planChanges.teamId, teamId), eq(planChanges.status, 'scheduled')))
+      .orderBy(desc(planChanges.createdAt))
+      .limit(1);
+
+    return change ?? null;
+  }
+
+  /**
+   * Apply every scheduled change whose effective date has passed. Changes
+   * left pending by an interrupted request are failed so the team can try
+   * again; the provider may need checking by hand.
+   */
+  static async applyDue(now: Date = new Date()): Promise<{ applied: number; failed: number; waiting: number }> {
+    const interrupted = await db
+      .update(planChanges)
+      .set({ status: 'failed', error: 'Interrupted while switching the provider - check the subscription' })
+      .where(and(eq(planChanges.status, 'pending'), lte(planChanges.createdAt, new Date(now.getTime() - PENDING_TIMEOUT_MS))))
+      .returning({ id: planChanges.id, teamId: planChanges.teamId });
+    for (const change of interrupted) {
+      logger.error('Plan change interrupted', { changeId: change.id, teamId: change.teamId });
+    }
+
+    const due = await db
+      .select()
+      .from(planChanges)
+      .where(and(eq(planChanges.status, 'scheduled'), lte(planChanges.effectiveAt, now)))
+      .orderBy(asc(planChanges.effectiveAt));
+
+    const result = { applied: 0, failed: interrupted.length, waiting: 0 };
+
+    for (const change of due) {
+      try {
+        if (change.provider === 'paypal' && !(await this.paypalRevisionApproved(change))) {
+          if (now.getTime() - change.effectiveAt.getTime() > PAYPAL_APPROVAL_WINDOW_MS) {
+            throw new Error('The PayPal plan change was never approved');
+          }
+          result.waiting++;
+          continue;
+        }
+
+        await this.apply(change, now);
+        result.applied++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await db
+          .update(planChanges)
+          .set({ status: 'failed', error: message })
+          .where(eq(planChanges.id, change.id));
+
+        logger.error('Plan change failed', { changeId: change.id, teamId: change.teamId }, error instanceof Error ? error : undefined);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  // ==========================================
+  // PRIVATE
+  // ==========================================
+
+  private static async apply(change: PlanChange, now: Date): Promise<void> {
+    const team = await db.query.teams.findFirst({ where: eq(teams.id, change.teamId) });
+    if (!team) throw new NotFoundError('Team');
+
+    const toPlan = change.toPlan as ChangeablePlan;
+    const target = await this.getPlanDetails(toPlan);
+
+    if (change.direction === 'downgrade') {
+      await this.trimToPlan(team, target.seats, change);
+    }
+
+    if (change.provider === 'stripe' && team.stripeSubscriptionId) {
+      await setStripeSubscriptionPlan(team.stripeSubscriptionId, toPlan);
+    }
+
+    await this.setTeamPlan(team.id, toPlan, target.seats);
+
+    const [applied] = await db
+      .update(planChanges)
+      .set({ status: 'applied', appliedAt: now, error: null })
+      .where(eq(planChanges.id, change.id))
+      .returning();
+
+    await this.audit(applied, null, 'subscription.plan_changed');
+    await this.notify(applied);
+  }
+
+  /**
+   * Remove the members and revoke the API keys that don't fit the new plan
+   */
+  private static async trimToPlan(team: Team, seats: number, change: PlanChange): Promise<void> {
+    const members = await this.getMembers(team);
+    const ownerIds = members.filter((m) => m.isOwner).map((m) => m.id);
+    const keepMembers: string[] | null = change.keepMemberIds ? JSON.parse(change.keepMemberIds) : null;
+    const { keep, remove: removeMembers } = selectSurvivors(members.map((m) => m.id), seats, keepMembers, ownerIds);
+
+    const keys = await this.getActiveApiKeys(team.id);
+    const keepKeys: string[] | null = change.keepApiKeyIds ? JSON.parse(change.keepApiKeyIds) : null;
+    const { remove: revokeKeys } = selectSurvivors(keys.map((k) => k.id), apiKeyLimit(seats), keepKeys);
+
+    await db.transaction(async (tx) => {
+      if (removeMembers.length > 0) {
+        await tx
+          .delete(teamMembers)
+          .where(and(eq(teamMembers.teamId, team.id), inArray(teamMembers.id, removeMembers)));
+      }
+
+      if (revokeKeys.length > 0) {
+        await tx
+          .update(apiKeys)
+          .set({ isActive: false })
+          .where(and(eq(apiKeys.teamId, team.id), inArray(apiKeys.id, revokeKeys)));
+      }
+
+      // Outstanding invites would take seats the new plan doesn't have
+      if (keep.length >= seats) {
+        await tx
+          .delete(teamInvites)
+          .where(and(eq(teamInvites.teamId, team.id), isNull(teamInvites.acceptedAt)));
+      }
+    });
+
+    if (removeMembers.length > 0 || revokeKeys.length > 0) {
+      logger.info('Trimmed team for downgrade', {
+        teamId: team.id,
+        removedMembers: removeMembers.length,
+        revokedApiKeys: revokeKeys.length,
+      });
+    }
+  }
+
+  private static async setTeamPlan(teamId: string, plan: ChangeablePlan, seats: number): Promise<void> {
+    await db
+      .update(teams)
+      .set({ subscriptionPlan: plan, seatLimit: seats, updatedAt: new Date() })
+      .where(eq(teams.id, teamId));
+  }
+
+  private static async getSubscribedTeam(teamId: string): Promise<Team> {
+    const team = await db.query.teams.findFirst({ where: eq(teams.id, teamId) });
+    if (!team) throw new NotFoundError('Team');
+
+    const plan = team.subscriptionPlan;
+    if (!team.paymentProvider || !plan || plan === 'beta' || plan === 'enterprise' || team.subscriptionStatus !== 'active') {
+      throw new ValidationError('Only active Pro, Team and Agency subscriptions can change plans here');
+    }
+
+    return team;
+  }
+
+  private static async getPlanDetails(plan: ChangeablePlan): Promise<PlanDetails> {
+    const details = await PricingService.getPlan(plan);
+    if (!details) throw new NotFoundError('Plan');
+    return details;
+  }
+
+  private static providerPlanId(plan: PlanDetails, provider: PaymentProvider): string {
+    const id = provider === 'stripe' ? plan.stripePriceId : provider === 'square' ? plan.squarePlanId : plan.paypalPlanId;
+    if (!id) {
+      throw new ValidationError(`The ${plan.name} plan isn't available through ${provider}`);
+    }
+    return id;
+  }
+
+  private static async getProviderState(team: Team): Promise<ProviderSubscriptionState> {
+    switch (team.paymentProvider) {
+      case 'stripe': {
+        const subscription = team.stripeSubscriptionId ? await getStripeSubscription(team.stripeSubscriptionId) : null;
+        if (!subscription) throw new NotFoundError('Stripe subscription');
+        return {
+          provider: 'stripe',
+          subscriptionId: subscription.id,
+          periodEnd: new Date(subscription.items.data[0].current_period_end * 1000),
+          stripeSubscription: subscription,
+        };
+      }
+      case 'square': {
+        const subscription = team.squareSubscriptionId ? await getSquareSubscription(team.squareSubscriptionId) : null;
+        if (!subscription?.chargedThroughDate) throw new NotFoundError('Square subscription');
+        return {
+          provider: 'square',
+          subscriptionId: subscription.id,
+          periodEnd: new Date(`${subscription.chargedThroughDate}T00:00:00Z`),
+          stripeSubscription: null,
+        };
+      }
+      case 'paypal': {
+        if (!team.paypalSubscriptionId) throw new NotFoundError('PayPal subscription');
+        const subscription = await getPayPalSubscription(team.paypalSubscriptionId);
+        const nextBilling = subscription.billing_info?.next_billing_time;
+        if (!nextBilling) throw new ValidationError('PayPal has no upcoming billing date for this subscription');
+        return {
+          provider: 'paypal',
+          subscriptionId: subscription.id,
+          periodEnd: new Date(nextBilling),
+          stripeSubscription: null,
+        };
+      }
+      default:
+        throw new ValidationError('This team has no payment provider');
+    }
+  }
+
+  /**
+   * Stripe upgrades and PayPal upgrades (once approved) take effect now;
+   * everything else at the end of the period
+   */
+  private static effectiveAt(direction: PlanChangeDirection, state: ProviderSubscriptionState, now: Date): Date {
+    if (direction === 'upgrade' && state.provider !== 'square') return now;
+    return state.periodEnd;
+  }
+
+  private static async paypalRevisionApproved(change: PlanChange): Promise<boolean> {
+    const team = await db.query.teams.findFirst({ where: eq(teams.id, change.teamId) });
+    if (!team?.paypalSubscriptionId) throw new NotFoundError('PayPal subscription');
+
+    const [subscription, target] = await Promise.all([
+      getPayPalSubscription(team.paypalSubscriptionId),
+      this.getPlanDetails(change.toPlan as ChangeablePlan),
+    ]);
+    return subscription.plan_id === target.paypalPlanId;
+  }
+
+  private static async getMembers(team: Team): Promise<PlanChangeMember[]> {
+    const rows = await db
+      .select({
+        id: teamMembers.id,
+        userId: teamMembers.userId,
+        email: profiles.email,
+        fullName: profiles.fullName,
+        role: teamMembers.role,
+      })
+      .from(teamMembers)
+      .leftJoin(profiles, eq(teamMembers.userId, profiles.id))
+      .where(eq(teamMembers.teamId, team.id))
+      .orderBy(asc(teamMembers.joinedAt));
+
+    return rows.map((row) => ({ ...row, isOwner: row.userId === team.ownerId }));
+  }
+
+  private static async getActiveApiKeys(teamId: string): Promise<PlanChangeApiKey[]> {
+    return db
+      .select({
+        id: apiKeys.id,
+        name: apiKeys.name,
+        keyPrefix: apiKeys.keyPrefix,
+        lastUsedAt: apiKeys.lastUsedAt,
+      })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.teamId, teamId), eq(apiKeys.isActive, true)))
+      .orderBy(sql`${apiKeys.lastUsedAt} desc nulls last`, desc(apiKeys.createdAt));
+  }
+
+  private static async audit(change: PlanChange, userId: string | null, action: string): Promise<void> {
+    const user = userId
+      ? await db.query.profiles.findFirst({ where: eq(profiles.id, userId) })
+      : null;
+
+    await db.insert(auditLogs).values({
+      userId,
+      userEmail: user?.email ?? null,
+      action,
+      resource: 'team',
+      resourceId: change.teamId,
+      previousValue: JSON.stringify({ plan: change.fromPlan }),
+      newValue: JSON.stringify({
+        plan: change.toPlan,
+        planChangeId: change.id,
+        status: change.status,
+        effectiveAt: change.effectiveAt,
+        prorationAmount: change.prorationAmount,
+      }),
+    });
+  }
+
+  /**
+   * Email the team owner. A failed email never fails the change.
+   */
+  private static async notify(change: PlanChange): Promise<void> {
+    try {
+      const [owner] = await db
+        .select({ email: profiles.email })
+        .from(teams)
+        .innerJoin(profiles, eq(teams.ownerId, profiles.id))
+        .where(eq(teams.id, change.teamId))
+        .limit(1);
+      if (!owner) return;
+
+      await EmailService.sendPlanChangeConfirmation(owner.email, {
+        fromPlan: PLANS[change.fromPlan].name,
+        toPlan: PLANS[change.toPlan].name,
+        scheduled: change.status === 'scheduled',
+        effectiveAt: change.effectiveAt,
+        prorationAmount: change.prorationSource === 'provider' ? change.prorationAmount : null,
+        currency: change.currency ?? 'USD',
+      });
+    } catch (error) {
+      logger.error('Failed to send plan change email', { changeId: change.id }, error instanceof Error ? error : undefined);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { db, subscriptionPricing, PaymentProvider } from '@/db';
 import { eq } from 'drizzle-orm';
+import type { PlanQuotas } from '@/lib/metering';
 
 export interface PlanDetails {
   id: string;
@@ -8,6 +9,7 @@ export interface PlanDetails {
   description: string | null;
   features: string[];
   seats: number;
+  quotas: PlanQuotas; // Monthly usage quotas (null = unlimited)
   priceMonthly: number; // in cents
   priceYearly: number | null;
   stripePriceId: string | null;
@@ -36,6 +38,11 @@ export class PricingService {
       description: p.description,
       features: p.features ? JSON.parse(p.features) : [],
       seats: p.seats,
+      quotas: {
+        patternFetches: p.monthlyPatternFetches,
+        engineeringSessions: p.monthlyEngineeringSessions,
+        tokens: p.monthlyTokens,
+      },
       priceMonthly: p.priceMonthly,
       priceYearly: p.priceYearly,
       stripePriceId: p.stripePriceId,
@@ -66,6 +73,11 @@ export class PricingService {
       description: plan.description,
       features: plan.features ? JSON.parse(plan.features) : [],
       seats: plan.seats,
+      quotas: {
+        patternFetches: plan.monthlyPatternFetches,
+        engineeringSessions: plan.monthlyEngineeringSessions,
+        tokens: plan.monthlyTokens,
+      },
       priceMonthly: plan.priceMonthly,
       priceYearly: plan.priceYearly,
       stripePriceId: plan.stripePriceId,
@@ -110,6 +122,9 @@ export class PricingService {
       description: string;
       features: string[];
       seats: number;
+      monthlyPatternFetches: number | null;
+      monthlyEngineeringSessions: number | null;
+      monthlyTokens: number | null;
       priceMonthly: number;
       priceYearly: number;
       stripePriceId: string;
@@ -146,6 +161,9 @@ export class PricingService {
     description?: string;
     features?: string[];
     seats: number;
+    monthlyPatternFetches?: number | null;
+    monthlyEngineeringSessions?: number | null;
+    monthlyTokens?: number | null;
     priceMonthly: number;
     priceYearly?: number;
     stripePriceId?: string;
@@ -170,6 +188,9 @@ export class PricingService {
         description: data.description || null,
         features: data.features ? JSON.stringify(data.features) : null,
         seats: data.seats,
+        monthlyPatternFetches: data.monthlyPatternFetches ?? null,
+        monthlyEngineeringSessions: data.monthlyEngineeringSessions ?? null,
+        monthlyTokens: data.monthlyTokens ?? null,
         priceMonthly: data.priceMonthly,
         priceYearly: data.priceYearly || null,
         stripePriceId: data.stripePriceId || null,
@@ -0,0 +1,293 @@
+/**
+ * PROJECT EVENT STREAM SERVICE
+ *
+ * Streams project events as server-sent events, for the dashboard (every
+ * event, with the test run or risk flag it was recorded for) and the public
+ * progress page (events the team marked public, redacted).
+ *
+ * Events are polled from the database rather than pushed from the request
+ * that recorded them, so a stream on any instance sees events recorded on
+ * every other. Polling only happens while the client keeps up: the stream
+ * holds one message at a time and asks for the next once it has been read.
+ *
+ * Team streams are ordered by when events happened, public streams by when
+ * they were marked public - an older event published today still reaches
+ * pages that are open.
+ */
+
+import {
+  db,
+  projectEvents,
+  projectRiskFlags,
+  projectTestRuns,
+  eventTypeEnum,
+  type ProjectEvent,
+  type ProjectRiskFlag,
+  type ProjectTestRun,
+} from '@/db';
+import { and, asc, desc, eq, inArray, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import {
+  EVENT_STREAM_SETTINGS,
+  EventFeed,
+  EventStreamFilter,
+  PublicProjectEvent,
+  formatSseComment,
+  formatSseEvent,
+  formatSseRetry,
+  getEventRecordIds,
+  parseEventStreamFilter,
+  redactPublicEvent,
+} from '@/lib/project-event-stream';
+
+export interface StreamedProjectEvent extends ProjectEvent {
+  testRun: ProjectTestRun | null;
+  riskFlag: ProjectRiskFlag | null;
+}
+
+export interface EventStreamOptions {
+  cursor: string | null;
+  filter: EventStreamFilter;
+  signal: AbortSignal;
+}
+
+// SSE event name for both feeds
+const STREAM_EVENT = 'project_event';
+
+function orderColumn(feed: EventFeed) {
+  return feed === 'public' ? projectEvents.publicAt : projectEvents.createdAt;
+}
+
+function feedConditions(projectId: string, feed: EventFeed): SQL[] {
+  const conditions = [eq(projectEvents.projectId, projectId)];
+  if (feed === 'public') {
+    conditions.push(eq(projectEvents.isPublic, true), isNotNull(projectEvents.publicAt));
+  }
+  return conditions;
+}
+
+export class ProjectEventStreamService {
+  /**
+   * Event type and phase filters from a stream URL
+   */
+  static parseFilter(params: URLSearchParams): EventStreamFilter {
+    const { filter, errors } = parseEventStreamFilter(params, eventTypeEnum.enumValues);
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Invalid event stream filter', errors);
+    }
+    return filter;
+  }
+
+  /**
+   * The event a stream starts after. A cursor that isn't an event of the
+   * feed (deleted, another project's, never public) starts from the newest
+   * event instead, as does no cursor.
+   * @returns the event ID, or null when the feed has no events yet
+   */
+  static async resolveCursor(projectId: string, feed: EventFeed, cursor: string | null): Promise<string | null> {
+    if (cursor) {
+      // Events hidden again since still have a place in the public feed
+      const [event] = await db
+        .select({ id: projectEvents.id })
+        .from(projectEvents)
+        .where(and(eq(projectEvents.projectId, projectId), eq(projectEvents.id, cursor), isNotNull(orderColumn(feed))))
+        .limit(1);
+      if (event) return event.id;
+    }
+
+    const [newest] = await db
+      .select({ id: projectEvents.id })
+      .from(projectEvents)
+      .where(and(...feedConditions(projectId, feed)))
+      .orderBy(desc(orderColumn(feed)), desc(projectEvents.id))
+      .limit(1);
+
+    return newest?.id ?? null;
+  }
+
+  /**
+   * Events after the cursor, oldest first. Events from the last moment are
+   * held back until inserts that started before them have committed, so the
+   * cursor never moves past an event that is still to appear.
+   */
+  static async getEventsAfter(
+    projectId: string,
+    feed: EventFeed,
+    cursor: string | null,
+    filter: EventStreamFilter,
+    limit: number = EVENT_STREAM_SETTINGS.batchSize
+  ): Promise<ProjectEvent[]> {
+    const order = orderColumn(feed);
+    const conditions = [
+      ...feedConditions(projectId, feed),
+      sql`${order} < now() - ${`${EVENT_STREAM_SETTINGS.settleMs} milliseconds`}::interval`,
+    ];
+
+    if (cursor) {
+      // Compared in the database - timestamps have microseconds, JS dates don't
+      conditions.push(
+        sql`(${order}, ${projectEvents.id}) > (select ${order}, ${projectEvents.id} from ${projectEvents} where ${projectEvents.id} = ${cursor})`
+      );
+    }
+    if (filter.types) conditions.push(inArray(projectEvents.eventType, filter.types));
+    if (filter.phaseId) conditions.push(eq(projectEvents.phaseId, filter.phaseId));
+
+    return db
+      .select()
+      .from(projectEvents)
+      .where(and(...conditions))
+      .orderBy(asc(order), asc(projectEvents.id))
+      .limit(limit);
+  }
+
+  /**
+   * Events with the test runs and risk flags they were recorded for, so the
+   * dashboard can add them to its lists without refetching
+   */
+  static async attachRecords(projectId: string, events: ProjectEvent[]): Promise<StreamedProjectEvent[]> {
+    const ids = events.map((event) => getEventRecordIds(event));
+    const testRunIds = ids.map((i) => i.testRunId).filter((id): id is string => id !== null);
+    const riskFlagIds = ids.map((i) => i.riskFlagId).filter((id): id is string => id !== null);
+
+    const [testRuns, riskFlags] = await Promise.all([
+      testRunIds.length > 0
+        ? db
+            .select()
+            .from(projectTestRuns)
+            .where(and(eq(projectTestRuns.projectId, projectId), inArray(projectTestRuns.id, testRunIds)))
+        : [],
+      riskFlagIds.length > 0
+        ? db
+            .select()
+            .from(projectRiskFlags)
+            .where(and(eq(projectRiskFlags.projectId, projectId), inArray(projectRiskFlags.id, riskFlagIds)))
+        : [],
+    ]);
+
+    const testRunsById = new Map(testRuns.map((run) => [run.id, run]));
+    const riskFlagsById = new Map(riskFlags.map((flag) => [flag.id, flag]));
+
+    return events.map((event, index) => ({
+      ...event,
+      testRun: testRunsById.get(ids[index].testRunId ?? '') ?? null,
+      riskFlag: riskFlagsById.get(ids[index].riskFlagId ?? '') ?? null,
+    }));
+  }
+
+  /**
+   * Most recently published events for the public page, redacted
+   */
+  static async getPublicEvents(projectId: string, limit = 20): Promise<PublicProjectEvent[]> {
+    const events = await db
+      .select()
+      .from(projectEvents)
+      .where(and(...feedConditions(projectId, 'public')))
+      .orderBy(desc(projectEvents.publicAt), desc(projectEvents.id))
+      .limit(limit);
+
+    return events.map(redactPublicEvent);
+  }
+
+  /**
+   * Show or hide an event on the public progress page. Publishing an event
+   * that is already public keeps its place in the public feed.
+   */
+  static async setEventPublic(projectId: string, eventId: string, isPublic: boolean) {
+    const [event] = await db
+      .update(projectEvents)
+      .set(
+        isPublic
+          ? { isPublic, publicAt: sql`case when ${projectEvents.isPublic} then ${projectEvents.publicAt} else now() end` }
+          // Hidden events keep publicAt so a public stream resuming after one still has a position
+          : { isPublic }
+      )
+      .where(and(eq(projectEvents.id, eventId), eq(projectEvents.projectId, projectId)))
+      .returning();
+
+    if (!event) throw new NotFoundError('Event');
+
+    return event;
+  }
+
+  /**
+   * An SSE stream of a feed's events after the cursor. Ends after
+   * EVENT_STREAM_SETTINGS.maxConnectionMs; the browser reconnects and resumes.
+   */
+  static openStream(projectId: string, feed: EventFeed, options: EventStreamOptions): ReadableStream<Uint8Array> {
+    const { filter, signal } = options;
+    const settings = EVENT_STREAM_SETTINGS;
+    const encoder = new TextEncoder();
+    const openedAt = Date.now();
+
+    let cursor = options.cursor;
+    let cursorResolved = false;
+    let lastSentAt = Date.now();
+    let behind = true; // Poll without waiting until the stream has caught up
+    let cancelled = false;
+
+    const isOpen = () => !cancelled && !signal.aborted;
+    const wait = (ms: number) =>
+      new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+      });
+
+    const poll = async (): Promise<string | null> => {
+      if (!cursorResolved) {
+        cursor = await this.resolveCursor(projectId, feed, cursor);
+        cursorResolved = true;
+      }
+
+      const events = await this.getEventsAfter(projectId, feed, cursor, filter);
+      behind = events.length === settings.batchSize;
+      if (events.length === 0) return null;
+
+      cursor = events[events.length - 1].id;
+      const payloads = feed === 'public' ? events.map(redactPublicEvent) : await this.attachRecords(projectId, events);
+      return payloads.map((payload) => formatSseEvent(payload.id, STREAM_EVENT, payload)).join('');
+    };
+
+    return new ReadableStream<Uint8Array>(
+      {
+        start(controller) {
+          controller.enqueue(encoder.encode(formatSseRetry(settings.retryMs)));
+        },
+
+        // Only called once the client has read the previous message
+        async pull(controller) {
+          while (isOpen() && Date.now() - openedAt < settings.maxConnectionMs) {
+            if (!behind) await wait(settings.pollIntervalMs);
+            if (!isOpen()) return;
+
+            try {
+              const message = await poll();
+              if (!isOpen()) return;
+
+              if (message) {
+                controller.enqueue(encoder.encode(message));
+                lastSentAt = Date.now();
+                return;
+              }
+              if (Date.now() - lastSentAt >= settings.heartbeatMs) {
+                controller.enqueue(encoder.encode(formatSseComment('keep-alive')));
+                lastSentAt = Date.now();
+                return;
+              }
+            } catch (error) {
+              logger.error('Project event stream failed', { projectId, feed }, error as Error);
+              break;
+            }
+          }
+
+          if (isOpen()) controller.close();
+        },
+
+        cancel() {
+          cancelled = true;
+        },
+      },
+      new CountQueuingStrategy({ highWaterMark: 1 })
+    );
+  }
+}
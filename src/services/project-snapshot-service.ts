@@ -0,0 +1,336 @@
+/**
+ * PROJECT SNAPSHOT SERVICE
+ *
+ * Stores the file contents of project snapshots and the restores requested
+ * from the dashboard. Contents are uploaded through /api/projects/[id]/sync:
+ * the CLI asks which blobs the server is missing, uploads only those, then
+ * creates the snapshot from a manifest of paths and hashes.
+ *
+ * Restores are applied by the CLI (`codebakers restore`), which shows a diff
+ * against the working tree first - the server never touches project files.
+ */
+
+import {
+  db,
+  projectSnapshots,
+  projectSnapshotBlobs,
+  projectSnapshotFiles,
+  projectSnapshotRestores,
+  type NewProjectSnapshot,
+  type ProjectSnapshotRestore,
+} from '@/db';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  BlobEncoding,
+  SNAPSHOT_LIMITS,
+  SnapshotEntry,
+  decodeBlob,
+  diffLines,
+  diffManifests,
+  hashBlob,
+  isBlobHash,
+  normalizeSnapshotPath,
+} from '@/lib/project-snapshots';
+import { ProjectTrackingService } from './project-tracking-service';
+
+export interface BlobUpload {
+  hash: string;
+  content: string;
+  encoding: BlobEncoding;
+}
+
+export interface SnapshotFileContent extends SnapshotEntry {
+  content: string;
+  encoding: BlobEncoding;
+}
+
+// Rows per query, to stay well under Postgres' parameter limit
+const BATCH_SIZE = 500;
+
+function blobKey(projectId: string, hash: string) {
+  return `${projectId}:${hash}`;
+}
+
+function parseRestorePaths(restore: ProjectSnapshotRestore): string[] | null {
+  return restore.paths ? (JSON.parse(restore.paths) as string[]) : null;
+}
+
+export class ProjectSnapshotService {
+  /**
+   * Hashes the project has no blob for yet
+   */
+  static async findMissingBlobs(projectId: string, hashes: string[]): Promise<string[]> {
+    const unique = [...new Set(hashes)];
+    if (unique.length === 0) return [];
+
+    const stored = new Set<string>();
+    for (let i = 0; i < unique.length; i += BATCH_SIZE) {
+      const rows = await db
+        .select({ hash: projectSnapshotBlobs.hash })
+        .from(projectSnapshotBlobs)
+        .where(inArray(projectSnapshotBlobs.blobKey, unique.slice(i, i + BATCH_SIZE).map((h) => blobKey(projectId, h))));
+      for (const row of rows) stored.add(row.hash);
+    }
+
+    return unique.filter((hash) => !stored.has(hash));
+  }
+
+  /**
+   * Store uploaded file contents. Each blob must hash to the hash it was sent
+   * with; blobs the project already has are skipped.
+   * @returns the number of blobs uploaded
+   */
+  static async storeBlobs(projectId: string, blobs: BlobUpload[]): Promise<number> {
+    const rows = blobs.map((blob) => {
+      const bytes = decodeBlob(blob.content, blob.encoding);
+      if (hashBlob(bytes) !== blob.hash) {
+        throw new ValidationError('Snapshot file content does not match its hash', { blobs: [blob.hash] });
+      }
+      if (bytes.length > SNAPSHOT_LIMITS.maxFileBytes) {
+        throw new ValidationError('Snapshot file is too large', { blobs: [blob.hash] });
+      }
+
+      return {
+        projectId,
+        blobKey: blobKey(projectId, blob.hash),
+        hash: blob.hash,
+        content: blob.content,
+        encoding: blob.encoding,
+        size: bytes.length,
+      };
+    });
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await db.insert(projectSnapshotBlobs).values(rows.slice(i, i + BATCH_SIZE)).onConflictDoNothing();
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Create a snapshot with its files. Every file's blob must already be stored.
+   */
+  static async createSnapshot(data: NewProjectSnapshot, files: SnapshotEntry[]) {
+    if (files.length > SNAPSHOT_LIMITS.maxFiles) {
+      throw new ValidationError(`Snapshots can hold at most ${SNAPSHOT_LIMITS.maxFiles} files`);
+    }
+
+    const entries = new Map<string, SnapshotEntry>();
+    for (const file of files) {
+      const path = normalizeSnapshotPath(file.path);
+      if (!path || !isBlobHash(file.hash)) {
+        throw new ValidationError('Invalid snapshot file', { files: [file.path] });
+      }
+      entries.set(path, { ...file, path });
+    }
+
+    const missing = await this.findMissingBlobs(data.projectId, [...entries.values()].map((f) => f.hash));
+    if (missing.length > 0) {
+      throw new ValidationError(`${missing.length} snapshot files were not uploaded`, { missingBlobs: missing });
+    }
+
+    // A snapshot without all of its file rows would restore as a partial tree
+    const snapshot = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(projectSnapshots).values({
+        ...data,
+        fileCount: entries.size,
+        totalBytes: [...entries.values()].reduce((sum, f) => sum + f.size, 0),
+      }).returning();
+
+      const rows = [...entries.values()].map((file) => ({
+        snapshotId: created.id,
+        filePath: file.path,
+        blobHash: file.hash,
+        size: file.size,
+      }));
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        await tx.insert(projectSnapshotFiles).values(rows.slice(i, i + BATCH_SIZE));
+      }
+
+      return created;
+    });
+
+    await ProjectTrackingService.recordEvent(data.projectId, data.phaseId ?? null, null, {
+      eventType: 'snapshot_created',
+      eventTitle: `Snapshot: ${data.snapshotName}`,
+      eventDescription: data.snapshotDescription,
+      eventData: JSON.stringify({
+        snapshotId: snapshot.id,
+        gitCommitHash: data.gitCommitHash,
+        isAutomatic: data.isAutomatic,
+      }),
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Snapshots of a project, newest first, with the pending restore if any
+   */
+  static async listSnapshots(projectId: string) {
+    const [snapshots, pendingRestore] = await Promise.all([
+      ProjectTrackingService.getProjectSnapshots(projectId),
+      this.getPendingRestore(projectId),
+    ]);
+
+    return { snapshots, pendingRestore };
+  }
+
+  /**
+   * A snapshot and its manifest
+   */
+  static async getSnapshot(projectId: string, snapshotId: string) {
+    const [snapshot] = await db
+      .select()
+      .from(projectSnapshots)
+      .where(and(eq(projectSnapshots.id, snapshotId), eq(projectSnapshots.projectId, projectId)))
+      .limit(1);
+
+    if (!snapshot) throw new NotFoundError('Snapshot');
+
+    const files = await db
+      .select({ path: projectSnapshotFiles.filePath, hash: projectSnapshotFiles.blobHash, size: projectSnapshotFiles.size })
+      .from(projectSnapshotFiles)
+      .where(eq(projectSnapshotFiles.snapshotId, snapshotId))
+      .orderBy(projectSnapshotFiles.filePath);
+
+    return { snapshot, files };
+  }
+
+  /**
+   * Contents of files in a snapshot
+   * @param paths - Files to load, or every file when omitted
+   */
+  static async getFileContents(projectId: string, snapshotId: string, paths?: string[]): Promise<SnapshotFileContent[]> {
+    const { files } = await this.getSnapshot(projectId, snapshotId);
+    const wanted = paths ? new Set(paths) : null;
+    const selected = wanted ? files.filter((f) => wanted.has(f.path)) : files;
+
+    if (wanted && selected.length < wanted.size) {
+      const found = new Set(selected.map((f) => f.path));
+      throw new NotFoundError(`File ${[...wanted].find((p) => !found.has(p))} in snapshot`);
+    }
+
+    const blobs = new Map<string, { content: string; encoding: string }>();
+    const hashes = [...new Set(selected.map((f) => f.hash))];
+    for (let i = 0; i < hashes.length; i += BATCH_SIZE) {
+      const rows = await db
+        .select({ hash: projectSnapshotBlobs.hash, content: projectSnapshotBlobs.content, encoding: projectSnapshotBlobs.encoding })
+        .from(projectSnapshotBlobs)
+        .where(inArray(projectSnapshotBlobs.blobKey, hashes.slice(i, i + BATCH_SIZE).map((h) => blobKey(projectId, h))));
+      for (const row of rows) blobs.set(row.hash, row);
+    }
+
+    return selected.map((file) => {
+      const blob = blobs.get(file.hash);
+      if (!blob) throw new NotFoundError(`Content of ${file.path}`);
+      return { ...file, content: blob.content, encoding: blob.encoding as BlobEncoding };
+    });
+  }
+
+  /**
+   * Files added, removed and modified from one snapshot to another
+   */
+  static async compareSnapshots(projectId: string, fromId: string, toId: string) {
+    const [from, to] = await Promise.all([this.getSnapshot(projectId, fromId), this.getSnapshot(projectId, toId)]);
+
+    return {
+      from: from.snapshot,
+      to: to.snapshot,
+      diff: diffManifests(from.files, to.files),
+    };
+  }
+
+  /**
+   * Line diff of one file between two snapshots. Binary files are only
+   * reported as changed.
+   */
+  static async compareFile(projectId: string, fromId: string, toId: string, path: string) {
+    const [from, to] = await Promise.all([this.getSnapshot(projectId, fromId), this.getSnapshot(projectId, toId)]);
+    const inFrom = from.files.some((f) => f.path === path);
+    const inTo = to.files.some((f) => f.path === path);
+    if (!inFrom && !inTo) throw new NotFoundError(`File ${path} in either snapshot`);
+
+    const [[before], [after]] = await Promise.all([
+      inFrom ? this.getFileContents(projectId, fromId, [path]) : [undefined],
+      inTo ? this.getFileContents(projectId, toId, [path]) : [undefined],
+    ]);
+
+    const binary = before?.encoding === 'base64' || after?.encoding === 'base64';
+    return {
+      path,
+      before: before ?? null,
+      after: after ?? null,
+      binary,
+      hunks: binary ? [] : diffLines(before?.content ?? '', after?.content ?? ''),
+    };
+  }
+
+  /**
+   * Ask the CLI to restore a snapshot. Replaces any restore still pending for
+   * the project.
+   * @param paths - Files to restore, or null for the whole tree
+   */
+  static async requestRestore(projectId: string, snapshotId: string, paths: string[] | null, userId: string) {
+    const { files } = await this.getSnapshot(projectId, snapshotId);
+
+    if (paths) {
+      const inSnapshot = new Set(files.map((f) => f.path));
+      const unknown = paths.filter((p) => !inSnapshot.has(p));
+      if (unknown.length > 0) throw new ValidationError('Files are not in the snapshot', { paths: unknown });
+    }
+
+    await db
+      .update(projectSnapshotRestores)
+      .set({ status: 'cancelled' })
+      .where(and(eq(projectSnapshotRestores.projectId, projectId), eq(projectSnapshotRestores.status, 'pending')));
+
+    const [restore] = await db
+      .insert(projectSnapshotRestores)
+      .values({
+        projectId,
+        snapshotId,
+        paths: paths ? JSON.stringify(paths) : null,
+        requestedBy: userId,
+      })
+      .returning();
+
+    return { ...restore, paths };
+  }
+
+  /**
+   * The restore the CLI should apply next, if any
+   */
+  static async getPendingRestore(projectId: string) {
+    const [restore] = await db
+      .select()
+      .from(projectSnapshotRestores)
+      .where(and(eq(projectSnapshotRestores.projectId, projectId), eq(projectSnapshotRestores.status, 'pending')))
+      .orderBy(desc(projectSnapshotRestores.requestedAt))
+      .limit(1);
+
+    return restore ? { ...restore, paths: parseRestorePaths(restore) } : null;
+  }
+
+  /**
+   * Record that the CLI applied a snapshot to the working tree. Completes the
+   * pending restore for the snapshot, if it was requested from the dashboard.
+   */
+  static async completeRestore(projectId: string, snapshotId: string, paths: string[] | null) {
+    await this.getSnapshot(projectId, snapshotId);
+
+    await db
+      .update(projectSnapshotRestores)
+      .set({ status: 'applied', appliedAt: new Date() })
+      .where(
+        and(
+          eq(projectSnapshotRestores.projectId, projectId),
+          eq(projectSnapshotRestores.snapshotId, snapshotId),
+          eq(projectSnapshotRestores.status, 'pending')
+        )
+      );
+
+    return ProjectTrackingService.markSnapshotRestored(snapshotId, paths);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * PROJECT TEMPLATE SERVICE
+ *
+ * Stores the template packages teams publish for `codebakers scaffold
+ * --template`, `codebakers build --template` and the MCP scaffold_project
+ * tool. A published version never changes; publishing again needs a new
+ * version. Templates are only visible to the team that published them.
+ */
+
+import { db, projectTemplates, type ProjectTemplate } from '@/db';
+import { and, desc, eq } from 'drizzle-orm';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  TemplateFile,
+  TemplateManifest,
+  TemplatePackage,
+  compareTemplateVersions,
+  isTemplateName,
+  isTemplateVersion,
+  normalizeTemplatePath,
+  validateTemplatePackage,
+} from '@/lib/project-templates';
+
+export interface TemplateSummary {
+  name: string;
+  description: string | null;
+  latestVersion: string;
+  versions: string[]; // Newest first
+  publishedAt: Date | null; // Of the latest version
+}
+
+function templateKey(teamId: string, name: string, version: string) {
+  return `${teamId}:${name}@${version}`;
+}
+
+function toPackage(row: ProjectTemplate): TemplatePackage {
+  return {
+    manifest: JSON.parse(row.manifest) as TemplateManifest,
+    files: JSON.parse(row.files) as TemplateFile[],
+  };
+}
+
+export class ProjectTemplateService {
+  /**
+   * Every template the team has published, with its versions
+   */
+  static async listTemplates(teamId: string): Promise<TemplateSummary[]> {
+    const rows = await db
+      .select({
+        name: projectTemplates.name,
+        version: projectTemplates.version,
+        description: projectTemplates.description,
+        createdAt: projectTemplates.createdAt,
+      })
+      .from(projectTemplates)
+      .where(eq(projectTemplates.teamId, teamId))
+      .orderBy(projectTemplates.name);
+
+    const byName = new Map<string, typeof rows>();
+    for (const row of rows) {
+      byName.set(row.name, [...(byName.get(row.name) ?? []), row]);
+    }
+
+    return [...byName.entries()].map(([name, versions]) => {
+      versions.sort((a, b) => compareTemplateVersions(b.version, a.version));
+      return {
+        name,
+        description: versions[0].description,
+        latestVersion: versions[0].version,
+        versions: versions.map((v) => v.version),
+        publishedAt: versions[0].createdAt,
+      };
+    });
+  }
+
+  /**
+   * A template package - the given version, or the newest one
+   */
+  static async getTemplate(teamId: string, name: string, version?: string): Promise<TemplatePackage & { publishedAt: Date | null }> {
+    if (!isTemplateName(name)) {
+      throw new ValidationError('Invalid template name');
+    }
+    if (version && !isTemplateVersion(version)) {
+      throw new ValidationError('Template versions must be semver, e.g. 1.0.0');
+    }
+
+    let row: ProjectTemplate | undefined;
+    if (version) {
+      [row] = await db
+        .select()
+        .from(projectTemplates)
+        .where(eq(projectTemplates.templateKey, templateKey(teamId, name, version)))
+        .limit(1);
+    } else {
+      const versions = await db
+        .select({ id: projectTemplates.id, version: projectTemplates.version })
+        .from(projectTemplates)
+        .where(and(eq(projectTemplates.teamId, teamId), eq(projectTemplates.name, name)))
+        .orderBy(desc(projectTemplates.createdAt));
+      const latest = versions.sort((a, b) => compareTemplateVersions(b.version, a.version))[0];
+      if (latest) {
+        [row] = await db.select().from(projectTemplates).where(eq(projectTemplates.id, latest.id)).limit(1);
+      }
+    }
+
+    if (!row) {
+      throw new NotFoundError(version ? `Template ${name}@${version}` : `Template ${name}`);
+    }
+    return { ...toPackage(row), publishedAt: row.createdAt };
+  }
+
+  /**
+   * Publish a new version of a template
+   */
+  static async publishTemplate(teamId: string, userId: string, pkg: unknown): Promise<TemplateSummary> {
+    const problem = validateTemplatePackage(pkg);
+    if (problem) {
+      throw new ValidationError(problem);
+    }
+
+    const { manifest, files } = pkg as TemplatePackage;
+    const key = templateKey(teamId, manifest.name, manifest.version);
+    const [existing] = await db
+      .select({ id: projectTemplates.id })
+      .from(projectTemplates)
+      .where(eq(projectTemplates.templateKey, key))
+      .limit(1);
+
+    if (existing) {
+      throw new ConflictError(`${manifest.name}@${manifest.version} is already published - bump the version to publish changes`);
+    }
+
+    const normalized = files.map((f) => ({ path: normalizeTemplatePath(f.path)!, content: f.content }));
+    await db.insert(projectTemplates).values({
+      teamId,
+      templateKey: key,
+      name: manifest.name,
+      version: manifest.version,
+      description: manifest.description ?? null,
+      manifest: JSON.stringify(manifest),
+      files: JSON.stringify(normalized),
+      size: normalized.reduce((sum, f) => sum + Buffer.byteLength(f.content), 0),
+      publishedBy: userId,
+    });
+
+    const summary = (await this.listTemplates(teamId)).find((t) => t.name === manifest.name);
+    return summary!;
+  }
+}
@@ -430,6 +430,7 @@ export class ProjectTrackingService {
       eventTitle: `Tests ${data.passed ? 'Passed' : 'Failed'}`,
       eventDescription: `${data.passedTests}/${data.totalTests} tests passed`,
       eventData: JSON.stringify({
+        testRunId: testRun.id,
         testType: data.testType,
         passed: data.passedTests,
         failed: data.failedTests,
@@ -632,8 +633,9 @@ export class ProjectTrackingService {
 
   /**
    * Mark a snapshot as restored
+   * @param paths - Files restored, or null for the whole tree
    */
-  static async markSnapshotRestored(snapshotId: string) {
+  static async markSnapshotRestored(snapshotId: string, paths: string[] | null = null) {
     const [snapshot] = await db
       .update(projectSnapshots)
       .set({ wasRestored: true, restoredAt: new Date() })
@@ -644,7 +646,8 @@ export class ProjectTrackingService {
       await this.recordEvent(snapshot.projectId, snapshot.phaseId, null, {
         eventType: 'snapshot_restored',
         eventTitle: `Restored: ${snapshot.snapshotName}`,
-        eventData: JSON.stringify({ snapshotId }),
+        eventDescription: paths ? `${paths.length} file(s) restored` : undefined,
+        eventData: JSON.stringify({ snapshotId, paths }),
       });
     }
 
@@ -787,6 +790,7 @@ export class ProjectTrackingService {
       eventType: 'risk_flagged',
       eventTitle: `Risk: ${data.riskTitle}`,
       eventDescription: data.riskDescription,
+      eventData: JSON.stringify({ riskFlagId: flag.id }),
       riskLevel: data.riskLevel,
       riskReason: data.triggerReason,
     });
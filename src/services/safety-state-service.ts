@@ -0,0 +1,332 @@
+/**
+ * SAFETY STATE SERVICE
+ *
+ * Postgres-backed state for /api/safety sessions: the loaded project context,
+ * intent scoping, scope locks, decisions, attempts and every check_action
+ * verdict. Sessions survive redeploys, are shared between instances and expire
+ * a week after their last write.
+ *
+ * A session created with team credentials is only visible to that team;
+ * anonymous sessions are reachable by anyone holding the session token.
+ */
+
+import { db } from '@/db';
+import {
+  safetySessions,
+  safetyScopeLocks,
+  safetyDecisions,
+  safetyAttempts,
+  safetyActionChecks,
+  projects,
+  SafetySession,
+} from '@/db/schema';
+import { and, asc, eq, gt, lt } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import {
+  Attempt,
+  Decision,
+  ProjectContext,
+  ScopeAction,
+  ScopeLock,
+  ScopeViolation,
+} from '@/lib/safety-types';
+import type { ScopingSession } from './scoper-agent-service';
+
+const SAFETY_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SafetyActionCheckInput {
+  actionType: ScopeAction;
+  targetFile: string;
+  details?: string;
+  allowed: boolean;
+  reason: string;
+  rule?: ScopeViolation['rule'];
+  scopeLockId?: string;
+  linesChanged?: number;
+}
+
+export interface SafetySessionExport {
+  sessionId: string;
+  teamId: string | null;
+  project: { id: string | null; hash: string | null; name: string | null };
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  expiresAt: Date;
+  context: ProjectContext | null;
+  scoping: ScopingSession | null;
+  scopeLocks: Array<ScopeLock & { recordedAt: Date | null; active: boolean }>;
+  decisions: Decision[];
+  attempts: Attempt[];
+  actionChecks: Array<Omit<SafetyActionCheckInput, 'rule'> & {
+    rule: ScopeViolation['rule'] | null;
+    checkedAt: Date | null;
+  }>;
+}
+
+function parseJson<T>(value: string | null): T | null {
+  return value ? JSON.parse(value) as T : null;
+}
+
+function nextExpiry(): Date {
+  return new Date(Date.now() + SAFETY_SESSION_TTL_MS);
+}
+
+function decisionRow(sessionId: string, decision: Decision) {
+  return {
+    sessionId,
+    decisionId: decision.id,
+    decision: decision.decision,
+    category: decision.category,
+    impact: decision.impact,
+    madeBy: decision.madeBy,
+    data: JSON.stringify(decision),
+  };
+}
+
+function attemptRow(sessionId: string, attempt: Attempt) {
+  return {
+    sessionId,
+    attemptId: attempt.id,
+    issue: attempt.issue,
+    approach: attempt.approach,
+    result: attempt.result,
+    data: JSON.stringify(attempt),
+  };
+}
+
+export class SafetyStateService {
+  /**
+   * Start a session from loaded context. Decisions and attempts found in the
+   * context files become the session's initial history.
+   */
+  static async createSession(params: {
+    context: ProjectContext;
+    teamId?: string | null;
+    projectHash?: string;
+    projectName?: string;
+  }): Promise<SafetySession> {
+    const teamId = params.teamId || null;
+
+    // Link to a tracked project when the team has one for this hash
+    let projectId: string | null = null;
+    if (teamId && params.projectHash) {
+      const project = await db.query.projects.findFirst({
+        where: and(eq(projects.teamId, teamId), eq(projects.projectHash, params.projectHash)),
+        columns: { id: true },
+      });
+      projectId = project?.id || null;
+    }
+
+    const [session] = await db.insert(safetySessions).values({
+      sessionToken: `safety_${randomBytes(32).toString('hex')}`, // Bearer-style: it is the only key to anonymous sessions
+      teamId,
+      projectId,
+      projectHash: params.projectHash || null,
+      projectName: params.projectName || params.context.projectName || null,
+      context: JSON.stringify(params.context),
+      expiresAt: nextExpiry(),
+    }).returning();
+
+    if (params.context.decisions.length > 0) {
+      await db.insert(safetyDecisions).values(params.context.decisions.map((d) => decisionRow(session.id, d)));
+    }
+    if (params.context.recentAttempts.length > 0) {
+      await db.insert(safetyAttempts).values(params.context.recentAttempts.map((a) => attemptRow(session.id, a)));
+    }
+
+    return session;
+  }
+
+  /**
+   * Find an unexpired session the caller may use
+   * @param teamId - Caller's team, or null for anonymous callers
+   */
+  static async getSession(sessionToken: string, teamId: string | null): Promise<SafetySession | null> {
+    const session = await db.query.safetySessions.findFirst({
+      where: and(eq(safetySessions.sessionToken, sessionToken), gt(safetySessions.expiresAt, new Date())),
+    });
+
+    if (!session) return null;
+    if (session.teamId && session.teamId !== teamId) return null;
+    return session;
+  }
+
+  static getContext(session: SafetySession): ProjectContext | null {
+    return parseJson<ProjectContext>(session.context);
+  }
+
+  static getScoping(session: SafetySession): ScopingSession | null {
+    return parseJson<ScopingSession>(session.scoping);
+  }
+
+  static async saveScoping(session: SafetySession, scoping: ScopingSession): Promise<void> {
+    await db.update(safetySessions)
+      .set({ scoping: JSON.stringify(scoping), expiresAt: nextExpiry(), updatedAt: new Date() })
+      .where(eq(safetySessions.id, session.id));
+  }
+
+  /**
+   * The scope lock currently in force
+   */
+  static async getScopeLock(session: SafetySession): Promise<ScopeLock | null> {
+    const row = await db.query.safetyScopeLocks.findFirst({
+      where: and(eq(safetyScopeLocks.sessionId, session.id), eq(safetyScopeLocks.isActive, true)),
+    });
+    return row ? JSON.parse(row.lock) as ScopeLock : null;
+  }
+
+  /**
+   * Lock a new scope. Earlier locks are kept (inactive) for the history.
+   */
+  static async setScopeLock(session: SafetySession, lock: ScopeLock): Promise<void> {
+    await db.update(safetyScopeLocks)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(and(eq(safetyScopeLocks.sessionId, session.id), eq(safetyScopeLocks.isActive, true)));
+
+    await db.insert(safetyScopeLocks).values({
+      sessionId: session.id,
+      lockId: lock.id,
+      lock: JSON.stringify(lock),
+      isActive: lock.isActive,
+    });
+    await this.touch(session);
+  }
+
+  /**
+   * Persist changes to a lock (violations, change counters)
+   */
+  static async saveScopeLock(session: SafetySession, lock: ScopeLock): Promise<void> {
+    await db.update(safetyScopeLocks)
+      .set({ lock: JSON.stringify(lock), isActive: lock.isActive, updatedAt: new Date() })
+      .where(and(eq(safetyScopeLocks.sessionId, session.id), eq(safetyScopeLocks.lockId, lock.id)));
+    await this.touch(session);
+  }
+
+  static async getDecisions(session: SafetySession): Promise<Decision[]> {
+    const rows = await db.query.safetyDecisions.findMany({
+      where: eq(safetyDecisions.sessionId, session.id),
+      orderBy: [asc(safetyDecisions.createdAt)],
+    });
+    return rows.map((row) => JSON.parse(row.data) as Decision);
+  }
+
+  static async addDecision(session: SafetySession, decision: Decision): Promise<void> {
+    await db.insert(safetyDecisions).values(decisionRow(session.id, decision));
+    await this.touch(session);
+  }
+
+  /**
+   * Rewrite stored decisions, e.g. to mark them superseded
+   */
+  static async updateDecisions(session: SafetySession, decisions: Decision[]): Promise<void> {
+    for (const decision of decisions) {
+      await db
+        .update(safetyDecisions)
+        .set({ data: JSON.stringify(decision) })
+        .where(and(eq(safetyDecisions.sessionId, session.id), eq(safetyDecisions.decisionId, decision.id)));
+    }
+    if (decisions.length > 0) {
+      await this.touch(session);
+    }
+  }
+
+  static async getAttempts(session: SafetySession): Promise<Attempt[]> {
+    const rows = await db.query.safetyAttempts.findMany({
+      where: eq(safetyAttempts.sessionId, session.id),
+      orderBy: [asc(safetyAttempts.createdAt)],
+    });
+    return rows.map((row) => JSON.parse(row.data) as Attempt);
+  }
+
+  static async addAttempt(session: SafetySession, attempt: Attempt): Promise<void> {
+    await db.insert(safetyAttempts).values(attemptRow(session.id, attempt));
+    await this.touch(session);
+  }
+
+  /**
+   * Record a check_action verdict, allowed or not
+   */
+  static async recordActionCheck(session: SafetySession, check: SafetyActionCheckInput): Promise<void> {
+    await db.insert(safetyActionChecks).values({
+      sessionId: session.id,
+      actionType: check.actionType,
+      targetFile: check.targetFile,
+      details: check.details || null,
+      allowed: check.allowed,
+      reason: check.reason,
+      rule: check.rule ? JSON.stringify(check.rule) : null,
+      scopeLockId: check.scopeLockId || null,
+      linesChanged: check.linesChanged ?? null,
+    });
+    await this.touch(session);
+  }
+
+  /**
+   * Full history of a session for review: what was allowed and what was tried
+   */
+  static async exportSession(session: SafetySession): Promise<SafetySessionExport> {
+    const [locks, decisions, attempts, checks] = await Promise.all([
+      db.query.safetyScopeLocks.findMany({
+        where: eq(safetyScopeLocks.sessionId, session.id),
+        orderBy: [asc(safetyScopeLocks.createdAt)],
+      }),
+      this.getDecisions(session),
+      this.getAttempts(session),
+      db.query.safetyActionChecks.findMany({
+        where: eq(safetyActionChecks.sessionId, session.id),
+        orderBy: [asc(safetyActionChecks.createdAt)],
+      }),
+    ]);
+
+    return {
+      sessionId: session.sessionToken,
+      teamId: session.teamId,
+      project: { id: session.projectId, hash: session.projectHash, name: session.projectName },
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      expiresAt: session.expiresAt,
+      context: this.getContext(session),
+      scoping: this.getScoping(session),
+      scopeLocks: locks.map((row) => ({
+        ...JSON.parse(row.lock) as ScopeLock,
+        recordedAt: row.createdAt,
+        active: row.isActive,
+      })),
+      decisions,
+      attempts,
+      actionChecks: checks.map((row) => ({
+        actionType: row.actionType as ScopeAction,
+        targetFile: row.targetFile,
+        details: row.details || undefined,
+        allowed: row.allowed,
+        reason: row.reason,
+        rule: parseJson<ScopeViolation['rule']>(row.rule),
+        scopeLockId: row.scopeLockId || undefined,
+        linesChanged: row.linesChanged ?? undefined,
+        checkedAt: row.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Remove sessions past their TTL (history rows cascade). Run on a schedule
+   * by scripts/delete-expired-safety-sessions.ts; expired sessions are
+   * already unreadable.
+   * @returns number of sessions deleted
+   */
+  static async deleteExpired(): Promise<number> {
+    const deleted = await db.delete(safetySessions)
+      .where(lt(safetySessions.expiresAt, new Date()))
+      .returning({ id: safetySessions.id });
+    return deleted.length;
+  }
+
+  /**
+   * Push back the session's expiry after a write
+   */
+  private static async touch(session: SafetySession): Promise<void> {
+    await db.update(safetySessions)
+      .set({ expiresAt: nextExpiry(), updatedAt: new Date() })
+      .where(eq(safetySessions.id, session.id));
+  }
+}
@@ -13,9 +13,18 @@ import {
   ScopeLock,
   ScopeAction,
   ScopeViolation,
+  ScopeSymbolRule,
   Contradiction,
   Decision,
 } from '@/lib/safety-types';
+import {
+  findChangedSymbols,
+  isGlob,
+  isSymbolAllowed,
+  matchesGlob,
+  matchPathRules,
+  normalizePath,
+} from '@/lib/scope-rules';
 import { DecisionLogService } from './decision-log-service';
 
 // =============================================================================
@@ -31,7 +40,12 @@ export class ScopeLockService {
     inferredScope: {
       allowedFiles?: string[];
       allowedDirectories?: string[];
+      allowedPatterns?: string[];
       forbiddenFiles?: string[];
+      symbolRules?: ScopeSymbolRule[];
+      maxNewFiles?: number;
+      maxModifiedFiles?: number;
+      maxLinesChanged?: number;
     };
   }): ScopeLock {
     const { userRequest, inferredScope } = params;
@@ -48,6 +62,8 @@ export class ScopeLockService {
       userRequest,
       allowedFiles: inferredScope.allowedFiles || [],
       allowedDirectories: boundaries.directories,
+      allowedPatterns: inferredScope.allowedPatterns || [],
+      symbolRules: inferredScope.symbolRules || [],
       allowedActions,
       forbiddenFiles: [
         ...inferredScope.forbiddenFiles || [],
@@ -65,18 +81,21 @@ export class ScopeLockService {
         '.next/',
         'dist/',
       ],
-      maxNewFiles: boundaries.maxNewFiles,
-      maxModifiedFiles: boundaries.maxModifiedFiles,
+      maxNewFiles: inferredScope.maxNewFiles ?? boundaries.maxNewFiles,
+      maxModifiedFiles: inferredScope.maxModifiedFiles ?? boundaries.maxModifiedFiles,
+      maxLinesChanged: inferredScope.maxLinesChanged ?? null,
       canDeleteFiles: boundaries.canDelete,
       canModifyPackageJson: boundaries.canModifyDeps,
       canModifySchema: boundaries.canModifySchema,
       isActive: true,
+      changes: { createdFiles: [], modifiedFiles: [], linesChanged: 0 },
       violations: [],
     };
   }
 
   /**
-   * Check if an action is allowed within the scope
+   * Check if an action is allowed within the scope.
+   * Pass the edited symbols, or the file before and after, to check symbol rules.
    */
   static checkAction(
     scopeLock: ScopeLock,
@@ -84,134 +103,156 @@ export class ScopeLockService {
       type: ScopeAction;
       targetFile: string;
       details?: string;
+      symbols?: string[];
+      originalContent?: string;
+      newContent?: string;
+      linesChanged?: number;
     }
   ): {
     allowed: boolean;
     reason: string;
     violation?: ScopeViolation;
+    linesChanged?: number;
   } {
-    const { type, targetFile } = action;
+    const { type } = action;
+    const targetFile = normalizePath(action.targetFile);
+
+    const block = (reason: string, rule: ScopeViolation['rule'], file = targetFile) => {
+      const violation: ScopeViolation = {
+        timestamp: new Date().toISOString(),
+        attemptedAction: type,
+        targetFile: file,
+        reason,
+        blocked: true,
+        rule,
+      };
+      return { allowed: false, reason, violation };
+    };
 
     // Check forbidden patterns
     for (const pattern of scopeLock.forbiddenPatterns) {
-      if (targetFile.includes(pattern)) {
-        const violation: ScopeViolation = {
-          timestamp: new Date().toISOString(),
-          attemptedAction: type,
-          targetFile,
-          reason: `File matches forbidden pattern: ${pattern}`,
-          blocked: true,
-        };
-        return {
-          allowed: false,
-          reason: violation.reason,
-          violation,
-        };
+      if (isGlob(pattern) ? matchesGlob(targetFile, pattern) : targetFile.includes(pattern)) {
+        return block(`File matches forbidden pattern: ${pattern}`, { type: 'forbidden-pattern', value: pattern });
       }
     }
 
     // Check forbidden files
     for (const forbidden of scopeLock.forbiddenFiles) {
-      if (targetFile.endsWith(forbidden) || targetFile === forbidden) {
-        const violation: ScopeViolation = {
-          timestamp: new Date().toISOString(),
-          attemptedAction: type,
-          targetFile,
-          reason: `File is explicitly forbidden: ${forbidden}`,
-          blocked: true,
-        };
-        return {
-          allowed: false,
-          reason: violation.reason,
-          violation,
-        };
+      const matches = isGlob(forbidden)
+        ? matchesGlob(targetFile, forbidden)
+        : targetFile.endsWith(forbidden) || targetFile === forbidden;
+      if (matches) {
+        return block(`File is explicitly forbidden: ${forbidden}`, { type: 'forbidden-file', value: forbidden });
       }
     }
 
     // Check action-specific rules
     if (type === 'delete-file' && !scopeLock.canDeleteFiles) {
-      const violation: ScopeViolation = {
-        timestamp: new Date().toISOString(),
-        attemptedAction: type,
-        targetFile,
-        reason: 'File deletion not allowed for this task',
-        blocked: true,
-      };
-      return {
-        allowed: false,
-        reason: violation.reason,
-        violation,
-      };
+      return block('File deletion not allowed for this task', { type: 'delete-files', value: 'canDeleteFiles: false' });
     }
 
-    if (type === 'add-dependency' || type === 'remove-dependency') {
-      if (!scopeLock.canModifyPackageJson) {
-        const violation: ScopeViolation = {
-          timestamp: new Date().toISOString(),
-          attemptedAction: type,
-          targetFile: 'package.json',
-          reason: 'Dependency changes not allowed for this task',
-          blocked: true,
-        };
-        return {
-          allowed: false,
-          reason: violation.reason,
-          violation,
-        };
-      }
+    if ((type === 'add-dependency' || type === 'remove-dependency') && !scopeLock.canModifyPackageJson) {
+      return block(
+        'Dependency changes not allowed for this task',
+        { type: 'dependencies', value: 'canModifyPackageJson: false' },
+        'package.json'
+      );
     }
 
     if (targetFile.includes('schema') && !scopeLock.canModifySchema) {
-      const violation: ScopeViolation = {
-        timestamp: new Date().toISOString(),
-        attemptedAction: type,
-        targetFile,
-        reason: 'Schema modifications not allowed for this task',
-        blocked: true,
-      };
-      return {
-        allowed: false,
-        reason: violation.reason,
-        violation,
-      };
+      return block('Schema modifications not allowed for this task', { type: 'schema', value: 'canModifySchema: false' });
     }
 
     // Check if action type is allowed
     if (!scopeLock.allowedActions.includes(type)) {
-      const violation: ScopeViolation = {
-        timestamp: new Date().toISOString(),
-        attemptedAction: type,
-        targetFile,
-        reason: `Action type "${type}" not in allowed actions`,
-        blocked: true,
-      };
-      return {
-        allowed: false,
-        reason: violation.reason,
-        violation,
-      };
+      return block(`Action type "${type}" not in allowed actions`, { type: 'action-type', value: type });
     }
 
-    // Check if file is in allowed directories
-    const inAllowedDir = scopeLock.allowedDirectories.length === 0 ||
-      scopeLock.allowedDirectories.some(dir => targetFile.startsWith(dir));
+    // Check the path against allowed globs, files and directories
+    const pathBlock = this.checkAllowedPaths(scopeLock, targetFile);
+    if (pathBlock) {
+      return block(pathBlock.reason, { type: 'allowed-paths', value: pathBlock.rule });
+    }
 
-    if (!inAllowedDir && scopeLock.allowedDirectories.length > 0) {
-      const violation: ScopeViolation = {
-        timestamp: new Date().toISOString(),
-        attemptedAction: type,
-        targetFile,
-        reason: `File not in allowed directories: ${scopeLock.allowedDirectories.join(', ')}`,
-        blocked: true,
-      };
-      return {
-        allowed: false,
-        reason: violation.reason,
-        violation,
-      };
+    // Work out what the edit touches when the contents are provided - the
+    // contents win over anything the caller reports about its own edit
+    const changes = action.originalContent !== undefined && action.newContent !== undefined
+      ? findChangedSymbols(action.originalContent, action.newContent, targetFile)
+      : null;
+    const linesChanged = changes?.linesChanged ?? action.linesChanged ?? 0;
+
+    // Check per-symbol boundaries
+    if (type === 'modify-file' || type === 'delete-file') {
+      for (const rule of scopeLock.symbolRules) {
+        if (!this.symbolRuleApplies(rule, targetFile)) continue;
+
+        const ruleValue = `${rule.file}: ${rule.symbols.join(', ')}`;
+        const touched = type === 'delete-file' ? null : changes?.symbols ?? action.symbols;
+
+        if (!touched) {
+          return block(
+            type === 'delete-file'
+              ? `Only ${rule.symbols.join(', ')} may change in ${rule.file}`
+              : `Only ${rule.symbols.join(', ')} may change in ${rule.file} - pass the symbols being edited or the file contents`,
+            { type: 'symbols', value: ruleValue }
+          );
+        }
+
+        const outside = touched.filter((symbol) => !isSymbolAllowed(symbol, rule.symbols));
+        if (outside.length > 0) {
+          return block(`Edit touches ${outside.join(', ')} - only ${rule.symbols.join(', ')} may change in ${rule.file}`, {
+            type: 'symbols',
+            value: ruleValue,
+          });
+        }
+        if (changes?.outsideSymbols) {
+          return block(`Edit changes code outside ${rule.symbols.join(', ')} in ${rule.file}`, {
+            type: 'symbols',
+            value: ruleValue,
+          });
+        }
+      }
     }
 
-    return { allowed: true, reason: 'Action permitted within scope' };
+    // Check caps on files and lines changed so far
+    const { createdFiles, modifiedFiles } = scopeLock.changes;
+    if (type === 'create-file' && !createdFiles.includes(targetFile) && createdFiles.length >= scopeLock.maxNewFiles) {
+      return block(`Already created ${createdFiles.length} files (limit ${scopeLock.maxNewFiles})`, {
+        type: 'max-new-files',
+        value: String(scopeLock.maxNewFiles),
+      });
+    }
+    if (type === 'modify-file' && !modifiedFiles.includes(targetFile) && modifiedFiles.length >= scopeLock.maxModifiedFiles) {
+      return block(`Already modified ${modifiedFiles.length} files (limit ${scopeLock.maxModifiedFiles})`, {
+        type: 'max-modified-files',
+        value: String(scopeLock.maxModifiedFiles),
+      });
+    }
+    if (scopeLock.maxLinesChanged !== null && scopeLock.changes.linesChanged + linesChanged > scopeLock.maxLinesChanged) {
+      return block(
+        `Change of ${linesChanged} lines would exceed the ${scopeLock.maxLinesChanged} line limit (${scopeLock.changes.linesChanged} used)`,
+        { type: 'max-lines', value: String(scopeLock.maxLinesChanged) }
+      );
+    }
+
+    return { allowed: true, reason: 'Action permitted within scope', linesChanged };
+  }
+
+  /**
+   * Count an allowed action toward the lock's file and line caps
+   */
+  static recordChange(
+    scopeLock: ScopeLock,
+    change: { type: ScopeAction; targetFile: string; linesChanged?: number }
+  ): void {
+    const file = normalizePath(change.targetFile);
+    if (change.type === 'create-file' && !scopeLock.changes.createdFiles.includes(file)) {
+      scopeLock.changes.createdFiles.push(file);
+    }
+    if (change.type === 'modify-file' && !scopeLock.changes.modifiedFiles.includes(file)) {
+      scopeLock.changes.modifiedFiles.push(file);
+    }
+    scopeLock.changes.linesChanged += change.linesChanged || 0;
   }
 
   /**
@@ -219,9 +260,10 @@ export class ScopeLockService {
    */
   static checkContradiction(
     proposedAction: string,
-    existingDecisions: Decision[]
+    existingDecisions: Decision[],
+    targetFile?: string
   ): Contradiction | null {
-    const result = DecisionLogService.checkContradiction(proposedAction, existingDecisions);
+    const result = DecisionLogService.checkContradiction(proposedAction, existingDecisions, { targetFile });
 
     if (result.hasContradiction && result.conflictingDecision) {
       return {
@@ -231,6 +273,9 @@ export class ScopeLockService {
                   result.conflictingDecision.impact === 'high' ? 'error' : 'warning',
         explanation: result.explanation,
         resolution: { type: 'cancel', reason: result.explanation },
+        subject: result.subject,
+        suggestion: result.suggestion,
+        affectedFiles: result.affectedFiles,
       };
     }
 
@@ -249,8 +294,11 @@ export class ScopeLockService {
       '### Allowed',
       `- Actions: ${scopeLock.allowedActions.join(', ')}`,
       `- Directories: ${scopeLock.allowedDirectories.length > 0 ? scopeLock.allowedDirectories.join(', ') : 'Any'}`,
+      ...(scopeLock.allowedPatterns.length > 0 ? [`- Paths: ${scopeLock.allowedPatterns.join(', ')}`] : []),
+      ...scopeLock.symbolRules.map((rule) => `- In ${rule.file}: only ${rule.symbols.join(', ')}`),
       `- Max new files: ${scopeLock.maxNewFiles}`,
       `- Max modified files: ${scopeLock.maxModifiedFiles}`,
+      ...(scopeLock.maxLinesChanged !== null ? [`- Max lines changed: ${scopeLock.maxLinesChanged}`] : []),
       '',
       '### Forbidden',
       `- Files: ${scopeLock.forbiddenFiles.join(', ')}`,
@@ -263,7 +311,7 @@ export class ScopeLockService {
       lines.push('');
       lines.push('### Violations');
       scopeLock.violations.forEach(v => {
-        lines.push(`- ❌ ${v.attemptedAction} on ${v.targetFile}: ${v.reason}`);
+        lines.push(`- ❌ ${v.attemptedAction} on ${v.targetFile}: ${v.reason}${v.rule ? ` [${v.rule.type}: ${v.rule.value}]` : ''}`);
       });
     }
 
@@ -274,6 +322,36 @@ export class ScopeLockService {
   // PRIVATE HELPERS
   // =============================================================================
 
+  /**
+   * Allowed globs decide first (last match wins); otherwise the file must be
+   * listed or sit in an allowed directory, if any are set
+   */
+  private static checkAllowedPaths(scopeLock: ScopeLock, targetFile: string): { reason: string; rule: string } | null {
+    const globMatch = matchPathRules(targetFile, scopeLock.allowedPatterns);
+    if (globMatch) {
+      return globMatch.allowed ? null : { reason: `File excluded by pattern: ${globMatch.rule}`, rule: globMatch.rule };
+    }
+
+    const positivePatterns = scopeLock.allowedPatterns.filter((pattern) => !pattern.startsWith('!'));
+    const hasPathRules = positivePatterns.length > 0 ||
+      scopeLock.allowedFiles.length > 0 ||
+      scopeLock.allowedDirectories.length > 0;
+    if (!hasPathRules) return null;
+
+    if (scopeLock.allowedFiles.some((file) => normalizePath(file) === targetFile)) return null;
+    if (scopeLock.allowedDirectories.some((dir) => targetFile.startsWith(normalizePath(dir)))) return null;
+
+    const allowed = [...positivePatterns, ...scopeLock.allowedFiles, ...scopeLock.allowedDirectories];
+    return { reason: `File not in allowed paths: ${allowed.join(', ')}`, rule: allowed.join(', ') };
+  }
+
+  private static symbolRuleApplies(rule: ScopeSymbolRule, targetFile: string): boolean {
+    const file = normalizePath(rule.file);
+    return isGlob(file)
+      ? matchesGlob(targetFile, file)
+      : targetFile === file || targetFile.endsWith(`/${file}`);
+  }
+
   private static inferAllowedActions(request: string): ScopeAction[] {
     const lower = request.toLowerCase();
     const actions: ScopeAction[] = [];
@@ -381,6 +459,13 @@ export const ScopeLockCache = {
     }
   },
 
+  recordChange: (sessionId: string, change: { type: ScopeAction; targetFile: string; linesChanged?: number }): void => {
+    const lock = scopeLockCache.get(sessionId);
+    if (lock) {
+      ScopeLockService.recordChange(lock, change);
+    }
+  },
+
   clear: (sessionId: string): void => {
     scopeLockCache.delete(sessionId);
   },
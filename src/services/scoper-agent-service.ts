@@ -391,7 +391,7 @@ Output JSON only, no explanation:
 // SCOPING SESSION CACHE
 // =============================================================================
 
-interface ScopingSession {
+export interface ScopingSession {
   sessionId: string;
   userInput: string;
   scores: ConfidenceScore[];
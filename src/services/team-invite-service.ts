@@ -1,6 +1,8 @@
 import { db, teamInvites, teamMembers, teams, profiles } from '@/db';
 import { eq, and, gt, isNull } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
+import { PlanLimitError } from '@/lib/errors';
+import { getSeatLimitReason } from '@/lib/metering';
 
 export interface TeamInviteResult {
   id: string;
@@ -28,6 +30,16 @@ export interface TeamMemberInfo {
   joinedAt: Date | null;
 }
 
+export interface SeatUsage {
+  limit: number | null;
+  members: number;
+  pendingInvites: number;
+  available: number | null; // null = unlimited
+  overLimit: boolean; // More members than seats, e.g. after a downgrade
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export class TeamInviteService {
   /**
    * Create a new team invite
@@ -80,24 +92,6 @@ export class TeamInviteService {
       }
     }
 
-    // Check seat limit
-    const team = await db
-      .select({ seatLimit: teams.seatLimit })
-      .from(teams)
-      .where(eq(teams.id, teamId))
-      .limit(1);
-
-    if (team.length === 0) {
-      throw new Error('Team not found');
-    }
-
-    const currentMemberCount = await this.getMemberCount(teamId);
-    const pendingInviteCount = await this.getPendingInviteCount(teamId);
-
-    if (team[0].seatLimit && currentMemberCount + pendingInviteCount >= team[0].seatLimit) {
-      throw new Error('Team seat limit reached. Upgrade your plan for more seats.');
-    }
-
     // Generate invite token
     const token = randomBytes(32).toString('hex');
 
@@ -105,17 +99,41 @@ export class TeamInviteService {
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 7);
 
-    const [invite] = await db
-      .insert(teamInvites)
-      .values({
-        teamId,
-        email: email.toLowerCase(),
-        role,
-        invitedBy,
-        expiresAt,
-        token,
-      })
-      .returning();
+    // Check seat limit. Locking the team row stops two invites sent at the
+    // same time from both taking the last seat.
+    const invite = await db.transaction(async (tx) => {
+      const [team] = await tx
+        .select({ seatLimit: teams.seatLimit })
+        .from(teams)
+        .where(eq(teams.id, teamId))
+        .for('update');
+
+      if (!team) {
+        throw new Error('Team not found');
+      }
+
+      const currentMemberCount = await this.getMemberCount(teamId, tx);
+      const pendingInviteCount = await this.getPendingInviteCount(teamId, tx);
+
+      const seatLimitReason = getSeatLimitReason(team.seatLimit, currentMemberCount, pendingInviteCount);
+      if (seatLimitReason) {
+        throw new PlanLimitError(seatLimitReason, team.seatLimit!, currentMemberCount + pendingInviteCount);
+      }
+
+      const [inserted] = await tx
+        .insert(teamInvites)
+        .values({
+          teamId,
+          email: email.toLowerCase(),
+          role,
+          invitedBy,
+          expiresAt,
+          token,
+        })
+        .returning();
+
+      return inserted;
+    });
 
     return {
       id: invite.id,
@@ -171,19 +189,43 @@ export class TeamInviteService {
       throw new Error('This invite was sent to a different email address');
     }
 
-    // Add user to team
-    await db.insert(teamMembers).values({
-      teamId: invite.teamId,
-      userId,
-      role: invite.role,
-      joinedAt: new Date(),
-    });
+    // Re-check seats: the plan may have been downgraded since the invite was
+    // sent. Locking the team row stops two invites accepted at the same time
+    // from both taking the last seat.
+    await db.transaction(async (tx) => {
+      const [team] = await tx
+        .select({ seatLimit: teams.seatLimit })
+        .from(teams)
+        .where(eq(teams.id, invite.teamId))
+        .for('update');
+
+      const members = await tx
+        .select({ id: teamMembers.id })
+        .from(teamMembers)
+        .where(eq(teamMembers.teamId, invite.teamId));
+
+      if (getSeatLimitReason(team?.seatLimit ?? null, members.length, 0)) {
+        throw new PlanLimitError(
+          `${invite.teamName} has no free seats left. Ask the team owner to upgrade their plan.`,
+          team.seatLimit!,
+          members.length
+        );
+      }
 
-    // Mark invite as accepted
-    await db
-      .update(teamInvites)
-      .set({ acceptedAt: new Date() })
-      .where(eq(teamInvites.id, invite.id));
+      // Add user to team
+      await tx.insert(teamMembers).values({
+        teamId: invite.teamId,
+        userId,
+        role: invite.role,
+        joinedAt: new Date(),
+      });
+
+      // Mark invite as accepted
+      await tx
+        .update(teamInvites)
+        .set({ acceptedAt: new Date() })
+        .where(eq(teamInvites.id, invite.id));
+    });
 
     return {
       teamId: invite.teamId,
@@ -340,11 +382,29 @@ export class TeamInviteService {
       .where(and(eq(teamMembers.id, memberId), eq(teamMembers.teamId, teamId)));
   }
 
+  /**
+   * Seats taken by members and pending invites
+   */
+  static async getSeatUsage(teamId: string, seatLimit: number | null): Promise<SeatUsage> {
+    const [members, pendingInvites] = await Promise.all([
+      this.getMemberCount(teamId),
+      this.getPendingInviteCount(teamId),
+    ]);
+
+    return {
+      limit: seatLimit,
+      members,
+      pendingInvites,
+      available: seatLimit ? Math.max(0, seatLimit - members - pendingInvites) : null,
+      overLimit: !!seatLimit && members > seatLimit,
+    };
+  }
+
   /**
    * Get member count for a team
    */
-  private static async getMemberCount(teamId: string): Promise<number> {
-    const result = await db
+  private static async getMemberCount(teamId: string, executor: Tx | typeof db = db): Promise<number> {
+    const result = await executor
       .select({ userId: teamMembers.userId })
       .from(teamMembers)
       .where(eq(teamMembers.teamId, teamId));
@@ -355,8 +415,8 @@ export class TeamInviteService {
   /**
    * Get pending invite count for a team
    */
-  private static async getPendingInviteCount(teamId: string): Promise<number> {
-    const result = await db
+  private static async getPendingInviteCount(teamId: string, executor: Tx | typeof db = db): Promise<number> {
+    const result = await executor
       .select({ id: teamInvites.id })
       .from(teamInvites)
       .where(
@@ -1,4 +1,4 @@
-import { db, teams, teamMembers, profiles, PaymentProvider } from '@/db';
+import { db, teams, teamMembers } from '@/db';
 import { eq, sql } from 'drizzle-orm';
 import { ApiKeyService } from './api-key-service';
 import { TRIAL } from '@/lib/constants';
@@ -166,51 +166,6 @@ export class TeamService {
     return team;
   }
 
-  /**
-   * Generic subscription update (provider-agnostic)
-   */
-  static async updateSubscription(
-    teamId: string,
-    provider: PaymentProvider,
-    data: {
-      subscriptionId: string;
-      customerId?: string;
-      subscriptionStatus: string;
-      subscriptionPlan: 'pro' | 'team' | 'agency';
-      seatLimit: number;
-    }
-  ) {
-    const updateData: Record<string, unknown> = {
-      paymentProvider: provider,
-      subscriptionStatus: data.subscriptionStatus,
-      subscriptionPlan: data.subscriptionPlan,
-      seatLimit: data.seatLimit,
-      updatedAt: new Date(),
-    };
-
-    switch (provider) {
-      case 'stripe':
-        updateData.stripeSubscriptionId = data.subscriptionId;
-        if (data.customerId) updateData.stripeCustomerId = data.customerId;
-        break;
-      case 'square':
-        updateData.squareSubscriptionId = data.subscriptionId;
-        if (data.customerId) updateData.squareCustomerId = data.customerId;
-        break;
-      case 'paypal':
-        updateData.paypalSubscriptionId = data.subscriptionId;
-        break;
-    }
-
-    const [team] = await db
-      .update(teams)
-      .set(updateData)
-      .where(eq(teams.id, teamId))
-      .returning();
-
-    return team;
-  }
-
   /**
    * Cancel subscription (clear provider-specific fields)
    */
@@ -228,6 +183,19 @@ export class TeamService {
     return team;
   }
 
+  /**
+   * Get team by Stripe customer ID
+   */
+  static async getByStripeCustomerId(customerId: string) {
+    const [team] = await db
+      .select()
+      .from(teams)
+      .where(eq(teams.stripeCustomerId, customerId))
+      .limit(1);
+
+    return team;
+  }
+
   /**
    * Get team by Square customer ID
    */
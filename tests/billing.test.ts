@@ -1,4 +1,29 @@
 import { test, expect } from '@playwright/test';
+import {
+  fromPayPalEvent,
+  fromSquareEvent,
+  isForReplacedSubscription,
+  isStaleEvent,
+  normalizeSubscriptionStatus,
+  shouldRedrive,
+  transitionSubscription,
+} from '../src/lib/billing-events';
+import {
+  TeamBillingRecord,
+  createInMemoryBillingClient,
+  findBillingDrift,
+} from '../src/lib/billing-reconciliation';
+import {
+  getQuotaExceededReason,
+  getQuotaStatus,
+  getSeatLimitReason,
+  usagePeriod,
+} from '../src/lib/metering';
+import {
+  getPlanChangeDirection,
+  selectSurvivors,
+  validateDowngradeSelection,
+} from '../src/lib/plan-change';
 
 test.describe('Billing & Payments', () => {
   test.describe('Billing Page (protected)', () => {
@@ -109,4 +134,250 @@ test.describe('Billing & Payments', () => {
       expect(response.status()).toBe(401);
     });
   });
+
+  test.describe('Billing Event Pipeline', () => {
+    test('should normalize provider statuses', () => {
+      expect(normalizeSubscriptionStatus('unpaid')).toBe('past_due');
+      expect(normalizeSubscriptionStatus('CANCELLED')).toBe('canceled');
+      expect(normalizeSubscriptionStatus('APPROVAL_PENDING')).toBe('pending');
+      expect(normalizeSubscriptionStatus('something_new')).toBeNull();
+    });
+
+    test('should not let late payment events revive a canceled subscription', () => {
+      expect(transitionSubscription('canceled', { type: 'payment_failed' }).to).toBe('canceled');
+      expect(transitionSubscription('canceled', { type: 'subscription_updated', status: 'active' }).to).toBe('canceled');
+      expect(transitionSubscription('canceled', { type: 'subscription_activated' }).to).toBe('active');
+    });
+
+    test('should settle past-due subscriptions on payment', () => {
+      const failed = transitionSubscription('active', { type: 'payment_failed' });
+      expect(failed).toEqual({ from: 'active', to: 'past_due', changed: true });
+      expect(transitionSubscription(failed.to, { type: 'invoice_paid' }).to).toBe('active');
+      expect(transitionSubscription('active', { type: 'payment_refunded' }).changed).toBe(false);
+    });
+
+    test('should treat events older than the last applied one as stale', () => {
+      const applied = new Date('2026-03-01T10:00:00Z');
+      expect(isStaleEvent(new Date('2026-03-01T09:59:59Z'), applied)).toBe(true);
+      expect(isStaleEvent(applied, applied)).toBe(false);
+      expect(isStaleEvent(applied, null)).toBe(false);
+    });
+
+    test('should re-drive failed events and abandoned pending ones', () => {
+      const now = new Date('2026-03-01T10:00:00Z');
+      expect(shouldRedrive('failed', now, now)).toBe(true);
+      expect(shouldRedrive('pending', new Date('2026-03-01T09:59:00Z'), now)).toBe(false);
+      expect(shouldRedrive('pending', new Date('2026-03-01T09:50:00Z'), now)).toBe(true);
+      expect(shouldRedrive('applied', new Date('2026-03-01T09:00:00Z'), now)).toBe(false);
+      expect(shouldRedrive('stale', new Date('2026-03-01T09:00:00Z'), now)).toBe(false);
+    });
+
+    test('should ignore late events for a subscription the team replaced', () => {
+      const onPayPal = {
+        paymentProvider: 'paypal' as const,
+        stripeSubscriptionId: null,
+        squareSubscriptionId: null,
+        paypalSubscriptionId: 'I-OLD',
+      };
+      expect(isForReplacedSubscription(onPayPal, { type: 'subscription_cancelled', provider: 'paypal', subscriptionId: 'I-OLD' })).toBe(false);
+      expect(isForReplacedSubscription(onPayPal, { type: 'subscription_cancelled', provider: 'paypal', subscriptionId: 'I-OLDER' })).toBe(true);
+
+      // Moving to Stripe keeps the old PayPal ID around
+      expect(isForReplacedSubscription(onPayPal, { type: 'subscription_activated', provider: 'stripe', subscriptionId: 'sub_new' })).toBe(false);
+      const onStripe = { ...onPayPal, paymentProvider: 'stripe' as const, stripeSubscriptionId: 'sub_new' };
+
+      for (const type of ['subscription_cancelled', 'subscription_suspended', 'payment_failed'] as const) {
+        expect(isForReplacedSubscription(onStripe, { type, provider: 'paypal', subscriptionId: 'I-OLD' })).toBe(true);
+      }
+      expect(isForReplacedSubscription(onStripe, { type: 'subscription_updated', provider: 'stripe', subscriptionId: 'sub_new' })).toBe(false);
+      // Moving back starts a new subscription, which always applies
+      expect(isForReplacedSubscription(onStripe, { type: 'subscription_activated', provider: 'paypal', subscriptionId: 'I-NEW' })).toBe(false);
+    });
+
+    test('should key provider events for idempotency', () => {
+      const square = fromSquareEvent({
+        merchant_id: 'M1',
+        type: 'subscription.canceled',
+        event_id: 'sq-evt-1',
+        created_at: '2026-03-01T10:00:00Z',
+        data: { type: 'subscription', id: 'sub-1', object: { subscription: { id: 'sub-1', customer_id: 'cust-1', status: 'CANCELED' } } },
+      });
+      expect(square).toMatchObject({ idempotencyKey: 'square:sq-evt-1', type: 'subscription_cancelled', customerId: 'cust-1' });
+
+      const sale = fromPayPalEvent({
+        id: 'WH-1',
+        event_type: 'PAYMENT.SALE.COMPLETED',
+        resource_type: 'sale',
+        resource: { id: 'SALE-1', billing_agreement_id: 'I-SUB1', amount: { total: '49.00', currency: 'USD' } },
+        summary: 'Payment completed',
+        create_time: '2026-03-01T10:00:00Z',
+      });
+      expect(sale).toMatchObject({ idempotencyKey: 'paypal:WH-1', subscriptionId: 'I-SUB1', amount: 4900 });
+
+      expect(fromSquareEvent({
+        merchant_id: 'M1', type: 'customer.created', event_id: 'x', created_at: '2026-03-01T10:00:00Z',
+        data: { type: 'customer', id: 'c', object: {} },
+      })).toBeNull();
+    });
+  });
+
+  test.describe('Billing Reconciliation', () => {
+    const team = (overrides: Partial<TeamBillingRecord> = {}): TeamBillingRecord => ({
+      id: 'team-1',
+      name: 'Acme',
+      paymentProvider: 'stripe',
+      subscriptionStatus: 'active',
+      subscriptionPlan: 'pro',
+      stripeCustomerId: 'cus_1',
+      stripeSubscriptionId: 'sub_1',
+      squareCustomerId: null,
+      squareSubscriptionId: null,
+      paypalSubscriptionId: null,
+      ...overrides,
+    });
+    const subscription = (overrides: Record<string, unknown> = {}) => ({
+      provider: 'stripe' as const,
+      subscriptionId: 'sub_1',
+      customerId: 'cus_1',
+      teamId: null,
+      status: 'active' as const,
+      providerStatus: 'active',
+      providerPlanId: 'price_pro',
+      ...overrides,
+    });
+    const drift = (teams: TeamBillingRecord[], subscriptions: ReturnType<typeof subscription>[], failed: string[] = []) =>
+      findBillingDrift({
+        teams,
+        subscriptions,
+        missing: [],
+        teamsWithFailedEvents: new Set(failed),
+        planForProviderPlanId: (id) => (id === 'price_team' ? 'team' : id === 'price_pro' ? 'pro' : undefined),
+      });
+
+    test('should report nothing when team and provider agree', () => {
+      expect(drift([team()], [subscription()])).toEqual([]);
+    });
+
+    test('should correct a status mismatch on the linked subscription', () => {
+      const [item] = drift([team()], [subscription({ status: 'canceled', providerStatus: 'canceled' })]);
+      expect(item).toMatchObject({ kind: 'status_mismatch', safe: true, correction: { subscriptionStatus: 'canceled' } });
+    });
+
+    test('should hold corrections for review while the team has failed events', () => {
+      const [item] = drift([team()], [subscription({ status: 'past_due', providerStatus: 'past_due' })], ['team-1']);
+      expect(item).toMatchObject({ kind: 'status_mismatch', safe: false });
+      expect(item.reason).toContain('failed billing events');
+    });
+
+    test('should link a live subscription the team does not reference', () => {
+      const [item] = drift([team({ stripeSubscriptionId: null, subscriptionStatus: 'inactive' })], [subscription()]);
+      expect(item).toMatchObject({ kind: 'unlinked_subscription', safe: true, correction: { subscriptionId: 'sub_1', subscriptionStatus: 'active' } });
+    });
+
+    test('should send duplicates, unknown subscriptions and plan changes to review', () => {
+      const items = drift([team()], [
+        subscription({ subscriptionId: 'sub_2' }),
+        subscription({ subscriptionId: 'sub_3', customerId: 'cus_other' }),
+        subscription({ providerPlanId: 'price_team' }),
+      ]);
+      expect(items.map((item) => item.kind).sort()).toEqual(['duplicate_subscription', 'plan_mismatch', 'unknown_subscription']);
+      expect(items.every((item) => !item.safe)).toBe(true);
+    });
+
+    test('should page through an in-memory provider client', async () => {
+      const client = createInMemoryBillingClient('square', [
+        { subscriptionId: 'sq-1', customerId: 'c1', teamId: null, status: 'active', providerStatus: 'ACTIVE', providerPlanId: null },
+        { subscriptionId: 'sq-2', customerId: 'c2', teamId: null, status: 'canceled', providerStatus: 'CANCELED', providerPlanId: null },
+        { subscriptionId: 'sq-3', customerId: 'c3', teamId: null, status: 'active', providerStatus: 'ACTIVE', providerPlanId: null },
+      ], { pageSize: 2 });
+
+      const first = await client.listSubscriptions!(null);
+      const second = await client.listSubscriptions!(first.nextCursor);
+      expect(first.subscriptions).toHaveLength(2);
+      expect(second).toMatchObject({ nextCursor: null, subscriptions: [{ provider: 'square', subscriptionId: 'sq-3' }] });
+      expect(await client.getSubscription('missing')).toBeNull();
+    });
+  });
+
+  test.describe('Seats and Usage Metering', () => {
+    const quotas = { patternFetches: 100, engineeringSessions: 2, tokens: null };
+    const usage = { patternFetches: 97, engineeringSessions: 2, tokens: 1_500_000 };
+
+    test('should count pending invites against the seat limit', () => {
+      expect(getSeatLimitReason(5, 3, 1)).toBeNull();
+      expect(getSeatLimitReason(5, 3, 2)).toContain('3 members and 2 pending invites');
+      expect(getSeatLimitReason(null, 40, 10)).toBeNull();
+    });
+
+    test('should block accepting an invite once members fill every seat', () => {
+      expect(getSeatLimitReason(1, 1, 0)).toContain('includes 1 seat ');
+    });
+
+    test('should report usage against each plan quota', () => {
+      const status = getQuotaStatus(quotas, usage);
+
+      expect(status.find((q) => q.meter === 'patternFetches')).toMatchObject({ remaining: 3, percentUsed: 97, exceeded: false });
+      expect(status.find((q) => q.meter === 'engineeringSessions')).toMatchObject({ remaining: 0, exceeded: true });
+      expect(status.find((q) => q.meter === 'tokens')).toMatchObject({ limit: null, remaining: null, exceeded: false });
+    });
+
+    test('should refuse usage that would go over a quota', () => {
+      expect(getQuotaExceededReason(quotas, usage, 'patternFetches', 3)).toBeNull();
+      expect(getQuotaExceededReason(quotas, usage, 'patternFetches', 5)).toContain('quota of 100 reached');
+      expect(getQuotaExceededReason(quotas, usage, 'engineeringSessions')).not.toBeNull();
+      expect(getQuotaExceededReason(quotas, usage, 'tokens', 10_000_000)).toBeNull();
+    });
+
+    test('should meter by calendar month', () => {
+      const { start, end } = usagePeriod(new Date(2026, 1, 14, 12));
+      expect(start).toEqual(new Date(2026, 1, 1));
+      expect(end).toEqual(new Date(2026, 2, 1));
+    });
+  });
+
+  test.describe('Plan Changes', () => {
+    const team = {
+      seats: 1,
+      ownerMemberId: 'owner',
+      memberIds: ['owner', 'm1', 'm2', 'm3', 'm4'],
+      activeApiKeyIds: ['k1', 'k2'],
+    };
+
+    test('should order plans from pro to agency', () => {
+      expect(getPlanChangeDirection('pro', 'team')).toBe('upgrade');
+      expect(getPlanChangeDirection('team', 'pro')).toBe('downgrade');
+      expect(getPlanChangeDirection('agency', 'agency')).toBe('none');
+    });
+
+    test('should require choosing members and keys when downgrading a full team', () => {
+      const errors = validateDowngradeSelection(team, {});
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toContain('choose which of your 5 members');
+
+      expect(validateDowngradeSelection(team, { keepMemberIds: ['owner'], keepApiKeyIds: ['k2'] })).toEqual([]);
+    });
+
+    test('should reject selections that drop the owner or exceed the new plan', () => {
+      const errors = validateDowngradeSelection(team, { keepMemberIds: ['m1', 'm2'], keepApiKeyIds: ['k1', 'other'] });
+      expect(errors).toContain('The team owner must be kept');
+      expect(errors).toContain('Keep at most 1 member');
+      expect(errors).toContain('Some selected API keys are not active keys of this team');
+    });
+
+    test('should not ask for a selection when everything fits', () => {
+      expect(validateDowngradeSelection({ ...team, seats: 5, activeApiKeyIds: ['k1'] }, {})).toEqual([]);
+    });
+
+    test('should keep the selection plus required members when applying', () => {
+      expect(selectSurvivors(team.memberIds, 3, ['m3', 'm1'], ['owner'])).toEqual({
+        keep: ['owner', 'm3', 'm1'],
+        remove: ['m2', 'm4'],
+      });
+      // Members who left since the selection are ignored; nobody is added in their place
+      expect(selectSurvivors(team.memberIds, 3, ['gone', 'm2'], ['owner']).keep).toEqual(['owner', 'm2']);
+      // Without a selection the first candidates are kept
+      expect(selectSurvivors(['k1', 'k2', 'k3'], 2, null).remove).toEqual(['k3']);
+      expect(selectSurvivors(['k1'], 2, []).remove).toEqual([]);
+    });
+  });
 });
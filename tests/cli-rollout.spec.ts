@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import {
+  RolloutCandidate,
+  getHaltReason,
+  isInCliRollout,
+  meetsNodeVersion,
+  parseFeatureFlags,
+  resolveCliVersion,
+} from '../src/lib/cli-rollout';
+
+const TEAMS = Array.from({ length: 200 }, (_, i) => `team:${i}`);
+
+function version(overrides: Partial<RolloutCandidate>): RolloutCandidate {
+  return {
+    version: '3.9.0',
+    status: 'stable',
+    isAutoUpdateEnabled: true,
+    rolloutPercent: 100,
+    minNodeVersion: '18',
+    haltedAt: null,
+    ...overrides,
+  };
+}
+
+test.describe('CLI Rollouts', () => {
+  test('cohorts are stable and widening a rollout only adds clients', () => {
+    const at10 = TEAMS.filter((key) => isInCliRollout({ version: '3.10.0', rolloutPercent: 10 }, key));
+    const at50 = TEAMS.filter((key) => isInCliRollout({ version: '3.10.0', rolloutPercent: 50 }, key));
+
+    expect(at10.length).toBeGreaterThan(0);
+    expect(at50.length).toBeGreaterThan(at10.length);
+    expect(at10.every((key) => at50.includes(key))).toBe(true);
+    expect(isInCliRollout({ version: '3.10.0', rolloutPercent: 99 }, null)).toBe(false);
+  });
+
+  test('resolves the newest version rolled out to the client', () => {
+    const versions = [
+      version({ version: '3.9.0' }),
+      version({ version: '3.10.0', rolloutPercent: 30 }),
+      version({ version: '3.11.0', status: 'testing' }),
+    ];
+
+    const resolved = TEAMS.map((key) => resolveCliVersion(versions, { teamId: key })?.version);
+    expect(new Set(resolved)).toEqual(new Set(['3.9.0', '3.10.0']));
+
+    // Every machine of a team lands in the same cohort
+    const team = resolveCliVersion(versions, { teamId: 'team-1', deviceHash: 'a' });
+    expect(resolveCliVersion(versions, { teamId: 'team-1', deviceHash: 'b' })).toBe(team);
+  });
+
+  test('skips halted versions and versions the client can not run', () => {
+    const versions = [version({ version: '3.9.0' }), version({ version: '3.10.0', minNodeVersion: '20' })];
+
+    expect(resolveCliVersion(versions, { nodeVersion: '18.19.0' })?.version).toBe('3.9.0');
+    expect(resolveCliVersion(versions, { nodeVersion: '20.11.1' })?.version).toBe('3.10.0');
+    expect(resolveCliVersion([version({ haltedAt: new Date() })], {})).toBeNull();
+  });
+
+  test('compares Node.js versions', () => {
+    expect(meetsNodeVersion('18.19.0', '18')).toBe(true);
+    expect(meetsNodeVersion('v16.20.2', '18')).toBe(false);
+    expect(meetsNodeVersion(null, '18')).toBe(true);
+  });
+
+  test('reads feature flags from JSON or a list', () => {
+    expect(parseFeatureFlags('["mcp-v2","fast-sync"]')).toEqual(['mcp-v2', 'fast-sync']);
+    expect(parseFeatureFlags('- mcp-v2\n- fast-sync')).toEqual(['mcp-v2', 'fast-sync']);
+    expect(parseFeatureFlags(null)).toEqual([]);
+  });
+
+  test('halts when the error rate spikes past the previous version', () => {
+    expect(getHaltReason({ installs: 40, erroringInstalls: 8 }, { installs: 400, erroringInstalls: 8 }))
+      .toBe('20.0% of clients reported errors (8 of 40), against 2.0% on the previous version');
+    expect(getHaltReason({ installs: 40, erroringInstalls: 8 }, { installs: 100, erroringInstalls: 15 })).toBeNull();
+    expect(getHaltReason({ installs: 5, erroringInstalls: 3 }, null)).toBeNull();
+    expect(getHaltReason({ installs: 100, erroringInstalls: 2 }, null)).toBeNull();
+  });
+});
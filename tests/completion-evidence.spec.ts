@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+import {
+  evaluateCompletionEvidence,
+  parseJUnit,
+  parsePlaywrightReport,
+  parseCoverageSummary,
+  parseTscOutput,
+} from '../src/lib/completion-evidence';
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="vitest tests" tests="3" failures="1" errors="0">
+  <testsuite name="src/lib/invite.test.ts" tests="3" failures="1" skipped="1">
+    <testcase classname="src/lib/invite.test.ts" name="creates an invite" time="0.01"></testcase>
+    <testcase classname="src/lib/invite.test.ts" name="rejects expired invites" time="0.02">
+      <failure message="expected 410 to be 404"></failure>
+    </testcase>
+    <testcase classname="src/lib/invite.test.ts" name="resends" time="0"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+const CLEAN_TSC = { output: '', exitCode: 0 };
+
+test.describe('Completion Evidence', () => {
+  test('parses JUnit counts, failures and test files', () => {
+    const tests = parseJUnit(JUNIT);
+
+    expect(tests).toMatchObject({ total: 3, passed: 1, failed: 1, skipped: 1 });
+    expect(tests.files).toContain('src/lib/invite.test.ts');
+    expect(tests.failures[0]).toMatchObject({ name: 'rejects expired invites', message: 'expected 410 to be 404' });
+  });
+
+  test('flags Playwright stats that do not match the listed tests', () => {
+    const { tests, issues } = parsePlaywrightReport({
+      suites: [{
+        file: 'tests/invite.spec.ts',
+        specs: [{ title: 'accepts invite', tests: [{ status: 'unexpected', results: [{ error: { message: 'timeout' } }] }] }],
+      }],
+      stats: { expected: 1, unexpected: 0, skipped: 0 },
+    });
+
+    expect(tests.failed).toBe(1);
+    expect(issues.map((issue) => issue.type)).toContain('TEST_REPORT_INCONSISTENT');
+  });
+
+  test('rejects tsc output that disagrees with its exit code', () => {
+    const passing = parseTscOutput("src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.", 0);
+    expect(passing.typescript.passed).toBe(false);
+    expect(passing.issues[0].type).toBe('TYPESCRIPT_OUTPUT_INCONSISTENT');
+
+    const silent = parseTscOutput('', 2);
+    expect(silent.issues[0].type).toBe('TYPESCRIPT_OUTPUT_INCONSISTENT');
+  });
+
+  test('flags a coverage total that does not add up', () => {
+    const { issues } = parseCoverageSummary({
+      total: { lines: { total: 100, covered: 95 } },
+      'src/lib/invite.ts': { lines: { total: 40, covered: 10 } },
+    });
+
+    expect(issues.map((issue) => issue.type)).toContain('COVERAGE_INCONSISTENT');
+  });
+
+  test('fails the gate without test or TypeScript evidence', () => {
+    const report = evaluateCompletionEvidence(undefined, { filesModified: ['src/lib/invite.ts'] });
+    const errors = report.issues.filter((issue) => issue.severity === 'error').map((issue) => issue.type);
+
+    expect(errors).toEqual(expect.arrayContaining(['MISSING_TEST_EVIDENCE', 'MISSING_TYPESCRIPT_EVIDENCE']));
+  });
+
+  test('checks claimed test files and modified files against the reports', () => {
+    const report = evaluateCompletionEvidence(
+      {
+        junit: JUNIT.replace(/<failure[^>]*><\/failure>/, ''),
+        typescript: CLEAN_TSC,
+        lcov: 'SF:/work/app/src/lib/invite.ts\nDA:1,1\nDA:2,0\nend_of_record\n',
+      },
+      {
+        filesModified: ['src/lib/invite.ts', 'src/lib/email.ts'],
+        testsWritten: ['src/lib/invite.test.ts', 'src/lib/email.test.ts'],
+      }
+    );
+    const types = report.issues.map((issue) => issue.type);
+
+    expect(report.tests?.failed).toBe(0);
+    expect(report.typescript?.passed).toBe(true);
+    expect(types).toContain('TEST_FILES_NOT_RUN');
+    expect(report.uncoveredFiles).toEqual(['src/lib/email.ts']);
+  });
+});
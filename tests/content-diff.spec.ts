@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import { diffContent, diffRules, parseSections, renderChangelog } from '../src/lib/content-diff';
+
+const CORE_15_1 = `# CORE
+## Every Button MUST Have:
+- A loading state while the action runs
+- A disabled state during submission
+
+## Forms
+- Validate with zod on the client and server
+
+\`\`\`bash
+# Step 1: not a heading
+npm install zod
+\`\`\`
+`;
+
+const CORE_15_2 = `# CORE
+## Every Button MUST Have:
+- A loading state while the async action runs
+- An accessible label
+
+## Forms
+- Validate with zod on the client and server
+
+\`\`\`bash
+# Step 1: not a heading
+npm install zod react-hook-form
+\`\`\`
+
+## Toasts
+- Show a toast for every failed request
+`;
+
+test.describe('Content Diff', () => {
+  test('splits modules into sections by heading path, ignoring headings in code', () => {
+    const sections = parseSections(CORE_15_1);
+
+    expect(sections.map((s) => s.heading)).toEqual(['CORE', 'CORE > Every Button MUST Have:', 'CORE > Forms']);
+    expect(sections[1].rules).toEqual(['A loading state while the action runs', 'A disabled state during submission']);
+    expect(sections[2].examples).toHaveLength(1);
+  });
+
+  test('pairs reworded rules and keeps the rest as added or removed', () => {
+    const diff = diffRules(
+      ['A loading state while the action runs', 'A disabled state during submission'],
+      ['A loading state while the async action runs', 'An accessible label']
+    );
+
+    expect(diff.changed).toEqual([{ before: 'A loading state while the action runs', after: 'A loading state while the async action runs' }]);
+    expect(diff.added).toEqual(['An accessible label']);
+    expect(diff.removed).toEqual(['A disabled state during submission']);
+  });
+
+  test('diffs versions module by module and section by section', () => {
+    const diff = diffContent(
+      { version: '15.1', modules: { '00-core.md': CORE_15_1, '02-auth.md': '# Auth', '03-api.md': '# API' } },
+      { version: '15.2', modules: { '00-core.md': CORE_15_2, '02-auth.md': '# Auth', '04-frontend.md': '# Frontend' } }
+    );
+
+    expect(diff.modules.map((m) => [m.name, m.status])).toEqual([
+      ['00-core.md', 'changed'],
+      ['03-api.md', 'removed'],
+      ['04-frontend.md', 'added'],
+    ]);
+
+    const core = diff.modules[0];
+    expect(core.sections.map((s) => [s.heading, s.status])).toEqual([
+      ['CORE > Every Button MUST Have:', 'changed'],
+      ['CORE > Forms', 'changed'],
+      ['CORE > Toasts', 'added'],
+    ]);
+    expect(core.sections[1]).toMatchObject({ added: [], removed: [], changed: [], examplesChanged: 1 });
+    expect(diff.summary).toMatchObject({ modulesAdded: 1, modulesRemoved: 1, modulesChanged: 1, rulesAdded: 2, rulesChanged: 1 });
+  });
+
+  test('whitespace-only edits are not changes', () => {
+    const diff = diffContent(
+      { version: '15.1', modules: { '00-core.md': CORE_15_1 } },
+      { version: '15.2', modules: { '00-core.md': CORE_15_1.replace('- A disabled', '-   A disabled') + '\n\n' } }
+    );
+
+    expect(diff.modules).toEqual([]);
+  });
+
+  test('renders a markdown changelog', () => {
+    const changelog = renderChangelog(diffContent(
+      { version: '15.1', modules: { '00-core.md': CORE_15_1 } },
+      { version: '15.2', modules: { '00-core.md': CORE_15_2 } }
+    ));
+
+    expect(changelog).toContain('## 15.1 → 15.2');
+    expect(changelog).toContain('### 00-core.md');
+    expect(changelog).toContain('- Added: An accessible label');
+    expect(changelog).toContain('- Removed: A disabled state during submission');
+    expect(changelog).toContain('- 1 code example updated');
+  });
+});
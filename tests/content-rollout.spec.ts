@@ -0,0 +1,87 @@
+import { test, expect } from '@playwright/test';
+import {
+  ChannelRelease,
+  channelsSupersededBy,
+  detectRegression,
+  isInRollout,
+  resolveContentVersionId,
+  rolloutBucket,
+} from '../src/lib/content-rollout';
+
+const TEAMS = Array.from({ length: 200 }, (_, i) => `team-${i}`);
+
+function release(overrides: Partial<ChannelRelease>): ChannelRelease {
+  return {
+    id: 'release-1',
+    channel: 'stable',
+    versionId: 'v2',
+    previousVersionId: 'v1',
+    rolloutPercent: 100,
+    ...overrides,
+  };
+}
+
+test.describe('Content Rollouts', () => {
+  test('buckets are stable and widening a rollout only adds teams', () => {
+    expect(rolloutBucket('release-1', 'team-1')).toBe(rolloutBucket('release-1', 'team-1'));
+
+    const at10 = TEAMS.filter((t) => isInRollout({ id: 'release-1', rolloutPercent: 10 }, t));
+    const at50 = TEAMS.filter((t) => isInRollout({ id: 'release-1', rolloutPercent: 50 }, t));
+
+    expect(at10.length).toBeGreaterThan(0);
+    expect(at50.length).toBeGreaterThan(at10.length);
+    expect(at10.every((t) => at50.includes(t))).toBe(true);
+  });
+
+  test('requests without a team only get a completed rollout', () => {
+    expect(isInRollout({ id: 'release-1', rolloutPercent: 99 }, null)).toBe(false);
+    expect(isInRollout({ id: 'release-1', rolloutPercent: 100 }, null)).toBe(true);
+  });
+
+  test('teams outside a rollout keep the previous version', () => {
+    const partial = release({ rolloutPercent: 20 });
+    const served = TEAMS.map((teamId) =>
+      resolveContentVersionId({ channel: 'stable', teamId, releases: [partial], activeVersionId: 'v1' })
+    );
+
+    expect(new Set(served)).toEqual(new Set(['v1', 'v2']));
+    expect(resolveContentVersionId({ channel: 'stable', teamId: null, releases: [partial], activeVersionId: 'v1' })).toBe('v1');
+  });
+
+  test('less stable channels fall back to the more stable ones', () => {
+    const releases = [release({ channel: 'stable', versionId: 'v2' }), release({ id: 'release-2', channel: 'beta', versionId: 'v3' })];
+
+    expect(resolveContentVersionId({ channel: 'canary', teamId: 'team-1', releases, activeVersionId: 'v1' })).toBe('v3');
+    expect(resolveContentVersionId({ channel: 'beta', teamId: 'team-1', releases, activeVersionId: 'v1' })).toBe('v3');
+    expect(resolveContentVersionId({ channel: 'stable', teamId: 'team-1', releases, activeVersionId: 'v1' })).toBe('v2');
+    expect(resolveContentVersionId({ channel: 'stable', teamId: 'team-1', releases: [], activeVersionId: 'v1' })).toBe('v1');
+  });
+
+  test('a rolled back release serves its previous version', () => {
+    const rolledBack = release({ channel: 'beta', rolloutPercent: 0, previousVersionId: 'v1' });
+
+    expect(resolveContentVersionId({ channel: 'beta', teamId: 'team-1', releases: [rolledBack], activeVersionId: 'v0' })).toBe('v1');
+  });
+
+  test('publishing to a channel supersedes the less stable channels', () => {
+    expect(channelsSupersededBy('stable')).toEqual(['stable', 'beta', 'canary']);
+    expect(channelsSupersededBy('beta')).toEqual(['beta', 'canary']);
+    expect(channelsSupersededBy('canary')).toEqual(['canary']);
+  });
+
+  test('detects a spike in reports after a publish', () => {
+    const before = { moduleReports: 7, productionFeedback: 14, hours: 168 }; // 1 and 2 per day
+    const quiet = { moduleReports: 2, productionFeedback: 3, hours: 24 };
+    const spike = { moduleReports: 1, productionFeedback: 9, hours: 24 };
+
+    expect(detectRegression(before, quiet)).toBeNull();
+    expect(detectRegression(before, spike)).toBe('Production errors rose from 2.0/day to 9.0/day after publish');
+  });
+
+  test('ignores spikes with too few reports to mean anything', () => {
+    const before = { moduleReports: 0, productionFeedback: 0, hours: 168 };
+
+    expect(detectRegression(before, { moduleReports: 4, productionFeedback: 0, hours: 24 })).toBeNull();
+    expect(detectRegression(before, { moduleReports: 5, productionFeedback: 0, hours: 24 })).not.toBeNull();
+  });
+});
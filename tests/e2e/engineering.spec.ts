@@ -20,6 +20,101 @@ test.describe('Engineering System API', () => {
     });
   });
 
+  test.describe('Engineering Pipelines API', () => {
+    test('GET /api/engineering/pipelines returns 401 without auth', async ({ request }) => {
+      const response = await request.get(`${baseURL}/api/engineering/pipelines`);
+      expect(response.status()).toBe(401);
+    });
+
+    test('PUT /api/engineering/pipelines returns 401 without auth', async ({ request }) => {
+      const response = await request.put(`${baseURL}/api/engineering/pipelines`, {
+        data: { name: 'Test', phases: [] },
+      });
+      expect(response.status()).toBe(401);
+    });
+  });
+
+  test.describe('Engineering Approvals API', () => {
+    const fakeApprovalId = '00000000-0000-0000-0000-000000000000';
+
+    test('GET /api/engineering/approvals returns 401 without auth', async ({ request }) => {
+      const response = await request.get(`${baseURL}/api/engineering/approvals`);
+      expect(response.status()).toBe(401);
+    });
+
+    test('POST /api/engineering/approvals/:id returns 401 without auth', async ({ request }) => {
+      const response = await request.post(`${baseURL}/api/engineering/approvals/${fakeApprovalId}`, {
+        data: { approved: true },
+      });
+      expect(response.status()).toBe(401);
+    });
+  });
+
+  test.describe('Engineering Branches API', () => {
+    const fakeSessionId = '00000000-0000-0000-0000-000000000000';
+
+    test('POST /api/engineering/sessions/:id/fork returns 401 without auth', async ({ request }) => {
+      const response = await request.post(`${baseURL}/api/engineering/sessions/${fakeSessionId}/fork`, {
+        data: { phase: 'architecture', branchName: 'custom-auth' },
+      });
+      expect(response.status()).toBe(401);
+    });
+
+    test('GET /api/engineering/sessions/:id/branches returns 401 without auth', async ({ request }) => {
+      const response = await request.get(`${baseURL}/api/engineering/sessions/${fakeSessionId}/branches`);
+      expect(response.status()).toBe(401);
+    });
+
+    test('POST /api/engineering/sessions/:id/promote returns 401 without auth', async ({ request }) => {
+      const response = await request.post(`${baseURL}/api/engineering/sessions/${fakeSessionId}/promote`);
+      expect(response.status()).toBe(401);
+    });
+  });
+
+  test.describe('Engineering Artifact History API', () => {
+    const fakeSessionId = '00000000-0000-0000-0000-000000000000';
+
+    test('GET /api/engineering/sessions/:id/artifacts returns 401 without auth', async ({ request }) => {
+      const response = await request.get(`${baseURL}/api/engineering/sessions/${fakeSessionId}/artifacts`);
+      expect(response.status()).toBe(401);
+    });
+
+    test('GET /api/engineering/sessions/:id/artifacts/:name/diff returns 401 without auth', async ({ request }) => {
+      const response = await request.get(`${baseURL}/api/engineering/sessions/${fakeSessionId}/artifacts/prd/diff?from=1&to=2`);
+      expect(response.status()).toBe(401);
+    });
+
+    test('POST /api/engineering/sessions/:id/artifacts/:name/restore returns 401 without auth', async ({ request }) => {
+      const response = await request.post(`${baseURL}/api/engineering/sessions/${fakeSessionId}/artifacts/prd/restore`, {
+        data: { revision: 1 },
+      });
+      expect(response.status()).toBe(401);
+    });
+  });
+
+  test.describe('Engineering Budget API', () => {
+    const fakeSessionId = '00000000-0000-0000-0000-000000000000';
+
+    test('GET /api/engineering/sessions/:id/budget returns 401 without auth', async ({ request }) => {
+      const response = await request.get(`${baseURL}/api/engineering/sessions/${fakeSessionId}/budget`);
+      expect(response.status()).toBe(401);
+    });
+
+    test('PUT /api/engineering/sessions/:id/budget returns 401 without auth', async ({ request }) => {
+      const response = await request.put(`${baseURL}/api/engineering/sessions/${fakeSessionId}/budget`, {
+        data: { maxCostCents: 500 },
+      });
+      expect(response.status()).toBe(401);
+    });
+
+    test('PUT /api/engineering/budget returns 401 without auth', async ({ request }) => {
+      const response = await request.put(`${baseURL}/api/engineering/budget`, {
+        data: { maxCostCents: 10000 },
+      });
+      expect(response.status()).toBe(401);
+    });
+  });
+
   test.describe('Admin Engineering Sessions API', () => {
     test('GET /api/admin/engineering/sessions returns 401/403 without auth', async ({ request }) => {
       const response = await request.get(`${baseURL}/api/admin/engineering/sessions`);
@@ -1,4 +1,22 @@
 import { test, expect } from '@playwright/test';
+import { copyFileSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DEFAULT_PIPELINE,
+  validatePipelinePhases,
+  getReadyPhases,
+  initializePipelineGateStatus,
+  evaluateApprovalVotes,
+} from '../src/lib/engineering-pipeline';
+import { forkProjectState, compareArtifacts } from '../src/lib/engineering-branches';
+import { readArtifact, writeArtifact } from '../src/lib/engineering-artifacts';
+import { diffLines, collapseUnchanged, toSideBySide } from '../src/lib/text-diff';
+import { calculateCostMicros, getBudgetExceededReason } from '../src/lib/engineering-usage';
+import { createRecorder, createReplayer, fingerprintRequest, getReplayMode, loadCassette, saveCassette } from '../src/lib/model-replay';
+import { createMessage } from '../src/lib/anthropic';
+import { AutoBuildSession, createInMemoryBuildStore, runAutoBuild } from '../src/services/engineering-agent-service';
+import type { ApprovalVote, PipelineDefinition, PipelinePhase } from '../src/lib/engineering-types';
 
 /**
  * Engineering Orchestrator Service Tests
@@ -84,6 +102,12 @@ test.describe('Engineering Orchestrator Service', () => {
         'current_phase',
         'current_agent',
         'is_running',
+        'version',
+        'parent_session_id',
+        'forked_at_phase',
+        'branch_name',
+        'branch_status',
+        'pipeline_id',
         'scope',
         'stack',
         'gate_status',
@@ -95,14 +119,15 @@ test.describe('Engineering Orchestrator Service', () => {
         'total_tokens_used',
         'started_at',
         'paused_at',
+        'paused_reason',
         'completed_at',
         'last_activity_at',
         'created_at',
         'updated_at',
       ];
 
-      // Verify we have all required columns (24 columns)
-      expect(requiredColumns).toHaveLength(24);
+      // Verify we have all required columns (31 columns)
+      expect(requiredColumns).toHaveLength(31);
     });
 
     test('engineering_messages table has required columns', () => {
@@ -153,6 +178,449 @@ test.describe('Engineering Orchestrator Service', () => {
 
       expect(requiredColumns).toHaveLength(9);
     });
+
+    test('engineering_approvals table has required columns', () => {
+      const requiredColumns = [
+        'id',
+        'session_id',
+        'team_id',
+        'phase',
+        'status',
+        'reason',
+        'requested_by',
+        'min_approvers',
+        'require_admin',
+        'votes',
+        'resolved_at',
+        'created_at',
+        'updated_at',
+      ];
+
+      expect(requiredColumns).toHaveLength(13);
+    });
+
+    test('engineering_artifact_revisions table has required columns', () => {
+      const requiredColumns = [
+        'id',
+        'session_id',
+        'artifact_name',
+        'revision',
+        'content',
+        'author',
+        'author_user_id',
+        'phase',
+        'restored_from',
+        'created_at',
+      ];
+
+      expect(requiredColumns).toHaveLength(10);
+    });
+
+    test('engineering_usage table has required columns', () => {
+      const requiredColumns = [
+        'id',
+        'session_id',
+        'team_id',
+        'agent',
+        'phase',
+        'model',
+        'input_tokens',
+        'output_tokens',
+        'cost_micros',
+        'created_at',
+      ];
+
+      expect(requiredColumns).toHaveLength(10);
+    });
+
+    test('engineering_budgets table has required columns', () => {
+      const requiredColumns = [
+        'id',
+        'team_id',
+        'session_id',
+        'max_input_tokens',
+        'max_output_tokens',
+        'max_cost_cents',
+        'created_at',
+        'updated_at',
+      ];
+
+      expect(requiredColumns).toHaveLength(8);
+    });
+  });
+
+  test.describe('Approval Rules', () => {
+    const vote = (userId: string, approved: boolean, isAdmin = false): ApprovalVote => ({
+      userId,
+      approved,
+      isAdmin,
+      votedAt: new Date(),
+    });
+
+    test('Approval stays pending until enough approvers sign off', () => {
+      const rule = { minApprovers: 2, requireAdmin: false };
+
+      expect(evaluateApprovalVotes(rule, [])).toBe('pending');
+      expect(evaluateApprovalVotes(rule, [vote('a', true)])).toBe('pending');
+      expect(evaluateApprovalVotes(rule, [vote('a', true), vote('b', true)])).toBe('approved');
+    });
+
+    test('Admin rule needs at least one admin approval', () => {
+      const rule = { minApprovers: 2, requireAdmin: true };
+
+      expect(evaluateApprovalVotes(rule, [vote('a', true), vote('b', true)])).toBe('pending');
+      expect(evaluateApprovalVotes(rule, [vote('a', true), vote('b', true), vote('c', true, true)])).toBe('approved');
+    });
+
+    test('A single rejection rejects the phase', () => {
+      const rule = { minApprovers: 2, requireAdmin: false };
+
+      expect(evaluateApprovalVotes(rule, [vote('a', true), vote('b', false)])).toBe('rejected');
+    });
+  });
+
+  test.describe('Phase Pipelines', () => {
+    const phase = (id: string, dependsOn: string[], extra: Partial<PipelinePhase> = {}): PipelinePhase => ({
+      id,
+      displayName: id,
+      description: '',
+      agent: 'orchestrator',
+      requiresApproval: false,
+      canSkip: false,
+      producesArtifacts: [],
+      inputsRequired: [],
+      dependsOn,
+      ...extra,
+    });
+
+    test('Default pipeline mirrors the built-in phases and is valid', () => {
+      expect(DEFAULT_PIPELINE.phases).toHaveLength(11);
+      expect(DEFAULT_PIPELINE.phases[0].id).toBe('scoping');
+      expect(validatePipelinePhases(DEFAULT_PIPELINE.phases)).toEqual({});
+    });
+
+    test('Pipelines must start from scoping and reference known phases', () => {
+      const errors = validatePipelinePhases([
+        phase('requirements', []),
+        phase('architecture', ['missing']),
+      ]);
+
+      expect(errors.pipeline).toBeDefined();
+      expect(errors.architecture).toContain('Unknown dependency "missing"');
+    });
+
+    test('Dependency cycles are rejected', () => {
+      const errors = validatePipelinePhases([
+        phase('scoping', []),
+        phase('a', ['scoping', 'b']),
+        phase('b', ['a']),
+      ]);
+
+      expect(errors.pipeline).toContain('Pipeline contains a dependency cycle');
+    });
+
+    test('Required inputs must be produced upstream', () => {
+      const errors = validatePipelinePhases([
+        phase('scoping', []),
+        phase('docs', ['scoping'], { producesArtifacts: ['docs.md'] }),
+        phase('security', ['scoping'], { inputsRequired: ['docs.md'] }),
+      ]);
+
+      expect(errors.security).toBeDefined();
+    });
+
+    test('Parallel branches become ready together', () => {
+      const pipeline: PipelineDefinition = {
+        id: null,
+        name: 'Parallel',
+        version: 1,
+        phases: [
+          phase('scoping', []),
+          phase('documentation', ['scoping']),
+          phase('security_review', ['scoping']),
+          phase('launch', ['documentation', 'security_review']),
+        ],
+      };
+
+      const gateStatus = initializePipelineGateStatus(pipeline);
+      gateStatus.scoping.status = 'passed';
+      expect(getReadyPhases(pipeline, gateStatus).map((p) => p.id)).toEqual(['documentation', 'security_review']);
+
+      gateStatus.documentation.status = 'passed';
+      gateStatus.security_review.status = 'in_progress';
+      expect(getReadyPhases(pipeline, gateStatus)).toHaveLength(0);
+
+      gateStatus.security_review.status = 'skipped';
+      expect(getReadyPhases(pipeline, gateStatus).map((p) => p.id)).toEqual(['launch']);
+    });
+  });
+
+  test.describe('Session Branches', () => {
+    const pipeline: PipelineDefinition = {
+      ...DEFAULT_PIPELINE,
+      phases: DEFAULT_PIPELINE.phases.filter((p) => ['scoping', 'requirements', 'architecture'].includes(p.id)),
+    };
+
+    test('Fork keeps only work up to the fork gate', () => {
+      const gateStatus = initializePipelineGateStatus(pipeline);
+      gateStatus.scoping = { phase: 'scoping', status: 'passed', passedAt: new Date('2026-01-01') };
+      gateStatus.requirements = { phase: 'requirements', status: 'passed', passedAt: new Date('2026-01-02'), artifacts: ['prd'] };
+      gateStatus.architecture = { phase: 'architecture', status: 'passed', passedAt: new Date('2026-01-03'), artifacts: ['techSpec'] };
+
+      const node = (id: string, createdAt: string) => ({
+        id, type: 'service' as const, name: id, filePath: id, createdAt: new Date(createdAt), modifiedAt: new Date(createdAt),
+      });
+
+      const forked = forkProjectState(pipeline, {
+        gateStatus,
+        artifacts: { prd: 'PRD', techSpec: 'SPEC' },
+        dependencyGraph: {
+          nodes: [node('early', '2026-01-01T12:00:00Z'), node('late', '2026-01-02T12:00:00Z')],
+          edges: [{ id: 'e1', sourceId: 'late', targetId: 'early', type: 'import', createdAt: new Date('2026-01-02T12:00:00Z') }],
+        },
+      }, 'requirements');
+
+      expect(forked.keptPhases).toEqual(['scoping', 'requirements']);
+      expect(forked.gateStatus.requirements.status).toBe('passed');
+      expect(forked.gateStatus.architecture.status).toBe('pending');
+      expect(forked.artifacts).toEqual({ prd: 'PRD' });
+      expect(forked.dependencyGraph.nodes.map((n) => n.id)).toEqual(['early']);
+      expect(forked.dependencyGraph.edges).toHaveLength(0);
+    });
+
+    test('Artifact comparison reports line changes per artifact', () => {
+      const comparison = compareArtifacts(
+        { prd: 'Auth: Supabase\nBilling: Stripe', techSpec: 'same' },
+        { prd: 'Auth: custom JWT\nBilling: Stripe', techSpec: 'same', userGuide: 'Guide' }
+      );
+
+      expect(comparison.map((c) => [c.name, c.status])).toEqual([
+        ['prd', 'changed'],
+        ['techSpec', 'same'],
+        ['userGuide', 'only_right'],
+      ]);
+      expect(comparison[0]).toMatchObject({ added: 1, removed: 1 });
+    });
+  });
+
+  test.describe('Artifact Revisions', () => {
+    test('Built-in and custom artifacts are addressed by name', () => {
+      const artifacts = writeArtifact(writeArtifact({}, 'prd', 'v1'), 'threat-model.md', 'model');
+
+      expect(artifacts).toEqual({ prd: 'v1', custom: { 'threat-model.md': 'model' } });
+      expect(readArtifact(artifacts, 'threat-model.md')).toBe('model');
+      expect(readArtifact(writeArtifact(artifacts, 'prd', 'v2'), 'prd')).toBe('v2');
+    });
+
+    test('Side-by-side diff pairs replaced lines and keeps context', () => {
+      const before = ['# Tech Spec', 'Auth: Supabase', 'DB: Postgres', 'a', 'b', 'c', 'd', 'e'].join('\n');
+      const after = ['# Tech Spec', 'Auth: custom JWT', 'Sessions: Redis', 'DB: Postgres', 'a', 'b', 'c', 'd', 'e'].join('\n');
+
+      const rows = toSideBySide(collapseUnchanged(diffLines(before, after), 1));
+
+      expect(rows[0]).toMatchObject({ left: { text: '# Tech Spec' }, right: { text: '# Tech Spec' } });
+      expect(rows[1]).toMatchObject({ left: { type: 'removed', text: 'Auth: Supabase' }, right: { type: 'added', text: 'Auth: custom JWT' } });
+      expect(rows[2]).toMatchObject({ left: null, right: { type: 'added', text: 'Sessions: Redis' } });
+      expect(rows[rows.length - 1]).toEqual({ type: 'skipped', count: 5 });
+    });
+  });
+
+  test.describe('Usage Budgets', () => {
+    test('Cost is priced per model in USD millionths', () => {
+      expect(calculateCostMicros('claude-sonnet-4-20250514', 1000, 1000)).toBe(18_000);
+      expect(calculateCostMicros('claude-opus-4-20250514', 1000, 0)).toBe(15_000);
+      // Unknown models are never free
+      expect(calculateCostMicros('some-new-model', 1000, 1000)).toBe(18_000);
+    });
+
+    test('Any reached limit gives a reason to stop', () => {
+      const usage = { calls: 3, inputTokens: 50_000, outputTokens: 9_000, costMicros: 290_000 };
+
+      expect(getBudgetExceededReason({ maxInputTokens: null, maxOutputTokens: null, maxCostCents: null }, usage, 'Session')).toBeNull();
+      expect(getBudgetExceededReason({ maxInputTokens: 100_000, maxOutputTokens: null, maxCostCents: 50 }, usage, 'Session')).toBeNull();
+      expect(getBudgetExceededReason({ maxInputTokens: null, maxOutputTokens: null, maxCostCents: 25 }, usage, 'Session'))
+        .toBe('Session cost budget of $0.25 reached ($0.29 spent)');
+      expect(getBudgetExceededReason({ maxInputTokens: null, maxOutputTokens: 9_000, maxCostCents: null }, usage, 'Monthly team'))
+        .toBe('Monthly team output token budget of 9,000 reached');
+    });
+  });
+
+  test.describe('Model Replay', () => {
+    const request = (sessionId: string) => ({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 2000,
+      system: 'You are the PM agent.',
+      messages: [{ role: 'user' as const, content: `Write the PRD for session ${sessionId} at ${new Date().toISOString()}` }],
+    });
+    const reply = (text: string) => ({ content: [{ type: 'text', text }], usage: { input_tokens: 10, output_tokens: 5 } });
+
+    test('Fingerprints ignore session IDs and timestamps', () => {
+      expect(fingerprintRequest(request('11111111-1111-4111-8111-111111111111')))
+        .toBe(fingerprintRequest(request('22222222-2222-4222-8222-222222222222')));
+      expect(fingerprintRequest({ ...request('x'), system: 'You are the QA agent.' }))
+        .not.toBe(fingerprintRequest(request('x')));
+    });
+
+    test('Recorded responses replay in order without the API', async () => {
+      const path = join(mkdtempSync(join(tmpdir(), 'cassette-')), 'build.json');
+      const live = [reply('PRD v1'), reply('PRD v2')];
+      const record = createRecorder(path, async () => live.shift());
+
+      await record(request('11111111-1111-4111-8111-111111111111'));
+      await record(request('11111111-1111-4111-8111-111111111111'));
+      expect(loadCassette(path).entries).toHaveLength(2);
+
+      const replay = createReplayer(loadCassette(path));
+      const sessionId = '33333333-3333-4333-8333-333333333333';
+      expect(await replay(request(sessionId))).toEqual(reply('PRD v1'));
+      expect(await replay(request(sessionId))).toEqual(reply('PRD v2'));
+      await expect(replay(request(sessionId))).rejects.toThrow('No recorded response');
+    });
+
+    test('createMessage answers from the cassette in replay mode', async () => {
+      const path = join(mkdtempSync(join(tmpdir(), 'cassette-')), 'build.json');
+      const req = request('44444444-4444-4444-8444-444444444444');
+      saveCassette(path, {
+        version: 1,
+        entries: [{ fingerprint: fingerprintRequest(req), request: req, response: reply('offline'), recordedAt: '' }],
+      });
+
+      process.env.ANTHROPIC_REPLAY = 'replay';
+      process.env.ANTHROPIC_CASSETTE = path;
+      try {
+        const response = await createMessage(req);
+        expect(response.content[0].text).toBe('offline');
+      } finally {
+        delete process.env.ANTHROPIC_REPLAY;
+        delete process.env.ANTHROPIC_CASSETTE;
+      }
+    });
+
+    test('Replay stays off in production', () => {
+      const env = process.env as Record<string, string | undefined>;
+      const nodeEnv = env.NODE_ENV;
+      env.ANTHROPIC_REPLAY = 'replay';
+      try {
+        expect(getReplayMode()).toBe('replay');
+        env.NODE_ENV = 'production';
+        expect(getReplayMode()).toBe('off');
+      } finally {
+        if (nodeEnv === undefined) delete env.NODE_ENV;
+        else env.NODE_ENV = nodeEnv;
+        delete env.ANTHROPIC_REPLAY;
+      }
+    });
+  });
+
+  test.describe('Replayed Auto-Build', () => {
+    // Recorded responses for every phase of the default pipeline. The security
+    // review answers with a tool call instead of text, so its gate fails.
+    const CASSETTE = join(__dirname, 'fixtures', 'cassettes', 'auto-build.json');
+
+    const session = (): AutoBuildSession => {
+      return {
+        isRunning: true,
+        pipeline: DEFAULT_PIPELINE,
+        context: {
+          id: '55555555-5555-4555-8555-555555555555',
+          teamId: '66666666-6666-4666-8666-666666666666',
+          projectHash: 'replayed-build',
+          scope: {
+            name: 'Tide Tables',
+            description: 'A web app that shows tide times for saved beaches',
+            targetAudience: 'consumers',
+            inputMethod: 'natural',
+            isFullBusiness: false,
+            needsMarketing: false,
+            needsAnalytics: false,
+            needsTeamFeatures: false,
+            needsAdminDashboard: false,
+            platforms: ['web'],
+            hasRealtime: false,
+            hasPayments: false,
+            hasAuth: true,
+            hasFileUploads: false,
+            compliance: { hipaa: false, pci: false, gdpr: false, soc2: false, coppa: false },
+            expectedUsers: 'small',
+            launchTimeline: 'flexible',
+          },
+          stack: { framework: 'nextjs', database: 'supabase', orm: 'drizzle', auth: 'supabase', ui: 'shadcn' },
+          currentPhase: 'scoping',
+          currentAgent: 'orchestrator',
+          gateStatus: {
+            ...initializePipelineGateStatus(DEFAULT_PIPELINE),
+            scoping: { phase: 'scoping', status: 'passed', approvedBy: 'user' },
+          },
+          artifacts: {},
+          dependencyGraph: { nodes: [], edges: [] },
+          decisions: [],
+          startedAt: new Date('2026-03-01T10:00:00Z'),
+          lastActivityAt: new Date('2026-03-01T10:00:00Z'),
+        },
+      };
+    };
+
+    // A fresh copy per build, so each replays the cassette from the start
+    const replayBuild = async (build: ReturnType<typeof createInMemoryBuildStore>) => {
+      const path = join(mkdtempSync(join(tmpdir(), 'cassette-')), 'auto-build.json');
+      copyFileSync(CASSETTE, path);
+
+      process.env.ANTHROPIC_REPLAY = 'replay';
+      process.env.ANTHROPIC_CASSETTE = path;
+      try {
+        await runAutoBuild(build.session.context.id, { store: build.store, phaseDelayMs: 0 });
+      } finally {
+        delete process.env.ANTHROPIC_REPLAY;
+        delete process.env.ANTHROPIC_CASSETTE;
+      }
+    };
+
+    test('Runs every phase in order and records gate outcomes', async () => {
+      const build = createInMemoryBuildStore(session());
+      await replayBuild(build);
+
+      expect(build.startedPhases).toEqual([
+        'requirements', 'architecture', 'design_review', 'implementation', 'code_review',
+        'testing', 'security_review', 'documentation', 'staging', 'launch',
+      ]);
+
+      const gates = build.session.context.gateStatus;
+      expect(gates.security_review).toMatchObject({ status: 'failed', failedReason: 'Unexpected response type' });
+      expect(Object.values(gates).filter((g) => g.status !== 'passed').map((g) => g.phase)).toEqual(['security_review']);
+      expect(gates.requirements).toMatchObject({ status: 'passed', approvedBy: 'auto', artifacts: ['prd'] });
+
+      // A failed gate is counted but doesn't stop the build
+      expect(build.session).toMatchObject({ status: 'completed', isRunning: false, errorCount: 1, lastError: 'Unexpected response type' });
+      expect(build.usage.calls).toBe(9);
+    });
+
+    test('Stores phase artifacts and the generated code', async () => {
+      const build = createInMemoryBuildStore(session());
+      await replayBuild(build);
+
+      const { artifacts } = build.session.context;
+      expect(artifacts.prd).toContain('# Tide Tables PRD');
+      expect(artifacts.techSpec).toContain('===FILE: src/app/page.tsx===');
+      expect(artifacts.userGuide).toContain('# Tide Tables User Guide');
+      expect(artifacts.securityAudit).toBeUndefined();
+
+      const paths = build.files.map((f) => f.path);
+      expect(paths).toEqual(expect.arrayContaining(['CLAUDE.md', 'src/app/page.tsx', 'src/app/api/beaches/route.ts']));
+      expect(build.files.find((f) => f.path === 'src/app/page.tsx')?.content).toContain('Tide Tables');
+    });
+
+    test('Pauses before the next phase once the budget is used up', async () => {
+      const build = createInMemoryBuildStore(session(), { maxInputTokens: null, maxOutputTokens: 2_000, maxCostCents: null });
+      await replayBuild(build);
+
+      expect(build.startedPhases).toEqual(['requirements', 'architecture']);
+      expect(build.session).toMatchObject({
+        status: 'paused',
+        isRunning: false,
+        pausedReason: 'Session output token budget of 2,000 reached',
+      });
+      expect(build.session.context.gateStatus.design_review.status).toBe('pending');
+    });
   });
 
   test.describe('API Response Formats', () => {
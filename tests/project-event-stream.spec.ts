@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import type { ProjectEvent, ProjectEventType } from '../src/db/schema';
+import {
+  formatSseEvent,
+  getEventRecordIds,
+  parseEventStreamFilter,
+  parseStreamCursor,
+  redactPublicEvent,
+} from '../src/lib/project-event-stream';
+
+const KNOWN_TYPES: ProjectEventType[] = ['test_passed', 'test_failed', 'risk_flagged', 'file_created'];
+const EVENT_ID = '0b6f1c1e-5d7a-4f4e-9a43-2f7f5d0c9b11';
+const PHASE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+function event(overrides: Partial<ProjectEvent> = {}): ProjectEvent {
+  return {
+    id: EVENT_ID,
+    projectId: 'project-1',
+    phaseId: PHASE_ID,
+    featureId: null,
+    eventType: 'risk_flagged',
+    eventTitle: 'Risk: Raw SQL in payments handler',
+    eventDescription: 'String-built query in src/app/api/pay/route.ts',
+    eventData: null,
+    filePath: 'src/app/api/pay/route.ts',
+    fileAction: null,
+    linesChanged: null,
+    aiConfidence: null,
+    alternativesConsidered: null,
+    riskLevel: 'high',
+    riskReason: 'Possible injection',
+    isPublic: true,
+    publicAt: new Date('2026-10-01T12:00:00Z'),
+    createdAt: new Date('2026-10-01T11:00:00Z'),
+    ...overrides,
+  };
+}
+
+test.describe('Project event stream filters', () => {
+  test('parses event types and phase', () => {
+    const params = new URLSearchParams({ types: 'test_passed, test_failed,test_passed', phaseId: PHASE_ID });
+    const { filter, errors } = parseEventStreamFilter(params, KNOWN_TYPES);
+
+    expect(errors).toEqual({});
+    expect(filter).toEqual({ types: ['test_passed', 'test_failed'], phaseId: PHASE_ID });
+  });
+
+  test('streams every event without filters', () => {
+    const { filter, errors } = parseEventStreamFilter(new URLSearchParams('types='), KNOWN_TYPES);
+
+    expect(errors).toEqual({});
+    expect(filter).toEqual({ types: null, phaseId: null });
+  });
+
+  test('reports unknown types and malformed phases', () => {
+    const params = new URLSearchParams({ types: 'test_passed,deploy_started', phaseId: 'phase-1' });
+    const { errors } = parseEventStreamFilter(params, KNOWN_TYPES);
+
+    expect(errors).toEqual({ types: ['deploy_started'], phaseId: ['phase-1'] });
+  });
+});
+
+test.describe('Project event stream cursors', () => {
+  test('Last-Event-ID wins over the after parameter', () => {
+    const other = '11111111-2222-4333-8444-555555555555';
+    const headers = new Headers({ 'Last-Event-ID': EVENT_ID });
+
+    expect(parseStreamCursor(headers, new URLSearchParams({ after: other }))).toBe(EVENT_ID);
+    expect(parseStreamCursor(new Headers(), new URLSearchParams({ after: other }))).toBe(other);
+  });
+
+  test('ignores cursors that are not event IDs', () => {
+    expect(parseStreamCursor(new Headers({ 'Last-Event-ID': 'abc' }), new URLSearchParams())).toBeNull();
+    expect(parseStreamCursor(new Headers(), new URLSearchParams())).toBeNull();
+  });
+});
+
+test.describe('Project event stream messages', () => {
+  test('formats one SSE message per event with its ID', () => {
+    const message = formatSseEvent(EVENT_ID, 'project_event', { title: 'line one\nline two' });
+
+    expect(message).toBe(`id: ${EVENT_ID}\nevent: project_event\ndata: {"title":"line one\\nline two"}\n\n`);
+  });
+
+  test('public events keep only type, title and time', () => {
+    expect(redactPublicEvent(event())).toEqual({
+      id: EVENT_ID,
+      eventType: 'risk_flagged',
+      title: 'Risk: Raw SQL in payments handler',
+      occurredAt: new Date('2026-10-01T11:00:00Z'),
+    });
+  });
+
+  test('finds the test run or risk flag an event was recorded for', () => {
+    expect(getEventRecordIds(event({ eventData: JSON.stringify({ testRunId: 'run-1', passed: 3 }) }))).toEqual({
+      testRunId: 'run-1',
+      riskFlagId: null,
+    });
+    expect(getEventRecordIds(event({ eventData: '{not json' }))).toEqual({ testRunId: null, riskFlagId: null });
+  });
+});
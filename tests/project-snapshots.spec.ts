@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { diffLines, diffManifests, hashBlob, normalizeSnapshotPath } from '../src/lib/project-snapshots';
+
+function entry(path: string, content: string) {
+  return { path, hash: hashBlob(content), size: Buffer.byteLength(content) };
+}
+
+test.describe('Project Snapshots', () => {
+  test('identical contents share a hash', () => {
+    expect(hashBlob('export {};\n')).toBe(hashBlob(Buffer.from('export {};\n')));
+    expect(hashBlob('a')).not.toBe(hashBlob('b'));
+  });
+
+  test('compares manifests by path and hash', () => {
+    const from = [entry('a.ts', 'one'), entry('b.ts', 'two'), entry('c.ts', 'three')];
+    const to = [entry('a.ts', 'one'), entry('b.ts', 'changed'), entry('d.ts', 'four')];
+
+    const diff = diffManifests(from, to);
+
+    expect(diff.added.map((f) => f.path)).toEqual(['d.ts']);
+    expect(diff.removed.map((f) => f.path)).toEqual(['c.ts']);
+    expect(diff.modified.map((f) => f.path)).toEqual(['b.ts']);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  test('rejects paths that escape the project', () => {
+    expect(normalizeSnapshotPath('./src\\app.ts')).toBe('src/app.ts');
+    expect(normalizeSnapshotPath('src/../../etc/passwd')).toBeNull();
+    expect(normalizeSnapshotPath('/etc/passwd')).toBeNull();
+    expect(normalizeSnapshotPath('C:\\Windows\\system.ini')).toBeNull();
+  });
+
+  test('groups line changes into hunks with context', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+
+    const hunks = diffLines(before, after);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].oldStart).toBe(1);
+    expect(hunks[0].lines.filter((l) => l.type !== 'context')).toEqual([
+      { type: 'removed', text: 'line 2' },
+      { type: 'added', text: 'line two' },
+    ]);
+    expect(hunks[1].oldStart).toBe(15);
+    expect(hunks[1].lines).toHaveLength(6); // 3 lines before, 2 after (end of file)
+    expect(diffLines('same\n', 'same\n')).toEqual([]);
+  });
+});
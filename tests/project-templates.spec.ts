@@ -0,0 +1,39 @@
+import { test, expect } from '@playwright/test';
+import { compareTemplateVersions, normalizeTemplatePath, validateTemplatePackage } from '../src/lib/project-templates';
+
+function pkg(manifest: Record<string, unknown>, files = [{ path: 'package.json', content: '{ "name": "{{projectName}}" }' }]) {
+  return { manifest: { name: 'nextjs-clerk-prisma', version: '1.0.0', ...manifest }, files };
+}
+
+test.describe('Project Templates', () => {
+  test('accepts a package with variables, conditions and post-install steps', () => {
+    expect(validateTemplatePackage(pkg({
+      stack: { framework: 'nextjs', orm: 'prisma', auth: 'clerk' },
+      variables: [{ name: 'projectName', required: true }, { name: 'useStripe', type: 'boolean', default: false }],
+      conditions: { 'src/lib/stripe.ts': 'useStripe' },
+      postInstall: [{ run: 'npm install' }, { run: 'npx prisma generate', when: '!useStripe' }],
+    }))).toBeNull();
+  });
+
+  test('rejects bad names, versions and paths', () => {
+    expect(validateTemplatePackage(pkg({ name: 'Next JS' }))).toContain('Template names');
+    expect(validateTemplatePackage(pkg({ version: 'latest' }))).toContain('semver');
+    expect(validateTemplatePackage(pkg({}, [{ path: '../escape.ts', content: '' }]))).toContain('Invalid file path');
+    expect(validateTemplatePackage(pkg({}, [{ path: 'a.ts', content: '' }, { path: './a.ts', content: '' }]))).toContain('appears twice');
+    expect(validateTemplatePackage(pkg({}, []))).toContain('at least one file');
+  });
+
+  test('rejects conditions on undeclared variables', () => {
+    expect(validateTemplatePackage(pkg({ conditions: { 'src/lib/stripe.ts': 'useStripe' } }))).toContain('unknown variable "useStripe"');
+    expect(validateTemplatePackage(pkg({
+      variables: [{ name: 'auth' }],
+      postInstall: [{ run: 'npm install', when: 'auth === clerk' }],
+    }))).toContain('is not a condition');
+  });
+
+  test('orders versions by semver', () => {
+    expect(['1.10.0', '1.2.0', '1.2.0-beta.1', '0.9.9'].sort(compareTemplateVersions)).toEqual(['0.9.9', '1.2.0-beta.1', '1.2.0', '1.10.0']);
+    expect(normalizeTemplatePath('.\\src\\app.ts')).toBe('src/app.ts');
+    expect(normalizeTemplatePath('/etc/passwd')).toBeNull();
+  });
+});
@@ -1,4 +1,6 @@
 import { test, expect } from '@playwright/test';
+import { DecisionLogService } from '../src/services/decision-log-service';
+import { ScopeLockService } from '../src/services/scope-lock-service';
 
 test.describe('Safety System API - /api/safety', () => {
   test.describe('load_context action', () => {
@@ -18,7 +20,7 @@ test.describe('Safety System API - /api/safety', () => {
       const body = await response.json();
       expect(body).toHaveProperty('success', true);
       expect(body).toHaveProperty('sessionId');
-      expect(body.sessionId).toMatch(/^safety_/);
+      expect(body.sessionId).toMatch(/^safety_[0-9a-f]{64}$/);
       expect(body).toHaveProperty('context');
       expect(body.context).toHaveProperty('decisionCount', 0);
     });
@@ -281,6 +283,40 @@ test.describe('Safety System API - /api/safety', () => {
       expect(body).toHaveProperty('markdown');
       expect(body.hasContradiction).toBe(false);
     });
+
+    test('should flag a decision that contradicts an earlier one', async ({ request }) => {
+      const loadResponse = await request.post('/api/safety', {
+        data: { action: 'load_context' },
+      });
+      const { sessionId } = await loadResponse.json();
+
+      await request.post('/api/safety', {
+        data: {
+          action: 'log_decision',
+          sessionId,
+          decision: 'Use Drizzle ORM for database access',
+          category: 'tech-stack',
+          reasoning: 'Better TypeScript support and simpler API',
+          impact: 'high',
+        },
+      });
+
+      const response = await request.post('/api/safety', {
+        data: {
+          action: 'log_decision',
+          sessionId,
+          decision: 'Use Prisma for the new billing tables',
+          category: 'data-model',
+          reasoning: 'Familiar migrations',
+          impact: 'medium',
+        },
+      });
+
+      expect(response.status()).toBe(200);
+      const body = await response.json();
+      expect(body.hasContradiction).toBe(true);
+      expect(body.contradictionExplanation).toContain('prisma');
+    });
   });
 
   test.describe('get_status action', () => {
@@ -323,6 +359,59 @@ test.describe('Safety System API - /api/safety', () => {
       expect(body).toHaveProperty('success', true);
       expect(body).toHaveProperty('sessionId', sessionId);
     });
+
+    test('should return 404 for an unknown session', async ({ request }) => {
+      const response = await request.post('/api/safety', {
+        data: {
+          action: 'get_status',
+          sessionId: 'safety_missing',
+        },
+      });
+
+      expect(response.status()).toBe(404);
+    });
+  });
+
+  test.describe('session export - GET /api/safety/sessions/[id]', () => {
+    test('should return scope locks, action checks and attempts', async ({ request }) => {
+      const loadResponse = await request.post('/api/safety', {
+        data: { action: 'load_context' },
+      });
+      const { sessionId } = await loadResponse.json();
+
+      await request.post('/api/safety', {
+        data: { action: 'define_scope', sessionId, userRequest: 'Add a feature' },
+      });
+      await request.post('/api/safety', {
+        data: { action: 'check_action', sessionId, actionType: 'modify-file', targetFile: '.env' },
+      });
+      await request.post('/api/safety', {
+        data: {
+          action: 'log_attempt',
+          sessionId,
+          issue: 'Build fails',
+          approach: 'Clear the cache',
+          result: 'failure',
+        },
+      });
+
+      const response = await request.get(`/api/safety/sessions/${sessionId}`);
+
+      expect(response.status()).toBe(200);
+      const { data } = await response.json();
+      expect(data.session.sessionId).toBe(sessionId);
+      expect(data.session.scopeLocks).toHaveLength(1);
+      expect(data.session.scopeLocks[0].violations).toHaveLength(1);
+      expect(data.session.actionChecks).toHaveLength(1);
+      expect(data.session.actionChecks[0]).toMatchObject({ allowed: false, targetFile: '.env' });
+      expect(data.session.actionChecks[0].rule).toHaveProperty('type', 'forbidden-file');
+      expect(data.session.attempts).toHaveLength(1);
+    });
+
+    test('should return 404 for an unknown session', async ({ request }) => {
+      const response = await request.get('/api/safety/sessions/safety_missing');
+      expect(response.status()).toBe(404);
+    });
   });
 
   test.describe('Error handling', () => {
@@ -371,3 +460,225 @@ test.describe('Safety Integration with Pattern Routes', () => {
     });
   });
 });
+
+test.describe('Decision contradiction engine', () => {
+  const drizzle = DecisionLogService.createDecision({
+    decision: 'Use Drizzle ORM for database access',
+    category: 'tech-stack',
+    reasoning: 'Better TypeScript support',
+    madeBy: 'user',
+    impact: 'high',
+    relatedFiles: ['src/db/', 'drizzle.config.ts'],
+  });
+  const serverSide = DecisionLogService.createDecision({
+    decision: 'Patterns stay server-side',
+    category: 'architecture',
+    reasoning: 'Never ship patterns to the user project',
+    madeBy: 'user',
+    reversible: false,
+    impact: 'critical',
+  });
+
+  test('infers typed constraints from the decision text', () => {
+    expect(drizzle.constraints).toEqual([{ subject: 'orm', value: 'drizzle' }]);
+    expect(serverSide.constraints).toEqual([{ subject: 'storage-location', value: 'server' }]);
+  });
+
+  test('flags a different value for a decided subject with a suggestion and affected files', () => {
+    const result = DecisionLogService.checkContradiction(
+      'Add a Prisma model for invoices',
+      [drizzle],
+      { targetFile: 'src/db/invoices.ts' }
+    );
+
+    expect(result.hasContradiction).toBe(true);
+    expect(result.subject).toBe('orm');
+    expect(result.explanation).toContain('prisma');
+    expect(result.suggestion).toContain('Keep drizzle');
+    expect(result.affectedFiles).toEqual(['src/db/']);
+  });
+
+  test('flags moving away from a decided value', () => {
+    const result = DecisionLogService.checkContradiction('Replace Drizzle with raw SQL queries', [drizzle]);
+
+    expect(result.hasContradiction).toBe(true);
+    expect(result.explanation).toContain('moves away from drizzle');
+  });
+
+  test('does not flag actions that agree with or ignore the decision', () => {
+    expect(DecisionLogService.checkContradiction('Add a drizzle migration for invoices', [drizzle]).hasContradiction).toBe(false);
+    expect(DecisionLogService.checkContradiction('Replace Prisma with Drizzle', [drizzle]).hasContradiction).toBe(false);
+    expect(DecisionLogService.checkContradiction('Fix the local dev server port', [serverSide]).hasContradiction).toBe(false);
+  });
+
+  test('checks storage location against server-side decisions', () => {
+    const result = DecisionLogService.checkContradiction('Cache patterns in localStorage', [serverSide]);
+
+    expect(result.hasContradiction).toBe(true);
+    expect(result.subject).toBe('storage-location');
+    expect(result.suggestion).toContain('irreversible');
+  });
+
+  test('lets the newest decision on a subject win and retires the one it replaces', () => {
+    const redux = DecisionLogService.createDecision({
+      decision: 'Use Redux for client state',
+      category: 'tech-stack',
+      reasoning: 'Team knows it',
+      madeBy: 'user',
+      impact: 'medium',
+    });
+    const zustand = DecisionLogService.createDecision({
+      decision: 'Replace Redux with Zustand',
+      category: 'tech-stack',
+      reasoning: 'Less boilerplate',
+      madeBy: 'user',
+      impact: 'medium',
+    });
+
+    expect(DecisionLogService.checkContradiction('Add a zustand store', [redux]).hasContradiction).toBe(true);
+    // Newest wins even before the old decision is marked
+    expect(DecisionLogService.checkContradiction('Add a zustand store', [redux, zustand]).hasContradiction).toBe(false);
+    expect(DecisionLogService.checkContradiction('Add a redux slice', [redux, zustand]).conflictingDecision).toBe(zustand);
+
+    const [retired] = DecisionLogService.findSuperseded(zustand, [redux, drizzle, serverSide]);
+    expect(retired).toMatchObject({ id: redux.id, supersededBy: zustand.id });
+    expect(DecisionLogService.findSuperseded(zustand, [redux, drizzle, serverSide])).toHaveLength(1);
+    expect(DecisionLogService.checkContradiction('Add a zustand store', [retired]).hasContradiction).toBe(false);
+    expect(DecisionLogService.formatDecisionForMarkdown(retired)).toContain(`**Superseded by:** ${zustand.id}`);
+    expect(DecisionLogService.formatForPrompt([retired, zustand])).not.toContain('Use Redux');
+  });
+
+  test('never retires an irreversible decision', () => {
+    const clientSide = DecisionLogService.createDecision({
+      decision: 'Move patterns client-side',
+      category: 'architecture',
+      reasoning: 'Offline mode',
+      madeBy: 'ai',
+      impact: 'high',
+    });
+
+    expect(DecisionLogService.findSuperseded(clientSide, [serverSide])).toEqual([]);
+    expect(DecisionLogService.checkContradiction('Cache patterns in localStorage', [serverSide, clientSide]).conflictingDecision).toBe(serverSide);
+  });
+
+  test('keeps the free-text fallback for what subjects do not cover', () => {
+    const result = DecisionLogService.checkContradiction('Embed the patterns in the CLI bundle', [serverSide]);
+
+    expect(result.hasContradiction).toBe(true);
+    expect(result.subject).toBeUndefined();
+    expect(result.explanation).toContain('embed/ship');
+  });
+});
+
+test.describe('Scope lock rules', () => {
+  const inviteService = [
+    'export class TeamInviteService {',
+    '  static async createInvite(email: string) {',
+    '    return { email };',
+    '  }',
+    '',
+    '  static async revokeInvite(id: string) {',
+    '    return id;',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+  const createLock = (inferredScope: Parameters<typeof ScopeLockService.createScopeLock>[0]['inferredScope']) =>
+    ScopeLockService.createScopeLock({ userRequest: 'Add invite throttling', inferredScope });
+
+  test('applies allowed globs in order with negations', () => {
+    const lock = createLock({ allowedPatterns: ['src/**/*.ts', '!src/db/**'] });
+
+    expect(ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile: 'src/services/team-invite-service.ts' }).allowed).toBe(true);
+
+    const excluded = ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile: 'src/db/schema.ts' });
+    expect(excluded.allowed).toBe(false);
+    expect(excluded.violation?.rule).toEqual({ type: 'schema', value: 'canModifySchema: false' });
+
+    const outside = ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile: 'src/db/index.ts' });
+    expect(outside.violation?.rule).toEqual({ type: 'allowed-paths', value: '!src/db/**' });
+
+    const notListed = ScopeLockService.checkAction(lock, { type: 'create-file', targetFile: 'README.md' });
+    expect(notListed.violation?.rule).toEqual({ type: 'allowed-paths', value: 'src/**/*.ts' });
+  });
+
+  test('matches forbidden globs', () => {
+    const lock = createLock({ forbiddenFiles: ['**/*.test.ts'] });
+    const result = ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile: 'src/lib/api-utils.test.ts' });
+
+    expect(result.violation?.rule).toEqual({ type: 'forbidden-file', value: '**/*.test.ts' });
+  });
+
+  test('limits edits in a file to the named symbols', () => {
+    const lock = createLock({
+      symbolRules: [{ file: 'src/services/team-invite-service.ts', symbols: ['createInvite'] }],
+    });
+    const targetFile = 'src/services/team-invite-service.ts';
+
+    const inside = ScopeLockService.checkAction(lock, {
+      type: 'modify-file',
+      targetFile,
+      originalContent: inviteService,
+      newContent: inviteService.replace('return { email };', 'return { email: email.trim() };'),
+    });
+    expect(inside.allowed).toBe(true);
+    expect(inside.linesChanged).toBe(2);
+
+    const outside = ScopeLockService.checkAction(lock, {
+      type: 'modify-file',
+      targetFile,
+      originalContent: inviteService,
+      newContent: inviteService.replace('return id;', 'return id.trim();'),
+    });
+    expect(outside.allowed).toBe(false);
+    expect(outside.reason).toContain('TeamInviteService.revokeInvite');
+    expect(outside.violation?.rule).toEqual({ type: 'symbols', value: `${targetFile}: createInvite` });
+
+    const unverified = ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile });
+    expect(unverified.allowed).toBe(false);
+
+    expect(ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile, symbols: ['TeamInviteService.createInvite'] }).allowed).toBe(true);
+  });
+
+  test('derives symbols from the contents rather than what the caller reports', () => {
+    const lock = createLock({
+      symbolRules: [{ file: 'src/services/team-invite-service.ts', symbols: ['createInvite'] }],
+    });
+    const targetFile = 'src/services/team-invite-service.ts';
+
+    const misreported = ScopeLockService.checkAction(lock, {
+      type: 'modify-file',
+      targetFile,
+      symbols: ['TeamInviteService.createInvite'],
+      linesChanged: 1,
+      originalContent: inviteService,
+      newContent: inviteService.replace('return id;', 'return id.trim();'),
+    });
+    expect(misreported.allowed).toBe(false);
+    expect(misreported.reason).toContain('TeamInviteService.revokeInvite');
+
+    // Brackets inside strings and comments don't shift declaration boundaries
+    const tricky = inviteService.replace('return { email };', "// }\n    return { email, note: '} }' };");
+    const parsed = ScopeLockService.checkAction(lock, {
+      type: 'modify-file',
+      targetFile,
+      originalContent: tricky,
+      newContent: tricky.replace('return id;', 'return id.trim();'),
+    });
+    expect(parsed.allowed).toBe(false);
+    expect(parsed.reason).toContain('TeamInviteService.revokeInvite');
+  });
+
+  test('caps lines changed across the task', () => {
+    const lock = createLock({ maxLinesChanged: 10 });
+
+    const first = ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile: 'src/a.ts', linesChanged: 8 });
+    expect(first.allowed).toBe(true);
+    lock.changes.linesChanged += first.linesChanged || 0;
+
+    const second = ScopeLockService.checkAction(lock, { type: 'modify-file', targetFile: 'src/b.ts', linesChanged: 5 });
+    expect(second.allowed).toBe(false);
+    expect(second.violation?.rule).toEqual({ type: 'max-lines', value: '10' });
+  });
+});